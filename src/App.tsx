@@ -13,13 +13,28 @@ import Packages from "./pages/Packages";
 import Customers from "./pages/Customers";
 import CustomerView from "./pages/CustomerView";
 import CustomerEdit from "./pages/CustomerEdit";
+import CustomerDuplicates from "./pages/CustomerDuplicates";
+import CustomerImport from "./pages/CustomerImport";
 import Orders from "./pages/Orders";
 import OrderCreate from "./pages/OrderCreate";
 import OrderView from "./pages/OrderView";
+import OrderVoucher from "./pages/OrderVoucher";
 import OrderEdit from "./pages/OrderEdit";
+import Quotes from "./pages/Quotes";
+import QuoteForm from "./pages/QuoteForm";
+import QuoteView from "./pages/QuoteView";
+import QuoteShare from "./pages/QuoteShare";
 import Payments from "./pages/Payments";
+import PaymentReceipt from "./pages/PaymentReceipt";
+import BankReconciliation from "./pages/BankReconciliation";
+import BoletoRemittances from "./pages/BoletoRemittances";
+import AccountsPayable from "./pages/AccountsPayable";
+import Suppliers from "./pages/Suppliers";
+import CashFlow from "./pages/CashFlow";
+import Commissions from "./pages/Commissions";
 import Birthdays from "./pages/Birthdays";
 import Delinquency from "./pages/Delinquency";
+import DocumentExpiry from "./pages/DocumentExpiry";
 import OrganizationSettings from "./pages/OrganizationSettings";
 import CreateOrganization from "./pages/CreateOrganization";
 import AcceptInvite from "./pages/AcceptInvite";
@@ -50,15 +65,31 @@ const App = () => (
           <Route path="/dashboard" element={<MainLayout><Dashboard /></MainLayout>} />
           <Route path="/packages" element={<MainLayout><Packages /></MainLayout>} />
           <Route path="/customers" element={<MainLayout><Customers /></MainLayout>} />
+          <Route path="/customers/duplicates" element={<MainLayout><CustomerDuplicates /></MainLayout>} />
+          <Route path="/customers/import" element={<MainLayout><CustomerImport /></MainLayout>} />
           <Route path="/customers/:id" element={<MainLayout><CustomerView /></MainLayout>} />
           <Route path="/customers/:id/edit" element={<MainLayout><CustomerEdit /></MainLayout>} />
           <Route path="/orders" element={<MainLayout><Orders /></MainLayout>} />
           <Route path="/orders/create" element={<MainLayout><OrderCreate /></MainLayout>} />
           <Route path="/orders/:id" element={<MainLayout><OrderView /></MainLayout>} />
+          <Route path="/orders/:id/voucher" element={<OrderVoucher />} />
           <Route path="/orders/:id/edit" element={<MainLayout><OrderEdit /></MainLayout>} />
+          <Route path="/quotes" element={<MainLayout><Quotes /></MainLayout>} />
+          <Route path="/quotes/create" element={<MainLayout><QuoteForm /></MainLayout>} />
+          <Route path="/quotes/share/:token" element={<QuoteShare />} />
+          <Route path="/quotes/:id" element={<MainLayout><QuoteView /></MainLayout>} />
+          <Route path="/quotes/:id/edit" element={<MainLayout><QuoteForm /></MainLayout>} />
           <Route path="/payments" element={<MainLayout><Payments /></MainLayout>} />
           <Route path="/birthdays" element={<MainLayout><Birthdays /></MainLayout>} />
+          <Route path="/receipts/:id" element={<PaymentReceipt />} />
+          <Route path="/reconciliation" element={<MainLayout><BankReconciliation /></MainLayout>} />
+          <Route path="/boletos" element={<MainLayout><BoletoRemittances /></MainLayout>} />
+          <Route path="/payables" element={<MainLayout><AccountsPayable /></MainLayout>} />
+          <Route path="/suppliers" element={<MainLayout><Suppliers /></MainLayout>} />
+          <Route path="/cash-flow" element={<MainLayout><CashFlow /></MainLayout>} />
+          <Route path="/commissions" element={<MainLayout><Commissions /></MainLayout>} />
           <Route path="/delinquency" element={<MainLayout><Delinquency /></MainLayout>} />
+          <Route path="/document-expiry" element={<MainLayout><DocumentExpiry /></MainLayout>} />
           <Route path="/organization/settings" element={<MainLayout><OrganizationSettings /></MainLayout>} />
         <Route 
           path="/organization/create" 
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { z } from "zod";
+import { CUSTOMER_DOCUMENT_TYPE_OPTIONS, type CustomerDocumentType } from "@/lib/constants";
+import { customerDocumentSchema } from "@/lib/validations";
+import { saveCustomerDocument, type CustomerDocument } from "@/lib/customerDocuments";
+
+interface CustomerDocumentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+  customerId: string;
+  /** Documento em edição; null para cadastrar um novo */
+  document: CustomerDocument | null;
+  onSaved: () => void;
+}
+
+// Limite da digitalização enviada (10 MB)
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const EMPTY_FORM = {
+  document_type: "passport" as CustomerDocumentType,
+  document_number: "",
+  issuing_country: "Brasil",
+  issue_date: "",
+  expiry_date: "",
+  notes: "",
+};
+
+/**
+ * Cadastro e edição de documentos de viagem do cliente (passaporte, visto, RG...),
+ * com envio opcional da digitalização.
+ *
+ * EN: Creates and edits a customer's travel documents, with an optional scanned file.
+ */
+export const CustomerDocumentFormDialog = ({
+  open,
+  onOpenChange,
+  organizationId,
+  customerId,
+  document,
+  onSaved,
+}: CustomerDocumentFormDialogProps) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [file, setFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setFormData(
+      document
+        ? {
+            document_type: document.document_type,
+            document_number: document.document_number,
+            issuing_country: document.issuing_country || "",
+            issue_date: document.issue_date || "",
+            expiry_date: document.expiry_date || "",
+            notes: document.notes || "",
+          }
+        : EMPTY_FORM
+    );
+  }, [open, document]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    if (selected && selected.size > MAX_FILE_SIZE) {
+      toast.error("O arquivo deve ter no máximo 10 MB");
+      e.target.value = "";
+      setFile(null);
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const validated = customerDocumentSchema.parse(formData);
+      const { error } = await saveCustomerDocument({
+        organizationId,
+        customerId,
+        userId: user.id,
+        values: validated,
+        existing: document,
+        file,
+      });
+      if (error) {
+        toast.error("Erro ao salvar documento");
+        return;
+      }
+
+      toast.success(document ? "Documento atualizado!" : "Documento cadastrado!");
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar dados do documento");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{document ? "Editar Documento" : "Novo Documento"}</DialogTitle>
+          <DialogDescription>Documento de viagem do cliente e sua validade</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select
+                value={formData.document_type}
+                onValueChange={(value) => setFormData({ ...formData, document_type: value as CustomerDocumentType })}
+                disabled={saving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOMER_DOCUMENT_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="document-number">Número *</Label>
+              <Input
+                id="document-number"
+                value={formData.document_number}
+                onChange={(e) => setFormData({ ...formData, document_number: e.target.value })}
+                maxLength={50}
+                disabled={saving}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="document-country">País emissor</Label>
+              <Input
+                id="document-country"
+                value={formData.issuing_country}
+                onChange={(e) => setFormData({ ...formData, issuing_country: e.target.value })}
+                maxLength={60}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-issue-date">Emissão</Label>
+              <Input
+                id="document-issue-date"
+                type="date"
+                value={formData.issue_date}
+                onChange={(e) => setFormData({ ...formData, issue_date: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-expiry-date">
+                Validade{formData.document_type === "passport" || formData.document_type === "visa" ? " *" : ""}
+              </Label>
+              <Input
+                id="document-expiry-date"
+                type="date"
+                value={formData.expiry_date}
+                onChange={(e) => setFormData({ ...formData, expiry_date: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="document-file">Digitalização (PDF ou imagem)</Label>
+            <Input
+              id="document-file"
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={handleFileChange}
+              disabled={saving}
+            />
+            {document?.file_name && (
+              <p className="text-xs text-muted-foreground">
+                {file ? "O arquivo atual será substituído: " : "Arquivo atual: "}
+                {document.file_name}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="document-notes">Observações</Label>
+            <Textarea
+              id="document-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              disabled={saving}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
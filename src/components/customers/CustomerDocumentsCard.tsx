@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, IdCard, Paperclip, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  deleteCustomerDocument,
+  getCustomerDocumentTypeLabel,
+  getCustomerDocumentUrl,
+  listCustomerDocuments,
+  type CustomerDocument,
+} from "@/lib/customerDocuments";
+import { CustomerDocumentFormDialog } from "./CustomerDocumentFormDialog";
+import { DocumentExpiryBadge } from "./DocumentExpiryBadge";
+
+interface CustomerDocumentsCardProps {
+  customerId: string;
+  organizationId: string;
+  canEdit: boolean;
+  isOrgAdmin: boolean;
+}
+
+const formatDate = (date: string | null) => (date ? format(new Date(`${date}T00:00:00`), "dd/MM/yyyy") : "-");
+
+/**
+ * Documentos de viagem do cliente (passaporte, visto, RG...) com validade e digitalização.
+ * EN: Customer travel documents (passport, visa, ID...) with expiry and scanned file.
+ */
+export const CustomerDocumentsCard = ({ customerId, organizationId, canEdit, isOrgAdmin }: CustomerDocumentsCardProps) => {
+  const [documents, setDocuments] = useState<CustomerDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<CustomerDocument | null>(null);
+  const [deleting, setDeleting] = useState<CustomerDocument | null>(null);
+  const [removing, setRemoving] = useState(false);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [customerId]);
+
+  const loadDocuments = async () => {
+    const { documents: data, error } = await listCustomerDocuments(customerId);
+    if (error) {
+      toast.error("Erro ao carregar documentos do cliente");
+    }
+    setDocuments(data);
+    setLoading(false);
+  };
+
+  const openForm = (document: CustomerDocument | null) => {
+    setEditing(document);
+    setFormOpen(true);
+  };
+
+  const openFile = async (document: CustomerDocument) => {
+    const url = document.file_path ? await getCustomerDocumentUrl(document.file_path) : null;
+    if (!url) {
+      toast.error("Não foi possível abrir o arquivo");
+      return;
+    }
+    window.open(url, "_blank", "noopener,noreferrer");
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setRemoving(true);
+    const { error } = await deleteCustomerDocument(deleting);
+    setRemoving(false);
+    if (error) {
+      toast.error("Erro ao excluir documento");
+      return;
+    }
+    toast.success("Documento excluído!");
+    setDeleting(null);
+    loadDocuments();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <IdCard className="w-5 h-5" />
+              Documentos ({documents.length})
+            </CardTitle>
+            <CardDescription>Passaporte, vistos e documentos de identificação para viagens</CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={() => openForm(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar Documento
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground text-center py-8">Carregando...</p>
+        ) : documents.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Número</TableHead>
+                <TableHead>País</TableHead>
+                <TableHead>Emissão</TableHead>
+                <TableHead>Validade</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((document) => (
+                <TableRow key={document.id}>
+                  <TableCell className="font-medium">{getCustomerDocumentTypeLabel(document.document_type)}</TableCell>
+                  <TableCell>{document.document_number}</TableCell>
+                  <TableCell>{document.issuing_country || "-"}</TableCell>
+                  <TableCell>{formatDate(document.issue_date)}</TableCell>
+                  <TableCell>{formatDate(document.expiry_date)}</TableCell>
+                  <TableCell>
+                    <DocumentExpiryBadge expiryDate={document.expiry_date} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      {document.file_path && (
+                        <Button variant="ghost" size="icon" onClick={() => openFile(document)} title={document.file_name ?? undefined}>
+                          <Paperclip className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canEdit && (
+                        <Button variant="ghost" size="icon" onClick={() => openForm(document)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {isOrgAdmin && (
+                        <Button variant="ghost" size="icon" onClick={() => setDeleting(document)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">Nenhum documento cadastrado</p>
+        )}
+      </CardContent>
+
+      <CustomerDocumentFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        organizationId={organizationId}
+        customerId={customerId}
+        document={editing}
+        onSaved={loadDocuments}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir Documento</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting && (
+                <>
+                  Tem certeza que deseja excluir o documento{" "}
+                  <strong>
+                    {getCustomerDocumentTypeLabel(deleting.document_type)} {deleting.document_number}
+                  </strong>
+                  ? A digitalização também será removida.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={removing}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={removing}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {removing ? "Excluindo..." : "Excluir"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,94 @@
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+import { formatCpf, formatPhone } from "@/lib/utils";
+import { DUPLICATE_REASON_LABELS, type CustomerDuplicateMatch, type DuplicateCustomer } from "@/lib/customerDuplicates";
+
+interface CustomerDuplicateWarningDialogProps {
+  matches: CustomerDuplicateMatch[];
+  onOpenChange: (open: boolean) => void;
+  /** Cadastra o novo cliente mesmo assim. EN: Creates the new customer anyway. */
+  onConfirm: () => void;
+  /** Usa (ou abre) um cliente existente. EN: Uses (or opens) an existing customer. */
+  onSelect: (customer: DuplicateCustomer) => void;
+  selectLabel: string;
+  loading?: boolean;
+}
+
+/**
+ * Aviso antes de cadastrar um cliente que parece já existir (CPF, email, telefone ou nome).
+ * EN: Warning shown before creating a customer that seems to already exist.
+ */
+export const CustomerDuplicateWarningDialog = ({
+  matches,
+  onOpenChange,
+  onConfirm,
+  onSelect,
+  selectLabel,
+  loading = false,
+}: CustomerDuplicateWarningDialogProps) => {
+  // CPF é único por organização: com o mesmo CPF não dá para cadastrar outro cliente
+  const cpfTaken = matches.some((match) => match.reasons.includes("cpf"));
+
+  return (
+    <AlertDialog open={matches.length > 0} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-amber-500" />
+            Possível cliente duplicado
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {matches.length === 1
+              ? "Encontramos um cliente cadastrado que parece ser a mesma pessoa."
+              : `Encontramos ${matches.length} clientes cadastrados que parecem ser a mesma pessoa.`}{" "}
+            {cpfTaken
+              ? "O CPF informado já pertence a um cliente cadastrado; use o cadastro existente."
+              : "Use o cadastro existente para manter o histórico de pedidos em um só lugar."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {matches.map(({ customer, reasons }) => (
+            <div key={customer.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+              <div className="min-w-0 space-y-1">
+                <p className="font-medium truncate">{customer.full_name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {[customer.email, formatPhone(customer.phone), customer.cpf && formatCpf(customer.cpf), customer.city]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {reasons.map((reason) => (
+                    <Badge key={reason} variant="secondary">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => onSelect(customer)}>
+                {selectLabel}
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={loading}>Voltar</AlertDialogCancel>
+          {!cpfTaken && (
+            <Button type="button" variant="gradient" onClick={onConfirm} disabled={loading}>
+              {loading ? "Cadastrando..." : "Cadastrar mesmo assim"}
+            </Button>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
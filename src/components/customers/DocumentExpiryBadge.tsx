@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { getDocumentExpiryStatus } from "@/lib/customerDocuments";
+import { daysBetween, todayDateOnly } from "@/lib/lateFees";
+
+/**
+ * Situação da validade do documento: "Vencido", "Vence em N dias" (dentro da margem) ou "Válido".
+ * EN: Document expiry badge: expired, expiring within the buffer, or valid.
+ */
+export const DocumentExpiryBadge = ({ expiryDate }: { expiryDate: string | null }) => {
+  const status = getDocumentExpiryStatus(expiryDate);
+  if (!status || !expiryDate) {
+    return <Badge variant="secondary">Sem validade</Badge>;
+  }
+  if (status === "expired") {
+    return <Badge variant="destructive">Vencido</Badge>;
+  }
+  if (status === "expiring") {
+    const days = daysBetween(todayDateOnly(), expiryDate);
+    return (
+      <Badge variant="outline" className="border-amber-500 text-amber-600">
+        {days === 0 ? "Vence hoje" : `Vence em ${days} dia(s)`}
+      </Badge>
+    );
+  }
+  return <Badge variant="default">Válido</Badge>;
+};
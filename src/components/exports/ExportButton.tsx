@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { EXPORT_FORMAT_LABELS, exportList, type ExportColumn, type ExportFormat } from "@/lib/exports";
+
+interface ExportButtonProps<T> {
+  organizationId: string | null;
+  title: string;
+  fileName: string;
+  columns: ExportColumn<T>[];
+  /** Registros já filtrados pela página. EN: Rows already filtered by the page. */
+  rows: T[];
+}
+
+/**
+ * Botão "Exportar" das listas: escolhe formato (CSV, XLSX ou PDF) e colunas e exporta
+ * exatamente os registros filtrados na tela.
+ *
+ * EN: List "Export" button: picks format (CSV, XLSX or PDF) and columns, and exports
+ * exactly the rows currently filtered on screen.
+ */
+export function ExportButton<T>({ organizationId, title, fileName, columns, rows }: ExportButtonProps<T>) {
+  const [open, setOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("xlsx");
+  const [selectedKeys, setSelectedKeys] = useState<string[]>(() =>
+    columns.filter((column) => !column.optional).map((column) => column.key)
+  );
+  const [exporting, setExporting] = useState(false);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedKeys((prev) => (checked ? [...prev, key] : prev.filter((selected) => selected !== key)));
+  };
+
+  const handleExport = async () => {
+    if (!organizationId) return;
+    setExporting(true);
+    try {
+      const { error } = await exportList({
+        format: exportFormat,
+        organizationId,
+        title,
+        fileName,
+        // Mantém a ordem original das colunas
+        columns: columns.filter((column) => selectedKeys.includes(column.key)),
+        rows,
+      });
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      toast.success(`${rows.length} registro(s) exportado(s)`);
+      setOpen(false);
+    } catch (error) {
+      toast.error("Erro ao gerar o arquivo de exportação");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} disabled={!organizationId} className="gap-2">
+        <Download className="h-4 w-4" />
+        Exportar
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Exportar {title}</DialogTitle>
+            <DialogDescription>
+              {rows.length} registro(s) com os filtros aplicados. Valores em reais e datas no formato brasileiro.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Formato</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Colunas</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {columns.map((column) => (
+                  <div key={column.key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-column-${column.key}`}
+                      checked={selectedKeys.includes(column.key)}
+                      onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    />
+                    <Label htmlFor={`export-column-${column.key}`} className="font-normal">
+                      {column.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={exporting}>
+              Cancelar
+            </Button>
+            <Button onClick={handleExport} disabled={exporting || selectedKeys.length === 0 || rows.length === 0}>
+              {exporting ? "Exportando..." : "Exportar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -15,16 +15,20 @@ interface FilterBarProps {
    * Example: "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4".
    */
   gridClassName?: string;
+  /**
+   * Optional actions shown on the right of the header (e.g. the export button).
+   */
+  actions?: React.ReactNode;
 }
 
 /**
  * Componente de barra de filtros com cabeçalho e conteúdo colapsável.
- * Permite exibir contagem de resultados e limpar filtros ativos.
+ * Permite exibir contagem de resultados, limpar filtros ativos e ações sobre os resultados (ex.: exportar).
  *
  * EN: Filter bar component with a collapsible content area.
- * Supports showing result counts and clearing active filters.
+ * Supports showing result counts, clearing active filters and result actions (e.g. export).
  */
-export function FilterBar({ children, onClear, activeFiltersCount, resultsCount, totalCount, gridClassName }: FilterBarProps) {
+export function FilterBar({ children, onClear, activeFiltersCount, resultsCount, totalCount, gridClassName, actions }: FilterBarProps) {
   const [isExpanded, setIsExpanded] = useState(true);
 
   return (
@@ -53,12 +57,15 @@ export function FilterBar({ children, onClear, activeFiltersCount, resultsCount,
               </span>
             )}
           </div>
-          {activeFiltersCount > 0 && (
-            <Button variant="ghost" size="sm" onClick={onClear} className="gap-2 text-destructive hover:text-destructive">
-              <X className="h-4 w-4" />
-              Limpar Filtros
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {activeFiltersCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={onClear} className="gap-2 text-destructive hover:text-destructive">
+                <X className="h-4 w-4" />
+                Limpar Filtros
+              </Button>
+            )}
+            {actions}
+          </div>
         </div>
         {isExpanded && (
           <div className={gridClassName ?? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"}>{children}</div>
@@ -1,4 +1,4 @@
-import { Home, Package, Users, ShoppingCart, DollarSign, Calendar, AlertTriangle, Building2, UserCog, Settings, UserCircle } from "lucide-react";
+import { Home, Package, Users, FileText, ShoppingCart, DollarSign, Calendar, AlertTriangle, Building2, Landmark, Barcode, Wallet, Truck, LineChart, BadgePercent, IdCard, UserCog, Settings, UserCircle } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
@@ -23,13 +23,21 @@ const mainItems = [
   { title: "Dashboard", url: "/dashboard", icon: Home },
   { title: "Pacotes", url: "/packages", icon: Package },
   { title: "Clientes", url: "/customers", icon: Users },
+  { title: "Orçamentos", url: "/quotes", icon: FileText },
   { title: "Pedidos", url: "/orders", icon: ShoppingCart },
   { title: "Pagamentos", url: "/payments", icon: DollarSign },
+  { title: "Conciliação", url: "/reconciliation", icon: Landmark },
+  { title: "Boletos", url: "/boletos", icon: Barcode },
+  { title: "Contas a Pagar", url: "/payables", icon: Wallet },
+  { title: "Fornecedores", url: "/suppliers", icon: Truck },
 ];
 
 const reportItems = [
   { title: "Aniversariantes", url: "/birthdays", icon: Calendar },
   { title: "Inadimplência", url: "/delinquency", icon: AlertTriangle },
+  { title: "Documentos a Vencer", url: "/document-expiry", icon: IdCard },
+  { title: "Fluxo de Caixa", url: "/cash-flow", icon: LineChart },
+  { title: "Comissões", url: "/commissions", icon: BadgePercent },
 ];
 
 const settingsItems = [
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Ban, CheckCircle2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { REFUND_STATUS_OPTIONS } from "@/lib/constants";
+import { formatCurrency } from "@/lib/utils";
+
+interface OrderCancellationCardProps {
+  orderId: string;
+  canEdit: boolean;
+}
+
+type Cancellation = Tables<"order_cancellations">;
+type Refund = Tables<"order_refunds">;
+
+const getRefundStatusLabel = (status: string) =>
+  REFUND_STATUS_OPTIONS.find((opt) => opt.value === status)?.label || status;
+
+/**
+ * Resumo do cancelamento do pedido (multa aplicada) e dos reembolsos, com ação para marcar
+ * o reembolso como devolvido.
+ *
+ * EN: Order cancellation summary (applied penalty) and refunds, with a "mark as refunded" action.
+ */
+export const OrderCancellationCard = ({ orderId, canEdit }: OrderCancellationCardProps) => {
+  const [cancellation, setCancellation] = useState<Cancellation | null>(null);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadData();
+  }, [orderId]);
+
+  const loadData = async () => {
+    const [cancellationRes, refundsRes] = await Promise.all([
+      supabase
+        .from("order_cancellations")
+        .select("*")
+        .eq("order_id", orderId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase.from("order_refunds").select("*").eq("order_id", orderId).order("created_at", { ascending: true }),
+    ]);
+
+    if (cancellationRes.error || refundsRes.error) {
+      toast.error("Erro ao carregar dados do cancelamento");
+    }
+    setCancellation(cancellationRes.data);
+    setRefunds(refundsRes.data || []);
+    setLoading(false);
+  };
+
+  const markAsRefunded = async (refund: Refund) => {
+    const { error } = await supabase
+      .from("order_refunds")
+      .update({
+        status: "completed",
+        refund_date: refund.refund_date || format(new Date(), "yyyy-MM-dd"),
+      })
+      .eq("id", refund.id);
+
+    if (error) {
+      toast.error("Erro ao atualizar reembolso");
+      return;
+    }
+    toast.success("Reembolso marcado como devolvido");
+    loadData();
+  };
+
+  if (loading || !cancellation) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ban className="w-5 h-5" />
+          Cancelamento
+        </CardTitle>
+        <CardDescription>
+          Cancelado em {format(new Date(cancellation.created_at || ""), "dd/MM/yyyy")}, {cancellation.days_before_travel} dia(s)
+          antes da viagem
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Valor pago</p>
+            <p className="font-medium">{formatCurrency(Number(cancellation.paid_amount))}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Multa ({Number(cancellation.penalty_percent)}%)</p>
+            <p className="font-medium">{formatCurrency(Number(cancellation.penalty_amount))}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Reembolso</p>
+            <p className="font-medium text-primary">{formatCurrency(Number(cancellation.refund_amount))}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Motivo</p>
+            <p className="font-medium">{cancellation.reason}</p>
+          </div>
+        </div>
+
+        {refunds.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Valor</TableHead>
+                <TableHead>Forma</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead>Status</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {refunds.map((refund) => (
+                <TableRow key={refund.id}>
+                  <TableCell className="font-medium">{formatCurrency(Number(refund.amount))}</TableCell>
+                  <TableCell>{refund.refund_method || "-"}</TableCell>
+                  <TableCell>
+                    {refund.refund_date ? format(new Date(`${refund.refund_date}T00:00:00`), "dd/MM/yyyy") : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={refund.status === "completed" ? "default" : "outline"}>
+                      {getRefundStatusLabel(refund.status)}
+                    </Badge>
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      {refund.status === "pending" && (
+                        <Button variant="outline" size="sm" onClick={() => markAsRefunded(refund)}>
+                          <CheckCircle2 className="w-4 h-4 mr-2" />
+                          Marcar como devolvido
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { z } from "zod";
+import { PAYMENT_METHODS } from "@/lib/constants";
+import { orderCancellationSchema } from "@/lib/validations";
+import { cancelOrder, getCancellationPreview, type CancellationPreview } from "@/lib/cancellations";
+import { getStatusTransitionMessage } from "@/lib/orders";
+import { formatCurrency } from "@/lib/utils";
+
+interface OrderCancellationWizardProps {
+  orderId: string;
+  orderNumber: string;
+  trigger: React.ReactNode;
+  /** Chamado após o cancelamento ser gravado. EN: Called after the cancellation is saved. */
+  onCancelled?: () => void;
+}
+
+type WizardStep = "summary" | "refund" | "confirm";
+
+const STEP_TITLES: Record<WizardStep, string> = {
+  summary: "1. Multa e valores",
+  refund: "2. Motivo e reembolso",
+  confirm: "3. Confirmação",
+};
+
+const emptyForm = () => ({
+  reason: "",
+  refund_method: "",
+  refund_date: format(new Date(), "yyyy-MM-dd"),
+  refund_completed: false,
+});
+
+/**
+ * Assistente de cancelamento do pedido: mostra a multa da política da organização e o valor a
+ * reembolsar, coleta motivo e dados do reembolso e cancela o pedido em uma única operação
+ * (parcelas em aberto canceladas e vagas liberadas).
+ *
+ * EN: Order cancellation wizard: shows the policy penalty and refundable amount, collects the reason
+ * and refund details, then cancels the order in a single database operation.
+ */
+export const OrderCancellationWizard = ({ orderId, orderNumber, trigger, onCancelled }: OrderCancellationWizardProps) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<WizardStep>("summary");
+  const [preview, setPreview] = useState<CancellationPreview | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (open) {
+      setStep("summary");
+      setForm(emptyForm());
+      loadPreview();
+    }
+  }, [open]);
+
+  const loadPreview = async () => {
+    setLoadingPreview(true);
+    const { preview: data, error } = await getCancellationPreview(orderId);
+    if (error) {
+      toast.error("Erro ao calcular o cancelamento");
+    }
+    setPreview(data);
+    setLoadingPreview(false);
+  };
+
+  const refundAmount = Number(preview?.refund_amount || 0);
+
+  const goToConfirm = () => {
+    try {
+      orderCancellationSchema.parse(form);
+      setStep("confirm");
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      const validated = orderCancellationSchema.parse(form);
+      const { error } = await cancelOrder(orderId, validated);
+
+      if (error) {
+        toast.error(getStatusTransitionMessage(error) || error.message || "Erro ao cancelar pedido");
+        return;
+      }
+
+      toast.success(`Pedido ${orderNumber} cancelado`);
+      setOpen(false);
+      onCancelled?.();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao cancelar pedido");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const summaryRows = preview
+    ? [
+        { label: "Dias até a viagem", value: String(preview.days_before_travel) },
+        { label: "Multa da política", value: `${Number(preview.penalty_percent)}%` },
+        { label: "Valor do pedido", value: formatCurrency(Number(preview.order_total)) },
+        { label: "Valor já pago", value: formatCurrency(Number(preview.paid_amount)) },
+        { label: "Multa", value: formatCurrency(Number(preview.penalty_amount)) },
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Cancelar Pedido {orderNumber}</DialogTitle>
+          <DialogDescription>{STEP_TITLES[step]}</DialogDescription>
+        </DialogHeader>
+
+        {step === "summary" && (
+          <div className="space-y-4">
+            {loadingPreview || !preview ? (
+              <p className="text-muted-foreground">{loadingPreview ? "Calculando..." : "Não foi possível calcular."}</p>
+            ) : (
+              <>
+                <dl className="space-y-2 text-sm">
+                  {summaryRows.map((row) => (
+                    <div key={row.label} className="flex justify-between">
+                      <dt className="text-muted-foreground">{row.label}</dt>
+                      <dd className="font-medium">{row.value}</dd>
+                    </div>
+                  ))}
+                  <div className="flex justify-between border-t pt-2">
+                    <dt className="font-semibold">Valor a reembolsar</dt>
+                    <dd className="font-bold text-primary">{formatCurrency(refundAmount)}</dd>
+                  </div>
+                </dl>
+                <p className="text-xs text-muted-foreground">
+                  A multa incide sobre o valor do pedido e é descontada do que já foi pago.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        {step === "refund" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="cancellation-reason">Motivo do cancelamento *</Label>
+              <Textarea
+                id="cancellation-reason"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="Ex.: Cliente desistiu da viagem por motivo de saúde"
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            {refundAmount > 0 ? (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Forma de devolução</Label>
+                    <Select value={form.refund_method} onValueChange={(value) => setForm({ ...form, refund_method: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAYMENT_METHODS.map((method) => (
+                          <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="refund-date">Data prevista</Label>
+                    <Input
+                      id="refund-date"
+                      type="date"
+                      value={form.refund_date}
+                      onChange={(e) => setForm({ ...form, refund_date: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="refund-completed"
+                    checked={form.refund_completed}
+                    onCheckedChange={(checked) => setForm({ ...form, refund_completed: checked })}
+                  />
+                  <Label htmlFor="refund-completed">Reembolso já devolvido ao cliente</Label>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Não há valor a reembolsar para este pedido.</p>
+            )}
+          </div>
+        )}
+
+        {step === "confirm" && (
+          <div className="space-y-3 text-sm">
+            <div className="flex items-start gap-2 rounded-lg border border-destructive/50 p-3 text-destructive">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <p>O cancelamento é definitivo. Parcelas em aberto serão canceladas e as vagas do pacote liberadas.</p>
+            </div>
+            <p><span className="text-muted-foreground">Motivo:</span> {form.reason.trim()}</p>
+            <p>
+              <span className="text-muted-foreground">Reembolso:</span>{" "}
+              {refundAmount > 0
+                ? `${formatCurrency(refundAmount)} ${form.refund_completed ? "(já devolvido)" : "(a devolver)"}`
+                : "sem reembolso"}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "summary" && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === "confirm" ? "refund" : "summary")}
+              disabled={saving}
+            >
+              Voltar
+            </Button>
+          )}
+          {step === "summary" && (
+            <Button onClick={() => setStep("refund")} disabled={loadingPreview || !preview}>
+              Continuar
+            </Button>
+          )}
+          {step === "refund" && <Button onClick={goToConfirm}>Continuar</Button>}
+          {step === "confirm" && (
+            <Button variant="destructive" onClick={handleConfirm} disabled={saving}>
+              {saving ? "Cancelando..." : "Cancelar Pedido"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -109,7 +109,7 @@ export const OrderDeleteDialog = forwardRef<HTMLElement, OrderDeleteDialogProps
 
       toast({
         title: "Pedido excluído",
-        description: "O pedido e seus pagamentos foram removidos com sucesso.",
+        description: "O pedido e seus pagamentos foram removidos e as vagas foram liberadas.",
       });
 
       if (onSuccess) {
@@ -153,6 +153,9 @@ export const OrderDeleteDialog = forwardRef<HTMLElement, OrderDeleteDialogProps
             <span className="block text-destructive font-medium mt-2">
               ⚠️ Todos os pagamentos e parcelas relacionados também serão excluídos.
             </span>
+            <span className="block text-muted-foreground mt-2">
+              As vagas reservadas por este pedido serão devolvidas ao pacote.
+            </span>
             {!canDelete && (
               <span className="block text-destructive font-medium mt-2">
                 Você não tem permissão para excluir pedidos nesta organização.
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ShieldAlert } from "lucide-react";
+import { format } from "date-fns";
+import {
+  DOCUMENT_EXPIRY_BUFFER_DAYS,
+  findOrderDocumentIssues,
+  getCustomerDocumentTypeLabel,
+  loadDocumentsForCustomers,
+  type OrderDocumentIssue,
+} from "@/lib/customerDocuments";
+import { todayDateOnly } from "@/lib/lateFees";
+
+interface OrderDocumentExpiryAlertProps {
+  orderId: string;
+  travelDate: string;
+}
+
+/**
+ * Aviso de documentos dos passageiros que vencem antes da viagem ou dentro da margem
+ * de validade exigida após a data da viagem. Não aparece para viagens já realizadas.
+ *
+ * EN: Warns about passenger documents expiring before the trip or within the required
+ * validity margin after the travel date. Hidden for past trips.
+ */
+export const OrderDocumentExpiryAlert = ({ orderId, travelDate }: OrderDocumentExpiryAlertProps) => {
+  const [issues, setIssues] = useState<OrderDocumentIssue[]>([]);
+
+  useEffect(() => {
+    loadIssues();
+  }, [orderId, travelDate]);
+
+  const loadIssues = async () => {
+    if (!travelDate || travelDate.slice(0, 10) < todayDateOnly()) {
+      setIssues([]);
+      return;
+    }
+
+    const { data: passengers } = await supabase
+      .from("order_passengers")
+      .select("full_name, customer_id")
+      .eq("order_id", orderId);
+
+    const customerIds = [...new Set((passengers || []).map((p) => p.customer_id).filter(Boolean))] as string[];
+    const { documents } = await loadDocumentsForCustomers(customerIds);
+    setIssues(findOrderDocumentIssues(passengers || [], documents, travelDate));
+  };
+
+  if (issues.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <ShieldAlert className="h-4 w-4" />
+      <AlertTitle>Documentos de passageiros com validade insuficiente</AlertTitle>
+      <AlertDescription>
+        <p className="mb-2">
+          Muitos destinos exigem documentos válidos por {DOCUMENT_EXPIRY_BUFFER_DAYS} dias após a viagem.
+        </p>
+        <ul className="list-disc pl-5 space-y-1">
+          {issues.map((issue) => (
+            <li key={`${issue.customerId}-${issue.document.id}`}>
+              <Link to={`/customers/${issue.customerId}`} className="font-medium underline">
+                {issue.passengerName}
+              </Link>
+              {" — "}
+              {getCustomerDocumentTypeLabel(issue.document.document_type)} {issue.document.document_number}{" "}
+              {issue.reason === "expires_before_travel" ? "vence antes da viagem" : "vence logo após a viagem"} (
+              {format(new Date(`${issue.document.expiry_date}T00:00:00`), "dd/MM/yyyy")})
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileText, FileSignature } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { ORDER_DOCUMENT_TYPE_OPTIONS } from "@/lib/constants";
+import {
+  buildContractContext,
+  createContractPdf,
+  DEFAULT_CONTRACT_TEMPLATE,
+  loadContractData,
+  renderContractTemplate,
+  type ContractTemplate,
+} from "@/lib/contracts";
+import { downloadBlob, getOrderDocumentUrl, loadImageAsDataUrl, saveOrderDocument, slugifyFileName } from "@/lib/documents";
+
+interface OrderDocumentsCardProps {
+  orderId: string;
+  organizationId: string | null;
+  canEdit: boolean;
+}
+
+type OrderDocument = Tables<"order_documents">;
+
+// Valor do seletor quando a organização não tem modelos cadastrados
+const BUILTIN_TEMPLATE = "builtin";
+
+const getDocumentTypeLabel = (type: string) =>
+  ORDER_DOCUMENT_TYPE_OPTIONS.find((opt) => opt.value === type)?.label || type;
+
+/**
+ * Documentos do pedido: gera o contrato em PDF a partir do modelo da organização e lista os
+ * arquivos gerados (armazenados no bucket privado order-documents).
+ *
+ * EN: Order documents: generates the contract PDF from the organization template and lists
+ * the stored files.
+ */
+export const OrderDocumentsCard = ({ orderId, organizationId, canEdit }: OrderDocumentsCardProps) => {
+  const [documents, setDocuments] = useState<OrderDocument[]>([]);
+  const [templates, setTemplates] = useState<ContractTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string>(BUILTIN_TEMPLATE);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData();
+    }
+  }, [orderId, organizationId]);
+
+  const loadData = async () => {
+    const [documentsRes, templatesRes] = await Promise.all([
+      supabase.from("order_documents").select("*").eq("order_id", orderId).order("created_at", { ascending: false }),
+      supabase.from("contract_templates").select("*").eq("organization_id", organizationId).order("name", { ascending: true }),
+    ]);
+
+    if (documentsRes.error) {
+      toast.error("Erro ao carregar documentos do pedido");
+    }
+    const orgTemplates = templatesRes.data || [];
+    setDocuments(documentsRes.data || []);
+    setTemplates(orgTemplates);
+    setTemplateId((orgTemplates.find((t) => t.is_default) || orgTemplates[0])?.id || BUILTIN_TEMPLATE);
+    setLoading(false);
+  };
+
+  const openDocument = async (document: OrderDocument) => {
+    const url = await getOrderDocumentUrl(document.file_path);
+    if (!url) {
+      toast.error("Não foi possível abrir o documento");
+      return;
+    }
+    window.open(url, "_blank", "noopener,noreferrer");
+  };
+
+  const handleGenerateContract = async () => {
+    if (!organizationId) {
+      toast.error("Organização não encontrada");
+      return;
+    }
+    setGenerating(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await loadContractData(orderId);
+      if (error || !data) {
+        toast.error(error || "Erro ao carregar dados do contrato");
+        return;
+      }
+
+      const template = templates.find((t) => t.id === templateId);
+      const body = renderContractTemplate(template?.body || DEFAULT_CONTRACT_TEMPLATE, buildContractContext(data));
+      const blob = createContractPdf({
+        title: template?.title || "Contrato de Prestação de Serviços de Turismo",
+        body,
+        organizationName: data.organization.name,
+        logoDataUrl: await loadImageAsDataUrl(data.organization.logo_url),
+      });
+
+      const fileName = `${slugifyFileName(`contrato ${data.order.order_number} ${data.customer.full_name}`)}.pdf`;
+      const { document, error: saveError } = await saveOrderDocument({
+        orderId,
+        organizationId,
+        userId: user.id,
+        documentType: "contract",
+        templateId: template?.id ?? null,
+        fileName,
+        blob,
+      });
+
+      if (saveError || !document) {
+        toast.error("Erro ao salvar contrato");
+        return;
+      }
+
+      toast.success("Contrato gerado!");
+      downloadBlob(blob, fileName);
+      loadData();
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="w-5 h-5" />
+              Documentos
+            </CardTitle>
+            <CardDescription>Contratos e vouchers gerados para este pedido</CardDescription>
+          </div>
+          {canEdit && (
+            <div className="flex items-center gap-2">
+              {templates.length > 1 && (
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger className="w-48 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button variant="outline" size="sm" onClick={handleGenerateContract} disabled={generating || loading}>
+                <FileSignature className="h-4 w-4 mr-2" />
+                {generating ? "Gerando..." : "Gerar Contrato"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : documents.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">Nenhum documento gerado</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Arquivo</TableHead>
+                <TableHead>Gerado em</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((document) => (
+                <TableRow key={document.id}>
+                  <TableCell>
+                    <Badge variant="secondary">{getDocumentTypeLabel(document.document_type)}</Badge>
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {document.file_name}
+                    {document.emailed_at && (
+                      <p className="text-xs font-normal text-muted-foreground">
+                        Enviado para {document.emailed_to} em {format(new Date(document.emailed_at), "dd/MM/yyyy HH:mm")}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{document.created_at ? format(new Date(document.created_at), "dd/MM/yyyy HH:mm") : "-"}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => openDocument(document)}>
+                      <Download className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
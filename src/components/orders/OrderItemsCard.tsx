@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ListPlus, Plus, Receipt, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { ORDER_ITEM_TYPE_OPTIONS, type OrderItemType } from "@/lib/constants";
+import { orderItemSchema } from "@/lib/validations";
+import { signedOrderItemPrice } from "@/lib/orders";
+import { cleanCurrency, formatCurrency } from "@/lib/utils";
+
+interface OrderItemsCardProps {
+  orderId: string;
+  organizationId: string | null;
+  canEdit: boolean;
+  /** Chamado após alterar itens (o total, o pagamento e as parcelas mudam no banco). EN: Called after items change. */
+  onItemsChanged?: () => void;
+}
+
+type OrderItem = Tables<"order_items">;
+
+// O item de pacote é mantido pelo banco e não pode ser lançado manualmente
+const MANUAL_ITEM_TYPES = ORDER_ITEM_TYPE_OPTIONS.filter((opt) => opt.value !== "package");
+
+const emptyForm = {
+  item_type: "insurance" as OrderItemType,
+  description: "",
+  quantity: "1",
+  unit_price: "",
+};
+
+const getItemTypeLabel = (type: string) =>
+  ORDER_ITEM_TYPE_OPTIONS.find((opt) => opt.value === type)?.label || type;
+
+/**
+ * Card com os itens do pedido (pacote, adicionais e descontos).
+ * O total do pedido, o valor do pagamento e as parcelas em aberto são recalculados
+ * pelo banco sempre que um item muda.
+ *
+ * EN: Order line items card (package, extras and discounts).
+ * Order total, payment amount and open installments are recalculated by the database.
+ */
+export const OrderItemsCard = ({ orderId, organizationId, canEdit, onItemsChanged }: OrderItemsCardProps) => {
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    loadItems();
+  }, [orderId]);
+
+  const loadItems = async () => {
+    const { data, error } = await supabase
+      .from("order_items")
+      .select("*")
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast.error("Erro ao carregar itens do pedido");
+    }
+    // Linha do pacote sempre primeiro
+    setItems((data || []).sort((a, b) => Number(b.item_type === "package") - Number(a.item_type === "package")));
+    setLoading(false);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId) {
+      toast.error("Organização não encontrada");
+      return;
+    }
+    setSaving(true);
+
+    try {
+      const validated = orderItemSchema.parse({
+        item_type: formData.item_type,
+        description: formData.description,
+        quantity: parseInt(formData.quantity),
+        unit_price: cleanCurrency(formData.unit_price),
+      });
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase.from("order_items").insert([
+        {
+          order_id: orderId,
+          organization_id: organizationId,
+          item_type: validated.item_type,
+          description: validated.description,
+          quantity: validated.quantity,
+          unit_price: signedOrderItemPrice(validated.item_type, validated.unit_price),
+          created_by: user.id,
+        },
+      ]);
+
+      if (error) {
+        toast.error("Erro ao adicionar item");
+        return;
+      }
+
+      toast.success("Item adicionado. Total e parcelas atualizados.");
+      setFormData(emptyForm);
+      setFormOpen(false);
+      loadItems();
+      onItemsChanged?.();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar item");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleQuantityChange = async (item: OrderItem, value: string) => {
+    const quantity = parseInt(value);
+    if (isNaN(quantity) || quantity < 1) {
+      toast.error("Quantidade mínima é 1");
+      return;
+    }
+
+    const { error } = await supabase.from("order_items").update({ quantity }).eq("id", item.id);
+    if (error) {
+      toast.error("Erro ao atualizar quantidade");
+      return;
+    }
+    loadItems();
+    onItemsChanged?.();
+  };
+
+  const handleDelete = async (item: OrderItem) => {
+    const { error } = await supabase.from("order_items").delete().eq("id", item.id);
+    if (error) {
+      toast.error("Erro ao remover item");
+      return;
+    }
+    toast.success("Item removido. Total e parcelas atualizados.");
+    loadItems();
+    onItemsChanged?.();
+  };
+
+  const total = Math.max(items.reduce((sum, item) => sum + Number(item.total_amount), 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="w-5 h-5" />
+              Itens do Pedido
+            </CardTitle>
+            <CardDescription>
+              O valor total e as parcelas em aberto são recalculados a cada alteração
+            </CardDescription>
+          </div>
+          {canEdit && !formOpen && (
+            <Button variant="outline" size="sm" onClick={() => setFormOpen(true)}>
+              <ListPlus className="h-4 w-4 mr-2" />
+              Adicionar Item
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {formOpen && (
+          <form onSubmit={handleAdd} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end border rounded-lg p-4">
+            <div className="space-y-1 md:col-span-1">
+              <Label className="text-xs">Tipo *</Label>
+              <Select
+                value={formData.item_type}
+                onValueChange={(value: OrderItemType) => setFormData({ ...formData, item_type: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_ITEM_TYPES.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2 md:col-span-2">
+              <Label htmlFor="item-description" className="text-xs">Descrição *</Label>
+              <Input
+                id="item-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder={formData.item_type === "discount" ? "Ex.: Desconto à vista" : "Ex.: Seguro viagem básico"}
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="item-quantity" className="text-xs">Qtd. *</Label>
+              <Input
+                id="item-quantity"
+                type="number"
+                min="1"
+                value={formData.quantity}
+                onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="item-price" className="text-xs">
+                {formData.item_type === "discount" ? "Valor do desconto *" : "Valor unitário *"}
+              </Label>
+              <CurrencyInput
+                id="item-price"
+                value={formData.unit_price}
+                onChange={(e) => setFormData({ ...formData, unit_price: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" variant="gradient" size="sm" disabled={saving}>
+                <Plus className="w-4 h-4 mr-1" />
+                {saving ? "Salvando..." : "Adicionar"}
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setFormOpen(false)} disabled={saving}>
+                Cancelar
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Descrição</TableHead>
+                <TableHead>Qtd.</TableHead>
+                <TableHead>Valor unitário</TableHead>
+                <TableHead className="text-right">Subtotal</TableHead>
+                {canEdit && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => {
+                const isPackage = item.item_type === "package";
+                return (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <Badge variant={item.item_type === "discount" ? "destructive" : isPackage ? "default" : "secondary"}>
+                        {getItemTypeLabel(item.item_type)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{item.description}</TableCell>
+                    <TableCell>
+                      {canEdit && !isPackage ? (
+                        <Input
+                          type="number"
+                          min={1}
+                          defaultValue={item.quantity}
+                          className="w-20 h-8"
+                          onBlur={(e) => {
+                            if (Number(e.target.value) !== item.quantity) {
+                              handleQuantityChange(item, e.target.value);
+                            }
+                          }}
+                        />
+                      ) : (
+                        item.quantity
+                      )}
+                    </TableCell>
+                    <TableCell>{formatCurrency(Number(item.unit_price))}</TableCell>
+                    <TableCell className={`text-right ${item.item_type === "discount" ? "text-destructive" : ""}`}>
+                      {formatCurrency(Number(item.total_amount))}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        {!isPackage && (
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(item)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+              {items.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 6 : 5} className="text-center text-muted-foreground py-6">
+                    Nenhum item registrado para este pedido
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="font-semibold">Total do pedido</TableCell>
+                <TableCell className="text-right font-bold text-primary">{formatCurrency(total)}</TableCell>
+                {canEdit && <TableCell />}
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+        {items.some((item) => item.item_type === "package") && (
+          <p className="text-xs text-muted-foreground">
+            A linha do pacote acompanha o número de passageiros e o preço do pacote/saída.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Users, Edit } from "lucide-react";
+import { differenceInYears, format } from "date-fns";
+import { formatCpf } from "@/lib/utils";
+
+interface OrderPassengersCardProps {
+  orderId: string;
+  travelDate?: string;
+}
+
+type Passenger = Tables<"order_passengers">;
+
+/**
+ * Card com a lista de passageiros do pedido (clientes vinculados e avulsos).
+ * A idade é calculada na data da viagem, quando informada.
+ *
+ * EN: Card listing the order passengers (linked customers and ad-hoc travelers).
+ * Age is computed at the travel date when available.
+ */
+export const OrderPassengersCard = ({ orderId, travelDate }: OrderPassengersCardProps) => {
+  const navigate = useNavigate();
+  const [passengers, setPassengers] = useState<Passenger[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadPassengers();
+  }, [orderId]);
+
+  const loadPassengers = async () => {
+    const { data } = await supabase
+      .from("order_passengers")
+      .select("*")
+      .eq("order_id", orderId)
+      .order("is_primary", { ascending: false })
+      .order("created_at", { ascending: true });
+
+    setPassengers(data || []);
+    setLoading(false);
+  };
+
+  const ageAt = (birthDate: string) => {
+    const reference = travelDate ? new Date(travelDate + "T00:00:00") : new Date();
+    return differenceInYears(reference, new Date(birthDate + "T00:00:00"));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            Passageiros ({passengers.length})
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => navigate(`/orders/${orderId}/edit`)}>
+            <Edit className="h-4 w-4 mr-2" />
+            Editar Passageiros
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : passengers.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">
+            Nenhum passageiro cadastrado para este pedido
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>CPF</TableHead>
+                <TableHead>Nascimento</TableHead>
+                <TableHead>Documento</TableHead>
+                <TableHead>Tipo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {passengers.map((passenger) => (
+                <TableRow key={passenger.id}>
+                  <TableCell className="font-medium">
+                    {passenger.customer_id ? (
+                      <button
+                        type="button"
+                        className="hover:underline text-left"
+                        onClick={() => navigate(`/customers/${passenger.customer_id}`)}
+                      >
+                        {passenger.full_name}
+                      </button>
+                    ) : (
+                      passenger.full_name
+                    )}
+                    {passenger.is_primary && <Badge className="ml-2">Titular</Badge>}
+                  </TableCell>
+                  <TableCell>{passenger.cpf ? formatCpf(passenger.cpf) : "-"}</TableCell>
+                  <TableCell>
+                    {passenger.birth_date
+                      ? `${format(new Date(passenger.birth_date + "T00:00:00"), "dd/MM/yyyy")} (${ageAt(passenger.birth_date)} anos)`
+                      : "-"}
+                  </TableCell>
+                  <TableCell>
+                    {passenger.document_number
+                      ? `${passenger.document_type || "Doc."} ${passenger.document_number}`
+                      : "-"}
+                  </TableCell>
+                  <TableCell>
+                    {passenger.customer_id ? (
+                      <Badge variant="secondary">Cliente</Badge>
+                    ) : (
+                      <Badge variant="outline">Avulso</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
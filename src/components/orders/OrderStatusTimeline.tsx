@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowRight, History, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { ORDER_STATUS_OPTIONS, type OrderStatus } from "@/lib/constants";
+import { changeOrderStatus, getStatusTransitionBlocker, getStatusTransitionMessage } from "@/lib/orders";
+import { getOverbookingMessage } from "@/lib/packages";
+
+interface OrderStatusTimelineProps {
+  orderId: string;
+  status: string;
+  travelDate: string;
+  canEdit: boolean;
+  /** Chamado após uma mudança de status bem-sucedida. EN: Called after a successful status change. */
+  onStatusChanged?: () => void;
+}
+
+type StatusHistoryEntry = Tables<"order_status_history"> & {
+  profile: { full_name: string } | null;
+};
+
+const getStatusLabel = (status: string | null) =>
+  ORDER_STATUS_OPTIONS.find((opt) => opt.value === status)?.label || status || "";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  confirmed: "default",
+  completed: "secondary",
+  cancelled: "destructive",
+};
+
+/**
+ * Linha do tempo do status do pedido (quem, quando e por quê) com ação para alterar o status.
+ * Somente as transições permitidas pelo ciclo de vida são oferecidas; o banco valida novamente.
+ *
+ * EN: Order status timeline (who, when, why) with an action to change the status.
+ * Only lifecycle-allowed transitions are offered; the database validates them again.
+ */
+export const OrderStatusTimeline = ({ orderId, status, travelDate, canEdit, onStatusChanged }: OrderStatusTimelineProps) => {
+  const [entries, setEntries] = useState<StatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [nextStatus, setNextStatus] = useState<OrderStatus | "">("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const allowedOptions = ORDER_STATUS_OPTIONS.filter(
+    (opt) => opt.value !== status && getStatusTransitionBlocker({ status, travel_date: travelDate }, opt.value) === null
+  );
+
+  useEffect(() => {
+    loadHistory();
+  }, [orderId, status]);
+
+  const loadHistory = async () => {
+    const { data, error } = await supabase
+      .from("order_status_history")
+      .select("*, profile:profiles!order_status_history_changed_by_fkey(full_name)")
+      .eq("order_id", orderId)
+      .order("changed_at", { ascending: false });
+
+    if (error) {
+      toast.error("Erro ao carregar histórico de status");
+    }
+    setEntries((data || []) as StatusHistoryEntry[]);
+    setLoading(false);
+  };
+
+  const openDialog = () => {
+    setNextStatus(allowedOptions[0]?.value || "");
+    setReason("");
+    setDialogOpen(true);
+  };
+
+  const handleChangeStatus = async () => {
+    if (!nextStatus) return;
+    setSaving(true);
+    const { error } = await changeOrderStatus(orderId, nextStatus, reason);
+    setSaving(false);
+
+    if (error) {
+      toast.error(getStatusTransitionMessage(error) || getOverbookingMessage(error) || "Falha ao alterar status do pedido");
+      return;
+    }
+
+    toast.success("Status do pedido atualizado");
+    setDialogOpen(false);
+    loadHistory();
+    onStatusChanged?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Histórico de Status
+            </CardTitle>
+            <CardDescription>Todas as mudanças de status do pedido</CardDescription>
+          </div>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={openDialog} disabled={allowedOptions.length === 0}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Alterar Status
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">Nenhuma mudança de status registrada</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-6">
+            {entries.map((entry) => (
+              <li key={entry.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                <div className="flex flex-wrap items-center gap-2">
+                  {entry.from_status ? (
+                    <>
+                      <Badge variant={STATUS_VARIANTS[entry.from_status] || "outline"}>
+                        {getStatusLabel(entry.from_status)}
+                      </Badge>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    </>
+                  ) : (
+                    <span className="text-sm font-medium">Pedido criado como</span>
+                  )}
+                  <Badge variant={STATUS_VARIANTS[entry.to_status] || "outline"}>{getStatusLabel(entry.to_status)}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {format(new Date(entry.changed_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                  {entry.profile?.full_name ? ` · por ${entry.profile.full_name}` : ""}
+                </p>
+                {entry.reason && <p className="text-sm mt-1">{entry.reason}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Alterar Status do Pedido</DialogTitle>
+            <DialogDescription>
+              Status atual: {getStatusLabel(status)}. Somente as transições permitidas são exibidas.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Novo status</Label>
+              <Select value={nextStatus} onValueChange={(value: OrderStatus) => setNextStatus(value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allowedOptions.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {status === "confirmed" && getStatusTransitionBlocker({ status, travel_date: travelDate }, "completed") && (
+                <p className="text-xs text-muted-foreground">
+                  O pedido poderá ser concluído a partir da data da viagem.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="status-reason">Motivo</Label>
+              <Textarea
+                id="status-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Opcional. Ex.: Cliente confirmou por telefone"
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleChangeStatus} disabled={!nextStatus || saving}>
+              {saving ? "Salvando..." : "Confirmar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Package, Plus, Check } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatRemainingSpots } from "@/lib/packages";
 
 interface TravelPackage {
   id: string;
@@ -13,7 +14,7 @@ interface TravelPackage {
   destination: string;
   duration_days: number;
   price: number;
-  available_spots: number;
+  available_spots: number | null;
 }
 
 interface PackageComboboxProps {
@@ -21,6 +22,8 @@ interface PackageComboboxProps {
   onChange: (packageId: string) => void;
   packages: TravelPackage[];
   onCreateNew: () => void;
+  /** Vagas necessárias para o pedido (ex.: número de passageiros). EN: Spots required by the order. */
+  requiredSpots?: number;
 }
 
 export const PackageCombobox = ({
@@ -28,6 +31,7 @@ export const PackageCombobox = ({
   onChange,
   packages,
   onCreateNew,
+  requiredSpots = 1,
 }: PackageComboboxProps) => {
   const [inputValue, setInputValue] = useState("");
 
@@ -41,6 +45,13 @@ export const PackageCombobox = ({
 
   const selectedPackage = packages.find((p) => p.id === value);
 
+  /**
+   * Indica se o pacote não comporta a quantidade de vagas exigida.
+   * EN: Whether the package cannot fit the required number of spots.
+   */
+  const lacksSpots = (pkg: TravelPackage) =>
+    pkg.available_spots !== null && pkg.available_spots !== undefined && pkg.available_spots < requiredSpots;
+
   const {
     isOpen,
     getMenuProps,
@@ -61,6 +72,7 @@ export const PackageCombobox = ({
       }
     },
     itemToString: (item) => item?.name || "",
+    isItemDisabled: (item) => lacksSpots(item),
     selectedItem: selectedPackage || null,
   });
 
@@ -83,6 +95,13 @@ export const PackageCombobox = ({
             <Check className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-primary" />
           )}
         </div>
+        {selectedPackage && (
+          <p className={cn("text-xs mt-1", lacksSpots(selectedPackage) ? "text-destructive" : "text-muted-foreground")}>
+            {lacksSpots(selectedPackage)
+              ? `Capacidade insuficiente: ${formatRemainingSpots(selectedPackage.available_spots)} para ${requiredSpots} passageiro(s).`
+              : `Capacidade restante: ${formatRemainingSpots(selectedPackage.available_spots)}.`}
+          </p>
+        )}
 
         {isOpen && (
           <div
@@ -113,7 +132,8 @@ export const PackageCombobox = ({
                   className={cn(
                     "px-3 py-2 cursor-pointer border-b last:border-b-0",
                     highlightedIndex === index && "bg-accent",
-                    value === pkg.id && "bg-accent/50"
+                    value === pkg.id && "bg-accent/50",
+                    lacksSpots(pkg) && "opacity-50 cursor-not-allowed"
                   )}
                 >
                   <div className="font-medium">{pkg.name}</div>
@@ -130,8 +150,11 @@ export const PackageCombobox = ({
                     <Badge variant="secondary" className="text-xs">
                       {pkg.duration_days} dias
                     </Badge>
-                    <Badge variant="outline" className="text-xs">
-                      {pkg.available_spots} vagas
+                    <Badge
+                      variant={lacksSpots(pkg) ? "destructive" : "outline"}
+                      className="text-xs"
+                    >
+                      {formatRemainingSpots(pkg.available_spots)}
                     </Badge>
                   </div>
                 </div>
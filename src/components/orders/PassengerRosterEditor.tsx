@@ -0,0 +1,168 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CpfInput } from "@/components/ui/cpf-input";
+import { Plus, Trash2, UserPlus, Users } from "lucide-react";
+import { PASSENGER_DOCUMENT_TYPES } from "@/lib/constants";
+import { emptyPassenger, passengerFromCustomer, type PassengerDraft } from "@/lib/passengers";
+
+interface Customer {
+  id: string;
+  full_name: string;
+  cpf?: string | null;
+  birth_date?: string | null;
+}
+
+interface PassengerRosterEditorProps {
+  value: PassengerDraft[];
+  onChange: (passengers: PassengerDraft[]) => void;
+  customers: Customer[];
+}
+
+/**
+ * Editor da lista de passageiros do pedido.
+ * Permite vincular clientes cadastrados ou incluir passageiros avulsos.
+ *
+ * EN: Order passenger roster editor.
+ * Attaches existing customers or ad-hoc travelers to the order.
+ */
+export const PassengerRosterEditor = ({ value, onChange, customers }: PassengerRosterEditorProps) => {
+  const availableCustomers = customers.filter(
+    (customer) => !value.some((p) => p.customer_id === customer.id)
+  );
+
+  const updatePassenger = (index: number, patch: Partial<PassengerDraft>) => {
+    onChange(value.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const removePassenger = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  const addCustomer = (customerId: string) => {
+    const customer = customers.find((c) => c.id === customerId);
+    if (!customer) return;
+    onChange([...value, passengerFromCustomer(customer, value.length === 0)]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <Label className="flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          Passageiros * ({value.length})
+        </Label>
+        <div className="flex items-center gap-2">
+          <Select value="" onValueChange={addCustomer} disabled={availableCustomers.length === 0}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Adicionar cliente cadastrado" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableCustomers.map((customer) => (
+                <SelectItem key={customer.id} value={customer.id}>
+                  {customer.full_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange([...value, emptyPassenger()])}>
+            <UserPlus className="w-4 h-4 mr-1" />
+            Passageiro avulso
+          </Button>
+        </div>
+      </div>
+
+      {value.length === 0 && (
+        <div className="text-sm text-muted-foreground border border-dashed rounded-lg p-4 text-center">
+          Nenhum passageiro adicionado. Inclua ao menos um passageiro.
+        </div>
+      )}
+
+      {value.map((passenger, index) => (
+        <div key={passenger.id ?? `${passenger.customer_id ?? "new"}-${index}`} className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Passageiro {index + 1}</span>
+              {passenger.customer_id ? (
+                <Badge variant="secondary">Cliente</Badge>
+              ) : (
+                <Badge variant="outline">Avulso</Badge>
+              )}
+              {passenger.is_primary && <Badge>Titular</Badge>}
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => removePassenger(index)}
+              aria-label="Remover passageiro"
+            >
+              <Trash2 className="w-4 h-4 text-destructive" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1 md:col-span-2">
+              <Label className="text-xs">Nome Completo *</Label>
+              <Input
+                value={passenger.full_name}
+                onChange={(e) => updatePassenger(index, { full_name: e.target.value })}
+                disabled={!!passenger.customer_id}
+                placeholder="Nome do passageiro"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">CPF</Label>
+              <CpfInput
+                value={passenger.cpf}
+                onChange={(e) => updatePassenger(index, { cpf: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Data de Nascimento</Label>
+              <Input
+                type="date"
+                value={passenger.birth_date}
+                onChange={(e) => updatePassenger(index, { birth_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Documento</Label>
+              <Select
+                value={passenger.document_type}
+                onValueChange={(val) => updatePassenger(index, { document_type: val })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Tipo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PASSENGER_DOCUMENT_TYPES.map((doc) => (
+                    <SelectItem key={doc.value} value={doc.value}>
+                      {doc.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Número do Documento</Label>
+              <Input
+                value={passenger.document_number}
+                onChange={(e) => updatePassenger(index, { document_number: e.target.value })}
+                placeholder="Número"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {value.length > 0 && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange([...value, emptyPassenger()])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Adicionar outro passageiro
+        </Button>
+      )}
+    </div>
+  );
+};
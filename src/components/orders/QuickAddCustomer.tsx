@@ -6,11 +6,18 @@ import { Label } from "@/components/ui/label";
 import { Plus } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import { quickAddCustomerSchema } from "@/lib/validations";
+import { quickAddCustomerSchema, type QuickAddCustomerFormData } from "@/lib/validations";
 import { z } from "zod";
 import { CpfInput } from "@/components/ui/cpf-input";
 import { PhoneInput } from "@/components/ui/phone-input";
 import { cleanCpf, cleanPhone } from "@/lib/utils";
+import {
+  DUPLICATE_CPF_MESSAGE,
+  findCustomerDuplicates,
+  isDuplicateCpfError,
+  type CustomerDuplicateMatch,
+} from "@/lib/customerDuplicates";
+import { CustomerDuplicateWarningDialog } from "@/components/customers/CustomerDuplicateWarningDialog";
 
 interface QuickAddCustomerProps {
   open: boolean;
@@ -28,6 +35,18 @@ export const QuickAddCustomer = ({ open, onOpenChange, onCustomerCreated, organi
     cpf: "",
     birth_date: "",
   });
+  const [duplicateMatches, setDuplicateMatches] = useState<CustomerDuplicateMatch[]>([]);
+
+  const resetForm = () => {
+    setFormData({
+      full_name: "",
+      email: "",
+      phone: "",
+      cpf: "",
+      birth_date: "",
+    });
+    setDuplicateMatches([]);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,10 +61,40 @@ export const QuickAddCustomer = ({ open, onOpenChange, onCustomerCreated, organi
     try {
       const validatedData = quickAddCustomerSchema.parse(formData);
 
+      // Antes de cadastrar, avisa se a pessoa já parece existir
+      const { matches } = await findCustomerDuplicates(organizationId, {
+        full_name: validatedData.full_name,
+        email: validatedData.email,
+        phone: validatedData.phone,
+        cpf: validatedData.cpf || null,
+      });
+      if (matches.length > 0) {
+        setDuplicateMatches(matches);
+        return;
+      }
+
+      await createCustomer(validatedData);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        toast.error(firstError.message);
+      } else {
+        toast.error("Erro ao validar dados");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createCustomer = async (validatedData: QuickAddCustomerFormData) => {
+    if (!organizationId) return;
+
+    setLoading(true);
+
+    try {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) {
         toast.error("Usuário não autenticado");
-        setLoading(false);
         return;
       }
 
@@ -66,27 +115,13 @@ export const QuickAddCustomer = ({ open, onOpenChange, onCustomerCreated, organi
         .single();
 
       if (error || !data) {
-        toast.error("Erro ao criar cliente");
-        setLoading(false);
+        toast.error(isDuplicateCpfError(error) ? DUPLICATE_CPF_MESSAGE : "Erro ao criar cliente");
         return;
       }
 
       toast.success("Cliente adicionado com sucesso!");
-      setFormData({
-        full_name: "",
-        email: "",
-        phone: "",
-        cpf: "",
-        birth_date: "",
-      });
+      resetForm();
       onCustomerCreated(data.id);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        const firstError = error.errors[0];
-        toast.error(firstError.message);
-      } else {
-        toast.error("Erro ao validar dados");
-      }
     } finally {
       setLoading(false);
     }
@@ -166,6 +201,18 @@ export const QuickAddCustomer = ({ open, onOpenChange, onCustomerCreated, organi
             </Button>
           </div>
         </form>
+        <CustomerDuplicateWarningDialog
+          matches={duplicateMatches}
+          onOpenChange={(isOpen) => !isOpen && setDuplicateMatches([])}
+          onConfirm={() => createCustomer(quickAddCustomerSchema.parse(formData))}
+          onSelect={(customer) => {
+            toast.success(`Cliente ${customer.full_name} selecionado`);
+            resetForm();
+            onCustomerCreated(customer.id);
+          }}
+          selectLabel="Usar este cliente"
+          loading={loading}
+        />
       </DialogContent>
     </Dialog>
   );
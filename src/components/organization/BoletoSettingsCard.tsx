@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Barcode, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { BOLETO_BANK_OPTIONS, CNAB_LAYOUT_OPTIONS, type CnabLayout } from "@/lib/constants";
+import { organizationBoletoSchema } from "@/lib/validations";
+import { isBoletoConfigured, type BoletoSettings } from "@/lib/cnab";
+
+interface BoletoSettingsCardProps {
+  organizationId: string;
+  settings: Partial<BoletoSettings>;
+  canEdit: boolean;
+  onSaved?: () => void;
+}
+
+interface BoletoForm {
+  boleto_bank_code: string;
+  boleto_cnab_layout: CnabLayout | "";
+  boleto_agency: string;
+  boleto_agency_digit: string;
+  boleto_account: string;
+  boleto_account_digit: string;
+  boleto_wallet: string;
+  boleto_agreement_code: string;
+}
+
+const toForm = (settings: Partial<BoletoSettings>): BoletoForm => ({
+  boleto_bank_code: settings.boleto_bank_code || "",
+  boleto_cnab_layout: settings.boleto_cnab_layout || "",
+  boleto_agency: settings.boleto_agency || "",
+  boleto_agency_digit: settings.boleto_agency_digit || "",
+  boleto_account: settings.boleto_account || "",
+  boleto_account_digit: settings.boleto_account_digit || "",
+  boleto_wallet: settings.boleto_wallet || "",
+  boleto_agreement_code: settings.boleto_agreement_code || "",
+});
+
+const EMPTY_SETTINGS: Record<keyof BoletoSettings, null> = {
+  boleto_bank_code: null,
+  boleto_cnab_layout: null,
+  boleto_agency: null,
+  boleto_agency_digit: null,
+  boleto_account: null,
+  boleto_account_digit: null,
+  boleto_wallet: null,
+  boleto_agreement_code: null,
+};
+
+/**
+ * Conta de cobrança usada para gerar os arquivos de remessa CNAB e conferir os retornos do banco.
+ * EN: Billing account used to build CNAB remittance files and validate bank return files.
+ */
+export const BoletoSettingsCard = ({ organizationId, settings, canEdit, onSaved }: BoletoSettingsCardProps) => {
+  const [form, setForm] = useState<BoletoForm>(toForm(settings));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(toForm(settings));
+  }, [
+    settings.boleto_bank_code,
+    settings.boleto_cnab_layout,
+    settings.boleto_agency,
+    settings.boleto_agency_digit,
+    settings.boleto_account,
+    settings.boleto_account_digit,
+    settings.boleto_wallet,
+    settings.boleto_agreement_code,
+  ]);
+
+  const saveSettings = async (values: BoletoSettings, successMessage: string) => {
+    const { error } = await supabase.from("organizations").update(values).eq("id", organizationId);
+    if (error) {
+      toast.error("Erro ao salvar conta de cobrança");
+      return;
+    }
+    toast.success(successMessage);
+    onSaved?.();
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const validated = organizationBoletoSchema.parse(form);
+      await saveSettings(
+        {
+          boleto_bank_code: validated.boleto_bank_code,
+          boleto_cnab_layout: validated.boleto_cnab_layout,
+          boleto_agency: validated.boleto_agency,
+          boleto_agency_digit: validated.boleto_agency_digit || null,
+          boleto_account: validated.boleto_account,
+          boleto_account_digit: validated.boleto_account_digit.toUpperCase(),
+          boleto_wallet: validated.boleto_wallet,
+          boleto_agreement_code: validated.boleto_agreement_code || null,
+        },
+        "Conta de cobrança atualizada!"
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar conta de cobrança");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    try {
+      await saveSettings(EMPTY_SETTINGS, "Conta de cobrança removida");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const disabled = !canEdit || saving;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Barcode className="w-5 h-5" />
+              Cobrança via Boleto (CNAB)
+            </CardTitle>
+            <CardDescription>
+              Dados da conta de cobrança para gerar remessas e processar retornos do banco
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              {isBoletoConfigured(settings) && (
+                <Button variant="outline" size="sm" onClick={handleRemove} disabled={saving}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Remover
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? "Salvando..." : "Salvar"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Banco</Label>
+            <Select
+              value={form.boleto_bank_code}
+              onValueChange={(value) => setForm({ ...form, boleto_bank_code: value })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {BOLETO_BANK_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label>Layout do arquivo</Label>
+            <Select
+              value={form.boleto_cnab_layout}
+              onValueChange={(value) => setForm({ ...form, boleto_cnab_layout: value as CnabLayout })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {CNAB_LAYOUT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="boleto-agency">Agência</Label>
+            <div className="flex gap-2">
+              <Input
+                id="boleto-agency"
+                value={form.boleto_agency}
+                onChange={(e) => setForm({ ...form, boleto_agency: e.target.value.replace(/\D/g, "") })}
+                maxLength={5}
+                disabled={disabled}
+              />
+              <Input
+                aria-label="Dígito da agência"
+                className="w-14"
+                value={form.boleto_agency_digit}
+                onChange={(e) => setForm({ ...form, boleto_agency_digit: e.target.value })}
+                maxLength={1}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="boleto-account">Conta</Label>
+            <div className="flex gap-2">
+              <Input
+                id="boleto-account"
+                value={form.boleto_account}
+                onChange={(e) => setForm({ ...form, boleto_account: e.target.value.replace(/\D/g, "") })}
+                maxLength={12}
+                disabled={disabled}
+              />
+              <Input
+                aria-label="Dígito da conta"
+                className="w-14"
+                value={form.boleto_account_digit}
+                onChange={(e) => setForm({ ...form, boleto_account_digit: e.target.value })}
+                maxLength={1}
+                disabled={disabled}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="boleto-wallet">Carteira</Label>
+            <Input
+              id="boleto-wallet"
+              value={form.boleto_wallet}
+              onChange={(e) => setForm({ ...form, boleto_wallet: e.target.value.replace(/\D/g, "") })}
+              maxLength={3}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="boleto-agreement">Convênio / código do beneficiário</Label>
+            <Input
+              id="boleto-agreement"
+              value={form.boleto_agreement_code}
+              onChange={(e) => setForm({ ...form, boleto_agreement_code: e.target.value.replace(/\D/g, "") })}
+              maxLength={20}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground mt-4">
+          O CNPJ e a razão social da organização identificam o beneficiário. Multa e juros dos boletos seguem as
+          regras de atraso cadastradas abaixo.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, ShieldAlert, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { cancellationPolicyRuleSchema } from "@/lib/validations";
+import { formatPolicyRuleRange, sortPolicyRules, type CancellationPolicyRule } from "@/lib/cancellations";
+
+interface CancellationPolicyCardProps {
+  organizationId: string;
+  canEdit: boolean;
+}
+
+const emptyForm = { min_days_before: "", penalty_percent: "" };
+
+/**
+ * Política de multa por cancelamento: percentual do valor do pedido por antecedência da viagem.
+ * Usada pelo assistente de cancelamento do pedido.
+ *
+ * EN: Cancellation penalty policy (percent of the order total by days before travel).
+ */
+export const CancellationPolicyCard = ({ organizationId, canEdit }: CancellationPolicyCardProps) => {
+  const [rules, setRules] = useState<CancellationPolicyRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    loadRules();
+  }, [organizationId]);
+
+  const loadRules = async () => {
+    const { data, error } = await supabase
+      .from("cancellation_policy_rules")
+      .select("*")
+      .eq("organization_id", organizationId);
+
+    if (error) {
+      toast.error("Erro ao carregar política de cancelamento");
+    }
+    setRules(sortPolicyRules(data || []));
+    setLoading(false);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const validated = cancellationPolicyRuleSchema.parse({
+        min_days_before: form.min_days_before === "" ? NaN : Number(form.min_days_before),
+        penalty_percent: form.penalty_percent === "" ? NaN : Number(form.penalty_percent.replace(",", ".")),
+      });
+
+      if (rules.some((rule) => rule.min_days_before === validated.min_days_before)) {
+        toast.error("Já existe uma faixa com essa antecedência");
+        return;
+      }
+
+      const { error } = await supabase.from("cancellation_policy_rules").insert([
+        {
+          organization_id: organizationId,
+          min_days_before: validated.min_days_before,
+          penalty_percent: validated.penalty_percent,
+        },
+      ]);
+
+      if (error) {
+        toast.error("Erro ao salvar faixa da política");
+        return;
+      }
+
+      toast.success("Faixa adicionada à política de cancelamento");
+      setForm(emptyForm);
+      loadRules();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar faixa");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: CancellationPolicyRule) => {
+    const { error } = await supabase.from("cancellation_policy_rules").delete().eq("id", rule.id);
+    if (error) {
+      toast.error("Erro ao remover faixa");
+      return;
+    }
+    toast.success("Faixa removida");
+    loadRules();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" />
+          Política de Cancelamento
+        </CardTitle>
+        <CardDescription>
+          Multa sobre o valor do pedido conforme a antecedência do cancelamento em relação à data da viagem
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Antecedência</TableHead>
+                <TableHead>Multa</TableHead>
+                {canEdit && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule, index) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{formatPolicyRuleRange(rule.min_days_before, rules[index - 1]?.min_days_before)}</TableCell>
+                  <TableCell className="font-medium">{Number(rule.penalty_percent)}%</TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 3 : 2} className="text-center text-muted-foreground py-6">
+                    Nenhuma faixa cadastrada: cancelamentos não terão multa
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        {canEdit && (
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="policy-days" className="text-xs">A partir de quantos dias antes *</Label>
+              <Input
+                id="policy-days"
+                type="number"
+                min="0"
+                value={form.min_days_before}
+                onChange={(e) => setForm({ ...form, min_days_before: e.target.value })}
+                placeholder="Ex.: 30"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-percent" className="text-xs">Multa (%) *</Label>
+              <Input
+                id="policy-percent"
+                inputMode="decimal"
+                value={form.penalty_percent}
+                onChange={(e) => setForm({ ...form, penalty_percent: e.target.value })}
+                placeholder="Ex.: 10"
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? "Salvando..." : "Adicionar Faixa"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
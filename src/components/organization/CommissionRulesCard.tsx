@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BadgePercent, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { COMMISSION_BASIS_OPTIONS, type CommissionBasis } from "@/lib/constants";
+import { commissionRuleSchema } from "@/lib/validations";
+import { cleanCurrency, formatCurrency } from "@/lib/utils";
+import {
+  createCommissionRule,
+  deleteCommissionRule,
+  describeCommissionScope,
+  loadCommissionRules,
+  loadOrganizationAgents,
+  type CommissionRule,
+  type OrganizationAgent,
+} from "@/lib/commissions";
+
+interface CommissionRulesCardProps {
+  organizationId: string;
+  settings: { commission_basis?: CommissionBasis };
+  canEdit: boolean;
+  onSaved?: () => void;
+}
+
+const ALL = "all";
+const emptyForm = { user_id: ALL, package_id: ALL, min_order_amount: "", commission_percent: "" };
+
+/**
+ * Regras de comissão dos agentes: momento do lançamento e faixas por agente e/ou pacote.
+ * Vale o escopo mais específico e, nele, a maior faixa que não ultrapasse o valor do pedido.
+ *
+ * EN: Agent commission rules: when entries are created and tiers per agent and/or package.
+ * The most specific scope wins and, within it, the highest tier not above the order total.
+ */
+export const CommissionRulesCard = ({ organizationId, settings, canEdit, onSaved }: CommissionRulesCardProps) => {
+  const [basis, setBasis] = useState<CommissionBasis>(settings.commission_basis ?? "order_confirmed");
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [agents, setAgents] = useState<OrganizationAgent[]>([]);
+  const [packages, setPackages] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingBasis, setSavingBasis] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    setBasis(settings.commission_basis ?? "order_confirmed");
+  }, [settings.commission_basis]);
+
+  useEffect(() => {
+    loadData();
+  }, [organizationId]);
+
+  const loadData = async () => {
+    const [{ rules, error }, { agents }, packagesResult] = await Promise.all([
+      loadCommissionRules(organizationId),
+      loadOrganizationAgents(organizationId),
+      supabase.from("travel_packages").select("id, name").eq("organization_id", organizationId).order("name"),
+    ]);
+    if (error) {
+      toast.error("Erro ao carregar regras de comissão");
+    }
+    setRules(rules);
+    setAgents(agents);
+    setPackages(packagesResult.data ?? []);
+    setLoading(false);
+  };
+
+  const handleSaveBasis = async () => {
+    setSavingBasis(true);
+    const { error } = await supabase.from("organizations").update({ commission_basis: basis }).eq("id", organizationId);
+    setSavingBasis(false);
+    if (error) {
+      toast.error("Erro ao salvar lançamento das comissões");
+      return;
+    }
+    toast.success("Lançamento das comissões atualizado!");
+    onSaved?.();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const validated = commissionRuleSchema.parse({
+        user_id: form.user_id === ALL ? null : form.user_id,
+        package_id: form.package_id === ALL ? null : form.package_id,
+        min_order_amount: form.min_order_amount ? cleanCurrency(form.min_order_amount) : 0,
+        commission_percent: form.commission_percent === "" ? NaN : Number(form.commission_percent.replace(",", ".")),
+      });
+
+      const duplicate = rules.some(
+        (rule) =>
+          rule.user_id === validated.user_id &&
+          rule.package_id === validated.package_id &&
+          Number(rule.min_order_amount) === validated.min_order_amount
+      );
+      if (duplicate) {
+        toast.error("Já existe uma faixa com esse valor mínimo para o mesmo agente e pacote");
+        return;
+      }
+
+      const { error } = await createCommissionRule(organizationId, validated);
+      if (error) {
+        toast.error("Erro ao salvar regra de comissão");
+        return;
+      }
+
+      toast.success("Regra de comissão adicionada");
+      setForm(emptyForm);
+      loadData();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar regra de comissão");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: CommissionRule) => {
+    const { error } = await deleteCommissionRule(rule.id);
+    if (error) {
+      toast.error("Erro ao remover regra");
+      return;
+    }
+    toast.success("Regra removida");
+    loadData();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BadgePercent className="w-5 h-5" />
+          Comissões
+        </CardTitle>
+        <CardDescription>
+          Percentual de comissão dos agentes sobre os pedidos que criaram. Regras por agente e por pacote têm prioridade
+          sobre o padrão; faixas permitem percentuais maiores para pedidos de valor mais alto.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-end gap-3">
+          <div className="space-y-2 md:w-80">
+            <Label>Lançar comissão</Label>
+            <Select value={basis} onValueChange={(value) => setBasis(value as CommissionBasis)} disabled={!canEdit}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMMISSION_BASIS_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {canEdit && (
+            <Button
+              variant="outline"
+              onClick={handleSaveBasis}
+              disabled={savingBasis || basis === (settings.commission_basis ?? "order_confirmed")}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {savingBasis ? "Salvando..." : "Salvar"}
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {basis === "order_confirmed"
+            ? "A comissão é calculada sobre o valor total do pedido quando ele é confirmado."
+            : "A comissão é calculada sobre cada recebimento de parcela (sem multa e juros); estornos cancelam a comissão ainda não paga."}
+        </p>
+
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Aplica-se a</TableHead>
+                <TableHead>Pedidos a partir de</TableHead>
+                <TableHead>Comissão</TableHead>
+                {canEdit && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{describeCommissionScope(rule)}</TableCell>
+                  <TableCell>{formatCurrency(Number(rule.min_order_amount))}</TableCell>
+                  <TableCell className="font-medium">{Number(rule.commission_percent)}%</TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 4 : 3} className="text-center text-muted-foreground py-6">
+                    Nenhuma regra cadastrada: comissões não serão lançadas
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        {canEdit && (
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Agente</Label>
+              <Select value={form.user_id} onValueChange={(value) => setForm({ ...form, user_id: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos os agentes</SelectItem>
+                  {agents.map((agent) => (
+                    <SelectItem key={agent.user_id} value={agent.user_id}>{agent.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Pacote</Label>
+              <Select value={form.package_id} onValueChange={(value) => setForm({ ...form, package_id: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos os pacotes</SelectItem>
+                  {packages.map((pkg) => (
+                    <SelectItem key={pkg.id} value={pkg.id}>{pkg.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="commission-min-amount" className="text-xs">Pedidos a partir de</Label>
+              <CurrencyInput
+                id="commission-min-amount"
+                value={form.min_order_amount}
+                onChange={(e) => setForm({ ...form, min_order_amount: e.target.value })}
+                placeholder="R$ 0,00"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="commission-percent" className="text-xs">Comissão (%) *</Label>
+              <Input
+                id="commission-percent"
+                inputMode="decimal"
+                value={form.commission_percent}
+                onChange={(e) => setForm({ ...form, commission_percent: e.target.value })}
+                placeholder="Ex.: 5"
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? "Salvando..." : "Adicionar Regra"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
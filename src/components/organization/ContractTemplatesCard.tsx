@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { FileSignature, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { contractTemplateSchema, type ContractTemplateFormData } from "@/lib/validations";
+import { CONTRACT_PLACEHOLDERS, DEFAULT_CONTRACT_TEMPLATE, type ContractTemplate } from "@/lib/contracts";
+
+interface ContractTemplatesCardProps {
+  organizationId: string;
+  canEdit: boolean;
+}
+
+const newTemplateForm = (): ContractTemplateFormData => ({
+  name: "",
+  title: "Contrato de Prestação de Serviços de Turismo",
+  body: DEFAULT_CONTRACT_TEMPLATE,
+  is_default: false,
+});
+
+/**
+ * Modelos de contrato da organização, com marcadores preenchidos na geração do contrato do pedido.
+ * EN: Organization contract templates; placeholders are filled when generating an order contract.
+ */
+export const ContractTemplatesCard = ({ organizationId, canEdit }: ContractTemplatesCardProps) => {
+  const [templates, setTemplates] = useState<ContractTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ContractTemplateFormData>(newTemplateForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [organizationId]);
+
+  const loadTemplates = async () => {
+    const { data, error } = await supabase
+      .from("contract_templates")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      toast.error("Erro ao carregar modelos de contrato");
+    }
+    setTemplates(data || []);
+    setLoading(false);
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...newTemplateForm(), is_default: templates.length === 0 });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (template: ContractTemplate) => {
+    setEditingId(template.id);
+    setForm({ name: template.name, title: template.title, body: template.body, is_default: template.is_default });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const validated = contractTemplateSchema.parse(form);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // Apenas um modelo padrão por organização
+      if (validated.is_default) {
+        const { error: resetError } = await supabase
+          .from("contract_templates")
+          .update({ is_default: false })
+          .eq("organization_id", organizationId)
+          .eq("is_default", true);
+        if (resetError) {
+          toast.error("Erro ao atualizar modelo padrão");
+          return;
+        }
+      }
+
+      const values = {
+        name: validated.name,
+        title: validated.title,
+        body: validated.body,
+        is_default: validated.is_default,
+      };
+
+      const { error } = editingId
+        ? await supabase.from("contract_templates").update(values).eq("id", editingId)
+        : await supabase
+            .from("contract_templates")
+            .insert([{ ...values, organization_id: organizationId, created_by: user.id }]);
+
+      if (error) {
+        toast.error("Erro ao salvar modelo de contrato");
+        return;
+      }
+
+      toast.success(editingId ? "Modelo atualizado!" : "Modelo criado!");
+      setDialogOpen(false);
+      loadTemplates();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar modelo");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ContractTemplate) => {
+    const { error } = await supabase.from("contract_templates").delete().eq("id", template.id);
+    if (error) {
+      toast.error("Erro ao excluir modelo");
+      return;
+    }
+    toast.success("Modelo excluído");
+    loadTemplates();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSignature className="w-5 h-5" />
+              Modelos de Contrato
+            </CardTitle>
+            <CardDescription>
+              Textos usados para gerar o contrato em PDF na página do pedido
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Novo Modelo
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhum modelo cadastrado. Os contratos usam o modelo padrão do sistema.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nome</TableHead>
+                <TableHead>Título</TableHead>
+                {canEdit && <TableHead className="w-24" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-medium">
+                    {template.name}
+                    {template.is_default && <Badge variant="secondary" className="ml-2">Padrão</Badge>}
+                  </TableCell>
+                  <TableCell>{template.title}</TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openEdit(template)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(template)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Editar Modelo de Contrato" : "Novo Modelo de Contrato"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid md:grid-cols-3 gap-6">
+            <div className="md:col-span-2 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Nome do modelo *</Label>
+                  <Input
+                    id="template-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Ex.: Pacotes nacionais"
+                    maxLength={100}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-title">Título do contrato *</Label>
+                  <Input
+                    id="template-title"
+                    value={form.title}
+                    onChange={(e) => setForm({ ...form, title: e.target.value })}
+                    maxLength={200}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-body">Texto *</Label>
+                <Textarea
+                  id="template-body"
+                  value={form.body}
+                  onChange={(e) => setForm({ ...form, body: e.target.value })}
+                  rows={20}
+                  className="font-mono text-xs"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="template-default"
+                  checked={form.is_default}
+                  onCheckedChange={(checked) => setForm({ ...form, is_default: checked })}
+                />
+                <Label htmlFor="template-default">Modelo padrão da organização</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Marcadores disponíveis</p>
+              <ul className="space-y-1 text-xs">
+                {CONTRACT_PLACEHOLDERS.map((placeholder) => (
+                  <li key={placeholder.key}>
+                    <code className="text-primary">{`{{${placeholder.key}}}`}</code>
+                    <span className="text-muted-foreground"> {placeholder.description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Salvando..." : "Salvar Modelo"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
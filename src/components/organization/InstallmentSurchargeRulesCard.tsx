@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CreditCard, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { PAYMENT_METHODS } from "@/lib/constants";
+import { installmentSurchargeRuleSchema } from "@/lib/validations";
+import { formatSurchargeRuleRange, loadSurchargeRules, type InstallmentSurchargeRule } from "@/lib/installmentPlans";
+
+interface InstallmentSurchargeRulesCardProps {
+  organizationId: string;
+  canEdit: boolean;
+}
+
+const emptyForm = { payment_method: "", min_installments: "", surcharge_percent: "" };
+
+/**
+ * Acréscimos do parcelamento por forma de pagamento e quantidade de parcelas (ex.: cartão em 12x).
+ * Usados pelo montador de parcelamento.
+ *
+ * EN: Installment surcharges by payment method and installment count, used by the plan builder.
+ */
+export const InstallmentSurchargeRulesCard = ({ organizationId, canEdit }: InstallmentSurchargeRulesCardProps) => {
+  const [rules, setRules] = useState<InstallmentSurchargeRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    loadRules();
+  }, [organizationId]);
+
+  const loadRules = async () => {
+    const { rules, error } = await loadSurchargeRules(organizationId);
+    if (error) {
+      toast.error("Erro ao carregar acréscimos do parcelamento");
+    }
+    setRules(rules);
+    setLoading(false);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const validated = installmentSurchargeRuleSchema.parse({
+        payment_method: form.payment_method,
+        min_installments: form.min_installments === "" ? NaN : Number(form.min_installments),
+        surcharge_percent: form.surcharge_percent === "" ? NaN : Number(form.surcharge_percent.replace(",", ".")),
+      });
+
+      if (rules.some((rule) => rule.payment_method === validated.payment_method && rule.min_installments === validated.min_installments)) {
+        toast.error("Já existe uma faixa com essa quantidade de parcelas para a forma de pagamento");
+        return;
+      }
+
+      const { error } = await supabase.from("installment_surcharge_rules").insert([
+        {
+          organization_id: organizationId,
+          payment_method: validated.payment_method,
+          min_installments: validated.min_installments,
+          surcharge_percent: validated.surcharge_percent,
+        },
+      ]);
+
+      if (error) {
+        toast.error("Erro ao salvar faixa de acréscimo");
+        return;
+      }
+
+      toast.success("Faixa de acréscimo adicionada");
+      setForm({ ...emptyForm, payment_method: validated.payment_method });
+      loadRules();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar faixa");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: InstallmentSurchargeRule) => {
+    const { error } = await supabase.from("installment_surcharge_rules").delete().eq("id", rule.id);
+    if (error) {
+      toast.error("Erro ao remover faixa");
+      return;
+    }
+    toast.success("Faixa removida");
+    loadRules();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CreditCard className="w-5 h-5" />
+          Acréscimos do Parcelamento
+        </CardTitle>
+        <CardDescription>
+          Percentual somado ao valor parcelado conforme a forma de pagamento e a quantidade de parcelas
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Forma de Pagamento</TableHead>
+                <TableHead>Parcelas</TableHead>
+                <TableHead>Acréscimo</TableHead>
+                {canEdit && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule, index) => {
+                const next = rules[index + 1];
+                const nextMin = next?.payment_method === rule.payment_method ? next.min_installments : undefined;
+                return (
+                  <TableRow key={rule.id}>
+                    <TableCell>{rule.payment_method}</TableCell>
+                    <TableCell>{formatSurchargeRuleRange(rule.min_installments, nextMin)}</TableCell>
+                    <TableCell className="font-medium">{Number(rule.surcharge_percent)}%</TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canEdit ? 4 : 3} className="text-center text-muted-foreground py-6">
+                    Nenhuma faixa cadastrada: parcelamentos não terão acréscimo
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        {canEdit && (
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Forma de pagamento *</Label>
+              <Select value={form.payment_method} onValueChange={(value) => setForm({ ...form, payment_method: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="surcharge-installments" className="text-xs">A partir de quantas parcelas *</Label>
+              <Input
+                id="surcharge-installments"
+                type="number"
+                min="1"
+                max="24"
+                value={form.min_installments}
+                onChange={(e) => setForm({ ...form, min_installments: e.target.value })}
+                placeholder="Ex.: 7"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="surcharge-percent" className="text-xs">Acréscimo (%) *</Label>
+              <Input
+                id="surcharge-percent"
+                inputMode="decimal"
+                value={form.surcharge_percent}
+                onChange={(e) => setForm({ ...form, surcharge_percent: e.target.value })}
+                placeholder="Ex.: 6"
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={saving}>
+              <Plus className="w-4 h-4 mr-2" />
+              {saving ? "Salvando..." : "Adicionar Faixa"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
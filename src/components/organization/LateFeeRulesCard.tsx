@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Percent, Save } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { LATE_INTEREST_PERIOD_OPTIONS, type LateInterestPeriod } from "@/lib/constants";
+import { lateFeeRulesSchema } from "@/lib/validations";
+import { calculateLateCharges, describeLateFeeRules, type LateFeeSettings } from "@/lib/lateFees";
+import { formatCurrency } from "@/lib/utils";
+
+interface LateFeeRulesCardProps {
+  organizationId: string;
+  settings: Partial<LateFeeSettings>;
+  canEdit: boolean;
+  onSaved?: () => void;
+}
+
+const DEFAULT_SETTINGS: LateFeeSettings = {
+  late_fee_percent: 0,
+  late_interest_percent: 0,
+  late_interest_period: "monthly",
+  late_fee_grace_days: 0,
+};
+
+// Exemplo exibido no card: parcela de R$ 1.000 paga 15 dias após o vencimento
+const EXAMPLE_AMOUNT = 1000;
+const EXAMPLE_DAYS_OVERDUE = 15;
+const EXAMPLE_DUE_DATE = "2025-01-01";
+const EXAMPLE_PAID_DATE = "2025-01-16";
+
+/**
+ * Regras de multa e juros por atraso aplicadas às parcelas vencidas.
+ * EN: Late fee and interest rules applied to overdue installments.
+ */
+export const LateFeeRulesCard = ({ organizationId, settings, canEdit, onSaved }: LateFeeRulesCardProps) => {
+  const [form, setForm] = useState<LateFeeSettings>({ ...DEFAULT_SETTINGS, ...settings });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm({ ...DEFAULT_SETTINGS, ...settings });
+  }, [settings.late_fee_percent, settings.late_interest_percent, settings.late_interest_period, settings.late_fee_grace_days]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const validated = lateFeeRulesSchema.parse(form);
+
+      const { error } = await supabase
+        .from("organizations")
+        .update({
+          late_fee_percent: validated.late_fee_percent,
+          late_interest_percent: validated.late_interest_percent,
+          late_interest_period: validated.late_interest_period,
+          late_fee_grace_days: validated.late_fee_grace_days,
+        })
+        .eq("id", organizationId);
+
+      if (error) {
+        toast.error("Erro ao salvar multa e juros");
+        return;
+      }
+
+      toast.success("Multa e juros atualizados!");
+      onSaved?.();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar multa e juros");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const example = calculateLateCharges(form, { amount: EXAMPLE_AMOUNT, due_date: EXAMPLE_DUE_DATE }, EXAMPLE_PAID_DATE);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="w-5 h-5" />
+              Multa e Juros por Atraso
+            </CardTitle>
+            <CardDescription>
+              Encargos somados ao valor das parcelas vencidas e registrados na baixa do pagamento
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="late-fee-percent">Multa (%)</Label>
+            <Input
+              id="late-fee-percent"
+              type="number"
+              min={0}
+              max={100}
+              step="0.01"
+              value={form.late_fee_percent}
+              onChange={(e) => setForm({ ...form, late_fee_percent: Number(e.target.value) })}
+              disabled={!canEdit || saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="late-interest-percent">Juros (%)</Label>
+            <Input
+              id="late-interest-percent"
+              type="number"
+              min={0}
+              max={100}
+              step="0.001"
+              value={form.late_interest_percent}
+              onChange={(e) => setForm({ ...form, late_interest_percent: Number(e.target.value) })}
+              disabled={!canEdit || saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Período dos juros</Label>
+            <Select
+              value={form.late_interest_period}
+              onValueChange={(value) => setForm({ ...form, late_interest_period: value as LateInterestPeriod })}
+              disabled={!canEdit || saving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LATE_INTEREST_PERIOD_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="late-fee-grace-days">Carência (dias)</Label>
+            <Input
+              id="late-fee-grace-days"
+              type="number"
+              min={0}
+              max={60}
+              value={form.late_fee_grace_days}
+              onChange={(e) => setForm({ ...form, late_fee_grace_days: Number(e.target.value) })}
+              disabled={!canEdit || saving}
+            />
+          </div>
+        </div>
+        <div className="mt-4 text-sm space-y-1">
+          <p className="font-medium">{describeLateFeeRules(form)}</p>
+          <p className="text-muted-foreground">
+            Exemplo: parcela de {formatCurrency(EXAMPLE_AMOUNT)} paga {EXAMPLE_DAYS_OVERDUE} dias após o vencimento →
+            multa {formatCurrency(example.lateFee)} + juros {formatCurrency(example.interest)} ={" "}
+            <span className="font-semibold text-foreground">{formatCurrency(example.total)}</span>
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Para clientes pessoa física, o Código de Defesa do Consumidor limita a multa a 2%.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
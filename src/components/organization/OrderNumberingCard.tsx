@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Hash, Save } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { orderNumberingSchema } from "@/lib/validations";
+import { formatOrderNumber, type OrderNumberingSettings } from "@/lib/orders";
+
+interface OrderNumberingCardProps {
+  organizationId: string;
+  settings: Partial<OrderNumberingSettings>;
+  canEdit: boolean;
+  onSaved?: () => void;
+}
+
+const DEFAULT_SETTINGS: OrderNumberingSettings = {
+  order_number_prefix: "PED",
+  order_number_padding: 6,
+  order_number_yearly_reset: false,
+};
+
+const PADDING_OPTIONS = [3, 4, 5, 6, 7, 8, 9, 10];
+
+/**
+ * Configuração da numeração sequencial de pedidos (prefixo, dígitos e reinício anual).
+ * Os números são gerados pelo banco no momento da criação do pedido.
+ *
+ * EN: Sequential order numbering settings (prefix, digits, yearly reset).
+ * Numbers are generated by the database when the order is created.
+ */
+export const OrderNumberingCard = ({ organizationId, settings, canEdit, onSaved }: OrderNumberingCardProps) => {
+  const [form, setForm] = useState<OrderNumberingSettings>({ ...DEFAULT_SETTINGS, ...settings });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm({ ...DEFAULT_SETTINGS, ...settings });
+  }, [settings.order_number_prefix, settings.order_number_padding, settings.order_number_yearly_reset]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const validated = orderNumberingSchema.parse(form);
+
+      const { error } = await supabase
+        .from("organizations")
+        .update(validated)
+        .eq("id", organizationId);
+
+      if (error) {
+        toast.error("Erro ao salvar numeração de pedidos");
+        return;
+      }
+
+      toast.success("Numeração de pedidos atualizada!");
+      onSaved?.();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar numeração");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Hash className="w-5 h-5" />
+              Numeração de Pedidos
+            </CardTitle>
+            <CardDescription>
+              Os pedidos recebem números sequenciais da organização no momento da criação
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="order-number-prefix">Prefixo</Label>
+            <Input
+              id="order-number-prefix"
+              value={form.order_number_prefix}
+              onChange={(e) => setForm({ ...form, order_number_prefix: e.target.value.toUpperCase() })}
+              maxLength={10}
+              disabled={!canEdit || saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Dígitos</Label>
+            <Select
+              value={String(form.order_number_padding)}
+              onValueChange={(value) => setForm({ ...form, order_number_padding: Number(value) })}
+              disabled={!canEdit || saving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PADDING_OPTIONS.map((digits) => (
+                  <SelectItem key={digits} value={String(digits)}>{digits}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 h-10">
+            <Switch
+              id="order-number-yearly-reset"
+              checked={form.order_number_yearly_reset}
+              onCheckedChange={(checked) => setForm({ ...form, order_number_yearly_reset: checked })}
+              disabled={!canEdit || saving}
+            />
+            <Label htmlFor="order-number-yearly-reset">Reiniciar a cada ano</Label>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">Exemplo do próximo formato</span>
+            <p className="font-mono font-semibold">{formatOrderNumber(form, 1)}</p>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground mt-4">
+          Alterações valem para os próximos pedidos; pedidos existentes mantêm seus números.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QrCode, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { PIX_KEY_TYPE_OPTIONS, type PixKeyType } from "@/lib/constants";
+import { organizationPixSchema } from "@/lib/validations";
+import { isPixConfigured, normalizePixKey, type PixSettings } from "@/lib/pix";
+
+interface PixSettingsCardProps {
+  organizationId: string;
+  settings: Partial<PixSettings>;
+  canEdit: boolean;
+  onSaved?: () => void;
+}
+
+interface PixForm {
+  pix_key_type: PixKeyType | "";
+  pix_key: string;
+  pix_merchant_name: string;
+  pix_merchant_city: string;
+}
+
+const KEY_PLACEHOLDERS: Record<PixKeyType, string> = {
+  cpf: "000.000.000-00",
+  cnpj: "00.000.000/0000-00",
+  email: "financeiro@agencia.com.br",
+  phone: "(11) 98765-4321",
+  random: "123e4567-e89b-12d3-a456-426614174000",
+};
+
+const toForm = (settings: Partial<PixSettings>): PixForm => ({
+  pix_key_type: settings.pix_key_type || "",
+  pix_key: settings.pix_key || "",
+  pix_merchant_name: settings.pix_merchant_name || "",
+  pix_merchant_city: settings.pix_merchant_city || "",
+});
+
+/**
+ * Dados PIX da organização usados para gerar o BR Code ("copia e cola") e o QR code das parcelas.
+ * EN: Organization PIX data used to build the BR Code and QR code for installments.
+ */
+export const PixSettingsCard = ({ organizationId, settings, canEdit, onSaved }: PixSettingsCardProps) => {
+  const [form, setForm] = useState<PixForm>(toForm(settings));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(toForm(settings));
+  }, [settings.pix_key, settings.pix_key_type, settings.pix_merchant_name, settings.pix_merchant_city]);
+
+  const saveSettings = async (values: PixSettings | Record<keyof PixSettings, null>, successMessage: string) => {
+    const { error } = await supabase.from("organizations").update(values).eq("id", organizationId);
+    if (error) {
+      toast.error("Erro ao salvar dados PIX");
+      return;
+    }
+    toast.success(successMessage);
+    onSaved?.();
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const validated = organizationPixSchema.parse(form);
+      await saveSettings(
+        {
+          pix_key_type: validated.pix_key_type,
+          pix_key: normalizePixKey(validated.pix_key_type, validated.pix_key),
+          pix_merchant_name: validated.pix_merchant_name,
+          pix_merchant_city: validated.pix_merchant_city,
+        },
+        "Dados PIX atualizados!"
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar dados PIX");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    try {
+      await saveSettings(
+        { pix_key_type: null, pix_key: null, pix_merchant_name: null, pix_merchant_city: null },
+        "Chave PIX removida"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <QrCode className="w-5 h-5" />
+              Recebimento via PIX
+            </CardTitle>
+            <CardDescription>
+              Usado para gerar o PIX copia e cola e o QR code das parcelas em aberto
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              {isPixConfigured(settings) && (
+                <Button variant="outline" size="sm" onClick={handleRemove} disabled={saving}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Remover
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? "Salvando..." : "Salvar"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label>Tipo de chave</Label>
+            <Select
+              value={form.pix_key_type}
+              onValueChange={(value) => setForm({ ...form, pix_key_type: value as PixKeyType })}
+              disabled={!canEdit || saving}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {PIX_KEY_TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pix-key">Chave PIX</Label>
+            <Input
+              id="pix-key"
+              value={form.pix_key}
+              onChange={(e) => setForm({ ...form, pix_key: e.target.value })}
+              placeholder={form.pix_key_type ? KEY_PLACEHOLDERS[form.pix_key_type] : ""}
+              maxLength={77}
+              disabled={!canEdit || saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pix-merchant-name">Nome do recebedor</Label>
+            <Input
+              id="pix-merchant-name"
+              value={form.pix_merchant_name}
+              onChange={(e) => setForm({ ...form, pix_merchant_name: e.target.value })}
+              maxLength={25}
+              disabled={!canEdit || saving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pix-merchant-city">Cidade</Label>
+            <Input
+              id="pix-merchant-city"
+              value={form.pix_merchant_city}
+              onChange={(e) => setForm({ ...form, pix_merchant_city: e.target.value })}
+              maxLength={15}
+              disabled={!canEdit || saving}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground mt-4">
+          O nome e a cidade aparecem no aplicativo do banco do cliente; acentos são removidos no código PIX.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
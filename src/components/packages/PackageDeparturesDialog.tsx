@@ -0,0 +1,324 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { format } from "date-fns";
+import { departureSchema } from "@/lib/validations";
+import { DEPARTURE_STATUS_OPTIONS, type DepartureStatus } from "@/lib/constants";
+import { departureOccupancyPercent, departureRemainingSpots } from "@/lib/packages";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+
+type Departure = Tables<"package_departures">;
+
+interface PackageDeparturesDialogProps {
+  package: { id: string; name: string; price: number } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDeparturesChanged?: () => void;
+}
+
+const emptyForm = {
+  departure_date: "",
+  return_date: "",
+  price: "",
+  capacity: "",
+  status: "open" as DepartureStatus,
+};
+
+/**
+ * Diálogo de gestão das saídas (datas) de um pacote, com ocupação por saída.
+ * EN: Dialog to manage a package's departures (dates) with per-departure occupancy.
+ */
+const PackageDeparturesDialog = ({ package: pkg, open, onOpenChange, onDeparturesChanged }: PackageDeparturesDialogProps) => {
+  const { organizationId } = useOrganization();
+  const { isOrgAdmin } = useOrganizationRole();
+  const [departures, setDepartures] = useState<Departure[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (open && pkg) loadDepartures();
+  }, [open, pkg?.id]);
+
+  const loadDepartures = async () => {
+    if (!pkg) return;
+    const { data, error } = await supabase
+      .from("package_departures")
+      .select("*")
+      .eq("package_id", pkg.id)
+      .order("departure_date", { ascending: true });
+
+    if (error) {
+      toast.error("Erro ao carregar saídas");
+      return;
+    }
+    setDepartures(data || []);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pkg || !organizationId) {
+      toast.error("Organização não encontrada");
+      return;
+    }
+    setLoading(true);
+
+    try {
+      const validatedData = departureSchema.parse(formData);
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { error } = await supabase.from("package_departures").insert([
+        {
+          package_id: pkg.id,
+          organization_id: organizationId,
+          departure_date: validatedData.departure_date,
+          return_date: validatedData.return_date ?? null,
+          price: validatedData.price ?? null,
+          capacity: parseInt(validatedData.capacity),
+          status: validatedData.status,
+          created_by: session.user.id,
+        },
+      ]);
+
+      if (error) {
+        toast.error("Erro ao criar saída");
+        return;
+      }
+
+      toast.success("Saída cadastrada com sucesso!");
+      setFormData(emptyForm);
+      loadDepartures();
+      onDeparturesChanged?.();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar dados da saída");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (departure: Departure, status: DepartureStatus) => {
+    const { error } = await supabase
+      .from("package_departures")
+      .update({ status })
+      .eq("id", departure.id);
+
+    if (error) {
+      toast.error("Erro ao atualizar status da saída");
+      return;
+    }
+    setDepartures((prev) => prev.map((d) => (d.id === departure.id ? { ...d, status } : d)));
+    onDeparturesChanged?.();
+  };
+
+  const handleCapacityChange = async (departure: Departure, value: string) => {
+    const capacity = parseInt(value);
+    if (isNaN(capacity) || capacity < departure.reserved_spots) {
+      toast.error(`Capacidade não pode ser menor que as ${departure.reserved_spots} vagas já reservadas`);
+      return;
+    }
+
+    const { error } = await supabase
+      .from("package_departures")
+      .update({ capacity })
+      .eq("id", departure.id);
+
+    if (error) {
+      toast.error("Erro ao atualizar capacidade");
+      return;
+    }
+    setDepartures((prev) => prev.map((d) => (d.id === departure.id ? { ...d, capacity } : d)));
+    onDeparturesChanged?.();
+  };
+
+  const handleDelete = async (departure: Departure) => {
+    if (departure.reserved_spots > 0) {
+      toast.error("Não é possível excluir uma saída com pedidos. Cancele a saída.");
+      return;
+    }
+
+    const { error } = await supabase.from("package_departures").delete().eq("id", departure.id);
+    if (error) {
+      toast.error("Erro ao excluir saída");
+      return;
+    }
+    toast.success("Saída excluída");
+    loadDepartures();
+    onDeparturesChanged?.();
+  };
+
+  const formatDate = (date: string) => format(new Date(date + "T00:00:00"), "dd/MM/yyyy");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Saídas — {pkg?.name}</DialogTitle>
+          <DialogDescription>
+            Cadastre as datas em que este pacote é vendido, com preço e capacidade próprios
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end border rounded-lg p-4">
+          <div className="space-y-1 md:col-span-1">
+            <Label htmlFor="dep-date" className="text-xs">Saída *</Label>
+            <Input
+              id="dep-date"
+              type="date"
+              value={formData.departure_date}
+              onChange={(e) => setFormData({ ...formData, departure_date: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-1 md:col-span-1">
+            <Label htmlFor="dep-return" className="text-xs">Retorno</Label>
+            <Input
+              id="dep-return"
+              type="date"
+              value={formData.return_date}
+              onChange={(e) => setFormData({ ...formData, return_date: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1 md:col-span-1">
+            <Label htmlFor="dep-price" className="text-xs">Preço (opcional)</Label>
+            <CurrencyInput
+              id="dep-price"
+              value={formData.price}
+              onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1 md:col-span-1">
+            <Label htmlFor="dep-capacity" className="text-xs">Capacidade *</Label>
+            <Input
+              id="dep-capacity"
+              type="number"
+              min="0"
+              value={formData.capacity}
+              onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-1 md:col-span-1">
+            <Label className="text-xs">Status</Label>
+            <Select
+              value={formData.status}
+              onValueChange={(value: DepartureStatus) => setFormData({ ...formData, status: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPARTURE_STATUS_OPTIONS.map((opt) => (
+                  <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" variant="gradient" disabled={loading}>
+            <Plus className="w-4 h-4 mr-1" />
+            {loading ? "Salvando..." : "Adicionar"}
+          </Button>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Saída</TableHead>
+              <TableHead>Retorno</TableHead>
+              <TableHead>Preço</TableHead>
+              <TableHead>Capacidade</TableHead>
+              <TableHead>Ocupação</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {departures.map((departure) => (
+              <TableRow key={departure.id}>
+                <TableCell className="font-medium">{formatDate(departure.departure_date)}</TableCell>
+                <TableCell>{departure.return_date ? formatDate(departure.return_date) : "-"}</TableCell>
+                <TableCell>
+                  R$ {Number(departure.price ?? pkg?.price ?? 0).toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
+                  {departure.price === null && (
+                    <span className="block text-xs text-muted-foreground">preço do pacote</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={departure.reserved_spots}
+                    defaultValue={departure.capacity}
+                    className="w-20 h-8"
+                    onBlur={(e) => {
+                      if (Number(e.target.value) !== departure.capacity) {
+                        handleCapacityChange(departure, e.target.value);
+                      }
+                    }}
+                  />
+                </TableCell>
+                <TableCell className="min-w-[140px]">
+                  <div className="space-y-1">
+                    <Progress value={departureOccupancyPercent(departure)} />
+                    <span className="text-xs text-muted-foreground">
+                      {departure.reserved_spots}/{departure.capacity} ocupadas
+                      {" · "}
+                      {departureRemainingSpots(departure)} livres
+                    </span>
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={departure.status}
+                    onValueChange={(value: DepartureStatus) => handleStatusChange(departure, value)}
+                  >
+                    <SelectTrigger className="w-32 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEPARTURE_STATUS_OPTIONS.map((opt) => (
+                        <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-right">
+                  {isOrgAdmin && (
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(departure)}>
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+            {departures.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                  <Badge variant="outline">Nenhuma saída cadastrada</Badge>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PackageDeparturesDialog;
@@ -157,7 +157,7 @@ const PackageEditDialog = ({ package: pkg, open, onOpenChange, onPackageUpdated
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="edit-spots">Vagas</Label>
+              <Label htmlFor="edit-spots">Vagas restantes</Label>
               <Input
                 id="edit-spots"
                 type="number"
@@ -166,6 +166,9 @@ const PackageEditDialog = ({ package: pkg, open, onOpenChange, onPackageUpdated
                 disabled={loading}
                 required
               />
+              <p className="text-xs text-muted-foreground">
+                Pedidos ativos já foram descontados deste saldo.
+              </p>
             </div>
           </div>
           <div className="flex gap-2">
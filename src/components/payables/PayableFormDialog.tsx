@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { z } from "zod";
+import { useOrganization } from "@/hooks/useOrganization";
+import { cleanCurrency, formatCurrency } from "@/lib/utils";
+import { payableSchema } from "@/lib/validations";
+import { savePayable, type PayableWithLinks, type Supplier } from "@/lib/payables";
+
+const NO_LINK = "none";
+
+export interface PayableLinkOptions {
+  packages: { id: string; name: string }[];
+  orders: { id: string; order_number: string; package_id: string | null }[];
+}
+
+interface PayableFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Conta em edição; null para lançar uma nova */
+  payable: PayableWithLinks | null;
+  suppliers: Supplier[];
+  links: PayableLinkOptions;
+  onSaved: () => void;
+}
+
+interface PayableForm {
+  supplier_id: string;
+  description: string;
+  document_number: string;
+  amount: string;
+  due_date: string;
+  package_id: string;
+  order_id: string;
+  notes: string;
+}
+
+const toForm = (payable: PayableWithLinks | null): PayableForm => ({
+  supplier_id: payable?.supplier_id ?? "",
+  description: payable?.description ?? "",
+  document_number: payable?.document_number ?? "",
+  amount: payable ? formatCurrency(Number(payable.amount)) : "",
+  due_date: payable?.due_date ?? "",
+  package_id: payable?.package_id ?? NO_LINK,
+  order_id: payable?.order_id ?? NO_LINK,
+  notes: payable?.notes ?? "",
+});
+
+/**
+ * Lançamento e edição de contas a pagar, com vínculo opcional ao pacote e/ou pedido.
+ * Ao escolher um pedido, o pacote do pedido é preenchido automaticamente.
+ *
+ * EN: Creates and edits payables, optionally linked to a package and/or order.
+ * Picking an order fills in its package.
+ */
+export const PayableFormDialog = ({ open, onOpenChange, payable, suppliers, links, onSaved }: PayableFormDialogProps) => {
+  const { organizationId } = useOrganization();
+  const [form, setForm] = useState<PayableForm>(toForm(null));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setForm(toForm(payable));
+  }, [open, payable]);
+
+  // Inativos só aparecem quando já vinculados à conta em edição
+  const supplierOptions = suppliers.filter((supplier) => supplier.is_active || supplier.id === payable?.supplier_id);
+  const orderOptions = links.orders.filter(
+    (order) => form.package_id === NO_LINK || order.package_id === form.package_id || order.id === form.order_id
+  );
+
+  const handleOrderChange = (orderId: string) => {
+    const order = links.orders.find((option) => option.id === orderId);
+    setForm({ ...form, order_id: orderId, package_id: order?.package_id ?? form.package_id });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const validated = payableSchema.parse({
+        ...form,
+        amount: cleanCurrency(form.amount),
+        package_id: form.package_id === NO_LINK ? null : form.package_id,
+        order_id: form.order_id === NO_LINK ? null : form.order_id,
+      });
+      const { error } = await savePayable(validated, { organizationId, userId: user.id, payableId: payable?.id });
+      if (error) {
+        toast.error("Erro ao salvar conta a pagar");
+        return;
+      }
+
+      toast.success(payable ? "Conta atualizada!" : "Conta a pagar lançada!");
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar conta a pagar");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{payable ? "Editar Conta a Pagar" : "Nova Conta a Pagar"}</DialogTitle>
+          <DialogDescription>Custo com fornecedor, com vencimento e vínculo opcional à viagem</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Fornecedor *</Label>
+              <Select
+                value={form.supplier_id}
+                onValueChange={(value) => setForm({ ...form, supplier_id: value })}
+                disabled={saving}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {supplierOptions.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payable-document">Nº do documento</Label>
+              <Input
+                id="payable-document"
+                value={form.document_number}
+                onChange={(e) => setForm({ ...form, document_number: e.target.value })}
+                placeholder="Nota fiscal, fatura..."
+                maxLength={60}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="payable-description">Descrição *</Label>
+            <Input
+              id="payable-description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Ex.: Hospedagem 3 noites - grupo Gramado"
+              maxLength={300}
+              disabled={saving}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payable-amount">Valor *</Label>
+              <CurrencyInput
+                id="payable-amount"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payable-due-date">Vencimento *</Label>
+              <Input
+                id="payable-due-date"
+                type="date"
+                value={form.due_date}
+                onChange={(e) => setForm({ ...form, due_date: e.target.value })}
+                disabled={saving}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Pacote</Label>
+              <Select
+                value={form.package_id}
+                onValueChange={(value) => setForm({ ...form, package_id: value })}
+                disabled={saving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LINK}>Nenhum</SelectItem>
+                  {links.packages.map((pkg) => (
+                    <SelectItem key={pkg.id} value={pkg.id}>{pkg.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Pedido</Label>
+              <Select value={form.order_id} onValueChange={handleOrderChange} disabled={saving}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LINK}>Nenhum</SelectItem>
+                  {orderOptions.map((order) => (
+                    <SelectItem key={order.id} value={order.id}>{order.order_number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="payable-notes">Observações</Label>
+            <Textarea
+              id="payable-notes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              disabled={saving}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
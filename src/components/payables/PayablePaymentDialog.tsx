@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { PAYMENT_METHODS } from "@/lib/constants";
+import { todayDateOnly } from "@/lib/lateFees";
+import { cleanCurrency, formatCurrency } from "@/lib/utils";
+import { markPayablePaid, type PayableWithLinks } from "@/lib/payables";
+
+interface PayablePaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  payable: PayableWithLinks | null;
+  onPaid: () => void;
+}
+
+/**
+ * Baixa de uma conta a pagar: data, valor efetivamente pago e forma de pagamento.
+ * EN: Settles a payable with payment date, amount actually paid and payment method.
+ */
+export const PayablePaymentDialog = ({ open, onOpenChange, payable, onPaid }: PayablePaymentDialogProps) => {
+  const [paidDate, setPaidDate] = useState(todayDateOnly());
+  const [paidAmount, setPaidAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && payable) {
+      setPaidDate(todayDateOnly());
+      setPaidAmount(formatCurrency(Number(payable.amount)));
+      setPaymentMethod(payable.payment_method ?? "");
+    }
+  }, [open, payable]);
+
+  const handleConfirm = async () => {
+    if (!payable) return;
+    const amount = cleanCurrency(paidAmount);
+    if (amount <= 0) {
+      toast.error("Informe o valor pago");
+      return;
+    }
+    if (!paidDate) {
+      toast.error("Informe a data do pagamento");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await markPayablePaid(payable.id, {
+      paid_date: paidDate,
+      paid_amount: amount,
+      payment_method: paymentMethod || null,
+    });
+    setSaving(false);
+    if (error) {
+      toast.error("Erro ao registrar pagamento");
+      return;
+    }
+
+    toast.success("Pagamento registrado!");
+    onOpenChange(false);
+    onPaid();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Registrar Pagamento</DialogTitle>
+          <DialogDescription>
+            {payable ? `${payable.supplier?.name ?? ""} · ${payable.description} · ${formatCurrency(Number(payable.amount))}` : ""}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payable-paid-date">Data do pagamento</Label>
+              <Input
+                id="payable-paid-date"
+                type="date"
+                value={paidDate}
+                onChange={(e) => setPaidDate(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payable-paid-amount">Valor pago</Label>
+              <CurrencyInput
+                id="payable-paid-amount"
+                value={paidAmount}
+                onChange={(e) => setPaidAmount(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Forma de pagamento</Label>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod} disabled={saving}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione" />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map((method) => (
+                  <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleConfirm} disabled={saving}>
+              {saving ? "Salvando..." : "Confirmar Pagamento"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
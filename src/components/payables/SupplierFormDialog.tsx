@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { z } from "zod";
+import { useOrganization } from "@/hooks/useOrganization";
+import { SUPPLIER_CATEGORY_OPTIONS, type SupplierCategory } from "@/lib/constants";
+import { supplierSchema } from "@/lib/validations";
+import { saveSupplier, type Supplier } from "@/lib/payables";
+
+interface SupplierFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Fornecedor em edição; null para cadastrar um novo */
+  supplier: Supplier | null;
+  onSaved: (supplier: Supplier) => void;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  category: "other" as SupplierCategory,
+  document: "",
+  contact_name: "",
+  email: "",
+  phone: "",
+  pix_key: "",
+  bank_details: "",
+  notes: "",
+};
+
+/**
+ * Cadastro e edição de fornecedores (hotéis, transporte, guias...).
+ * EN: Creates and edits suppliers (hotels, transport, guides...).
+ */
+export const SupplierFormDialog = ({ open, onOpenChange, supplier, onSaved }: SupplierFormDialogProps) => {
+  const { organizationId } = useOrganization();
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(
+      supplier
+        ? {
+            name: supplier.name,
+            category: supplier.category,
+            document: supplier.document || "",
+            contact_name: supplier.contact_name || "",
+            email: supplier.email || "",
+            phone: supplier.phone || "",
+            pix_key: supplier.pix_key || "",
+            bank_details: supplier.bank_details || "",
+            notes: supplier.notes || "",
+          }
+        : EMPTY_FORM
+    );
+  }, [open, supplier]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const validated = supplierSchema.parse(formData);
+      const { data, error } = await saveSupplier(validated, {
+        organizationId,
+        userId: user.id,
+        supplierId: supplier?.id,
+      });
+      if (error || !data) {
+        toast.error("Erro ao salvar fornecedor");
+        return;
+      }
+
+      toast.success(supplier ? "Fornecedor atualizado!" : "Fornecedor cadastrado!");
+      onOpenChange(false);
+      onSaved(data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar dados do fornecedor");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{supplier ? "Editar Fornecedor" : "Novo Fornecedor"}</DialogTitle>
+          <DialogDescription>Dados de contato e de pagamento do fornecedor</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="supplier-name">Nome *</Label>
+              <Input
+                id="supplier-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                disabled={saving}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Categoria</Label>
+              <Select
+                value={formData.category}
+                onValueChange={(value) => setFormData({ ...formData, category: value as SupplierCategory })}
+                disabled={saving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPLIER_CATEGORY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplier-document">CPF / CNPJ</Label>
+              <Input
+                id="supplier-document"
+                value={formData.document}
+                onChange={(e) => setFormData({ ...formData, document: e.target.value })}
+                maxLength={18}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-contact">Contato</Label>
+              <Input
+                id="supplier-contact"
+                value={formData.contact_name}
+                onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-email">Email</Label>
+              <Input
+                id="supplier-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-phone">Telefone</Label>
+              <Input
+                id="supplier-phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                maxLength={20}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-pix">Chave PIX</Label>
+              <Input
+                id="supplier-pix"
+                value={formData.pix_key}
+                onChange={(e) => setFormData({ ...formData, pix_key: e.target.value })}
+                maxLength={77}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-bank">Dados bancários</Label>
+              <Input
+                id="supplier-bank"
+                value={formData.bank_details}
+                onChange={(e) => setFormData({ ...formData, bank_details: e.target.value })}
+                placeholder="Banco, agência e conta"
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="supplier-notes">Observações</Label>
+            <Textarea
+              id="supplier-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+              disabled={saving}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
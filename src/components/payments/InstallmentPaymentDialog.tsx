@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Receipt, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { PAYMENT_METHODS } from "@/lib/constants";
+import { formatCurrency } from "@/lib/utils";
+import { LateChargesSummary } from "@/components/payments/LateChargesSummary";
+import { calculateLateCharges, todayDateOnly, type LateFeeSettings } from "@/lib/lateFees";
+import {
+  deleteInstallmentPayment,
+  getInstallmentBalance,
+  getInstallmentPaymentMessage,
+  listInstallmentPayments,
+  recordInstallmentPayment,
+  type InstallmentPaymentWithReceipt,
+} from "@/lib/installmentPayments";
+
+interface InstallmentPaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  installment: {
+    id: string;
+    organization_id: string;
+    installment_number: number;
+    total_installments: number;
+    amount: number;
+    paid_amount?: number | null;
+    due_date: string;
+    status: string;
+    payment_method: string | null;
+  } | null;
+  lateFeeSettings: LateFeeSettings | null;
+  canEdit: boolean;
+  /** Chamado após registrar ou estornar um recebimento */
+  onChanged: () => void;
+}
+
+/**
+ * Lançamento de pagamentos (totais ou parciais) de uma parcela, com o histórico de recebimentos
+ * e acesso ao recibo de cada um.
+ * EN: Records full or partial payments against an installment and lists the payments received,
+ * each linking to its receipt.
+ */
+export const InstallmentPaymentDialog = ({
+  open,
+  onOpenChange,
+  installment,
+  lateFeeSettings,
+  canEdit,
+  onChanged,
+}: InstallmentPaymentDialogProps) => {
+  const [history, setHistory] = useState<InstallmentPaymentWithReceipt[]>([]);
+  const [amount, setAmount] = useState("");
+  const [paymentDate, setPaymentDate] = useState(todayDateOnly());
+  const [paymentMethod, setPaymentMethod] = useState("");
+  const [notes, setNotes] = useState("");
+  const [chargeLateFees, setChargeLateFees] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [paidAmount, setPaidAmount] = useState(0);
+
+  // Saldo calculado pelos recebimentos carregados (reflete estornos feitos no próprio diálogo)
+  const balance = installment ? getInstallmentBalance({ amount: installment.amount, paid_amount: paidAmount }) : 0;
+
+  const loadHistory = async () => {
+    if (!installment) return;
+    const { payments } = await listInstallmentPayments(installment.id);
+    setHistory(payments);
+    setPaidAmount(payments.reduce((sum, p) => sum + Number(p.amount), 0));
+  };
+
+  useEffect(() => {
+    if (open && installment) {
+      setHistory([]);
+      setPaidAmount(Number(installment.paid_amount || 0));
+      setAmount(getInstallmentBalance(installment).toFixed(2));
+      setPaymentDate(todayDateOnly());
+      setPaymentMethod(installment.payment_method || "");
+      setNotes("");
+      setChargeLateFees(true);
+      loadHistory();
+    }
+  }, [open, installment?.id]);
+
+  if (!installment) return null;
+
+  const amountValue = Number(amount) || 0;
+  const charges = calculateLateCharges(
+    lateFeeSettings,
+    { amount: amountValue, due_date: installment.due_date },
+    paymentDate || todayDateOnly()
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (amountValue <= 0) {
+      toast.error("Informe o valor recebido");
+      return;
+    }
+    if (amountValue > balance) {
+      toast.error(`O valor excede o saldo da parcela (${formatCurrency(balance)})`);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await recordInstallmentPayment(installment, {
+      amount: amountValue,
+      payment_date: paymentDate || todayDateOnly(),
+      payment_method: paymentMethod || installment.payment_method || null,
+      late_fee_amount: chargeLateFees ? charges.lateFee : 0,
+      interest_amount: chargeLateFees ? charges.interest : 0,
+      notes,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(getInstallmentPaymentMessage(error) ?? "Erro ao lançar pagamento: " + error.message);
+      return;
+    }
+
+    toast.success(amountValue < balance ? "Pagamento parcial lançado" : "Parcela quitada");
+    onChanged();
+    onOpenChange(false);
+  };
+
+  const handleDelete = async (entry: InstallmentPaymentWithReceipt) => {
+    const { error } = await deleteInstallmentPayment(entry.id);
+    if (error) {
+      toast.error("Erro ao estornar pagamento");
+      return;
+    }
+    toast.success("Pagamento estornado");
+    await loadHistory();
+    onChanged();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Lançar Pagamento</DialogTitle>
+          <DialogDescription>
+            Parcela {installment.installment_number}/{installment.total_installments} · Valor {formatCurrency(Number(installment.amount))} ·
+            Saldo {formatCurrency(balance)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Recebimentos</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Método</TableHead>
+                  <TableHead>Valor</TableHead>
+                  <TableHead>Multa e juros</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{format(new Date(`${entry.payment_date}T00:00:00`), "dd/MM/yyyy")}</TableCell>
+                    <TableCell>{entry.payment_method || "-"}</TableCell>
+                    <TableCell>{formatCurrency(Number(entry.amount))}</TableCell>
+                    <TableCell>
+                      {Number(entry.late_fee_amount) + Number(entry.interest_amount) > 0
+                        ? formatCurrency(Number(entry.late_fee_amount) + Number(entry.interest_amount))
+                        : "-"}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {entry.receipt && (
+                        <Button variant="ghost" size="sm" title={`Recibo ${entry.receipt.receipt_number}`} asChild>
+                          <Link to={`/receipts/${entry.receipt.id}`}>
+                            <Receipt className="w-4 h-4" />
+                          </Link>
+                        </Button>
+                      )}
+                      {canEdit && (
+                        <Button variant="ghost" size="sm" title="Estornar pagamento" onClick={() => handleDelete(entry)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {installment.status === "cancelled" ? (
+          <p className="text-sm text-muted-foreground">Parcela cancelada: não recebe novos pagamentos.</p>
+        ) : balance <= 0 ? (
+          <p className="text-sm text-muted-foreground">Parcela quitada.</p>
+        ) : canEdit ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="installment-payment-amount">Valor Recebido</Label>
+                <Input
+                  id="installment-payment-amount"
+                  type="number"
+                  min={0.01}
+                  max={balance}
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="installment-payment-date">Data de Pagamento</Label>
+                <Input
+                  id="installment-payment-date"
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label>Método de Pagamento</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o método" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="installment-payment-notes">Observações</Label>
+                <Input
+                  id="installment-payment-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+            </div>
+            {amountValue > 0 && amountValue < balance && (
+              <p className="text-sm text-muted-foreground">
+                Pagamento parcial: restará {formatCurrency(balance - amountValue)} em aberto nesta parcela.
+              </p>
+            )}
+            <LateChargesSummary
+              amount={amountValue}
+              amountLabel="Valor abatido da parcela"
+              charges={charges}
+              charged={chargeLateFees}
+              onChargedChange={setChargeLateFees}
+            />
+            <div className="flex gap-2 justify-end">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Salvando..." : "Salvar"}
+              </Button>
+            </div>
+          </form>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+};
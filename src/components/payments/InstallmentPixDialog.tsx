@@ -0,0 +1,101 @@
+import { useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy } from "lucide-react";
+import { toast } from "sonner";
+import { formatCurrency } from "@/lib/utils";
+import { buildInstallmentPixPayload, getPixQrDataUrl, loadPixSettings } from "@/lib/pix";
+
+interface InstallmentPixDialogProps {
+  organizationId: string | null;
+  orderNumber: string;
+  installment: {
+    installment_number: number;
+    total_installments: number;
+    amount: number;
+  };
+  trigger: ReactNode;
+}
+
+/**
+ * Cobrança PIX de uma parcela: BR Code estático com o valor da parcela ("copia e cola") e QR code.
+ * EN: PIX charge for an installment: static BR Code with the installment amount and QR code.
+ */
+export const InstallmentPixDialog = ({ organizationId, orderNumber, installment, trigger }: InstallmentPixDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [payload, setPayload] = useState<string | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  const loadCharge = async () => {
+    if (!organizationId) return;
+    setLoading(true);
+    const settings = await loadPixSettings(organizationId);
+    if (settings) {
+      const pixPayload = buildInstallmentPixPayload(settings, {
+        orderNumber,
+        installmentNumber: installment.installment_number,
+        totalInstallments: installment.total_installments,
+        amount: Number(installment.amount),
+      });
+      setPayload(pixPayload);
+      setQrDataUrl(await getPixQrDataUrl(pixPayload));
+    } else {
+      setPayload(null);
+      setQrDataUrl(null);
+    }
+    setLoading(false);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) loadCharge();
+  };
+
+  const handleCopy = async () => {
+    if (!payload) return;
+    try {
+      await navigator.clipboard.writeText(payload);
+      toast.success("PIX copia e cola copiado!");
+    } catch {
+      toast.error("Não foi possível copiar o código");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cobrança via PIX</DialogTitle>
+          <DialogDescription>
+            Pedido {orderNumber} · Parcela {installment.installment_number}/{installment.total_installments} ·{" "}
+            {formatCurrency(Number(installment.amount))}
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <p className="text-muted-foreground text-center py-8">Gerando código PIX...</p>
+        ) : !payload ? (
+          <p className="text-sm text-muted-foreground py-4">
+            Cadastre a chave PIX da agência em Configurações da Organização para gerar cobranças.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {qrDataUrl && (
+              <img src={qrDataUrl} alt="QR code PIX" className="mx-auto h-56 w-56" />
+            )}
+            <div className="space-y-2">
+              <p className="text-sm font-medium">PIX copia e cola</p>
+              <Textarea value={payload} readOnly rows={4} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            </div>
+            <Button className="w-full" onClick={handleCopy}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copiar código
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,284 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import { INSTALLMENT_INTERVAL_OPTIONS, PAYMENT_METHODS, type InstallmentInterval } from "@/lib/constants";
+import { installmentPlanSchema } from "@/lib/validations";
+import { formatCurrency } from "@/lib/utils";
+import {
+  buildInstallmentPlan,
+  createInstallmentPlan,
+  findSurchargePercent,
+  loadSurchargeRules,
+  type InstallmentSurchargeRule,
+} from "@/lib/installmentPlans";
+
+interface InstallmentPlanBuilderProps {
+  organizationId: string | null;
+  payment: {
+    id: string;
+    amount: number;
+    due_date: string;
+    payment_method?: string | null;
+  };
+  trigger: ReactNode;
+  onCreated: () => void;
+}
+
+const NO_METHOD = "none";
+
+/**
+ * Montagem do parcelamento com entrada, intervalo entre vencimentos e acréscimo por forma
+ * de pagamento, com prévia das parcelas antes de criá-las.
+ *
+ * EN: Installment plan builder (down payment, interval, per-method surcharge) with a preview.
+ */
+export const InstallmentPlanBuilder = ({ organizationId, payment, trigger, onCreated }: InstallmentPlanBuilderProps) => {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [rules, setRules] = useState<InstallmentSurchargeRule[]>([]);
+  const [form, setForm] = useState({
+    installment_count: "2",
+    down_payment: "",
+    down_payment_date: "",
+    first_due_date: payment.due_date,
+    interval: "monthly" as InstallmentInterval,
+    day_of_month: "",
+    payment_method: payment.payment_method || NO_METHOD,
+  });
+
+  useEffect(() => {
+    if (open && organizationId) {
+      loadSurchargeRules(organizationId).then(({ rules }) => setRules(rules));
+    }
+  }, [open, organizationId]);
+
+  const paymentMethod = form.payment_method === NO_METHOD ? "" : form.payment_method;
+  const installmentCount = Math.max(parseInt(form.installment_count) || 1, 1);
+  const downPayment = Number(form.down_payment.replace(",", ".")) || 0;
+  const surchargePercent = findSurchargePercent(rules, paymentMethod, installmentCount);
+  const plan = buildInstallmentPlan({
+    total: Number(payment.amount),
+    installmentCount,
+    firstDueDate: form.first_due_date || payment.due_date,
+    interval: form.interval,
+    dayOfMonth: form.day_of_month ? parseInt(form.day_of_month) : null,
+    downPayment,
+    downPaymentDate: form.down_payment_date,
+    surchargePercent,
+  });
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId) {
+      toast.error("Organização não encontrada");
+      return;
+    }
+
+    try {
+      installmentPlanSchema.parse({
+        installment_count: form.installment_count === "" ? NaN : Number(form.installment_count),
+        down_payment: downPayment,
+        down_payment_date: form.down_payment_date,
+        first_due_date: form.first_due_date,
+        interval: form.interval,
+        day_of_month: form.day_of_month === "" ? null : Number(form.day_of_month),
+        payment_method: paymentMethod,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+      return;
+    }
+
+    if (downPayment >= Number(payment.amount)) {
+      toast.error("A entrada deve ser menor que o valor total");
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    const { error } = await createInstallmentPlan(payment.id, plan, {
+      organizationId,
+      userId: user.id,
+      paymentMethod,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error("Erro ao criar parcelas: " + error.message);
+      return;
+    }
+
+    toast.success("Parcelas criadas com sucesso!");
+    setOpen(false);
+    onCreated();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Criar Parcelamento</DialogTitle>
+          <DialogDescription>
+            Valor total: {formatCurrency(Number(payment.amount))}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="plan-down-payment">Entrada (R$)</Label>
+              <Input
+                id="plan-down-payment"
+                inputMode="decimal"
+                placeholder="Sem entrada"
+                value={form.down_payment}
+                onChange={(e) => setForm({ ...form, down_payment: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-down-payment-date">Data da Entrada</Label>
+              <Input
+                id="plan-down-payment-date"
+                type="date"
+                value={form.down_payment_date}
+                onChange={(e) => setForm({ ...form, down_payment_date: e.target.value })}
+                disabled={downPayment <= 0}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-count">Número de Parcelas</Label>
+              <Input
+                id="plan-count"
+                type="number"
+                min={1}
+                max={24}
+                value={form.installment_count}
+                onChange={(e) => setForm({ ...form, installment_count: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Forma de Pagamento</Label>
+              <Select value={form.payment_method} onValueChange={(value) => setForm({ ...form, payment_method: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_METHOD}>Não definida</SelectItem>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-first-due-date">Primeiro Vencimento</Label>
+              <Input
+                id="plan-first-due-date"
+                type="date"
+                value={form.first_due_date}
+                onChange={(e) => setForm({ ...form, first_due_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Intervalo</Label>
+              <Select
+                value={form.interval}
+                onValueChange={(value) => setForm({ ...form, interval: value as InstallmentInterval })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INSTALLMENT_INTERVAL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.interval === "day_of_month" && (
+              <div className="space-y-1">
+                <Label htmlFor="plan-day-of-month">Dia do Vencimento</Label>
+                <Input
+                  id="plan-day-of-month"
+                  type="number"
+                  min={1}
+                  max={31}
+                  placeholder="Ex.: 10"
+                  value={form.day_of_month}
+                  onChange={(e) => setForm({ ...form, day_of_month: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-md border p-3 space-y-1 text-sm">
+            {plan.downPayment > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Entrada</span>
+                <span>{formatCurrency(plan.downPayment)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Valor parcelado</span>
+              <span>{formatCurrency(plan.financedAmount)}</span>
+            </div>
+            {plan.surchargeAmount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Acréscimo ({plan.surchargePercent}% · {paymentMethod} em {installmentCount}x)</span>
+                <span>{formatCurrency(plan.surchargeAmount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between border-t pt-2 font-semibold">
+              <span>Total</span>
+              <span>{formatCurrency(plan.total)}</span>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Parcela</TableHead>
+                <TableHead>Vencimento</TableHead>
+                <TableHead className="text-right">Valor</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.rows.map((row) => (
+                <TableRow key={row.installment_number}>
+                  <TableCell>
+                    {row.is_down_payment ? "Entrada" : `${row.installment_number}/${row.total_installments}`}
+                  </TableCell>
+                  <TableCell>{row.due_date ? format(parseISO(row.due_date), "dd/MM/yyyy") : "-"}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Criando..." : "Criar Parcelas"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
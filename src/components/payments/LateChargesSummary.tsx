@@ -0,0 +1,46 @@
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { formatCurrency } from "@/lib/utils";
+import type { LateCharges } from "@/lib/lateFees";
+
+interface LateChargesSummaryProps {
+  amount: number;
+  /** Rótulo do valor base (padrão: "Valor da parcela") */
+  amountLabel?: string;
+  charges: LateCharges;
+  charged: boolean;
+  onChargedChange: (charged: boolean) => void;
+}
+
+/**
+ * Resumo de multa e juros no lançamento do pagamento, com opção de dispensar os encargos.
+ * EN: Late fee and interest breakdown shown when settling an installment, with a waive option.
+ */
+export const LateChargesSummary = ({ amount, amountLabel = "Valor da parcela", charges, charged, onChargedChange }: LateChargesSummaryProps) => {
+  if (charges.lateFee === 0 && charges.interest === 0) return null;
+
+  return (
+    <div className="rounded-md border p-3 space-y-2 text-sm">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">{amountLabel}</span>
+        <span>{formatCurrency(amount)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Multa ({charges.daysOverdue} dias de atraso)</span>
+        <span>{charged ? formatCurrency(charges.lateFee) : "-"}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Juros</span>
+        <span>{charged ? formatCurrency(charges.interest) : "-"}</span>
+      </div>
+      <div className="flex justify-between border-t pt-2 font-semibold">
+        <span>Total a receber</span>
+        <span>{formatCurrency(charged ? charges.total : amount)}</span>
+      </div>
+      <div className="flex items-center gap-2 pt-1">
+        <Switch id="charge-late-fees" checked={charged} onCheckedChange={onChargedChange} />
+        <Label htmlFor="charge-late-fees">Cobrar multa e juros</Label>
+      </div>
+    </div>
+  );
+};
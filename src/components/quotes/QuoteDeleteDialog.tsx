@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+
+interface QuoteDeleteDialogProps {
+  quote: { id: string; quote_number: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onQuoteDeleted: () => void;
+}
+
+/**
+ * Confirmação de exclusão do orçamento. Pedidos já convertidos não são afetados.
+ * EN: Quote delete confirmation. Orders already converted are kept.
+ */
+const QuoteDeleteDialog = ({ quote, open, onOpenChange, onQuoteDeleted }: QuoteDeleteDialogProps) => {
+  const [loading, setLoading] = useState(false);
+
+  const handleDelete = async () => {
+    if (!quote) return;
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.from("quotes").delete().eq("id", quote.id);
+
+      if (error) {
+        toast.error("Erro ao excluir orçamento");
+        return;
+      }
+
+      toast.success("Orçamento excluído com sucesso!");
+      onOpenChange(false);
+      onQuoteDeleted();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Tem certeza?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Isso irá deletar permanentemente o orçamento <strong>{quote?.quote_number}</strong> e suas opções.
+            Pedidos já convertidos a partir dele não serão excluídos.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancelar
+          </Button>
+          <Button variant="destructive" onClick={handleDelete} disabled={loading}>
+            {loading ? "Excluindo..." : "Excluir"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default QuoteDeleteDialog;
@@ -0,0 +1,209 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Layers, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { cleanCurrency, formatCurrency } from "@/lib/utils";
+import { departureRemainingSpots, formatRemainingSpots } from "@/lib/packages";
+import { emptyQuoteOption, quoteOptionTotal, type QuoteOptionDraft } from "@/lib/quotes";
+import { todayDateOnly } from "@/lib/lateFees";
+
+interface PackageDeparture {
+  id: string;
+  departure_date: string;
+  return_date: string | null;
+  price: number | null;
+  capacity: number;
+  reserved_spots: number;
+  status: string;
+}
+
+interface QuotePackage {
+  id: string;
+  name: string;
+  destination: string;
+  price: number;
+  package_departures?: PackageDeparture[];
+}
+
+interface QuoteOptionsEditorProps {
+  value: QuoteOptionDraft[];
+  onChange: (options: QuoteOptionDraft[]) => void;
+  packages: QuotePackage[];
+}
+
+const formatDate = (date: string) => format(new Date(date + "T00:00:00"), "dd/MM/yyyy");
+
+/**
+ * Editor das opções do orçamento (pacote, saída/data, viajantes e preço negociado).
+ * EN: Quote options editor (package, departure/date, travelers and negotiated price).
+ */
+export const QuoteOptionsEditor = ({ value, onChange, packages }: QuoteOptionsEditorProps) => {
+  const today = todayDateOnly();
+
+  const getOpenDepartures = (packageId: string) =>
+    (packages.find((p) => p.id === packageId)?.package_departures || [])
+      .filter((d) => d.status === "open" && d.departure_date > today)
+      .sort((a, b) => a.departure_date.localeCompare(b.departure_date));
+
+  const updateOption = (index: number, patch: Partial<QuoteOptionDraft>) => {
+    onChange(value.map((o, i) => (i === index ? { ...o, ...patch } : o)));
+  };
+
+  const handlePackageChange = (index: number, packageId: string) => {
+    const pkg = packages.find((p) => p.id === packageId);
+    const current = value[index];
+    updateOption(index, {
+      package_id: packageId,
+      departure_id: null,
+      travel_date: "",
+      title: current.title || pkg?.name || "",
+      unit_price: Number(pkg?.price ?? 0),
+    });
+  };
+
+  const handleDepartureChange = (index: number, departureId: string) => {
+    const option = value[index];
+    const pkg = packages.find((p) => p.id === option.package_id);
+    const departure = pkg?.package_departures?.find((d) => d.id === departureId);
+    updateOption(index, {
+      departure_id: departureId,
+      travel_date: departure?.departure_date || "",
+      unit_price: Number(departure?.price ?? pkg?.price ?? option.unit_price),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label className="flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Opções * ({value.length})
+        </Label>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...value, emptyQuoteOption()])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Adicionar opção
+        </Button>
+      </div>
+
+      {value.length === 0 && (
+        <div className="text-sm text-muted-foreground border border-dashed rounded-lg p-4 text-center">
+          Nenhuma opção adicionada. Inclua ao menos uma opção para o cliente.
+        </div>
+      )}
+
+      {value.map((option, index) => {
+        const departures = getOpenDepartures(option.package_id);
+        return (
+          <div key={option.id || index} className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold">Opção {index + 1}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Pacote *</Label>
+                <Select value={option.package_id} onValueChange={(v) => handlePackageChange(index, v)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione um pacote" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {packages.map((pkg) => (
+                      <SelectItem key={pkg.id} value={pkg.id}>
+                        {pkg.name} — {pkg.destination}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Título *</Label>
+                <Input
+                  value={option.title}
+                  onChange={(e) => updateOption(index, { title: e.target.value })}
+                  placeholder="Ex.: Opção econômica"
+                  maxLength={100}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              {departures.length > 0 ? (
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-xs">Saída</Label>
+                  <Select value={option.departure_id || ""} onValueChange={(v) => handleDepartureChange(index, v)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Selecione a saída" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {departures.map((dep) => (
+                        <SelectItem key={dep.id} value={dep.id}>
+                          {formatDate(dep.departure_date)}
+                          {dep.return_date && ` a ${formatDate(dep.return_date)}`}
+                          {" · "}
+                          {formatRemainingSpots(departureRemainingSpots(dep))}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-xs">Data da viagem</Label>
+                  <Input
+                    type="date"
+                    value={option.travel_date}
+                    onChange={(e) => updateOption(index, { travel_date: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label className="text-xs">Viajantes *</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={option.number_of_travelers}
+                  onChange={(e) => updateOption(index, { number_of_travelers: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Preço por viajante *</Label>
+                <CurrencyInput
+                  value={formatCurrency(option.unit_price)}
+                  onChange={(e) => updateOption(index, { unit_price: cleanCurrency(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div className="space-y-1 md:col-span-3">
+                <Label className="text-xs">Observações da opção</Label>
+                <Input
+                  value={option.notes}
+                  onChange={(e) => updateOption(index, { notes: e.target.value })}
+                  placeholder="Ex.: inclui traslado e seguro viagem"
+                  maxLength={500}
+                />
+              </div>
+              <div className="text-right">
+                <span className="block text-xs text-muted-foreground">Total da opção</span>
+                <span className="text-lg font-bold text-primary">{formatCurrency(quoteOptionTotal(option))}</span>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+import { QUOTE_STATUS_OPTIONS } from "@/lib/constants";
+import type { QuoteDisplayStatus } from "@/lib/quotes";
+
+const variants: Record<QuoteDisplayStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "secondary",
+  sent: "outline",
+  accepted: "default",
+  rejected: "destructive",
+  converted: "default",
+  expired: "destructive",
+};
+
+/**
+ * Badge de status do orçamento (inclui o status derivado "Expirado").
+ * EN: Quote status badge (including the derived "Expirado" status).
+ */
+export const QuoteStatusBadge = ({ status }: { status: QuoteDisplayStatus }) => {
+  const label =
+    status === "expired"
+      ? "Expirado"
+      : QUOTE_STATUS_OPTIONS.find((opt) => opt.value === status)?.label || status;
+  return <Badge variant={variants[status] || "secondary"}>{label}</Badge>;
+};
@@ -0,0 +1,42 @@
+import * as React from "react";
+import { cn, formatCnpj } from "@/lib/utils";
+
+interface CnpjInputProps extends Omit<React.ComponentProps<"input">, "type" | "onChange"> {
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+const CnpjInput = React.forwardRef<HTMLInputElement, CnpjInputProps>(
+  ({ className, value, onChange, ...props }, ref) => {
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const syntheticEvent = {
+        ...e,
+        target: {
+          ...e.target,
+          value: formatCnpj(e.target.value),
+        },
+      } as React.ChangeEvent<HTMLInputElement>;
+
+      onChange(syntheticEvent);
+    };
+
+    return (
+      <input
+        type="text"
+        className={cn(
+          "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-base ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium file:text-foreground placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 md:text-sm",
+          className,
+        )}
+        value={value}
+        onChange={handleChange}
+        placeholder="00.000.000/0000-00"
+        maxLength={18}
+        ref={ref}
+        {...props}
+      />
+    );
+  },
+);
+CnpjInput.displayName = "CnpjInput";
+
+export { CnpjInput };
@@ -23,457 +23,2311 @@ export type Database = {
   }
   public: {
     Tables: {
+      bank_statement_entries: {
+        Row: {
+          amount: number
+          created_at: string | null
+          description: string
+          fit_id: string
+          id: string
+          import_id: string
+          installment_payment_id: string | null
+          matched_at: string | null
+          matched_by: string | null
+          organization_id: string
+          posted_date: string
+          status: Database["public"]["Enums"]["bank_entry_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          description?: string
+          fit_id: string
+          id?: string
+          import_id: string
+          installment_payment_id?: string | null
+          matched_at?: string | null
+          matched_by?: string | null
+          organization_id: string
+          posted_date: string
+          status?: Database["public"]["Enums"]["bank_entry_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          description?: string
+          fit_id?: string
+          id?: string
+          import_id?: string
+          installment_payment_id?: string | null
+          matched_at?: string | null
+          matched_by?: string | null
+          organization_id?: string
+          posted_date?: string
+          status?: Database["public"]["Enums"]["bank_entry_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_entries_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "bank_statement_imports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_entries_installment_payment_id_fkey"
+            columns: ["installment_payment_id"]
+            isOneToOne: true
+            referencedRelation: "installment_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_entries_matched_by_fkey"
+            columns: ["matched_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_entries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_statement_imports: {
+        Row: {
+          account_id: string | null
+          bank_name: string | null
+          created_at: string | null
+          created_by: string | null
+          file_format: Database["public"]["Enums"]["bank_statement_format"]
+          file_name: string
+          id: string
+          imported_entries: number
+          organization_id: string
+          period_end: string | null
+          period_start: string | null
+          total_entries: number
+        }
+        Insert: {
+          account_id?: string | null
+          bank_name?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          file_format: Database["public"]["Enums"]["bank_statement_format"]
+          file_name: string
+          id?: string
+          imported_entries?: number
+          organization_id: string
+          period_end?: string | null
+          period_start?: string | null
+          total_entries?: number
+        }
+        Update: {
+          account_id?: string | null
+          bank_name?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          file_format?: Database["public"]["Enums"]["bank_statement_format"]
+          file_name?: string
+          id?: string
+          imported_entries?: number
+          organization_id?: string
+          period_end?: string | null
+          period_start?: string | null
+          total_entries?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_imports_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_statement_imports_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cancellation_policy_rules: {
+        Row: {
+          created_at: string | null
+          id: string
+          min_days_before: number
+          organization_id: string
+          penalty_percent: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          min_days_before: number
+          organization_id: string
+          penalty_percent: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          min_days_before?: number
+          organization_id?: string
+          penalty_percent?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_policy_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cnab_file_lines: {
+        Row: {
+          amount: number | null
+          created_at: string | null
+          file_id: string
+          id: string
+          installment_id: string | null
+          installment_payment_id: string | null
+          line_number: number
+          message: string | null
+          occurrence_code: string | null
+          occurrence_date: string | null
+          organization_id: string
+          our_number: number | null
+          outcome: Database["public"]["Enums"]["cnab_line_outcome"]
+          paid_amount: number | null
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string | null
+          file_id: string
+          id?: string
+          installment_id?: string | null
+          installment_payment_id?: string | null
+          line_number: number
+          message?: string | null
+          occurrence_code?: string | null
+          occurrence_date?: string | null
+          organization_id: string
+          our_number?: number | null
+          outcome: Database["public"]["Enums"]["cnab_line_outcome"]
+          paid_amount?: number | null
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string | null
+          file_id?: string
+          id?: string
+          installment_id?: string | null
+          installment_payment_id?: string | null
+          line_number?: number
+          message?: string | null
+          occurrence_code?: string | null
+          occurrence_date?: string | null
+          organization_id?: string
+          our_number?: number | null
+          outcome?: Database["public"]["Enums"]["cnab_line_outcome"]
+          paid_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cnab_file_lines_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "cnab_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cnab_file_lines_installment_id_fkey"
+            columns: ["installment_id"]
+            isOneToOne: false
+            referencedRelation: "installments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cnab_file_lines_installment_payment_id_fkey"
+            columns: ["installment_payment_id"]
+            isOneToOne: false
+            referencedRelation: "installment_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cnab_file_lines_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cnab_files: {
+        Row: {
+          content: string
+          content_hash: string | null
+          created_at: string | null
+          created_by: string | null
+          error_lines: number
+          file_name: string
+          file_type: Database["public"]["Enums"]["cnab_file_type"]
+          id: string
+          layout: Database["public"]["Enums"]["cnab_layout"]
+          organization_id: string
+          processed_lines: number
+          sequence_number: number | null
+          total_amount: number
+          total_lines: number
+        }
+        Insert: {
+          content?: string
+          content_hash?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          error_lines?: number
+          file_name: string
+          file_type: Database["public"]["Enums"]["cnab_file_type"]
+          id?: string
+          layout: Database["public"]["Enums"]["cnab_layout"]
+          organization_id: string
+          processed_lines?: number
+          sequence_number?: number | null
+          total_amount?: number
+          total_lines?: number
+        }
+        Update: {
+          content?: string
+          content_hash?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          error_lines?: number
+          file_name?: string
+          file_type?: Database["public"]["Enums"]["cnab_file_type"]
+          id?: string
+          layout?: Database["public"]["Enums"]["cnab_layout"]
+          organization_id?: string
+          processed_lines?: number
+          sequence_number?: number | null
+          total_amount?: number
+          total_lines?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cnab_files_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cnab_files_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_entries: {
+        Row: {
+          amount: number
+          base_amount: number
+          basis: Database["public"]["Enums"]["commission_basis"]
+          commission_percent: number
+          created_at: string | null
+          id: string
+          installment_payment_id: string | null
+          notes: string | null
+          order_id: string
+          organization_id: string
+          paid_by: string | null
+          paid_date: string | null
+          reference_date: string
+          rule_id: string | null
+          status: Database["public"]["Enums"]["commission_status"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          base_amount: number
+          basis: Database["public"]["Enums"]["commission_basis"]
+          commission_percent: number
+          created_at?: string | null
+          id?: string
+          installment_payment_id?: string | null
+          notes?: string | null
+          order_id: string
+          organization_id: string
+          paid_by?: string | null
+          paid_date?: string | null
+          reference_date?: string
+          rule_id?: string | null
+          status?: Database["public"]["Enums"]["commission_status"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          base_amount?: number
+          basis?: Database["public"]["Enums"]["commission_basis"]
+          commission_percent?: number
+          created_at?: string | null
+          id?: string
+          installment_payment_id?: string | null
+          notes?: string | null
+          order_id?: string
+          organization_id?: string
+          paid_by?: string | null
+          paid_date?: string | null
+          reference_date?: string
+          rule_id?: string | null
+          status?: Database["public"]["Enums"]["commission_status"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_entries_installment_payment_id_fkey"
+            columns: ["installment_payment_id"]
+            isOneToOne: false
+            referencedRelation: "installment_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_entries_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_entries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_entries_paid_by_fkey"
+            columns: ["paid_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_entries_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "commission_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_entries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_rules: {
+        Row: {
+          commission_percent: number
+          created_at: string | null
+          id: string
+          min_order_amount: number
+          organization_id: string
+          package_id: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          commission_percent: number
+          created_at?: string | null
+          id?: string
+          min_order_amount?: number
+          organization_id: string
+          package_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          commission_percent?: number
+          created_at?: string | null
+          id?: string
+          min_order_amount?: number
+          organization_id?: string
+          package_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_rules_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "travel_packages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_rules_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contract_templates: {
+        Row: {
+          body: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          is_default: boolean
+          name: string
+          organization_id: string
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          organization_id: string
+          title?: string
+          updated_at?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          organization_id?: string
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contract_templates_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_documents: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          customer_id: string
+          document_number: string
+          document_type: Database["public"]["Enums"]["customer_document_type"]
+          expiry_date: string | null
+          file_name: string | null
+          file_path: string | null
+          id: string
+          issue_date: string | null
+          issuing_country: string | null
+          notes: string | null
+          organization_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          customer_id: string
+          document_number: string
+          document_type: Database["public"]["Enums"]["customer_document_type"]
+          expiry_date?: string | null
+          file_name?: string | null
+          file_path?: string | null
+          id?: string
+          issue_date?: string | null
+          issuing_country?: string | null
+          notes?: string | null
+          organization_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string
+          document_number?: string
+          document_type?: Database["public"]["Enums"]["customer_document_type"]
+          expiry_date?: string | null
+          file_name?: string | null
+          file_path?: string | null
+          id?: string
+          issue_date?: string | null
+          issuing_country?: string | null
+          notes?: string | null
+          organization_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_documents_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_documents_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_documents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_duplicate_dismissals: {
+        Row: {
+          created_at: string | null
+          customer_id: string
+          dismissed_by: string | null
+          id: string
+          organization_id: string
+          other_customer_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          customer_id: string
+          dismissed_by?: string | null
+          id?: string
+          organization_id: string
+          other_customer_id: string
+        }
+        Update: {
+          created_at?: string | null
+          customer_id?: string
+          dismissed_by?: string | null
+          id?: string
+          organization_id?: string
+          other_customer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_duplicate_dismissals_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_duplicate_dismissals_dismissed_by_fkey"
+            columns: ["dismissed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_duplicate_dismissals_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_duplicate_dismissals_other_customer_id_fkey"
+            columns: ["other_customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_merges: {
+        Row: {
+          created_at: string | null
+          id: string
+          merged_by: string | null
+          merged_customer_data: Json
+          merged_customer_id: string
+          orders_moved: number
+          organization_id: string
+          passengers_moved: number
+          quotes_moved: number
+          surviving_customer_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          merged_by?: string | null
+          merged_customer_data: Json
+          merged_customer_id: string
+          orders_moved?: number
+          organization_id: string
+          passengers_moved?: number
+          quotes_moved?: number
+          surviving_customer_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          merged_by?: string | null
+          merged_customer_data?: Json
+          merged_customer_id?: string
+          orders_moved?: number
+          organization_id?: string
+          passengers_moved?: number
+          quotes_moved?: number
+          surviving_customer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_merges_merged_by_fkey"
+            columns: ["merged_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_merges_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_merges_surviving_customer_id_fkey"
+            columns: ["surviving_customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
-          address: string | null
-          birth_date: string | null
-          city: string | null
-          cpf: string | null
+          address: string | null
+          birth_date: string | null
+          city: string | null
+          cpf: string | null
+          created_at: string | null
+          created_by: string | null
+          email: string
+          full_name: string
+          id: string
+          notes: string | null
+          organization_id: string
+          phone: string
+          state: string | null
+          updated_at: string | null
+          zip_code: string | null
+        }
+        Insert: {
+          address?: string | null
+          birth_date?: string | null
+          city?: string | null
+          cpf?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          email: string
+          full_name: string
+          id?: string
+          notes?: string | null
+          organization_id: string
+          phone: string
+          state?: string | null
+          updated_at?: string | null
+          zip_code?: string | null
+        }
+        Update: {
+          address?: string | null
+          birth_date?: string | null
+          city?: string | null
+          cpf?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          notes?: string | null
+          organization_id?: string
+          phone?: string
+          state?: string | null
+          updated_at?: string | null
+          zip_code?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      installment_payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          installment_id: string
+          interest_amount: number
+          late_fee_amount: number
+          notes: string | null
+          organization_id: string
+          payment_date: string
+          payment_method: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          installment_id: string
+          interest_amount?: number
+          late_fee_amount?: number
+          notes?: string | null
+          organization_id: string
+          payment_date?: string
+          payment_method?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          installment_id?: string
+          interest_amount?: number
+          late_fee_amount?: number
+          notes?: string | null
+          organization_id?: string
+          payment_date?: string
+          payment_method?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installment_payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installment_payments_installment_id_fkey"
+            columns: ["installment_id"]
+            isOneToOne: false
+            referencedRelation: "installments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installment_payments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      installment_surcharge_rules: {
+        Row: {
+          created_at: string | null
+          id: string
+          min_installments: number
+          organization_id: string
+          payment_method: string
+          surcharge_percent: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          min_installments: number
+          organization_id: string
+          payment_method: string
+          surcharge_percent: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          min_installments?: number
+          organization_id?: string
+          payment_method?: string
+          surcharge_percent?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installment_surcharge_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      installments: {
+        Row: {
+          amount: number
+          boleto_our_number: number | null
+          boleto_remittance_id: string | null
+          created_at: string | null
+          created_by: string | null
+          due_date: string
+          id: string
+          installment_number: number
+          interest_amount: number
+          is_down_payment: boolean
+          late_fee_amount: number
+          notes: string | null
+          organization_id: string
+          paid_amount: number
+          payment_date: string | null
+          payment_id: string
+          payment_method: string | null
+          status: Database["public"]["Enums"]["payment_status"]
+          total_installments: number
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          boleto_our_number?: number | null
+          boleto_remittance_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          due_date: string
+          id?: string
+          installment_number: number
+          interest_amount?: number
+          is_down_payment?: boolean
+          late_fee_amount?: number
+          notes?: string | null
+          organization_id: string
+          paid_amount?: number
+          payment_date?: string | null
+          payment_id: string
+          payment_method?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          total_installments: number
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          boleto_our_number?: number | null
+          boleto_remittance_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          due_date?: string
+          id?: string
+          installment_number?: number
+          interest_amount?: number
+          is_down_payment?: boolean
+          late_fee_amount?: number
+          notes?: string | null
+          organization_id?: string
+          paid_amount?: number
+          payment_date?: string | null
+          payment_id?: string
+          payment_method?: string | null
+          status?: Database["public"]["Enums"]["payment_status"]
+          total_installments?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "installments_boleto_remittance_id_fkey"
+            columns: ["boleto_remittance_id"]
+            isOneToOne: false
+            referencedRelation: "cnab_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "installments_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_cancellations: {
+        Row: {
+          cancelled_by: string | null
+          created_at: string | null
+          days_before_travel: number
+          id: string
+          order_id: string
+          order_total: number
+          organization_id: string
+          paid_amount: number
+          penalty_amount: number
+          penalty_percent: number
+          reason: string
+          refund_amount: number
+        }
+        Insert: {
+          cancelled_by?: string | null
+          created_at?: string | null
+          days_before_travel: number
+          id?: string
+          order_id: string
+          order_total: number
+          organization_id: string
+          paid_amount: number
+          penalty_amount: number
+          penalty_percent: number
+          reason: string
+          refund_amount: number
+        }
+        Update: {
+          cancelled_by?: string | null
+          created_at?: string | null
+          days_before_travel?: number
+          id?: string
+          order_id?: string
+          order_total?: number
+          organization_id?: string
+          paid_amount?: number
+          penalty_amount?: number
+          penalty_percent?: number
+          reason?: string
+          refund_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_cancellations_cancelled_by_fkey"
+            columns: ["cancelled_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_cancellations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_cancellations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_documents: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          document_type: Database["public"]["Enums"]["order_document_type"]
+          emailed_at: string | null
+          emailed_to: string | null
+          file_name: string
+          file_path: string
+          id: string
+          order_id: string
+          organization_id: string
+          template_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          document_type: Database["public"]["Enums"]["order_document_type"]
+          emailed_at?: string | null
+          emailed_to?: string | null
+          file_name: string
+          file_path: string
+          id?: string
+          order_id: string
+          organization_id: string
+          template_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          document_type?: Database["public"]["Enums"]["order_document_type"]
+          emailed_at?: string | null
+          emailed_to?: string | null
+          file_name?: string
+          file_path?: string
+          id?: string
+          order_id?: string
+          organization_id?: string
+          template_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_documents_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_documents_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_documents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_documents_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "contract_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string
+          id: string
+          item_type: Database["public"]["Enums"]["order_item_type"]
+          order_id: string
+          organization_id: string
+          quantity: number
+          total_amount: number | null
+          unit_price: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description: string
+          id?: string
+          item_type: Database["public"]["Enums"]["order_item_type"]
+          order_id: string
+          organization_id: string
+          quantity?: number
+          total_amount?: never
+          unit_price: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string
+          id?: string
+          item_type?: Database["public"]["Enums"]["order_item_type"]
+          order_id?: string
+          organization_id?: string
+          quantity?: number
+          total_amount?: never
+          unit_price?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_number_sequences: {
+        Row: {
+          last_number: number
+          organization_id: string
+          updated_at: string | null
+          year: number
+        }
+        Insert: {
+          last_number?: number
+          organization_id: string
+          updated_at?: string | null
+          year?: number
+        }
+        Update: {
+          last_number?: number
+          organization_id?: string
+          updated_at?: string | null
+          year?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_number_sequences_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_passengers: {
+        Row: {
+          birth_date: string | null
+          cpf: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_id: string | null
+          document_number: string | null
+          document_type: string | null
+          full_name: string
+          id: string
+          is_primary: boolean
+          order_id: string
+          organization_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          birth_date?: string | null
+          cpf?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          document_number?: string | null
+          document_type?: string | null
+          full_name: string
+          id?: string
+          is_primary?: boolean
+          order_id: string
+          organization_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          birth_date?: string | null
+          cpf?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          document_number?: string | null
+          document_type?: string | null
+          full_name?: string
+          id?: string
+          is_primary?: boolean
+          order_id?: string
+          organization_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_passengers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_passengers_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_passengers_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_passengers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_refunds: {
+        Row: {
+          amount: number
+          cancellation_id: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          notes: string | null
+          order_id: string
+          organization_id: string
+          refund_date: string | null
+          refund_method: string | null
+          status: Database["public"]["Enums"]["refund_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          cancellation_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          order_id: string
+          organization_id: string
+          refund_date?: string | null
+          refund_method?: string | null
+          status?: Database["public"]["Enums"]["refund_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          cancellation_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          order_id?: string
+          organization_id?: string
+          refund_date?: string | null
+          refund_method?: string | null
+          status?: Database["public"]["Enums"]["refund_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_refunds_cancellation_id_fkey"
+            columns: ["cancellation_id"]
+            isOneToOne: false
+            referencedRelation: "order_cancellations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_refunds_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          order_id: string
+          organization_id: string
+          reason: string | null
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id: string
+          organization_id: string
+          reason?: string | null
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id?: string
+          organization_id?: string
+          reason?: string | null
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          confirmed_at: string | null
           created_at: string | null
           created_by: string | null
+          customer_id: string
+          departure_id: string | null
+          id: string
+          number_of_travelers: number | null
+          order_number: string
+          organization_id: string
+          package_id: string
+          special_requests: string | null
+          spots_reserved: number | null
+          status: Database["public"]["Enums"]["order_status"] | null
+          total_amount: number
+          travel_date: string
+          unit_price: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          confirmed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_id: string
+          departure_id?: string | null
+          id?: string
+          number_of_travelers?: number | null
+          order_number?: string
+          organization_id: string
+          package_id: string
+          special_requests?: string | null
+          spots_reserved?: number | null
+          status?: Database["public"]["Enums"]["order_status"] | null
+          total_amount: number
+          travel_date: string
+          unit_price?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          confirmed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string
+          departure_id?: string | null
+          id?: string
+          number_of_travelers?: number | null
+          order_number?: string
+          organization_id?: string
+          package_id?: string
+          special_requests?: string | null
+          spots_reserved?: number | null
+          status?: Database["public"]["Enums"]["order_status"] | null
+          total_amount?: number
+          travel_date?: string
+          unit_price?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_departure_id_fkey"
+            columns: ["departure_id"]
+            isOneToOne: false
+            referencedRelation: "package_departures"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "travel_packages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invites: {
+        Row: {
+          accepted_at: string | null
+          created_at: string | null
           email: string
-          full_name: string
+          expires_at: string
           id: string
-          notes: string | null
+          invited_by: string
           organization_id: string
-          phone: string
+          role: Database["public"]["Enums"]["org_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string | null
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invites_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string | null
+          id: string
+          invited_at: string | null
+          invited_by: string | null
+          is_active: boolean | null
+          joined_at: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          invited_at?: string | null
+          invited_by?: string | null
+          is_active?: boolean | null
+          joined_at?: string | null
+          organization_id: string
+          role?: Database["public"]["Enums"]["org_role"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          invited_at?: string | null
+          invited_by?: string | null
+          is_active?: boolean | null
+          joined_at?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          address: string | null
+          boleto_account: string | null
+          boleto_account_digit: string | null
+          boleto_agency: string | null
+          boleto_agency_digit: string | null
+          boleto_agreement_code: string | null
+          boleto_bank_code: string | null
+          boleto_cnab_layout: Database["public"]["Enums"]["cnab_layout"] | null
+          boleto_our_number_sequence: number
+          boleto_remittance_sequence: number
+          boleto_wallet: string | null
+          city: string | null
+          cnpj: string | null
+          commission_basis: Database["public"]["Enums"]["commission_basis"]
+          created_at: string | null
+          email: string
+          id: string
+          is_active: boolean | null
+          late_fee_grace_days: number
+          late_fee_percent: number
+          late_interest_percent: number
+          late_interest_period: Database["public"]["Enums"]["late_interest_period"]
+          legal_name: string | null
+          logo_url: string | null
+          max_users: number | null
+          name: string
+          order_number_padding: number
+          order_number_prefix: string
+          order_number_yearly_reset: boolean
+          phone: string | null
+          pix_key: string | null
+          pix_key_type: Database["public"]["Enums"]["pix_key_type"] | null
+          pix_merchant_city: string | null
+          pix_merchant_name: string | null
+          primary_color: string | null
+          secondary_color: string | null
           state: string | null
+          subscription_tier: string | null
+          tertiary_color: string | null
           updated_at: string | null
           zip_code: string | null
         }
         Insert: {
           address?: string | null
-          birth_date?: string | null
+          boleto_account?: string | null
+          boleto_account_digit?: string | null
+          boleto_agency?: string | null
+          boleto_agency_digit?: string | null
+          boleto_agreement_code?: string | null
+          boleto_bank_code?: string | null
+          boleto_cnab_layout?: Database["public"]["Enums"]["cnab_layout"] | null
+          boleto_our_number_sequence?: number
+          boleto_remittance_sequence?: number
+          boleto_wallet?: string | null
           city?: string | null
-          cpf?: string | null
+          cnpj?: string | null
+          commission_basis?: Database["public"]["Enums"]["commission_basis"]
           created_at?: string | null
-          created_by?: string | null
           email: string
-          full_name: string
           id?: string
-          notes?: string | null
-          organization_id: string
-          phone: string
+          is_active?: boolean | null
+          late_fee_grace_days?: number
+          late_fee_percent?: number
+          late_interest_percent?: number
+          late_interest_period?: Database["public"]["Enums"]["late_interest_period"]
+          legal_name?: string | null
+          logo_url?: string | null
+          max_users?: number | null
+          name: string
+          order_number_padding?: number
+          order_number_prefix?: string
+          order_number_yearly_reset?: boolean
+          phone?: string | null
+          pix_key?: string | null
+          pix_key_type?: Database["public"]["Enums"]["pix_key_type"] | null
+          pix_merchant_city?: string | null
+          pix_merchant_name?: string | null
+          primary_color?: string | null
+          secondary_color?: string | null
           state?: string | null
+          subscription_tier?: string | null
+          tertiary_color?: string | null
           updated_at?: string | null
           zip_code?: string | null
         }
         Update: {
           address?: string | null
-          birth_date?: string | null
+          boleto_account?: string | null
+          boleto_account_digit?: string | null
+          boleto_agency?: string | null
+          boleto_agency_digit?: string | null
+          boleto_agreement_code?: string | null
+          boleto_bank_code?: string | null
+          boleto_cnab_layout?: Database["public"]["Enums"]["cnab_layout"] | null
+          boleto_our_number_sequence?: number
+          boleto_remittance_sequence?: number
+          boleto_wallet?: string | null
           city?: string | null
-          cpf?: string | null
+          cnpj?: string | null
+          commission_basis?: Database["public"]["Enums"]["commission_basis"]
           created_at?: string | null
-          created_by?: string | null
           email?: string
-          full_name?: string
           id?: string
-          notes?: string | null
-          organization_id?: string
-          phone?: string
+          is_active?: boolean | null
+          late_fee_grace_days?: number
+          late_fee_percent?: number
+          late_interest_percent?: number
+          late_interest_period?: Database["public"]["Enums"]["late_interest_period"]
+          legal_name?: string | null
+          logo_url?: string | null
+          max_users?: number | null
+          name?: string
+          order_number_padding?: number
+          order_number_prefix?: string
+          order_number_yearly_reset?: boolean
+          phone?: string | null
+          pix_key?: string | null
+          pix_key_type?: Database["public"]["Enums"]["pix_key_type"] | null
+          pix_merchant_city?: string | null
+          pix_merchant_name?: string | null
+          primary_color?: string | null
+          secondary_color?: string | null
           state?: string | null
+          subscription_tier?: string | null
+          tertiary_color?: string | null
           updated_at?: string | null
           zip_code?: string | null
         }
+        Relationships: []
+      }
+      package_departures: {
+        Row: {
+          capacity: number
+          created_at: string | null
+          created_by: string | null
+          departure_date: string
+          id: string
+          notes: string | null
+          organization_id: string
+          package_id: string
+          price: number | null
+          reserved_spots: number
+          return_date: string | null
+          status: Database["public"]["Enums"]["departure_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          capacity?: number
+          created_at?: string | null
+          created_by?: string | null
+          departure_date: string
+          id?: string
+          notes?: string | null
+          organization_id: string
+          package_id: string
+          price?: number | null
+          reserved_spots?: number
+          return_date?: string | null
+          status?: Database["public"]["Enums"]["departure_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          capacity?: number
+          created_at?: string | null
+          created_by?: string | null
+          departure_date?: string
+          id?: string
+          notes?: string | null
+          organization_id?: string
+          package_id?: string
+          price?: number | null
+          reserved_spots?: number
+          return_date?: string | null
+          status?: Database["public"]["Enums"]["departure_status"]
+          updated_at?: string | null
+        }
         Relationships: [
           {
-            foreignKeyName: "customers_created_by_fkey"
+            foreignKeyName: "package_departures_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "customers_organization_id_fkey"
+            foreignKeyName: "package_departures_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "package_departures_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "travel_packages"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      installments: {
+      payables: {
         Row: {
           amount: number
           created_at: string | null
           created_by: string | null
+          description: string
+          document_number: string | null
           due_date: string
           id: string
-          installment_number: number
           notes: string | null
+          order_id: string | null
           organization_id: string
-          payment_date: string | null
-          payment_id: string
+          package_id: string | null
+          paid_amount: number | null
+          paid_date: string | null
           payment_method: string | null
-          status: Database["public"]["Enums"]["payment_status"]
-          total_installments: number
+          status: Database["public"]["Enums"]["payable_status"]
+          supplier_id: string
           updated_at: string | null
         }
         Insert: {
           amount: number
           created_at?: string | null
           created_by?: string | null
+          description: string
+          document_number?: string | null
           due_date: string
           id?: string
-          installment_number: number
           notes?: string | null
+          order_id?: string | null
           organization_id: string
-          payment_date?: string | null
-          payment_id: string
+          package_id?: string | null
+          paid_amount?: number | null
+          paid_date?: string | null
           payment_method?: string | null
-          status?: Database["public"]["Enums"]["payment_status"]
-          total_installments: number
+          status?: Database["public"]["Enums"]["payable_status"]
+          supplier_id: string
           updated_at?: string | null
         }
         Update: {
           amount?: number
           created_at?: string | null
           created_by?: string | null
+          description?: string
+          document_number?: string | null
           due_date?: string
           id?: string
-          installment_number?: number
           notes?: string | null
+          order_id?: string | null
           organization_id?: string
-          payment_date?: string | null
-          payment_id?: string
+          package_id?: string | null
+          paid_amount?: number | null
+          paid_date?: string | null
           payment_method?: string | null
-          status?: Database["public"]["Enums"]["payment_status"]
-          total_installments?: number
+          status?: Database["public"]["Enums"]["payable_status"]
+          supplier_id?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "installments_created_by_fkey"
+            foreignKeyName: "payables_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "installments_organization_id_fkey"
+            foreignKeyName: "payables_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payables_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "installments_payment_id_fkey"
-            columns: ["payment_id"]
+            foreignKeyName: "payables_package_id_fkey"
+            columns: ["package_id"]
             isOneToOne: false
-            referencedRelation: "payments"
+            referencedRelation: "travel_packages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payables_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
             referencedColumns: ["id"]
           },
         ]
       }
-      orders: {
+      payment_receipts: {
         Row: {
-          confirmed_at: string | null
+          amount: number
+          cancelled_at: string | null
           created_at: string | null
           created_by: string | null
-          customer_id: string
+          description: string
+          emailed_at: string | null
+          emailed_to: string | null
           id: string
-          number_of_travelers: number | null
-          order_number: string
+          installment_id: string | null
+          installment_payment_id: string | null
+          interest_amount: number
+          late_fee_amount: number
+          order_id: string
           organization_id: string
-          package_id: string
-          special_requests: string | null
-          status: Database["public"]["Enums"]["order_status"] | null
-          total_amount: number
-          travel_date: string
-          updated_at: string | null
+          payer_cpf: string | null
+          payer_name: string
+          payment_date: string
+          payment_method: string | null
+          principal_amount: number
+          receipt_number: string
         }
         Insert: {
-          confirmed_at?: string | null
+          amount: number
+          cancelled_at?: string | null
           created_at?: string | null
           created_by?: string | null
-          customer_id: string
+          description: string
+          emailed_at?: string | null
+          emailed_to?: string | null
           id?: string
-          number_of_travelers?: number | null
-          order_number: string
+          installment_id?: string | null
+          installment_payment_id?: string | null
+          interest_amount?: number
+          late_fee_amount?: number
+          order_id: string
           organization_id: string
-          package_id: string
-          special_requests?: string | null
-          status?: Database["public"]["Enums"]["order_status"] | null
-          total_amount: number
-          travel_date: string
-          updated_at?: string | null
+          payer_cpf?: string | null
+          payer_name: string
+          payment_date: string
+          payment_method?: string | null
+          principal_amount: number
+          receipt_number: string
         }
         Update: {
-          confirmed_at?: string | null
+          amount?: number
+          cancelled_at?: string | null
           created_at?: string | null
           created_by?: string | null
-          customer_id?: string
+          description?: string
+          emailed_at?: string | null
+          emailed_to?: string | null
           id?: string
-          number_of_travelers?: number | null
-          order_number?: string
+          installment_id?: string | null
+          installment_payment_id?: string | null
+          interest_amount?: number
+          late_fee_amount?: number
+          order_id?: string
           organization_id?: string
-          package_id?: string
-          special_requests?: string | null
-          status?: Database["public"]["Enums"]["order_status"] | null
-          total_amount?: number
-          travel_date?: string
-          updated_at?: string | null
+          payer_cpf?: string | null
+          payer_name?: string
+          payment_date?: string
+          payment_method?: string | null
+          principal_amount?: number
+          receipt_number?: string
         }
         Relationships: [
           {
-            foreignKeyName: "orders_created_by_fkey"
+            foreignKeyName: "payment_receipts_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "orders_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "payment_receipts_installment_id_fkey"
+            columns: ["installment_id"]
             isOneToOne: false
-            referencedRelation: "customers"
+            referencedRelation: "installments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "orders_organization_id_fkey"
+            foreignKeyName: "payment_receipts_installment_payment_id_fkey"
+            columns: ["installment_payment_id"]
+            isOneToOne: true
+            referencedRelation: "installment_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_receipts_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_receipts_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          due_date: string
+          id: string
+          notes: string | null
+          order_id: string
+          organization_id: string
+          payment_date: string | null
+          payment_method: string | null
+          status: Database["public"]["Enums"]["payment_status"] | null
+          surcharge_amount: number
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          due_date: string
+          id?: string
+          notes?: string | null
+          order_id: string
+          organization_id: string
+          payment_date?: string | null
+          payment_method?: string | null
+          status?: Database["public"]["Enums"]["payment_status"] | null
+          surcharge_amount?: number
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          due_date?: string
+          id?: string
+          notes?: string | null
+          order_id?: string
+          organization_id?: string
+          payment_date?: string | null
+          payment_method?: string | null
+          status?: Database["public"]["Enums"]["payment_status"] | null
+          surcharge_amount?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
-            foreignKeyName: "orders_package_id_fkey"
-            columns: ["package_id"]
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
             isOneToOne: false
-            referencedRelation: "travel_packages"
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
-      organization_invites: {
+      profiles: {
         Row: {
-          accepted_at: string | null
           created_at: string | null
+          default_organization_id: string | null
           email: string
-          expires_at: string
+          full_name: string
           id: string
-          invited_by: string
-          organization_id: string
-          role: Database["public"]["Enums"]["org_role"]
-          token: string
+          phone: string | null
+          role: string | null
+          updated_at: string | null
         }
         Insert: {
-          accepted_at?: string | null
           created_at?: string | null
+          default_organization_id?: string | null
           email: string
-          expires_at?: string
-          id?: string
-          invited_by: string
-          organization_id: string
-          role?: Database["public"]["Enums"]["org_role"]
-          token?: string
+          full_name: string
+          id: string
+          phone?: string | null
+          role?: string | null
+          updated_at?: string | null
         }
         Update: {
-          accepted_at?: string | null
           created_at?: string | null
+          default_organization_id?: string | null
           email?: string
-          expires_at?: string
+          full_name?: string
           id?: string
-          invited_by?: string
-          organization_id?: string
-          role?: Database["public"]["Enums"]["org_role"]
-          token?: string
+          phone?: string | null
+          role?: string | null
+          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "organization_invites_invited_by_fkey"
-            columns: ["invited_by"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "organization_invites_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "profiles_default_organization_id_fkey"
+            columns: ["default_organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
-      organization_members: {
+      quote_options: {
         Row: {
           created_at: string | null
+          created_by: string | null
+          departure_id: string | null
           id: string
-          invited_at: string | null
-          invited_by: string | null
-          is_active: boolean | null
-          joined_at: string | null
+          notes: string | null
+          number_of_travelers: number
           organization_id: string
-          role: Database["public"]["Enums"]["org_role"]
+          package_id: string
+          position: number
+          quote_id: string
+          title: string
+          total_amount: number
+          travel_date: string | null
+          unit_price: number
           updated_at: string | null
-          user_id: string
         }
         Insert: {
           created_at?: string | null
+          created_by?: string | null
+          departure_id?: string | null
           id?: string
-          invited_at?: string | null
-          invited_by?: string | null
-          is_active?: boolean | null
-          joined_at?: string | null
+          notes?: string | null
+          number_of_travelers?: number
           organization_id: string
-          role?: Database["public"]["Enums"]["org_role"]
+          package_id: string
+          position?: number
+          quote_id: string
+          title: string
+          total_amount: number
+          travel_date?: string | null
+          unit_price: number
           updated_at?: string | null
-          user_id: string
         }
         Update: {
           created_at?: string | null
+          created_by?: string | null
+          departure_id?: string | null
           id?: string
-          invited_at?: string | null
-          invited_by?: string | null
-          is_active?: boolean | null
-          joined_at?: string | null
+          notes?: string | null
+          number_of_travelers?: number
           organization_id?: string
-          role?: Database["public"]["Enums"]["org_role"]
+          package_id?: string
+          position?: number
+          quote_id?: string
+          title?: string
+          total_amount?: number
+          travel_date?: string | null
+          unit_price?: number
           updated_at?: string | null
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "organization_members_invited_by_fkey"
-            columns: ["invited_by"]
+            foreignKeyName: "quote_options_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "organization_members_organization_id_fkey"
+            foreignKeyName: "quote_options_departure_id_fkey"
+            columns: ["departure_id"]
+            isOneToOne: false
+            referencedRelation: "package_departures"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_options_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "organization_members_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "quote_options_package_id_fkey"
+            columns: ["package_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "travel_packages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_options_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
             referencedColumns: ["id"]
           },
         ]
       }
-      organizations: {
-        Row: {
-          address: string | null
-          city: string | null
-          cnpj: string | null
-          created_at: string | null
-          email: string
-          id: string
-          is_active: boolean | null
-          legal_name: string | null
-          logo_url: string | null
-          max_users: number | null
-          name: string
-          phone: string | null
-          state: string | null
-          subscription_tier: string | null
-          updated_at: string | null
-          zip_code: string | null
-        }
-        Insert: {
-          address?: string | null
-          city?: string | null
-          cnpj?: string | null
-          created_at?: string | null
-          email: string
-          id?: string
-          is_active?: boolean | null
-          legal_name?: string | null
-          logo_url?: string | null
-          max_users?: number | null
-          name: string
-          phone?: string | null
-          state?: string | null
-          subscription_tier?: string | null
-          updated_at?: string | null
-          zip_code?: string | null
-        }
-        Update: {
-          address?: string | null
-          city?: string | null
-          cnpj?: string | null
-          created_at?: string | null
-          email?: string
-          id?: string
-          is_active?: boolean | null
-          legal_name?: string | null
-          logo_url?: string | null
-          max_users?: number | null
-          name?: string
-          phone?: string | null
-          state?: string | null
-          subscription_tier?: string | null
-          updated_at?: string | null
-          zip_code?: string | null
-        }
-        Relationships: []
-      }
-      payments: {
+      quotes: {
         Row: {
-          amount: number
+          converted_at: string | null
+          converted_order_id: string | null
           created_at: string | null
           created_by: string | null
-          due_date: string
+          customer_id: string
           id: string
           notes: string | null
-          order_id: string
           organization_id: string
-          payment_date: string | null
-          payment_method: string | null
-          status: Database["public"]["Enums"]["payment_status"] | null
+          quote_number: string
+          share_token: string
+          status: Database["public"]["Enums"]["quote_status"]
           updated_at: string | null
+          valid_until: string
         }
         Insert: {
-          amount: number
+          converted_at?: string | null
+          converted_order_id?: string | null
           created_at?: string | null
           created_by?: string | null
-          due_date: string
+          customer_id: string
           id?: string
           notes?: string | null
-          order_id: string
           organization_id: string
-          payment_date?: string | null
-          payment_method?: string | null
-          status?: Database["public"]["Enums"]["payment_status"] | null
+          quote_number?: string
+          share_token?: string
+          status?: Database["public"]["Enums"]["quote_status"]
           updated_at?: string | null
+          valid_until: string
         }
         Update: {
-          amount?: number
+          converted_at?: string | null
+          converted_order_id?: string | null
           created_at?: string | null
           created_by?: string | null
-          due_date?: string
+          customer_id?: string
           id?: string
           notes?: string | null
-          order_id?: string
           organization_id?: string
-          payment_date?: string | null
-          payment_method?: string | null
-          status?: Database["public"]["Enums"]["payment_status"] | null
+          quote_number?: string
+          share_token?: string
+          status?: Database["public"]["Enums"]["quote_status"]
           updated_at?: string | null
+          valid_until?: string
         }
         Relationships: [
           {
-            foreignKeyName: "payments_created_by_fkey"
+            foreignKeyName: "quotes_converted_order_id_fkey"
+            columns: ["converted_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_created_by_fkey"
             columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payments_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "quotes_customer_id_fkey"
+            columns: ["customer_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "customers"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payments_organization_id_fkey"
+            foreignKeyName: "quotes_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -481,41 +2335,95 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      receipt_number_sequences: {
+        Row: {
+          last_number: number
+          organization_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          last_number?: number
+          organization_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          last_number?: number
+          organization_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipt_number_sequences_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
         Row: {
+          bank_details: string | null
+          category: Database["public"]["Enums"]["supplier_category"]
+          contact_name: string | null
           created_at: string | null
-          default_organization_id: string | null
-          email: string
-          full_name: string
+          created_by: string | null
+          document: string | null
+          email: string | null
           id: string
+          is_active: boolean
+          name: string
+          notes: string | null
+          organization_id: string
           phone: string | null
-          role: string | null
+          pix_key: string | null
           updated_at: string | null
         }
         Insert: {
+          bank_details?: string | null
+          category?: Database["public"]["Enums"]["supplier_category"]
+          contact_name?: string | null
           created_at?: string | null
-          default_organization_id?: string | null
-          email: string
-          full_name: string
-          id: string
+          created_by?: string | null
+          document?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          notes?: string | null
+          organization_id: string
           phone?: string | null
-          role?: string | null
+          pix_key?: string | null
           updated_at?: string | null
         }
         Update: {
+          bank_details?: string | null
+          category?: Database["public"]["Enums"]["supplier_category"]
+          contact_name?: string | null
           created_at?: string | null
-          default_organization_id?: string | null
-          email?: string
-          full_name?: string
+          created_by?: string | null
+          document?: string | null
+          email?: string | null
           id?: string
+          is_active?: boolean
+          name?: string
+          notes?: string | null
+          organization_id?: string
           phone?: string | null
-          role?: string | null
+          pix_key?: string | null
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_default_organization_id_fkey"
-            columns: ["default_organization_id"]
+            foreignKeyName: "suppliers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppliers_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
@@ -617,11 +2525,76 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      calculate_order_cancellation: {
+        Args: { _order_id: string }
+        Returns: {
+          days_before_travel: number
+          order_total: number
+          paid_amount: number
+          penalty_amount: number
+          penalty_percent: number
+          refund_amount: number
+        }[]
+      }
+      cancel_order: {
+        Args: {
+          _order_id: string
+          _reason: string
+          _refund_completed?: boolean
+          _refund_date?: string
+          _refund_method?: string
+        }
+        Returns: string
+      }
+      change_order_status: {
+        Args: {
+          _order_id: string
+          _reason?: string
+          _status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: undefined
+      }
+      create_boleto_remittance: {
+        Args: { _installment_ids: string[]; _organization_id: string }
+        Returns: string
+      }
+      create_order_with_passengers: {
+        Args: {
+          _customer_id: string
+          _departure_id?: string
+          _number_of_travelers: number
+          _organization_id: string
+          _package_id: string
+          _passengers?: Json
+          _special_requests?: string
+          _total_amount: number
+          _travel_date: string
+          _unit_price?: number
+        }
+        Returns: string
+      }
       create_organization_with_membership: {
         Args: { org_cnpj?: string; org_email: string; org_name: string }
         Returns: string
       }
-      generate_order_number: { Args: never; Returns: string }
+      discard_boleto_remittance: {
+        Args: { _file_id: string }
+        Returns: undefined
+      }
+      format_order_number: {
+        Args: {
+          _number: number
+          _padding: number
+          _prefix: string
+          _year: number
+        }
+        Returns: string
+      }
+      generate_order_number: {
+        Args: { _organization_id: string }
+        Returns: string
+      }
+      get_shared_quote: { Args: { _token: string }; Returns: Json }
       get_user_default_org: { Args: { _user_id: string }; Returns: string }
       has_org_role: {
         Args: {
@@ -647,12 +2620,83 @@ export type Database = {
         Returns: boolean
       }
       is_system_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_valid_order_status_transition: {
+        Args: {
+          _from: Database["public"]["Enums"]["order_status"]
+          _to: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      merge_customers: {
+        Args: { _merged_customer_id: string; _surviving_customer_id: string }
+        Returns: string
+      }
+      order_reserved_spots: {
+        Args: {
+          _status: Database["public"]["Enums"]["order_status"]
+          _travelers: number
+        }
+        Returns: number
+      }
+      rebalance_payment_installments: {
+        Args: { _payment_id: string }
+        Returns: undefined
+      }
+      recalculate_order_total: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      reconcile_bank_statement_entry: {
+        Args: {
+          _amount: number
+          _entry_id: string
+          _installment_id: string
+          _interest_amount: number
+          _late_fee_amount: number
+          _notes?: string
+          _payment_method: string
+        }
+        Returns: string
+      }
+      release_departure_spots: {
+        Args: { _departure_id: string; _quantity: number }
+        Returns: undefined
+      }
+      release_package_spots: {
+        Args: { _package_id: string; _quantity: number }
+        Returns: undefined
+      }
+      reserve_departure_spots: {
+        Args: { _departure_id: string; _quantity: number }
+        Returns: undefined
+      }
+      reserve_package_spots: {
+        Args: { _package_id: string; _quantity: number }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "agent" | "user"
+      bank_entry_status: "pending" | "matched" | "ignored"
+      bank_statement_format: "ofx" | "csv"
+      cnab_file_type: "remittance" | "return"
+      cnab_layout: "cnab240" | "cnab400"
+      cnab_line_outcome: "registered" | "confirmed" | "settled" | "already_paid" | "not_found" | "rejected" | "ignored" | "error"
+      commission_basis: "order_confirmed" | "installment_received"
+      commission_status: "pending" | "paid" | "cancelled"
+      customer_document_type: "passport" | "visa" | "rg" | "cnh" | "other"
+      departure_status: "open" | "closed" | "cancelled"
+      late_interest_period: "daily" | "monthly"
+      order_document_type: "contract" | "voucher" | "receipt"
+      order_item_type: "package" | "insurance" | "transfer" | "room_upgrade" | "fee" | "discount" | "other"
       order_status: "pending" | "confirmed" | "cancelled" | "completed"
       org_role: "owner" | "admin" | "agent" | "viewer"
-      payment_status: "pending" | "partial" | "paid" | "overdue"
+      payable_status: "pending" | "paid" | "cancelled"
+      payment_status: "pending" | "partial" | "paid" | "overdue" | "cancelled"
+      pix_key_type: "cpf" | "cnpj" | "email" | "phone" | "random"
+      quote_status: "draft" | "sent" | "accepted" | "rejected" | "converted"
+      refund_status: "pending" | "completed"
+      supplier_category: "hotel" | "transport" | "guide" | "attraction" | "insurance" | "agency" | "other"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -781,9 +2825,26 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "agent", "user"],
+      bank_entry_status: ["pending", "matched", "ignored"],
+      bank_statement_format: ["ofx", "csv"],
+      cnab_file_type: ["remittance", "return"],
+      cnab_layout: ["cnab240", "cnab400"],
+      cnab_line_outcome: ["registered", "confirmed", "settled", "already_paid", "not_found", "rejected", "ignored", "error"],
+      commission_basis: ["order_confirmed", "installment_received"],
+      commission_status: ["pending", "paid", "cancelled"],
+      customer_document_type: ["passport", "visa", "rg", "cnh", "other"],
+      departure_status: ["open", "closed", "cancelled"],
+      late_interest_period: ["daily", "monthly"],
+      order_document_type: ["contract", "voucher", "receipt"],
+      order_item_type: ["package", "insurance", "transfer", "room_upgrade", "fee", "discount", "other"],
       order_status: ["pending", "confirmed", "cancelled", "completed"],
       org_role: ["owner", "admin", "agent", "viewer"],
-      payment_status: ["pending", "partial", "paid", "overdue"],
+      payable_status: ["pending", "paid", "cancelled"],
+      payment_status: ["pending", "partial", "paid", "overdue", "cancelled"],
+      pix_key_type: ["cpf", "cnpj", "email", "phone", "random"],
+      quote_status: ["draft", "sent", "accepted", "rejected", "converted"],
+      refund_status: ["pending", "completed"],
+      supplier_category: ["hotel", "transport", "guide", "attraction", "insurance", "agency", "other"],
     },
   },
 } as const
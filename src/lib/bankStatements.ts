@@ -0,0 +1,502 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { calculateLateCharges, daysBetween, type LateFeeSettings } from "@/lib/lateFees";
+import { getInstallmentBalance, splitReceivedAmount } from "@/lib/installmentPayments";
+import { detectCsvDelimiter, splitCsvLine } from "@/lib/spreadsheet";
+import { roundCents } from "@/lib/utils";
+
+export type BankStatementFormat = Database["public"]["Enums"]["bank_statement_format"];
+export type BankStatementEntry = Tables<"bank_statement_entries">;
+
+export interface ParsedStatementEntry {
+  fit_id: string;
+  posted_date: string;
+  amount: number;
+  description: string;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  bankName: string | null;
+  accountId: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  /** Somente créditos (valores positivos) */
+  entries: ParsedStatementEntry[];
+}
+
+/** Parcela em aberto candidata à conciliação. EN: Open installment that may match a bank credit. */
+export interface ReconciliationInstallment {
+  id: string;
+  organization_id: string;
+  installment_number: number;
+  total_installments: number;
+  amount: number;
+  paid_amount: number;
+  due_date: string;
+  status: string;
+  payment_method: string | null;
+  is_down_payment: boolean;
+  order_id: string;
+  order_number: string;
+  customer_name: string;
+}
+
+export interface MatchSuggestion {
+  installment: ReconciliationInstallment;
+  score: number;
+  reasons: string[];
+}
+
+export type ReconciliationEntry = BankStatementEntry & {
+  /** Parcela conciliada (ex.: "PED-2025-0001 · Maria Silva · 2/5") */
+  matched_label: string | null;
+};
+
+// Pontuação mínima para sugerir uma parcela automaticamente
+export const MIN_SUGGESTION_SCORE = 50;
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+const normalizeText = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Palavras de ligação ignoradas na comparação de nomes
+const NAME_STOPWORDS = new Set(["de", "da", "das", "do", "dos", "e"]);
+
+/**
+ * Converte datas do extrato para YYYY-MM-DD.
+ * Entrada: "20250110120000[-3:BRT]" | "10/01/2025" | "10/01/25" | "2025-01-10" → Saída: "2025-01-10"
+ *
+ * EN: Normalizes statement dates (OFX, dd/MM/yyyy, dd/MM/yy, ISO) to YYYY-MM-DD.
+ */
+export function parseStatementDate(value: string): string | null {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[2].padStart(2, "0")}-${match[1].padStart(2, "0")}`;
+  }
+  return null;
+}
+
+/**
+ * Converte valores do extrato para número. Com vírgula, o ponto é separador de milhar.
+ * Entrada: "R$ 1.234,56" → 1234.56 | "-50,00" → -50 | "1234.56" → 1234.56 | "(10,00)" → -10
+ *
+ * EN: Parses statement amounts (Brazilian or dot-decimal formats) into numbers.
+ */
+export function parseStatementAmount(value: string): number {
+  let text = value.trim().replace(/R\$|\s/g, "");
+  const negative = /^\(.*\)$/.test(text) || text.endsWith("-") || /D$/i.test(text);
+  text = text.replace(/[()]/g, "").replace(/-$/, "").replace(/[CD]$/i, "");
+  if (text.includes(",")) text = text.replace(/\./g, "").replace(",", ".");
+  const amount = Number(text);
+  if (Number.isNaN(amount)) return NaN;
+  return negative ? -Math.abs(amount) : amount;
+}
+
+const getOfxTag = (block: string, tag: string) =>
+  block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1].trim() || null;
+
+/**
+ * Lê um extrato OFX (SGML 1.x ou XML 2.x) e retorna os créditos.
+ * Lançamentos sem FITID recebem um identificador a partir da data, valor e posição.
+ *
+ * EN: Parses an OFX statement (SGML or XML) and returns its credits.
+ */
+export function parseOfx(text: string): ParsedStatement {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error("Arquivo OFX inválido");
+  }
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map((block) => block.split(/<\/STMTTRN>/i)[0]);
+  const entries: ParsedStatementEntry[] = [];
+  blocks.forEach((block, index) => {
+    const postedDate = parseStatementDate(getOfxTag(block, "DTPOSTED") || "");
+    const amount = parseStatementAmount(getOfxTag(block, "TRNAMT") || "");
+    if (!postedDate || !(amount > 0)) return;
+
+    const description = [getOfxTag(block, "NAME"), getOfxTag(block, "MEMO")].filter(Boolean).join(" - ");
+    entries.push({
+      fit_id: getOfxTag(block, "FITID") || `ofx-${postedDate}-${amount.toFixed(2)}-${index}`,
+      posted_date: postedDate,
+      amount: roundCents(amount),
+      description,
+    });
+  });
+
+  const periodStart = getOfxTag(text, "DTSTART");
+  const periodEnd = getOfxTag(text, "DTEND");
+  return {
+    format: "ofx",
+    bankName: getOfxTag(text, "ORG") || getOfxTag(text, "BANKID"),
+    accountId: getOfxTag(text, "ACCTID"),
+    periodStart: periodStart ? parseStatementDate(periodStart) : null,
+    periodEnd: periodEnd ? parseStatementDate(periodEnd) : null,
+    entries,
+  };
+}
+
+const CSV_COLUMNS = {
+  date: /^(data|date|dt)/,
+  amount: /^(valor|credito|amount|value)/,
+  description: /^(descricao|historico|lancamento|memo|detalhe|description)/,
+  id: /^(id|identificador|documento|fitid|n documento)/,
+};
+
+/**
+ * Lê um extrato CSV com cabeçalho (data, histórico/descrição, valor e, opcionalmente,
+ * identificador). Aceita ";", "," ou tabulação como separador. Retorna apenas créditos.
+ *
+ * EN: Parses a CSV statement with a header row (date, description, amount, optional id).
+ */
+export function parseStatementCsv(text: string): ParsedStatement {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length < 2) {
+    throw new Error("Arquivo CSV vazio");
+  }
+
+  const headerLine = lines[0];
+  const delimiter = detectCsvDelimiter(headerLine);
+  const header = splitCsvLine(headerLine, delimiter).map(normalizeText);
+  const findColumn = (pattern: RegExp) => header.findIndex((column) => pattern.test(column));
+  const dateIndex = findColumn(CSV_COLUMNS.date);
+  const amountIndex = findColumn(CSV_COLUMNS.amount);
+  const descriptionIndex = findColumn(CSV_COLUMNS.description);
+  const idIndex = findColumn(CSV_COLUMNS.id);
+
+  if (dateIndex < 0 || amountIndex < 0) {
+    throw new Error("O CSV precisa das colunas Data e Valor");
+  }
+
+  const occurrences = new Map<string, number>();
+  const entries: ParsedStatementEntry[] = [];
+  lines.slice(1).forEach((line) => {
+    const cells = splitCsvLine(line, delimiter);
+    const postedDate = parseStatementDate(cells[dateIndex] || "");
+    const amount = parseStatementAmount(cells[amountIndex] || "");
+    if (!postedDate || !(amount > 0)) return;
+
+    const description = descriptionIndex >= 0 ? cells[descriptionIndex] || "" : "";
+    // Sem identificador do banco: chave estável por data, valor, histórico e ocorrência no arquivo
+    const key = `csv-${postedDate}-${amount.toFixed(2)}-${normalizeText(description).replace(/ /g, "-").slice(0, 60)}`;
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+
+    entries.push({
+      fit_id: idIndex >= 0 && cells[idIndex] ? cells[idIndex] : `${key}-${occurrence}`,
+      posted_date: postedDate,
+      amount: roundCents(amount),
+      description,
+    });
+  });
+
+  const dates = entries.map((entry) => entry.posted_date).sort();
+  return {
+    format: "csv",
+    bankName: null,
+    accountId: null,
+    periodStart: dates[0] ?? null,
+    periodEnd: dates[dates.length - 1] ?? null,
+    entries,
+  };
+}
+
+/**
+ * Lê o arquivo do extrato (UTF-8 ou Windows-1252, comum em OFX de bancos brasileiros)
+ * e identifica o formato pela extensão ou pelo conteúdo.
+ *
+ * EN: Reads the statement file (UTF-8 or Windows-1252) and parses it as OFX or CSV.
+ */
+export async function readStatementFile(file: File): Promise<ParsedStatement> {
+  const buffer = await file.arrayBuffer();
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder("windows-1252").decode(buffer);
+  }
+
+  const isOfx = /\.(ofx|qfx)$/i.test(file.name) || /<OFX>/i.test(text);
+  return isOfx ? parseOfx(text) : parseStatementCsv(text);
+}
+
+/**
+ * Registra a importação e os créditos. Créditos já importados (mesmo fit_id) são ignorados.
+ * EN: Stores the import and its credits, skipping entries imported before (same fit_id).
+ */
+export async function importBankStatement(
+  statement: ParsedStatement,
+  context: { organizationId: string; userId: string; fileName: string }
+) {
+  const { data: importRow, error: importError } = await supabase
+    .from("bank_statement_imports")
+    .insert({
+      organization_id: context.organizationId,
+      file_name: context.fileName,
+      file_format: statement.format,
+      bank_name: statement.bankName,
+      account_id: statement.accountId,
+      period_start: statement.periodStart,
+      period_end: statement.periodEnd,
+      total_entries: statement.entries.length,
+      created_by: context.userId,
+    })
+    .select()
+    .single();
+
+  if (importError || !importRow) {
+    return { imported: 0, skipped: 0, error: importError };
+  }
+
+  const { data: inserted, error } = await supabase
+    .from("bank_statement_entries")
+    .upsert(
+      statement.entries.map((entry) => ({
+        ...entry,
+        organization_id: context.organizationId,
+        import_id: importRow.id,
+      })),
+      { onConflict: "organization_id,fit_id", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) {
+    return { imported: 0, skipped: 0, error };
+  }
+
+  const imported = inserted?.length ?? 0;
+  await supabase.from("bank_statement_imports").update({ imported_entries: imported }).eq("id", importRow.id);
+  return { imported, skipped: statement.entries.length - imported, error: null };
+}
+
+/**
+ * Carrega os créditos do extrato por status, com a parcela conciliada quando houver.
+ * EN: Loads statement credits by status, with the matched installment label.
+ */
+export async function loadStatementEntries(organizationId: string, status: BankStatementEntry["status"]) {
+  const { data, error } = await supabase
+    .from("bank_statement_entries")
+    .select(`
+      *,
+      installment_payment:installment_payments(
+        installments(installment_number, total_installments, is_down_payment, payments(orders(order_number, customers(full_name))))
+      )
+    `)
+    .eq("organization_id", organizationId)
+    .eq("status", status)
+    .order("posted_date", { ascending: false });
+
+  const entries: ReconciliationEntry[] = (data ?? []).map(({ installment_payment, ...entry }) => {
+    const installment = installment_payment?.installments;
+    const order = installment?.payments?.orders;
+    return {
+      ...entry,
+      matched_label: installment
+        ? [
+            order?.order_number,
+            order?.customers?.full_name,
+            installment.is_down_payment ? "Entrada" : `${installment.installment_number}/${installment.total_installments}`,
+          ]
+            .filter(Boolean)
+            .join(" · ")
+        : null,
+    };
+  });
+  return { entries, error };
+}
+
+/**
+ * Parcelas em aberto (pendentes, atrasadas ou parciais) da organização para conciliação.
+ * EN: Open installments of the organization available for reconciliation.
+ */
+export async function loadOpenInstallments(organizationId: string) {
+  const { data, error } = await supabase
+    .from("installments")
+    .select(`
+      id, organization_id, installment_number, total_installments, amount, paid_amount, due_date, status,
+      payment_method, is_down_payment,
+      payments(order_id, orders(order_number, customers(full_name)))
+    `)
+    .eq("organization_id", organizationId)
+    .in("status", ["pending", "overdue", "partial"])
+    .order("due_date", { ascending: true });
+
+  const installments: ReconciliationInstallment[] = (data ?? []).map(({ payments, ...installment }) => ({
+    ...installment,
+    amount: Number(installment.amount),
+    paid_amount: Number(installment.paid_amount || 0),
+    order_id: payments?.order_id ?? "",
+    order_number: payments?.orders?.order_number ?? "",
+    customer_name: payments?.orders?.customers?.full_name ?? "",
+  }));
+  return { installments, error };
+}
+
+/**
+ * Pontua a correspondência entre um crédito e uma parcela:
+ * - Valor: igual ao saldo (60) ou ao saldo com multa e juros na data do crédito (50).
+ * - Data: crédito até 3 dias do vencimento (25), até 10 (15) ou até 30 (5).
+ * - Nome: proporção das palavras do nome do cliente presentes no histórico (até 40).
+ * Entrada: (crédito R$ 500 em 10/03 "PIX MARIA SILVA", parcela saldo R$ 500 venc. 10/03 de Maria Silva) → 125
+ *
+ * EN: Scores how well a bank credit matches an installment (amount, date and customer name).
+ */
+export function scoreMatch(
+  entry: Pick<BankStatementEntry, "amount" | "posted_date" | "description">,
+  installment: ReconciliationInstallment,
+  lateFeeSettings: LateFeeSettings | null
+): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  let score = 0;
+  const amount = Number(entry.amount);
+  const balance = getInstallmentBalance(installment);
+
+  if (sameAmount(amount, balance)) {
+    score += 60;
+    reasons.push("Valor igual ao saldo");
+  } else {
+    const charges = calculateLateCharges(lateFeeSettings, { amount: balance, due_date: installment.due_date }, entry.posted_date);
+    if (charges.total > balance && sameAmount(amount, charges.total)) {
+      score += 50;
+      reasons.push("Valor com multa e juros");
+    }
+  }
+
+  const days = Math.abs(daysBetween(installment.due_date, entry.posted_date));
+  if (days <= 3) {
+    score += 25;
+    reasons.push("Data próxima ao vencimento");
+  } else if (days <= 10) {
+    score += 15;
+    reasons.push(`Vencimento a ${days} dias`);
+  } else if (days <= 30) {
+    score += 5;
+  }
+
+  const descriptionWords = new Set(normalizeText(entry.description || "").split(" "));
+  const nameWords = normalizeText(installment.customer_name)
+    .split(" ")
+    .filter((word) => word.length > 1 && !NAME_STOPWORDS.has(word));
+  const found = nameWords.filter((word) => descriptionWords.has(word)).length;
+  if (nameWords.length > 0 && found > 0) {
+    score += Math.round((found / nameWords.length) * 40);
+    reasons.push(found === nameWords.length ? "Nome do cliente no histórico" : "Parte do nome no histórico");
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Parcelas ordenadas pela pontuação para um crédito (para escolha manual).
+ * EN: Installments ranked by score for a given credit (manual selection).
+ */
+export function rankInstallments(
+  entry: Pick<BankStatementEntry, "amount" | "posted_date" | "description">,
+  installments: ReconciliationInstallment[],
+  lateFeeSettings: LateFeeSettings | null
+): MatchSuggestion[] {
+  return installments
+    .map((installment) => ({ installment, ...scoreMatch(entry, installment, lateFeeSettings) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Sugere no máximo uma parcela por crédito e um crédito por parcela, priorizando as
+ * maiores pontuações. Créditos sem parcela acima de MIN_SUGGESTION_SCORE ficam sem sugestão.
+ *
+ * EN: Greedy one-to-one suggestions between credits and installments, best scores first.
+ */
+export function suggestMatches(
+  entries: Pick<BankStatementEntry, "id" | "amount" | "posted_date" | "description">[],
+  installments: ReconciliationInstallment[],
+  lateFeeSettings: LateFeeSettings | null
+): Record<string, MatchSuggestion> {
+  const pairs: (MatchSuggestion & { entryId: string })[] = [];
+  entries.forEach((entry) => {
+    installments.forEach((installment) => {
+      const { score, reasons } = scoreMatch(entry, installment, lateFeeSettings);
+      if (score >= MIN_SUGGESTION_SCORE) pairs.push({ entryId: entry.id, installment, score, reasons });
+    });
+  });
+
+  const suggestions: Record<string, MatchSuggestion> = {};
+  const usedInstallments = new Set<string>();
+  pairs
+    .sort((a, b) => b.score - a.score)
+    .forEach(({ entryId, ...suggestion }) => {
+      if (suggestions[entryId] || usedInstallments.has(suggestion.installment.id)) return;
+      suggestions[entryId] = suggestion;
+      usedInstallments.add(suggestion.installment.id);
+    });
+  return suggestions;
+}
+
+/**
+ * Forma de pagamento deduzida do histórico do crédito.
+ * Entrada: "PIX RECEBIDO - MARIA" → "PIX" | "LIQUIDACAO BOLETO" → "Boleto" | outro → "Depósito"
+ *
+ * EN: Payment method guessed from the credit description.
+ */
+export function guessPaymentMethod(description: string): string {
+  const text = normalizeText(description);
+  if (/\bpix\b/.test(text)) return "PIX";
+  if (/\b(boleto|liquidacao|cobranca)\b/.test(text)) return "Boleto";
+  return "Depósito";
+}
+
+/**
+ * Concilia um crédito com a parcela: lança o recebimento com a data do banco e marca o
+ * crédito como conciliado, na mesma transação (reconcile_bank_statement_entry). O que passar
+ * do saldo é lançado como multa e juros, até os valores calculados. Crédito maior que
+ * saldo + multa + juros não é conciliado: fica na fila e o excedente volta em `unapplied`.
+ *
+ * EN: Reconciles a credit with an installment in a single transaction: records the payment on
+ * the bank date and marks the credit as matched. Any amount above the balance is booked as late
+ * fee and interest (capped at the calculated charges); credits above that stay in the queue and
+ * return `unapplied`.
+ */
+export async function reconcileStatementEntry(
+  entry: Pick<BankStatementEntry, "id" | "amount" | "posted_date" | "description">,
+  installment: ReconciliationInstallment,
+  context: { lateFeeSettings: LateFeeSettings | null }
+) {
+  const split = splitReceivedAmount(Number(entry.amount), installment, entry.posted_date, context.lateFeeSettings);
+  if (split.unapplied > 0) {
+    return { principal: 0, unapplied: split.unapplied, error: null };
+  }
+
+  const { error } = await supabase.rpc("reconcile_bank_statement_entry", {
+    _entry_id: entry.id,
+    _installment_id: installment.id,
+    _amount: split.principal,
+    _late_fee_amount: split.late_fee_amount,
+    _interest_amount: split.interest_amount,
+    _payment_method: guessPaymentMethod(entry.description),
+    _notes: `Conciliação bancária: ${entry.description}`.trim(),
+  });
+  if (error) return { principal: 0, unapplied: 0, error };
+
+  return { principal: split.principal, unapplied: 0, error: null };
+}
+
+/**
+ * Ignora um crédito (ex.: transferência entre contas) ou o devolve para a fila.
+ * EN: Ignores a credit (e.g. internal transfer) or puts it back in the queue.
+ */
+export async function setStatementEntryIgnored(entryId: string, ignored: boolean) {
+  return supabase
+    .from("bank_statement_entries")
+    .update({ status: ignored ? "ignored" : "pending" })
+    .eq("id", entryId);
+}
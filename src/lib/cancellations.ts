@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import type { OrderCancellationFormData } from "@/lib/validations";
+
+export type CancellationPolicyRule = Tables<"cancellation_policy_rules">;
+export type CancellationPreview = Database["public"]["Functions"]["calculate_order_cancellation"]["Returns"][number];
+
+/**
+ * Ordena as faixas da política da maior para a menor antecedência.
+ * EN: Sorts policy rules from the longest to the shortest notice.
+ */
+export function sortPolicyRules<T extends { min_days_before: number }>(rules: T[]): T[] {
+  return [...rules].sort((a, b) => b.min_days_before - a.min_days_before);
+}
+
+/**
+ * Descreve a faixa de dias de uma regra, considerando a regra imediatamente mais longa.
+ * Entrada: (15, 30) → "De 15 a 29 dias antes" | (30, undefined) → "30 dias ou mais antes"
+ *
+ * EN: Human-readable day range of a rule given the next longer rule's start.
+ */
+export function formatPolicyRuleRange(minDays: number, nextMinDays?: number): string {
+  if (nextMinDays === undefined) {
+    return minDays === 0 ? "Qualquer antecedência" : `${minDays} dias ou mais antes`;
+  }
+  const maxDays = nextMinDays - 1;
+  if (minDays === maxDays) {
+    return minDays === 0 ? "No dia da viagem (ou depois)" : `${minDays} dias antes`;
+  }
+  return `De ${minDays} a ${maxDays} dias antes`;
+}
+
+/**
+ * Calcula (sem gravar) multa e reembolso do cancelamento conforme a política da organização.
+ * EN: Computes (without saving) the penalty and refund for cancelling the order.
+ */
+export async function getCancellationPreview(orderId: string) {
+  const { data, error } = await supabase.rpc("calculate_order_cancellation", { _order_id: orderId });
+  return { preview: (data?.[0] ?? null) as CancellationPreview | null, error };
+}
+
+/**
+ * Cancela o pedido: registra cancelamento e reembolso, cancela parcelas em aberto e libera as vagas.
+ * Tudo acontece em uma única transação no banco (cancel_order).
+ *
+ * EN: Cancels the order atomically (refund entry, open installments, package spots).
+ */
+export async function cancelOrder(orderId: string, data: OrderCancellationFormData) {
+  return supabase.rpc("cancel_order", {
+    _order_id: orderId,
+    _reason: data.reason,
+    _refund_method: data.refund_method || undefined,
+    _refund_date: data.refund_date || undefined,
+    _refund_completed: data.refund_completed,
+  });
+}
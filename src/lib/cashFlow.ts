@@ -0,0 +1,223 @@
+import { addDays, endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import type { CashFlowGranularity } from "@/lib/constants";
+import { getInstallmentBalance } from "@/lib/installmentPayments";
+import { roundCents } from "@/lib/utils";
+
+/**
+ * Lançamento previsto no fluxo de caixa (entrada de parcela ou saída de conta a pagar).
+ * EN: Projected cash flow item (installment inflow or payable outflow).
+ */
+export interface CashFlowItem {
+  id: string;
+  kind: "inflow" | "outflow";
+  due_date: string;
+  amount: number;
+  description: string;
+  /** Somente entradas: status do pedido de origem */
+  order_status?: string | null;
+}
+
+export interface CashFlowScenario {
+  /** Considera que parcelas vencidas nunca serão recebidas */
+  excludeOverdueReceivables: boolean;
+  /** Considera apenas parcelas de pedidos confirmados ou concluídos */
+  confirmedOrdersOnly: boolean;
+  /** Lança contas a pagar vencidas no primeiro período (pagamento imediato) */
+  includeOverduePayables: boolean;
+}
+
+export interface CashFlowBucket {
+  start: string;
+  end: string;
+  label: string;
+  inflow: number;
+  outflow: number;
+  net: number;
+  balance: number;
+  items: CashFlowItem[];
+}
+
+export interface CashFlowProjection {
+  buckets: CashFlowBucket[];
+  totalInflow: number;
+  totalOutflow: number;
+  closingBalance: number;
+  lowestBalance: number;
+  /** Início do primeiro período com saldo negativo, se houver */
+  firstNegativeDate: string | null;
+  overdueInflow: number;
+  overdueOutflow: number;
+}
+
+export const DEFAULT_CASH_FLOW_SCENARIO: CashFlowScenario = {
+  excludeOverdueReceivables: false,
+  confirmedOrdersOnly: false,
+  includeOverduePayables: true,
+};
+
+const toDateOnly = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * Período (início, fim e rótulo) que contém a data, conforme a granularidade.
+ * Semanas começam na segunda-feira.
+ * Entrada: ("2025-03-12", "month") → { start: "2025-03-01", end: "2025-03-31", label: "mar/2025" }
+ *
+ * EN: Period (start, end and label) containing the date for the given granularity.
+ */
+export function getCashFlowPeriod(date: string, granularity: CashFlowGranularity) {
+  const day = parseISO(date);
+  if (granularity === "month") {
+    return {
+      start: toDateOnly(startOfMonth(day)),
+      end: toDateOnly(endOfMonth(day)),
+      label: format(day, "MMM/yyyy", { locale: ptBR }),
+    };
+  }
+  if (granularity === "week") {
+    const start = startOfWeek(day, { weekStartsOn: 1 });
+    const end = endOfWeek(day, { weekStartsOn: 1 });
+    return { start: toDateOnly(start), end: toDateOnly(end), label: `${format(start, "dd/MM")} a ${format(end, "dd/MM")}` };
+  }
+  return { start: date, end: date, label: format(day, "dd/MM") };
+}
+
+/**
+ * Projeta o fluxo de caixa entre `startDate` e `endDate`, agrupando por dia, semana ou mês.
+ * - Lançamentos vencidos (antes de `startDate`) entram no primeiro período, conforme o cenário.
+ * - Lançamentos após `endDate` são ignorados.
+ * - O saldo acumulado parte de `openingBalance`.
+ *
+ * EN: Projects cash flow between startDate and endDate grouped by day, week or month.
+ * Overdue items land in the first period according to the scenario; the running balance
+ * starts from openingBalance.
+ */
+export function buildCashFlowProjection(
+  items: CashFlowItem[],
+  options: {
+    openingBalance: number;
+    startDate: string;
+    endDate: string;
+    granularity: CashFlowGranularity;
+    scenario: CashFlowScenario;
+  }
+): CashFlowProjection {
+  const { openingBalance, startDate, endDate, granularity, scenario } = options;
+
+  const buckets: CashFlowBucket[] = [];
+  let cursor = startDate;
+  while (cursor <= endDate) {
+    const period = getCashFlowPeriod(cursor, granularity);
+    buckets.push({
+      start: cursor,
+      end: period.end < endDate ? period.end : endDate,
+      label: period.label,
+      inflow: 0,
+      outflow: 0,
+      net: 0,
+      balance: 0,
+      items: [],
+    });
+    cursor = toDateOnly(addDays(parseISO(period.end), 1));
+  }
+
+  let overdueInflow = 0;
+  let overdueOutflow = 0;
+
+  for (const item of items) {
+    if (item.kind === "inflow" && scenario.confirmedOrdersOnly) {
+      if (item.order_status !== "confirmed" && item.order_status !== "completed") continue;
+    }
+    if (item.due_date > endDate) continue;
+
+    const isOverdue = item.due_date < startDate;
+    if (isOverdue) {
+      if (item.kind === "inflow" && scenario.excludeOverdueReceivables) continue;
+      if (item.kind === "outflow" && !scenario.includeOverduePayables) continue;
+      if (item.kind === "inflow") overdueInflow += item.amount;
+      else overdueOutflow += item.amount;
+    }
+
+    const bucket = isOverdue ? buckets[0] : buckets.find((b) => item.due_date >= b.start && item.due_date <= b.end);
+    if (!bucket) continue;
+    bucket.items.push(item);
+    if (item.kind === "inflow") bucket.inflow += item.amount;
+    else bucket.outflow += item.amount;
+  }
+
+  let balance = openingBalance;
+  let lowestBalance = openingBalance;
+  let firstNegativeDate: string | null = null;
+  for (const bucket of buckets) {
+    bucket.inflow = roundCents(bucket.inflow);
+    bucket.outflow = roundCents(bucket.outflow);
+    bucket.net = roundCents(bucket.inflow - bucket.outflow);
+    balance = roundCents(balance + bucket.net);
+    bucket.balance = balance;
+    if (balance < lowestBalance) lowestBalance = balance;
+    if (balance < 0 && !firstNegativeDate) firstNegativeDate = bucket.start;
+  }
+
+  return {
+    buckets,
+    totalInflow: roundCents(buckets.reduce((sum, bucket) => sum + bucket.inflow, 0)),
+    totalOutflow: roundCents(buckets.reduce((sum, bucket) => sum + bucket.outflow, 0)),
+    closingBalance: balance,
+    lowestBalance,
+    firstNegativeDate,
+    overdueInflow: roundCents(overdueInflow),
+    overdueOutflow: roundCents(overdueOutflow),
+  };
+}
+
+/**
+ * Carrega as entradas previstas (saldo das parcelas em aberto) e as saídas previstas
+ * (contas a pagar em aberto) da organização.
+ *
+ * EN: Loads projected inflows (open installment balances) and outflows (open payables).
+ */
+export async function loadCashFlowItems(organizationId: string) {
+  const [installmentsResult, payablesResult] = await Promise.all([
+    supabase
+      .from("installments")
+      .select(`
+        id, amount, paid_amount, due_date, installment_number, total_installments, is_down_payment,
+        payments(orders(order_number, status, customers(full_name)))
+      `)
+      .eq("organization_id", organizationId)
+      .in("status", ["pending", "overdue", "partial"]),
+    supabase
+      .from("payables")
+      .select("id, amount, due_date, description, suppliers(name)")
+      .eq("organization_id", organizationId)
+      .eq("status", "pending"),
+  ]);
+
+  const inflows: CashFlowItem[] = (installmentsResult.data ?? [])
+    .map((installment) => {
+      const order = installment.payments?.orders;
+      const label = installment.is_down_payment
+        ? "Entrada"
+        : `Parcela ${installment.installment_number}/${installment.total_installments}`;
+      return {
+        id: installment.id,
+        kind: "inflow" as const,
+        due_date: installment.due_date,
+        amount: getInstallmentBalance(installment),
+        description: [order?.order_number, order?.customers?.full_name, label].filter(Boolean).join(" · "),
+        order_status: order?.status ?? null,
+      };
+    })
+    .filter((item) => item.amount > 0);
+
+  const outflows: CashFlowItem[] = (payablesResult.data ?? []).map((payable) => ({
+    id: payable.id,
+    kind: "outflow" as const,
+    due_date: payable.due_date,
+    amount: Number(payable.amount),
+    description: [payable.suppliers?.name, payable.description].filter(Boolean).join(" · "),
+  }));
+
+  return { items: [...inflows, ...outflows], error: installmentsResult.error ?? payablesResult.error };
+}
@@ -0,0 +1,322 @@
+import { describe, expect, it, vi } from "vitest";
+
+type Row = Record<string, unknown>;
+
+// Cliente Supabase em memória: registra as gravações e responde às consultas de processCnabReturn
+const db = vi.hoisted(() => ({
+  installments: [] as Row[],
+  writes: [] as { table: string; operation: "insert" | "update"; values: Row | Row[] }[],
+  rpcs: [] as { name: string; args: Row }[],
+}));
+
+vi.mock("@/integrations/supabase/client", () => {
+  const from = (table: string) => {
+    let written: Row | Row[] | null = null;
+    const result = () => {
+      if (table === "installments") return { data: db.installments, error: null };
+      if (table === "organizations") {
+        const settings = { late_fee_percent: 2, late_interest_percent: 1, late_interest_period: "monthly", late_fee_grace_days: 0 };
+        return { data: settings, error: null };
+      }
+      if (written && !Array.isArray(written)) {
+        return { data: { id: `${table}-${db.writes.length}`, ...written }, error: null };
+      }
+      return { data: null, error: null };
+    };
+    const write = (operation: "insert" | "update") => (values: Row | Row[]) => {
+      written = values;
+      db.writes.push({ table, operation, values });
+      return builder;
+    };
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      in: () => builder,
+      insert: write("insert"),
+      update: write("update"),
+      single: () => Promise.resolve(result()),
+      maybeSingle: () => Promise.resolve(result()),
+      then: (resolve: (value: ReturnType<typeof result>) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve(result()).then(resolve, reject),
+    };
+    return builder;
+  };
+  const rpc = (name: string, args: Row) => {
+    db.rpcs.push({ name, args });
+    return Promise.resolve({ data: name === "create_boleto_remittance" ? "remittance-1" : null, error: null });
+  };
+  return { supabase: { from, rpc } };
+});
+
+import {
+  buildCnab240Remittance,
+  buildCnab400Remittance,
+  buildRemittance,
+  generateBoletoRemittance,
+  parseCnabReturn,
+  processCnabReturn,
+  type BoletoInstallment,
+  type RemittanceInput,
+} from "@/lib/cnab";
+
+const organization: RemittanceInput["organization"] = {
+  name: "Viagens Exemplo",
+  legal_name: "Viagens Exemplo Ltda",
+  cnpj: "11.222.333/0001-81",
+  boleto_bank_code: "341",
+  boleto_agency: "1234",
+  boleto_agency_digit: "5",
+  boleto_account: "67890",
+  boleto_account_digit: "1",
+  boleto_wallet: "109",
+  boleto_agreement_code: "123456",
+  boleto_cnab_layout: "cnab240",
+  late_fee_percent: 2,
+  late_interest_percent: 1,
+  late_interest_period: "monthly",
+  late_fee_grace_days: 0,
+};
+
+const installment = (installmentNumber: number, amount: number): BoletoInstallment => ({
+  id: `installment-${installmentNumber}`,
+  installment_number: installmentNumber,
+  total_installments: 2,
+  amount,
+  due_date: `2025-0${installmentNumber + 2}-10`,
+  our_number: 1000 + installmentNumber,
+  order_number: "PED-0001",
+  payer: {
+    full_name: "João da Silva",
+    cpf: "529.982.247-25",
+    address: "Rua das Flores, 100",
+    city: "São Paulo",
+    state: "SP",
+    zip_code: "01310-100",
+  },
+});
+
+const input: RemittanceInput = {
+  organization,
+  sequenceNumber: 7,
+  generatedAt: new Date(2025, 1, 20, 9, 30),
+  installments: [installment(1, 1234.56), installment(2, 765.44)],
+};
+
+describe("buildCnab240Remittance", () => {
+  const lines = buildCnab240Remittance(input);
+
+  it("gera todas as linhas com 240 posições", () => {
+    // Header de arquivo e de lote, segmentos P/Q/R por título, trailers de lote e arquivo
+    expect(lines).toHaveLength(2 + 3 * input.installments.length + 2);
+    lines.forEach((line) => expect(line).toHaveLength(240));
+  });
+
+  it("grava o valor de cada título no segmento P", () => {
+    const segmentsP = lines.filter((line) => line[13] === "P");
+    expect(segmentsP.map((line) => line.slice(85, 100))).toEqual(["000000000123456", "000000000076544"]);
+  });
+
+  it("informa a quantidade de registros nos trailers", () => {
+    const lotTrailer = lines[lines.length - 2];
+    const fileTrailer = lines[lines.length - 1];
+    expect(lotTrailer.slice(17, 23)).toBe("000008");
+    expect(fileTrailer.slice(17, 23)).toBe("000001");
+    expect(fileTrailer.slice(23, 29)).toBe(String(lines.length).padStart(6, "0"));
+  });
+});
+
+describe("buildCnab400Remittance", () => {
+  const lines = buildCnab400Remittance({ ...input, organization: { ...organization, boleto_cnab_layout: "cnab400" } });
+
+  it("gera todas as linhas com 400 posições", () => {
+    expect(lines).toHaveLength(input.installments.length + 2);
+    lines.forEach((line) => expect(line).toHaveLength(400));
+  });
+
+  it("numera os registros em sequência e grava o valor do título", () => {
+    expect(lines.map((line) => line.slice(394, 400))).toEqual(["000001", "000002", "000003", "000004"]);
+    expect(lines[1].slice(126, 139)).toBe("0000000123456");
+  });
+});
+
+describe("buildRemittance", () => {
+  it("termina cada linha com CRLF", () => {
+    const content = buildRemittance("cnab240", input);
+    const lines = content.split("\r\n");
+    expect(lines.pop()).toBe("");
+    expect(lines).toEqual(buildCnab240Remittance(input));
+  });
+});
+
+/**
+ * Linha de tamanho fixo com os campos nas posições informadas (base 1, como nos manuais).
+ * Entrada: (10, { 3: "AB" }) → "  AB      "
+ */
+const fixedLine = (size: number, fields: Record<number, string>) => {
+  const chars = Array.from({ length: size }, () => " ");
+  Object.entries(fields).forEach(([start, value]) => {
+    value.split("").forEach((char, offset) => {
+      chars[Number(start) - 1 + offset] = char;
+    });
+  });
+  return chars.join("");
+};
+
+const pad = (value: number, size: number) => String(value).padStart(size, "0");
+
+// Retorno CNAB 240: liquidação (1001), rejeição (1002), confirmação (1003),
+// liquidação de parcela já paga (1004) e liquidação de nosso número desconhecido (9999)
+const cnab240Return = (() => {
+  const titles: [number, string, number, number][] = [
+    [1001, "06", 10000, 10250],
+    [1002, "03", 20000, 0],
+    [1003, "02", 30000, 0],
+    [1004, "06", 40000, 40000],
+    [9999, "06", 50000, 50000],
+  ];
+  const lines = [fixedLine(240, { 1: "341", 8: "0", 143: "2" }), fixedLine(240, { 1: "341", 8: "1" })];
+  titles.forEach(([ourNumber, occurrence, amount, paidAmount], index) => {
+    lines.push(
+      fixedLine(240, { 1: "341", 8: "3", 9: pad(index * 2 + 1, 5), 14: "T", 16: occurrence, 38: pad(ourNumber, 20), 82: pad(amount, 15) })
+    );
+    lines.push(
+      fixedLine(240, {
+        1: "341", 8: "3", 9: pad(index * 2 + 2, 5), 14: "U", 78: pad(paidAmount, 15),
+        138: paidAmount > 0 ? "16032025" : "00000000", 146: paidAmount > 0 ? "17032025" : "00000000",
+      })
+    );
+  });
+  lines.push(fixedLine(240, { 1: "341", 8: "5" }), fixedLine(240, { 1: "341", 8: "9" }));
+  return lines.join("\r\n") + "\r\n";
+})();
+
+// Retorno CNAB 400: liquidação com juros (1001), rejeição (1002) e nosso número desconhecido (9999)
+const cnab400Return = [
+  fixedLine(400, { 1: "02RETORNO", 77: "341" }),
+  fixedLine(400, { 1: "1", 63: pad(1001, 8), 109: "06", 111: "160325", 153: pad(10000, 13), 254: pad(10000, 13), 267: pad(250, 13), 296: "170325" }),
+  fixedLine(400, { 1: "1", 63: pad(1002, 8), 109: "03", 111: "100325", 153: pad(20000, 13) }),
+  fixedLine(400, { 1: "1", 63: pad(9999, 8), 109: "06", 111: "160325", 153: pad(50000, 13), 254: pad(50000, 13) }),
+  fixedLine(400, { 1: "9" }),
+].join("\r\n");
+
+describe("parseCnabReturn", () => {
+  it("lê os segmentos T e U do CNAB 240", () => {
+    const parsed = parseCnabReturn(cnab240Return);
+
+    expect(parsed.layout).toBe("cnab240");
+    expect(parsed.bankCode).toBe("341");
+    expect(parsed.items.map((item) => [item.ourNumber, item.occurrenceCode])).toEqual([
+      [1001, "06"],
+      [1002, "03"],
+      [1003, "02"],
+      [1004, "06"],
+      [9999, "06"],
+    ]);
+    expect(parsed.items[0]).toEqual({
+      lineNumber: 3,
+      ourNumber: 1001,
+      occurrenceCode: "06",
+      amount: 100,
+      paidAmount: 102.5,
+      occurrenceDate: "2025-03-16",
+      creditDate: "2025-03-17",
+    });
+    expect(parsed.items[1]).toMatchObject({ paidAmount: 0, occurrenceDate: null, creditDate: null });
+  });
+
+  it("lê os detalhes do CNAB 400 somando principal e juros pagos", () => {
+    const parsed = parseCnabReturn(cnab400Return);
+
+    expect(parsed.layout).toBe("cnab400");
+    expect(parsed.bankCode).toBe("341");
+    expect(parsed.items).toEqual([
+      { lineNumber: 2, ourNumber: 1001, occurrenceCode: "06", amount: 100, paidAmount: 102.5, occurrenceDate: "2025-03-16", creditDate: "2025-03-17" },
+      { lineNumber: 3, ourNumber: 1002, occurrenceCode: "03", amount: 200, paidAmount: 0, occurrenceDate: "2025-03-10", creditDate: null },
+      { lineNumber: 4, ourNumber: 9999, occurrenceCode: "06", amount: 500, paidAmount: 500, occurrenceDate: "2025-03-16", creditDate: null },
+    ]);
+  });
+
+  it("recusa remessas e linhas fora do padrão", () => {
+    expect(() => parseCnabReturn(buildRemittance("cnab240", input))).toThrow("não é um retorno CNAB 240");
+    expect(() => parseCnabReturn(fixedLine(400, { 1: "01REMESSA" }))).toThrow("não é um retorno CNAB 400");
+    expect(() => parseCnabReturn("0123456789")).toThrow("240 ou 400 posições");
+  });
+});
+
+describe("processCnabReturn", () => {
+  const installmentRow = (ourNumber: number, status: string, paidAmount = 0) => ({
+    id: `installment-${ourNumber}`,
+    organization_id: "org-1",
+    amount: 100,
+    paid_amount: paidAmount,
+    due_date: "2025-03-01",
+    status,
+    boleto_our_number: ourNumber,
+  });
+
+  it("liquida a parcela do nosso número e registra as demais ocorrências", async () => {
+    db.writes = [];
+    db.installments = [installmentRow(1001, "pending"), installmentRow(1002, "pending"), installmentRow(1003, "pending"), installmentRow(1004, "paid", 100)];
+
+    const { counts, error } = await processCnabReturn(cnab240Return, {
+      organizationId: "org-1",
+      userId: "user-1",
+      fileName: "retorno.ret",
+      bankCode: "341",
+    });
+
+    expect(error).toBeNull();
+    expect(counts).toMatchObject({ settled: 1, rejected: 1, confirmed: 1, already_paid: 1, not_found: 1 });
+
+    // Vencida há 15 dias: principal 100, multa 2% e juros de 1% a.m. proporcionais
+    const payments = db.writes.filter((write) => write.table === "installment_payments");
+    expect(payments).toHaveLength(1);
+    expect(payments[0].values).toMatchObject({
+      installment_id: "installment-1001",
+      amount: 100,
+      late_fee_amount: 2,
+      interest_amount: 0.5,
+      payment_date: "2025-03-16",
+      payment_method: "Boleto",
+    });
+
+    const lines = db.writes.find((write) => write.table === "cnab_file_lines")?.values as Row[];
+    expect(lines.map((line) => [line.our_number, line.outcome, line.installment_id])).toEqual([
+      [1001, "settled", "installment-1001"],
+      [1002, "rejected", "installment-1002"],
+      [1003, "confirmed", "installment-1003"],
+      [1004, "already_paid", "installment-1004"],
+      [9999, "not_found", null],
+    ]);
+
+    const summary = db.writes.find((write) => write.table === "cnab_files" && write.operation === "update");
+    expect(summary?.values).toEqual({ processed_lines: 3, error_lines: 2, total_amount: 100 });
+  });
+
+  it("recusa retorno de outro banco", async () => {
+    db.writes = [];
+    await expect(
+      processCnabReturn(cnab400Return, { organizationId: "org-1", userId: "user-1", fileName: "retorno.ret", bankCode: "237" })
+    ).rejects.toThrow("Arquivo do banco 341");
+    expect(db.writes).toEqual([]);
+  });
+});
+
+describe("generateBoletoRemittance", () => {
+  it("descarta a remessa numerada quando o arquivo não pode ser gravado", async () => {
+    db.writes = [];
+    db.rpcs = [];
+
+    // O cliente em memória não devolve o arquivo numerado: a montagem falha depois do RPC
+    const { file, content, error } = await generateBoletoRemittance("org-1", ["installment-1001"]);
+
+    expect(file).toBeNull();
+    expect(content).toBeNull();
+    expect(error).not.toBeNull();
+    expect(db.rpcs).toEqual([
+      { name: "create_boleto_remittance", args: { _organization_id: "org-1", _installment_ids: ["installment-1001"] } },
+      { name: "discard_boleto_remittance", args: { _file_id: "remittance-1" } },
+    ]);
+    expect(db.writes).toEqual([]);
+  });
+});
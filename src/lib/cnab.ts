@@ -0,0 +1,794 @@
+import { addDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { BOLETO_BANK_OPTIONS, type CnabLayout, type CnabLineOutcome } from "@/lib/constants";
+import { loadLateFeeSettings, todayDateOnly, type LateFeeSettings } from "@/lib/lateFees";
+import { formatCurrency, roundCents } from "@/lib/utils";
+import {
+  getInstallmentBalance,
+  getInstallmentPaymentMessage,
+  recordInstallmentPayment,
+  splitReceivedAmount,
+} from "@/lib/installmentPayments";
+
+export type CnabFile = Tables<"cnab_files">;
+export type CnabFileLine = Tables<"cnab_file_lines">;
+
+export type BoletoSettings = Pick<
+  Tables<"organizations">,
+  | "boleto_bank_code"
+  | "boleto_agency"
+  | "boleto_agency_digit"
+  | "boleto_account"
+  | "boleto_account_digit"
+  | "boleto_wallet"
+  | "boleto_agreement_code"
+  | "boleto_cnab_layout"
+>;
+
+/** Dados do beneficiário usados na remessa. EN: Beneficiary data used in remittance files. */
+export type RemittanceOrganization = BoletoSettings &
+  LateFeeSettings &
+  Pick<Tables<"organizations">, "name" | "legal_name" | "cnpj">;
+
+/** Parcela enviada na remessa (valor = saldo em aberto). EN: Installment sent in a remittance file. */
+export interface BoletoInstallment {
+  id: string;
+  installment_number: number;
+  total_installments: number;
+  amount: number;
+  due_date: string;
+  our_number: number;
+  order_number: string;
+  payer: {
+    full_name: string;
+    cpf: string | null;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    zip_code: string | null;
+  };
+}
+
+export interface RemittanceInput {
+  organization: RemittanceOrganization;
+  sequenceNumber: number;
+  generatedAt: Date;
+  installments: BoletoInstallment[];
+}
+
+/** Título informado no arquivo de retorno. EN: Bank-reported boleto in a return file. */
+export interface CnabReturnItem {
+  lineNumber: number;
+  ourNumber: number | null;
+  occurrenceCode: string;
+  amount: number;
+  paidAmount: number;
+  occurrenceDate: string | null;
+  creditDate: string | null;
+}
+
+export interface ParsedCnabReturn {
+  layout: CnabLayout;
+  bankCode: string;
+  items: CnabReturnItem[];
+}
+
+const CNAB_HINTS = ["boleto_settings_missing", "boleto_installment_not_open", "boleto_no_installments"];
+
+// Ocorrências de retorno mais comuns (FEBRABAN 240 e CNAB 400 base Itaú)
+const OCCURRENCES: Record<CnabLayout, Record<string, string>> = {
+  cnab240: {
+    "02": "Entrada confirmada",
+    "03": "Entrada rejeitada",
+    "06": "Liquidação",
+    "09": "Baixa",
+    "12": "Confirmação de abatimento",
+    "14": "Confirmação de alteração de vencimento",
+    "17": "Liquidação após baixa",
+    "25": "Protestado e baixado",
+    "28": "Débito de tarifas",
+  },
+  cnab400: {
+    "02": "Entrada confirmada",
+    "03": "Entrada rejeitada",
+    "06": "Liquidação normal",
+    "07": "Liquidação parcial",
+    "08": "Liquidação em cartório",
+    "09": "Baixa simples",
+    "10": "Baixa por liquidação",
+    "14": "Alteração de vencimento",
+    "28": "Débito de tarifas",
+  },
+};
+
+const SETTLEMENT_CODES: Record<CnabLayout, string[]> = {
+  cnab240: ["06", "17"],
+  cnab400: ["06", "07", "08"],
+};
+
+const CONFIRMATION_CODE = "02";
+const REJECTION_CODE = "03";
+
+const stripAccents = (text: string) => text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+const digitsOnly = (value: string | null | undefined) => (value ?? "").replace(/\D/g, "");
+
+/**
+ * Campo numérico: zeros à esquerda; valores maiores que o campo mantêm os dígitos finais.
+ * Entrada: ("12-3", 5) → "00123"
+ */
+const num = (value: string | number | null | undefined, size: number) =>
+  digitsOnly(String(value ?? "")).padStart(size, "0").slice(-size);
+
+/**
+ * Campo alfanumérico: maiúsculas sem acento, brancos à direita.
+ * Entrada: ("São Paulo", 10) → "SAO PAULO "
+ */
+const alpha = (value: string | null | undefined, size: number) =>
+  stripAccents(value ?? "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,/&-]/g, " ")
+    .padEnd(size, " ")
+    .slice(0, size);
+
+const blank = (size: number) => " ".repeat(size);
+const zeros = (size: number) => "0".repeat(size);
+const money = (value: number, size: number) => num(Math.round(value * 100), size);
+
+const date8 = (date: string | null) => (date ? format(parseISO(date), "ddMMyyyy") : zeros(8));
+const date6 = (date: string | null) => (date ? format(parseISO(date), "ddMMyy") : zeros(6));
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), "yyyy-MM-dd");
+
+/** Monta um registro e garante o tamanho do layout. EN: Joins a record and checks its length. */
+function record(fields: string[], size: number): string {
+  const line = fields.join("");
+  if (line.length !== size) {
+    throw new Error(`Registro CNAB com ${line.length} posições (esperado ${size})`);
+  }
+  return line;
+}
+
+/** Tipo de inscrição: 1 = CPF, 2 = CNPJ, 0 = não informado. */
+const inscriptionType = (document: string) => (document.length === 14 ? "2" : document.length === 11 ? "1" : "0");
+
+const bankName = (code: string | null) =>
+  BOLETO_BANK_OPTIONS.find((option) => option.value === code)?.label.replace(/^\d{3} - /, "") ?? "";
+
+/** Juros de mora por dia no valor do título, pelas regras de atraso da organização. */
+const dailyInterest = (organization: LateFeeSettings, amount: number) => {
+  const rate = Number(organization.late_interest_percent || 0) / 100;
+  return roundCents(amount * (organization.late_interest_period === "daily" ? rate : rate / 30));
+};
+
+/** Primeiro dia de cobrança de multa e juros (após a carência). */
+const chargesStartDate = (organization: LateFeeSettings, dueDate: string) =>
+  shiftDate(dueDate, (organization.late_fee_grace_days || 0) + 1);
+
+export const isBoletoConfigured = (settings: Partial<BoletoSettings> | null | undefined): settings is BoletoSettings =>
+  !!(
+    settings?.boleto_bank_code &&
+    settings.boleto_agency &&
+    settings.boleto_account &&
+    settings.boleto_account_digit &&
+    settings.boleto_wallet &&
+    settings.boleto_cnab_layout
+  );
+
+/**
+ * Descrição da ocorrência do retorno.
+ * Entrada: ("cnab240", "06") → "Liquidação"
+ *
+ * EN: Describes a return occurrence code.
+ */
+export const describeCnabOccurrence = (layout: CnabLayout, code: string) =>
+  OCCURRENCES[layout][code] ?? `Ocorrência ${code}`;
+
+/**
+ * Remessa CNAB 240 (FEBRABAN): header de arquivo, header de lote, segmentos P, Q e R
+ * por título, trailer de lote e trailer de arquivo.
+ * Multa (percentual) e juros (valor ao dia) seguem as regras de atraso da organização.
+ *
+ * EN: Builds a FEBRABAN CNAB 240 remittance (one lot, segments P/Q/R per boleto).
+ */
+export function buildCnab240Remittance({ organization, sequenceNumber, generatedAt, installments }: RemittanceInput): string[] {
+  const bank = num(organization.boleto_bank_code, 3);
+  const companyDocument = digitsOnly(organization.cnpj);
+  const companyName = organization.legal_name || organization.name;
+  const agreement = alpha(organization.boleto_agreement_code, 20);
+  const account = [
+    num(organization.boleto_agency, 5),
+    alpha(organization.boleto_agency_digit, 1),
+    num(organization.boleto_account, 12),
+    alpha(organization.boleto_account_digit, 1),
+    blank(1),
+  ].join("");
+  const today = format(generatedAt, "yyyy-MM-dd");
+  const lines: string[] = [];
+
+  lines.push(
+    record(
+      [
+        bank, "0000", "0", blank(9),
+        inscriptionType(companyDocument), num(companyDocument, 14),
+        agreement, account,
+        alpha(companyName, 30), alpha(bankName(organization.boleto_bank_code), 30), blank(10),
+        "1", date8(today), format(generatedAt, "HHmmss"), num(sequenceNumber, 6), "103", zeros(5),
+        blank(20), blank(20), blank(29),
+      ],
+      240
+    )
+  );
+
+  lines.push(
+    record(
+      [
+        bank, "0001", "1", "R", "01", blank(2), "060", blank(1),
+        inscriptionType(companyDocument), num(companyDocument, 15),
+        agreement, account,
+        alpha(companyName, 30), blank(40), blank(40),
+        num(sequenceNumber, 8), date8(today), zeros(8), blank(33),
+      ],
+      240
+    )
+  );
+
+  let lotRecord = 0;
+  const interestStart = (installment: BoletoInstallment) => chargesStartDate(organization, installment.due_date);
+  const lateFeePercent = Number(organization.late_fee_percent || 0);
+
+  for (const installment of installments) {
+    const interest = dailyInterest(organization, installment.amount);
+    const payerDocument = digitsOnly(installment.payer.cpf);
+    const zipCode = num(installment.payer.zip_code, 8);
+    const documentNumber = `${installment.order_number}/${installment.installment_number}`;
+
+    lines.push(
+      record(
+        [
+          bank, "0001", "3", num(++lotRecord, 5), "P", blank(1), "01",
+          account,
+          num(installment.our_number, 20),
+          "1", "1", "1", "2", "2",
+          alpha(documentNumber, 15), date8(installment.due_date), money(installment.amount, 15),
+          zeros(5), blank(1), "04", "N", date8(today),
+          interest > 0 ? "1" : "3", interest > 0 ? date8(interestStart(installment)) : zeros(8), money(interest, 15),
+          "0", zeros(8), zeros(15),
+          zeros(15), zeros(15),
+          alpha(documentNumber, 25),
+          "3", "00", "0", "000", "09", zeros(10), blank(1),
+        ],
+        240
+      )
+    );
+
+    lines.push(
+      record(
+        [
+          bank, "0001", "3", num(++lotRecord, 5), "Q", blank(1), "01",
+          inscriptionType(payerDocument), num(payerDocument, 15),
+          alpha(installment.payer.full_name, 40), alpha(installment.payer.address, 40), blank(15),
+          zipCode.slice(0, 5), zipCode.slice(5), alpha(installment.payer.city, 15), alpha(installment.payer.state, 2),
+          "0", zeros(15), blank(40), "000", blank(20), blank(8),
+        ],
+        240
+      )
+    );
+
+    lines.push(
+      record(
+        [
+          bank, "0001", "3", num(++lotRecord, 5), "R", blank(1), "01",
+          "0", zeros(8), zeros(15), "0", zeros(8), zeros(15),
+          lateFeePercent > 0 ? "2" : "0",
+          lateFeePercent > 0 ? date8(interestStart(installment)) : zeros(8),
+          money(lateFeePercent, 15),
+          blank(10), blank(40), blank(40), blank(20),
+          zeros(8), "000", zeros(5), blank(1), zeros(12), blank(1), blank(1), "0", blank(9),
+        ],
+        240
+      )
+    );
+  }
+
+  // Registros do lote: header + detalhes + trailer
+  lines.push(record([bank, "0001", "5", blank(9), num(lotRecord + 2, 6), blank(217)], 240));
+  lines.push(record([bank, "9999", "9", blank(9), num(1, 6), num(lines.length + 1, 6), zeros(6), blank(205)], 240));
+
+  return lines;
+}
+
+/**
+ * Remessa CNAB 400 (layout base Itaú): header, um registro de detalhe por título e trailer.
+ * Agência com 4 e conta com 5 dígitos; outros bancos podem exigir ajustes de posições.
+ *
+ * EN: Builds a CNAB 400 remittance (Itaú-based layout): header, one detail per boleto and trailer.
+ */
+export function buildCnab400Remittance({ organization, generatedAt, installments }: RemittanceInput): string[] {
+  const bank = num(organization.boleto_bank_code, 3);
+  const companyDocument = digitsOnly(organization.cnpj);
+  const account = [
+    num(organization.boleto_agency, 4),
+    zeros(2),
+    num(organization.boleto_account, 5),
+    alpha(organization.boleto_account_digit, 1),
+  ].join("");
+  const today = format(generatedAt, "yyyy-MM-dd");
+  const lines: string[] = [];
+
+  lines.push(
+    record(
+      [
+        "0", "1", "REMESSA", "01", alpha("COBRANCA", 15),
+        account, blank(8),
+        alpha(organization.legal_name || organization.name, 30), bank, alpha(bankName(organization.boleto_bank_code), 15),
+        date6(today), blank(294), num(1, 6),
+      ],
+      400
+    )
+  );
+
+  for (const installment of installments) {
+    const payerDocument = digitsOnly(installment.payer.cpf);
+    const documentNumber = `${installment.order_number}/${installment.installment_number}`;
+
+    lines.push(
+      record(
+        [
+          "1", companyDocument.length === 11 ? "01" : "02", num(companyDocument, 14),
+          account, blank(4), zeros(4),
+          alpha(documentNumber, 25), num(installment.our_number, 8), zeros(13),
+          num(organization.boleto_wallet, 3), blank(21), "I", "01",
+          alpha(documentNumber, 10), date6(installment.due_date), money(installment.amount, 13),
+          bank, zeros(5), "08", "N", date6(today), "00", "00",
+          money(dailyInterest(organization, installment.amount), 13),
+          zeros(6), zeros(13), zeros(13), zeros(13),
+          payerDocument.length === 14 ? "02" : "01", num(payerDocument, 14),
+          alpha(installment.payer.full_name, 30), blank(10), alpha(installment.payer.address, 40), blank(12),
+          num(installment.payer.zip_code, 8), alpha(installment.payer.city, 15), alpha(installment.payer.state, 2),
+          blank(30), blank(4), zeros(6), "00", blank(1), num(lines.length + 1, 6),
+        ],
+        400
+      )
+    );
+  }
+
+  lines.push(record(["9", blank(393), num(lines.length + 1, 6)], 400));
+  return lines;
+}
+
+/**
+ * Conteúdo do arquivo de remessa no layout da organização (linhas terminadas em CRLF).
+ * EN: Remittance file content in the organization layout (CRLF line endings).
+ */
+export function buildRemittance(layout: CnabLayout, input: RemittanceInput): string {
+  const lines = layout === "cnab240" ? buildCnab240Remittance(input) : buildCnab400Remittance(input);
+  return lines.join("\r\n") + "\r\n";
+}
+
+const field = (line: string, start: number, end: number) => line.slice(start - 1, end);
+
+const parseMoney = (value: string) => (/^\d+$/.test(value) ? Number(value) / 100 : 0);
+
+const parseOurNumber = (value: string) => {
+  const digits = digitsOnly(value);
+  return digits ? Number(digits) : null;
+};
+
+/**
+ * Data DDMMAAAA ou DDMMAA do arquivo para YYYY-MM-DD; null quando zerada.
+ * Entrada: "15032025" → "2025-03-15"; "150325" → "2025-03-15"
+ */
+function parseCnabDate(value: string): string | null {
+  if (!/^\d+$/.test(value) || Number(value) === 0) return null;
+  const day = value.slice(0, 2);
+  const month = value.slice(2, 4);
+  const year = value.length === 8 ? value.slice(4, 8) : `20${value.slice(4, 6)}`;
+  const iso = `${year}-${month}-${day}`;
+  return Number.isNaN(Date.parse(iso)) ? null : iso;
+}
+
+/**
+ * Lê um arquivo de retorno CNAB 240 (segmentos T e U) ou CNAB 400 (detalhe tipo 1).
+ * O layout é identificado pelo tamanho das linhas.
+ *
+ * EN: Parses a CNAB 240 (segments T/U) or CNAB 400 return file; the layout is detected by line length.
+ */
+export function parseCnabReturn(text: string): ParsedCnabReturn {
+  const lines = text.split(/\r?\n/).map((line) => line.replace(/\r$/, ""));
+  const header = lines[0] ?? "";
+
+  if (header.length >= 400) {
+    if (header[0] !== "0" || header[1] !== "2") {
+      throw new Error("O arquivo não é um retorno CNAB 400");
+    }
+    const items: CnabReturnItem[] = [];
+    lines.forEach((line, index) => {
+      if (line[0] !== "1" || line.length < 400) return;
+      items.push({
+        lineNumber: index + 1,
+        ourNumber: parseOurNumber(field(line, 63, 70)),
+        occurrenceCode: field(line, 109, 110),
+        amount: parseMoney(field(line, 153, 165)),
+        // Valor principal + juros de mora/multa
+        paidAmount: roundCents(parseMoney(field(line, 254, 266)) + parseMoney(field(line, 267, 279))),
+        occurrenceDate: parseCnabDate(field(line, 111, 116)),
+        creditDate: parseCnabDate(field(line, 296, 301)),
+      });
+    });
+    return { layout: "cnab400", bankCode: field(header, 77, 79), items };
+  }
+
+  if (header.length >= 240) {
+    if (field(header, 8, 8) !== "0" || field(header, 143, 143) !== "2") {
+      throw new Error("O arquivo não é um retorno CNAB 240");
+    }
+    const items: CnabReturnItem[] = [];
+    lines.forEach((line, index) => {
+      if (field(line, 8, 8) !== "3") return;
+      const segment = field(line, 14, 14);
+      if (segment === "T") {
+        items.push({
+          lineNumber: index + 1,
+          ourNumber: parseOurNumber(field(line, 38, 57)),
+          occurrenceCode: field(line, 16, 17),
+          amount: parseMoney(field(line, 82, 96)),
+          paidAmount: 0,
+          occurrenceDate: null,
+          creditDate: null,
+        });
+      } else if (segment === "U" && items.length > 0) {
+        const item = items[items.length - 1];
+        item.paidAmount = parseMoney(field(line, 78, 92));
+        item.occurrenceDate = parseCnabDate(field(line, 138, 145));
+        item.creditDate = parseCnabDate(field(line, 146, 153));
+      }
+    });
+    return { layout: "cnab240", bankCode: field(header, 1, 3), items };
+  }
+
+  throw new Error("Arquivo CNAB inválido: as linhas devem ter 240 ou 400 posições");
+}
+
+/**
+ * Retorna a mensagem do banco para erros de regra da remessa (conta não configurada,
+ * parcela fora de aberto), ou null para outros erros.
+ *
+ * EN: Returns the database message for remittance rule violations, or null otherwise.
+ */
+export function getCnabErrorMessage(error: { message?: string; hint?: string } | null | undefined): string | null {
+  if (!error?.message) return null;
+  return CNAB_HINTS.includes(error.hint ?? "") ? error.message : null;
+}
+
+/**
+ * Carrega a conta de cobrança, os dados do beneficiário e as regras de atraso da organização.
+ * EN: Loads the organization billing account, beneficiary data and late fee rules.
+ */
+export async function loadRemittanceOrganization(organizationId: string): Promise<RemittanceOrganization | null> {
+  const { data } = await supabase
+    .from("organizations")
+    .select(`
+      name, legal_name, cnpj,
+      boleto_bank_code, boleto_agency, boleto_agency_digit, boleto_account, boleto_account_digit,
+      boleto_wallet, boleto_agreement_code, boleto_cnab_layout,
+      late_fee_percent, late_interest_percent, late_interest_period, late_fee_grace_days
+    `)
+    .eq("id", organizationId)
+    .maybeSingle();
+  return isBoletoConfigured(data) ? data : null;
+}
+
+/**
+ * Lista os arquivos de remessa e retorno, do mais recente para o mais antigo (sem o conteúdo).
+ * EN: Lists remittance and return files, newest first (without content).
+ */
+export async function listCnabFiles(organizationId: string) {
+  const { data, error } = await supabase
+    .from("cnab_files")
+    .select("id, file_type, layout, file_name, sequence_number, total_lines, processed_lines, error_lines, total_amount, created_at")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false });
+  return { files: data ?? [], error };
+}
+
+/**
+ * Linhas processadas de um arquivo com o pedido e a parcela correspondentes.
+ * EN: Processed lines of a file with the matching order and installment.
+ */
+export async function listCnabFileLines(fileId: string) {
+  const { data, error } = await supabase
+    .from("cnab_file_lines")
+    .select("*, installment:installments(installment_number, total_installments, payments(order_id, orders(order_number)))")
+    .eq("file_id", fileId)
+    .order("line_number", { ascending: true });
+  return { lines: data ?? [], error };
+}
+
+/**
+ * Baixa o conteúdo de um arquivo registrado (para reenviar a remessa ao banco).
+ * EN: Returns the stored file content (to download a remittance again).
+ */
+export async function loadCnabFileContent(fileId: string) {
+  const { data, error } = await supabase.from("cnab_files").select("file_name, content").eq("id", fileId).single();
+  return { file: data, error };
+}
+
+/**
+ * Gera a remessa das parcelas selecionadas:
+ * 1. O banco numera a remessa e atribui o nosso número (create_boleto_remittance).
+ * 2. O arquivo é montado no layout da organização com o saldo em aberto de cada parcela.
+ * 3. Uma linha por parcela e, por último, o conteúdo ficam registrados no histórico.
+ * Se a montagem ou a gravação falhar, a remessa é descartada (discard_boleto_remittance)
+ * e as parcelas voltam a ficar como antes.
+ *
+ * EN: Generates a remittance for the selected installments and stores it with one line per installment.
+ * When building or saving fails, the remittance is discarded and the installments are restored.
+ */
+export async function generateBoletoRemittance(organizationId: string, installmentIds: string[]) {
+  const { data: fileId, error: rpcError } = await supabase.rpc("create_boleto_remittance", {
+    _organization_id: organizationId,
+    _installment_ids: installmentIds,
+  });
+  if (rpcError || !fileId) return { file: null, content: null, error: rpcError };
+
+  let result: Awaited<ReturnType<typeof writeRemittanceFile>>;
+  try {
+    result = await writeRemittanceFile(organizationId, fileId);
+  } catch (error) {
+    result = { file: null, content: null, error: { message: error instanceof Error ? error.message : String(error) } };
+  }
+
+  if (result.error) {
+    await supabase.rpc("discard_boleto_remittance", { _file_id: fileId });
+  }
+  return result;
+}
+
+/**
+ * Monta o arquivo de uma remessa recém-numerada e grava as linhas e o conteúdo.
+ * EN: Builds a freshly numbered remittance file and stores its lines and content.
+ */
+async function writeRemittanceFile(organizationId: string, fileId: string) {
+  const organization = await loadRemittanceOrganization(organizationId);
+  const [{ data: file, error: fileError }, { data: rows, error: installmentsError }] = await Promise.all([
+    supabase.from("cnab_files").select("*").eq("id", fileId).single(),
+    supabase
+      .from("installments")
+      .select(`
+        id, installment_number, total_installments, amount, paid_amount, due_date, boleto_our_number,
+        payments(orders(order_number, customers(full_name, cpf, address, city, state, zip_code)))
+      `)
+      .eq("boleto_remittance_id", fileId)
+      .order("due_date", { ascending: true }),
+  ]);
+  const loadError = fileError ?? installmentsError;
+  if (loadError || !file || !organization) {
+    return { file: null, content: null, error: loadError ?? { message: "Conta de cobrança não configurada" } };
+  }
+
+  const installments: BoletoInstallment[] = (rows ?? []).map((row) => ({
+    id: row.id,
+    installment_number: row.installment_number,
+    total_installments: row.total_installments,
+    amount: getInstallmentBalance(row),
+    due_date: row.due_date,
+    our_number: Number(row.boleto_our_number),
+    order_number: row.payments?.orders?.order_number ?? "",
+    payer: row.payments?.orders?.customers ?? {
+      full_name: "",
+      cpf: null,
+      address: null,
+      city: null,
+      state: null,
+      zip_code: null,
+    },
+  }));
+
+  const content = buildRemittance(file.layout, {
+    organization,
+    sequenceNumber: file.sequence_number ?? 0,
+    generatedAt: new Date(),
+    installments,
+  });
+  const totalAmount = roundCents(installments.reduce((sum, installment) => sum + installment.amount, 0));
+
+  const { error: linesError } = await supabase.from("cnab_file_lines").insert(
+    installments.map((installment, index) => ({
+      file_id: file.id,
+      organization_id: organizationId,
+      line_number: index + 1,
+      installment_id: installment.id,
+      our_number: installment.our_number,
+      amount: installment.amount,
+      outcome: "registered" as const,
+      message: `Vencimento ${format(parseISO(installment.due_date), "dd/MM/yyyy")}`,
+    }))
+  );
+  if (linesError) return { file: null, content: null, error: linesError };
+
+  const { data: saved, error: saveError } = await supabase
+    .from("cnab_files")
+    .update({
+      content,
+      total_lines: installments.length,
+      processed_lines: installments.length,
+      total_amount: totalAmount,
+    })
+    .eq("id", file.id)
+    .select()
+    .single();
+
+  return { file: saved, content: saveError ? null : content, error: saveError };
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Lê o arquivo de retorno como texto (arquivos CNAB são ASCII/Windows-1252).
+ * EN: Reads the return file as text (CNAB files are ASCII/Windows-1252).
+ */
+export async function readCnabFile(file: File): Promise<string> {
+  return new TextDecoder("windows-1252").decode(await file.arrayBuffer());
+}
+
+type ReturnInstallment = {
+  id: string;
+  organization_id: string;
+  amount: number;
+  paid_amount: number | null;
+  due_date: string;
+  status: string;
+  boleto_our_number: number | null;
+};
+
+/**
+ * Processa um arquivo de retorno:
+ * - Liquidação: lança o valor pago na parcela do nosso número (método "Boleto", data do pagamento),
+ *   com o excedente ao saldo como multa e juros.
+ * - Entrada confirmada / rejeitada e demais ocorrências ficam apenas registradas.
+ * O mesmo arquivo não pode ser processado duas vezes.
+ *
+ * EN: Processes a return file, settling installments on liquidation occurrences and logging every line.
+ * The same file (by SHA-256) cannot be processed twice.
+ */
+export async function processCnabReturn(
+  text: string,
+  context: { organizationId: string; userId: string; fileName: string; bankCode: string | null }
+) {
+  const parsed = parseCnabReturn(text);
+  if (context.bankCode && parsed.bankCode !== context.bankCode) {
+    throw new Error(`Arquivo do banco ${parsed.bankCode}; a conta de cobrança é do banco ${context.bankCode}`);
+  }
+
+  const { data: file, error: fileError } = await supabase
+    .from("cnab_files")
+    .insert({
+      organization_id: context.organizationId,
+      file_type: "return",
+      layout: parsed.layout,
+      file_name: context.fileName,
+      content: text,
+      content_hash: await sha256(text),
+      total_lines: parsed.items.length,
+      created_by: context.userId,
+    })
+    .select()
+    .single();
+  if (fileError || !file) {
+    const duplicate = fileError?.code === "23505";
+    return {
+      file: null,
+      counts: null,
+      error: duplicate ? { ...fileError, message: "Este arquivo de retorno já foi processado" } : fileError,
+    };
+  }
+
+  const ourNumbers = parsed.items.map((item) => item.ourNumber).filter((value): value is number => value !== null);
+  const [{ data: installments }, lateFeeSettings] = await Promise.all([
+    ourNumbers.length > 0
+      ? supabase
+          .from("installments")
+          .select("id, organization_id, amount, paid_amount, due_date, status, boleto_our_number")
+          .eq("organization_id", context.organizationId)
+          .in("boleto_our_number", ourNumbers)
+      : Promise.resolve({ data: [] as ReturnInstallment[] }),
+    loadLateFeeSettings(context.organizationId),
+  ]);
+  const byOurNumber = new Map((installments ?? []).map((installment) => [Number(installment.boleto_our_number), installment]));
+
+  const settlementCodes = SETTLEMENT_CODES[parsed.layout];
+  const counts: Record<CnabLineOutcome, number> = {
+    registered: 0,
+    confirmed: 0,
+    settled: 0,
+    already_paid: 0,
+    not_found: 0,
+    rejected: 0,
+    ignored: 0,
+    error: 0,
+  };
+  let settledAmount = 0;
+  const lines: Omit<CnabFileLine, "id" | "created_at">[] = [];
+
+  for (const item of parsed.items) {
+    const installment = item.ourNumber !== null ? byOurNumber.get(item.ourNumber) : undefined;
+    const description = describeCnabOccurrence(parsed.layout, item.occurrenceCode);
+    let outcome: CnabLineOutcome = "ignored";
+    let message = description;
+    let paymentId: string | null = null;
+
+    if (item.occurrenceCode === REJECTION_CODE) {
+      outcome = "rejected";
+    } else if (!installment) {
+      outcome = item.occurrenceCode === CONFIRMATION_CODE || settlementCodes.includes(item.occurrenceCode) ? "not_found" : "ignored";
+    } else if (item.occurrenceCode === CONFIRMATION_CODE) {
+      outcome = "confirmed";
+    } else if (settlementCodes.includes(item.occurrenceCode)) {
+      if (installment.status === "paid" || installment.status === "cancelled" || getInstallmentBalance(installment) === 0) {
+        outcome = "already_paid";
+      } else {
+        const paymentDate = item.occurrenceDate ?? item.creditDate ?? todayDateOnly();
+        const split = splitReceivedAmount(item.paidAmount || item.amount, installment, paymentDate, lateFeeSettings);
+        const { data: payment, error } = await recordInstallmentPayment(installment, {
+          amount: split.principal,
+          payment_date: paymentDate,
+          payment_method: "Boleto",
+          late_fee_amount: split.late_fee_amount,
+          interest_amount: split.interest_amount,
+          notes: `Retorno CNAB ${context.fileName}: nosso número ${item.ourNumber}`,
+        });
+        if (error || !payment) {
+          outcome = "error";
+          message = getInstallmentPaymentMessage(error) ?? error?.message ?? "Erro ao lançar recebimento";
+        } else {
+          outcome = "settled";
+          paymentId = payment.id;
+          if (split.unapplied > 0) {
+            message = `${description}; ${formatCurrency(split.unapplied)} acima do saldo com multa e juros não foi lançado`;
+          }
+          settledAmount += split.principal;
+          installment.paid_amount = Number(installment.paid_amount || 0) + split.principal;
+        }
+      }
+    }
+
+    counts[outcome] += 1;
+    lines.push({
+      file_id: file.id,
+      organization_id: context.organizationId,
+      line_number: item.lineNumber,
+      installment_id: installment?.id ?? null,
+      our_number: item.ourNumber,
+      occurrence_code: item.occurrenceCode,
+      amount: item.amount,
+      paid_amount: item.paidAmount,
+      occurrence_date: item.occurrenceDate,
+      outcome,
+      message,
+      installment_payment_id: paymentId,
+    });
+  }
+
+  const errorLines = counts.error + counts.not_found + counts.rejected;
+  const [{ error: linesError }, { data: saved, error: updateError }] = await Promise.all([
+    lines.length > 0 ? supabase.from("cnab_file_lines").insert(lines) : Promise.resolve({ error: null }),
+    supabase
+      .from("cnab_files")
+      .update({
+        processed_lines: parsed.items.length - errorLines,
+        error_lines: errorLines,
+        total_amount: roundCents(settledAmount),
+      })
+      .eq("id", file.id)
+      .select()
+      .single(),
+  ]);
+
+  return { file: saved ?? file, counts, error: linesError ?? updateError };
+}
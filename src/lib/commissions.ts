@@ -0,0 +1,184 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { CommissionStatus } from "@/lib/constants";
+import type { CommissionRuleFormData } from "@/lib/validations";
+import { roundCents } from "@/lib/utils";
+
+export type CommissionRule = Tables<"commission_rules"> & {
+  agent: { full_name: string | null } | null;
+  package: { name: string } | null;
+};
+
+export type CommissionEntry = Tables<"commission_entries"> & {
+  agent: { full_name: string | null; email: string | null } | null;
+  order: { order_number: string; customers: { full_name: string } | null } | null;
+};
+
+export interface OrganizationAgent {
+  user_id: string;
+  full_name: string;
+}
+
+export interface AgentCommissionSummary {
+  user_id: string;
+  agent_name: string;
+  entries: number;
+  base_amount: number;
+  amount: number;
+  pending_amount: number;
+  paid_amount: number;
+}
+
+/**
+ * Escopo da regra para exibição: agente e/ou pacote, ou padrão da organização.
+ * Entrada: { agent: { full_name: "Ana" }, package: null } → "Ana · todos os pacotes"
+ *
+ * EN: Human-readable rule scope (agent and/or package, or organization default).
+ */
+export function describeCommissionScope(rule: Pick<CommissionRule, "agent" | "package" | "user_id" | "package_id">) {
+  if (!rule.user_id && !rule.package_id) return "Padrão da organização";
+  const agent = rule.user_id ? rule.agent?.full_name || "Agente" : "Todos os agentes";
+  const pkg = rule.package_id ? rule.package?.name || "Pacote" : "todos os pacotes";
+  return `${agent} · ${pkg}`;
+}
+
+/**
+ * Membros que podem vender (todos exceto visualizadores), em ordem alfabética.
+ * EN: Members who can sell (everyone but viewers), sorted by name.
+ */
+export async function loadOrganizationAgents(organizationId: string) {
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("user_id, role, profiles!organization_members_user_id_fkey(full_name, email)")
+    .eq("organization_id", organizationId)
+    .neq("role", "viewer");
+
+  const agents: OrganizationAgent[] = (data ?? [])
+    .map((member) => ({
+      user_id: member.user_id,
+      full_name: member.profiles?.full_name || member.profiles?.email || "Sem nome",
+    }))
+    .sort((a, b) => a.full_name.localeCompare(b.full_name, "pt-BR"));
+  return { agents, error };
+}
+
+/**
+ * Regras de comissão ordenadas por escopo (padrão, agente, pacote) e faixa.
+ * EN: Commission rules ordered by scope and tier.
+ */
+export async function loadCommissionRules(organizationId: string) {
+  const { data, error } = await supabase
+    .from("commission_rules")
+    .select("*, agent:profiles(full_name), package:travel_packages(name)")
+    .eq("organization_id", organizationId)
+    .order("min_order_amount", { ascending: true });
+
+  const rank = (rule: Tables<"commission_rules">) => (rule.user_id ? 1 : 0) + (rule.package_id ? 2 : 0);
+  const rules = ((data ?? []) as CommissionRule[]).sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      describeCommissionScope(a).localeCompare(describeCommissionScope(b), "pt-BR") ||
+      Number(a.min_order_amount) - Number(b.min_order_amount)
+  );
+  return { rules, error };
+}
+
+/**
+ * Inclui uma faixa de comissão.
+ * EN: Adds a commission rule tier.
+ */
+export async function createCommissionRule(organizationId: string, values: CommissionRuleFormData) {
+  return supabase.from("commission_rules").insert({
+    organization_id: organizationId,
+    user_id: values.user_id,
+    package_id: values.package_id,
+    min_order_amount: roundCents(values.min_order_amount),
+    commission_percent: values.commission_percent,
+  });
+}
+
+/**
+ * Remove uma faixa de comissão (comissões já lançadas não são alteradas).
+ * EN: Removes a commission rule tier (existing entries are kept).
+ */
+export async function deleteCommissionRule(ruleId: string) {
+  return supabase.from("commission_rules").delete().eq("id", ruleId);
+}
+
+/**
+ * Comissões lançadas no período (data de referência), opcionalmente por agente e status.
+ * Agentes só recebem as próprias comissões (RLS).
+ *
+ * EN: Commission entries in the period (by reference date), optionally by agent and status.
+ * Agents only get their own entries (RLS).
+ */
+export async function listCommissionEntries(
+  organizationId: string,
+  filters: { startDate?: string; endDate?: string; userId?: string | null; status?: CommissionStatus | "all" }
+) {
+  let query = supabase
+    .from("commission_entries")
+    .select(`
+      *,
+      agent:profiles!commission_entries_user_id_fkey(full_name, email),
+      order:orders(order_number, customers(full_name))
+    `)
+    .eq("organization_id", organizationId);
+
+  if (filters.startDate) query = query.gte("reference_date", filters.startDate);
+  if (filters.endDate) query = query.lte("reference_date", filters.endDate);
+  if (filters.userId) query = query.eq("user_id", filters.userId);
+  if (filters.status && filters.status !== "all") query = query.eq("status", filters.status);
+
+  const { data, error } = await query
+    .order("reference_date", { ascending: true })
+    .order("created_at", { ascending: true });
+  return { entries: (data ?? []) as CommissionEntry[], error };
+}
+
+/**
+ * Totais por agente; comissões canceladas não entram nos valores.
+ * EN: Per-agent totals; cancelled entries are left out of the amounts.
+ */
+export function summarizeCommissionsByAgent(entries: CommissionEntry[]): AgentCommissionSummary[] {
+  const byAgent = new Map<string, AgentCommissionSummary>();
+  for (const entry of entries) {
+    if (entry.status === "cancelled") continue;
+    const summary = byAgent.get(entry.user_id) ?? {
+      user_id: entry.user_id,
+      agent_name: entry.agent?.full_name || entry.agent?.email || "Sem nome",
+      entries: 0,
+      base_amount: 0,
+      amount: 0,
+      pending_amount: 0,
+      paid_amount: 0,
+    };
+    summary.entries += 1;
+    summary.base_amount = roundCents(summary.base_amount + Number(entry.base_amount));
+    summary.amount = roundCents(summary.amount + Number(entry.amount));
+    if (entry.status === "paid") summary.paid_amount = roundCents(summary.paid_amount + Number(entry.amount));
+    else summary.pending_amount = roundCents(summary.pending_amount + Number(entry.amount));
+    byAgent.set(entry.user_id, summary);
+  }
+  return [...byAgent.values()].sort((a, b) => a.agent_name.localeCompare(b.agent_name, "pt-BR"));
+}
+
+/**
+ * Marca comissões a pagar como pagas na data informada.
+ * EN: Marks pending commissions as paid on the given date.
+ */
+export async function markCommissionsPaid(entryIds: string[], paidDate: string) {
+  return supabase
+    .from("commission_entries")
+    .update({ status: "paid", paid_date: paidDate })
+    .in("id", entryIds)
+    .eq("status", "pending");
+}
+
+/**
+ * Reabre (estorna o pagamento) ou cancela uma comissão; os dados de pagamento são limpos pelo banco.
+ * EN: Reopens (reverses payment) or cancels a commission; payment data is cleared by the database.
+ */
+export async function setCommissionStatus(entryId: string, status: "pending" | "cancelled") {
+  return supabase.from("commission_entries").update({ status }).eq("id", entryId);
+}
@@ -3,6 +3,195 @@ export const PAYMENT_METHODS = [
   { value: "PIX", label: "PIX" },
   { value: "Boleto", label: "Boleto" },
   { value: "Depósito", label: "Depósito" },
+  { value: "Cartão de Crédito", label: "Cartão de Crédito" },
 ] as const;
 
 export type PaymentMethod = typeof PAYMENT_METHODS[number]["value"];
+
+export const PASSENGER_DOCUMENT_TYPES = [
+  { value: "RG", label: "RG" },
+  { value: "Passaporte", label: "Passaporte" },
+  { value: "CNH", label: "CNH" },
+  { value: "Certidão de Nascimento", label: "Certidão de Nascimento" },
+] as const;
+
+export type PassengerDocumentType = typeof PASSENGER_DOCUMENT_TYPES[number]["value"];
+
+export const DEPARTURE_STATUS_OPTIONS = [
+  { value: "open", label: "Aberta" },
+  { value: "closed", label: "Encerrada" },
+  { value: "cancelled", label: "Cancelada" },
+] as const;
+
+export type DepartureStatus = typeof DEPARTURE_STATUS_OPTIONS[number]["value"];
+
+export const QUOTE_STATUS_OPTIONS = [
+  { value: "draft", label: "Rascunho" },
+  { value: "sent", label: "Enviado" },
+  { value: "accepted", label: "Aceito" },
+  { value: "rejected", label: "Recusado" },
+  { value: "converted", label: "Convertido" },
+] as const;
+
+export type QuoteStatus = typeof QUOTE_STATUS_OPTIONS[number]["value"];
+
+export const ORDER_ITEM_TYPE_OPTIONS = [
+  { value: "package", label: "Pacote" },
+  { value: "insurance", label: "Seguro viagem" },
+  { value: "transfer", label: "Traslado" },
+  { value: "room_upgrade", label: "Upgrade de quarto" },
+  { value: "fee", label: "Taxa" },
+  { value: "discount", label: "Desconto" },
+  { value: "other", label: "Outros" },
+] as const;
+
+export type OrderItemType = typeof ORDER_ITEM_TYPE_OPTIONS[number]["value"];
+
+export const ORDER_STATUS_OPTIONS = [
+  { value: "pending", label: "Pendente" },
+  { value: "confirmed", label: "Confirmado" },
+  { value: "completed", label: "Concluído" },
+  { value: "cancelled", label: "Cancelado" },
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUS_OPTIONS[number]["value"];
+
+export const REFUND_STATUS_OPTIONS = [
+  { value: "pending", label: "A devolver" },
+  { value: "completed", label: "Devolvido" },
+] as const;
+
+export type RefundStatus = typeof REFUND_STATUS_OPTIONS[number]["value"];
+
+export const ORDER_DOCUMENT_TYPE_OPTIONS = [
+  { value: "contract", label: "Contrato" },
+  { value: "voucher", label: "Voucher" },
+  { value: "receipt", label: "Recibo" },
+] as const;
+
+export const CUSTOMER_DOCUMENT_TYPE_OPTIONS = [
+  { value: "passport", label: "Passaporte" },
+  { value: "visa", label: "Visto" },
+  { value: "rg", label: "RG" },
+  { value: "cnh", label: "CNH" },
+  { value: "other", label: "Outro" },
+] as const;
+
+export type CustomerDocumentType = typeof CUSTOMER_DOCUMENT_TYPE_OPTIONS[number]["value"];
+
+export const PIX_KEY_TYPE_OPTIONS = [
+  { value: "cpf", label: "CPF" },
+  { value: "cnpj", label: "CNPJ" },
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Telefone" },
+  { value: "random", label: "Chave aleatória" },
+] as const;
+
+export type PixKeyType = typeof PIX_KEY_TYPE_OPTIONS[number]["value"];
+
+export const LATE_INTEREST_PERIOD_OPTIONS = [
+  { value: "daily", label: "ao dia" },
+  { value: "monthly", label: "ao mês" },
+] as const;
+
+export type LateInterestPeriod = typeof LATE_INTEREST_PERIOD_OPTIONS[number]["value"];
+
+export const INSTALLMENT_INTERVAL_OPTIONS = [
+  { value: "monthly", label: "Mensal" },
+  { value: "biweekly", label: "Quinzenal" },
+  { value: "weekly", label: "Semanal" },
+  { value: "day_of_month", label: "Dia fixo do mês" },
+] as const;
+
+export type InstallmentInterval = typeof INSTALLMENT_INTERVAL_OPTIONS[number]["value"];
+
+export const BANK_ENTRY_STATUS_OPTIONS = [
+  { value: "pending", label: "A conciliar" },
+  { value: "matched", label: "Conciliado" },
+  { value: "ignored", label: "Ignorado" },
+] as const;
+
+export type BankEntryStatus = typeof BANK_ENTRY_STATUS_OPTIONS[number]["value"];
+
+export const BOLETO_BANK_OPTIONS = [
+  { value: "001", label: "001 - Banco do Brasil" },
+  { value: "033", label: "033 - Santander" },
+  { value: "104", label: "104 - Caixa Econômica Federal" },
+  { value: "237", label: "237 - Bradesco" },
+  { value: "341", label: "341 - Itaú" },
+  { value: "748", label: "748 - Sicredi" },
+  { value: "756", label: "756 - Sicoob" },
+] as const;
+
+export const CNAB_LAYOUT_OPTIONS = [
+  { value: "cnab240", label: "CNAB 240 (FEBRABAN)" },
+  { value: "cnab400", label: "CNAB 400" },
+] as const;
+
+export type CnabLayout = typeof CNAB_LAYOUT_OPTIONS[number]["value"];
+
+export const CNAB_LINE_OUTCOME_OPTIONS = [
+  { value: "registered", label: "Enviada" },
+  { value: "confirmed", label: "Entrada confirmada" },
+  { value: "settled", label: "Liquidada" },
+  { value: "already_paid", label: "Já quitada" },
+  { value: "not_found", label: "Não encontrada" },
+  { value: "rejected", label: "Rejeitada" },
+  { value: "ignored", label: "Ignorada" },
+  { value: "error", label: "Erro" },
+] as const;
+
+export type CnabLineOutcome = typeof CNAB_LINE_OUTCOME_OPTIONS[number]["value"];
+
+export const SUPPLIER_CATEGORY_OPTIONS = [
+  { value: "hotel", label: "Hospedagem" },
+  { value: "transport", label: "Transporte" },
+  { value: "guide", label: "Guia" },
+  { value: "attraction", label: "Passeios e ingressos" },
+  { value: "insurance", label: "Seguro viagem" },
+  { value: "agency", label: "Operadora / agência" },
+  { value: "other", label: "Outros" },
+] as const;
+
+export type SupplierCategory = typeof SUPPLIER_CATEGORY_OPTIONS[number]["value"];
+
+// "overdue" é derivado: conta em aberto com vencimento passado
+export const PAYABLE_STATUS_OPTIONS = [
+  { value: "pending", label: "Em aberto" },
+  { value: "overdue", label: "Vencida" },
+  { value: "paid", label: "Paga" },
+  { value: "cancelled", label: "Cancelada" },
+] as const;
+
+export type PayableStatusFilter = typeof PAYABLE_STATUS_OPTIONS[number]["value"];
+
+export const CASH_FLOW_GRANULARITY_OPTIONS = [
+  { value: "day", label: "Diário" },
+  { value: "week", label: "Semanal" },
+  { value: "month", label: "Mensal" },
+] as const;
+
+export type CashFlowGranularity = typeof CASH_FLOW_GRANULARITY_OPTIONS[number]["value"];
+
+// Horizonte da projeção do fluxo de caixa, em dias a partir de hoje
+export const CASH_FLOW_HORIZON_OPTIONS = [
+  { value: "30", label: "30 dias" },
+  { value: "90", label: "90 dias" },
+  { value: "180", label: "6 meses" },
+  { value: "365", label: "12 meses" },
+] as const;
+
+export const COMMISSION_BASIS_OPTIONS = [
+  { value: "order_confirmed", label: "Na confirmação do pedido" },
+  { value: "installment_received", label: "No recebimento das parcelas" },
+] as const;
+
+export type CommissionBasis = typeof COMMISSION_BASIS_OPTIONS[number]["value"];
+
+export const COMMISSION_STATUS_OPTIONS = [
+  { value: "pending", label: "A pagar" },
+  { value: "paid", label: "Paga" },
+  { value: "cancelled", label: "Cancelada" },
+] as const;
+
+export type CommissionStatus = typeof COMMISSION_STATUS_OPTIONS[number]["value"];
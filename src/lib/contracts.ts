@@ -0,0 +1,291 @@
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ORDER_ITEM_TYPE_OPTIONS } from "@/lib/constants";
+import { formatPolicyRuleRange, sortPolicyRules } from "@/lib/cancellations";
+import { formatCep, formatCnpj, formatCpf, formatCurrency, formatPhone } from "@/lib/utils";
+
+export type ContractTemplate = Tables<"contract_templates">;
+
+export interface ContractData {
+  order: Tables<"orders">;
+  customer: Tables<"customers">;
+  package: Tables<"travel_packages">;
+  organization: Tables<"organizations">;
+  passengers: Tables<"order_passengers">[];
+  items: Tables<"order_items">[];
+  payments: Tables<"payments">[];
+  installments: Tables<"installments">[];
+  policyRules: Tables<"cancellation_policy_rules">[];
+}
+
+/**
+ * Marcadores disponíveis nos modelos de contrato (exibidos como ajuda no editor).
+ * EN: Placeholders available in contract templates (shown as help in the editor).
+ */
+export const CONTRACT_PLACEHOLDERS = [
+  { key: "organizacao.nome", description: "Nome da agência" },
+  { key: "organizacao.razao_social", description: "Razão social da agência" },
+  { key: "organizacao.cnpj", description: "CNPJ da agência" },
+  { key: "organizacao.endereco", description: "Endereço completo da agência" },
+  { key: "cliente.nome", description: "Nome do contratante" },
+  { key: "cliente.cpf", description: "CPF do contratante" },
+  { key: "cliente.email", description: "Email do contratante" },
+  { key: "cliente.telefone", description: "Telefone do contratante" },
+  { key: "cliente.endereco", description: "Endereço completo do contratante" },
+  { key: "pedido.numero", description: "Número do pedido" },
+  { key: "pedido.data_viagem", description: "Data da viagem" },
+  { key: "pedido.viajantes", description: "Quantidade de viajantes" },
+  { key: "pedido.valor_total", description: "Valor total do pedido" },
+  { key: "pacote.nome", description: "Nome do pacote" },
+  { key: "pacote.destino", description: "Destino" },
+  { key: "pacote.duracao", description: "Duração em dias" },
+  { key: "passageiros", description: "Lista de passageiros com documento" },
+  { key: "itens", description: "Itens do pedido com valores" },
+  { key: "parcelas", description: "Cronograma de pagamento (parcelas e vencimentos)" },
+  { key: "politica_cancelamento", description: "Faixas de multa por cancelamento" },
+  { key: "data_atual", description: "Data de emissão do contrato" },
+] as const;
+
+export const DEFAULT_CONTRACT_TEMPLATE = `CONTRATANTE: {{cliente.nome}}, CPF {{cliente.cpf}}, residente em {{cliente.endereco}}, telefone {{cliente.telefone}}, email {{cliente.email}}.
+
+CONTRATADA: {{organizacao.razao_social}}, CNPJ {{organizacao.cnpj}}, com sede em {{organizacao.endereco}}.
+
+1. OBJETO
+A CONTRATADA prestará ao CONTRATANTE os serviços de turismo do pacote {{pacote.nome}}, com destino a {{pacote.destino}}, duração de {{pacote.duracao}} dias e saída em {{pedido.data_viagem}}, referente ao pedido {{pedido.numero}}.
+
+2. PASSAGEIROS
+{{passageiros}}
+
+3. PREÇO
+Itens contratados:
+{{itens}}
+
+Valor total: {{pedido.valor_total}}.
+
+4. FORMA DE PAGAMENTO
+{{parcelas}}
+
+5. CANCELAMENTO
+Em caso de desistência, será aplicada multa sobre o valor total conforme a antecedência em relação à data da viagem:
+{{politica_cancelamento}}
+
+6. DISPOSIÇÕES GERAIS
+O CONTRATANTE declara ter lido e concordado com as condições deste contrato.
+
+{{organizacao.nome}}, {{data_atual}}.
+
+
+_______________________________________
+{{cliente.nome}}
+
+
+_______________________________________
+{{organizacao.razao_social}}`;
+
+const formatDate = (date: string | null | undefined) =>
+  date ? format(new Date(`${date.slice(0, 10)}T00:00:00`), "dd/MM/yyyy") : "";
+
+const joinAddress = (parts: { address: string | null; city: string | null; state: string | null; zip_code: string | null }) =>
+  [parts.address, [parts.city, parts.state].filter(Boolean).join("/"), parts.zip_code ? `CEP ${formatCep(parts.zip_code)}` : ""]
+    .filter(Boolean)
+    .join(", ");
+
+const INSTALLMENT_STATUS_LABELS: Record<string, string> = {
+  paid: "pago",
+  partial: "parcial",
+  overdue: "em atraso",
+  cancelled: "cancelado",
+};
+
+/**
+ * Carrega todos os dados usados no contrato de um pedido.
+ * EN: Loads every piece of data used to fill an order contract.
+ */
+export async function loadContractData(orderId: string): Promise<{ data: ContractData | null; error: string | null }> {
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("*, customer:customers(*), package:travel_packages(*), organization:organizations(*)")
+    .eq("id", orderId)
+    .single();
+
+  if (orderError || !order || !order.customer || !order.package || !order.organization) {
+    return { data: null, error: "Pedido não encontrado" };
+  }
+
+  const [passengersRes, itemsRes, paymentsRes, policyRes] = await Promise.all([
+    supabase.from("order_passengers").select("*").eq("order_id", orderId).order("created_at", { ascending: true }),
+    supabase.from("order_items").select("*").eq("order_id", orderId).order("created_at", { ascending: true }),
+    supabase.from("payments").select("*").eq("order_id", orderId),
+    supabase.from("cancellation_policy_rules").select("*").eq("organization_id", order.organization_id),
+  ]);
+
+  const payments = paymentsRes.data || [];
+  const { data: installments } = payments.length
+    ? await supabase
+        .from("installments")
+        .select("*")
+        .in("payment_id", payments.map((p) => p.id))
+        .order("installment_number", { ascending: true })
+    : { data: [] as Tables<"installments">[] };
+
+  const { customer, package: travelPackage, organization, ...orderRow } = order;
+
+  return {
+    data: {
+      order: orderRow as Tables<"orders">,
+      customer,
+      package: travelPackage,
+      organization,
+      passengers: passengersRes.data || [],
+      items: itemsRes.data || [],
+      payments,
+      installments: installments || [],
+      policyRules: policyRes.data || [],
+    },
+    error: null,
+  };
+}
+
+/**
+ * Monta os valores dos marcadores a partir dos dados do pedido.
+ * EN: Builds placeholder values from the order data.
+ */
+export function buildContractContext(data: ContractData, issuedAt = new Date()): Record<string, string> {
+  const { order, customer, organization } = data;
+
+  const passengers = data.passengers.length
+    ? data.passengers
+        .map((p, i) => {
+          const document = p.cpf ? `CPF ${formatCpf(p.cpf)}` : p.document_number ? `${p.document_type} ${p.document_number}` : "";
+          return `${i + 1}. ${p.full_name}${document ? ` - ${document}` : ""}${p.birth_date ? ` - nascimento ${formatDate(p.birth_date)}` : ""}`;
+        })
+        .join("\n")
+    : "Passageiros a informar.";
+
+  const items = data.items
+    .map((item) => {
+      const typeLabel = ORDER_ITEM_TYPE_OPTIONS.find((opt) => opt.value === item.item_type)?.label || item.item_type;
+      return `- ${typeLabel}: ${item.description} (${item.quantity} x ${formatCurrency(Number(item.unit_price))}) = ${formatCurrency(Number(item.total_amount))}`;
+    })
+    .join("\n");
+
+  const schedule = data.installments.length
+    ? data.installments
+        .map((inst) => {
+          const status = INSTALLMENT_STATUS_LABELS[inst.status];
+          const label = inst.is_down_payment ? "Entrada" : `Parcela ${inst.installment_number}/${inst.total_installments}`;
+          return `${label}: ${formatCurrency(Number(inst.amount))} com vencimento em ${formatDate(inst.due_date)}${status ? ` (${status})` : ""}`;
+        })
+        .join("\n")
+    : data.payments
+        .map((p) => `Pagamento único: ${formatCurrency(Number(p.amount))} com vencimento em ${formatDate(p.due_date)}`)
+        .join("\n") || "A combinar.";
+
+  const rules = sortPolicyRules(data.policyRules);
+  const policy = rules.length
+    ? rules
+        .map((rule, i) => `- ${formatPolicyRuleRange(rule.min_days_before, rules[i - 1]?.min_days_before)}: multa de ${Number(rule.penalty_percent)}%`)
+        .join("\n")
+    : "- Sem multa por cancelamento.";
+
+  return {
+    "organizacao.nome": organization.name,
+    "organizacao.razao_social": organization.legal_name || organization.name,
+    "organizacao.cnpj": organization.cnpj ? formatCnpj(organization.cnpj) : "",
+    "organizacao.endereco": joinAddress(organization),
+    "cliente.nome": customer.full_name,
+    "cliente.cpf": customer.cpf ? formatCpf(customer.cpf) : "",
+    "cliente.email": customer.email,
+    "cliente.telefone": formatPhone(customer.phone),
+    "cliente.endereco": joinAddress(customer),
+    "pedido.numero": order.order_number,
+    "pedido.data_viagem": formatDate(order.travel_date),
+    "pedido.viajantes": String(order.number_of_travelers),
+    "pedido.valor_total": formatCurrency(Number(order.total_amount)),
+    "pacote.nome": data.package.name,
+    "pacote.destino": data.package.destination,
+    "pacote.duracao": String(data.package.duration_days),
+    passageiros: passengers,
+    itens: items,
+    parcelas: schedule,
+    politica_cancelamento: policy,
+    data_atual: format(issuedAt, "dd/MM/yyyy"),
+  };
+}
+
+/**
+ * Substitui os marcadores {{chave}} do modelo. Marcadores desconhecidos são mantidos
+ * para que erros de digitação apareçam no documento.
+ * Entrada: ("Olá {{cliente.nome}}", { "cliente.nome": "Ana" }) → Saída: "Olá Ana"
+ *
+ * EN: Replaces {{key}} placeholders; unknown ones are kept so typos stay visible.
+ */
+export function renderContractTemplate(body: string, context: Record<string, string>): string {
+  return body.replace(/\{\{\s*([a-z_.]+)\s*\}\}/g, (match, key: string) => (key in context ? context[key] : match));
+}
+
+interface ContractPdfInput {
+  title: string;
+  body: string;
+  organizationName: string;
+  logoDataUrl?: string | null;
+}
+
+/**
+ * Gera o PDF do contrato (A4) com cabeçalho da organização, quebra de páginas e numeração.
+ * EN: Builds the contract PDF (A4) with organization header, page breaks and page numbers.
+ */
+export function createContractPdf({ title, body, organizationName, logoDataUrl }: ContractPdfInput): Blob {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const lineHeight = 5;
+  const contentWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  if (logoDataUrl) {
+    try {
+      const imageFormat = logoDataUrl.startsWith("data:image/png") ? "PNG" : "JPEG";
+      doc.addImage(logoDataUrl, imageFormat, margin, y, 30, 15, undefined, "FAST");
+    } catch {
+      // Logo inválido: segue sem imagem
+    }
+  }
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(10);
+  doc.text(organizationName, pageWidth - margin, y + 8, { align: "right" });
+  y += 25;
+
+  doc.setFontSize(14);
+  doc.splitTextToSize(title, contentWidth).forEach((line: string) => {
+    doc.text(line, pageWidth / 2, y, { align: "center" });
+    y += 7;
+  });
+  y += 5;
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  body.split("\n").forEach((paragraph) => {
+    const lines: string[] = paragraph.trim() === "" ? [""] : doc.splitTextToSize(paragraph, contentWidth);
+    lines.forEach((line) => {
+      if (y > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin, y);
+      y += lineHeight;
+    });
+  });
+
+  const totalPages = doc.getNumberOfPages();
+  for (let page = 1; page <= totalPages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.text(`Página ${page} de ${totalPages}`, pageWidth / 2, pageHeight - 10, { align: "center" });
+  }
+
+  return doc.output("blob");
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { isValidCnpj, isValidCpf, isValidCpfOrCnpj } from "@/lib/cpfCnpj";
+
+describe("isValidCpf", () => {
+  it("aceita CPF com dígitos verificadores corretos, com ou sem máscara", () => {
+    expect(isValidCpf("529.982.247-25")).toBe(true);
+    expect(isValidCpf("52998224725")).toBe(true);
+  });
+
+  it("rejeita dígito verificador errado, dígitos repetidos e tamanho inválido", () => {
+    expect(isValidCpf("123.456.789-00")).toBe(false);
+    expect(isValidCpf("111.111.111-11")).toBe(false);
+    expect(isValidCpf("5299822472")).toBe(false);
+  });
+});
+
+describe("isValidCnpj", () => {
+  it("aceita CNPJ com dígitos verificadores corretos", () => {
+    expect(isValidCnpj("11.222.333/0001-81")).toBe(true);
+    expect(isValidCnpj("11222333000181")).toBe(true);
+  });
+
+  it("rejeita dígito verificador errado e dígitos repetidos", () => {
+    expect(isValidCnpj("11.222.333/0001-00")).toBe(false);
+    expect(isValidCnpj("00.000.000/0000-00")).toBe(false);
+  });
+});
+
+describe("isValidCpfOrCnpj", () => {
+  it("valida conforme a quantidade de dígitos", () => {
+    expect(isValidCpfOrCnpj("529.982.247-25")).toBe(true);
+    expect(isValidCpfOrCnpj("11.222.333/0001-81")).toBe(true);
+    expect(isValidCpfOrCnpj("529.982.247-26")).toBe(false);
+    expect(isValidCpfOrCnpj("1234")).toBe(false);
+  });
+});
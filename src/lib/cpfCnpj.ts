@@ -0,0 +1,61 @@
+/**
+ * Validação de CPF e CNPJ (dígitos verificadores, módulo 11)
+ *
+ * PT-BR: Usada pelos formulários e pela importação de clientes. Máscara é ignorada:
+ * "123.456.789-09" e "12345678909" são equivalentes; o banco guarda somente os dígitos.
+ *
+ * EN: CPF/CNPJ check digit validation used by forms and the customer import.
+ * Masks are ignored; the database stores digits only.
+ */
+
+const onlyDigits = (value: string) => value.replace(/\D/g, "");
+
+/** Todos os dígitos iguais ("111.111.111-11") passam no cálculo, mas não são válidos. */
+const isRepeatedDigits = (digits: string) => /^(\d)\1*$/.test(digits);
+
+/**
+ * Dígito verificador módulo 11 para os pesos informados.
+ * EN: Modulo-11 check digit for the given weights.
+ */
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+/**
+ * CPF válido (11 dígitos com os dois dígitos verificadores corretos).
+ * Entrada: "529.982.247-25" → true | "123.456.789-00" → false
+ *
+ * EN: Valid CPF (11 digits with both check digits correct).
+ */
+export function isValidCpf(value: string | null | undefined): boolean {
+  const digits = onlyDigits(value ?? "");
+  if (digits.length !== 11 || isRepeatedDigits(digits)) return false;
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[9]) && second === Number(digits[10]);
+}
+
+/**
+ * CNPJ válido (14 dígitos com os dois dígitos verificadores corretos).
+ * Entrada: "11.222.333/0001-81" → true | "11.222.333/0001-00" → false
+ *
+ * EN: Valid CNPJ (14 digits with both check digits correct).
+ */
+export function isValidCnpj(value: string | null | undefined): boolean {
+  const digits = onlyDigits(value ?? "");
+  if (digits.length !== 14 || isRepeatedDigits(digits)) return false;
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === Number(digits[12]) && second === Number(digits[13]);
+}
+
+/**
+ * CPF (11 dígitos) ou CNPJ (14 dígitos) válido.
+ * EN: Valid CPF (11 digits) or CNPJ (14 digits).
+ */
+export function isValidCpfOrCnpj(value: string | null | undefined): boolean {
+  const digits = onlyDigits(value ?? "");
+  return digits.length === 14 ? isValidCnpj(digits) : isValidCpf(digits);
+}
@@ -0,0 +1,243 @@
+import { addDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { CustomerDocumentFormData } from "@/lib/validations";
+import { CUSTOMER_DOCUMENT_TYPE_OPTIONS } from "@/lib/constants";
+import { daysBetween, todayDateOnly } from "@/lib/lateFees";
+import { slugifyFileName } from "@/lib/documents";
+
+export const CUSTOMER_DOCUMENTS_BUCKET = "customer-documents";
+
+/**
+ * Margem de validade exigida após a data da viagem (muitos países pedem passaporte válido
+ * por 6 meses além da estadia).
+ *
+ * EN: Validity margin required after the travel date (many countries require passports
+ * valid for 6 months beyond the stay).
+ */
+export const DOCUMENT_EXPIRY_BUFFER_DAYS = 180;
+
+export type CustomerDocument = Tables<"customer_documents">;
+
+export type DocumentExpiryStatus = "expired" | "expiring" | "valid";
+
+export interface ExpiringCustomerDocument extends CustomerDocument {
+  customer: { id: string; full_name: string; email: string; phone: string } | null;
+  daysToExpiry: number;
+}
+
+export interface OrderDocumentIssue {
+  passengerName: string;
+  customerId: string;
+  document: CustomerDocument;
+  /** Vence antes da viagem ou dentro da margem após a viagem */
+  reason: "expires_before_travel" | "expires_within_buffer";
+}
+
+export const getCustomerDocumentTypeLabel = (type: string) =>
+  CUSTOMER_DOCUMENT_TYPE_OPTIONS.find((opt) => opt.value === type)?.label || type;
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), "yyyy-MM-dd");
+
+/**
+ * Situação da validade em relação a hoje: vencido, vencendo dentro da margem ou válido.
+ * EN: Expiry status relative to today: expired, expiring within the buffer, or valid.
+ */
+export function getDocumentExpiryStatus(
+  expiryDate: string | null,
+  referenceDate: string = todayDateOnly()
+): DocumentExpiryStatus | null {
+  if (!expiryDate) return null;
+  if (expiryDate < referenceDate) return "expired";
+  if (expiryDate < shiftDate(referenceDate, DOCUMENT_EXPIRY_BUFFER_DAYS)) return "expiring";
+  return "valid";
+}
+
+/**
+ * Documento mais recente (maior validade) de cada cliente e tipo. Um passaporte vencido
+ * que já foi renovado não gera aviso.
+ *
+ * EN: Latest document (furthest expiry) per customer and type, so renewed documents
+ * don't raise warnings.
+ */
+export function getCurrentDocuments(documents: CustomerDocument[]): CustomerDocument[] {
+  const current = new Map<string, CustomerDocument>();
+  for (const document of documents) {
+    if (!document.expiry_date) continue;
+    const key = `${document.customer_id}:${document.document_type}`;
+    const existing = current.get(key);
+    if (!existing || (existing.expiry_date ?? "") < document.expiry_date) {
+      current.set(key, document);
+    }
+  }
+  return [...current.values()];
+}
+
+/**
+ * Documentos dos passageiros que vencem antes da data da viagem mais a margem.
+ * Somente passageiros vinculados a um cliente têm documentos cadastrados.
+ *
+ * EN: Passenger documents expiring before the travel date plus the buffer.
+ * Only passengers linked to a customer have stored documents.
+ */
+export function findOrderDocumentIssues(
+  passengers: Pick<Tables<"order_passengers">, "full_name" | "customer_id">[],
+  documents: CustomerDocument[],
+  travelDate: string,
+  bufferDays: number = DOCUMENT_EXPIRY_BUFFER_DAYS
+): OrderDocumentIssue[] {
+  const limit = shiftDate(travelDate, bufferDays);
+  const current = getCurrentDocuments(documents);
+  const issues: OrderDocumentIssue[] = [];
+
+  for (const passenger of passengers) {
+    if (!passenger.customer_id) continue;
+    for (const document of current) {
+      if (document.customer_id !== passenger.customer_id || !document.expiry_date) continue;
+      if (document.expiry_date < travelDate.slice(0, 10)) {
+        issues.push({ passengerName: passenger.full_name, customerId: passenger.customer_id, document, reason: "expires_before_travel" });
+      } else if (document.expiry_date < limit) {
+        issues.push({ passengerName: passenger.full_name, customerId: passenger.customer_id, document, reason: "expires_within_buffer" });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export async function listCustomerDocuments(customerId: string) {
+  const { data, error } = await supabase
+    .from("customer_documents")
+    .select("*")
+    .eq("customer_id", customerId)
+    .order("expiry_date", { ascending: false, nullsFirst: false });
+  return { documents: data ?? [], error };
+}
+
+/**
+ * Documentos dos clientes informados (ex.: passageiros de um pedido).
+ * EN: Documents of the given customers (e.g. an order's passengers).
+ */
+export async function loadDocumentsForCustomers(customerIds: string[]) {
+  if (customerIds.length === 0) return { documents: [] as CustomerDocument[], error: null };
+  const { data, error } = await supabase.from("customer_documents").select("*").in("customer_id", customerIds);
+  return { documents: data ?? [], error };
+}
+
+/**
+ * Documentos atuais que vencem nos próximos `days` dias (e os já vencidos), com o cliente.
+ * EN: Current documents expiring within the next `days` days (plus expired ones), with the customer.
+ */
+export async function loadExpiringDocuments(organizationId: string, days: number) {
+  const { data, error } = await supabase
+    .from("customer_documents")
+    .select("*, customer:customers(id, full_name, email, phone)")
+    .eq("organization_id", organizationId)
+    .not("expiry_date", "is", null);
+
+  const today = todayDateOnly();
+  const limit = shiftDate(today, days);
+  const documents = getCurrentDocuments((data ?? []) as CustomerDocument[])
+    .filter((document) => document.expiry_date <= limit)
+    .map((document) => ({
+      ...(document as ExpiringCustomerDocument),
+      daysToExpiry: daysBetween(today, document.expiry_date),
+    }))
+    .sort((a, b) => a.expiry_date.localeCompare(b.expiry_date));
+
+  return { documents, error };
+}
+
+/**
+ * Envia a digitalização para o bucket privado (pasta da organização/cliente).
+ * EN: Uploads the scanned file to the private bucket (organization/customer folder).
+ */
+export async function uploadCustomerDocumentFile(organizationId: string, customerId: string, file: File) {
+  const extension = file.name.includes(".") ? file.name.split(".").pop()?.toLowerCase() : "";
+  const baseName = slugifyFileName(file.name.replace(/\.[^.]+$/, "")) || "documento";
+  const filePath = `${organizationId}/${customerId}/${Date.now()}-${baseName}${extension ? `.${extension}` : ""}`;
+  const { error } = await supabase.storage
+    .from(CUSTOMER_DOCUMENTS_BUCKET)
+    .upload(filePath, file, { contentType: file.type || undefined });
+  return { filePath: error ? null : filePath, error };
+}
+
+export async function removeCustomerDocumentFile(filePath: string | null) {
+  if (!filePath) return;
+  await supabase.storage.from(CUSTOMER_DOCUMENTS_BUCKET).remove([filePath]);
+}
+
+/**
+ * URL temporária (1 hora) para abrir a digitalização.
+ * EN: Temporary (1 hour) URL to open the scanned file.
+ */
+export async function getCustomerDocumentUrl(filePath: string): Promise<string | null> {
+  const { data } = await supabase.storage.from(CUSTOMER_DOCUMENTS_BUCKET).createSignedUrl(filePath, 60 * 60);
+  return data?.signedUrl ?? null;
+}
+
+/**
+ * Cria ou atualiza o documento. Com um novo arquivo, envia a digitalização e remove a anterior;
+ * se a gravação falhar, o arquivo enviado é removido para não deixar órfãos.
+ *
+ * EN: Creates or updates the document. A new file replaces the previous scan; the uploaded
+ * file is removed when saving fails.
+ */
+export async function saveCustomerDocument(input: {
+  organizationId: string;
+  customerId: string;
+  userId: string;
+  values: CustomerDocumentFormData;
+  existing: CustomerDocument | null;
+  file: File | null;
+}) {
+  const { organizationId, customerId, userId, values, existing, file } = input;
+  const fields: TablesUpdate<"customer_documents"> = {
+    document_type: values.document_type,
+    document_number: values.document_number,
+    issuing_country: values.issuing_country || null,
+    issue_date: values.issue_date || null,
+    expiry_date: values.expiry_date || null,
+    notes: values.notes || null,
+  };
+
+  if (file) {
+    const { filePath, error } = await uploadCustomerDocumentFile(organizationId, customerId, file);
+    if (error || !filePath) {
+      return { error: error ?? new Error("Falha no envio do arquivo") };
+    }
+    fields.file_name = file.name;
+    fields.file_path = filePath;
+  }
+
+  const { error } = existing
+    ? await supabase.from("customer_documents").update(fields).eq("id", existing.id)
+    : await supabase.from("customer_documents").insert([
+        {
+          ...fields,
+          document_type: values.document_type,
+          document_number: values.document_number,
+          organization_id: organizationId,
+          customer_id: customerId,
+          created_by: userId,
+        },
+      ]);
+
+  if (error) {
+    if (file) await removeCustomerDocumentFile(fields.file_path ?? null);
+    return { error };
+  }
+
+  if (file && existing?.file_path) {
+    await removeCustomerDocumentFile(existing.file_path);
+  }
+  return { error: null };
+}
+
+export async function deleteCustomerDocument(document: CustomerDocument) {
+  const { error } = await supabase.from("customer_documents").delete().eq("id", document.id);
+  if (!error) {
+    await removeCustomerDocumentFile(document.file_path);
+  }
+  return { error };
+}
@@ -0,0 +1,316 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { cleanCpf, cleanPhone } from "@/lib/utils";
+
+export type DuplicateReason = "cpf" | "email" | "phone" | "name";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  cpf: "Mesmo CPF",
+  email: "Mesmo email",
+  phone: "Mesmo telefone",
+  name: "Nome parecido",
+};
+
+export type DuplicateCandidate = Pick<Tables<"customers">, "full_name" | "email" | "phone" | "cpf">;
+
+export type DuplicateCustomer = Pick<
+  Tables<"customers">,
+  "id" | "full_name" | "email" | "phone" | "cpf" | "city" | "birth_date" | "created_at"
+> & { orders?: { count: number }[] };
+
+export interface CustomerDuplicateMatch {
+  customer: DuplicateCustomer;
+  reasons: DuplicateReason[];
+  score: number;
+}
+
+export interface CustomerDuplicatePair extends CustomerDuplicateMatch {
+  other: DuplicateCustomer;
+}
+
+export type CustomerMerge = Tables<"customer_merges"> & {
+  surviving: { full_name: string } | null;
+  merger: { full_name: string | null } | null;
+};
+
+/** Similaridade mínima de nome para sugerir duplicado. EN: Minimum name similarity to flag a duplicate. */
+export const NAME_SIMILARITY_THRESHOLD = 0.88;
+
+const DUPLICATE_CUSTOMER_COLUMNS = "id, full_name, email, phone, cpf, city, birth_date, created_at";
+const NAME_PARTICLES = new Set(["da", "das", "de", "do", "dos", "e"]);
+
+/**
+ * Nome sem acentos, caixa, pontuação e partículas ("da", "de", "dos"...).
+ * Entrada: "  João da Silva-Júnior " → ["joao", "silva", "junior"]
+ *
+ * EN: Name tokens without accents, case, punctuation and Portuguese particles.
+ */
+export function normalizeCustomerName(name: string): string[] {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token && !NAME_PARTICLES.has(token));
+}
+
+/**
+ * Telefone só com dígitos, sem DDI 55 nem zero de operadora.
+ * Entrada: "+55 (11) 98765-4321" → "11987654321"
+ *
+ * EN: Phone digits without the 55 country code or leading trunk zero.
+ */
+export function normalizeCustomerPhone(phone: string | null | undefined): string {
+  let digits = cleanPhone(phone ?? "");
+  if (digits.length > 11 && digits.startsWith("55")) digits = digits.slice(2);
+  return digits.replace(/^0+/, "");
+}
+
+const normalizeEmail = (email: string | null | undefined) => (email ?? "").trim().toLowerCase();
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * Similaridade entre dois nomes (0 a 1), ignorando acentos, partículas e ordem das palavras.
+ * Entrada: ("João da Silva", "Joao Silva") → 1 | ("Maria Souza", "Mario Souza") → ~0.91
+ *
+ * EN: Name similarity (0 to 1) ignoring accents, particles and word order.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = normalizeCustomerName(a);
+  const tokensB = normalizeCustomerName(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const sortedA = [...tokensA].sort().join(" ");
+  const sortedB = [...tokensB].sort().join(" ");
+  if (sortedA === sortedB) return 1;
+
+  const joinedA = tokensA.join(" ");
+  const joinedB = tokensB.join(" ");
+  const distance = levenshtein(joinedA, joinedB);
+  return 1 - distance / Math.max(joinedA.length, joinedB.length);
+}
+
+/**
+ * Compara dois cadastros: motivos de suspeita e pontuação (CPF > email > telefone > nome).
+ * EN: Compares two customers: duplicate reasons and score (CPF > email > phone > name).
+ */
+export function compareCustomers(a: DuplicateCandidate, b: DuplicateCandidate) {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  const cpfA = cleanCpf(a.cpf ?? "");
+  if (cpfA.length >= 11 && cpfA === cleanCpf(b.cpf ?? "")) {
+    reasons.push("cpf");
+    score = Math.max(score, 1);
+  }
+
+  const emailA = normalizeEmail(a.email);
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    reasons.push("email");
+    score = Math.max(score, 0.95);
+  }
+
+  const phoneA = normalizeCustomerPhone(a.phone);
+  if (phoneA.length >= 10 && phoneA === normalizeCustomerPhone(b.phone)) {
+    reasons.push("phone");
+    score = Math.max(score, 0.9);
+  }
+
+  const similarity = nameSimilarity(a.full_name, b.full_name);
+  if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+    reasons.push("name");
+    score = Math.max(score, similarity * 0.9);
+  }
+
+  return { reasons, score };
+}
+
+/**
+ * Clientes da organização que parecem ser a mesma pessoa do cadastro informado.
+ * Usado antes de inserir um cliente; excludeId ignora o próprio cliente na edição.
+ *
+ * EN: Organization customers that look like the same person as the given data.
+ * Used before inserting a customer; excludeId skips the customer itself when editing.
+ */
+export async function findCustomerDuplicates(
+  organizationId: string,
+  candidate: DuplicateCandidate,
+  excludeId?: string
+) {
+  const { data, error } = await supabase
+    .from("customers")
+    .select(DUPLICATE_CUSTOMER_COLUMNS)
+    .eq("organization_id", organizationId);
+
+  const matches: CustomerDuplicateMatch[] = [];
+  for (const customer of data ?? []) {
+    if (customer.id === excludeId) continue;
+    const { reasons, score } = compareCustomers(candidate, customer);
+    if (reasons.length > 0) matches.push({ customer, reasons, score });
+  }
+  matches.sort((a, b) => b.score - a.score);
+  return { matches, error };
+}
+
+/**
+ * Erro do índice único de CPF por organização (idx_customers_organization_cpf).
+ * EN: Unique-violation error from the per-organization customer CPF index.
+ */
+export function isDuplicateCpfError(error: { code?: string; message?: string } | null) {
+  return error?.code === "23505" && (error.message ?? "").includes("idx_customers_organization_cpf");
+}
+
+export const DUPLICATE_CPF_MESSAGE = "Já existe um cliente com este CPF nesta organização";
+
+/**
+ * Chave do par independente da ordem. EN: Order-independent pair key.
+ */
+export function duplicatePairKey(customerId: string, otherCustomerId: string) {
+  return customerId < otherCustomerId ? `${customerId}:${otherCustomerId}` : `${otherCustomerId}:${customerId}`;
+}
+
+/**
+ * Pares suspeitos entre os clientes, sem os já descartados na revisão.
+ * Para não comparar todos com todos, só compara clientes que compartilham CPF, email,
+ * telefone ou o começo do nome (primeiro nome + inicial do último, e vice-versa).
+ *
+ * EN: Suspected duplicate pairs among customers, skipping dismissed ones.
+ * Only customers sharing CPF, email, phone or a name block are compared.
+ */
+export function findDuplicatePairs(
+  customers: DuplicateCustomer[],
+  dismissedKeys: Set<string> = new Set()
+): CustomerDuplicatePair[] {
+  const blocks = new Map<string, DuplicateCustomer[]>();
+  const addToBlock = (key: string, customer: DuplicateCustomer) => {
+    const block = blocks.get(key);
+    if (block) block.push(customer);
+    else blocks.set(key, [customer]);
+  };
+
+  for (const customer of customers) {
+    const cpf = cleanCpf(customer.cpf ?? "");
+    if (cpf.length >= 11) addToBlock(`cpf:${cpf}`, customer);
+    const email = normalizeEmail(customer.email);
+    if (email) addToBlock(`email:${email}`, customer);
+    const phone = normalizeCustomerPhone(customer.phone);
+    if (phone.length >= 10) addToBlock(`phone:${phone}`, customer);
+
+    const tokens = normalizeCustomerName(customer.full_name);
+    if (tokens.length > 0) {
+      const first = tokens[0];
+      const last = tokens[tokens.length - 1];
+      addToBlock(`first:${first}:${last[0]}`, customer);
+      addToBlock(`last:${last}:${first[0]}`, customer);
+    }
+  }
+
+  const pairs = new Map<string, CustomerDuplicatePair>();
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = duplicatePairKey(block[i].id, block[j].id);
+        if (pairs.has(key) || dismissedKeys.has(key)) continue;
+        const { reasons, score } = compareCustomers(block[i], block[j]);
+        if (reasons.length > 0) pairs.set(key, { customer: block[i], other: block[j], reasons, score });
+      }
+    }
+  }
+
+  return [...pairs.values()].sort(
+    (a, b) => b.score - a.score || a.customer.full_name.localeCompare(b.customer.full_name, "pt-BR")
+  );
+}
+
+/**
+ * Clientes da organização com a contagem de pedidos, para a revisão de duplicados.
+ * EN: Organization customers with their order count, for the duplicates review.
+ */
+export async function loadCustomersForDuplicateReview(organizationId: string) {
+  const { data, error } = await supabase
+    .from("customers")
+    .select(`${DUPLICATE_CUSTOMER_COLUMNS}, orders(count)`)
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: true });
+  return { customers: (data ?? []) as DuplicateCustomer[], error };
+}
+
+/**
+ * Chaves dos pares já marcados como "não é duplicado".
+ * EN: Keys of pairs already marked as "not a duplicate".
+ */
+export async function loadDuplicateDismissals(organizationId: string) {
+  const { data, error } = await supabase
+    .from("customer_duplicate_dismissals")
+    .select("customer_id, other_customer_id")
+    .eq("organization_id", organizationId);
+  const keys = new Set((data ?? []).map((row) => duplicatePairKey(row.customer_id, row.other_customer_id)));
+  return { keys, error };
+}
+
+/**
+ * Marca o par como "não é duplicado" (não volta a aparecer na revisão).
+ * EN: Marks the pair as "not a duplicate" so it leaves the review.
+ */
+export async function dismissDuplicatePair(organizationId: string, customerId: string, otherCustomerId: string) {
+  const [first, second] = [customerId, otherCustomerId].sort();
+  const { data: { session } } = await supabase.auth.getSession();
+  return supabase.from("customer_duplicate_dismissals").insert({
+    organization_id: organizationId,
+    customer_id: first,
+    other_customer_id: second,
+    dismissed_by: session?.user.id ?? null,
+  });
+}
+
+/**
+ * Mescla dois clientes: pedidos, orçamentos e passageiros passam para o cliente mantido,
+ * o mesclado é excluído e a operação fica registrada em customer_merges.
+ *
+ * EN: Merges two customers: orders, quotes and passengers move to the surviving customer,
+ * the merged one is deleted and the operation is recorded in customer_merges.
+ */
+export async function mergeCustomers(survivingCustomerId: string, mergedCustomerId: string) {
+  return supabase.rpc("merge_customers", {
+    _surviving_customer_id: survivingCustomerId,
+    _merged_customer_id: mergedCustomerId,
+  });
+}
+
+/**
+ * Histórico de mesclagens da organização, mais recentes primeiro.
+ * EN: Organization merge history, newest first.
+ */
+export async function listCustomerMerges(organizationId: string) {
+  const { data, error } = await supabase
+    .from("customer_merges")
+    .select("*, surviving:customers(full_name), merger:profiles(full_name)")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false });
+  return { merges: (data ?? []) as CustomerMerge[], error };
+}
+
+/**
+ * Nome do cliente mesclado a partir da cópia gravada na auditoria.
+ * EN: Merged customer's name from the audit snapshot.
+ */
+export function getMergedCustomerName(merge: Pick<Tables<"customer_merges">, "merged_customer_data">) {
+  const data = merge.merged_customer_data as { full_name?: string } | null;
+  return data?.full_name || "Cliente excluído";
+}
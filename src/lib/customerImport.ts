@@ -0,0 +1,250 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { customerSchema, type CustomerFormData } from "@/lib/validations";
+import { cleanCep, cleanCpf, cleanPhone, formatCep } from "@/lib/utils";
+import {
+  findDuplicatePairs,
+  isDuplicateCpfError,
+  DUPLICATE_CPF_MESSAGE,
+  type DuplicateCustomer,
+  type DuplicateReason,
+} from "@/lib/customerDuplicates";
+
+export type CustomerImportField = keyof CustomerFormData;
+
+/** Índice da coluna da planilha para cada campo (null = não importar). */
+export type CustomerImportMapping = Record<CustomerImportField, number | null>;
+
+export type CustomerImportRowStatus = "valid" | "error" | "duplicate";
+
+export interface CustomerImportRow {
+  /** Linha na planilha (o cabeçalho é a linha 1) */
+  rowNumber: number;
+  status: CustomerImportRowStatus;
+  data: CustomerFormData | null;
+  errors: string[];
+  duplicate: {
+    /** Cliente já cadastrado ou linha anterior do próprio arquivo */
+    label: string;
+    reasons: DuplicateReason[];
+    /** Mesmo CPF: nunca pode ser importado (CPF é único na organização) */
+    blocking: boolean;
+  } | null;
+}
+
+export interface CustomerImportResult {
+  inserted: number;
+  failed: { rowNumber: number; message: string }[];
+}
+
+export const CUSTOMER_IMPORT_FIELDS: { field: CustomerImportField; label: string; required: boolean; pattern: RegExp }[] = [
+  { field: "full_name", label: "Nome completo", required: true, pattern: /^(nome|cliente|name|full name)/ },
+  { field: "email", label: "Email", required: true, pattern: /^(e ?mail|correio)/ },
+  { field: "phone", label: "Telefone", required: true, pattern: /^(telefone|celular|fone|whats|phone|tel)/ },
+  { field: "cpf", label: "CPF", required: false, pattern: /^(cpf|documento)/ },
+  { field: "birth_date", label: "Data de nascimento", required: false, pattern: /^(data de nascimento|nascimento|aniversario|birth|data nasc|dt nasc)/ },
+  { field: "zip_code", label: "CEP", required: false, pattern: /^(cep|zip)/ },
+  { field: "address", label: "Endereço", required: false, pattern: /^(endereco|logradouro|rua|address)/ },
+  { field: "city", label: "Cidade", required: false, pattern: /^(cidade|municipio|city)/ },
+  { field: "state", label: "Estado (UF)", required: false, pattern: /^(estado|uf|state)/ },
+];
+
+/** Linhas gravadas por requisição. EN: Rows inserted per request. */
+export const CUSTOMER_IMPORT_BATCH_SIZE = 200;
+
+const normalizeHeader = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * Sugere a coluna de cada campo pelo nome do cabeçalho (ex.: "E-mail", "Celular", "UF").
+ * EN: Suggests each field's column from the header names.
+ */
+export function guessCustomerImportMapping(headers: string[]): CustomerImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as CustomerImportMapping;
+  for (const { field, pattern } of CUSTOMER_IMPORT_FIELDS) {
+    const index = normalized.findIndex((header, i) => !used.has(i) && pattern.test(header));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  }
+  return mapping;
+}
+
+/**
+ * Data da planilha em AAAA-MM-DD: aceita DD/MM/AAAA, AAAA-MM-DD e o número serial do Excel.
+ * Entrada: "05/03/1990" → "1990-03-05" | "32937" → "1990-03-05"
+ *
+ * EN: Spreadsheet date as YYYY-MM-DD (DD/MM/YYYY, ISO or Excel serial number).
+ */
+export function parseImportDate(value: string): string {
+  const text = value.trim();
+  if (!text) return "";
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const br = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (br) {
+    const year = br[3].length === 2 ? (Number(br[3]) > 30 ? `19${br[3]}` : `20${br[3]}`) : br[3];
+    return `${year}-${br[2].padStart(2, "0")}-${br[1].padStart(2, "0")}`;
+  }
+
+  // Serial do Excel: dias desde 30/12/1899
+  if (/^\d{4,5}(\.\d+)?$/.test(text)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 86400000);
+    return date.toISOString().slice(0, 10);
+  }
+
+  // Formato não reconhecido: o schema rejeita com "Data inválida"
+  return text;
+}
+
+/**
+ * Valores da linha no formato que o formulário de clientes produziria (máscaras de CEP e data).
+ * EN: Row values shaped like the customer form output (CEP mask, ISO date).
+ */
+function mapRowValues(cells: string[], mapping: CustomerImportMapping) {
+  const cell = (field: CustomerImportField) => {
+    const index = mapping[field];
+    return index === null ? "" : (cells[index] ?? "").trim();
+  };
+  const zipDigits = cleanCep(cell("zip_code"));
+  return {
+    full_name: cell("full_name").replace(/\s+/g, " "),
+    email: cell("email").toLowerCase(),
+    phone: cell("phone"),
+    cpf: cell("cpf"),
+    birth_date: parseImportDate(cell("birth_date")),
+    address: cell("address"),
+    city: cell("city"),
+    state: cell("state").toUpperCase(),
+    // CEP numérico no Excel perde o zero à esquerda ("1310100" → "01310-100")
+    zip_code: zipDigits ? formatCep(zipDigits.padStart(8, "0")) : "",
+  };
+}
+
+/**
+ * Simulação da importação: valida cada linha com customerSchema e procura duplicados
+ * entre os clientes da organização e entre as próprias linhas do arquivo.
+ * Nada é gravado.
+ *
+ * EN: Import dry run: validates each row with customerSchema and looks for duplicates
+ * among the organization's customers and within the file itself. Nothing is saved.
+ */
+export function validateCustomerImport(
+  rows: string[][],
+  mapping: CustomerImportMapping,
+  existingCustomers: DuplicateCustomer[]
+): CustomerImportRow[] {
+  const results: CustomerImportRow[] = rows.map((cells, index) => {
+    const parsed = customerSchema.safeParse(mapRowValues(cells, mapping));
+    return {
+      rowNumber: index + 2,
+      status: parsed.success ? "valid" : "error",
+      data: parsed.success ? parsed.data : null,
+      errors: parsed.success ? [] : [...new Set(parsed.error.errors.map((error) => error.message))],
+      duplicate: null,
+    };
+  });
+
+  // Linhas válidas entram na mesma busca de duplicados da revisão de clientes
+  const candidates: DuplicateCustomer[] = results
+    .filter((row) => row.data)
+    .map((row) => ({
+      id: `row-${row.rowNumber}`,
+      full_name: row.data.full_name,
+      email: row.data.email,
+      phone: row.data.phone,
+      cpf: row.data.cpf ?? null,
+      city: row.data.city ?? null,
+      birth_date: row.data.birth_date ?? null,
+      created_at: null,
+    }));
+  const existingById = new Map(existingCustomers.map((customer) => [customer.id, customer]));
+  const resultsById = new Map(results.map((row) => [`row-${row.rowNumber}`, row]));
+
+  for (const pair of findDuplicatePairs([...existingCustomers, ...candidates])) {
+    const [first, second] = [pair.customer.id, pair.other.id].sort((a, b) => {
+      // Cliente existente vem antes; entre linhas, a anterior no arquivo
+      const rank = (id: string) => (existingById.has(id) ? -1 : Number(id.slice(4)));
+      return rank(a) - rank(b);
+    });
+    const row = resultsById.get(second);
+    if (!row || row.duplicate?.blocking) continue;
+
+    const existing = existingById.get(first);
+    const label = existing ? existing.full_name : `Linha ${first.slice(4)} do arquivo`;
+    const blocking = pair.reasons.includes("cpf");
+    if (!row.duplicate || blocking) {
+      row.duplicate = { label, reasons: pair.reasons, blocking };
+      row.status = "duplicate";
+    }
+  }
+
+  return results;
+}
+
+const toCustomerInsert = (
+  data: CustomerFormData,
+  context: { organizationId: string; userId: string }
+): TablesInsert<"customers"> => ({
+  full_name: data.full_name,
+  email: data.email,
+  phone: cleanPhone(data.phone),
+  cpf: data.cpf ? cleanCpf(data.cpf) : null,
+  birth_date: data.birth_date || null,
+  address: data.address || null,
+  city: data.city || null,
+  state: data.state || null,
+  zip_code: data.zip_code ? cleanCep(data.zip_code) : null,
+  organization_id: context.organizationId,
+  created_by: context.userId,
+});
+
+/**
+ * Grava as linhas em lotes na organização atual. Se um lote falhar (ex.: CPF cadastrado
+ * por outra pessoa durante a importação), as linhas do lote são gravadas uma a uma para
+ * identificar quais falharam.
+ *
+ * EN: Inserts rows in batches into the current organization. When a batch fails, its rows
+ * are retried one by one to pinpoint the failing ones.
+ */
+export async function commitCustomerImport(
+  rows: CustomerImportRow[],
+  context: { organizationId: string; userId: string },
+  onProgress?: (done: number, total: number) => void
+): Promise<CustomerImportResult> {
+  const result: CustomerImportResult = { inserted: 0, failed: [] };
+  const importable = rows.filter((row) => row.data);
+
+  for (let start = 0; start < importable.length; start += CUSTOMER_IMPORT_BATCH_SIZE) {
+    const batch = importable.slice(start, start + CUSTOMER_IMPORT_BATCH_SIZE);
+    const { error } = await supabase.from("customers").insert(batch.map((row) => toCustomerInsert(row.data, context)));
+
+    if (!error) {
+      result.inserted += batch.length;
+    } else {
+      for (const row of batch) {
+        const { error: rowError } = await supabase.from("customers").insert(toCustomerInsert(row.data, context));
+        if (rowError) {
+          result.failed.push({
+            rowNumber: row.rowNumber,
+            message: isDuplicateCpfError(rowError) ? DUPLICATE_CPF_MESSAGE : rowError.message,
+          });
+        } else {
+          result.inserted += 1;
+        }
+      }
+    }
+
+    onProgress?.(Math.min(start + batch.length, importable.length), importable.length);
+  }
+
+  return result;
+}
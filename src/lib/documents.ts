@@ -0,0 +1,117 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export const ORDER_DOCUMENTS_BUCKET = "order-documents";
+
+export type OrderDocumentType = Database["public"]["Enums"]["order_document_type"];
+
+interface SaveOrderDocumentInput {
+  orderId: string;
+  organizationId: string;
+  userId: string;
+  documentType: OrderDocumentType;
+  fileName: string;
+  blob: Blob;
+  templateId?: string | null;
+}
+
+/**
+ * Envia o PDF para o bucket privado (pasta da organização/pedido) e registra em order_documents.
+ * Se o registro falhar, o arquivo enviado é removido para não deixar órfãos.
+ *
+ * EN: Uploads the PDF to the private bucket and records it in order_documents.
+ */
+export async function saveOrderDocument(input: SaveOrderDocumentInput) {
+  const filePath = `${input.organizationId}/${input.orderId}/${Date.now()}-${input.fileName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(ORDER_DOCUMENTS_BUCKET)
+    .upload(filePath, input.blob, { contentType: "application/pdf" });
+
+  if (uploadError) {
+    return { document: null, error: uploadError };
+  }
+
+  const { data, error } = await supabase
+    .from("order_documents")
+    .insert([
+      {
+        order_id: input.orderId,
+        organization_id: input.organizationId,
+        document_type: input.documentType,
+        template_id: input.templateId ?? null,
+        file_name: input.fileName,
+        file_path: filePath,
+        created_by: input.userId,
+      },
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(ORDER_DOCUMENTS_BUCKET).remove([filePath]);
+  }
+
+  return { document: data, error };
+}
+
+/**
+ * URL temporária (1 hora) para baixar um documento do bucket privado.
+ * EN: Temporary (1 hour) download URL for a private document.
+ */
+export async function getOrderDocumentUrl(filePath: string): Promise<string | null> {
+  const { data } = await supabase.storage.from(ORDER_DOCUMENTS_BUCKET).createSignedUrl(filePath, 60 * 60);
+  return data?.signedUrl ?? null;
+}
+
+/**
+ * Carrega uma imagem (ex.: logo da organização) como data URL para embutir no PDF.
+ * Retorna null se a imagem não puder ser lida (CORS, formato ou rede).
+ *
+ * EN: Loads an image as a data URL for embedding in PDFs; null when unavailable.
+ */
+export async function loadImageAsDataUrl(url: string | null | undefined): Promise<string | null> {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    if (!["image/png", "image/jpeg"].includes(blob.type)) return null;
+    return await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Nome de arquivo seguro a partir de um texto livre.
+ * Entrada: "Contrato PED-000042 João" → Saída: "contrato-ped-000042-joao"
+ *
+ * EN: Filesystem-safe slug for generated file names.
+ */
+export function slugifyFileName(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Dispara o download de um arquivo gerado no navegador.
+ * EN: Triggers a browser download for a generated file.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
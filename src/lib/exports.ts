@@ -0,0 +1,271 @@
+import { jsPDF } from "jspdf";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/utils";
+import { getBrandColor, hexToRgb } from "@/lib/vouchers";
+import { downloadBlob, loadImageAsDataUrl, slugifyFileName } from "@/lib/documents";
+import { createCsv, createXlsx, type SpreadsheetColumnFormat } from "@/lib/spreadsheet";
+
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  pdf: "PDF",
+};
+
+export type ExportValue = string | number | null | undefined;
+
+/**
+ * Coluna exportável de uma lista. Valores "currency"/"number" são números e
+ * "date"/"datetime" são textos ISO (como vêm do banco); a formatação é feita na exportação.
+ *
+ * EN: Exportable list column. Currency/number values are numbers and dates are ISO strings
+ * (as stored in the database); formatting happens at export time.
+ */
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  type?: SpreadsheetColumnFormat;
+  value: (row: T) => ExportValue;
+  /** Fora da seleção inicial de colunas. EN: Not selected by default. */
+  optional?: boolean;
+}
+
+export interface ExportListOptions<T> {
+  format: ExportFormat;
+  organizationId: string;
+  /** Título do relatório (cabeçalho do PDF e nome da aba). EN: Report title. */
+  title: string;
+  /** Base do nome do arquivo, sem extensão. EN: File name base, without extension. */
+  fileName: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+/**
+ * Valor da coluna como texto para CSV e PDF (moeda em BRL, datas em dd/MM/yyyy).
+ * Entrada: currency 1234.5 → "R$ 1.234,50" | date "2025-03-05" → "05/03/2025"
+ *
+ * EN: Column value as display text for CSV and PDF (BRL currency, dd/MM/yyyy dates).
+ */
+export function formatExportValue(type: SpreadsheetColumnFormat = "text", value: ExportValue): string {
+  if (value === null || value === undefined || value === "") return "";
+  switch (type) {
+    case "currency":
+      return formatCurrency(Number(value));
+    case "number":
+      return Number(value).toLocaleString("pt-BR");
+    case "date":
+      return format(new Date(`${String(value).slice(0, 10)}T00:00:00`), "dd/MM/yyyy");
+    case "datetime":
+      return format(parseISO(String(value)), "dd/MM/yyyy HH:mm");
+    default:
+      return String(value);
+  }
+}
+
+export function createCsvExport<T>(columns: ExportColumn<T>[], rows: T[]): Blob {
+  return createCsv([
+    columns.map((column) => column.label),
+    // Fórmulas em textos digitados (nomes, endereços, observações) são neutralizadas por createCsv
+    ...rows.map((row) => columns.map((column) => formatExportValue(column.type, column.value(row)))),
+  ]);
+}
+
+export function createXlsxExport<T>(columns: ExportColumn<T>[], rows: T[], sheetName: string): Blob {
+  const values = rows.map((row) => columns.map((column) => column.value(row) ?? null));
+  return createXlsx(
+    columns.map((column, index) => ({
+      header: column.label,
+      format: column.type ?? "text",
+      // Largura pela maior entre o título e as primeiras linhas (limitada a 50 caracteres)
+      width: Math.min(
+        50,
+        Math.max(
+          10,
+          column.label.length + 2,
+          ...values.slice(0, 200).map((row) => formatExportValue(column.type, row[index]).length + 2)
+        )
+      ),
+    })),
+    values,
+    sheetName
+  );
+}
+
+/**
+ * Gera o PDF (A4 paisagem) com a faixa na cor da agência, logo, tabela com cabeçalho
+ * repetido em cada página, totais das colunas de moeda e numeração de páginas.
+ *
+ * EN: Builds the landscape A4 PDF with the agency color band, logo, a table whose header
+ * repeats on every page, currency column totals and page numbers.
+ */
+export function createPdfExport<T>(
+  columns: ExportColumn<T>[],
+  rows: T[],
+  {
+    title,
+    organization,
+    logoDataUrl,
+  }: { title: string; organization: Tables<"organizations">; logoDataUrl?: string | null }
+): Blob {
+  const doc = new jsPDF({ unit: "mm", format: "a4", orientation: "landscape" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+  const contentWidth = pageWidth - margin * 2;
+  const [r, g, b] = hexToRgb(getBrandColor(organization));
+  const lineHeight = 3.6;
+  const cellPadding = 1.5;
+
+  const texts = rows.map((row) => columns.map((column) => formatExportValue(column.type, column.value(row))));
+  const alignRight = columns.map((column) => column.type === "currency" || column.type === "number");
+
+  // Largura proporcional ao conteúdo típico da coluna (entre 6 e 40 caracteres)
+  const weights = columns.map((column, index) => {
+    const sample = texts.slice(0, 200).map((row) => row[index].length);
+    const typical = sample.length ? Math.max(...sample) : 0;
+    return Math.min(40, Math.max(6, column.label.length, typical));
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map((weight) => (weight / totalWeight) * contentWidth);
+
+  const drawPageHeader = () => {
+    doc.setFillColor(r, g, b);
+    doc.rect(0, 0, pageWidth, 22, "F");
+    let titleX = margin;
+    if (logoDataUrl) {
+      try {
+        const imageFormat = logoDataUrl.startsWith("data:image/png") ? "PNG" : "JPEG";
+        doc.addImage(logoDataUrl, imageFormat, margin, 3, 16, 16, undefined, "FAST");
+        titleX = margin + 20;
+      } catch {
+        // Logo inválido: segue sem imagem
+      }
+    }
+    doc.setTextColor(255, 255, 255);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(14);
+    doc.text(title, titleX, 11);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.text(`${rows.length} registro(s) · gerado em ${format(new Date(), "dd/MM/yyyy HH:mm")}`, titleX, 17);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text(organization.name, pageWidth - margin, 13, { align: "right" });
+  };
+
+  const drawRow = (cells: string[], y: number, options: { header?: boolean; fill?: boolean; bold?: boolean }) => {
+    doc.setFont("helvetica", options.header || options.bold ? "bold" : "normal");
+    doc.setFontSize(8);
+    // Até 3 linhas por célula; o excedente é cortado
+    const lines = cells.map((cell, index) => doc.splitTextToSize(cell, widths[index] - cellPadding * 2).slice(0, 3) as string[]);
+    const height = Math.max(1, ...lines.map((cellLines) => cellLines.length)) * lineHeight + cellPadding * 2;
+
+    if (options.header) {
+      doc.setFillColor(r, g, b);
+      doc.rect(margin, y, contentWidth, height, "F");
+      doc.setTextColor(255, 255, 255);
+    } else {
+      if (options.fill) {
+        doc.setFillColor(245, 245, 245);
+        doc.rect(margin, y, contentWidth, height, "F");
+      }
+      doc.setTextColor(0, 0, 0);
+    }
+
+    let x = margin;
+    lines.forEach((cellLines, index) => {
+      const textX = alignRight[index] ? x + widths[index] - cellPadding : x + cellPadding;
+      doc.text(cellLines, textX, y + cellPadding + 2.6, { align: alignRight[index] ? "right" : "left" });
+      x += widths[index];
+    });
+    return height;
+  };
+
+  const headerCells = columns.map((column) => column.label);
+  const bottomLimit = pageHeight - 12;
+  drawPageHeader();
+  let y = 28;
+  y += drawRow(headerCells, y, { header: true });
+
+  texts.forEach((cells, index) => {
+    // Nova página quando a próxima linha (até 3 linhas de texto) não cabe
+    if (y + lineHeight * 3 + cellPadding * 2 > bottomLimit) {
+      doc.addPage();
+      drawPageHeader();
+      y = 28;
+      y += drawRow(headerCells, y, { header: true });
+    }
+    y += drawRow(cells, y, { fill: index % 2 === 1 });
+  });
+
+  if (columns.some((column) => column.type === "currency") && rows.length > 0) {
+    if (y + lineHeight + cellPadding * 2 > bottomLimit) {
+      doc.addPage();
+      drawPageHeader();
+      y = 28;
+    }
+    doc.setDrawColor(r, g, b);
+    doc.line(margin, y, pageWidth - margin, y);
+    const totals = columns.map((column, index) => {
+      if (column.type === "currency") {
+        return formatCurrency(rows.reduce((sum, row) => sum + Number(column.value(row) ?? 0), 0));
+      }
+      return index === 0 ? "Total" : "";
+    });
+    drawRow(totals, y, { bold: true });
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(120, 120, 120);
+    doc.text(`Página ${page} de ${pageCount}`, pageWidth - margin, pageHeight - 6, { align: "right" });
+  }
+
+  return doc.output("blob");
+}
+
+/**
+ * Exporta a lista (já filtrada pela página) no formato escolhido e dispara o download.
+ * O PDF usa o nome, a cor e o logo da organização.
+ *
+ * EN: Exports the (already filtered) list in the chosen format and triggers the download.
+ * The PDF uses the organization's name, color and logo.
+ */
+export async function exportList<T>(options: ExportListOptions<T>): Promise<{ error: string | null }> {
+  const { format: exportFormat, columns, rows, title } = options;
+  if (columns.length === 0) {
+    return { error: "Selecione ao menos uma coluna" };
+  }
+
+  const fileName = `${slugifyFileName(options.fileName)}-${format(new Date(), "yyyy-MM-dd")}.${exportFormat}`;
+
+  if (exportFormat === "csv") {
+    downloadBlob(createCsvExport(columns, rows), fileName);
+    return { error: null };
+  }
+
+  if (exportFormat === "xlsx") {
+    downloadBlob(createXlsxExport(columns, rows, title), fileName);
+    return { error: null };
+  }
+
+  const { data: organization, error } = await supabase
+    .from("organizations")
+    .select("*")
+    .eq("id", options.organizationId)
+    .single();
+  if (error || !organization) {
+    return { error: "Erro ao carregar dados da organização" };
+  }
+
+  const logoDataUrl = await loadImageAsDataUrl(organization.logo_url);
+  downloadBlob(createPdfExport(columns, rows, { title, organization, logoDataUrl }), fileName);
+  return { error: null };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { splitReceivedAmount } from "@/lib/installmentPayments";
+import type { LateFeeSettings } from "@/lib/lateFees";
+
+const lateFeeSettings: LateFeeSettings = {
+  late_fee_percent: 2,
+  late_interest_percent: 1,
+  late_interest_period: "monthly",
+  late_fee_grace_days: 0,
+};
+
+// Vencida há 15 dias: multa de 2 e juros de 0,50 sobre o saldo de 100
+const installment = { amount: 100, paid_amount: 0, due_date: "2025-03-01" };
+
+describe("splitReceivedAmount", () => {
+  it("lança multa e juros calculados sobre o saldo", () => {
+    expect(splitReceivedAmount(102.5, installment, "2025-03-16", lateFeeSettings)).toEqual({
+      principal: 100,
+      late_fee_amount: 2,
+      interest_amount: 0.5,
+      unapplied: 0,
+    });
+  });
+
+  it("limita os juros ao valor calculado e devolve o excedente", () => {
+    expect(splitReceivedAmount(1000, installment, "2025-03-16", lateFeeSettings)).toEqual({
+      principal: 100,
+      late_fee_amount: 2,
+      interest_amount: 0.5,
+      unapplied: 897.5,
+    });
+  });
+
+  it("não cobra encargos de pagamento em dia", () => {
+    expect(splitReceivedAmount(150, installment, "2025-03-01", lateFeeSettings)).toEqual({
+      principal: 100,
+      late_fee_amount: 0,
+      interest_amount: 0,
+      unapplied: 50,
+    });
+  });
+
+  it("trata valor menor que o saldo como pagamento parcial", () => {
+    expect(splitReceivedAmount(40, { ...installment, paid_amount: 20 }, "2025-03-16", lateFeeSettings)).toEqual({
+      principal: 40,
+      late_fee_amount: 0,
+      interest_amount: 0,
+      unapplied: 0,
+    });
+  });
+});
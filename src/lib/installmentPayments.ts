@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { calculateLateCharges, type LateFeeSettings } from "@/lib/lateFees";
+import { roundCents } from "@/lib/utils";
+
+export type InstallmentPayment = Tables<"installment_payments">;
+
+export type InstallmentPaymentWithReceipt = InstallmentPayment & {
+  receipt: Pick<Tables<"payment_receipts">, "id" | "receipt_number"> | null;
+};
+
+export interface InstallmentPaymentInput {
+  amount: number;
+  payment_date: string;
+  payment_method: string | null;
+  late_fee_amount: number;
+  interest_amount: number;
+  notes?: string | null;
+}
+
+const INSTALLMENT_PAYMENT_HINTS = ["installment_overpayment", "installment_cancelled", "installment_payment_required"];
+
+/**
+ * Saldo em aberto da parcela (valor menos o total já recebido).
+ * Entrada: { amount: 500, paid_amount: 200 } → Saída: 300
+ *
+ * EN: Outstanding balance of the installment (amount minus paid so far).
+ */
+export function getInstallmentBalance(installment: { amount: number; paid_amount?: number | null }): number {
+  return Math.max(roundCents(Number(installment.amount) - Number(installment.paid_amount || 0)), 0);
+}
+
+/**
+ * Divide um valor recebido pelo banco (extrato, retorno de boleto) entre principal e encargos:
+ * o principal vai até o saldo da parcela; o excedente vira multa e juros, cada um limitado ao
+ * valor calculado. O que sobrar não é lançado e volta em `unapplied`.
+ * Entrada: 330 numa parcela com saldo 300, multa de 6 e juros de 3 → { principal: 300, late_fee_amount: 6, interest_amount: 3, unapplied: 21 }
+ *
+ * EN: Splits a bank-received amount into principal (capped at the balance), late fee and interest
+ * (capped at the calculated charges); any leftover is returned as `unapplied`.
+ */
+export function splitReceivedAmount(
+  amount: number,
+  installment: { amount: number; paid_amount?: number | null; due_date: string },
+  paymentDate: string,
+  lateFeeSettings: LateFeeSettings | null
+) {
+  const principal = Math.min(roundCents(amount), getInstallmentBalance(installment));
+  const excess = roundCents(amount - principal);
+  const charges = calculateLateCharges(lateFeeSettings, { amount: principal, due_date: installment.due_date }, paymentDate);
+  const lateFee = Math.min(excess, charges.lateFee);
+  const interest = Math.min(roundCents(excess - lateFee), charges.interest);
+  return {
+    principal,
+    late_fee_amount: lateFee,
+    interest_amount: interest,
+    unapplied: roundCents(excess - lateFee - interest),
+  };
+}
+
+/**
+ * Lista os recebimentos de uma parcela, do mais antigo para o mais recente, com o recibo emitido.
+ * EN: Lists the payments received for an installment, oldest first, with their issued receipt.
+ */
+export async function listInstallmentPayments(installmentId: string) {
+  const { data, error } = await supabase
+    .from("installment_payments")
+    .select("*, receipt:payment_receipts(id, receipt_number)")
+    .eq("installment_id", installmentId)
+    .order("payment_date", { ascending: true })
+    .order("created_at", { ascending: true });
+  return { payments: (data ?? []) as InstallmentPaymentWithReceipt[], error };
+}
+
+/**
+ * Registra um recebimento (total ou parcial) na parcela.
+ * O banco recalcula o total pago, o status da parcela e o status do pagamento.
+ *
+ * EN: Records a (full or partial) payment and returns it; the database derives installment and payment status.
+ */
+export async function recordInstallmentPayment(
+  installment: { id: string; organization_id: string },
+  input: InstallmentPaymentInput
+) {
+  return supabase
+    .from("installment_payments")
+    .insert({
+      installment_id: installment.id,
+      organization_id: installment.organization_id,
+      amount: roundCents(input.amount),
+      payment_date: input.payment_date,
+      payment_method: input.payment_method,
+      late_fee_amount: roundCents(input.late_fee_amount),
+      interest_amount: roundCents(input.interest_amount),
+      notes: input.notes || null,
+    })
+    .select()
+    .single();
+}
+
+/**
+ * Estorna (exclui) um recebimento; o saldo da parcela volta a ficar em aberto.
+ * EN: Reverses (deletes) a payment entry, reopening the installment balance.
+ */
+export async function deleteInstallmentPayment(paymentId: string) {
+  return supabase.from("installment_payments").delete().eq("id", paymentId);
+}
+
+/**
+ * Retorna a mensagem do banco para erros de regra dos recebimentos
+ * (valor acima do saldo, parcela cancelada), ou null para outros erros.
+ *
+ * EN: Returns the database message for installment payment rule violations, or null otherwise.
+ */
+export function getInstallmentPaymentMessage(error: { message?: string; hint?: string } | null | undefined): string | null {
+  if (!error?.message) return null;
+  return INSTALLMENT_PAYMENT_HINTS.includes(error.hint ?? "") ? error.message : null;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { buildInstallmentPlan, distributeEvenly } from "@/lib/installmentPlans";
+
+const sumCents = (values: number[]) => values.reduce((total, value) => total + Math.round(value * 100), 0);
+
+describe("distributeEvenly", () => {
+  it("espalha os centavos restantes nas primeiras parcelas", () => {
+    expect(distributeEvenly(100, 3)).toEqual([33.34, 33.33, 33.33]);
+  });
+
+  it.each([
+    [100, 3],
+    [1000, 7],
+    [0.1, 3],
+    [1234.56, 12],
+    [999.99, 10],
+    [0.01, 4],
+  ])("soma exatamente o total (%s em %sx)", (total, count) => {
+    const amounts = distributeEvenly(total, count);
+    expect(amounts).toHaveLength(count);
+    expect(sumCents(amounts)).toBe(Math.round(total * 100));
+    const cents = amounts.map((amount) => Math.round(amount * 100));
+    expect(Math.max(...cents) - Math.min(...cents)).toBeLessThanOrEqual(1);
+  });
+
+  it("retorna lista vazia sem parcelas", () => {
+    expect(distributeEvenly(100, 0)).toEqual([]);
+  });
+});
+
+describe("buildInstallmentPlan", () => {
+  it("soma entrada, parcelas e acréscimo sobre o valor financiado", () => {
+    const plan = buildInstallmentPlan({
+      total: 1000,
+      installmentCount: 3,
+      firstDueDate: "2025-03-10",
+      interval: "monthly",
+      downPayment: 100,
+      surchargePercent: 10,
+    });
+
+    expect(plan.financedAmount).toBe(900);
+    expect(plan.surchargeAmount).toBe(90);
+    expect(plan.total).toBe(1090);
+    expect(plan.rows.map((row) => row.amount)).toEqual([100, 330, 330, 330]);
+    expect(plan.rows.map((row) => row.due_date)).toEqual(["2025-03-10", "2025-03-10", "2025-04-10", "2025-05-10"]);
+    expect(sumCents(plan.rows.map((row) => row.amount))).toBe(Math.round(plan.total * 100));
+  });
+
+  it("mantém a soma das parcelas quando o valor não divide igualmente", () => {
+    const plan = buildInstallmentPlan({
+      total: 1000,
+      installmentCount: 7,
+      firstDueDate: "2025-01-31",
+      interval: "monthly",
+    });
+
+    expect(plan.rows).toHaveLength(7);
+    expect(sumCents(plan.rows.map((row) => row.amount))).toBe(100000);
+  });
+
+  it("não gera parcelas de R$ 0,00 quando a entrada cobre o total", () => {
+    const plan = buildInstallmentPlan({
+      total: 500,
+      installmentCount: 3,
+      firstDueDate: "2025-03-10",
+      interval: "monthly",
+      downPayment: 600,
+      downPaymentDate: "2025-03-01",
+      surchargePercent: 10,
+    });
+
+    expect(plan.downPayment).toBe(500);
+    expect(plan.financedAmount).toBe(0);
+    expect(plan.surchargeAmount).toBe(0);
+    expect(plan.total).toBe(500);
+    expect(plan.rows).toEqual([
+      { installment_number: 1, total_installments: 1, amount: 500, due_date: "2025-03-01", is_down_payment: true },
+    ]);
+  });
+});
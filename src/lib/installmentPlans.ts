@@ -0,0 +1,226 @@
+import { addDays, addMonths, addWeeks, format, getDaysInMonth, parseISO, setDate } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { InstallmentInterval } from "@/lib/constants";
+import { roundCents } from "@/lib/utils";
+
+export type InstallmentSurchargeRule = Tables<"installment_surcharge_rules">;
+
+export interface InstallmentPlanOptions {
+  /** Valor a parcelar (valor do pagamento) */
+  total: number;
+  /** Quantidade de parcelas, sem contar a entrada */
+  installmentCount: number;
+  firstDueDate: string;
+  interval: InstallmentInterval;
+  dayOfMonth?: number | null;
+  downPayment?: number;
+  downPaymentDate?: string;
+  /** Acréscimo (%) sobre o valor financiado (total menos entrada) */
+  surchargePercent?: number;
+}
+
+export interface InstallmentPlanRow {
+  installment_number: number;
+  total_installments: number;
+  amount: number;
+  due_date: string;
+  is_down_payment: boolean;
+}
+
+export interface InstallmentPlan {
+  rows: InstallmentPlanRow[];
+  downPayment: number;
+  financedAmount: number;
+  surchargePercent: number;
+  surchargeAmount: number;
+  /** Soma das parcelas (total + acréscimo) */
+  total: number;
+}
+
+/**
+ * Redistribui um valor total igualmente entre N parcelas com precisão de 2 casas.
+ * Garante que a soma final seja exatamente igual ao total, espalhando os centavos restantes.
+ * Entrada: (100, 3) → Saída: [33.34, 33.33, 33.33]
+ *
+ * EN: Evenly distributes a total amount across N installments with 2-decimal precision.
+ */
+export function distributeEvenly(total: number, n: number): number[] {
+  if (n <= 0) return [];
+  const cents = Math.round(total * 100);
+  const base = Math.floor(cents / n);
+  const remainder = cents - base * n; // número de parcelas que recebem +0.01
+  return Array.from({ length: n }, (_, i) => (base + (i < remainder ? 1 : 0)) / 100);
+}
+
+/**
+ * Data no dia informado do mês, limitada ao último dia (31 em fevereiro → 28/29).
+ * EN: Date on the given day of its month, clamped to the month's last day.
+ */
+function withDayOfMonth(date: Date, day: number): Date {
+  return setDate(date, Math.min(day, getDaysInMonth(date)));
+}
+
+/**
+ * Vencimentos das parcelas a partir do primeiro vencimento e do intervalo.
+ * - Mensal: mesmo dia nos meses seguintes (31/01 → 28/02 → 31/03).
+ * - Quinzenal/semanal: a cada 14/7 dias.
+ * - Dia fixo: primeiro vencimento no dia escolhido a partir da data informada, depois todo mês no mesmo dia.
+ * Entrada: ("2025-01-10", 3, "biweekly") → Saída: ["2025-01-10", "2025-01-24", "2025-02-07"]
+ *
+ * EN: Due dates from the first due date and the interval.
+ */
+export function buildDueDates(
+  firstDueDate: string,
+  count: number,
+  interval: InstallmentInterval,
+  dayOfMonth?: number | null
+): string[] {
+  const first = parseISO(firstDueDate);
+  let start = first;
+  if (interval === "day_of_month" && dayOfMonth) {
+    start = withDayOfMonth(first, dayOfMonth);
+    if (start < first) start = withDayOfMonth(addMonths(first, 1), dayOfMonth);
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    let date: Date;
+    switch (interval) {
+      case "weekly":
+        date = addWeeks(start, i);
+        break;
+      case "biweekly":
+        date = addDays(start, 14 * i);
+        break;
+      case "day_of_month":
+        date = dayOfMonth ? withDayOfMonth(addMonths(start, i), dayOfMonth) : addMonths(start, i);
+        break;
+      default:
+        date = addMonths(start, i);
+    }
+    return format(date, "yyyy-MM-dd");
+  });
+}
+
+/**
+ * Monta o plano de parcelamento (sem gravar): entrada opcional, acréscimo sobre o
+ * valor financiado e parcelas com os centavos distribuídos.
+ * Entrada: (total 1000, 3x, entrada 100, acréscimo 10%) → entrada 100 + 3x de 330 (total 1090)
+ * Entrada igual ou maior que o total → somente a entrada, sem parcelas restantes.
+ *
+ * EN: Builds the installment plan preview (optional down payment, surcharge on the financed amount).
+ */
+export function buildInstallmentPlan(options: InstallmentPlanOptions): InstallmentPlan {
+  const total = roundCents(Number(options.total));
+  const downPayment = Math.min(roundCents(Number(options.downPayment || 0)), total);
+  const financedAmount = roundCents(total - downPayment);
+  const surchargePercent = Number(options.surchargePercent || 0);
+  const surchargeAmount = roundCents((financedAmount * surchargePercent) / 100);
+  const hasDownPayment = downPayment > 0;
+  // Entrada que quita o total: não sobram parcelas (evita parcelas de R$ 0,00)
+  const installmentCount = financedAmount > 0 ? options.installmentCount : 0;
+  const totalInstallments = installmentCount + (hasDownPayment ? 1 : 0);
+
+  const amounts = distributeEvenly(financedAmount + surchargeAmount, installmentCount);
+  const dueDates = buildDueDates(options.firstDueDate, installmentCount, options.interval, options.dayOfMonth);
+
+  const rows: InstallmentPlanRow[] = [];
+  if (hasDownPayment) {
+    rows.push({
+      installment_number: 1,
+      total_installments: totalInstallments,
+      amount: downPayment,
+      due_date: options.downPaymentDate || options.firstDueDate,
+      is_down_payment: true,
+    });
+  }
+  amounts.forEach((amount, i) => {
+    rows.push({
+      installment_number: rows.length + 1,
+      total_installments: totalInstallments,
+      amount,
+      due_date: dueDates[i],
+      is_down_payment: false,
+    });
+  });
+
+  return {
+    rows,
+    downPayment,
+    financedAmount,
+    surchargePercent,
+    surchargeAmount,
+    total: roundCents(total + surchargeAmount),
+  };
+}
+
+/**
+ * Carrega as faixas de acréscimo da organização, ordenadas por forma de pagamento e parcelas.
+ * EN: Loads the organization surcharge rules, sorted by method and installment count.
+ */
+export async function loadSurchargeRules(organizationId: string) {
+  const { data, error } = await supabase
+    .from("installment_surcharge_rules")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("payment_method", { ascending: true })
+    .order("min_installments", { ascending: true });
+  return { rules: (data ?? []) as InstallmentSurchargeRule[], error };
+}
+
+/**
+ * Acréscimo (%) aplicável: faixa da forma de pagamento com o maior min_installments <= parcelas.
+ * Entrada: (faixas cartão 1x→0%, 7x→6%; "Cartão de Crédito", 10) → Saída: 6
+ *
+ * EN: Applicable surcharge percent for the method and installment count (0 when no rule).
+ */
+export function findSurchargePercent(
+  rules: Pick<InstallmentSurchargeRule, "payment_method" | "min_installments" | "surcharge_percent">[],
+  paymentMethod: string | null | undefined,
+  installmentCount: number
+): number {
+  if (!paymentMethod) return 0;
+  const rule = rules
+    .filter((r) => r.payment_method === paymentMethod && r.min_installments <= installmentCount)
+    .sort((a, b) => b.min_installments - a.min_installments)[0];
+  return rule ? Number(rule.surcharge_percent) : 0;
+}
+
+/**
+ * Descreve a faixa de parcelas de uma regra, considerando a próxima faixa da mesma forma de pagamento.
+ * Entrada: (4, 7) → "De 4x a 6x" | (7, undefined) → "A partir de 7x" | (1, 2) → "1x"
+ *
+ * EN: Human-readable installment range of a rule given the next rule's start.
+ */
+export function formatSurchargeRuleRange(minInstallments: number, nextMinInstallments?: number): string {
+  if (nextMinInstallments === undefined) return `A partir de ${minInstallments}x`;
+  const max = nextMinInstallments - 1;
+  return max === minInstallments ? `${minInstallments}x` : `De ${minInstallments}x a ${max}x`;
+}
+
+/**
+ * Grava o plano: registra o acréscimo no pagamento e cria as parcelas.
+ * EN: Saves the plan: stores the surcharge on the payment and inserts the installments.
+ */
+export async function createInstallmentPlan(
+  paymentId: string,
+  plan: InstallmentPlan,
+  context: { organizationId: string; userId: string; paymentMethod?: string | null }
+) {
+  const { error: paymentError } = await supabase
+    .from("payments")
+    .update({ surcharge_amount: plan.surchargeAmount })
+    .eq("id", paymentId);
+  if (paymentError) return { error: paymentError };
+
+  return supabase.from("installments").insert(
+    plan.rows.map((row) => ({
+      ...row,
+      payment_id: paymentId,
+      status: "pending" as const,
+      payment_method: context.paymentMethod || null,
+      organization_id: context.organizationId,
+      created_by: context.userId,
+    }))
+  );
+}
@@ -0,0 +1,104 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { LATE_INTEREST_PERIOD_OPTIONS } from "@/lib/constants";
+import { roundCents } from "@/lib/utils";
+
+export type LateFeeSettings = Pick<
+  Tables<"organizations">,
+  "late_fee_percent" | "late_interest_percent" | "late_interest_period" | "late_fee_grace_days"
+>;
+
+export interface LateCharges {
+  daysOverdue: number;
+  lateFee: number;
+  interest: number;
+  total: number;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Data de hoje (AAAA-MM-DD) no fuso local. toISOString() daria a data em UTC, que no Brasil
+ * já é o dia seguinte a partir das 21h.
+ * EN: Today's date (YYYY-MM-DD) in the local time zone, not UTC.
+ */
+export const todayDateOnly = () => format(new Date(), "yyyy-MM-dd");
+
+/**
+ * Dias corridos entre duas datas YYYY-MM-DD (em UTC, sem deslocamento de fuso).
+ * Entrada: ("2025-01-10", "2025-01-15") → Saída: 5
+ */
+export function daysBetween(from: string, to: string): number {
+  const start = Date.parse(`${from.slice(0, 10)}T00:00:00Z`);
+  const end = Date.parse(`${to.slice(0, 10)}T00:00:00Z`);
+  return Math.round((end - start) / MS_PER_DAY);
+}
+
+export const hasLateFeeRules = (settings: LateFeeSettings | null | undefined): settings is LateFeeSettings =>
+  !!settings && (Number(settings.late_fee_percent) > 0 || Number(settings.late_interest_percent) > 0);
+
+/**
+ * Carrega as regras de multa e juros da organização.
+ * EN: Loads the organization late fee rules.
+ */
+export async function loadLateFeeSettings(organizationId: string): Promise<LateFeeSettings | null> {
+  const { data } = await supabase
+    .from("organizations")
+    .select("late_fee_percent, late_interest_percent, late_interest_period, late_fee_grace_days")
+    .eq("id", organizationId)
+    .maybeSingle();
+  return data ?? null;
+}
+
+/**
+ * Calcula multa e juros de uma parcela na data de referência (hoje ou data do pagamento).
+ * - Até o fim da carência nada é cobrado; depois dela os juros contam desde o vencimento.
+ * - Multa: percentual fixo sobre o valor, cobrado uma vez.
+ * - Juros simples: ao dia, ou ao mês proporcional aos dias (taxa mensal / 30).
+ * Entrada: (multa 2%, juros 1% a.m., R$ 1.000 vencida há 15 dias) → Saída: multa 20, juros 5, total 1025
+ *
+ * EN: Computes late fee and interest for an installment at the reference date.
+ * Nothing is charged within the grace period; afterwards interest counts from the due date.
+ */
+export function calculateLateCharges(
+  settings: LateFeeSettings | null | undefined,
+  installment: { amount: number; due_date: string },
+  referenceDate: string = todayDateOnly()
+): LateCharges {
+  const amount = Number(installment.amount);
+  const daysOverdue = Math.max(daysBetween(installment.due_date, referenceDate), 0);
+
+  if (!hasLateFeeRules(settings) || daysOverdue <= settings.late_fee_grace_days) {
+    return { daysOverdue, lateFee: 0, interest: 0, total: roundCents(amount) };
+  }
+
+  const lateFee = roundCents((amount * Number(settings.late_fee_percent)) / 100);
+  const dailyRate =
+    settings.late_interest_period === "daily"
+      ? Number(settings.late_interest_percent) / 100
+      : Number(settings.late_interest_percent) / 100 / 30;
+  const interest = roundCents(amount * dailyRate * daysOverdue);
+
+  return { daysOverdue, lateFee, interest, total: roundCents(amount + lateFee + interest) };
+}
+
+/**
+ * Resumo das regras para exibição.
+ * Entrada: (2%, 1%, monthly, 3) → Saída: "Multa de 2% + juros de 1% ao mês, após 3 dias de carência"
+ *
+ * EN: Human-readable summary of the rules.
+ */
+export function describeLateFeeRules(settings: LateFeeSettings): string {
+  const period = LATE_INTEREST_PERIOD_OPTIONS.find((opt) => opt.value === settings.late_interest_period)?.label;
+  const parts = [
+    Number(settings.late_fee_percent) > 0 ? `Multa de ${Number(settings.late_fee_percent)}%` : null,
+    Number(settings.late_interest_percent) > 0 ? `juros de ${Number(settings.late_interest_percent)}% ${period}` : null,
+  ].filter(Boolean);
+  if (parts.length === 0) return "Sem multa ou juros por atraso";
+  const rules = parts.join(" + ");
+  const text = rules.charAt(0).toUpperCase() + rules.slice(1);
+  return settings.late_fee_grace_days > 0
+    ? `${text}, após ${settings.late_fee_grace_days} ${settings.late_fee_grace_days === 1 ? "dia" : "dias"} de carência`
+    : text;
+}
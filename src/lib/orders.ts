@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { format } from "date-fns";
+import { toPassengerFields, type PassengerDraft } from "@/lib/passengers";
+import type { OrderStatus } from "@/lib/constants";
+
+export interface CreateOrderInput {
+  organizationId: string;
+  userId: string;
+  customerId: string;
+  packageId: string;
+  departureId?: string | null;
+  travelDate: string;
+  numberOfTravelers: number;
+  totalAmount: number;
+  /** Preço negociado por viajante (ex.: vindo de orçamento). EN: Negotiated per-traveler price. */
+  unitPrice?: number | null;
+  specialRequests?: string | null;
+  passengers?: PassengerDraft[];
+}
+
+export interface CreateOrderResult {
+  order: Tables<"orders"> | null;
+  /** Erro fatal: o pedido não foi criado. EN: Fatal error, order not created. */
+  error: { message: string; hint?: string } | null;
+}
+
+/**
+ * Cria o pedido com seus passageiros e o registro de pagamento (vencimento na data da viagem).
+ * Caminho único de criação usado pelo formulário de pedido e pela conversão de orçamentos.
+ * Tudo é gravado em uma única transação (create_order_with_passengers): se os passageiros
+ * ou o pagamento falharem, o pedido não é criado. O número do pedido é gerado pelo banco.
+ *
+ * EN: Creates the order, its passengers and the payment row (due on travel date) in a single
+ * transaction, so a failure never leaves a partial order. Shared by the order form and quote
+ * conversion. The order number is generated by the database.
+ */
+export async function createOrderWithPayment(input: CreateOrderInput): Promise<CreateOrderResult> {
+  const { data: orderId, error: rpcError } = await supabase.rpc("create_order_with_passengers", {
+    _organization_id: input.organizationId,
+    _customer_id: input.customerId,
+    _package_id: input.packageId,
+    _departure_id: input.departureId || undefined,
+    _travel_date: input.travelDate,
+    _number_of_travelers: input.numberOfTravelers,
+    _total_amount: input.totalAmount,
+    _unit_price: input.unitPrice ?? undefined,
+    _special_requests: input.specialRequests || undefined,
+    _passengers: (input.passengers ?? []).map(toPassengerFields),
+  });
+
+  if (rpcError || !orderId) {
+    return { order: null, error: rpcError || { message: "Erro ao criar pedido" } };
+  }
+
+  const { data: order, error: orderError } = await supabase.from("orders").select("*").eq("id", orderId).single();
+  if (orderError || !order) {
+    return { order: null, error: orderError || { message: "Erro ao carregar pedido" } };
+  }
+
+  return { order, error: null };
+}
+
+export interface OrderNumberingSettings {
+  order_number_prefix: string;
+  order_number_padding: number;
+  order_number_yearly_reset: boolean;
+}
+
+/**
+ * Formata um número de pedido como o banco (format_order_number), para pré-visualização.
+ * Entrada: { prefix: "PED", padding: 6, yearly_reset: true }, 42, 2025 → Saída: "PED-2025-000042"
+ *
+ * EN: Formats an order number the same way the database does, for previews.
+ */
+export function formatOrderNumber(
+  settings: OrderNumberingSettings,
+  sequence: number,
+  year = new Date().getFullYear()
+): string {
+  const yearPart = settings.order_number_yearly_reset ? `${year}-` : "";
+  return `${settings.order_number_prefix}-${yearPart}${String(sequence).padStart(settings.order_number_padding, "0")}`;
+}
+
+/**
+ * Preço unitário gravado no item: descontos são armazenados como valor negativo.
+ * Entrada: ("discount", 150) → Saída: -150 | ("insurance", 89.9) → Saída: 89.9
+ *
+ * EN: Signed unit price stored on the item (discounts are negative).
+ */
+export function signedOrderItemPrice(itemType: string, amount: number): number {
+  const absolute = Math.abs(amount);
+  return itemType === "discount" ? -absolute : absolute;
+}
+
+/**
+ * Transições de status permitidas (espelha is_valid_order_status_transition no banco).
+ * Concluído e cancelado são finais. O cancelamento é feito pelo assistente (cancel_order).
+ *
+ * EN: Allowed status transitions, mirroring the database rule.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+/**
+ * Motivo pelo qual o pedido não pode ir para o status informado, ou null se a transição é válida.
+ * Entrada: ({ status: "confirmed", travel_date: "2099-01-10" }, "completed")
+ *   → Saída: "O pedido só pode ser concluído a partir da data da viagem"
+ *
+ * EN: Reason why the order cannot move to the given status, or null when allowed.
+ */
+export function getStatusTransitionBlocker(
+  order: { status: string; travel_date: string },
+  to: string
+): string | null {
+  if (order.status === to) return null;
+  const allowed = ORDER_STATUS_TRANSITIONS[order.status as OrderStatus] || [];
+  if (!allowed.includes(to as OrderStatus)) {
+    return "Transição de status não permitida";
+  }
+  if (to === "cancelled") {
+    return "Use o assistente de cancelamento na página do pedido";
+  }
+  if (to === "completed" && order.travel_date > format(new Date(), "yyyy-MM-dd")) {
+    return "O pedido só pode ser concluído a partir da data da viagem";
+  }
+  return null;
+}
+
+/**
+ * Extrai a mensagem amigável de um erro de transição de status vindo do banco.
+ * EN: Extracts a user-facing message from a database status transition error.
+ */
+export function getStatusTransitionMessage(error: { message?: string; hint?: string } | null | undefined): string | null {
+  if (!error?.message) return null;
+  return error.hint === "invalid_status_transition" ? error.message : null;
+}
+
+/**
+ * Altera o status do pedido registrando o motivo no histórico (RPC change_order_status).
+ * As regras de transição e a data de confirmação são aplicadas pelo banco.
+ *
+ * EN: Changes the order status and records the reason in the status history.
+ */
+export async function changeOrderStatus(orderId: string, status: OrderStatus, reason?: string) {
+  return supabase.rpc("change_order_status", {
+    _order_id: orderId,
+    _status: status,
+    _reason: reason?.trim() || undefined,
+  });
+}
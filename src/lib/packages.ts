@@ -0,0 +1,53 @@
+/**
+ * Retorna a mensagem de overbooking gerada pelo banco (reserve_package_spots),
+ * ou null quando o erro não é de falta de vagas.
+ * Entrada: { message: 'Vagas insuficientes no pacote "Paris": restam 1 vaga(s) e o pedido requer 3.' }
+ * Saída: 'Vagas insuficientes no pacote "Paris": restam 1 vaga(s) e o pedido requer 3.'
+ *
+ * EN: Returns the database overbooking message, or null for unrelated errors.
+ */
+export function getOverbookingMessage(error: { message?: string; hint?: string } | null | undefined): string | null {
+  if (!error?.message) return null;
+  if (error.hint === "overbooking" || error.message.startsWith("Vagas insuficientes")) {
+    return error.message;
+  }
+  return null;
+}
+
+/**
+ * Descreve a capacidade restante de um pacote para exibição.
+ * Entrada: 0 → "Esgotado" | 1 → "1 vaga" | 12 → "12 vagas" | null → "Sem limite"
+ *
+ * EN: Human-readable remaining capacity label.
+ */
+export function formatRemainingSpots(spots: number | null | undefined): string {
+  if (spots === null || spots === undefined) return "Sem limite";
+  if (spots <= 0) return "Esgotado";
+  return spots === 1 ? "1 vaga" : `${spots} vagas`;
+}
+
+interface DepartureCapacity {
+  capacity: number;
+  reserved_spots: number;
+}
+
+/**
+ * Vagas restantes de uma saída (capacidade - reservadas).
+ * Entrada: { capacity: 40, reserved_spots: 32 } → Saída: 8
+ *
+ * EN: Remaining spots for a departure.
+ */
+export function departureRemainingSpots(departure: DepartureCapacity): number {
+  return Math.max(departure.capacity - departure.reserved_spots, 0);
+}
+
+/**
+ * Percentual de ocupação de uma saída (0-100).
+ * Entrada: { capacity: 40, reserved_spots: 10 } → Saída: 25
+ *
+ * EN: Departure occupancy percentage (0-100).
+ */
+export function departureOccupancyPercent(departure: DepartureCapacity): number {
+  if (departure.capacity <= 0) return 100;
+  return Math.min(Math.round((departure.reserved_spots / departure.capacity) * 100), 100);
+}
@@ -0,0 +1,110 @@
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { cleanCpf, formatCpf } from "@/lib/utils";
+
+/**
+ * Passageiro em edição nos formulários de pedido (criar/editar).
+ * EN: Passenger being edited in the order forms (create/edit).
+ */
+export interface PassengerDraft {
+  id?: string;
+  customer_id: string | null;
+  full_name: string;
+  cpf: string;
+  birth_date: string;
+  document_type: string;
+  document_number: string;
+  is_primary: boolean;
+}
+
+interface CustomerLike {
+  id: string;
+  full_name: string;
+  cpf?: string | null;
+  birth_date?: string | null;
+}
+
+/**
+ * Cria um passageiro a partir de um cliente cadastrado.
+ * EN: Builds a passenger draft from an existing customer.
+ */
+export function passengerFromCustomer(customer: CustomerLike, isPrimary = false): PassengerDraft {
+  return {
+    customer_id: customer.id,
+    full_name: customer.full_name,
+    cpf: customer.cpf ? formatCpf(customer.cpf) : "",
+    birth_date: customer.birth_date || "",
+    document_type: "",
+    document_number: "",
+    is_primary: isPrimary,
+  };
+}
+
+/**
+ * Cria um passageiro avulso (sem cadastro de cliente) em branco.
+ * EN: Builds an empty ad-hoc passenger draft.
+ */
+export function emptyPassenger(): PassengerDraft {
+  return {
+    customer_id: null,
+    full_name: "",
+    cpf: "",
+    birth_date: "",
+    document_type: "",
+    document_number: "",
+    is_primary: false,
+  };
+}
+
+/**
+ * Converte uma linha de order_passengers para o formato de edição.
+ * EN: Converts an order_passengers row into an editable draft.
+ */
+export function passengerFromRow(row: Tables<"order_passengers">): PassengerDraft {
+  return {
+    id: row.id,
+    customer_id: row.customer_id,
+    full_name: row.full_name,
+    cpf: row.cpf ? formatCpf(row.cpf) : "",
+    birth_date: row.birth_date || "",
+    document_type: row.document_type || "",
+    document_number: row.document_number || "",
+    is_primary: row.is_primary,
+  };
+}
+
+/**
+ * Dados pessoais do passageiro como são gravados (CPF apenas com dígitos).
+ * Usado também no payload de create_order_with_passengers.
+ *
+ * EN: Passenger personal data as stored (CPF digits only); also the RPC payload.
+ */
+export function toPassengerFields(draft: PassengerDraft) {
+  return {
+    customer_id: draft.customer_id,
+    full_name: draft.full_name.trim(),
+    cpf: draft.cpf ? cleanCpf(draft.cpf) : null,
+    birth_date: draft.birth_date || null,
+    document_type: draft.document_type || null,
+    document_number: draft.document_number.trim() || null,
+    is_primary: draft.is_primary,
+  };
+}
+
+/**
+ * Converte um passageiro em edição para o payload de insert/upsert.
+ * EN: Converts a draft into an insert/upsert payload.
+ */
+export function toPassengerInsert(
+  draft: PassengerDraft,
+  orderId: string,
+  organizationId: string,
+  userId: string
+): TablesInsert<"order_passengers"> {
+  return {
+    ...(draft.id && { id: draft.id }),
+    order_id: orderId,
+    organization_id: organizationId,
+    ...toPassengerFields(draft),
+    created_by: userId,
+  };
+}
@@ -0,0 +1,183 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PayableStatusFilter } from "@/lib/constants";
+import { todayDateOnly } from "@/lib/lateFees";
+import type { PayableFormData, SupplierFormData } from "@/lib/validations";
+import { roundCents } from "@/lib/utils";
+
+export type Supplier = Tables<"suppliers">;
+export type Payable = Tables<"payables">;
+
+export type PayableWithLinks = Payable & {
+  supplier: Pick<Supplier, "id" | "name" | "category"> | null;
+  package: Pick<Tables<"travel_packages">, "id" | "name"> | null;
+  order: Pick<Tables<"orders">, "id" | "order_number"> | null;
+};
+
+export interface PayablePaymentInput {
+  paid_date: string;
+  paid_amount: number;
+  payment_method: string | null;
+}
+
+const PAYABLE_SELECT = "*, supplier:suppliers(id, name, category), package:travel_packages(id, name), order:orders(id, order_number)";
+
+/**
+ * Conta em aberto com vencimento anterior a hoje.
+ * Entrada: { status: "pending", due_date: "2025-01-10" } em 2025-01-15 → true
+ *
+ * EN: Whether an open payable is past its due date.
+ */
+export const isPayableOverdue = (payable: Pick<Payable, "status" | "due_date">, today: string = todayDateOnly()) =>
+  payable.status === "pending" && payable.due_date < today;
+
+/**
+ * Status para exibição, com "overdue" derivado do vencimento.
+ * EN: Display status, deriving "overdue" from the due date.
+ */
+export const getPayableDisplayStatus = (payable: Pick<Payable, "status" | "due_date">): PayableStatusFilter =>
+  isPayableOverdue(payable) ? "overdue" : payable.status;
+
+/**
+ * Lista os fornecedores da organização em ordem alfabética.
+ * EN: Lists the organization suppliers alphabetically.
+ */
+export async function listSuppliers(organizationId: string, options: { activeOnly?: boolean } = {}) {
+  let query = supabase.from("suppliers").select("*").eq("organization_id", organizationId);
+  if (options.activeOnly) query = query.eq("is_active", true);
+  const { data, error } = await query.order("name", { ascending: true });
+  return { suppliers: data ?? [], error };
+}
+
+/**
+ * Cria ou atualiza um fornecedor; campos opcionais vazios são gravados como null.
+ * EN: Creates or updates a supplier; empty optional fields are stored as null.
+ */
+export async function saveSupplier(
+  values: SupplierFormData,
+  context: { organizationId: string; userId: string; supplierId?: string }
+) {
+  const row = {
+    name: values.name,
+    category: values.category,
+    document: values.document || null,
+    contact_name: values.contact_name || null,
+    email: values.email || null,
+    phone: values.phone || null,
+    pix_key: values.pix_key || null,
+    bank_details: values.bank_details || null,
+    notes: values.notes || null,
+  };
+
+  if (context.supplierId) {
+    return supabase.from("suppliers").update(row).eq("id", context.supplierId).select().single();
+  }
+  return supabase
+    .from("suppliers")
+    .insert({ ...row, organization_id: context.organizationId, created_by: context.userId })
+    .select()
+    .single();
+}
+
+/**
+ * Ativa ou desativa um fornecedor (inativos não aparecem em novas contas).
+ * EN: Activates or deactivates a supplier (inactive ones are hidden from new payables).
+ */
+export async function setSupplierActive(supplierId: string, active: boolean) {
+  return supabase.from("suppliers").update({ is_active: active }).eq("id", supplierId);
+}
+
+/**
+ * Exclui um fornecedor. Falha (código 23503) quando há contas a pagar vinculadas.
+ * EN: Deletes a supplier; fails with 23503 when payables reference it.
+ */
+export async function deleteSupplier(supplierId: string) {
+  return supabase.from("suppliers").delete().eq("id", supplierId);
+}
+
+/**
+ * Lista as contas a pagar por vencimento, com fornecedor, pacote e pedido.
+ * - "pending" traz todas em aberto (inclusive vencidas); "overdue" só as vencidas.
+ *
+ * EN: Lists payables by due date with supplier, package and order.
+ * "pending" returns every open payable (overdue included); "overdue" only past-due ones.
+ */
+export async function listPayables(
+  organizationId: string,
+  filters: { status: PayableStatusFilter | "all"; supplierId?: string | null }
+) {
+  let query = supabase.from("payables").select(PAYABLE_SELECT).eq("organization_id", organizationId);
+
+  if (filters.status === "overdue") {
+    query = query.eq("status", "pending").lt("due_date", todayDateOnly());
+  } else if (filters.status !== "all") {
+    query = query.eq("status", filters.status);
+  }
+  if (filters.supplierId) {
+    query = query.eq("supplier_id", filters.supplierId);
+  }
+
+  const { data, error } = await query.order("due_date", { ascending: true }).order("created_at", { ascending: true });
+  return { payables: (data ?? []) as PayableWithLinks[], error };
+}
+
+/**
+ * Cria ou atualiza uma conta a pagar.
+ * EN: Creates or updates a payable.
+ */
+export async function savePayable(
+  values: PayableFormData,
+  context: { organizationId: string; userId: string; payableId?: string }
+) {
+  const row = {
+    supplier_id: values.supplier_id,
+    description: values.description,
+    document_number: values.document_number || null,
+    amount: roundCents(values.amount),
+    due_date: values.due_date,
+    package_id: values.package_id,
+    order_id: values.order_id,
+    notes: values.notes || null,
+  };
+
+  if (context.payableId) {
+    return supabase.from("payables").update(row).eq("id", context.payableId).select().single();
+  }
+  return supabase
+    .from("payables")
+    .insert({ ...row, organization_id: context.organizationId, created_by: context.userId })
+    .select()
+    .single();
+}
+
+/**
+ * Registra o pagamento da conta (data, valor pago e forma de pagamento).
+ * EN: Marks a payable as paid with date, amount and method.
+ */
+export async function markPayablePaid(payableId: string, input: PayablePaymentInput) {
+  return supabase
+    .from("payables")
+    .update({
+      status: "paid",
+      paid_date: input.paid_date,
+      paid_amount: roundCents(input.paid_amount),
+      payment_method: input.payment_method,
+    })
+    .eq("id", payableId);
+}
+
+/**
+ * Reabre (estorna o pagamento) ou cancela uma conta; os dados de pagamento são limpos pelo banco.
+ * EN: Reopens (reverses payment) or cancels a payable; payment data is cleared by the database.
+ */
+export async function setPayableStatus(payableId: string, status: "pending" | "cancelled") {
+  return supabase.from("payables").update({ status }).eq("id", payableId);
+}
+
+/**
+ * Exclui uma conta a pagar (somente administradores).
+ * EN: Deletes a payable (admins only).
+ */
+export async function deletePayable(payableId: string) {
+  return supabase.from("payables").delete().eq("id", payableId);
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { buildPixPayload, crc16 } from "@/lib/pix";
+
+describe("crc16", () => {
+  it("calcula o CRC16-CCITT de referência", () => {
+    expect(crc16("123456789")).toBe("29B1");
+  });
+
+  it("confere com o exemplo do manual do BR Code", () => {
+    const payload =
+      "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR" +
+      "5913Fulano de Tal6008BRASILIA62070503***6304";
+    expect(crc16(payload)).toBe("1D3D");
+  });
+});
+
+describe("buildPixPayload", () => {
+  it("termina com o CRC do próprio conteúdo", () => {
+    const payload = buildPixPayload({
+      key: "contato@viagens.com.br",
+      merchantName: "Viagens Exemplo",
+      merchantCity: "São Paulo",
+      amount: 150.5,
+      txid: "PED0001P1",
+    });
+    expect(payload).toContain("5406150.50");
+    expect(payload).toContain("6009SAO PAULO");
+    expect(payload.slice(-4)).toBe(crc16(payload.slice(0, -4)));
+  });
+});
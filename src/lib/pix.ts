@@ -0,0 +1,169 @@
+import QRCode from "qrcode";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PixKeyType } from "@/lib/constants";
+
+export type PixSettings = Pick<
+  Tables<"organizations">,
+  "pix_key" | "pix_key_type" | "pix_merchant_name" | "pix_merchant_city"
+>;
+
+// Identificador do arranjo PIX no campo 26 (Merchant Account Information)
+const PIX_GUI = "br.gov.bcb.pix";
+// Código ISO 4217 do real
+const BRL_CURRENCY_CODE = "986";
+
+/**
+ * Campo EMV no formato ID + tamanho (2 dígitos) + valor.
+ * Entrada: ("58", "BR") → Saída: "5802BR"
+ */
+const tlv = (id: string, value: string) => `${id}${String(value.length).padStart(2, "0")}${value}`;
+
+/**
+ * CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF) exigido no campo 63 do BR Code.
+ * Entrada: "123456789" → Saída: "29B1"
+ *
+ * EN: CRC16-CCITT (poly 0x1021, init 0xFFFF) required by BR Code field 63.
+ */
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+/**
+ * Texto em ASCII maiúsculo, sem acentos, cortado no tamanho máximo do campo.
+ * Entrada: ("São Paulo", 15) → Saída: "SAO PAULO"
+ */
+const sanitizeText = (text: string, maxLength: number) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 .\-/]/g, "")
+    .trim()
+    .toUpperCase()
+    .slice(0, maxLength);
+
+/**
+ * Normaliza a chave para o formato aceito pelo DICT.
+ * Entrada: ("phone", "(11) 98765-4321") → Saída: "+5511987654321"
+ *
+ * EN: Normalizes the key to the DICT format.
+ */
+export function normalizePixKey(type: PixKeyType, key: string): string {
+  const trimmed = key.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  switch (type) {
+    case "cpf":
+    case "cnpj":
+      return digits;
+    case "phone":
+      return digits.length > 11 && digits.startsWith("55") ? `+${digits}` : `+55${digits}`;
+    case "email":
+    case "random":
+      return trimmed.toLowerCase();
+  }
+}
+
+/**
+ * Identificador da cobrança (txid): até 25 caracteres alfanuméricos.
+ * Entrada: ("PED-000042", 2) → Saída: "PED000042P2"
+ *
+ * EN: Charge identifier (txid), up to 25 alphanumeric characters.
+ */
+export function getInstallmentTxid(orderNumber: string, installmentNumber: number): string {
+  const suffix = `P${installmentNumber}`;
+  return `${orderNumber.replace(/[^A-Za-z0-9]/g, "").slice(0, 25 - suffix.length)}${suffix}`;
+}
+
+export const isPixConfigured = (settings: Partial<PixSettings> | null | undefined): settings is PixSettings =>
+  !!(settings?.pix_key && settings.pix_key_type && settings.pix_merchant_name && settings.pix_merchant_city);
+
+/**
+ * Carrega os dados PIX da organização; null quando a chave não está cadastrada.
+ * EN: Loads the organization PIX data; null when no key is registered.
+ */
+export async function loadPixSettings(organizationId: string): Promise<PixSettings | null> {
+  const { data } = await supabase
+    .from("organizations")
+    .select("pix_key, pix_key_type, pix_merchant_name, pix_merchant_city")
+    .eq("id", organizationId)
+    .maybeSingle();
+  return isPixConfigured(data) ? data : null;
+}
+
+interface PixPayloadInput {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+  amount?: number;
+  txid?: string;
+  description?: string;
+}
+
+/**
+ * Monta o BR Code estático ("PIX copia e cola") no padrão EMV do Banco Central:
+ * campos TLV, valor opcional, txid no campo 62 e CRC16 no final.
+ *
+ * EN: Builds the static BR Code ("PIX copy and paste") following the Central Bank EMV
+ * layout: TLV fields, optional amount, txid in field 62 and trailing CRC16.
+ */
+export function buildPixPayload({ key, merchantName, merchantCity, amount, txid, description }: PixPayloadInput): string {
+  const gui = tlv("00", PIX_GUI);
+  const keyField = tlv("01", key);
+  // O campo 26 tem no máximo 99 caracteres; a descrição usa o espaço que sobrar
+  const descriptionRoom = 99 - gui.length - keyField.length - 4;
+  const info = description ? sanitizeText(description, Math.max(descriptionRoom, 0)) : "";
+  const merchantAccount = gui + keyField + (info ? tlv("02", info) : "");
+
+  const payload = [
+    tlv("00", "01"),
+    tlv("26", merchantAccount),
+    tlv("52", "0000"),
+    tlv("53", BRL_CURRENCY_CODE),
+    amount && amount > 0 ? tlv("54", amount.toFixed(2)) : "",
+    tlv("58", "BR"),
+    tlv("59", sanitizeText(merchantName, 25)),
+    tlv("60", sanitizeText(merchantCity, 15)),
+    tlv("62", tlv("05", (txid || "").replace(/[^A-Za-z0-9]/g, "").slice(0, 25) || "***")),
+    "6304",
+  ].join("");
+
+  return payload + crc16(payload);
+}
+
+interface InstallmentPixInput {
+  orderNumber: string;
+  installmentNumber: number;
+  totalInstallments: number;
+  amount: number;
+}
+
+/**
+ * BR Code de uma parcela com o valor, txid e descrição "Pedido X parcela N/T".
+ * EN: BR Code for an installment, with amount, txid and "order X installment N/T" description.
+ */
+export function buildInstallmentPixPayload(settings: PixSettings, installment: InstallmentPixInput): string {
+  return buildPixPayload({
+    key: settings.pix_key,
+    merchantName: settings.pix_merchant_name,
+    merchantCity: settings.pix_merchant_city,
+    amount: installment.amount,
+    txid: getInstallmentTxid(installment.orderNumber, installment.installmentNumber),
+    description: `Pedido ${installment.orderNumber} parcela ${installment.installmentNumber}/${installment.totalInstallments}`,
+  });
+}
+
+/**
+ * QR code (PNG em data URL) do BR Code.
+ * EN: QR code (PNG data URL) for a BR Code payload.
+ */
+export function getPixQrDataUrl(payload: string): Promise<string> {
+  return QRCode.toDataURL(payload, { margin: 1, width: 320, errorCorrectionLevel: "M" });
+}
@@ -0,0 +1,173 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { createOrderWithPayment, type CreateOrderResult } from "@/lib/orders";
+import type { QuoteStatus } from "@/lib/constants";
+import { todayDateOnly } from "@/lib/lateFees";
+
+/**
+ * Opção em edição no formulário de orçamento.
+ * EN: Quote option being edited in the quote form.
+ */
+export interface QuoteOptionDraft {
+  id?: string;
+  title: string;
+  package_id: string;
+  departure_id: string | null;
+  travel_date: string;
+  number_of_travelers: number;
+  unit_price: number;
+  notes: string;
+}
+
+/** Status exibido: o gravado no banco ou "expired" quando a validade passou. EN: Displayed status. */
+export type QuoteDisplayStatus = QuoteStatus | "expired";
+
+export function emptyQuoteOption(): QuoteOptionDraft {
+  return {
+    title: "",
+    package_id: "",
+    departure_id: null,
+    travel_date: "",
+    number_of_travelers: 1,
+    unit_price: 0,
+    notes: "",
+  };
+}
+
+export function quoteOptionFromRow(row: Tables<"quote_options">): QuoteOptionDraft {
+  return {
+    id: row.id,
+    title: row.title,
+    package_id: row.package_id,
+    departure_id: row.departure_id,
+    travel_date: row.travel_date || "",
+    number_of_travelers: row.number_of_travelers,
+    unit_price: Number(row.unit_price),
+    notes: row.notes || "",
+  };
+}
+
+/**
+ * Converte a opção em edição para o formato de inserção/upsert em quote_options.
+ * EN: Maps a draft option to a quote_options insert/upsert payload.
+ */
+export function toQuoteOptionInsert(
+  draft: QuoteOptionDraft,
+  quoteId: string,
+  organizationId: string,
+  userId: string,
+  position: number
+): TablesInsert<"quote_options"> {
+  return {
+    ...(draft.id ? { id: draft.id } : {}),
+    quote_id: quoteId,
+    organization_id: organizationId,
+    package_id: draft.package_id,
+    departure_id: draft.departure_id || null,
+    title: draft.title.trim(),
+    travel_date: draft.travel_date || null,
+    number_of_travelers: draft.number_of_travelers,
+    unit_price: draft.unit_price,
+    total_amount: quoteOptionTotal(draft),
+    notes: draft.notes.trim() || null,
+    position,
+    created_by: userId,
+  };
+}
+
+/**
+ * Total de uma opção (preço por viajante × viajantes).
+ * Entrada: { unit_price: 1500, number_of_travelers: 2 } → Saída: 3000
+ *
+ * EN: Option total (unit price × travelers).
+ */
+export function quoteOptionTotal(option: { unit_price: number; number_of_travelers: number }): number {
+  return Math.round(option.unit_price * option.number_of_travelers * 100) / 100;
+}
+
+/**
+ * Indica se a validade do orçamento já passou (comparação por data, sem horário).
+ * EN: Whether the quote's validity date is in the past (date-only comparison).
+ */
+export function isQuoteExpired(quote: { valid_until: string }): boolean {
+  return quote.valid_until < todayDateOnly();
+}
+
+/**
+ * Orçamentos em aberto (rascunho/enviado/aceito) vencidos aparecem como "expired";
+ * recusados e convertidos mantêm o status gravado.
+ *
+ * EN: Open quotes past their validity show as "expired"; final statuses are kept.
+ */
+export function getQuoteDisplayStatus(quote: { status: QuoteStatus; valid_until: string }): QuoteDisplayStatus {
+  if (quote.status === "rejected" || quote.status === "converted") return quote.status;
+  return isQuoteExpired(quote) ? "expired" : quote.status;
+}
+
+/**
+ * Link público (somente leitura) do orçamento para envio ao cliente.
+ * EN: Public read-only link to send the quote to the customer.
+ */
+export function getQuoteShareUrl(shareToken: string): string {
+  return `${window.location.origin}/quotes/share/${shareToken}`;
+}
+
+export interface QuoteConversionResult extends CreateOrderResult {
+  /** Avisos: pedido criado, mas o orçamento não foi marcado como convertido. EN: Non-fatal follow-up failures. */
+  warnings: string[];
+}
+
+/**
+ * Converte uma opção do orçamento em pedido usando o mesmo caminho de criação de pedidos
+ * (pedido + pagamento) e marca o orçamento como convertido.
+ * Os passageiros não são criados aqui: o pedido mantém a quantidade e o preço negociado
+ * e a lista é preenchida depois na edição do pedido.
+ *
+ * EN: Converts a quote option into an order through the regular order creation path
+ * (order + payment) and flags the quote as converted. Passengers are filled in later.
+ */
+export async function convertQuoteOptionToOrder(
+  quote: Pick<Tables<"quotes">, "id" | "organization_id" | "customer_id" | "quote_number">,
+  option: Tables<"quote_options"> & { departure?: { departure_date: string } | null },
+  userId: string
+): Promise<QuoteConversionResult> {
+  const travelDate = option.departure?.departure_date || option.travel_date;
+  if (!travelDate) {
+    return {
+      order: null,
+      error: { message: "Informe a data da viagem na opção antes de converter" },
+      warnings: [],
+    };
+  }
+
+  const created = await createOrderWithPayment({
+    organizationId: quote.organization_id,
+    userId,
+    customerId: quote.customer_id,
+    packageId: option.package_id,
+    departureId: option.departure_id,
+    travelDate,
+    numberOfTravelers: option.number_of_travelers,
+    totalAmount: Number(option.total_amount),
+    unitPrice: Number(option.unit_price),
+    specialRequests: `Convertido do orçamento ${quote.quote_number} (${option.title})`,
+  });
+  const result: QuoteConversionResult = { ...created, warnings: [] };
+
+  if (!result.order) return result;
+
+  const { error: quoteError } = await supabase
+    .from("quotes")
+    .update({
+      status: "converted",
+      converted_order_id: result.order.id,
+      converted_at: new Date().toISOString(),
+    })
+    .eq("id", quote.id);
+
+  if (quoteError) {
+    result.warnings.push("Pedido criado, mas erro ao marcar orçamento como convertido");
+  }
+
+  return result;
+}
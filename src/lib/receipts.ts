@@ -0,0 +1,273 @@
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCnpj, formatCpf, formatCurrency, formatPhone } from "@/lib/utils";
+import { getBrandColor, hexToRgb } from "@/lib/vouchers";
+
+export type PaymentReceipt = Tables<"payment_receipts">;
+
+export interface ReceiptData {
+  receipt: PaymentReceipt;
+  organization: Tables<"organizations">;
+  order: { id: string; order_number: string };
+  customerEmail: string | null;
+}
+
+const UNITS = [
+  "zero", "um", "dois", "três", "quatro", "cinco", "seis", "sete", "oito", "nove", "dez",
+  "onze", "doze", "treze", "quatorze", "quinze", "dezesseis", "dezessete", "dezoito", "dezenove",
+];
+const TENS = ["", "", "vinte", "trinta", "quarenta", "cinquenta", "sessenta", "setenta", "oitenta", "noventa"];
+const HUNDREDS = [
+  "", "cento", "duzentos", "trezentos", "quatrocentos", "quinhentos", "seiscentos", "setecentos", "oitocentos", "novecentos",
+];
+const SCALES: [string, string][] = [["", ""], ["mil", "mil"], ["milhão", "milhões"], ["bilhão", "bilhões"]];
+
+/** Número de 1 a 999 por extenso. EN: 1..999 in Portuguese words. */
+function hundredsInWords(value: number): string {
+  if (value === 100) return "cem";
+  const parts: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  if (hundreds) parts.push(HUNDREDS[hundreds]);
+  if (rest) {
+    if (rest < 20) {
+      parts.push(UNITS[rest]);
+    } else {
+      const units = rest % 10;
+      parts.push(units ? `${TENS[Math.floor(rest / 10)]} e ${UNITS[units]}` : TENS[Math.floor(rest / 10)]);
+    }
+  }
+  return parts.join(" e ");
+}
+
+/**
+ * Inteiro por extenso. O último grupo é ligado com "e" quando é menor que cem ou uma centena exata.
+ * Entrada: 1234 → "mil duzentos e trinta e quatro" | 1200 → "mil e duzentos" | 1200000 → "um milhão e duzentos mil"
+ *
+ * EN: Integer in Portuguese words.
+ */
+function integerInWords(value: number): string {
+  if (value === 0) return UNITS[0];
+
+  const groups: number[] = [];
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 1000)) {
+    groups.push(rest % 1000);
+  }
+
+  const parts: { text: string; group: number }[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    const group = groups[i];
+    if (!group) continue;
+    if (i === 0) parts.push({ text: hundredsInWords(group), group });
+    else if (i === 1) parts.push({ text: group === 1 ? "mil" : `${hundredsInWords(group)} mil`, group });
+    else parts.push({ text: `${hundredsInWords(group)} ${SCALES[i][group === 1 ? 0 : 1]}`, group });
+  }
+
+  return parts.reduce((text, part, index) => {
+    if (index === 0) return part.text;
+    const isLast = index === parts.length - 1;
+    const joinWithAnd = isLast && (part.group < 100 || part.group % 100 === 0);
+    return `${text}${joinWithAnd ? " e " : " "}${part.text}`;
+  }, "");
+}
+
+/**
+ * Valor em reais por extenso, como exigido no recibo.
+ * Entrada: 1234.5 → "mil duzentos e trinta e quatro reais e cinquenta centavos"
+ * Entrada: 1000000 → "um milhão de reais" | 0.01 → "um centavo"
+ *
+ * EN: Amount in Brazilian reais written out in Portuguese words.
+ */
+export function amountInWords(value: number): string {
+  const totalCents = Math.round(Math.abs(Number(value)) * 100);
+  const reais = Math.floor(totalCents / 100);
+  const cents = totalCents % 100;
+
+  const parts: string[] = [];
+  if (reais > 0 || cents === 0) {
+    const exactMillions = reais >= 1_000_000 && reais % 1_000_000 === 0;
+    parts.push(`${integerInWords(reais)}${exactMillions ? " de" : ""} ${reais === 1 ? "real" : "reais"}`);
+  }
+  if (cents > 0) {
+    parts.push(`${integerInWords(cents)} ${cents === 1 ? "centavo" : "centavos"}`);
+  }
+  return parts.join(" e ");
+}
+
+export const formatReceiptDate = (date: string) => format(new Date(`${date.slice(0, 10)}T00:00:00`), "dd/MM/yyyy");
+
+/**
+ * Texto principal do recibo (usado na tela e no PDF).
+ * EN: Main receipt sentence, shared by the page and the PDF.
+ */
+export function getReceiptStatement(receipt: PaymentReceipt): string {
+  const payer = receipt.payer_cpf ? `${receipt.payer_name}, CPF ${formatCpf(receipt.payer_cpf)}` : receipt.payer_name;
+  const method = receipt.payment_method ? ` via ${receipt.payment_method}` : "";
+  return (
+    `Recebemos de ${payer}, a importância de ${formatCurrency(Number(receipt.amount))} ` +
+    `(${amountInWords(Number(receipt.amount))}), referente a ${receipt.description}, ` +
+    `paga${method} em ${formatReceiptDate(receipt.payment_date)}.`
+  );
+}
+
+/**
+ * Local e data da emissão. Entrada: cidade "Recife", UF "PE" → "Recife/PE, 5 de março de 2025"
+ * EN: Place and date line printed above the signature.
+ */
+export function getReceiptPlaceAndDate(receipt: PaymentReceipt, organization: Tables<"organizations">): string {
+  const place = [organization.city, organization.state].filter(Boolean).join("/");
+  const date = format(new Date(`${receipt.payment_date.slice(0, 10)}T00:00:00`), "d 'de' MMMM 'de' yyyy", { locale: ptBR });
+  return place ? `${place}, ${date}` : date;
+}
+
+/**
+ * Carrega o recibo com a organização emissora e o pedido.
+ * EN: Loads the receipt with its issuing organization and order.
+ */
+export async function loadReceiptData(receiptId: string): Promise<{ data: ReceiptData | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("payment_receipts")
+    .select("*, organization:organizations(*), order:orders(id, order_number, customer:customers(email))")
+    .eq("id", receiptId)
+    .single();
+
+  if (error || !data || !data.organization || !data.order) {
+    return { data: null, error: "Recibo não encontrado" };
+  }
+
+  const { organization, order, ...receipt } = data;
+  return {
+    data: {
+      receipt: receipt as PaymentReceipt,
+      organization,
+      order: { id: order.id, order_number: order.order_number },
+      customerEmail: order.customer?.email ?? null,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Gera o PDF do recibo (A4) com faixa na cor da agência, valor por extenso e assinatura.
+ * EN: Builds the receipt PDF (A4) with the agency color band, amount in words and signature line.
+ */
+export function createReceiptPdf(data: ReceiptData, { logoDataUrl }: { logoDataUrl?: string | null } = {}): Blob {
+  const { receipt, organization } = data;
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const contentWidth = pageWidth - margin * 2;
+  const [r, g, b] = hexToRgb(getBrandColor(organization));
+
+  // Cabeçalho na cor da marca
+  doc.setFillColor(r, g, b);
+  doc.rect(0, 0, pageWidth, 32, "F");
+  if (logoDataUrl) {
+    try {
+      const imageFormat = logoDataUrl.startsWith("data:image/png") ? "PNG" : "JPEG";
+      doc.addImage(logoDataUrl, imageFormat, margin, 6, 20, 20, undefined, "FAST");
+    } catch {
+      // Logo inválido: segue sem imagem
+    }
+  }
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(organization.name, pageWidth - margin, 15, { align: "right" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  const contacts = [organization.email, organization.phone ? formatPhone(organization.phone) : null].filter(Boolean).join(" · ");
+  if (contacts) {
+    doc.text(contacts, pageWidth - margin, 22, { align: "right" });
+  }
+
+  doc.setTextColor(0, 0, 0);
+  let y = 48;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(20);
+  doc.text("RECIBO", margin, y);
+  doc.setFontSize(12);
+  doc.setTextColor(r, g, b);
+  doc.text(`Nº ${receipt.receipt_number}`, margin, y + 8);
+  doc.setFontSize(18);
+  doc.text(formatCurrency(Number(receipt.amount)), pageWidth - margin, y, { align: "right" });
+  doc.setTextColor(0, 0, 0);
+
+  if (receipt.cancelled_at) {
+    doc.setTextColor(220, 38, 38);
+    doc.setFontSize(12);
+    doc.text("CANCELADO (recebimento estornado)", pageWidth - margin, y + 8, { align: "right" });
+    doc.setTextColor(0, 0, 0);
+  }
+
+  y += 24;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.splitTextToSize(getReceiptStatement(receipt), contentWidth).forEach((line: string) => {
+    doc.text(line, margin, y);
+    y += 6;
+  });
+
+  const hasCharges = Number(receipt.late_fee_amount) > 0 || Number(receipt.interest_amount) > 0;
+  if (hasCharges) {
+    y += 4;
+    doc.setFontSize(10);
+    const rows: [string, number][] = [
+      ["Valor da parcela", Number(receipt.principal_amount)],
+      ["Multa", Number(receipt.late_fee_amount)],
+      ["Juros", Number(receipt.interest_amount)],
+    ];
+    rows.forEach(([label, value]) => {
+      doc.text(label, margin, y);
+      doc.text(formatCurrency(value), margin + 80, y, { align: "right" });
+      y += 5;
+    });
+    doc.setFont("helvetica", "bold");
+    doc.text("Total recebido", margin, y);
+    doc.text(formatCurrency(Number(receipt.amount)), margin + 80, y, { align: "right" });
+    doc.setFont("helvetica", "normal");
+    y += 5;
+  }
+
+  y += 10;
+  doc.setFontSize(10);
+  doc.text(`Pedido ${data.order.order_number}`, margin, y);
+  doc.text(getReceiptPlaceAndDate(receipt, organization), pageWidth - margin, y, { align: "right" });
+
+  // Assinatura do emitente
+  y += 30;
+  doc.setDrawColor(0, 0, 0);
+  doc.line(pageWidth / 2 - 50, y, pageWidth / 2 + 50, y);
+  doc.setFont("helvetica", "bold");
+  doc.text(organization.legal_name || organization.name, pageWidth / 2, y + 5, { align: "center" });
+  doc.setFont("helvetica", "normal");
+  if (organization.cnpj) {
+    doc.text(`CNPJ ${formatCnpj(organization.cnpj)}`, pageWidth / 2, y + 10, { align: "center" });
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(100, 116, 139);
+  doc.text(
+    `Emitido em ${format(new Date(), "dd/MM/yyyy HH:mm")} por ${organization.name}`,
+    pageWidth / 2,
+    pageHeight - 10,
+    { align: "center" }
+  );
+
+  return doc.output("blob");
+}
+
+/**
+ * Envia o recibo já gerado para o email do cliente (Edge Function send-receipt).
+ * EN: Emails a stored receipt PDF to the customer through the send-receipt Edge Function.
+ */
+export async function emailReceipt(receiptId: string, documentId: string) {
+  const { data, error } = await supabase.functions.invoke("send-receipt", {
+    body: { receiptId, documentId },
+  });
+  return { data: data as { ok: boolean; to: string } | null, error };
+}
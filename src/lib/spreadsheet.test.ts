@@ -0,0 +1,73 @@
+import { JSDOM } from "jsdom";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createCsv, createXlsx, neutralizeCsvFormula, parseCsv, parseXlsx } from "@/lib/spreadsheet";
+
+describe("createXlsx + parseXlsx", () => {
+  // A leitura usa o DOMParser do navegador; no Node ele vem do jsdom
+  beforeAll(() => {
+    vi.stubGlobal("DOMParser", new JSDOM("").window.DOMParser);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lê de volta o que foi gravado", async () => {
+    const blob = createXlsx(
+      [
+        { header: "Cliente", format: "text" },
+        { header: "Valor", format: "currency" },
+        { header: "Vencimento", format: "date" },
+        { header: "Parcelas", format: "number" },
+      ],
+      [
+        ["João & Maria <Ltda>", 1234.56, "2025-03-05", 3],
+        ["=SOMA(A1:A2)", null, "", 1],
+      ],
+      "Recebíveis"
+    );
+
+    const data = await parseXlsx(await blob.arrayBuffer());
+
+    expect(data.headers).toEqual(["Cliente", "Valor", "Vencimento", "Parcelas"]);
+    expect(data.rows).toEqual([
+      ["João & Maria <Ltda>", "1234.56", "45721", "3"],
+      ["=SOMA(A1:A2)", "", "", "1"],
+    ]);
+  });
+});
+
+describe("neutralizeCsvFormula", () => {
+  it("prefixa texto que seria interpretado como fórmula", () => {
+    expect(neutralizeCsvFormula("=HYPERLINK(\"http://x\")")).toBe("'=HYPERLINK(\"http://x\")");
+    expect(neutralizeCsvFormula("+55 11 98765-4321")).toBe("'+55 11 98765-4321");
+    expect(neutralizeCsvFormula("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(neutralizeCsvFormula("-1+1")).toBe("'-1+1");
+  });
+
+  it("mantém números negativos e texto comum", () => {
+    expect(neutralizeCsvFormula("-12,50")).toBe("-12,50");
+    expect(neutralizeCsvFormula("Maria")).toBe("Maria");
+    expect(neutralizeCsvFormula("")).toBe("");
+  });
+});
+
+describe("createCsv", () => {
+  it("usa aspas quando necessário e pode ser lido de volta", async () => {
+    const blob = createCsv([
+      ["Nome", "Observação"],
+      ["Silva; João", 'Disse "ok"'],
+      ["=1+1", "-5"],
+    ]);
+    const text = await blob.text();
+
+    expect(text.split("\r\n")).toEqual(["Nome;Observação", '"Silva; João";"Disse ""ok"""', "'=1+1;-5"]);
+    expect(parseCsv(text)).toEqual({
+      headers: ["Nome", "Observação"],
+      rows: [
+        ["Silva; João", 'Disse "ok"'],
+        ["'=1+1", "-5"],
+      ],
+    });
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * Leitura e geração de planilhas (CSV e XLSX) sem dependências externas.
+ * O XLSX é um ZIP de XMLs: na leitura percorremos o diretório central, descompactamos com
+ * DecompressionStream ("deflate-raw") e interpretamos a primeira aba com DOMParser;
+ * na geração gravamos os XMLs num ZIP sem compressão.
+ *
+ * EN: Reads and writes spreadsheets (CSV and XLSX) without external dependencies.
+ * XLSX is a ZIP of XML files: reading walks the central directory, inflates entries with
+ * DecompressionStream ("deflate-raw") and parses the first worksheet with DOMParser;
+ * writing stores the XML parts in an uncompressed ZIP.
+ */
+
+export interface SpreadsheetData {
+  headers: string[];
+  /** Linhas de dados (sem o cabeçalho), com o mesmo número de colunas do cabeçalho */
+  rows: string[][];
+}
+
+/**
+ * Divide uma linha CSV respeitando aspas. EN: Splits a CSV line honoring quotes.
+ */
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Separador mais provável (";", "," ou tabulação) a partir da linha de cabeçalho.
+ * EN: Most likely delimiter (";", "," or tab) based on the header line.
+ */
+export function detectCsvDelimiter(headerLine: string): string {
+  return ["\t", ";", ","].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Junta linhas físicas quando um campo entre aspas contém quebra de linha.
+ * EN: Joins physical lines when a quoted field spans line breaks.
+ */
+function splitCsvRecords(text: string): string[] {
+  const records: string[] = [];
+  let current = "";
+  for (const line of text.split(/\r?\n/)) {
+    current = current ? `${current}\n${line}` : line;
+    const quotes = current.split('"').length - 1;
+    if (quotes % 2 === 0) {
+      records.push(current);
+      current = "";
+    }
+  }
+  if (current) records.push(current);
+  return records.filter((record) => record.trim() !== "");
+}
+
+const toSpreadsheetData = (table: string[][]): SpreadsheetData => {
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map((header, index) => header.trim() || `Coluna ${index + 1}`);
+  const rows = dataRows
+    .map((row) => headers.map((_, index) => (row[index] ?? "").trim()))
+    .filter((row) => row.some((cell) => cell !== ""));
+  return { headers, rows };
+};
+
+/**
+ * Lê um CSV com cabeçalho na primeira linha. EN: Parses a CSV whose first line is the header.
+ */
+export function parseCsv(text: string): SpreadsheetData {
+  const records = splitCsvRecords(text.replace(/^\uFEFF/, ""));
+  if (records.length === 0) {
+    throw new Error("Arquivo CSV vazio");
+  }
+  const delimiter = detectCsvDelimiter(records[0]);
+  return toSpreadsheetData(records.map((record) => splitCsvLine(record, delimiter)));
+}
+
+/**
+ * Entradas do ZIP (nome → conteúdo descompactado como texto).
+ * EN: ZIP entries (name → inflated text content).
+ */
+async function readZipEntries(buffer: ArrayBuffer, wanted: (name: string) => boolean) {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // Fim do diretório central: últimos 22 bytes + comentário (até 64 KB)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Arquivo XLSX inválido");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder("utf-8");
+  const entries = new Map<string, string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!wanted(name)) continue;
+
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      entries.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      entries.set(name, await new Response(stream).text());
+    } else {
+      throw new Error("Compressão do XLSX não suportada");
+    }
+  }
+
+  return entries;
+}
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, "application/xml");
+
+// Ignora o texto fonético (<rPh>) que o Excel grava junto em alguns idiomas
+const textOf = (element: Element) =>
+  Array.from(element.getElementsByTagName("t"))
+    .filter((node) => node.parentElement?.tagName !== "rPh")
+    .map((node) => node.textContent ?? "")
+    .join("");
+
+/** "C12" → 2 (índice da coluna, base 0). EN: Column index from a cell reference. */
+const columnIndex = (reference: string) =>
+  (reference.match(/^[A-Z]+/)?.[0] ?? "A").split("").reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Lê a primeira aba de um XLSX. Datas chegam como número serial do Excel (ex.: "45292");
+ * quem consome os dados decide como interpretá-las.
+ *
+ * EN: Reads the first worksheet of an XLSX file. Dates come as Excel serial numbers.
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SpreadsheetData> {
+  const entries = await readZipEntries(
+    buffer,
+    (name) =>
+      name === "xl/workbook.xml" ||
+      name === "xl/_rels/workbook.xml.rels" ||
+      name === "xl/sharedStrings.xml" ||
+      name.startsWith("xl/worksheets/sheet")
+  );
+
+  // Primeira aba na ordem do livro (não necessariamente sheet1.xml)
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbook = entries.get("xl/workbook.xml");
+  const rels = entries.get("xl/_rels/workbook.xml.rels");
+  if (workbook && rels) {
+    const firstSheetId = parseXml(workbook).getElementsByTagName("sheet")[0]?.getAttribute("r:id");
+    const target = Array.from(parseXml(rels).getElementsByTagName("Relationship"))
+      .find((rel) => rel.getAttribute("Id") === firstSheetId)
+      ?.getAttribute("Target");
+    if (target) sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheetXml = entries.get(sheetPath);
+  if (!sheetXml) {
+    throw new Error("Nenhuma planilha encontrada no arquivo XLSX");
+  }
+
+  const sharedStringsXml = entries.get("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagName("si")).map(textOf)
+    : [];
+
+  const table: string[][] = [];
+  for (const row of Array.from(parseXml(sheetXml).getElementsByTagName("row"))) {
+    const rowIndex = Number(row.getAttribute("r") ?? table.length + 1) - 1;
+    const cells: string[] = [];
+    for (const cell of Array.from(row.getElementsByTagName("c"))) {
+      const type = cell.getAttribute("t");
+      const raw = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      const value =
+        type === "s"
+          ? sharedStrings[Number(raw)] ?? ""
+          : type === "inlineStr"
+            ? textOf(cell)
+            : type === "b"
+              ? raw === "1" ? "VERDADEIRO" : "FALSO"
+              : raw;
+      cells[columnIndex(cell.getAttribute("r") ?? "")] = value;
+    }
+    table[rowIndex] = Array.from(cells, (cell) => cell ?? "");
+  }
+
+  return toSpreadsheetData(Array.from(table, (row) => row ?? []));
+}
+
+/**
+ * Lê um arquivo CSV (UTF-8 ou Windows-1252) ou XLSX conforme a extensão.
+ * EN: Reads a CSV (UTF-8 or Windows-1252) or XLSX file based on its extension.
+ */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  const buffer = await file.arrayBuffer();
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXlsx(buffer);
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error("Formato XLS antigo não suportado: salve a planilha como XLSX ou CSV");
+  }
+
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    text = new TextDecoder("windows-1252").decode(buffer);
+  }
+  return parseCsv(text);
+}
+
+/** Formato de exibição de uma coluna exportada. EN: Display format of an exported column. */
+export type SpreadsheetColumnFormat = "text" | "number" | "currency" | "date" | "datetime";
+
+export interface SpreadsheetColumn {
+  header: string;
+  format: SpreadsheetColumnFormat;
+  /** Largura em caracteres. EN: Width in characters. */
+  width?: number;
+}
+
+/**
+ * Texto iniciado por "=", "+", "-", "@", tab ou CR seria executado como fórmula pelo Excel
+ * ou LibreOffice; recebe um apóstrofo na frente. Números ("-12,50") ficam como estão.
+ * Entrada: "=HYPERLINK(...)" → "'=HYPERLINK(...)" | "-12,50" → "-12,50"
+ *
+ * EN: Prefixes formula-like text with an apostrophe (CSV injection); plain numbers are kept.
+ */
+export function neutralizeCsvFormula(cell: string): string {
+  if (!/^[=+\-@\t\r]/.test(cell) || /^-?\d[\d.,]*$/.test(cell)) return cell;
+  return `'${cell}`;
+}
+
+/**
+ * Gera um CSV no padrão do Excel brasileiro (";" como separador, BOM UTF-8 e CRLF).
+ * Células que parecem fórmulas são neutralizadas antes das aspas.
+ *
+ * EN: Builds a CSV the way Brazilian Excel expects it (";" delimiter, UTF-8 BOM, CRLF).
+ * Formula-like cells are neutralized before quoting.
+ */
+export function createCsv(table: string[][], delimiter = ";"): Blob {
+  const escape = (value: string) => {
+    const cell = neutralizeCsvFormula(value);
+    return cell.includes(delimiter) || cell.includes('"') || /[\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  };
+  const text = table.map((row) => row.map(escape).join(delimiter)).join("\r\n");
+  return new Blob(["\uFEFF", text], { type: "text/csv;charset=utf-8" });
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * ZIP sem compressão (método "stored"), suficiente para os poucos XMLs de um XLSX.
+ * EN: Uncompressed ("stored") ZIP, enough for the handful of XML parts in an XLSX.
+ */
+function createZip(files: { name: string; content: string }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(offset + centralSize + 22);
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+const escapeXml = (text: string) =>
+  text
+    // Caracteres de controle (exceto tabulação e quebras de linha) não são permitidos em XML
+    .replace(/[^\t\n\r\u0020-\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/** 2 → "C" (índice base 0). EN: Column letter from a zero-based index. */
+const columnLetter = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnLetter(Math.floor(index / 26) - 1) + columnLetter(index % 26);
+
+/**
+ * Data ISO (AAAA-MM-DD ou timestamp) como número serial do Excel, no horário local.
+ * EN: ISO date or timestamp as an Excel serial number, in local time.
+ */
+function toExcelSerial(value: string, withTime: boolean): number | null {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    withTime ? date.getHours() : 0,
+    withTime ? date.getMinutes() : 0
+  );
+  return (utc - Date.UTC(1899, 11, 30)) / 86400000;
+}
+
+// Índices de estilo (cellXfs) definidos em styles.xml
+const XLSX_STYLE: Record<SpreadsheetColumnFormat | "header", number> = {
+  text: 0,
+  number: 0,
+  currency: 1,
+  date: 2,
+  datetime: 3,
+  header: 4,
+};
+
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="&quot;R$&quot;\\ #,##0.00"/><numFmt numFmtId="165" formatCode="dd/mm/yyyy"/><numFmt numFmtId="166" formatCode="dd/mm/yyyy\\ hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>
+</styleSheet>`;
+
+/**
+ * Gera um XLSX de uma aba. Valores de colunas "currency" e "number" são gravados como número
+ * e os de "date"/"datetime" (texto ISO) como data do Excel, para que o contador possa somar e filtrar.
+ *
+ * EN: Builds a single-sheet XLSX. Currency/number values are written as numbers and ISO dates
+ * as Excel dates, so the accountant can sum and filter them.
+ */
+export function createXlsx(
+  columns: SpreadsheetColumn[],
+  rows: (string | number | null)[][],
+  sheetName = "Planilha"
+): Blob {
+  const cellXml = (value: string | number | null, column: SpreadsheetColumn, reference: string) => {
+    if (value === null || value === "") return "";
+    const style = XLSX_STYLE[column.format];
+    if (column.format !== "text") {
+      const number =
+        column.format === "date" || column.format === "datetime"
+          ? toExcelSerial(String(value), column.format === "datetime")
+          : Number(value);
+      if (number !== null && Number.isFinite(number)) {
+        return `<c r="${reference}" s="${style}"><v>${number}</v></c>`;
+      }
+    }
+    return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  };
+
+  const headerRow = `<row r="1">${columns
+    .map(
+      (column, index) =>
+        `<c r="${columnLetter(index)}1" t="inlineStr" s="${XLSX_STYLE.header}"><is><t>${escapeXml(column.header)}</t></is></c>`
+    )
+    .join("")}</row>`;
+  const dataRows = rows.map(
+    (row, rowIndex) =>
+      `<row r="${rowIndex + 2}">${columns
+        .map((column, index) => cellXml(row[index] ?? null, column, `${columnLetter(index)}${rowIndex + 2}`))
+        .join("")}</row>`
+  );
+  const cols = columns
+    .map(
+      (column, index) =>
+        `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? Math.max(10, column.header.length + 2)}" customWidth="1"/>`
+    )
+    .join("");
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols>
+<sheetData>${headerRow}${dataRows.join("")}</sheetData>
+</worksheet>`;
+
+  // Nome da aba: até 31 caracteres, sem []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31).trim() || "Planilha");
+
+  const zip = createZip([
+    {
+      name: "[Content_Types].xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    { name: "xl/styles.xml", content: XLSX_STYLES },
+    { name: "xl/worksheets/sheet1.xml", content: sheet },
+  ]);
+
+  return new Blob([zip], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+}
@@ -33,6 +33,15 @@ export function cleanCurrency(value: string): number {
   return parseFloat(cleaned) || 0;
 }
 
+/**
+ * Arredonda um valor em reais para centavos
+ * Entrada: 1234.5678
+ * Saída: 1234.57
+ */
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 /**
  * Formata número para moeda brasileira
  * Entrada: 1234.56
@@ -93,6 +102,41 @@ export function formatCpf(cpf: string): string {
   return formatted;
 }
 
+/**
+ * Remove formatação de CNPJ
+ * Entrada: "11.222.333/0001-81"
+ * Saída: "11222333000181"
+ */
+export function cleanCnpj(cnpj: string): string {
+  return cnpj.replace(/\D/g, "");
+}
+
+/**
+ * Formata CNPJ
+ * Entrada: "11222333000181"
+ * Saída: "11.222.333/0001-81"
+ */
+export function formatCnpj(cnpj: string): string {
+  const digits = cnpj.replace(/\D/g, "");
+  const limited = digits.slice(0, 14);
+
+  let formatted = limited;
+  if (limited.length > 2) {
+    formatted = limited.slice(0, 2) + "." + limited.slice(2);
+  }
+  if (limited.length > 5) {
+    formatted = formatted.slice(0, 6) + "." + limited.slice(5);
+  }
+  if (limited.length > 8) {
+    formatted = formatted.slice(0, 10) + "/" + limited.slice(8);
+  }
+  if (limited.length > 12) {
+    formatted = formatted.slice(0, 15) + "-" + limited.slice(12);
+  }
+
+  return formatted;
+}
+
 /**
  * Remove formatação de CEP
  * Entrada: "12345-678"
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { isValidCnpj, isValidCpf, isValidCpfOrCnpj } from "@/lib/cpfCnpj";
 
 // Customer validation schema
 export const customerSchema = z.object({
@@ -21,8 +22,8 @@ export const customerSchema = z.object({
   cpf: z
     .string()
     .trim()
-    .refine((val) => val === "" || /^\d{3}\.\d{3}\.\d{3}-\d{2}$/.test(val), "CPF deve estar no formato 000.000.000-00")
-    .transform((val) => val || undefined),
+    .refine((val) => val === "" || isValidCpf(val), "CPF inválido")
+    .transform((val) => val.replace(/\D/g, "") || undefined),
   birth_date: z
     .string()
     .refine((val) => val === "" || /^\d{4}-\d{2}-\d{2}$/.test(val), "Data inválida")
@@ -73,9 +74,9 @@ export const quickAddCustomerSchema = z.object({
   cpf: z
     .string()
     .trim()
-    .refine((val) => val === "" || /^\d{3}\.\d{3}\.\d{3}-\d{2}$/.test(val), "CPF deve estar no formato 000.000.000-00")
-    .optional()
-    .or(z.literal("")),
+    .refine((val) => val === "" || isValidCpf(val), "CPF inválido")
+    .transform((val) => val.replace(/\D/g, "") || undefined)
+    .optional(),
   birth_date: z
     .string()
     .refine((val) => val === "" || /^\d{4}-\d{2}-\d{2}$/.test(val), "Data inválida")
@@ -119,6 +120,30 @@ export const packageSchema = z.object({
     .refine((val) => Number(val) <= 1000, "Vagas deve ser no máximo 1000"),
 });
 
+// Package departure validation schema
+export const departureSchema = z.object({
+  departure_date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Data de saída inválida"),
+  return_date: z
+    .string()
+    .refine((val) => val === "" || /^\d{4}-\d{2}-\d{2}$/.test(val), "Data de retorno inválida")
+    .transform((val) => val || undefined),
+  price: z
+    .string()
+    .transform((val) => val.replace(/[R$\s.]/g, '').replace(',', '.'))
+    .refine((val) => val === "" || (!isNaN(Number(val)) && Number(val) >= 0), "Preço inválido")
+    .transform((val) => (val === "" || Number(val) === 0 ? undefined : Number(val))),
+  capacity: z
+    .string()
+    .refine((val) => !isNaN(Number(val)) && Number(val) >= 0, "Capacidade deve ser 0 ou maior")
+    .refine((val) => Number(val) <= 1000, "Capacidade deve ser no máximo 1000"),
+  status: z.enum(["open", "closed", "cancelled"]),
+}).refine(
+  (data) => !data.return_date || data.return_date >= data.departure_date,
+  { message: "Data de retorno deve ser igual ou posterior à saída", path: ["return_date"] }
+);
+
 // Order validation schema
 export const orderSchema = z.object({
   customer_id: z.string().uuid("Selecione um cliente válido"),
@@ -137,6 +162,357 @@ export const orderSchema = z.object({
     .transform((val) => val || undefined),
 });
 
+// Order passenger validation schema (existing customer or ad-hoc traveler)
+export const passengerSchema = z.object({
+  customer_id: z.string().uuid().nullable().optional(),
+  full_name: z
+    .string()
+    .trim()
+    .min(1, "Nome do passageiro é obrigatório")
+    .max(100, "Nome deve ter no máximo 100 caracteres"),
+  cpf: z
+    .string()
+    .trim()
+    .refine((val) => val === "" || isValidCpf(val), "CPF do passageiro inválido")
+    .optional()
+    .or(z.literal("")),
+  birth_date: z
+    .string()
+    .refine((val) => val === "" || /^\d{4}-\d{2}-\d{2}$/.test(val), "Data de nascimento inválida")
+    .optional()
+    .or(z.literal("")),
+  document_type: z
+    .string()
+    .trim()
+    .max(30, "Tipo de documento deve ter no máximo 30 caracteres")
+    .optional()
+    .or(z.literal("")),
+  document_number: z
+    .string()
+    .trim()
+    .max(50, "Número do documento deve ter no máximo 50 caracteres")
+    .optional()
+    .or(z.literal("")),
+});
+
+// Order line item validation schema (the package line is managed by the database)
+export const orderItemSchema = z.object({
+  item_type: z.enum(["insurance", "transfer", "room_upgrade", "fee", "discount", "other"], {
+    errorMap: () => ({ message: "Selecione o tipo do item" }),
+  }),
+  description: z
+    .string()
+    .trim()
+    .min(1, "Descrição do item é obrigatória")
+    .max(200, "Descrição deve ter no máximo 200 caracteres"),
+  quantity: z
+    .number()
+    .int("Quantidade deve ser um número inteiro")
+    .min(1, "Quantidade mínima é 1")
+    .max(100, "Quantidade máxima é 100"),
+  unit_price: z
+    .number()
+    .positive("Informe um valor maior que zero"),
+});
+
+// Organization order numbering settings
+export const orderNumberingSchema = z.object({
+  order_number_prefix: z
+    .string()
+    .trim()
+    .transform((val) => val.toUpperCase())
+    .refine((val) => /^[A-Z0-9]{1,10}$/.test(val), "Prefixo deve ter de 1 a 10 letras ou números, sem espaços"),
+  order_number_padding: z
+    .number()
+    .int()
+    .min(3, "Mínimo de 3 dígitos")
+    .max(10, "Máximo de 10 dígitos"),
+  order_number_yearly_reset: z.boolean(),
+});
+
+// Cancellation policy and order cancellation schemas
+export const cancellationPolicyRuleSchema = z.object({
+  min_days_before: z
+    .number({ invalid_type_error: "Informe os dias de antecedência" })
+    .int("Dias devem ser um número inteiro")
+    .min(0, "Dias não podem ser negativos")
+    .max(365, "Máximo de 365 dias"),
+  penalty_percent: z
+    .number({ invalid_type_error: "Informe o percentual da multa" })
+    .min(0, "Percentual mínimo é 0%")
+    .max(100, "Percentual máximo é 100%"),
+});
+
+export const orderCancellationSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(5, "Descreva o motivo do cancelamento (mínimo 5 caracteres)")
+    .max(500, "Motivo deve ter no máximo 500 caracteres"),
+  refund_method: z.string().trim().max(50).optional().or(z.literal("")),
+  refund_date: z
+    .string()
+    .refine((val) => val === "" || /^\d{4}-\d{2}-\d{2}$/.test(val), "Data do reembolso inválida"),
+  refund_completed: z.boolean(),
+});
+
+// Contract template schema
+export const contractTemplateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Nome do modelo é obrigatório")
+    .max(100, "Nome deve ter no máximo 100 caracteres"),
+  title: z
+    .string()
+    .trim()
+    .min(1, "Título do contrato é obrigatório")
+    .max(200, "Título deve ter no máximo 200 caracteres"),
+  body: z
+    .string()
+    .trim()
+    .min(20, "Texto do contrato muito curto")
+    .max(50000, "Texto do contrato deve ter no máximo 50000 caracteres"),
+  is_default: z.boolean(),
+});
+
+// Late fee rules schema (multa e juros por atraso)
+export const lateFeeRulesSchema = z.object({
+  late_fee_percent: z
+    .number({ invalid_type_error: "Informe o percentual da multa" })
+    .min(0, "Multa não pode ser negativa")
+    .max(100, "Multa máxima é 100%"),
+  late_interest_percent: z
+    .number({ invalid_type_error: "Informe o percentual de juros" })
+    .min(0, "Juros não podem ser negativos")
+    .max(100, "Juros máximos são 100%"),
+  late_interest_period: z.enum(["daily", "monthly"]),
+  late_fee_grace_days: z
+    .number({ invalid_type_error: "Informe os dias de carência" })
+    .int("Carência deve ser um número inteiro de dias")
+    .min(0, "Carência não pode ser negativa")
+    .max(60, "Carência máxima de 60 dias"),
+});
+
+// Installment plan and surcharge rule schemas
+export const installmentPlanSchema = z
+  .object({
+    installment_count: z
+      .number({ invalid_type_error: "Informe o número de parcelas" })
+      .int("Número de parcelas deve ser inteiro")
+      .min(1, "Mínimo de 1 parcela")
+      .max(24, "Máximo de 24 parcelas"),
+    down_payment: z
+      .number({ invalid_type_error: "Informe o valor da entrada" })
+      .min(0, "Entrada não pode ser negativa"),
+    down_payment_date: z.string(),
+    first_due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Informe o primeiro vencimento"),
+    interval: z.enum(["monthly", "biweekly", "weekly", "day_of_month"]),
+    day_of_month: z
+      .number({ invalid_type_error: "Informe o dia do vencimento" })
+      .int("Dia deve ser um número inteiro")
+      .min(1, "Dia mínimo é 1")
+      .max(31, "Dia máximo é 31")
+      .nullable(),
+    payment_method: z.string().trim().max(50).optional().or(z.literal("")),
+  })
+  .superRefine((data, ctx) => {
+    if (data.down_payment > 0 && !/^\d{4}-\d{2}-\d{2}$/.test(data.down_payment_date)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["down_payment_date"], message: "Informe a data da entrada" });
+    }
+    if (data.interval === "day_of_month" && data.day_of_month === null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["day_of_month"], message: "Informe o dia do vencimento" });
+    }
+  });
+
+export const installmentSurchargeRuleSchema = z.object({
+  payment_method: z.string().trim().min(1, "Selecione a forma de pagamento"),
+  min_installments: z
+    .number({ invalid_type_error: "Informe a quantidade de parcelas" })
+    .int("Parcelas devem ser um número inteiro")
+    .min(1, "Mínimo de 1 parcela")
+    .max(24, "Máximo de 24 parcelas"),
+  surcharge_percent: z
+    .number({ invalid_type_error: "Informe o percentual do acréscimo" })
+    .min(0, "Percentual mínimo é 0%")
+    .max(100, "Percentual máximo é 100%"),
+});
+
+// Organization PIX schema (BR Code estático)
+export const organizationPixSchema = z
+  .object({
+    pix_key_type: z.enum(["cpf", "cnpj", "email", "phone", "random"], {
+      errorMap: () => ({ message: "Selecione o tipo da chave PIX" }),
+    }),
+    pix_key: z.string().trim().min(1, "Chave PIX é obrigatória").max(77, "Chave PIX muito longa"),
+    pix_merchant_name: z
+      .string()
+      .trim()
+      .min(1, "Nome do recebedor é obrigatório")
+      .max(25, "Nome do recebedor deve ter no máximo 25 caracteres"),
+    pix_merchant_city: z
+      .string()
+      .trim()
+      .min(1, "Cidade é obrigatória")
+      .max(15, "Cidade deve ter no máximo 15 caracteres"),
+  })
+  .superRefine((data, ctx) => {
+    const digits = data.pix_key.replace(/\D/g, "");
+    const valid =
+      data.pix_key_type === "cpf"
+        ? isValidCpf(digits)
+        : data.pix_key_type === "cnpj"
+          ? isValidCnpj(digits)
+          : data.pix_key_type === "phone"
+            ? digits.length >= 10 && digits.length <= 13
+            : data.pix_key_type === "email"
+              ? z.string().email().safeParse(data.pix_key).success
+              : /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(data.pix_key);
+    if (!valid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pix_key"], message: "Chave PIX inválida para o tipo selecionado" });
+    }
+  });
+
+// Boleto (CNAB) settings validation
+export const organizationBoletoSchema = z.object({
+  boleto_bank_code: z.string().regex(/^\d{3}$/, "Selecione o banco"),
+  boleto_cnab_layout: z.enum(["cnab240", "cnab400"], {
+    errorMap: () => ({ message: "Selecione o layout CNAB" }),
+  }),
+  boleto_agency: z.string().trim().regex(/^\d{1,5}$/, "Agência deve ter até 5 dígitos"),
+  boleto_agency_digit: z.string().trim().max(1, "Dígito da agência deve ter 1 caractere"),
+  boleto_account: z.string().trim().regex(/^\d{1,12}$/, "Conta deve ter até 12 dígitos"),
+  boleto_account_digit: z.string().trim().length(1, "Informe o dígito da conta"),
+  boleto_wallet: z.string().trim().regex(/^\d{1,3}$/, "Carteira deve ter até 3 dígitos"),
+  boleto_agreement_code: z.string().trim().regex(/^\d{0,20}$/, "Convênio deve conter apenas números (até 20)"),
+});
+
+// Organization CNPJ (optional): accepts the mask, keeps digits only
+export const organizationCnpjSchema = z
+  .string()
+  .transform((val) => val.replace(/\D/g, ""))
+  .refine((val) => val === "" || isValidCnpj(val), "CNPJ inválido");
+
+// Supplier validation schema
+export const supplierSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Nome é obrigatório")
+    .max(200, "Nome deve ter no máximo 200 caracteres"),
+  category: z.enum(["hotel", "transport", "guide", "attraction", "insurance", "agency", "other"], {
+    errorMap: () => ({ message: "Selecione a categoria" }),
+  }),
+  document: z
+    .string()
+    .transform((val) => val.replace(/\D/g, ""))
+    .refine((val) => val === "" || isValidCpfOrCnpj(val), "CPF/CNPJ inválido"),
+  contact_name: z.string().trim().max(200, "Contato deve ter no máximo 200 caracteres"),
+  email: z
+    .string()
+    .trim()
+    .max(255, "Email deve ter no máximo 255 caracteres")
+    .refine((val) => val === "" || z.string().email().safeParse(val).success, "Email inválido"),
+  phone: z.string().trim().max(20, "Telefone deve ter no máximo 20 caracteres"),
+  pix_key: z.string().trim().max(77, "Chave PIX muito longa"),
+  bank_details: z.string().trim().max(500, "Dados bancários devem ter no máximo 500 caracteres"),
+  notes: z.string().trim().max(1000, "Observações devem ter no máximo 1000 caracteres"),
+});
+
+// Accounts payable validation schema
+export const payableSchema = z.object({
+  supplier_id: z.string().uuid("Selecione o fornecedor"),
+  description: z
+    .string()
+    .trim()
+    .min(1, "Descrição é obrigatória")
+    .max(300, "Descrição deve ter no máximo 300 caracteres"),
+  document_number: z.string().trim().max(60, "Número do documento deve ter no máximo 60 caracteres"),
+  amount: z.number().positive("Informe um valor maior que zero"),
+  due_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Informe o vencimento"),
+  package_id: z.string().uuid().nullable(),
+  order_id: z.string().uuid().nullable(),
+  notes: z.string().trim().max(1000, "Observações devem ter no máximo 1000 caracteres"),
+});
+
+// Customer travel document schema (passaporte, visto, RG...)
+export const customerDocumentSchema = z
+  .object({
+    document_type: z.enum(["passport", "visa", "rg", "cnh", "other"]),
+    document_number: z
+      .string()
+      .trim()
+      .min(1, "Número do documento é obrigatório")
+      .max(50, "Número deve ter no máximo 50 caracteres"),
+    issuing_country: z.string().trim().max(60, "País deve ter no máximo 60 caracteres"),
+    issue_date: z.string().refine((val) => val === "" || /^\d{4}-\d{2}-\d{2}$/.test(val), "Data inválida"),
+    expiry_date: z.string().refine((val) => val === "" || /^\d{4}-\d{2}-\d{2}$/.test(val), "Data inválida"),
+    notes: z.string().trim().max(500, "Observações devem ter no máximo 500 caracteres"),
+  })
+  .superRefine((data, ctx) => {
+    if ((data.document_type === "passport" || data.document_type === "visa") && !data.expiry_date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["expiry_date"], message: "Informe a validade" });
+    }
+    if (data.issue_date && data.expiry_date && data.expiry_date < data.issue_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["expiry_date"],
+        message: "Validade deve ser posterior à emissão",
+      });
+    }
+  });
+
+// Commission rule schema (faixa por agente e/ou pacote)
+export const commissionRuleSchema = z.object({
+  user_id: z.string().uuid().nullable(),
+  package_id: z.string().uuid().nullable(),
+  min_order_amount: z
+    .number({ invalid_type_error: "Informe o valor mínimo do pedido" })
+    .min(0, "Valor mínimo não pode ser negativo"),
+  commission_percent: z
+    .number({ invalid_type_error: "Informe o percentual da comissão" })
+    .min(0, "Percentual mínimo é 0%")
+    .max(100, "Percentual máximo é 100%"),
+});
+
+// Quote validation schemas
+export const quoteOptionSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Título da opção é obrigatório")
+    .max(100, "Título deve ter no máximo 100 caracteres"),
+  package_id: z.string().uuid("Selecione um pacote para cada opção"),
+  departure_id: z.string().uuid().nullable().optional(),
+  travel_date: z
+    .string()
+    .refine((val) => val === "" || /^\d{4}-\d{2}-\d{2}$/.test(val), "Data da viagem inválida"),
+  number_of_travelers: z
+    .number()
+    .min(1, "Mínimo 1 viajante")
+    .max(100, "Máximo 100 viajantes"),
+  unit_price: z.number().min(0, "Preço inválido"),
+  notes: z
+    .string()
+    .trim()
+    .max(500, "Observações da opção devem ter no máximo 500 caracteres")
+    .optional()
+    .or(z.literal("")),
+});
+
+export const quoteSchema = z.object({
+  customer_id: z.string().uuid("Selecione um cliente"),
+  valid_until: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Informe a validade do orçamento"),
+  notes: z
+    .string()
+    .trim()
+    .max(1000, "Observações devem ter no máximo 1000 caracteres")
+    .transform((val) => val || undefined),
+  options: z.array(quoteOptionSchema).min(1, "Adicione ao menos uma opção"),
+});
+
 // Authentication validation schemas
 export const authLoginSchema = z.object({
   email: z
@@ -242,7 +618,25 @@ export const userUpdateSchema = z.object({
 export type CustomerFormData = z.infer<typeof customerSchema>;
 export type QuickAddCustomerFormData = z.infer<typeof quickAddCustomerSchema>;
 export type PackageFormData = z.infer<typeof packageSchema>;
+export type DepartureFormData = z.infer<typeof departureSchema>;
 export type OrderFormData = z.infer<typeof orderSchema>;
+export type PassengerFormData = z.infer<typeof passengerSchema>;
+export type OrderItemFormData = z.infer<typeof orderItemSchema>;
+export type OrderNumberingFormData = z.infer<typeof orderNumberingSchema>;
+export type CancellationPolicyRuleFormData = z.infer<typeof cancellationPolicyRuleSchema>;
+export type OrderCancellationFormData = z.infer<typeof orderCancellationSchema>;
+export type ContractTemplateFormData = z.infer<typeof contractTemplateSchema>;
+export type OrganizationPixFormData = z.infer<typeof organizationPixSchema>;
+export type OrganizationBoletoFormData = z.infer<typeof organizationBoletoSchema>;
+export type SupplierFormData = z.infer<typeof supplierSchema>;
+export type PayableFormData = z.infer<typeof payableSchema>;
+export type CustomerDocumentFormData = z.infer<typeof customerDocumentSchema>;
+export type CommissionRuleFormData = z.infer<typeof commissionRuleSchema>;
+export type LateFeeRulesFormData = z.infer<typeof lateFeeRulesSchema>;
+export type InstallmentPlanFormData = z.infer<typeof installmentPlanSchema>;
+export type InstallmentSurchargeRuleFormData = z.infer<typeof installmentSurchargeRuleSchema>;
+export type QuoteFormData = z.infer<typeof quoteSchema>;
+export type QuoteOptionFormData = z.infer<typeof quoteOptionSchema>;
 export type AuthLoginData = z.infer<typeof authLoginSchema>;
 export type AuthSignupData = z.infer<typeof authSignupSchema>;
 export type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
@@ -0,0 +1,262 @@
+import { jsPDF } from "jspdf";
+import QRCode from "qrcode";
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { OrderStatus } from "@/lib/constants";
+import { formatCpf, formatPhone } from "@/lib/utils";
+
+/**
+ * Status em que o voucher pode ser emitido (pedido confirmado ou viagem já realizada).
+ * EN: Statuses that allow issuing the voucher.
+ */
+export const VOUCHER_ALLOWED_STATUSES: OrderStatus[] = ["confirmed", "completed"];
+
+// Cor usada quando a organização não definiu primary_color
+const DEFAULT_BRAND_COLOR = "#2563eb";
+
+export interface VoucherData {
+  order: Tables<"orders">;
+  customer: Tables<"customers">;
+  package: Tables<"travel_packages">;
+  organization: Tables<"organizations">;
+  passengers: Tables<"order_passengers">[];
+  travelDate: string;
+  returnDate: string;
+}
+
+export const canIssueVoucher = (status: string | null) =>
+  VOUCHER_ALLOWED_STATUSES.includes(status as OrderStatus);
+
+export const formatVoucherDate = (date: string) => format(new Date(`${date.slice(0, 10)}T00:00:00`), "dd/MM/yyyy");
+
+/**
+ * Cor da marca da organização, com fallback para a cor padrão quando ausente ou inválida.
+ * EN: Organization brand color, falling back to the default when missing or invalid.
+ */
+export const getBrandColor = (organization: Pick<Tables<"organizations">, "primary_color">) =>
+  organization.primary_color && /^#[0-9a-f]{6}$/i.test(organization.primary_color)
+    ? organization.primary_color
+    : DEFAULT_BRAND_COLOR;
+
+/**
+ * Converte "#rrggbb" em [r, g, b] para o jsPDF.
+ * EN: Converts "#rrggbb" into [r, g, b] for jsPDF.
+ */
+export const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+/**
+ * Documento do passageiro para exibição no voucher.
+ * Entrada: { cpf: "12345678901" } → Saída: "CPF 123.456.789-01"
+ *
+ * EN: Passenger document label shown on the voucher.
+ */
+export const formatPassengerDocument = (passenger: Tables<"order_passengers">) =>
+  passenger.cpf
+    ? `CPF ${formatCpf(passenger.cpf)}`
+    : passenger.document_number
+      ? `${passenger.document_type || "Documento"} ${passenger.document_number}`
+      : "";
+
+/**
+ * Carrega os dados do voucher. A volta vem da saída vinculada ao pedido ou, na falta dela,
+ * é calculada pela duração do pacote.
+ *
+ * EN: Loads voucher data. The return date comes from the linked departure or, when missing,
+ * is derived from the package duration.
+ */
+export async function loadVoucherData(orderId: string): Promise<{ data: VoucherData | null; error: string | null }> {
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select(
+      "*, customer:customers(*), package:travel_packages(*), organization:organizations(*), departure:package_departures(departure_date, return_date)"
+    )
+    .eq("id", orderId)
+    .single();
+
+  if (orderError || !order || !order.customer || !order.package || !order.organization) {
+    return { data: null, error: "Pedido não encontrado" };
+  }
+
+  if (!canIssueVoucher(order.status)) {
+    return { data: null, error: "O voucher só pode ser emitido para pedidos confirmados" };
+  }
+
+  const { data: passengers } = await supabase
+    .from("order_passengers")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("is_primary", { ascending: false })
+    .order("created_at", { ascending: true });
+
+  const { customer, package: travelPackage, organization, departure, ...orderRow } = order;
+  const travelDate = departure?.departure_date || order.travel_date;
+  const returnDate =
+    departure?.return_date ||
+    format(addDays(new Date(`${travelDate}T00:00:00`), Math.max(travelPackage.duration_days - 1, 0)), "yyyy-MM-dd");
+
+  return {
+    data: {
+      order: orderRow as Tables<"orders">,
+      customer,
+      package: travelPackage,
+      organization,
+      passengers: passengers || [],
+      travelDate,
+      returnDate,
+    },
+    error: null,
+  };
+}
+
+/**
+ * QR code (PNG em data URL) com o número do pedido, lido no check-in.
+ * EN: QR code (PNG data URL) encoding the order number for check-in.
+ */
+export function getVoucherQrDataUrl(orderNumber: string): Promise<string> {
+  return QRCode.toDataURL(orderNumber, { margin: 1, width: 256, errorCorrectionLevel: "M" });
+}
+
+interface VoucherPdfAssets {
+  qrDataUrl: string;
+  logoDataUrl?: string | null;
+}
+
+/**
+ * Gera o PDF do voucher (A4) com faixa na cor da agência, QR code e lista de passageiros.
+ * EN: Builds the voucher PDF (A4) with the agency color band, QR code and passenger list.
+ */
+export function createVoucherPdf(data: VoucherData, { qrDataUrl, logoDataUrl }: VoucherPdfAssets): Blob {
+  const { order, customer, organization } = data;
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 20;
+  const contentWidth = pageWidth - margin * 2;
+  const [r, g, b] = hexToRgb(getBrandColor(organization));
+
+  // Cabeçalho na cor da marca
+  doc.setFillColor(r, g, b);
+  doc.rect(0, 0, pageWidth, 32, "F");
+  if (logoDataUrl) {
+    try {
+      const imageFormat = logoDataUrl.startsWith("data:image/png") ? "PNG" : "JPEG";
+      doc.addImage(logoDataUrl, imageFormat, margin, 6, 20, 20, undefined, "FAST");
+    } catch {
+      // Logo inválido: segue sem imagem
+    }
+  }
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(organization.name, pageWidth - margin, 15, { align: "right" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  const contacts = [organization.email, organization.phone ? formatPhone(organization.phone) : null].filter(Boolean).join(" · ");
+  if (contacts) {
+    doc.text(contacts, pageWidth - margin, 22, { align: "right" });
+  }
+
+  doc.setTextColor(0, 0, 0);
+  let y = 48;
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(20);
+  doc.text("VOUCHER DE VIAGEM", margin, y);
+  doc.setFontSize(12);
+  doc.setTextColor(r, g, b);
+  doc.text(`Pedido ${order.order_number}`, margin, y + 8);
+  doc.setTextColor(0, 0, 0);
+
+  const qrSize = 40;
+  doc.addImage(qrDataUrl, "PNG", pageWidth - margin - qrSize, y - 8, qrSize, qrSize);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.text("Apresente no check-in", pageWidth - margin - qrSize / 2, y + qrSize - 4, { align: "center" });
+
+  y += 20;
+  const details: [string, string][] = [
+    ["Titular", customer.full_name],
+    ["Pacote", data.package.name],
+    ["Destino", data.package.destination],
+    ["Ida", formatVoucherDate(data.travelDate)],
+    ["Volta", formatVoucherDate(data.returnDate)],
+    ["Viajantes", String(order.number_of_travelers ?? data.passengers.length)],
+  ];
+  doc.setFontSize(10);
+  details.forEach(([label, value]) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(`${label}:`, margin, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(value, margin + 25, y);
+    y += 6;
+  });
+
+  const section = (title: string) => {
+    y += 6;
+    doc.setDrawColor(r, g, b);
+    doc.line(margin, y - 4, pageWidth - margin, y - 4);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.text(title, margin, y + 1);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    y += 8;
+  };
+
+  const writeLines = (lines: string[]) => {
+    lines.forEach((line) => {
+      if (y > pageHeight - margin - 10) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin, y);
+      y += 5;
+    });
+  };
+
+  if (data.package.description) {
+    section("Descrição do pacote");
+    writeLines(doc.splitTextToSize(data.package.description, contentWidth));
+  }
+
+  section("Passageiros");
+  writeLines(
+    data.passengers.length
+      ? data.passengers.map((p, i) => {
+          const document = formatPassengerDocument(p);
+          return `${i + 1}. ${p.full_name}${document ? ` - ${document}` : ""}`;
+        })
+      : ["Passageiros a informar."]
+  );
+
+  if (order.special_requests) {
+    section("Observações");
+    writeLines(doc.splitTextToSize(order.special_requests, contentWidth));
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(100, 116, 139);
+  doc.text(
+    `Emitido em ${format(new Date(), "dd/MM/yyyy HH:mm")} por ${organization.name}`,
+    pageWidth / 2,
+    pageHeight - 10,
+    { align: "center" }
+  );
+
+  return doc.output("blob");
+}
+
+/**
+ * Envia o voucher já gerado para o email do cliente (Edge Function send-voucher).
+ * EN: Emails a stored voucher to the customer through the send-voucher Edge Function.
+ */
+export async function emailVoucher(documentId: string) {
+  const { data, error } = await supabase.functions.invoke("send-voucher", {
+    body: { documentId },
+  });
+  return { data: data as { ok: boolean; to: string } | null, error };
+}
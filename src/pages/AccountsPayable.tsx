@@ -0,0 +1,478 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Ban,
+  CheckCircle2,
+  MoreVertical,
+  Pencil,
+  Plus,
+  RotateCcw,
+  Search,
+  Trash2,
+  Truck,
+  Wallet,
+} from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { FilterBar } from "@/components/filters/FilterBar";
+import { SearchInput } from "@/components/filters/SearchInput";
+import { DateRangeFilter } from "@/components/filters/DateRangeFilter";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { PayableFormDialog, type PayableLinkOptions } from "@/components/payables/PayableFormDialog";
+import { PayablePaymentDialog } from "@/components/payables/PayablePaymentDialog";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { PAYABLE_STATUS_OPTIONS, type PayableStatusFilter } from "@/lib/constants";
+import { todayDateOnly } from "@/lib/lateFees";
+import { formatCurrency } from "@/lib/utils";
+import {
+  deletePayable,
+  getPayableDisplayStatus,
+  isPayableOverdue,
+  listPayables,
+  listSuppliers,
+  setPayableStatus,
+  type PayableWithLinks,
+  type Supplier,
+} from "@/lib/payables";
+
+const STATUS_VARIANTS: Record<PayableStatusFilter, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  overdue: "destructive",
+  paid: "default",
+  cancelled: "outline",
+};
+
+const statusLabel = (status: PayableStatusFilter) =>
+  PAYABLE_STATUS_OPTIONS.find((option) => option.value === status)?.label ?? status;
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+const EMPTY_FILTERS = { search: "", status: "pending", supplierId: "all", dateStart: "", dateEnd: "" };
+
+/**
+ * Contas a Pagar: custos com fornecedores por vencimento, vinculados ao pacote e/ou pedido,
+ * com baixa, reabertura e cancelamento. O filtro "Em aberto" inclui as vencidas.
+ *
+ * EN: Accounts payable: supplier costs by due date, linked to package and/or order, with
+ * settle, reopen and cancel actions. The "Em aberto" filter includes overdue payables.
+ */
+export default function AccountsPayable() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const { role, isOrgAdmin } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const [loading, setLoading] = useState(true);
+  const [payables, setPayables] = useState<PayableWithLinks[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [links, setLinks] = useState<PayableLinkOptions>({ packages: [], orders: [] });
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<PayableWithLinks | null>(null);
+  const [paying, setPaying] = useState<PayableWithLinks | null>(null);
+  const [deleting, setDeleting] = useState<PayableWithLinks | null>(null);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData(organizationId);
+    }
+  }, [organizationId]);
+
+  const loadData = async (orgId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setLoading(true);
+    const [{ payables, error }, { suppliers }, packagesResult, ordersResult] = await Promise.all([
+      listPayables(orgId, { status: "all" }),
+      listSuppliers(orgId),
+      supabase.from("travel_packages").select("id, name").eq("organization_id", orgId).order("name"),
+      supabase
+        .from("orders")
+        .select("id, order_number, package_id")
+        .eq("organization_id", orgId)
+        .order("created_at", { ascending: false }),
+    ]);
+    if (error) {
+      toast.error("Erro ao carregar contas a pagar");
+    }
+
+    setPayables(payables);
+    setSuppliers(suppliers);
+    setLinks({ packages: packagesResult.data ?? [], orders: ordersResult.data ?? [] });
+    setLoading(false);
+  };
+
+  const summary = useMemo(() => {
+    const today = todayDateOnly();
+    const monthPrefix = today.slice(0, 7);
+    const open = payables.filter((payable) => payable.status === "pending");
+    const overdue = open.filter((payable) => isPayableOverdue(payable, today));
+    const paidThisMonth = payables.filter(
+      (payable) => payable.status === "paid" && payable.paid_date?.startsWith(monthPrefix)
+    );
+    return {
+      openTotal: open.reduce((sum, payable) => sum + Number(payable.amount), 0),
+      openCount: open.length,
+      overdueTotal: overdue.reduce((sum, payable) => sum + Number(payable.amount), 0),
+      overdueCount: overdue.length,
+      paidTotal: paidThisMonth.reduce((sum, payable) => sum + Number(payable.paid_amount ?? payable.amount), 0),
+      paidCount: paidThisMonth.length,
+    };
+  }, [payables]);
+
+  const filteredPayables = useMemo(() => {
+    const search = filters.search.trim().toLowerCase();
+    return payables.filter((payable) => {
+      if (filters.status === "overdue" && !isPayableOverdue(payable)) return false;
+      if (filters.status !== "all" && filters.status !== "overdue" && payable.status !== filters.status) return false;
+      if (filters.supplierId !== "all" && payable.supplier_id !== filters.supplierId) return false;
+      if (filters.dateStart && payable.due_date < filters.dateStart) return false;
+      if (filters.dateEnd && payable.due_date > filters.dateEnd) return false;
+      if (!search) return true;
+      return (
+        payable.description.toLowerCase().includes(search) ||
+        (payable.document_number ?? "").toLowerCase().includes(search) ||
+        (payable.supplier?.name ?? "").toLowerCase().includes(search) ||
+        (payable.order?.order_number ?? "").toLowerCase().includes(search) ||
+        (payable.package?.name ?? "").toLowerCase().includes(search)
+      );
+    });
+  }, [payables, filters]);
+
+  const activeFiltersCount =
+    (filters.search ? 1 : 0) +
+    (filters.status !== EMPTY_FILTERS.status ? 1 : 0) +
+    (filters.supplierId !== "all" ? 1 : 0) +
+    (filters.dateStart || filters.dateEnd ? 1 : 0);
+
+  const reload = () => organizationId && loadData(organizationId);
+
+  const openForm = (payable: PayableWithLinks | null) => {
+    setEditing(payable);
+    setFormOpen(true);
+  };
+
+  const handleStatusChange = async (payable: PayableWithLinks, status: "pending" | "cancelled") => {
+    const { error } = await setPayableStatus(payable.id, status);
+    if (error) {
+      toast.error("Erro ao atualizar conta");
+      return;
+    }
+    toast.success(status === "cancelled" ? "Conta cancelada" : "Conta reaberta");
+    reload();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const { error } = await deletePayable(deleting.id);
+    setDeleting(null);
+    if (error) {
+      toast.error("Erro ao excluir conta");
+      return;
+    }
+    toast.success("Conta excluída");
+    reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/payments")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-destructive to-accent rounded-full flex items-center justify-center">
+              <Wallet className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Contas a Pagar</h1>
+              <p className="text-sm text-muted-foreground">Custos com fornecedores e vencimentos</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/suppliers")}>
+              <Truck className="w-4 h-4 mr-2" />
+              Fornecedores
+            </Button>
+            {canEdit && (
+              <Button onClick={() => openForm(null)} disabled={suppliers.length === 0}>
+                <Plus className="w-4 h-4 mr-2" />
+                Nova Conta
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Em aberto</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(summary.openTotal)}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground">{summary.openCount} conta(s) a pagar</p>
+            </CardContent>
+          </Card>
+          <Card
+            className="cursor-pointer hover:shadow-md transition-shadow"
+            onClick={() => setFilters({ ...filters, status: "overdue" })}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription className="flex items-center gap-1">
+                <AlertCircle className="w-4 h-4 text-destructive" />
+                Vencidas
+              </CardDescription>
+              <CardTitle className="text-2xl text-destructive">{formatCurrency(summary.overdueTotal)}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground">{summary.overdueCount} conta(s) vencida(s)</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Pago no mês</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(summary.paidTotal)}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground">{summary.paidCount} pagamento(s)</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {!loading && suppliers.length === 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Nenhum fornecedor cadastrado</CardTitle>
+              <CardDescription>Cadastre os fornecedores antes de lançar contas a pagar.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" onClick={() => navigate("/suppliers")}>
+                <Truck className="w-4 h-4 mr-2" />
+                Fornecedores
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <FilterBar
+          onClear={() => setFilters(EMPTY_FILTERS)}
+          activeFiltersCount={activeFiltersCount}
+          resultsCount={filteredPayables.length}
+          totalCount={payables.length}
+          gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
+        >
+          <div className="lg:col-span-4 space-y-2">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <Search className="h-4 w-4" />
+              Buscar
+            </Label>
+            <SearchInput
+              value={filters.search}
+              onChange={(value) => setFilters({ ...filters, search: value })}
+              placeholder="Buscar por descrição, documento, pedido..."
+            />
+          </div>
+          <div className="lg:col-span-2">
+            <StatusFilter
+              label="Status"
+              value={filters.status}
+              onChange={(value) => setFilters({ ...filters, status: value })}
+              options={[{ value: "all", label: "Todos" }, ...PAYABLE_STATUS_OPTIONS]}
+            />
+          </div>
+          <div className="lg:col-span-3">
+            <StatusFilter
+              label="Fornecedor"
+              value={filters.supplierId}
+              onChange={(value) => setFilters({ ...filters, supplierId: value })}
+              options={[
+                { value: "all", label: "Todos" },
+                ...suppliers.map((supplier) => ({ value: supplier.id, label: supplier.name })),
+              ]}
+            />
+          </div>
+          <div className="lg:col-span-3">
+            <DateRangeFilter
+              label="Vencimento"
+              startDate={filters.dateStart}
+              endDate={filters.dateEnd}
+              onStartChange={(value) => setFilters({ ...filters, dateStart: value })}
+              onEndChange={(value) => setFilters({ ...filters, dateEnd: value })}
+            />
+          </div>
+        </FilterBar>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Contas</CardTitle>
+            <CardDescription>Contas a pagar por vencimento, com vínculo ao pacote e ao pedido</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground">Carregando...</p>
+            ) : filteredPayables.length === 0 ? (
+              <p className="text-muted-foreground">Nenhuma conta encontrada.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vencimento</TableHead>
+                    <TableHead>Fornecedor</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Pacote / Pedido</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canEdit && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredPayables.map((payable) => {
+                    const displayStatus = getPayableDisplayStatus(payable);
+                    return (
+                      <TableRow key={payable.id}>
+                        <TableCell className="whitespace-nowrap">{formatDate(payable.due_date)}</TableCell>
+                        <TableCell className="font-medium">{payable.supplier?.name ?? "-"}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span>{payable.description}</span>
+                            {payable.document_number && (
+                              <span className="text-xs text-muted-foreground">Doc. {payable.document_number}</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span>{payable.package?.name ?? "-"}</span>
+                            {payable.order && (
+                              <Link to={`/orders/${payable.order.id}`} className="text-xs text-primary hover:underline">
+                                {payable.order.order_number}
+                              </Link>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <span className="font-medium">{formatCurrency(Number(payable.amount))}</span>
+                          {payable.status === "paid" && payable.paid_date && (
+                            <p className="text-xs text-muted-foreground">
+                              Pago {formatCurrency(Number(payable.paid_amount))} em {formatDate(payable.paid_date)}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[displayStatus]}>{statusLabel(displayStatus)}</Badge>
+                        </TableCell>
+                        {canEdit && (
+                          <TableCell>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-8 w-8">
+                                  <MoreVertical className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {payable.status === "pending" && (
+                                  <DropdownMenuItem onClick={() => setPaying(payable)}>
+                                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                                    Registrar pagamento
+                                  </DropdownMenuItem>
+                                )}
+                                <DropdownMenuItem onClick={() => openForm(payable)}>
+                                  <Pencil className="mr-2 h-4 w-4" />
+                                  Editar
+                                </DropdownMenuItem>
+                                {payable.status !== "pending" && (
+                                  <DropdownMenuItem onClick={() => handleStatusChange(payable, "pending")}>
+                                    <RotateCcw className="mr-2 h-4 w-4" />
+                                    Reabrir
+                                  </DropdownMenuItem>
+                                )}
+                                {payable.status === "pending" && (
+                                  <DropdownMenuItem onClick={() => handleStatusChange(payable, "cancelled")}>
+                                    <Ban className="mr-2 h-4 w-4" />
+                                    Cancelar conta
+                                  </DropdownMenuItem>
+                                )}
+                                {isOrgAdmin && (
+                                  <DropdownMenuItem onClick={() => setDeleting(payable)} className="text-destructive">
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Excluir
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <PayableFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        payable={editing}
+        suppliers={suppliers}
+        links={links}
+        onSaved={reload}
+      />
+
+      <PayablePaymentDialog
+        open={!!paying}
+        onOpenChange={(open) => !open && setPaying(null)}
+        payable={paying}
+        onPaid={reload}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir conta a pagar?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.description} será removida definitivamente. Para manter o histórico, prefira cancelar a conta.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, CheckCheck, EyeOff, Landmark, RotateCcw, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { BANK_ENTRY_STATUS_OPTIONS, type BankEntryStatus } from "@/lib/constants";
+import { formatCurrency } from "@/lib/utils";
+import { loadLateFeeSettings, type LateFeeSettings } from "@/lib/lateFees";
+import { getInstallmentBalance, getInstallmentPaymentMessage, splitReceivedAmount } from "@/lib/installmentPayments";
+import {
+  importBankStatement,
+  loadOpenInstallments,
+  loadStatementEntries,
+  rankInstallments,
+  readStatementFile,
+  reconcileStatementEntry,
+  setStatementEntryIgnored,
+  suggestMatches,
+  type ReconciliationEntry,
+  type ReconciliationInstallment,
+} from "@/lib/bankStatements";
+
+const NO_MATCH = "none";
+
+// Quantidade de parcelas listadas para escolha manual em cada crédito
+const MAX_OPTIONS = 15;
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+const describeInstallment = (installment: ReconciliationInstallment) =>
+  [
+    installment.order_number,
+    installment.customer_name,
+    installment.is_down_payment ? "Entrada" : `${installment.installment_number}/${installment.total_installments}`,
+    formatCurrency(getInstallmentBalance(installment)),
+    `venc. ${formatDate(installment.due_date)}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+/**
+ * Conciliação bancária: importa extratos OFX/CSV, sugere a parcela de cada crédito e
+ * confirma as baixas em lote. Créditos sem correspondência ficam na fila até serem
+ * conciliados ou ignorados.
+ *
+ * EN: Bank reconciliation: imports OFX/CSV statements, suggests the installment for each
+ * credit and confirms payments in bulk. Unmatched credits stay queued until handled.
+ */
+export default function BankReconciliation() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const { role } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<BankEntryStatus>("pending");
+  const [loading, setLoading] = useState(true);
+  const [entries, setEntries] = useState<ReconciliationEntry[]>([]);
+  const [installments, setInstallments] = useState<ReconciliationInstallment[]>([]);
+  const [lateFeeSettings, setLateFeeSettings] = useState<LateFeeSettings | null>(null);
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData(organizationId);
+    }
+  }, [organizationId, status]);
+
+  const loadData = async (orgId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setLoading(true);
+    const [{ entries, error }, { installments }, settings] = await Promise.all([
+      loadStatementEntries(orgId, status),
+      loadOpenInstallments(orgId),
+      loadLateFeeSettings(orgId),
+    ]);
+    if (error) {
+      toast.error("Erro ao carregar extrato");
+    }
+
+    setEntries(entries);
+    setInstallments(installments);
+    setLateFeeSettings(settings);
+
+    // Pré-seleciona as sugestões automáticas
+    const suggestions = status === "pending" ? suggestMatches(entries, installments, settings) : {};
+    setSelections(
+      Object.fromEntries(Object.entries(suggestions).map(([entryId, suggestion]) => [entryId, suggestion.installment.id]))
+    );
+    setChecked(new Set(Object.keys(suggestions)));
+    setLoading(false);
+  };
+
+  const rankings = useMemo(() => {
+    if (status !== "pending") return {};
+    return Object.fromEntries(entries.map((entry) => [entry.id, rankInstallments(entry, installments, lateFeeSettings)]));
+  }, [entries, installments, lateFeeSettings, status]);
+
+  const handleImport = async () => {
+    if (!file || !organizationId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setImporting(true);
+    try {
+      const statement = await readStatementFile(file);
+      if (statement.entries.length === 0) {
+        toast.error("Nenhum crédito encontrado no extrato");
+        return;
+      }
+
+      const { imported, skipped, error } = await importBankStatement(statement, {
+        organizationId,
+        userId: user.id,
+        fileName: file.name,
+      });
+      if (error) {
+        toast.error("Erro ao importar extrato: " + error.message);
+        return;
+      }
+
+      toast.success(
+        skipped > 0
+          ? `${imported} crédito(s) importado(s), ${skipped} já importado(s) anteriormente`
+          : `${imported} crédito(s) importado(s)`
+      );
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      if (status === "pending") {
+        loadData(organizationId);
+      } else {
+        setStatus("pending");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao ler o arquivo");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toggleChecked = (entryId: string, value: boolean) => {
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (value) next.add(entryId);
+      else next.delete(entryId);
+      return next;
+    });
+  };
+
+  const selectedEntries = entries.filter((entry) => checked.has(entry.id) && selections[entry.id]);
+
+  /**
+   * Confirma as conciliações marcadas. O saldo das parcelas é atualizado localmente a cada
+   * baixa para permitir mais de um crédito na mesma parcela.
+   * EN: Confirms the checked matches, tracking installment balances locally between credits.
+   */
+  const handleConfirm = async () => {
+    if (!organizationId || selectedEntries.length === 0) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setConfirming(true);
+    const byId = new Map(installments.map((installment) => [installment.id, { ...installment }]));
+    let reconciled = 0;
+    const failures: string[] = [];
+    const oversized: string[] = [];
+
+    for (const entry of selectedEntries) {
+      const installment = byId.get(selections[entry.id]);
+      if (!installment || getInstallmentBalance(installment) <= 0) {
+        failures.push(`${formatCurrency(Number(entry.amount))}: parcela sem saldo em aberto`);
+        continue;
+      }
+
+      const { principal, unapplied, error } = await reconcileStatementEntry(entry, installment, { lateFeeSettings });
+      if (unapplied > 0) {
+        oversized.push(`${formatCurrency(Number(entry.amount))} (excede em ${formatCurrency(unapplied)})`);
+        continue;
+      }
+      if (error) {
+        failures.push(`${formatCurrency(Number(entry.amount))}: ${getInstallmentPaymentMessage(error) ?? error.message}`);
+        continue;
+      }
+
+      installment.paid_amount += principal;
+      reconciled += 1;
+    }
+
+    setConfirming(false);
+    if (reconciled > 0) {
+      toast.success(`${reconciled} crédito(s) conciliado(s)`);
+    }
+    if (failures.length > 0) {
+      toast.error(`Não foi possível conciliar: ${failures.join("; ")}`);
+    }
+    if (oversized.length > 0) {
+      toast.warning(
+        `Crédito maior que o saldo da parcela com multa e juros; ficou na fila para conferência: ${oversized.join("; ")}`
+      );
+    }
+    loadData(organizationId);
+  };
+
+  const handleIgnore = async (entry: ReconciliationEntry, ignored: boolean) => {
+    if (!organizationId) return;
+    const { error } = await setStatementEntryIgnored(entry.id, ignored);
+    if (error) {
+      toast.error("Erro ao atualizar crédito");
+      return;
+    }
+    toast.success(ignored ? "Crédito ignorado" : "Crédito devolvido para a fila");
+    loadData(organizationId);
+  };
+
+  const totalSelected = selectedEntries.reduce((sum, entry) => sum + Number(entry.amount), 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/payments")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-success to-accent rounded-full flex items-center justify-center">
+              <Landmark className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Conciliação Bancária</h1>
+              <p className="text-sm text-muted-foreground">Importação de extratos e baixa automática de parcelas</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {canEdit && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Importar Extrato</CardTitle>
+              <CardDescription>
+                Arquivo OFX ou CSV (colunas Data, Histórico e Valor). Somente créditos são importados; lançamentos
+                já importados são ignorados.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col md:flex-row gap-3">
+              <Input
+                ref={fileInputRef}
+                type="file"
+                accept=".ofx,.qfx,.csv,.txt"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="md:max-w-md"
+              />
+              <Button onClick={handleImport} disabled={!file || importing}>
+                <Upload className="w-4 h-4 mr-2" />
+                {importing ? "Importando..." : "Importar"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Fila de Conciliação</CardTitle>
+              <CardDescription>
+                As sugestões consideram valor, data do crédito e nome do cliente no histórico. Revise e confirme em lote.
+              </CardDescription>
+            </div>
+            <div className="w-full md:w-56">
+              <StatusFilter
+                label="Situação"
+                value={status}
+                onChange={(value) => setStatus(value as BankEntryStatus)}
+                options={[...BANK_ENTRY_STATUS_OPTIONS]}
+              />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <p className="text-muted-foreground">Carregando...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {status === "pending" && canEdit && <TableHead className="w-10" />}
+                    <TableHead>Data</TableHead>
+                    <TableHead>Histórico</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>{status === "matched" ? "Parcela" : "Sugestão"}</TableHead>
+                    {canEdit && status !== "matched" && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const ranking = rankings[entry.id] ?? [];
+                    const selectedId = selections[entry.id] ?? "";
+                    const selected = ranking.find((option) => option.installment.id === selectedId);
+                    const options = ranking.slice(0, MAX_OPTIONS);
+                    if (selected && !options.includes(selected)) options.push(selected);
+                    const unapplied = selected
+                      ? splitReceivedAmount(Number(entry.amount), selected.installment, entry.posted_date, lateFeeSettings).unapplied
+                      : 0;
+
+                    return (
+                      <TableRow key={entry.id}>
+                        {status === "pending" && canEdit && (
+                          <TableCell>
+                            <Checkbox
+                              checked={checked.has(entry.id)}
+                              disabled={!selectedId}
+                              onCheckedChange={(value) => toggleChecked(entry.id, value === true)}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell className="whitespace-nowrap">{formatDate(entry.posted_date)}</TableCell>
+                        <TableCell className="max-w-xs truncate" title={entry.description}>
+                          {entry.description || "-"}
+                        </TableCell>
+                        <TableCell className="text-right font-medium whitespace-nowrap">
+                          {formatCurrency(Number(entry.amount))}
+                        </TableCell>
+                        <TableCell className="min-w-[18rem]">
+                          {status === "matched" ? (
+                            <span className="text-sm">{entry.matched_label ?? "-"}</span>
+                          ) : status === "ignored" ? (
+                            <span className="text-sm text-muted-foreground">-</span>
+                          ) : (
+                            <div className="space-y-1">
+                              <Select
+                                value={selectedId || NO_MATCH}
+                                disabled={!canEdit}
+                                onValueChange={(value) => {
+                                  setSelections({ ...selections, [entry.id]: value === NO_MATCH ? "" : value });
+                                  toggleChecked(entry.id, value !== NO_MATCH);
+                                }}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={NO_MATCH}>Sem correspondência</SelectItem>
+                                  {options.map((option) => (
+                                    <SelectItem key={option.installment.id} value={option.installment.id}>
+                                      {describeInstallment(option.installment)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {selected && selected.reasons.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                  {selected.reasons.map((reason) => (
+                                    <Badge key={reason} variant="secondary" className="text-xs font-normal">
+                                      {reason}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                              {unapplied > 0 && (
+                                <p className="text-xs text-destructive">
+                                  Crédito excede o saldo com multa e juros em {formatCurrency(unapplied)}
+                                </p>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                        {canEdit && status !== "matched" && (
+                          <TableCell>
+                            {status === "pending" ? (
+                              <Button variant="ghost" size="icon" title="Ignorar crédito" onClick={() => handleIgnore(entry, true)}>
+                                <EyeOff className="w-4 h-4" />
+                              </Button>
+                            ) : (
+                              <Button variant="ghost" size="icon" title="Devolver para a fila" onClick={() => handleIgnore(entry, false)}>
+                                <RotateCcw className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                  {entries.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                        {status === "pending" ? "Nenhum crédito aguardando conciliação" : "Nenhum crédito encontrado"}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+
+            {status === "pending" && canEdit && entries.length > 0 && (
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {selectedEntries.length} crédito(s) selecionado(s) · {formatCurrency(totalSelected)}
+                </p>
+                <Button onClick={handleConfirm} disabled={confirming || selectedEntries.length === 0}>
+                  <CheckCheck className="w-4 h-4 mr-2" />
+                  {confirming ? "Conciliando..." : "Confirmar Selecionados"}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
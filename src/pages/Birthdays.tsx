@@ -7,6 +7,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { ArrowLeft, Calendar, Cake } from "lucide-react";
 import { toast } from "sonner";
 import { useOrganization } from "@/hooks/useOrganization";
+import { ExportButton } from "@/components/exports/ExportButton";
+import type { ExportColumn } from "@/lib/exports";
+import type { Tables } from "@/integrations/supabase/types";
 
 const Birthdays = () => {
   const navigate = useNavigate();
@@ -88,6 +91,15 @@ const Birthdays = () => {
     return diffDays <= 30;
   };
 
+  const exportColumns: ExportColumn<Tables<"customers">>[] = [
+    { key: "full_name", label: "Nome", value: (customer) => customer.full_name },
+    { key: "email", label: "Email", value: (customer) => customer.email },
+    { key: "phone", label: "Telefone", value: (customer) => customer.phone },
+    { key: "birth_date", label: "Data de Nascimento", type: "date", value: (customer) => customer.birth_date },
+    { key: "next_birthday", label: "Próximo Aniversário", value: (customer) => getDaysUntilBirthday(customer.birth_date) },
+    { key: "city", label: "Cidade", optional: true, value: (customer) => customer.city },
+  ];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
       <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
@@ -104,6 +116,13 @@ const Birthdays = () => {
               <p className="text-sm text-muted-foreground">Datas especiais dos clientes</p>
             </div>
           </div>
+          <ExportButton
+            organizationId={organizationId}
+            title="Aniversários"
+            fileName="aniversarios"
+            columns={exportColumns}
+            rows={birthdays}
+          />
         </div>
       </header>
 
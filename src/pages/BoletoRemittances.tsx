@@ -0,0 +1,480 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Barcode, Download, FileText, Settings, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { CNAB_LAYOUT_OPTIONS, CNAB_LINE_OUTCOME_OPTIONS, type CnabLineOutcome } from "@/lib/constants";
+import { formatCurrency } from "@/lib/utils";
+import { downloadBlob } from "@/lib/documents";
+import { getInstallmentBalance } from "@/lib/installmentPayments";
+import { loadOpenInstallments, type ReconciliationInstallment } from "@/lib/bankStatements";
+import {
+  describeCnabOccurrence,
+  generateBoletoRemittance,
+  getCnabErrorMessage,
+  listCnabFileLines,
+  listCnabFiles,
+  loadCnabFileContent,
+  loadRemittanceOrganization,
+  processCnabReturn,
+  readCnabFile,
+  type RemittanceOrganization,
+} from "@/lib/cnab";
+
+type CnabFileSummary = Awaited<ReturnType<typeof listCnabFiles>>["files"][number];
+type CnabFileLineRow = Awaited<ReturnType<typeof listCnabFileLines>>["lines"][number];
+
+const OUTCOME_VARIANTS: Record<CnabLineOutcome, "default" | "secondary" | "destructive" | "outline"> = {
+  registered: "secondary",
+  confirmed: "secondary",
+  settled: "default",
+  already_paid: "outline",
+  not_found: "destructive",
+  rejected: "destructive",
+  ignored: "outline",
+  error: "destructive",
+};
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+const outcomeLabel = (outcome: CnabLineOutcome) =>
+  CNAB_LINE_OUTCOME_OPTIONS.find((option) => option.value === outcome)?.label ?? outcome;
+
+const layoutLabel = (layout: string) => CNAB_LAYOUT_OPTIONS.find((option) => option.value === layout)?.label ?? layout;
+
+const downloadText = (content: string, fileName: string) =>
+  downloadBlob(new Blob([content], { type: "text/plain;charset=windows-1252" }), fileName);
+
+/**
+ * Boletos via CNAB: gera o arquivo de remessa das parcelas em aberto selecionadas, processa
+ * o arquivo de retorno do banco (baixando as parcelas liquidadas) e mantém o histórico dos
+ * arquivos com o resultado de cada linha.
+ *
+ * EN: CNAB boletos: builds remittance files for selected open installments, processes bank
+ * return files (settling paid installments) and keeps a log of files with per-line outcomes.
+ */
+export default function BoletoRemittances() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const { role, isOrgAdmin } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<RemittanceOrganization | null>(null);
+  const [installments, setInstallments] = useState<ReconciliationInstallment[]>([]);
+  const [files, setFiles] = useState<CnabFileSummary[]>([]);
+  const [onlyBoleto, setOnlyBoleto] = useState(true);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [generating, setGenerating] = useState(false);
+  const [returnFile, setReturnFile] = useState<File | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [viewing, setViewing] = useState<CnabFileSummary | null>(null);
+  const [lines, setLines] = useState<CnabFileLineRow[]>([]);
+  const [loadingLines, setLoadingLines] = useState(false);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData(organizationId);
+    }
+  }, [organizationId]);
+
+  const loadData = async (orgId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setLoading(true);
+    const [organization, { installments }, { files, error }] = await Promise.all([
+      loadRemittanceOrganization(orgId),
+      loadOpenInstallments(orgId),
+      listCnabFiles(orgId),
+    ]);
+    if (error) {
+      toast.error("Erro ao carregar arquivos CNAB");
+    }
+
+    setSettings(organization);
+    setInstallments(installments);
+    setFiles(files);
+    setChecked(new Set());
+    setLoading(false);
+  };
+
+  const visibleInstallments = useMemo(
+    () => installments.filter((installment) => !onlyBoleto || installment.payment_method === "Boleto"),
+    [installments, onlyBoleto]
+  );
+
+  const selectedInstallments = visibleInstallments.filter((installment) => checked.has(installment.id));
+  const totalSelected = selectedInstallments.reduce((sum, installment) => sum + getInstallmentBalance(installment), 0);
+
+  const toggleChecked = (installmentId: string, value: boolean) => {
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (value) next.add(installmentId);
+      else next.delete(installmentId);
+      return next;
+    });
+  };
+
+  const toggleAll = (value: boolean) => {
+    setChecked(value ? new Set(visibleInstallments.map((installment) => installment.id)) : new Set());
+  };
+
+  const openLines = async (file: CnabFileSummary) => {
+    setViewing(file);
+    setLoadingLines(true);
+    const { lines, error } = await listCnabFileLines(file.id);
+    if (error) {
+      toast.error("Erro ao carregar linhas do arquivo");
+    }
+    setLines(lines);
+    setLoadingLines(false);
+  };
+
+  const handleGenerate = async () => {
+    if (!organizationId || selectedInstallments.length === 0) return;
+
+    setGenerating(true);
+    try {
+      const { file, content, error } = await generateBoletoRemittance(
+        organizationId,
+        selectedInstallments.map((installment) => installment.id)
+      );
+      if (error || !file || !content) {
+        toast.error(getCnabErrorMessage(error) ?? "Erro ao gerar remessa");
+        return;
+      }
+
+      downloadText(content, file.file_name);
+      toast.success(`Remessa ${file.file_name} gerada com ${file.total_lines} boleto(s)`);
+      loadData(organizationId);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleProcessReturn = async () => {
+    if (!returnFile || !organizationId) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setProcessing(true);
+    try {
+      const text = await readCnabFile(returnFile);
+      const { file, counts, error } = await processCnabReturn(text, {
+        organizationId,
+        userId: user.id,
+        fileName: returnFile.name,
+        bankCode: settings?.boleto_bank_code ?? null,
+      });
+      if (!file || !counts) {
+        toast.error(error?.message ?? "Erro ao processar retorno");
+        return;
+      }
+      if (error) {
+        toast.error("Retorno processado, mas houve erro ao registrar o resultado: " + error.message);
+      }
+
+      const problems = counts.not_found + counts.rejected + counts.error;
+      toast.success(
+        `${counts.settled} parcela(s) liquidada(s), ${counts.confirmed} entrada(s) confirmada(s)` +
+          (problems > 0 ? `, ${problems} linha(s) com pendência` : "")
+      );
+      setReturnFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      await loadData(organizationId);
+      openLines(file);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao ler arquivo de retorno");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDownload = async (fileId: string) => {
+    const { file, error } = await loadCnabFileContent(fileId);
+    if (error || !file) {
+      toast.error("Erro ao baixar arquivo");
+      return;
+    }
+    downloadText(file.content, file.file_name);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/payments")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-success to-accent rounded-full flex items-center justify-center">
+              <Barcode className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Boletos (CNAB)</h1>
+              <p className="text-sm text-muted-foreground">Remessa de boletos e processamento do retorno bancário</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {!loading && !settings && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Conta de cobrança não configurada</CardTitle>
+              <CardDescription>
+                Cadastre banco, agência, conta, carteira e layout CNAB nas configurações da organização para gerar
+                remessas.
+              </CardDescription>
+            </CardHeader>
+            {isOrgAdmin && (
+              <CardContent>
+                <Button variant="outline" onClick={() => navigate("/organization/settings")}>
+                  <Settings className="w-4 h-4 mr-2" />
+                  Configurações da Organização
+                </Button>
+              </CardContent>
+            )}
+          </Card>
+        )}
+
+        {canEdit && settings && (
+          <Card>
+            <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Gerar Remessa</CardTitle>
+                <CardDescription>
+                  Selecione as parcelas em aberto. Cada parcela recebe um nosso número e o boleto é emitido pelo saldo em
+                  aberto, com multa e juros conforme as regras de atraso.
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="only-boleto"
+                  checked={onlyBoleto}
+                  onCheckedChange={(value) => setOnlyBoleto(value === true)}
+                />
+                <Label htmlFor="only-boleto" className="whitespace-nowrap">Somente forma de pagamento Boleto</Label>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loading ? (
+                <p className="text-muted-foreground">Carregando...</p>
+              ) : visibleInstallments.length === 0 ? (
+                <p className="text-muted-foreground">Nenhuma parcela em aberto.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={selectedInstallments.length > 0 && selectedInstallments.length === visibleInstallments.length}
+                          onCheckedChange={(value) => toggleAll(value === true)}
+                        />
+                      </TableHead>
+                      <TableHead>Pedido</TableHead>
+                      <TableHead>Cliente</TableHead>
+                      <TableHead>Parcela</TableHead>
+                      <TableHead>Vencimento</TableHead>
+                      <TableHead className="text-right">Saldo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleInstallments.map((installment) => (
+                      <TableRow key={installment.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={checked.has(installment.id)}
+                            onCheckedChange={(value) => toggleChecked(installment.id, value === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">{installment.order_number}</TableCell>
+                        <TableCell>{installment.customer_name}</TableCell>
+                        <TableCell>
+                          {installment.is_down_payment
+                            ? "Entrada"
+                            : `${installment.installment_number}/${installment.total_installments}`}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDate(installment.due_date)}</TableCell>
+                        <TableCell className="text-right font-medium whitespace-nowrap">
+                          {formatCurrency(getInstallmentBalance(installment))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  {selectedInstallments.length} parcela(s) selecionada(s) · {formatCurrency(totalSelected)}
+                </p>
+                <Button onClick={handleGenerate} disabled={selectedInstallments.length === 0 || generating}>
+                  <Download className="w-4 h-4 mr-2" />
+                  {generating ? "Gerando..." : "Gerar Remessa"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {canEdit && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Processar Retorno</CardTitle>
+              <CardDescription>
+                Arquivo de retorno CNAB 240 ou 400 do banco. Liquidações são lançadas como recebimento da parcela na data
+                do pagamento; o mesmo arquivo não é processado duas vezes.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col md:flex-row gap-3">
+              <Input
+                ref={fileInputRef}
+                type="file"
+                accept=".ret,.txt,.rem,.cnab"
+                onChange={(e) => setReturnFile(e.target.files?.[0] ?? null)}
+                className="md:max-w-md"
+              />
+              <Button onClick={handleProcessReturn} disabled={!returnFile || processing}>
+                <Upload className="w-4 h-4 mr-2" />
+                {processing ? "Processando..." : "Processar"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Arquivos Processados</CardTitle>
+            <CardDescription>Remessas geradas e retornos importados, com o resultado de cada linha</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground">Carregando...</p>
+            ) : files.length === 0 ? (
+              <p className="text-muted-foreground">Nenhum arquivo ainda.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Arquivo</TableHead>
+                    <TableHead>Layout</TableHead>
+                    <TableHead className="text-right">Linhas</TableHead>
+                    <TableHead className="text-right">Pendências</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {files.map((file) => (
+                    <TableRow key={file.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {file.created_at ? format(parseISO(file.created_at), "dd/MM/yyyy HH:mm") : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={file.file_type === "remittance" ? "secondary" : "outline"}>
+                          {file.file_type === "remittance" ? "Remessa" : "Retorno"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{file.file_name}</TableCell>
+                      <TableCell>{layoutLabel(file.layout)}</TableCell>
+                      <TableCell className="text-right">{file.total_lines}</TableCell>
+                      <TableCell className="text-right">
+                        {file.error_lines > 0 ? <span className="text-destructive">{file.error_lines}</span> : 0}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatCurrency(Number(file.total_amount))}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" title="Ver linhas" onClick={() => openLines(file)}>
+                            <FileText className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Baixar arquivo" onClick={() => handleDownload(file.id)}>
+                            <Download className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewing?.file_name}</DialogTitle>
+            <DialogDescription>
+              {viewing?.file_type === "remittance" ? "Boletos enviados na remessa" : "Ocorrências do retorno bancário"}
+            </DialogDescription>
+          </DialogHeader>
+          {loadingLines ? (
+            <p className="text-muted-foreground">Carregando...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Linha</TableHead>
+                  <TableHead>Nosso nº</TableHead>
+                  <TableHead>Parcela</TableHead>
+                  <TableHead>Ocorrência</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead>Resultado</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.line_number}</TableCell>
+                    <TableCell>{line.our_number ?? "-"}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {line.installment
+                        ? `${line.installment.payments?.orders?.order_number ?? ""} · ${line.installment.installment_number}/${line.installment.total_installments}`
+                        : "-"}
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      {line.occurrence_code && viewing
+                        ? `${line.occurrence_code} - ${describeCnabOccurrence(viewing.layout, line.occurrence_code)}`
+                        : line.message ?? "-"}
+                      {line.occurrence_code && line.message && line.outcome === "error" && (
+                        <p className="text-xs text-destructive">{line.message}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {line.paid_amount ? formatCurrency(Number(line.paid_amount)) : line.amount ? formatCurrency(Number(line.amount)) : "-"}
+                      {line.occurrence_date && (
+                        <p className="text-xs text-muted-foreground">{formatDate(line.occurrence_date)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={OUTCOME_VARIANTS[line.outcome]}>{outcomeLabel(line.outcome)}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CurrencyInput } from "@/components/ui/currency-input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDownCircle, ArrowLeft, ArrowUpCircle, LineChart, Scale, TrendingDown } from "lucide-react";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { addDays, format, parseISO } from "date-fns";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { useOrganization } from "@/hooks/useOrganization";
+import { CASH_FLOW_GRANULARITY_OPTIONS, CASH_FLOW_HORIZON_OPTIONS, type CashFlowGranularity } from "@/lib/constants";
+import { todayDateOnly } from "@/lib/lateFees";
+import { cleanCurrency, formatCurrency } from "@/lib/utils";
+import {
+  buildCashFlowProjection,
+  DEFAULT_CASH_FLOW_SCENARIO,
+  loadCashFlowItems,
+  type CashFlowBucket,
+  type CashFlowItem,
+  type CashFlowScenario,
+} from "@/lib/cashFlow";
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+const SCENARIO_TOGGLES: { key: keyof CashFlowScenario; label: string; description: string }[] = [
+  {
+    key: "excludeOverdueReceivables",
+    label: "Vencidos nunca serão pagos",
+    description: "Desconsidera as parcelas a receber já vencidas",
+  },
+  {
+    key: "confirmedOrdersOnly",
+    label: "Somente pedidos confirmados",
+    description: "Ignora parcelas de pedidos ainda pendentes",
+  },
+  {
+    key: "includeOverduePayables",
+    label: "Pagar contas vencidas agora",
+    description: "Lança as contas a pagar vencidas no primeiro período",
+  },
+];
+
+/**
+ * Fluxo de Caixa projetado: entradas pelas parcelas a receber em aberto e saídas pelas contas
+ * a pagar, agrupadas por dia, semana ou mês, com saldo inicial, saldo acumulado e cenários.
+ *
+ * EN: Projected cash flow: inflows from open installments and outflows from payables, grouped
+ * by day, week or month, with opening balance, running balance and scenario toggles.
+ */
+export default function CashFlow() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<CashFlowItem[]>([]);
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [granularity, setGranularity] = useState<CashFlowGranularity>("week");
+  const [horizon, setHorizon] = useState("90");
+  const [scenario, setScenario] = useState<CashFlowScenario>(DEFAULT_CASH_FLOW_SCENARIO);
+  const [selectedBucket, setSelectedBucket] = useState<CashFlowBucket | null>(null);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData(organizationId);
+    }
+  }, [organizationId]);
+
+  const loadData = async (orgId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setLoading(true);
+    const { items, error } = await loadCashFlowItems(orgId);
+    if (error) {
+      toast.error("Erro ao carregar dados do fluxo de caixa");
+    }
+    setItems(items);
+    setLoading(false);
+  };
+
+  const projection = useMemo(() => {
+    const startDate = todayDateOnly();
+    const endDate = format(addDays(parseISO(startDate), Number(horizon) - 1), "yyyy-MM-dd");
+    return buildCashFlowProjection(items, {
+      openingBalance: openingBalance ? cleanCurrency(openingBalance) : 0,
+      startDate,
+      endDate,
+      granularity,
+      scenario,
+    });
+  }, [items, openingBalance, granularity, horizon, scenario]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-primary to-accent rounded-full flex items-center justify-center">
+              <LineChart className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Fluxo de Caixa</h1>
+              <p className="text-sm text-muted-foreground">Projeção de entradas, saídas e saldo</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Parâmetros da Projeção</CardTitle>
+            <CardDescription>
+              Entradas pelo saldo das parcelas em aberto e saídas pelas contas a pagar, a partir de hoje
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="opening-balance">Saldo inicial (hoje)</Label>
+                <CurrencyInput
+                  id="opening-balance"
+                  value={openingBalance}
+                  onChange={(e) => setOpeningBalance(e.target.value)}
+                />
+              </div>
+              <StatusFilter
+                label="Agrupar por"
+                value={granularity}
+                onChange={(value) => setGranularity(value as CashFlowGranularity)}
+                options={[...CASH_FLOW_GRANULARITY_OPTIONS]}
+              />
+              <StatusFilter
+                label="Horizonte"
+                value={horizon}
+                onChange={setHorizon}
+                options={[...CASH_FLOW_HORIZON_OPTIONS]}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {SCENARIO_TOGGLES.map((toggle) => (
+                <div key={toggle.key} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <Label htmlFor={`scenario-${toggle.key}`}>{toggle.label}</Label>
+                    <p className="text-xs text-muted-foreground">{toggle.description}</p>
+                  </div>
+                  <Switch
+                    id={`scenario-${toggle.key}`}
+                    checked={scenario[toggle.key]}
+                    onCheckedChange={(checked) => setScenario({ ...scenario, [toggle.key]: checked })}
+                  />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Entradas previstas</CardTitle>
+              <ArrowDownCircle className="h-4 w-4 text-success" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(projection.totalInflow)}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {projection.overdueInflow > 0 ? `inclui ${formatCurrency(projection.overdueInflow)} vencidos` : "parcelas a receber"}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Saídas previstas</CardTitle>
+              <ArrowUpCircle className="h-4 w-4 text-destructive" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(projection.totalOutflow)}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {projection.overdueOutflow > 0 ? `inclui ${formatCurrency(projection.overdueOutflow)} vencidos` : "contas a pagar"}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Saldo final</CardTitle>
+              <Scale className="h-4 w-4 text-primary" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${projection.closingBalance < 0 ? "text-destructive" : ""}`}>
+                {formatCurrency(projection.closingBalance)}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">ao fim do horizonte</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Menor saldo</CardTitle>
+              <TrendingDown className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${projection.lowestBalance < 0 ? "text-destructive" : ""}`}>
+                {formatCurrency(projection.lowestBalance)}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {projection.firstNegativeDate
+                  ? `saldo negativo a partir de ${formatDate(projection.firstNegativeDate)}`
+                  : "sem saldo negativo no período"}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Saldo Projetado</CardTitle>
+            <CardDescription>Entradas e saídas por período com o saldo acumulado</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground">Carregando...</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={320}>
+                <ComposedChart data={projection.buckets}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" />
+                  <YAxis stroke="hsl(var(--muted-foreground))" />
+                  <Tooltip
+                    formatter={(value: number) => formatCurrency(value)}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "var(--radius)",
+                    }}
+                  />
+                  <Legend />
+                  <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                  <Bar dataKey="inflow" name="Entradas" fill="hsl(var(--success))" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="outflow" name="Saídas" fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} />
+                  <Line type="monotone" dataKey="balance" name="Saldo" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Períodos</CardTitle>
+            <CardDescription>Clique em um período para ver os lançamentos previstos</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Período</TableHead>
+                  <TableHead className="text-right">Entradas</TableHead>
+                  <TableHead className="text-right">Saídas</TableHead>
+                  <TableHead className="text-right">Resultado</TableHead>
+                  <TableHead className="text-right">Saldo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {projection.buckets.map((bucket) => (
+                  <TableRow
+                    key={bucket.start}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => setSelectedBucket(bucket)}
+                  >
+                    <TableCell className="whitespace-nowrap">
+                      {bucket.start === bucket.end ? formatDate(bucket.start) : `${formatDate(bucket.start)} a ${formatDate(bucket.end)}`}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatCurrency(bucket.inflow)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatCurrency(bucket.outflow)}</TableCell>
+                    <TableCell className={`text-right whitespace-nowrap ${bucket.net < 0 ? "text-destructive" : ""}`}>
+                      {formatCurrency(bucket.net)}
+                    </TableCell>
+                    <TableCell className={`text-right font-medium whitespace-nowrap ${bucket.balance < 0 ? "text-destructive" : ""}`}>
+                      {formatCurrency(bucket.balance)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={!!selectedBucket} onOpenChange={(open) => !open && setSelectedBucket(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Lançamentos previstos</DialogTitle>
+            <DialogDescription>
+              {selectedBucket &&
+                (selectedBucket.start === selectedBucket.end
+                  ? formatDate(selectedBucket.start)
+                  : `${formatDate(selectedBucket.start)} a ${formatDate(selectedBucket.end)}`)}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedBucket && selectedBucket.items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum lançamento no período.</p>
+          ) : (
+            <div className="max-h-96 overflow-auto divide-y">
+              {[...(selectedBucket?.items ?? [])]
+                .sort((a, b) => a.due_date.localeCompare(b.due_date))
+                .map((item) => (
+                  <div key={`${item.kind}-${item.id}`} className="py-2 flex items-center justify-between gap-4">
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">{formatDate(item.due_date)}</span> · {item.description}
+                    </div>
+                    <div
+                      className={`text-sm font-medium whitespace-nowrap ${item.kind === "inflow" ? "text-success" : "text-destructive"}`}
+                    >
+                      {item.kind === "inflow" ? "+" : "-"} {formatCurrency(item.amount)}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
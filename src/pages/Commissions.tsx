@@ -0,0 +1,420 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Ban, BadgePercent, CheckCircle2, RotateCcw, Settings } from "lucide-react";
+import { toast } from "sonner";
+import { endOfMonth, format, parseISO, startOfMonth } from "date-fns";
+import { FilterBar } from "@/components/filters/FilterBar";
+import { DateRangeFilter } from "@/components/filters/DateRangeFilter";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { COMMISSION_BASIS_OPTIONS, COMMISSION_STATUS_OPTIONS, type CommissionStatus } from "@/lib/constants";
+import { todayDateOnly } from "@/lib/lateFees";
+import { formatCurrency } from "@/lib/utils";
+import {
+  listCommissionEntries,
+  loadOrganizationAgents,
+  markCommissionsPaid,
+  setCommissionStatus,
+  summarizeCommissionsByAgent,
+  type CommissionEntry,
+  type OrganizationAgent,
+} from "@/lib/commissions";
+
+const STATUS_VARIANTS: Record<CommissionStatus, "default" | "secondary" | "outline"> = {
+  pending: "secondary",
+  paid: "default",
+  cancelled: "outline",
+};
+
+const statusLabel = (status: CommissionStatus) =>
+  COMMISSION_STATUS_OPTIONS.find((option) => option.value === status)?.label ?? status;
+
+const basisLabel = (basis: string) =>
+  basis === "order_confirmed" ? "Pedido confirmado" : basis === "installment_received" ? "Parcela recebida" : basis;
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+const currentMonthFilters = () => {
+  const today = parseISO(todayDateOnly());
+  return {
+    dateStart: format(startOfMonth(today), "yyyy-MM-dd"),
+    dateEnd: format(endOfMonth(today), "yyyy-MM-dd"),
+    userId: "all",
+    status: "all",
+  };
+};
+
+/**
+ * Relatório de comissões por agente e período, com baixa das comissões pagas.
+ * Administradores veem todos os agentes; os demais membros, somente as próprias comissões.
+ *
+ * EN: Commission report per agent and period, with settlement of paid commissions.
+ * Admins see every agent; other members only their own commissions.
+ */
+export default function Commissions() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const { isOrgAdmin } = useOrganizationRole();
+  const [loading, setLoading] = useState(true);
+  const [entries, setEntries] = useState<CommissionEntry[]>([]);
+  const [agents, setAgents] = useState<OrganizationAgent[]>([]);
+  const [filters, setFilters] = useState(currentMonthFilters);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [paidDate, setPaidDate] = useState(todayDateOnly());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadAgents(organizationId);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData(organizationId);
+    }
+  }, [organizationId, filters]);
+
+  const loadAgents = async (orgId: string) => {
+    const { agents } = await loadOrganizationAgents(orgId);
+    setAgents(agents);
+  };
+
+  const loadData = async (orgId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setLoading(true);
+    const { entries, error } = await listCommissionEntries(orgId, {
+      startDate: filters.dateStart || undefined,
+      endDate: filters.dateEnd || undefined,
+      userId: filters.userId === "all" ? null : filters.userId,
+      status: filters.status as CommissionStatus | "all",
+    });
+    if (error) {
+      toast.error("Erro ao carregar comissões");
+    }
+    setEntries(entries);
+    setChecked(new Set());
+    setLoading(false);
+  };
+
+  const summaries = useMemo(() => summarizeCommissionsByAgent(entries), [entries]);
+  const totals = useMemo(
+    () => ({
+      amount: summaries.reduce((sum, summary) => sum + summary.amount, 0),
+      pending: summaries.reduce((sum, summary) => sum + summary.pending_amount, 0),
+      paid: summaries.reduce((sum, summary) => sum + summary.paid_amount, 0),
+    }),
+    [summaries]
+  );
+
+  const pendingEntries = entries.filter((entry) => entry.status === "pending");
+  const selectedEntries = pendingEntries.filter((entry) => checked.has(entry.id));
+  const selectedTotal = selectedEntries.reduce((sum, entry) => sum + Number(entry.amount), 0);
+
+  const activeFiltersCount =
+    (filters.userId !== "all" ? 1 : 0) + (filters.status !== "all" ? 1 : 0) + (filters.dateStart || filters.dateEnd ? 1 : 0);
+
+  const toggleChecked = (entryId: string, value: boolean) => {
+    setChecked((prev) => {
+      const next = new Set(prev);
+      if (value) next.add(entryId);
+      else next.delete(entryId);
+      return next;
+    });
+  };
+
+  const toggleAll = (value: boolean) => {
+    setChecked(value ? new Set(pendingEntries.map((entry) => entry.id)) : new Set());
+  };
+
+  const handleMarkPaid = async () => {
+    if (!organizationId || selectedEntries.length === 0) return;
+    if (!paidDate) {
+      toast.error("Informe a data do pagamento");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await markCommissionsPaid(selectedEntries.map((entry) => entry.id), paidDate);
+    setSaving(false);
+    if (error) {
+      toast.error("Erro ao registrar pagamento das comissões");
+      return;
+    }
+    toast.success(`${selectedEntries.length} comissão(ões) marcada(s) como paga(s)`);
+    loadData(organizationId);
+  };
+
+  const handleStatusChange = async (entry: CommissionEntry, status: "pending" | "cancelled") => {
+    if (!organizationId) return;
+    const { error } = await setCommissionStatus(entry.id, status);
+    if (error) {
+      toast.error("Erro ao atualizar comissão");
+      return;
+    }
+    toast.success(status === "cancelled" ? "Comissão cancelada" : "Comissão reaberta");
+    loadData(organizationId);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-primary to-accent rounded-full flex items-center justify-center">
+              <BadgePercent className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Comissões</h1>
+              <p className="text-sm text-muted-foreground">Comissões de vendas por agente e período</p>
+            </div>
+          </div>
+          {isOrgAdmin && (
+            <Button variant="outline" onClick={() => navigate("/organization/settings")}>
+              <Settings className="w-4 h-4 mr-2" />
+              Regras de Comissão
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <FilterBar
+          onClear={() => setFilters({ ...currentMonthFilters(), dateStart: "", dateEnd: "" })}
+          activeFiltersCount={activeFiltersCount}
+          resultsCount={entries.length}
+          gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
+        >
+          <div className="lg:col-span-5">
+            <DateRangeFilter
+              label="Período"
+              startDate={filters.dateStart}
+              endDate={filters.dateEnd}
+              onStartChange={(value) => setFilters({ ...filters, dateStart: value })}
+              onEndChange={(value) => setFilters({ ...filters, dateEnd: value })}
+            />
+          </div>
+          {isOrgAdmin && (
+            <div className="lg:col-span-4">
+              <StatusFilter
+                label="Agente"
+                value={filters.userId}
+                onChange={(value) => setFilters({ ...filters, userId: value })}
+                options={[
+                  { value: "all", label: "Todos" },
+                  ...agents.map((agent) => ({ value: agent.user_id, label: agent.full_name })),
+                ]}
+              />
+            </div>
+          )}
+          <div className="lg:col-span-3">
+            <StatusFilter
+              label="Status"
+              value={filters.status}
+              onChange={(value) => setFilters({ ...filters, status: value })}
+              options={[{ value: "all", label: "Todos" }, ...COMMISSION_STATUS_OPTIONS]}
+            />
+          </div>
+        </FilterBar>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Comissões no período</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(totals.amount)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>A pagar</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(totals.pending)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Pagas</CardDescription>
+              <CardTitle className="text-2xl">{formatCurrency(totals.paid)}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Por Agente</CardTitle>
+            <CardDescription>Totais do período, sem as comissões canceladas</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground">Carregando...</p>
+            ) : summaries.length === 0 ? (
+              <p className="text-muted-foreground">Nenhuma comissão no período.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Agente</TableHead>
+                    <TableHead className="text-right">Lançamentos</TableHead>
+                    <TableHead className="text-right">Base de cálculo</TableHead>
+                    <TableHead className="text-right">Comissão</TableHead>
+                    <TableHead className="text-right">A pagar</TableHead>
+                    <TableHead className="text-right">Paga</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summaries.map((summary) => (
+                    <TableRow key={summary.user_id}>
+                      <TableCell className="font-medium">{summary.agent_name}</TableCell>
+                      <TableCell className="text-right">{summary.entries}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatCurrency(summary.base_amount)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap font-medium">{formatCurrency(summary.amount)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatCurrency(summary.pending_amount)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatCurrency(summary.paid_amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div className="space-y-1.5">
+              <CardTitle>Lançamentos</CardTitle>
+              <CardDescription>
+                Lançadas automaticamente conforme as regras ({COMMISSION_BASIS_OPTIONS.map((option) => option.label.toLowerCase()).join(" ou ")})
+              </CardDescription>
+            </div>
+            {isOrgAdmin && pendingEntries.length > 0 && (
+              <div className="flex flex-col md:flex-row md:items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="commission-paid-date" className="text-xs">Data do pagamento</Label>
+                  <Input
+                    id="commission-paid-date"
+                    type="date"
+                    value={paidDate}
+                    onChange={(e) => setPaidDate(e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleMarkPaid} disabled={selectedEntries.length === 0 || saving}>
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                  {saving ? "Salvando..." : `Marcar como pagas (${formatCurrency(selectedTotal)})`}
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground">Carregando...</p>
+            ) : entries.length === 0 ? (
+              <p className="text-muted-foreground">Nenhum lançamento encontrado.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {isOrgAdmin && (
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={selectedEntries.length > 0 && selectedEntries.length === pendingEntries.length}
+                          onCheckedChange={(value) => toggleAll(value === true)}
+                        />
+                      </TableHead>
+                    )}
+                    <TableHead>Data</TableHead>
+                    <TableHead>Agente</TableHead>
+                    <TableHead>Pedido</TableHead>
+                    <TableHead>Origem</TableHead>
+                    <TableHead className="text-right">Base</TableHead>
+                    <TableHead className="text-right">Comissão</TableHead>
+                    <TableHead>Status</TableHead>
+                    {isOrgAdmin && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      {isOrgAdmin && (
+                        <TableCell>
+                          {entry.status === "pending" && (
+                            <Checkbox
+                              checked={checked.has(entry.id)}
+                              onCheckedChange={(value) => toggleChecked(entry.id, value === true)}
+                            />
+                          )}
+                        </TableCell>
+                      )}
+                      <TableCell className="whitespace-nowrap">{formatDate(entry.reference_date)}</TableCell>
+                      <TableCell>{entry.agent?.full_name || entry.agent?.email || "-"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <Link to={`/orders/${entry.order_id}`} className="text-primary hover:underline">
+                            {entry.order?.order_number ?? "-"}
+                          </Link>
+                          {entry.order?.customers?.full_name && (
+                            <span className="text-xs text-muted-foreground">{entry.order.customers.full_name}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{basisLabel(entry.basis)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{formatCurrency(Number(entry.base_amount))}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <span className="font-medium">{formatCurrency(Number(entry.amount))}</span>
+                        <p className="text-xs text-muted-foreground">{Number(entry.commission_percent)}%</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[entry.status]}>{statusLabel(entry.status)}</Badge>
+                        {entry.status === "paid" && entry.paid_date && (
+                          <p className="text-xs text-muted-foreground mt-1">{formatDate(entry.paid_date)}</p>
+                        )}
+                      </TableCell>
+                      {isOrgAdmin && (
+                        <TableCell>
+                          {entry.status === "pending" ? (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Cancelar comissão"
+                              onClick={() => handleStatusChange(entry, "cancelled")}
+                            >
+                              <Ban className="w-4 h-4 text-destructive" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Reabrir comissão"
+                              onClick={() => handleStatusChange(entry, "pending")}
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
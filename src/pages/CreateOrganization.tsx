@@ -8,11 +8,13 @@ import { Label } from "@/components/ui/label";
 import { ArrowLeft, Building2, Upload } from "lucide-react";
 import { toast } from "sonner";
 import { z } from "zod";
+import { CnpjInput } from "@/components/ui/cnpj-input";
+import { organizationCnpjSchema } from "@/lib/validations";
 
 const organizationSchema = z.object({
   name: z.string().min(2, "Nome deve ter no mínimo 2 caracteres"),
   email: z.string().email("Email inválido"),
-  cnpj: z.string().optional(),
+  cnpj: organizationCnpjSchema,
   primaryColor: z.string().optional(),
   secondaryColor: z.string().optional(),
   tertiaryColor: z.string().optional(),
@@ -184,11 +186,10 @@ export default function CreateOrganization() {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="cnpj">CNPJ (opcional)</Label>
-                  <Input
+                  <CnpjInput
                     id="cnpj"
                     value={formData.cnpj}
                     onChange={(e) => setFormData({ ...formData, cnpj: e.target.value })}
-                    placeholder="00.000.000/0000-00"
                   />
                 </div>
 
@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, CopyCheck, GitMerge, X } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { FilterBar } from "@/components/filters/FilterBar";
+import { SearchInput } from "@/components/filters/SearchInput";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { cn, formatCpf, formatPhone } from "@/lib/utils";
+import {
+  DUPLICATE_REASON_LABELS,
+  dismissDuplicatePair,
+  findDuplicatePairs,
+  getMergedCustomerName,
+  listCustomerMerges,
+  loadCustomersForDuplicateReview,
+  loadDuplicateDismissals,
+  mergeCustomers,
+  duplicatePairKey,
+  type CustomerDuplicatePair,
+  type CustomerMerge,
+  type DuplicateCustomer,
+  type DuplicateReason,
+} from "@/lib/customerDuplicates";
+
+const orderCount = (customer: DuplicateCustomer) => customer.orders?.[0]?.count ?? 0;
+
+/**
+ * Sugestão de cliente a manter: o com mais pedidos e, empatados, o cadastro mais antigo.
+ * EN: Suggested surviving customer: most orders first, then the oldest record.
+ */
+const suggestSurvivor = (pair: CustomerDuplicatePair) => {
+  const diff = orderCount(pair.other) - orderCount(pair.customer);
+  if (diff !== 0) return diff > 0 ? pair.other.id : pair.customer.id;
+  return (pair.other.created_at ?? "") < (pair.customer.created_at ?? "") ? pair.other.id : pair.customer.id;
+};
+
+const formatDateTime = (date: string | null) => (date ? format(parseISO(date), "dd/MM/yyyy HH:mm") : "-");
+
+/**
+ * Revisão de clientes duplicados: pares suspeitos (CPF, email, telefone ou nome parecido),
+ * mesclagem no cliente escolhido e histórico das mesclagens.
+ * Somente administradores mesclam; agentes podem marcar pares como "não é duplicado".
+ *
+ * EN: Duplicate customers review: suspected pairs, merge into the chosen customer and merge history.
+ * Only admins merge; agents can mark pairs as "not a duplicate".
+ */
+export default function CustomerDuplicates() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const { role, isOrgAdmin } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const [loading, setLoading] = useState(true);
+  const [pairs, setPairs] = useState<CustomerDuplicatePair[]>([]);
+  const [merges, setMerges] = useState<CustomerMerge[]>([]);
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [filters, setFilters] = useState({ search: "", reason: "all" });
+  const [pendingMerge, setPendingMerge] = useState<{ surviving: DuplicateCustomer; merged: DuplicateCustomer } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData(organizationId);
+    }
+  }, [organizationId]);
+
+  const loadData = async (orgId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setLoading(true);
+    const [{ customers, error }, { keys }, { merges }] = await Promise.all([
+      loadCustomersForDuplicateReview(orgId),
+      loadDuplicateDismissals(orgId),
+      listCustomerMerges(orgId),
+    ]);
+    if (error) {
+      toast.error("Erro ao carregar clientes");
+    }
+    setPairs(findDuplicatePairs(customers, keys));
+    setMerges(merges);
+    setLoading(false);
+  };
+
+  const filteredPairs = useMemo(() => {
+    const searchLower = filters.search.toLowerCase();
+    return pairs.filter((pair) => {
+      const matchesSearch =
+        !filters.search ||
+        [pair.customer, pair.other].some(
+          (customer) =>
+            customer.full_name.toLowerCase().includes(searchLower) ||
+            customer.email?.toLowerCase().includes(searchLower)
+        );
+      const matchesReason = filters.reason === "all" || pair.reasons.includes(filters.reason as DuplicateReason);
+      return matchesSearch && matchesReason;
+    });
+  }, [pairs, filters]);
+
+  const activeFiltersCount = (filters.search ? 1 : 0) + (filters.reason !== "all" ? 1 : 0);
+
+  const survivorOf = (pair: CustomerDuplicatePair) =>
+    survivors[duplicatePairKey(pair.customer.id, pair.other.id)] ?? suggestSurvivor(pair);
+
+  const chooseSurvivor = (pair: CustomerDuplicatePair, customerId: string) => {
+    setSurvivors((prev) => ({ ...prev, [duplicatePairKey(pair.customer.id, pair.other.id)]: customerId }));
+  };
+
+  const handleDismiss = async (pair: CustomerDuplicatePair) => {
+    if (!organizationId) return;
+    const { error } = await dismissDuplicatePair(organizationId, pair.customer.id, pair.other.id);
+    if (error) {
+      toast.error("Erro ao descartar sugestão");
+      return;
+    }
+    toast.success("Par marcado como não duplicado");
+    loadData(organizationId);
+  };
+
+  const handleMerge = async () => {
+    if (!organizationId || !pendingMerge) return;
+    setSaving(true);
+    const { error } = await mergeCustomers(pendingMerge.surviving.id, pendingMerge.merged.id);
+    setSaving(false);
+    if (error) {
+      toast.error(error.message || "Erro ao mesclar clientes");
+      return;
+    }
+    toast.success(`${pendingMerge.merged.full_name} mesclado em ${pendingMerge.surviving.full_name}`);
+    setPendingMerge(null);
+    loadData(organizationId);
+  };
+
+  const renderCustomer = (pair: CustomerDuplicatePair, customer: DuplicateCustomer) => {
+    const selected = survivorOf(pair) === customer.id;
+    return (
+      <div
+        onClick={() => isOrgAdmin && chooseSurvivor(pair, customer.id)}
+        className={cn(
+          "rounded-lg border p-3 space-y-1 transition-colors",
+          isOrgAdmin && "cursor-pointer hover:bg-muted/50",
+          selected && isOrgAdmin && "border-primary bg-primary/5"
+        )}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <Link
+            to={`/customers/${customer.id}`}
+            onClick={(e) => e.stopPropagation()}
+            className="font-medium text-primary hover:underline truncate"
+          >
+            {customer.full_name}
+          </Link>
+          {selected && isOrgAdmin && <Badge>Manter</Badge>}
+        </div>
+        <p className="text-sm text-muted-foreground truncate">{customer.email}</p>
+        <p className="text-sm text-muted-foreground">
+          {[formatPhone(customer.phone), customer.cpf && `CPF ${formatCpf(customer.cpf)}`].filter(Boolean).join(" · ")}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {orderCount(customer)} pedido(s) · cadastrado em{" "}
+          {customer.created_at ? format(parseISO(customer.created_at), "dd/MM/yyyy") : "-"}
+          {customer.city && ` · ${customer.city}`}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/customers")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="w-10 h-10 bg-gradient-to-r from-accent to-secondary rounded-full flex items-center justify-center">
+            <CopyCheck className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold">Clientes Duplicados</h1>
+            <p className="text-sm text-muted-foreground">Revise cadastros repetidos e mescle o histórico</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <FilterBar
+          onClear={() => setFilters({ search: "", reason: "all" })}
+          activeFiltersCount={activeFiltersCount}
+          resultsCount={filteredPairs.length}
+          totalCount={pairs.length}
+          gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
+        >
+          <div className="lg:col-span-8">
+            <SearchInput
+              value={filters.search}
+              onChange={(value) => setFilters({ ...filters, search: value })}
+              placeholder="Buscar por nome ou email..."
+            />
+          </div>
+          <div className="lg:col-span-4">
+            <StatusFilter
+              label="Motivo"
+              value={filters.reason}
+              onChange={(value) => setFilters({ ...filters, reason: value })}
+              options={[
+                { value: "all", label: "Todos" },
+                ...Object.entries(DUPLICATE_REASON_LABELS).map(([value, label]) => ({ value, label })),
+              ]}
+            />
+          </div>
+        </FilterBar>
+
+        {loading ? (
+          <p className="text-muted-foreground">Carregando...</p>
+        ) : filteredPairs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Nenhum possível duplicado encontrado.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {isOrgAdmin && (
+              <p className="text-sm text-muted-foreground">
+                Clique no cadastro que deve ser mantido. Pedidos, orçamentos, passageiros e documentos do outro cadastro passam para
+                ele e os campos vazios são completados; o cadastro mesclado é excluído.
+              </p>
+            )}
+            {filteredPairs.map((pair) => {
+              const survivorId = survivorOf(pair);
+              const surviving = survivorId === pair.customer.id ? pair.customer : pair.other;
+              const merged = survivorId === pair.customer.id ? pair.other : pair.customer;
+              return (
+                <Card key={duplicatePairKey(pair.customer.id, pair.other.id)}>
+                  <CardContent className="pt-6 space-y-4">
+                    <div className="flex flex-wrap gap-1">
+                      {pair.reasons.map((reason) => (
+                        <Badge key={reason} variant="secondary">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {renderCustomer(pair, pair.customer)}
+                      {renderCustomer(pair, pair.other)}
+                    </div>
+                    {canEdit && (
+                      <div className="flex flex-wrap justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleDismiss(pair)}>
+                          <X className="w-4 h-4 mr-2" />
+                          Não é duplicado
+                        </Button>
+                        {isOrgAdmin && (
+                          <Button size="sm" onClick={() => setPendingMerge({ surviving, merged })}>
+                            <GitMerge className="w-4 h-4 mr-2" />
+                            Mesclar em {surviving.full_name}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Histórico de Mesclagens</CardTitle>
+            <CardDescription>Cadastros mesclados e o que foi transferido para o cliente mantido</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {merges.length === 0 ? (
+              <p className="text-muted-foreground">Nenhuma mesclagem realizada.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Cadastro mesclado</TableHead>
+                    <TableHead>Mantido</TableHead>
+                    <TableHead className="text-right">Pedidos</TableHead>
+                    <TableHead className="text-right">Orçamentos</TableHead>
+                    <TableHead className="text-right">Passageiros</TableHead>
+                    <TableHead>Por</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {merges.map((merge) => (
+                    <TableRow key={merge.id}>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(merge.created_at)}</TableCell>
+                      <TableCell>{getMergedCustomerName(merge)}</TableCell>
+                      <TableCell>
+                        {merge.surviving_customer_id && merge.surviving ? (
+                          <Link to={`/customers/${merge.surviving_customer_id}`} className="text-primary hover:underline">
+                            {merge.surviving.full_name}
+                          </Link>
+                        ) : (
+                          "Cliente excluído"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{merge.orders_moved}</TableCell>
+                      <TableCell className="text-right">{merge.quotes_moved}</TableCell>
+                      <TableCell className="text-right">{merge.passengers_moved}</TableCell>
+                      <TableCell>{merge.merger?.full_name || "-"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mesclar clientes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMerge && (
+                <>
+                  Pedidos, orçamentos, passageiros e documentos de <strong>{pendingMerge.merged.full_name}</strong> serão
+                  transferidos para <strong>{pendingMerge.surviving.full_name}</strong>, e o cadastro de{" "}
+                  {pendingMerge.merged.full_name} será excluído. Uma cópia dele fica no histórico de mesclagens.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleMerge();
+              }}
+              disabled={saving}
+            >
+              {saving ? "Mesclando..." : "Mesclar"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
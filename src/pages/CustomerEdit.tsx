@@ -13,6 +13,7 @@ import { CpfInput } from "@/components/ui/cpf-input";
 import { PhoneInput } from "@/components/ui/phone-input";
 import { CepInput } from "@/components/ui/cep-input";
 import { cleanCpf, cleanPhone, formatCpf, formatPhone, cleanCep, formatCep } from "@/lib/utils";
+import { DUPLICATE_CPF_MESSAGE, isDuplicateCpfError } from "@/lib/customerDuplicates";
 
 interface Customer {
   id: string;
@@ -114,7 +115,7 @@ const CustomerEdit = () => {
       if (error) {
         toast({
           title: "Erro ao atualizar cliente",
-          description: error.message,
+          description: isDuplicateCpfError(error) ? DUPLICATE_CPF_MESSAGE : error.message,
           variant: "destructive",
         });
       } else {
@@ -0,0 +1,436 @@
+import { useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, FileSpreadsheet, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { formatCpf, formatPhone } from "@/lib/utils";
+import { readSpreadsheetFile, type SpreadsheetData } from "@/lib/spreadsheet";
+import { DUPLICATE_REASON_LABELS, loadCustomersForDuplicateReview } from "@/lib/customerDuplicates";
+import {
+  CUSTOMER_IMPORT_FIELDS,
+  commitCustomerImport,
+  guessCustomerImportMapping,
+  validateCustomerImport,
+  type CustomerImportField,
+  type CustomerImportMapping,
+  type CustomerImportResult,
+  type CustomerImportRow,
+} from "@/lib/customerImport";
+
+const NOT_MAPPED = "none";
+
+/** Linhas exibidas na prévia da simulação. EN: Rows shown in the dry-run preview. */
+const PREVIEW_LIMIT = 200;
+
+const ROW_STATUS_OPTIONS = [
+  { value: "all", label: "Todas" },
+  { value: "valid", label: "Válidas" },
+  { value: "duplicate", label: "Possíveis duplicados" },
+  { value: "error", label: "Com erros" },
+];
+
+/**
+ * Importação de clientes em massa (CSV ou XLSX): mapeamento de colunas, simulação com
+ * validação linha a linha e detecção de duplicados, e gravação em lotes na organização atual.
+ *
+ * EN: Bulk customer import (CSV or XLSX): column mapping, dry run with per-row validation and
+ * duplicate detection, then batched inserts into the current organization.
+ */
+export default function CustomerImport() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const { role } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<CustomerImportMapping | null>(null);
+  const [rows, setRows] = useState<CustomerImportRow[] | null>(null);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<CustomerImportResult | null>(null);
+
+  const summary = useMemo(() => {
+    const list = rows ?? [];
+    return {
+      valid: list.filter((row) => row.status === "valid").length,
+      error: list.filter((row) => row.status === "error").length,
+      duplicate: list.filter((row) => row.status === "duplicate").length,
+      blocked: list.filter((row) => row.duplicate?.blocking).length,
+    };
+  }, [rows]);
+
+  // Duplicados com mesmo CPF nunca entram: o CPF é único na organização
+  const importableRows = useMemo(
+    () =>
+      (rows ?? []).filter(
+        (row) => row.status === "valid" || (row.status === "duplicate" && includeDuplicates && !row.duplicate?.blocking)
+      ),
+    [rows, includeDuplicates]
+  );
+
+  const filteredRows = useMemo(
+    () => (rows ?? []).filter((row) => statusFilter === "all" || row.status === statusFilter),
+    [rows, statusFilter]
+  );
+
+  const missingRequired = mapping
+    ? CUSTOMER_IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === null)
+    : [];
+
+  const resetDryRun = () => {
+    setRows(null);
+    setResult(null);
+    setProgress(0);
+    setStatusFilter("all");
+  };
+
+  const handleRead = async () => {
+    if (!file) return;
+    setReading(true);
+    try {
+      const data = await readSpreadsheetFile(file);
+      if (data.rows.length === 0) {
+        toast.error("A planilha não tem linhas de dados");
+        return;
+      }
+      setSheet(data);
+      setMapping(guessCustomerImportMapping(data.headers));
+      resetDryRun();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao ler a planilha");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: CustomerImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) });
+    resetDryRun();
+  };
+
+  const handleDryRun = async () => {
+    if (!organizationId || !sheet || !mapping) return;
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setValidating(true);
+    const { customers, error } = await loadCustomersForDuplicateReview(organizationId);
+    setValidating(false);
+    if (error) {
+      toast.error("Erro ao carregar clientes cadastrados");
+      return;
+    }
+    setResult(null);
+    setRows(validateCustomerImport(sheet.rows, mapping, customers));
+  };
+
+  const handleImport = async () => {
+    if (!organizationId || importableRows.length === 0) return;
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setImporting(true);
+    setProgress(0);
+    const importResult = await commitCustomerImport(
+      importableRows,
+      { organizationId, userId: session.user.id },
+      (done, total) => setProgress(Math.round((done / total) * 100))
+    );
+    setImporting(false);
+    setResult(importResult);
+
+    if (importResult.failed.length > 0) {
+      toast.warning(`${importResult.inserted} cliente(s) importado(s), ${importResult.failed.length} com erro`);
+    } else {
+      toast.success(`${importResult.inserted} cliente(s) importado(s)`);
+    }
+  };
+
+  const handleRestart = () => {
+    setFile(null);
+    setSheet(null);
+    setMapping(null);
+    resetDryRun();
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const renderStatus = (row: CustomerImportRow) => {
+    if (row.status === "error") return <Badge variant="destructive">Erro</Badge>;
+    if (row.status === "duplicate") {
+      return <Badge variant={row.duplicate?.blocking ? "destructive" : "secondary"}>Duplicado</Badge>;
+    }
+    return <Badge>Válida</Badge>;
+  };
+
+  const renderDetails = (row: CustomerImportRow) => {
+    if (row.errors.length > 0) {
+      return <span className="text-destructive">{row.errors.join("; ")}</span>;
+    }
+    if (row.duplicate) {
+      const reasons = row.duplicate.reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(", ");
+      return (
+        <span className="text-muted-foreground">
+          {reasons} de {row.duplicate.label}
+          {row.duplicate.blocking && " — não será importada"}
+        </span>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/customers")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="w-10 h-10 bg-gradient-to-r from-accent to-secondary rounded-full flex items-center justify-center">
+            <FileSpreadsheet className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold">Importar Clientes</h1>
+            <p className="text-sm text-muted-foreground">Cadastro em massa a partir de planilha CSV ou XLSX</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {!canEdit ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              Somente agentes e administradores podem importar clientes.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>1. Arquivo</CardTitle>
+                <CardDescription>
+                  Planilha CSV ou XLSX com o cabeçalho na primeira linha. No XLSX, somente a primeira aba é lida.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col md:flex-row gap-3">
+                <Input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.txt,.xlsx"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  className="md:max-w-md"
+                  disabled={importing}
+                />
+                <Button onClick={handleRead} disabled={!file || reading || importing}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  {reading ? "Lendo..." : "Ler planilha"}
+                </Button>
+                {sheet && (
+                  <Button variant="outline" onClick={handleRestart} disabled={importing}>
+                    Recomeçar
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {sheet && mapping && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>2. Mapeamento de colunas</CardTitle>
+                  <CardDescription>
+                    {sheet.rows.length} linha(s) encontrada(s). Indique a coluna da planilha de cada campo do cadastro.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {CUSTOMER_IMPORT_FIELDS.map(({ field, label, required }) => (
+                      <div key={field} className="space-y-2">
+                        <Label>
+                          {label}
+                          {required && " *"}
+                        </Label>
+                        <Select
+                          value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                          onValueChange={(value) => handleMappingChange(field, value)}
+                          disabled={importing}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>Não importar</SelectItem>
+                            {sheet.headers.map((header, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                  {missingRequired.length > 0 && (
+                    <p className="text-sm text-destructive">
+                      Campos obrigatórios sem coluna: {missingRequired.map(({ label }) => label).join(", ")}
+                    </p>
+                  )}
+                  <div className="flex justify-end">
+                    <Button onClick={handleDryRun} disabled={validating || importing || missingRequired.length > 0}>
+                      {validating ? "Validando..." : "Validar (simulação)"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {rows && (
+              <Card>
+                <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle>3. Simulação</CardTitle>
+                    <CardDescription>
+                      {summary.valid} válida(s) · {summary.duplicate} possível(is) duplicado(s) · {summary.error} com
+                      erro(s). Nada foi gravado ainda.
+                    </CardDescription>
+                  </div>
+                  <div className="w-full md:w-56">
+                    <StatusFilter label="Situação" value={statusFilter} onChange={setStatusFilter} options={ROW_STATUS_OPTIONS} />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Linha</TableHead>
+                        <TableHead>Situação</TableHead>
+                        <TableHead>Nome</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>Telefone</TableHead>
+                        <TableHead>CPF</TableHead>
+                        <TableHead>Detalhes</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredRows.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center text-muted-foreground">
+                            Nenhuma linha nesta situação.
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        filteredRows.slice(0, PREVIEW_LIMIT).map((row) => {
+                          const cells = sheet?.rows[row.rowNumber - 2] ?? [];
+                          const raw = (field: CustomerImportField) =>
+                            mapping?.[field] === null || mapping?.[field] === undefined ? "" : cells[mapping[field]];
+                          return (
+                            <TableRow key={row.rowNumber}>
+                              <TableCell>{row.rowNumber}</TableCell>
+                              <TableCell>{renderStatus(row)}</TableCell>
+                              <TableCell>{row.data?.full_name ?? raw("full_name")}</TableCell>
+                              <TableCell>{row.data?.email ?? raw("email")}</TableCell>
+                              <TableCell className="whitespace-nowrap">
+                                {row.data ? formatPhone(row.data.phone) : raw("phone")}
+                              </TableCell>
+                              <TableCell className="whitespace-nowrap">
+                                {row.data ? (row.data.cpf ? formatCpf(row.data.cpf) : "-") : raw("cpf")}
+                              </TableCell>
+                              <TableCell className="text-sm">{renderDetails(row)}</TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                  {filteredRows.length > PREVIEW_LIMIT && (
+                    <p className="text-sm text-muted-foreground">
+                      Exibindo {PREVIEW_LIMIT} de {filteredRows.length} linhas.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {rows && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>4. Importar</CardTitle>
+                  <CardDescription>
+                    Linhas com erro não são importadas. Duplicados com o mesmo CPF de um cliente existente ou de outra
+                    linha nunca são importados.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {summary.duplicate > summary.blocked && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="include-duplicates"
+                        checked={includeDuplicates}
+                        onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                        disabled={importing || !!result}
+                      />
+                      <Label htmlFor="include-duplicates" className="font-normal">
+                        Importar também os possíveis duplicados por email, telefone ou nome (
+                        {summary.duplicate - summary.blocked})
+                      </Label>
+                    </div>
+                  )}
+                  {(importing || result) && <Progress value={progress} />}
+                  {result && (
+                    <div className="space-y-2">
+                      <p className="text-sm">
+                        {result.inserted} cliente(s) importado(s)
+                        {result.failed.length > 0 && `, ${result.failed.length} com erro ao gravar`}.
+                      </p>
+                      {result.failed.length > 0 && (
+                        <ul className="text-sm text-destructive list-disc pl-5">
+                          {result.failed.map((failure) => (
+                            <li key={failure.rowNumber}>
+                              Linha {failure.rowNumber}: {failure.message}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    {result ? (
+                      <Button onClick={() => navigate("/customers")}>Ver clientes</Button>
+                    ) : (
+                      <Button onClick={handleImport} disabled={importing || importableRows.length === 0}>
+                        <Upload className="w-4 h-4 mr-2" />
+                        {importing ? "Importando..." : `Importar ${importableRows.length} cliente(s)`}
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -8,9 +8,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { ArrowLeft, Edit, User, MapPin, ShoppingBag, DollarSign } from "lucide-react";
 import { format, differenceInYears } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { CustomerDocumentsCard } from "@/components/customers/CustomerDocumentsCard";
 
 interface CustomerDetails {
   id: string;
+  organization_id: string;
   full_name: string;
   email: string;
   phone: string;
@@ -36,6 +39,7 @@ interface Order {
 const CustomerView = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const { role, isOrgAdmin } = useOrganizationRole();
   const [customer, setCustomer] = useState<CustomerDetails | null>(null);
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -229,6 +233,13 @@ const CustomerView = () => {
           </Card>
         </div>
 
+        <CustomerDocumentsCard
+          customerId={customer.id}
+          organizationId={customer.organization_id}
+          canEdit={role !== "viewer"}
+          isOrgAdmin={isOrgAdmin}
+        />
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -8,9 +8,9 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Plus, Users, Eye, Pencil, Search } from "lucide-react";
+import { ArrowLeft, Plus, Users, Eye, Pencil, Search, CopyCheck, Upload } from "lucide-react";
 import { toast } from "sonner";
-import { customerSchema } from "@/lib/validations";
+import { customerSchema, type CustomerFormData } from "@/lib/validations";
 import { z } from "zod";
 import { FilterBar } from "@/components/filters/FilterBar";
 import { SearchInput } from "@/components/filters/SearchInput";
@@ -21,7 +21,30 @@ import { CustomerDeleteDialog } from "@/components/customers/CustomerDeleteDialo
 import { CpfInput } from "@/components/ui/cpf-input";
 import { PhoneInput } from "@/components/ui/phone-input";
 import { CepInput } from "@/components/ui/cep-input";
-import { cleanCpf, cleanPhone, cleanCep } from "@/lib/utils";
+import { cleanCpf, cleanPhone, cleanCep, formatCep, formatCpf, formatPhone } from "@/lib/utils";
+import {
+  DUPLICATE_CPF_MESSAGE,
+  findCustomerDuplicates,
+  isDuplicateCpfError,
+  type CustomerDuplicateMatch,
+} from "@/lib/customerDuplicates";
+import { CustomerDuplicateWarningDialog } from "@/components/customers/CustomerDuplicateWarningDialog";
+import { ExportButton } from "@/components/exports/ExportButton";
+import type { ExportColumn } from "@/lib/exports";
+import type { Tables } from "@/integrations/supabase/types";
+
+const CUSTOMER_EXPORT_COLUMNS: ExportColumn<Tables<"customers">>[] = [
+  { key: "full_name", label: "Nome", value: (customer) => customer.full_name },
+  { key: "email", label: "Email", value: (customer) => customer.email },
+  { key: "phone", label: "Telefone", value: (customer) => formatPhone(customer.phone ?? "") },
+  { key: "cpf", label: "CPF", optional: true, value: (customer) => (customer.cpf ? formatCpf(customer.cpf) : "") },
+  { key: "birth_date", label: "Aniversário", type: "date", value: (customer) => customer.birth_date },
+  { key: "address", label: "Endereço", optional: true, value: (customer) => customer.address },
+  { key: "city", label: "Cidade", value: (customer) => customer.city },
+  { key: "state", label: "UF", optional: true, value: (customer) => customer.state },
+  { key: "zip_code", label: "CEP", optional: true, value: (customer) => (customer.zip_code ? formatCep(customer.zip_code) : "") },
+  { key: "created_at", label: "Cadastrado em", type: "datetime", optional: true, value: (customer) => customer.created_at },
+];
 
 /**
  * Página Clientes com filtros padronizados e grade responsiva 12-colunas.
@@ -50,6 +73,7 @@ const Customers = () => {
     birthMonth: "all",
     city: "all",
   });
+  const [duplicateMatches, setDuplicateMatches] = useState<CustomerDuplicateMatch[]>([]);
 
   useEffect(() => {
     if (organizationId) {
@@ -101,9 +125,39 @@ const Customers = () => {
       // Validate form data
       const validatedData = customerSchema.parse(formData);
 
+      // Antes de cadastrar, avisa se a pessoa já parece existir
+      const { matches } = await findCustomerDuplicates(organizationId, {
+        full_name: validatedData.full_name,
+        email: validatedData.email,
+        phone: validatedData.phone,
+        cpf: validatedData.cpf || null,
+      });
+      if (matches.length > 0) {
+        setDuplicateMatches(matches);
+        return;
+      }
+
+      await createCustomer(validatedData);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const firstError = error.errors[0];
+        toast.error(firstError.message);
+      } else {
+        toast.error("Erro ao validar dados do formulário");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createCustomer = async (validatedData: CustomerFormData) => {
+    if (!organizationId) return;
+
+    setLoading(true);
+
+    try {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) {
-        setLoading(false);
         return;
       }
 
@@ -137,12 +191,12 @@ const Customers = () => {
       const { error } = await supabase.from("customers").insert([insertData]);
 
       if (error) {
-        toast.error("Erro ao criar cliente");
-        setLoading(false);
+        toast.error(isDuplicateCpfError(error) ? DUPLICATE_CPF_MESSAGE : "Erro ao criar cliente");
         return;
       }
 
       toast.success("Cliente cadastrado com sucesso!");
+      setDuplicateMatches([]);
       setOpen(false);
       setFormData({
         full_name: "",
@@ -156,13 +210,6 @@ const Customers = () => {
         zip_code: "",
       });
       loadCustomers();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        const firstError = error.errors[0];
-        toast.error(firstError.message);
-      } else {
-        toast.error("Erro ao validar dados do formulário");
-      }
     } finally {
       setLoading(false);
     }
@@ -222,112 +269,130 @@ const Customers = () => {
               <p className="text-sm text-muted-foreground">Gerencie seus clientes</p>
             </div>
           </div>
-          <Dialog open={open} onOpenChange={setOpen}>
-            <DialogTrigger asChild>
-              <Button variant="gradient">
-                <Plus className="w-4 h-4 mr-2" />
-                Novo Cliente
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-3xl">
-              <DialogHeader>
-                <DialogTitle>Cadastrar Cliente</DialogTitle>
-                <DialogDescription>Adicione um novo cliente ao sistema</DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="full_name">Nome Completo</Label>
-                    <Input
-                      id="full_name"
-                      value={formData.full_name}
-                      onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email</Label>
-                    <Input
-                      id="email"
-                      type="email"
-                      value={formData.email}
-                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="phone">Telefone</Label>
-                    <PhoneInput
-                      id="phone"
-                      value={formData.phone}
-                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="cpf">CPF</Label>
-                    <CpfInput
-                      id="cpf"
-                      value={formData.cpf}
-                      onChange={(e) => setFormData({ ...formData, cpf: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="birth_date">Data de Nascimento</Label>
-                    <Input
-                      id="birth_date"
-                      type="date"
-                      value={formData.birth_date}
-                      onChange={(e) => setFormData({ ...formData, birth_date: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="zip_code">CEP</Label>
-                    <CepInput
-                      id="zip_code"
-                      value={formData.zip_code}
-                      onChange={(e) => setFormData({ ...formData, zip_code: e.target.value })}
-                      onAddressFound={(address) => {
-                        setFormData(prev => ({
-                          ...prev,
-                          address: address.street,
-                          city: address.city,
-                          state: address.state,
-                        }));
-                      }}
-                    />
-                  </div>
-                  <div className="space-y-2 col-span-2">
-                    <Label htmlFor="address">Endereço</Label>
-                    <Input
-                      id="address"
-                      value={formData.address}
-                      onChange={(e) => setFormData({ ...formData, address: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="city">Cidade</Label>
-                    <Input
-                      id="city"
-                      value={formData.city}
-                      onChange={(e) => setFormData({ ...formData, city: e.target.value })}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="state">Estado</Label>
-                    <Input
-                      id="state"
-                      value={formData.state}
-                      onChange={(e) => setFormData({ ...formData, state: e.target.value })}
-                    />
-                  </div>
-                </div>
-                <Button type="submit" className="w-full" disabled={loading || orgLoading} variant="gradient">
-                  {loading ? "Cadastrando..." : "Cadastrar Cliente"}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/customers/duplicates")}>
+              <CopyCheck className="w-4 h-4 mr-2" />
+              Duplicados
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/customers/import")}>
+              <Upload className="w-4 h-4 mr-2" />
+              Importar
+            </Button>
+            <Dialog open={open} onOpenChange={setOpen}>
+              <DialogTrigger asChild>
+                <Button variant="gradient">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Novo Cliente
                 </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                  <DialogTitle>Cadastrar Cliente</DialogTitle>
+                  <DialogDescription>Adicione um novo cliente ao sistema</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="full_name">Nome Completo</Label>
+                      <Input
+                        id="full_name"
+                        value={formData.full_name}
+                        onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="email">Email</Label>
+                      <Input
+                        id="email"
+                        type="email"
+                        value={formData.email}
+                        onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="phone">Telefone</Label>
+                      <PhoneInput
+                        id="phone"
+                        value={formData.phone}
+                        onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="cpf">CPF</Label>
+                      <CpfInput
+                        id="cpf"
+                        value={formData.cpf}
+                        onChange={(e) => setFormData({ ...formData, cpf: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="birth_date">Data de Nascimento</Label>
+                      <Input
+                        id="birth_date"
+                        type="date"
+                        value={formData.birth_date}
+                        onChange={(e) => setFormData({ ...formData, birth_date: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="zip_code">CEP</Label>
+                      <CepInput
+                        id="zip_code"
+                        value={formData.zip_code}
+                        onChange={(e) => setFormData({ ...formData, zip_code: e.target.value })}
+                        onAddressFound={(address) => {
+                          setFormData(prev => ({
+                            ...prev,
+                            address: address.street,
+                            city: address.city,
+                            state: address.state,
+                          }));
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="address">Endereço</Label>
+                      <Input
+                        id="address"
+                        value={formData.address}
+                        onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="city">Cidade</Label>
+                      <Input
+                        id="city"
+                        value={formData.city}
+                        onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="state">Estado</Label>
+                      <Input
+                        id="state"
+                        value={formData.state}
+                        onChange={(e) => setFormData({ ...formData, state: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loading || orgLoading} variant="gradient">
+                    {loading ? "Cadastrando..." : "Cadastrar Cliente"}
+                  </Button>
+                </form>
+                <CustomerDuplicateWarningDialog
+                  matches={duplicateMatches}
+                  onOpenChange={(isOpen) => !isOpen && setDuplicateMatches([])}
+                  onConfirm={() => createCustomer(customerSchema.parse(formData))}
+                  onSelect={(customer) => navigate(`/customers/${customer.id}`)}
+                  selectLabel="Ver cliente"
+                  loading={loading}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </header>
 
@@ -337,6 +402,15 @@ const Customers = () => {
           activeFiltersCount={activeFiltersCount}
           resultsCount={filteredCustomers.length}
           totalCount={customers.length}
+          actions={
+            <ExportButton
+              organizationId={organizationId}
+              title="Clientes"
+              fileName="clientes"
+              columns={CUSTOMER_EXPORT_COLUMNS}
+              rows={filteredCustomers}
+            />
+          }
           gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
         >
           <div className="lg:col-span-4 space-y-2">
@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Plane, Users, Package, ShoppingCart, DollarSign, Calendar, LogOut, AlertTriangle, TrendingUp, TrendingDown, CheckCircle2, Building2 } from "lucide-react";
+import { Plane, Users, Package, ShoppingCart, DollarSign, Calendar, LogOut, AlertTriangle, TrendingUp, TrendingDown, CheckCircle2, Building2, Wallet, LineChart } from "lucide-react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
@@ -16,6 +16,7 @@ import { StatusCheckboxGroup } from "@/components/filters/StatusCheckboxGroup";
 import { useOrganization } from "@/hooks/useOrganization";
 import { OrganizationSwitcher } from "@/components/organization/OrganizationSwitcher";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { getInstallmentBalance } from "@/lib/installmentPayments";
 
 interface Filters {
   quickFilter: string;
@@ -52,13 +53,15 @@ const Dashboard = () => {
     confirmedRevenue: 0,
     received: 0,
     overdue: 0,
+    overduePayables: 0,
     conversionRate: 0,
   });
 
-  const [detailsOpen, setDetailsOpen] = useState<null | "confirmed" | "received" | "overdue">(null);
+  const [detailsOpen, setDetailsOpen] = useState<null | "confirmed" | "received" | "overdue" | "payables">(null);
   const [confirmedBreakdown, setConfirmedBreakdown] = useState<{ order_number: string; status: string | null; amount: number; confirmed_at: string | null }[]>([]);
   const [receivedBreakdown, setReceivedBreakdown] = useState<{ installment_number: number; amount: number; payment_date: string | null; payment_id: string; package_name?: string }[]>([]);
   const [overdueBreakdown, setOverdueBreakdown] = useState<{ installment_number?: number; amount: number; due_date: string | null; payment_id: string; package_name?: string }[]>([]);
+  const [overduePayablesBreakdown, setOverduePayablesBreakdown] = useState<{ supplier_name?: string; description: string; amount: number; due_date: string }[]>([]);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -233,15 +236,14 @@ const Dashboard = () => {
       if (startDate) paymentsQuery = paymentsQuery.gte("created_at", startDate);
       if (endDate) paymentsQuery = paymentsQuery.lte("created_at", endDate);
 
-      // Query para installments (pagas) para calcular Valor Recebido
-      // Query de parcelas pagas com filtro por data (YYYY-MM-DD) direto no banco
+      // Query dos recebimentos de parcelas (inclui pagamentos parciais) para calcular Valor Recebido
+      // Filtro por data (YYYY-MM-DD) direto no banco
       // Para "Hoje", usamos igualdade de data para evitar qualquer ambiguidade.
       // EN: For "Today", use date equality to avoid any ambiguity.
       let installmentsQuery = supabase
-        .from("installments")
-        .select("amount, status, payment_date, installment_number, payment_id, payments(orders(travel_packages(name)))")
-        .eq("organization_id", orgId)
-        .eq("status", "paid");
+        .from("installment_payments")
+        .select("amount, payment_date, installments(installment_number, payment_id, payments(orders(travel_packages(name))))")
+        .eq("organization_id", orgId);
       if (startDateOnly && endDateOnly && startDateOnly === endDateOnly) {
         installmentsQuery = installmentsQuery.eq("payment_date", startDateOnly);
       } else {
@@ -253,22 +255,23 @@ const Dashboard = () => {
       /**
        * Overdue Installments Query (Valor Atrasado)
        * PT-BR: Consulta de parcelas vencidas para o card do Dashboard.
-       *   - Inclui status "overdue" OU "pending" com due_date < hoje (pendente vencida).
+       *   - Inclui status "overdue" OU "pending"/"partial" com due_date < hoje (pendente vencida);
+       *     de parcelas parciais conta apenas o saldo em aberto.
        *   - Quando quickFilter === "all" (Tudo), NÃO filtra por intervalo; apenas aplica due_date < hoje
        *     para capturar parcelas pendentes que já venceram.
        *   - Caso contrário, restringe por due_date dentro do período escolhido, mantendo due_date < hoje
        *     para garantir que apenas vencidas sejam retornadas.
        * EN: Overdue installments query for Dashboard card.
-       *   - Includes "overdue" OR "pending" with due_date < today.
+       *   - Includes "overdue" OR "pending"/"partial" with due_date < today (open balance only).
        *   - For quickFilter === "all", do not filter by range; only require due_date < today.
        *   - Otherwise, filter by due_date in the selected range and still require due_date < today.
        */
       const todayOnly = new Date().toISOString().split("T")[0];
       let overdueInstallmentsQuery = supabase
         .from("installments")
-        .select("amount, status, due_date, payment_id, installment_number, payments(orders(travel_packages(name)))")
+        .select("amount, paid_amount, status, due_date, payment_id, installment_number, payments(orders(travel_packages(name)))")
         .eq("organization_id", orgId)
-        .in("status", ["overdue", "pending"])
+        .in("status", ["overdue", "pending", "partial"])
         .lt("due_date", todayOnly);
 
       if (filters.quickFilter !== "all") {
@@ -281,13 +284,29 @@ const Dashboard = () => {
       }
       overdueInstallmentsQuery = overdueInstallmentsQuery.order("due_date", { ascending: true });
 
-      const [packagesResult, customersResult, ordersResult, paymentsResult, installmentsResult, overdueResult] = await Promise.all([
+      // Contas a pagar vencidas: em aberto com vencimento passado, mesmo critério de período das parcelas
+      // EN: Overdue payables: open with past due date, same period rule as overdue installments
+      let overduePayablesQuery = supabase
+        .from("payables")
+        .select("amount, due_date, description, suppliers(name)")
+        .eq("organization_id", orgId)
+        .eq("status", "pending")
+        .lt("due_date", todayOnly);
+
+      if (filters.quickFilter !== "all") {
+        if (startDateOnly) overduePayablesQuery = overduePayablesQuery.gte("due_date", startDateOnly);
+        if (endDateOnly) overduePayablesQuery = overduePayablesQuery.lte("due_date", endDateOnly);
+      }
+      overduePayablesQuery = overduePayablesQuery.order("due_date", { ascending: true });
+
+      const [packagesResult, customersResult, ordersResult, paymentsResult, installmentsResult, overdueResult, overduePayablesResult] = await Promise.all([
         packagesRes,
         customersQuery,
         ordersQuery,
         paymentsQuery,
         installmentsQuery,
         overdueInstallmentsQuery,
+        overduePayablesQuery,
       ]);
 
       const orders = ordersResult.data || [];
@@ -334,21 +353,21 @@ const Dashboard = () => {
           confirmed_at: order.confirmed_at || order.created_at || null,
         }));
 
-      // Calcular valor recebido (installments pagos no período)
+      // Calcular valor recebido (recebimentos de parcelas no período)
       // Como o filtro por data já foi aplicado no banco, apenas garantimos que há data
-      const receivedList = (installments || []).filter(inst => !!inst.payment_date);
+      const receivedList = (installments || []).filter(entry => !!entry.payment_date);
 
-      const received = receivedList.reduce((sum, inst) => sum + Number(inst.amount), 0);
+      const received = receivedList.reduce((sum, entry) => sum + Number(entry.amount), 0);
 
-      const receivedBreakdownData = receivedList.map(inst => {
+      const receivedBreakdownData = receivedList.map(entry => {
         // EN: Try to extract travel package name from nested relation: installments -> payments -> orders -> travel_packages
         // PT: Extrai o nome do pacote via relação aninhada: parcelas -> pagamentos -> pedidos -> pacotes
-        const pkgName = (inst as any)?.payments?.orders?.travel_packages?.name as string | undefined;
+        const pkgName = (entry as any)?.installments?.payments?.orders?.travel_packages?.name as string | undefined;
         return {
-          installment_number: Number(inst.installment_number),
-          amount: Number(inst.amount),
-          payment_date: inst.payment_date,
-          payment_id: String(inst.payment_id),
+          installment_number: Number(entry.installments?.installment_number),
+          amount: Number(entry.amount),
+          payment_date: entry.payment_date,
+          payment_id: String(entry.installments?.payment_id),
           package_name: pkgName,
         };
       });
@@ -359,7 +378,7 @@ const Dashboard = () => {
         const pkgName = (inst as any)?.payments?.orders?.travel_packages?.name as string | undefined;
         return {
           installment_number: inst.installment_number ? Number(inst.installment_number) : undefined,
-          amount: Number(inst.amount),
+          amount: getInstallmentBalance(inst),
           due_date: (inst as any)?.due_date || null,
           payment_id: String(inst.payment_id),
           package_name: pkgName,
@@ -368,7 +387,15 @@ const Dashboard = () => {
 
       // Calcular valor atrasado
       // Valor atrasado baseado na consulta específica de vencidas
-      const overdue = overdueInstallments.reduce((sum, inst) => sum + Number(inst.amount), 0);
+      const overdue = overdueInstallments.reduce((sum, inst) => sum + getInstallmentBalance(inst), 0);
+
+      const overduePayablesBreakdownData = (overduePayablesResult.data || []).map(payable => ({
+        supplier_name: payable.suppliers?.name,
+        description: payable.description,
+        amount: Number(payable.amount),
+        due_date: payable.due_date,
+      }));
+      const overduePayables = overduePayablesBreakdownData.reduce((sum, payable) => sum + payable.amount, 0);
 
       // Calcular taxa de conversão
       const totalOrders = orders.length;
@@ -384,12 +411,14 @@ const Dashboard = () => {
         confirmedRevenue,
         received,
         overdue,
+        overduePayables,
         conversionRate,
       });
 
       setConfirmedBreakdown(confirmedBreakdownData);
       setReceivedBreakdown(receivedBreakdownData);
       setOverdueBreakdown(overdueBreakdownData);
+      setOverduePayablesBreakdown(overduePayablesBreakdownData);
     } catch (error) {
       toast.error("Erro ao carregar estatísticas");
     }
@@ -511,7 +540,7 @@ const Dashboard = () => {
           </Card>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6 mb-8">
           <Card className="hover:shadow-md transition-shadow cursor-pointer" onClick={() => setDetailsOpen("confirmed")}
           >
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -558,6 +587,23 @@ const Dashboard = () => {
             </CardContent>
           </Card>
 
+          <Card className="hover:shadow-md transition-shadow cursor-pointer" onClick={() => setDetailsOpen("payables")}>
+            <CardHeader className="flex flex-row items-center justify-between pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                Contas a Pagar Vencidas
+              </CardTitle>
+              <Wallet className="w-5 h-5 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-bold">
+                R$ {stats.overduePayables.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {overduePayablesBreakdown.length} conta(s) com fornecedores
+              </p>
+            </CardContent>
+          </Card>
+
           <Card className="hover:shadow-md transition-shadow">
             <CardHeader className="flex flex-row items-center justify-between pb-2">
               <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -640,6 +686,16 @@ const Dashboard = () => {
             </CardHeader>
           </Card>
 
+          <Card className="hover:shadow-md transition-shadow cursor-pointer" onClick={() => navigate("/cash-flow")}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <LineChart className="w-5 h-5 text-muted-foreground" />
+                Fluxo de Caixa
+              </CardTitle>
+              <CardDescription>Projeção de entradas e saídas</CardDescription>
+            </CardHeader>
+          </Card>
+
           {/* <Card className="hover:shadow-md transition-shadow cursor-pointer" onClick={() => navigate("/organization/settings")}>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -654,9 +710,9 @@ const Dashboard = () => {
         <Dialog open={!!detailsOpen} onOpenChange={(open) => setDetailsOpen(open ? detailsOpen : null)}>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>{detailsOpen === "confirmed" ? "Detalhe: Receita Confirmada" : detailsOpen === "received" ? "Detalhe: Valor Recebido" : detailsOpen === "overdue" ? "Detalhe: Valor Atrasado" : ""}</DialogTitle>
+              <DialogTitle>{detailsOpen === "confirmed" ? "Detalhe: Receita Confirmada" : detailsOpen === "received" ? "Detalhe: Valor Recebido" : detailsOpen === "overdue" ? "Detalhe: Valor Atrasado" : detailsOpen === "payables" ? "Detalhe: Contas a Pagar Vencidas" : ""}</DialogTitle>
               <DialogDescription>
-                {detailsOpen === "confirmed" ? "Soma de pedidos confirmados/completos no período." : detailsOpen === "received" ? "Soma de parcelas pagas no período." : detailsOpen === "overdue" ? "Soma de parcelas vencidas conforme filtro selecionado." : ""}
+                {detailsOpen === "confirmed" ? "Soma de pedidos confirmados/completos no período." : detailsOpen === "received" ? "Soma de parcelas pagas no período." : detailsOpen === "overdue" ? "Soma de parcelas vencidas conforme filtro selecionado." : detailsOpen === "payables" ? "Contas com fornecedores em aberto e vencidas, conforme filtro selecionado." : ""}
               </DialogDescription>
             </DialogHeader>
 
@@ -720,6 +776,28 @@ const Dashboard = () => {
                 </div>
               </div>
             )}
+
+            {detailsOpen === "payables" && (
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">Total: R$ {stats.overduePayables.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}</div>
+                <div className="max-h-72 overflow-auto divide-y">
+                  {overduePayablesBreakdown.length === 0 && (
+                    <div className="py-3 text-sm">Nenhuma conta a pagar vencida.</div>
+                  )}
+                  {overduePayablesBreakdown.map((item, idx) => (
+                    <div key={idx} className="py-2 flex items-center justify-between">
+                      <div className="text-sm">{formatDateOnlyDisplay(item.due_date)} • {item.supplier_name ?? "-"} — {item.description}</div>
+                      <div className="text-sm font-medium">R$ {item.amount.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="pt-3">
+                  <Button variant="secondary" onClick={() => navigate("/payables")}>
+                    Abrir Contas a Pagar
+                  </Button>
+                </div>
+              </div>
+            )}
           </DialogContent>
         </Dialog>
 
@@ -10,12 +10,18 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 import { FilterBar } from "@/components/filters/FilterBar";
 import { SearchInput } from "@/components/filters/SearchInput";
 import { StatusFilter } from "@/components/filters/StatusFilter";
 import { ValueRangeFilter } from "@/components/filters/ValueRangeFilter";
 import { useOrganization } from "@/hooks/useOrganization";
+import { buildInstallmentPixPayload, getPixQrDataUrl, loadPixSettings, type PixSettings } from "@/lib/pix";
+import { calculateLateCharges, loadLateFeeSettings } from "@/lib/lateFees";
+import { getInstallmentBalance } from "@/lib/installmentPayments";
+import { ExportButton } from "@/components/exports/ExportButton";
+import type { ExportColumn } from "@/lib/exports";
 
   /**
    * OverdueInstallment
@@ -29,6 +35,9 @@ import { useOrganization } from "@/hooks/useOrganization";
     installment_number: number;
     total_installments: number;
     days_overdue: number;
+    late_fee: number;
+    interest: number;
+    amount_due: number;
     payment_id: string;
     order_id?: string;
     order_number: string;
@@ -68,6 +77,8 @@ export default function Delinquency() {
   const [selectedInstallment, setSelectedInstallment] = useState<OverdueInstallment | null>(null);
   const [reminderMessage, setReminderMessage] = useState("");
   const [sendingReminder, setSendingReminder] = useState(false);
+  const [pixSettings, setPixSettings] = useState<PixSettings | null>(null);
+  const [includePix, setIncludePix] = useState(true);
   const [filters, setFilters] = useState({
     search: "",
     riskLevel: "all",
@@ -79,6 +90,7 @@ export default function Delinquency() {
   useEffect(() => {
     if (organizationId) {
       checkAuth();
+      loadPixSettings(organizationId).then(setPixSettings);
     }
   }, [organizationId]);
 
@@ -103,6 +115,7 @@ export default function Delinquency() {
         .select(`
           id,
           amount,
+          paid_amount,
           due_date,
           installment_number,
           total_installments,
@@ -121,25 +134,35 @@ export default function Delinquency() {
           )
         `)
         .eq("organization_id", orgId)
-        .in("status", ["pending", "overdue"])
+        .in("status", ["pending", "overdue", "partial"])
         .lt("due_date", new Date().toISOString().split("T")[0])
         .order("due_date", { ascending: true });
 
       if (error) throw error;
 
+      // PT-BR: Regras de multa e juros da organização para o valor atualizado.
+      // EN: Organization late fee rules used for the updated amount due.
+      const lateFeeSettings = await loadLateFeeSettings(orgId);
+
       // Transform data
       const overdueData: OverdueInstallment[] = (installments || []).map((inst: any) => {
         const daysOverdue = Math.floor(
           (new Date().getTime() - new Date(inst.due_date).getTime()) / (1000 * 60 * 60 * 24)
         );
+        // Parcelas com pagamento parcial: cobra apenas o saldo em aberto
+        const balance = getInstallmentBalance(inst);
+        const charges = calculateLateCharges(lateFeeSettings, { amount: balance, due_date: inst.due_date });
         
         return {
           id: inst.id,
-          amount: inst.amount,
+          amount: balance,
           due_date: inst.due_date,
           installment_number: inst.installment_number,
           total_installments: inst.total_installments,
           days_overdue: daysOverdue,
+          late_fee: charges.lateFee,
+          interest: charges.interest,
+          amount_due: charges.total,
           payment_id: inst.payment_id,
           order_id: inst.payments?.order_id,
           order_number: inst.payments?.orders?.order_number || "N/A",
@@ -152,7 +175,7 @@ export default function Delinquency() {
       setOverdueInstallments(overdueData);
 
       // Calculate stats
-      const totalAmount = overdueData.reduce((sum, inst) => sum + Number(inst.amount), 0);
+      const totalAmount = overdueData.reduce((sum, inst) => sum + inst.amount_due, 0);
       const uniqueCustomers = new Set(overdueData.map(inst => inst.customer_name)).size;
       const avgDays = overdueData.length > 0 
         ? overdueData.reduce((sum, inst) => sum + inst.days_overdue, 0) / overdueData.length 
@@ -202,11 +225,35 @@ export default function Delinquency() {
       // EN: Send a copy of the reminder to the customer's email.
       if (selectedInstallment.customer_email) {
         const subject = `Lembrete de Cobrança - Pedido ${selectedInstallment.order_number}`;
+
+        // PT-BR: Anexa o PIX copia e cola e o QR code da parcela quando a organização tem chave cadastrada.
+        // EN: Attach the installment PIX code and QR image when the organization has a key.
+        let pix: { payload: string; qrCodeBase64: string } | undefined;
+        if (includePix && pixSettings) {
+          const payload = buildInstallmentPixPayload(pixSettings, {
+            orderNumber: selectedInstallment.order_number,
+            installmentNumber: selectedInstallment.installment_number,
+            totalInstallments: selectedInstallment.total_installments,
+            amount: selectedInstallment.amount_due,
+          });
+          const qrDataUrl = await getPixQrDataUrl(payload);
+          pix = { payload, qrCodeBase64: qrDataUrl.split(",")[1] };
+        }
+
         const { error: sendError } = await supabase.functions.invoke("send-reminder", {
           body: {
             to: selectedInstallment.customer_email,
             subject,
             message: reminderMessage,
+            pix,
+            charges: selectedInstallment.amount_due > Number(selectedInstallment.amount)
+              ? {
+                  original: Number(selectedInstallment.amount),
+                  lateFee: selectedInstallment.late_fee,
+                  interest: selectedInstallment.interest,
+                  total: selectedInstallment.amount_due,
+                }
+              : undefined,
           },
         });
         if (sendError) {
@@ -253,6 +300,25 @@ export default function Delinquency() {
     return { label: "Alto", variant: "destructive" as const };
   };
 
+  const exportColumns: ExportColumn<OverdueInstallment>[] = [
+    { key: "customer_name", label: "Cliente", value: (installment) => installment.customer_name },
+    { key: "customer_phone", label: "Telefone", optional: true, value: (installment) => installment.customer_phone },
+    { key: "customer_email", label: "Email", optional: true, value: (installment) => installment.customer_email },
+    { key: "order_number", label: "Pedido", value: (installment) => installment.order_number },
+    {
+      key: "installment",
+      label: "Parcela",
+      value: (installment) => `${installment.installment_number}/${installment.total_installments}`,
+    },
+    { key: "due_date", label: "Vencimento", type: "date", value: (installment) => installment.due_date },
+    { key: "days_overdue", label: "Dias de Atraso", type: "number", value: (installment) => installment.days_overdue },
+    { key: "risk", label: "Risco", value: (installment) => getRiskLevel(installment.days_overdue).label },
+    { key: "amount", label: "Valor Original", type: "currency", optional: true, value: (installment) => installment.amount },
+    { key: "late_fee", label: "Multa", type: "currency", optional: true, value: (installment) => installment.late_fee },
+    { key: "interest", label: "Juros", type: "currency", optional: true, value: (installment) => installment.interest },
+    { key: "amount_due", label: "Valor Atualizado", type: "currency", value: (installment) => installment.amount_due },
+  ];
+
   const filteredInstallments = useMemo(() => {
     return overdueInstallments.filter((installment) => {
       const searchLower = filters.search.toLowerCase();
@@ -285,7 +351,7 @@ export default function Delinquency() {
         }
       }
 
-      const amount = Number(installment.amount);
+      const amount = installment.amount_due;
       const matchesMinValue = !filters.minValue || amount >= Number(filters.minValue);
       const matchesMaxValue = !filters.maxValue || amount <= Number(filters.maxValue);
 
@@ -320,25 +386,25 @@ export default function Delinquency() {
       name: "0-7 dias", 
       amount: overdueInstallments
         .filter(i => i.days_overdue <= 7)
-        .reduce((sum, i) => sum + Number(i.amount), 0) 
+        .reduce((sum, i) => sum + i.amount_due, 0) 
     },
     { 
       name: "8-30 dias", 
       amount: overdueInstallments
         .filter(i => i.days_overdue > 7 && i.days_overdue <= 30)
-        .reduce((sum, i) => sum + Number(i.amount), 0) 
+        .reduce((sum, i) => sum + i.amount_due, 0) 
     },
     { 
       name: "31-60 dias", 
       amount: overdueInstallments
         .filter(i => i.days_overdue > 30 && i.days_overdue <= 60)
-        .reduce((sum, i) => sum + Number(i.amount), 0) 
+        .reduce((sum, i) => sum + i.amount_due, 0) 
     },
     { 
       name: "60+ dias", 
       amount: overdueInstallments
         .filter(i => i.days_overdue > 60)
-        .reduce((sum, i) => sum + Number(i.amount), 0) 
+        .reduce((sum, i) => sum + i.amount_due, 0) 
     },
   ];
 
@@ -485,6 +551,15 @@ export default function Delinquency() {
               activeFiltersCount={activeFiltersCount}
               resultsCount={filteredInstallments.length}
               totalCount={overdueInstallments.length}
+              actions={
+                <ExportButton
+                  organizationId={organizationId}
+                  title="Inadimplência"
+                  fileName="inadimplencia"
+                  columns={exportColumns}
+                  rows={filteredInstallments}
+                />
+              }
               gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
             >
               <div className="lg:col-span-4 space-y-2">
@@ -555,7 +630,7 @@ export default function Delinquency() {
                       <TableHead>Vencimento</TableHead>
                       <TableHead>Dias de Atraso</TableHead>
                       <TableHead>Risco</TableHead>
-                      <TableHead>Valor</TableHead>
+                      <TableHead>Valor Atualizado</TableHead>
                       <TableHead>Ações</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -583,7 +658,14 @@ export default function Delinquency() {
                           <TableCell>
                             <Badge variant={risk.variant}>{risk.label}</Badge>
                           </TableCell>
-                          <TableCell className="font-semibold">{formatCurrency(installment.amount)}</TableCell>
+                          <TableCell>
+                            <div className="font-semibold">{formatCurrency(installment.amount_due)}</div>
+                            {installment.amount_due > Number(installment.amount) && (
+                              <div className="text-xs text-muted-foreground">
+                                {formatCurrency(installment.amount)} + multa {formatCurrency(installment.late_fee)} + juros {formatCurrency(installment.interest)}
+                              </div>
+                            )}
+                          </TableCell>
                           <TableCell>
                             <Dialog>
                               <DialogTrigger asChild>
@@ -638,6 +720,12 @@ export default function Delinquency() {
                                       placeholder="Digite a mensagem de lembrete..."
                                     />
                                   </div>
+                                  {pixSettings && (
+                                    <div className="flex items-center gap-2">
+                                      <Switch id="include-pix" checked={includePix} onCheckedChange={setIncludePix} />
+                                      <Label htmlFor="include-pix">Incluir PIX copia e cola e QR code da parcela</Label>
+                                    </div>
+                                  )}
                                   <div className="flex gap-2 text-sm text-muted-foreground">
                                     <Phone className="h-4 w-4" />
                                     <span>{selectedInstallment?.customer_phone}</span>
@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, IdCard } from "lucide-react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { FilterBar } from "@/components/filters/FilterBar";
+import { SearchInput } from "@/components/filters/SearchInput";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { ExportButton } from "@/components/exports/ExportButton";
+import { DocumentExpiryBadge } from "@/components/customers/DocumentExpiryBadge";
+import { useOrganization } from "@/hooks/useOrganization";
+import { CUSTOMER_DOCUMENT_TYPE_OPTIONS } from "@/lib/constants";
+import {
+  getCustomerDocumentTypeLabel,
+  loadExpiringDocuments,
+  type ExpiringCustomerDocument,
+} from "@/lib/customerDocuments";
+import type { ExportColumn } from "@/lib/exports";
+
+const PERIOD_OPTIONS = [
+  { value: "30", label: "Próximos 30 dias" },
+  { value: "60", label: "Próximos 60 dias" },
+  { value: "90", label: "Próximos 90 dias" },
+  { value: "180", label: "Próximos 180 dias" },
+  { value: "365", label: "Próximos 12 meses" },
+];
+
+const DEFAULT_FILTERS = {
+  search: "",
+  days: "90",
+  documentType: "all",
+  situation: "all",
+};
+
+const formatDate = (date: string) => format(parseISO(date), "dd/MM/yyyy");
+
+const describeDays = (days: number) => {
+  if (days < 0) return `Vencido há ${Math.abs(days)} dia(s)`;
+  if (days === 0) return "Vence hoje";
+  return `Em ${days} dia(s)`;
+};
+
+const EXPORT_COLUMNS: ExportColumn<ExpiringCustomerDocument>[] = [
+  { key: "customer", label: "Cliente", value: (document) => document.customer?.full_name },
+  { key: "document_type", label: "Tipo", value: (document) => getCustomerDocumentTypeLabel(document.document_type) },
+  { key: "document_number", label: "Número", value: (document) => document.document_number },
+  { key: "issuing_country", label: "País", optional: true, value: (document) => document.issuing_country },
+  { key: "expiry_date", label: "Validade", type: "date", value: (document) => document.expiry_date },
+  { key: "days", label: "Prazo", value: (document) => describeDays(document.daysToExpiry) },
+  { key: "email", label: "Email", optional: true, value: (document) => document.customer?.email },
+  { key: "phone", label: "Telefone", value: (document) => document.customer?.phone },
+];
+
+/**
+ * Relatório de documentos de clientes que vencem nos próximos N dias (e os já vencidos),
+ * considerando apenas o documento mais recente de cada tipo por cliente.
+ *
+ * EN: Report of customer documents expiring within the next N days (plus expired ones),
+ * considering only each customer's latest document of each type.
+ */
+export default function DocumentExpiry() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const [loading, setLoading] = useState(true);
+  const [documents, setDocuments] = useState<ExpiringCustomerDocument[]>([]);
+  const [filters, setFilters] = useState(DEFAULT_FILTERS);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData(organizationId, Number(filters.days));
+    }
+  }, [organizationId, filters.days]);
+
+  const loadData = async (orgId: string, days: number) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setLoading(true);
+    const { documents, error } = await loadExpiringDocuments(orgId, days);
+    if (error) {
+      toast.error("Erro ao carregar documentos");
+    }
+    setDocuments(documents);
+    setLoading(false);
+  };
+
+  const filteredDocuments = useMemo(() => {
+    const search = filters.search.trim().toLowerCase();
+    return documents.filter((document) => {
+      if (filters.documentType !== "all" && document.document_type !== filters.documentType) return false;
+      if (filters.situation === "expired" && document.daysToExpiry >= 0) return false;
+      if (filters.situation === "expiring" && document.daysToExpiry < 0) return false;
+      if (!search) return true;
+      return (
+        document.customer?.full_name.toLowerCase().includes(search) ||
+        document.document_number.toLowerCase().includes(search)
+      );
+    });
+  }, [documents, filters]);
+
+  const activeFiltersCount =
+    (filters.search ? 1 : 0) +
+    (filters.days !== DEFAULT_FILTERS.days ? 1 : 0) +
+    (filters.documentType !== "all" ? 1 : 0) +
+    (filters.situation !== "all" ? 1 : 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-secondary to-accent rounded-full flex items-center justify-center">
+              <IdCard className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Documentos a Vencer</h1>
+              <p className="text-sm text-muted-foreground">Passaportes, vistos e documentos dos clientes próximos do vencimento</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <FilterBar
+          onClear={() => setFilters(DEFAULT_FILTERS)}
+          activeFiltersCount={activeFiltersCount}
+          resultsCount={filteredDocuments.length}
+          totalCount={documents.length}
+          gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
+          actions={
+            <ExportButton
+              organizationId={organizationId}
+              title="Documentos a Vencer"
+              fileName="documentos-a-vencer"
+              columns={EXPORT_COLUMNS}
+              rows={filteredDocuments}
+            />
+          }
+        >
+          <div className="lg:col-span-4">
+            <SearchInput
+              value={filters.search}
+              onChange={(value) => setFilters((prev) => ({ ...prev, search: value }))}
+              placeholder="Buscar por cliente ou número..."
+            />
+          </div>
+          <div className="lg:col-span-3">
+            <StatusFilter
+              label="Período"
+              value={filters.days}
+              onChange={(value) => setFilters({ ...filters, days: value })}
+              options={PERIOD_OPTIONS}
+            />
+          </div>
+          <div className="lg:col-span-2">
+            <StatusFilter
+              label="Tipo"
+              value={filters.documentType}
+              onChange={(value) => setFilters({ ...filters, documentType: value })}
+              options={[{ value: "all", label: "Todos os tipos" }, ...CUSTOMER_DOCUMENT_TYPE_OPTIONS]}
+            />
+          </div>
+          <div className="lg:col-span-3">
+            <StatusFilter
+              label="Situação"
+              value={filters.situation}
+              onChange={(value) => setFilters({ ...filters, situation: value })}
+              options={[
+                { value: "all", label: "Vencidos e a vencer" },
+                { value: "expiring", label: "A vencer" },
+                { value: "expired", label: "Vencidos" },
+              ]}
+            />
+          </div>
+        </FilterBar>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Documentos</CardTitle>
+            <CardDescription>
+              Somente o documento mais recente de cada tipo por cliente; documentos renovados não aparecem
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground text-center py-8">Carregando...</p>
+            ) : filteredDocuments.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">Nenhum documento vencendo no período</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cliente</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Número</TableHead>
+                    <TableHead>Validade</TableHead>
+                    <TableHead>Prazo</TableHead>
+                    <TableHead>Situação</TableHead>
+                    <TableHead>Contato</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredDocuments.map((document) => (
+                    <TableRow key={document.id}>
+                      <TableCell className="font-medium">
+                        {document.customer ? (
+                          <Link to={`/customers/${document.customer.id}`} className="hover:underline">
+                            {document.customer.full_name}
+                          </Link>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>{getCustomerDocumentTypeLabel(document.document_type)}</TableCell>
+                      <TableCell>{document.document_number}</TableCell>
+                      <TableCell>{formatDate(document.expiry_date)}</TableCell>
+                      <TableCell>{describeDays(document.daysToExpiry)}</TableCell>
+                      <TableCell>
+                        <DocumentExpiryBadge expiryDate={document.expiry_date} />
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {document.customer?.phone}
+                        {document.customer?.email && <div>{document.customer.email}</div>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
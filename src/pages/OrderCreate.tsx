@@ -1,11 +1,13 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft, ShoppingCart } from "lucide-react";
 import { toast } from "sonner";
 import { useOrganization } from "@/hooks/useOrganization";
@@ -13,12 +15,20 @@ import { CustomerCombobox } from "@/components/orders/CustomerCombobox";
 import { PackageCombobox } from "@/components/orders/PackageCombobox";
 import { QuickAddCustomer } from "@/components/orders/QuickAddCustomer";
 import { QuickAddPackage } from "@/components/orders/QuickAddPackage";
+import { PassengerRosterEditor } from "@/components/orders/PassengerRosterEditor";
+import { passengerSchema } from "@/lib/validations";
+import { passengerFromCustomer, type PassengerDraft } from "@/lib/passengers";
+import { createOrderWithPayment } from "@/lib/orders";
+import { departureRemainingSpots, formatRemainingSpots, getOverbookingMessage } from "@/lib/packages";
+import { format } from "date-fns";
 import { z } from "zod";
 
 const orderCreateSchema = z.object({
   customer_id: z.string().uuid("Selecione um cliente"),
   package_id: z.string().uuid("Selecione um pacote"),
+  departure_id: z.string().uuid("Selecione uma saída").optional().or(z.literal("")),
   number_of_travelers: z.number().min(1, "Mínimo 1 viajante").max(50, "Máximo 50 viajantes"),
+  passengers: z.array(passengerSchema).min(1, "Adicione ao menos um passageiro"),
   travel_date: z.string().refine(
     (date) => new Date(date) > new Date(),
     "Data deve ser futura"
@@ -26,6 +36,8 @@ const orderCreateSchema = z.object({
   special_requests: z.string().max(500, "Máximo 500 caracteres").optional(),
 });
 
+type Departure = Tables<"package_departures">;
+
 const OrderCreate = () => {
   const navigate = useNavigate();
   const { organizationId, loading: orgLoading } = useOrganization();
@@ -38,10 +50,11 @@ const OrderCreate = () => {
   const [formData, setFormData] = useState({
     customer_id: "",
     package_id: "",
-    number_of_travelers: 1,
+    departure_id: "",
     travel_date: "",
     special_requests: "",
   });
+  const [passengers, setPassengers] = useState<PassengerDraft[]>([]);
 
   useEffect(() => {
     if (organizationId) loadData();
@@ -58,7 +71,7 @@ const OrderCreate = () => {
 
     const [customersRes, packagesRes] = await Promise.all([
       supabase.from("customers").select("*").eq("organization_id", organizationId),
-      supabase.from("travel_packages").select("*").eq("organization_id", organizationId),
+      supabase.from("travel_packages").select("*, package_departures(*)").eq("organization_id", organizationId),
     ]);
 
     if (customersRes.error || packagesRes.error) {
@@ -70,23 +83,81 @@ const OrderCreate = () => {
     setPackages(packagesRes.data || []);
   };
 
+  /**
+   * Seleciona o cliente titular e o mantém como passageiro principal da lista.
+   * EN: Selects the order holder and keeps them as the roster's primary passenger.
+   */
+  const handleCustomerChange = async (customerId: string) => {
+    setFormData((prev) => ({ ...prev, customer_id: customerId }));
+
+    let customer = customers.find((c) => c.id === customerId);
+    if (!customer) {
+      const { data } = await supabase
+        .from("customers")
+        .select("id, full_name, cpf, birth_date")
+        .eq("id", customerId)
+        .single();
+      customer = data;
+    }
+    if (!customer) return;
+
+    setPassengers((prev) => {
+      const others = prev.filter((p) => !p.is_primary && p.customer_id !== customerId);
+      return [passengerFromCustomer(customer, true), ...others];
+    });
+  };
+
   const handleCustomerCreated = (customerId: string) => {
     loadData();
-    setFormData({ ...formData, customer_id: customerId });
+    handleCustomerChange(customerId);
     setCustomerDialogOpen(false);
   };
 
+  const handlePackageChange = (packageId: string) => {
+    setFormData((prev) => ({ ...prev, package_id: packageId, departure_id: "", travel_date: "" }));
+  };
+
   const handlePackageCreated = (packageId: string) => {
     loadData();
-    setFormData({ ...formData, package_id: packageId });
+    handlePackageChange(packageId);
     setPackageDialogOpen(false);
   };
 
+  /**
+   * Saídas abertas e futuras de um pacote, ordenadas por data.
+   * EN: Open, upcoming departures of a package sorted by date.
+   */
+  const getOpenDepartures = (pkg?: { package_departures?: Departure[] }): Departure[] => {
+    const today = format(new Date(), "yyyy-MM-dd");
+    return (pkg?.package_departures || [])
+      .filter((d) => d.status === "open" && d.departure_date > today)
+      .sort((a, b) => a.departure_date.localeCompare(b.departure_date));
+  };
+
+  // Para pacotes com saídas, a capacidade exibida é a da saída com mais vagas livres
+  const packageOptions = packages.map((pkg) => {
+    const departures = getOpenDepartures(pkg);
+    if (departures.length === 0) return pkg;
+    return { ...pkg, available_spots: Math.max(...departures.map(departureRemainingSpots)) };
+  });
+
   const selectedPackage = packages.find((p) => p.id === formData.package_id);
+  const departureOptions = getOpenDepartures(selectedPackage);
+  const selectedDeparture = departureOptions.find((d) => d.id === formData.departure_id);
+  const unitPrice = selectedDeparture?.price ?? selectedPackage?.price;
   const totalAmount = selectedPackage
-    ? Number(selectedPackage.price) * formData.number_of_travelers
+    ? Number(unitPrice) * passengers.length
     : 0;
 
+  const handleDepartureChange = (departureId: string) => {
+    const departure = departureOptions.find((d) => d.id === departureId);
+    setFormData((prev) => ({
+      ...prev,
+      departure_id: departureId,
+      travel_date: departure?.departure_date || "",
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -100,12 +171,18 @@ const OrderCreate = () => {
       return;
     }
     
+    if (departureOptions.length > 0 && !formData.departure_id) {
+      toast.error("Selecione uma saída para o pacote");
+      return;
+    }
+
     setLoading(true);
 
     try {
       const validatedData = orderCreateSchema.parse({
         ...formData,
-        number_of_travelers: Number(formData.number_of_travelers),
+        number_of_travelers: passengers.length,
+        passengers,
       });
 
       const { data: { session } } = await supabase.auth.getSession();
@@ -115,50 +192,25 @@ const OrderCreate = () => {
         return;
       }
 
-      const orderNumber = `ORD-${Date.now()}`;
-
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert([
-          {
-            order_number: orderNumber,
-            customer_id: validatedData.customer_id,
-            package_id: validatedData.package_id,
-            number_of_travelers: validatedData.number_of_travelers,
-            travel_date: validatedData.travel_date,
-            special_requests: validatedData.special_requests || null,
-            total_amount: totalAmount,
-            status: "pending",
-            organization_id: organizationId,
-            created_by: session.user.id,
-          },
-        ])
-        .select()
-        .single();
+      const { order, error: orderError } = await createOrderWithPayment({
+        organizationId,
+        userId: session.user.id,
+        customerId: validatedData.customer_id,
+        packageId: validatedData.package_id,
+        departureId: validatedData.departure_id || null,
+        travelDate: validatedData.travel_date,
+        numberOfTravelers: validatedData.number_of_travelers,
+        totalAmount,
+        specialRequests: validatedData.special_requests,
+        passengers,
+      });
 
       if (orderError || !order) {
-        toast.error("Erro ao criar pedido");
+        toast.error(getOverbookingMessage(orderError) || "Erro ao criar pedido");
         setLoading(false);
         return;
       }
 
-      const { error: paymentError } = await supabase.from("payments").insert([
-        {
-          order_id: order.id,
-          amount: totalAmount,
-          due_date: validatedData.travel_date,
-          status: "pending",
-          organization_id: organizationId,
-          created_by: session.user.id,
-        },
-      ]);
-
-      if (paymentError) {
-        toast.error("Pedido criado, mas erro ao criar pagamento");
-        navigate(`/orders/${order.id}`);
-        return;
-      }
-
       toast.success("Pedido criado com sucesso!");
       navigate(`/orders/${order.id}`);
     } catch (error) {
@@ -204,7 +256,7 @@ const OrderCreate = () => {
               {/* Cliente */}
               <CustomerCombobox
                 value={formData.customer_id}
-                onChange={(val) => setFormData({ ...formData, customer_id: val })}
+                onChange={handleCustomerChange}
                 customers={customers}
                 onCreateNew={() => setCustomerDialogOpen(true)}
               />
@@ -212,44 +264,65 @@ const OrderCreate = () => {
               {/* Pacote */}
               <PackageCombobox
                 value={formData.package_id}
-                onChange={(val) => setFormData({ ...formData, package_id: val })}
-                packages={packages}
+                onChange={handlePackageChange}
+                packages={packageOptions}
                 onCreateNew={() => setPackageDialogOpen(true)}
+                requiredSpots={Math.max(passengers.length, 1)}
               />
 
               {/* Detalhes da viagem */}
               <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="travelers">Número de Viajantes *</Label>
-                  <Input
-                    id="travelers"
-                    type="number"
-                    min="1"
-                    max="50"
-                    value={formData.number_of_travelers}
-                    onChange={(e) =>
-                      setFormData({
-                        ...formData,
-                        number_of_travelers: parseInt(e.target.value) || 1,
-                      })
-                    }
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="travel_date">Data da Viagem *</Label>
-                  <Input
-                    id="travel_date"
-                    type="date"
-                    value={formData.travel_date}
-                    onChange={(e) =>
-                      setFormData({ ...formData, travel_date: e.target.value })
-                    }
-                    required
-                  />
-                </div>
+                {departureOptions.length > 0 ? (
+                  <div className="space-y-2 col-span-2">
+                    <Label>Saída *</Label>
+                    <Select value={formData.departure_id} onValueChange={handleDepartureChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione a data de saída" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {departureOptions.map((dep) => {
+                          const remaining = departureRemainingSpots(dep);
+                          return (
+                            <SelectItem
+                              key={dep.id}
+                              value={dep.id}
+                              disabled={remaining < Math.max(passengers.length, 1)}
+                            >
+                              {format(new Date(dep.departure_date + "T00:00:00"), "dd/MM/yyyy")}
+                              {dep.return_date && ` a ${format(new Date(dep.return_date + "T00:00:00"), "dd/MM/yyyy")}`}
+                              {" · R$ "}
+                              {Number(dep.price ?? selectedPackage.price).toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
+                              {" · "}
+                              {dep.reserved_spots}/{dep.capacity} ocupadas ({formatRemainingSpots(remaining)})
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="travel_date">Data da Viagem *</Label>
+                    <Input
+                      id="travel_date"
+                      type="date"
+                      value={formData.travel_date}
+                      onChange={(e) =>
+                        setFormData({ ...formData, travel_date: e.target.value })
+                      }
+                      required
+                    />
+                  </div>
+                )}
               </div>
 
+              {/* Passageiros */}
+              <PassengerRosterEditor
+                value={passengers}
+                onChange={setPassengers}
+                customers={customers}
+              />
+
               {/* Observações */}
               <div className="space-y-2">
                 <Label htmlFor="special_requests">Observações (opcional)</Label>
@@ -270,7 +343,9 @@ const OrderCreate = () => {
                 <Card className="bg-muted/50">
                   <CardContent className="pt-6">
                     <div className="flex justify-between items-center">
-                      <span className="text-lg font-medium">Valor Total:</span>
+                      <span className="text-lg font-medium">
+                        Valor Total ({passengers.length} {passengers.length === 1 ? "passageiro" : "passageiros"}):
+                      </span>
                       <span className="text-2xl font-bold text-primary">
                         R${" "}
                         {totalAmount.toLocaleString("pt-BR", {
@@ -9,10 +9,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft } from "lucide-react";
 import { useOrganization } from "@/hooks/useOrganization";
+import { PassengerRosterEditor } from "@/components/orders/PassengerRosterEditor";
+import { OrderItemsCard } from "@/components/orders/OrderItemsCard";
+import { passengerFromCustomer, passengerFromRow, toPassengerInsert, type PassengerDraft } from "@/lib/passengers";
+import { ORDER_STATUS_OPTIONS, type OrderStatus } from "@/lib/constants";
+import { getStatusTransitionBlocker } from "@/lib/orders";
 
 interface Customer {
   id: string;
   full_name: string;
+  cpf: string | null;
+  birth_date: string | null;
 }
 
 interface Package {
@@ -26,10 +33,13 @@ interface Order {
   order_number: string;
   customer_id: string;
   package_id: string;
+  departure_id: string | null;
+  departure: { departure_date: string; price: number | null } | null;
+  unit_price: number | null;
   number_of_travelers: number;
   travel_date: string;
   special_requests: string | null;
-  status: "pending" | "confirmed" | "completed" | "cancelled";
+  status: OrderStatus;
   total_amount: number;
 }
 
@@ -43,6 +53,10 @@ const OrderEdit = () => {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [packages, setPackages] = useState<Package[]>([]);
   const [formData, setFormData] = useState<Order | null>(null);
+  const [passengers, setPassengers] = useState<PassengerDraft[]>([]);
+  const [originalPassengerIds, setOriginalPassengerIds] = useState<string[]>([]);
+  // Status salvo: base para as transições permitidas no seletor
+  const [savedStatus, setSavedStatus] = useState<OrderStatus>("pending");
 
   useEffect(() => {
     loadData();
@@ -55,14 +69,20 @@ const OrderEdit = () => {
       return;
     }
 
-    const [orderRes, customersRes, packagesRes] = await Promise.all([
-      supabase.from("orders").select("*").eq("id", id).single(),
-      supabase.from("customers").select("id, full_name"),
-      supabase.from("travel_packages").select("id, name, price").eq("is_active", true)
+    const [orderRes, customersRes, packagesRes, passengersRes] = await Promise.all([
+      supabase.from("orders").select("*, departure:package_departures(departure_date, price)").eq("id", id).single(),
+      supabase.from("customers").select("id, full_name, cpf, birth_date"),
+      supabase.from("travel_packages").select("id, name, price").eq("is_active", true),
+      supabase.from("order_passengers").select("*").eq("order_id", id).order("created_at", { ascending: true })
     ]);
 
     if (orderRes.data) {
-      setFormData(orderRes.data as Order);
+      setFormData(orderRes.data as unknown as Order);
+      setSavedStatus(orderRes.data.status);
+    }
+    if (passengersRes.data) {
+      setPassengers(passengersRes.data.map(passengerFromRow));
+      setOriginalPassengerIds(passengersRes.data.map((p) => p.id));
     }
     if (customersRes.data) setCustomers(customersRes.data);
     if (packagesRes.data) setPackages(packagesRes.data);
@@ -77,25 +97,36 @@ const OrderEdit = () => {
     const selectedPackage = packages.find(p => p.id === formData.package_id);
     if (!selectedPackage) return;
 
-    const total = selectedPackage.price * formData.number_of_travelers;
+    if (passengers.length === 0 || passengers.some((p) => !p.full_name.trim())) {
+      toast({
+        title: "Passageiros inválidos",
+        description: "Inclua ao menos um passageiro e preencha o nome de todos.",
+        variant: "destructive",
+      });
+      setSaving(false);
+      return;
+    }
 
     const { error } = await supabase
       .from("orders")
       .update({
         customer_id: formData.customer_id,
         package_id: formData.package_id,
-        number_of_travelers: formData.number_of_travelers,
+        departure_id: formData.departure_id,
+        unit_price: formData.unit_price,
+        number_of_travelers: passengers.length,
         travel_date: formData.travel_date,
         special_requests: formData.special_requests,
         status: formData.status,
-        total_amount: total
       })
       .eq("id", id);
 
-    if (error) {
+    const passengersError = error ? null : await savePassengers();
+
+    if (error || passengersError) {
       toast({
         title: "Erro ao atualizar pedido",
-        description: error.message,
+        description: (error || passengersError).message,
         variant: "destructive",
       });
     } else {
@@ -106,6 +137,42 @@ const OrderEdit = () => {
     }
   };
 
+  /**
+   * Sincroniza a lista de passageiros: remove os excluídos e faz upsert dos demais.
+   * EN: Syncs the roster: deletes removed passengers and upserts the remaining ones.
+   */
+  const savePassengers = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !organizationId || !id) return null;
+
+    const keptIds = passengers.map((p) => p.id).filter(Boolean);
+    const removedIds = originalPassengerIds.filter((pid) => !keptIds.includes(pid));
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from("order_passengers").delete().in("id", removedIds);
+      if (error) return error;
+    }
+
+    const { error } = await supabase
+      .from("order_passengers")
+      .upsert(
+        passengers.map((p) => toPassengerInsert(p, id, organizationId, user.id)),
+        { defaultToNull: false }
+      );
+    return error;
+  };
+
+  const handleCustomerChange = (customerId: string) => {
+    setFormData({ ...formData, customer_id: customerId });
+    const customer = customers.find((c) => c.id === customerId);
+    if (!customer) return;
+    setPassengers((prev) => {
+      const previousPrimary = prev.find((p) => p.is_primary);
+      const others = prev.filter((p) => !p.is_primary && p.customer_id !== customerId);
+      return [{ ...passengerFromCustomer(customer, true), id: previousPrimary?.id }, ...others];
+    });
+  };
+
   if (loading || !formData) {
     return <div className="p-8">Carregando...</div>;
   }
@@ -123,7 +190,7 @@ const OrderEdit = () => {
         <form onSubmit={handleSubmit} className="space-y-6 bg-card p-6 rounded-lg border">
           <div className="space-y-2">
             <Label htmlFor="customer">Cliente</Label>
-            <Select value={formData.customer_id} onValueChange={(value) => setFormData({...formData, customer_id: value})}>
+            <Select value={formData.customer_id} onValueChange={handleCustomerChange}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
@@ -137,7 +204,10 @@ const OrderEdit = () => {
 
           <div className="space-y-2">
             <Label htmlFor="package">Pacote</Label>
-            <Select value={formData.package_id} onValueChange={(value) => setFormData({...formData, package_id: value})}>
+            <Select
+              value={formData.package_id}
+              onValueChange={(value) => setFormData({ ...formData, package_id: value, departure_id: null, departure: null, unit_price: null })}
+            >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
@@ -149,16 +219,11 @@ const OrderEdit = () => {
             </Select>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="travelers">Número de Viajantes</Label>
-            <Input
-              id="travelers"
-              type="number"
-              min="1"
-              value={formData.number_of_travelers}
-              onChange={(e) => setFormData({...formData, number_of_travelers: parseInt(e.target.value)})}
-            />
-          </div>
+          <PassengerRosterEditor
+            value={passengers}
+            onChange={setPassengers}
+            customers={customers}
+          />
 
           <div className="space-y-2">
             <Label htmlFor="travel_date">Data da Viagem</Label>
@@ -167,20 +232,31 @@ const OrderEdit = () => {
               type="date"
               value={formData.travel_date}
               onChange={(e) => setFormData({...formData, travel_date: e.target.value})}
+              disabled={!!formData.departure_id}
             />
+            {formData.departure_id && (
+              <p className="text-xs text-muted-foreground">
+                Data definida pela saída do pacote. Troque o pacote para informar outra data.
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="status">Status</Label>
-            <Select value={formData.status} onValueChange={(value: "pending" | "confirmed" | "completed" | "cancelled") => setFormData({...formData, status: value})}>
+            <Select value={formData.status} onValueChange={(value: OrderStatus) => setFormData({...formData, status: value})}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="pending">Pendente</SelectItem>
-                <SelectItem value="confirmed">Confirmado</SelectItem>
-                <SelectItem value="completed">Concluído</SelectItem>
-                <SelectItem value="cancelled">Cancelado</SelectItem>
+                {ORDER_STATUS_OPTIONS.map((opt) => (
+                  <SelectItem
+                    key={opt.value}
+                    value={opt.value}
+                    disabled={getStatusTransitionBlocker({ status: savedStatus, travel_date: formData.travel_date }, opt.value) !== null}
+                  >
+                    {opt.label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -202,6 +278,10 @@ const OrderEdit = () => {
             </Button>
           </div>
         </form>
+
+        <div className="mt-6">
+          <OrderItemsCard orderId={formData.id} organizationId={organizationId} canEdit />
+        </div>
       </div>
     </div>
   );
@@ -5,20 +5,34 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Edit, Plus, Trash2, CalendarDays, CreditCard } from "lucide-react";
+import { ArrowLeft, Edit, Plus, Trash2, CalendarDays, CreditCard, QrCode, Ticket, XCircle } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { OrderDeleteDialog } from "@/components/orders/OrderDeleteDialog";
+import { OrderPassengersCard } from "@/components/orders/OrderPassengersCard";
+import { OrderDocumentExpiryAlert } from "@/components/orders/OrderDocumentExpiryAlert";
+import { OrderItemsCard } from "@/components/orders/OrderItemsCard";
+import { OrderStatusTimeline } from "@/components/orders/OrderStatusTimeline";
+import { OrderCancellationWizard } from "@/components/orders/OrderCancellationWizard";
+import { OrderCancellationCard } from "@/components/orders/OrderCancellationCard";
+import { OrderDocumentsCard } from "@/components/orders/OrderDocumentsCard";
+import { InstallmentPixDialog } from "@/components/payments/InstallmentPixDialog";
+import { InstallmentPaymentDialog } from "@/components/payments/InstallmentPaymentDialog";
+import { InstallmentPlanBuilder } from "@/components/payments/InstallmentPlanBuilder";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useOrganization } from "@/hooks/useOrganization";
 import { PAYMENT_METHODS } from "@/lib/constants";
 import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { canIssueVoucher } from "@/lib/vouchers";
+import { calculateLateCharges, loadLateFeeSettings, todayDateOnly, type LateFeeSettings } from "@/lib/lateFees";
+import { getInstallmentBalance } from "@/lib/installmentPayments";
+import { distributeEvenly } from "@/lib/installmentPlans";
 
 interface OrderDetails {
   id: string;
@@ -44,14 +58,19 @@ interface Payment {
 
 interface Installment {
   id: string;
+  organization_id: string;
   installment_number: number;
   total_installments: number;
   amount: number;
+  paid_amount: number;
   due_date: string;
   payment_date: string | null;
   status: string;
   payment_method: string | null;
   notes: string | null;
+  late_fee_amount?: number;
+  interest_amount?: number;
+  is_down_payment?: boolean;
 }
 
 const OrderView = () => {
@@ -65,15 +84,12 @@ const OrderView = () => {
   const [order, setOrder] = useState<OrderDetails | null>(null);
   const [payment, setPayment] = useState<Payment | null>(null);
   const [installments, setInstallments] = useState<Installment[]>([]);
-  const [installmentDialogOpen, setInstallmentDialogOpen] = useState(false);
   const [editInstallmentOpen, setEditInstallmentOpen] = useState(false);
   const [selectedInstallment, setSelectedInstallment] = useState<Installment | null>(null);
-  const [installmentCount, setInstallmentCount] = useState(2);
   const [isEditDueDateOpen, setIsEditDueDateOpen] = useState(false);
   const [dueDateOnly, setDueDateOnly] = useState<string>("");
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
-  const [paymentDateInput, setPaymentDateInput] = useState<string>("");
-  const [paymentMethodInput, setPaymentMethodInput] = useState<string>("");
+  const [lateFeeSettings, setLateFeeSettings] = useState<LateFeeSettings | null>(null);
   const DEBOUNCE_MS = 600;
   const amountDebounceRef = useRef<number | null>(null);
   const dueDateDebounceRef = useRef<number | null>(null);
@@ -99,23 +115,26 @@ const OrderView = () => {
   };
 
   /**
-   * Redistribui um valor total igualmente entre N parcelas com precisão de 2 casas.
-   * EN: Evenly distributes a total amount across N installments with 2-decimal precision.
-   * Garante que a soma final seja exatamente igual ao total, espalhando os centavos restantes.
+   * Saldo atualizado (com multa e juros) de uma parcela vencida em aberto; null quando não há encargos.
+   * EN: Updated balance (with late fee and interest) of an open overdue installment; null when none.
    */
-  const distributeEvenly = (total: number, n: number): number[] => {
-    if (n <= 0) return [];
-    const cents = Math.round(total * 100);
-    const base = Math.floor(cents / n);
-    const remainder = cents - base * n; // número de parcelas que recebem +0.01
-    const result: number[] = Array.from({ length: n }, (_, i) => (base + (i < remainder ? 1 : 0)) / 100);
-    return result;
+  const getUpdatedAmount = (installment: Installment): number | null => {
+    if (["paid", "cancelled"].includes(installment.status) || installment.due_date >= todayDateOnly()) return null;
+    const balance = getInstallmentBalance(installment);
+    const charges = calculateLateCharges(lateFeeSettings, { amount: balance, due_date: installment.due_date });
+    return charges.total > balance ? charges.total : null;
   };
 
   useEffect(() => {
     loadOrderData();
   }, [id]);
 
+  useEffect(() => {
+    if (organizationId) {
+      loadLateFeeSettings(organizationId).then(setLateFeeSettings);
+    }
+  }, [organizationId]);
+
   const loadOrderData = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
@@ -162,55 +181,6 @@ const OrderView = () => {
     if (data) setInstallments(data as Installment[]);
   };
 
-  const handleCreateInstallments = async () => {
-    if (!payment) return;
-
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
-
-    if (!organizationId) {
-      toast({
-        title: "Erro",
-        description: "Organização não encontrada",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const amountPerInstallment = payment.amount / installmentCount;
-    const baseDate = new Date(payment.due_date);
-
-    const newInstallments = Array.from({ length: installmentCount }, (_, i) => {
-      const dueDate = new Date(baseDate);
-      dueDate.setMonth(dueDate.getMonth() + i);
-
-      return {
-        payment_id: payment.id,
-        installment_number: i + 1,
-        total_installments: installmentCount,
-        amount: amountPerInstallment,
-        due_date: dueDate.toISOString().split("T")[0],
-        status: "pending" as "pending" | "paid" | "overdue" | "partial",
-        organization_id: organizationId,
-        created_by: user.id,
-      };
-    });
-
-    const { error } = await supabase.from("installments").insert(newInstallments);
-
-    if (error) {
-      toast({
-        title: "Erro ao criar parcelas",
-        description: error.message,
-        variant: "destructive",
-      });
-    } else {
-      toast({ title: "Parcelas criadas com sucesso!" });
-      setInstallmentDialogOpen(false);
-      loadInstallments(payment.id);
-    }
-  };
-
   /**
    * Atualiza a parcela selecionada, permitindo editar status,
    * data de pagamento, método de pagamento, notas e agora também
@@ -270,60 +240,6 @@ const OrderView = () => {
     }
   };
 
-  /**
-   * Lança pagamento para a parcela selecionada, definindo data, método
-   * e marcando o status como "paid". Após salvar, atualiza o estado local
-   * e recalcula o status do pagamento principal (paid/partial).
-   * EN: Launches a payment for the selected installment, setting date, method
-   * and marking the status as "paid". After saving, updates local state and
-   * recalculates the main payment status (paid/partial).
-   */
-  const handleLaunchPayment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedInstallment || !payment) return;
-
-    const effectiveDate = paymentDateInput || new Date().toISOString().split("T")[0];
-    const effectiveMethod = paymentMethodInput || selectedInstallment.payment_method || "cash";
-
-    const { error } = await supabase
-      .from("installments")
-      .update({
-        status: "paid",
-        payment_date: effectiveDate,
-        payment_method: effectiveMethod,
-      })
-      .eq("id", selectedInstallment.id);
-
-    if (error) {
-      toast({ title: "Erro ao lançar pagamento", description: error.message, variant: "destructive" });
-      return;
-    }
-
-    // Atualiza estado local
-    setInstallments((prev) => prev.map((i) => (
-      i.id === selectedInstallment.id ? { ...i, status: "paid", payment_date: effectiveDate, payment_method: effectiveMethod } : i
-    )));
-
-    // Recalcula status do pagamento principal
-    const allPaid = installments.every((i) => (i.id === selectedInstallment.id ? true : i.status === "paid"));
-    const newStatus = allPaid ? "paid" : "partial";
-    const { error: payErr } = await supabase
-      .from("payments")
-      .update({ status: newStatus })
-      .eq("id", payment.id);
-
-    if (payErr) {
-      toast({ title: "Pagamento atualizado, mas falhou status geral", description: payErr.message, variant: "destructive" });
-    } else {
-      setPayment((prev) => (prev ? { ...prev, status: newStatus } : prev));
-    }
-
-    toast({ title: "Pagamento lançado com sucesso" });
-    setIsPaymentDialogOpen(false);
-    setPaymentDateInput("");
-    setPaymentMethodInput("");
-  };
-
   /**
    * Atualiza o valor (amount) de uma parcela de forma inline.
    * Recebe o id da parcela e o novo valor numérico.
@@ -346,17 +262,17 @@ const OrderView = () => {
     }
 
     // PT-BR: Após editar o valor de uma parcela, redistribui o restante
-    // entre as parcelas em aberto (status diferente de 'paid') para refletir o
-    // restante não quitado do pagamento principal.
+    // entre as parcelas sem recebimentos (status diferente de 'paid' e 'partial')
+    // para refletir o restante não quitado do pagamento principal.
     // EN: After editing one installment, redistribute the remaining unpaid
-    // amount across other open installments (status not 'paid').
+    // amount across other installments without payments (status not 'paid'/'partial').
     if (!payment) return;
 
     const paidSum = installments
-      .filter((i) => i.status === "paid")
+      .filter((i) => ["paid", "partial"].includes(i.status))
       .reduce((sum, i) => sum + Number(i.amount), 0);
 
-    const openOthers = installments.filter((i) => i.status !== "paid" && i.id !== installmentId);
+    const openOthers = installments.filter((i) => !["paid", "partial"].includes(i.status) && i.id !== installmentId);
     const remainingRaw = Number(payment.amount) - paidSum - rounded;
     const remaining = Math.max(0, Math.round(remainingRaw * 100) / 100);
 
@@ -491,6 +407,25 @@ const OrderView = () => {
               <Edit className="h-4 w-4 mr-2" />
               Editar Pedido
             </Button>
+            {canIssueVoucher(order.status) && (
+              <Button variant="outline" size="sm" onClick={() => navigate(`/orders/${id}/voucher`)}>
+                <Ticket className="h-4 w-4 mr-2" />
+                Voucher
+              </Button>
+            )}
+            {role !== "viewer" && (order.status === "pending" || order.status === "confirmed") && (
+              <OrderCancellationWizard
+                orderId={order.id}
+                orderNumber={order.order_number}
+                onCancelled={loadOrderData}
+                trigger={
+                  <Button variant="outline" size="sm">
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Cancelar Pedido
+                  </Button>
+                }
+              />
+            )}
             {order && (canDelete ? (
               <OrderDeleteDialog
                 orderId={order.id}
@@ -580,42 +515,49 @@ const OrderView = () => {
           </Card>
         </div>
 
+        {order.status === "cancelled" && (
+          <OrderCancellationCard orderId={order.id} canEdit={role !== "viewer"} />
+        )}
+
+        {order.status !== "cancelled" && (
+          <OrderDocumentExpiryAlert orderId={order.id} travelDate={order.travel_date} />
+        )}
+
+        <OrderPassengersCard orderId={order.id} travelDate={order.travel_date} />
+
+        <OrderItemsCard
+          orderId={order.id}
+          organizationId={organizationId}
+          canEdit={role !== "viewer"}
+          onItemsChanged={loadOrderData}
+        />
+
+        <OrderDocumentsCard orderId={order.id} organizationId={organizationId} canEdit={role !== "viewer"} />
+
+        <OrderStatusTimeline
+          orderId={order.id}
+          status={order.status}
+          travelDate={order.travel_date}
+          canEdit={role !== "viewer"}
+          onStatusChanged={loadOrderData}
+        />
+
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle>Gestão de Pagamentos</CardTitle>
-              {payment && installments.length === 0 && (
-                <Dialog open={installmentDialogOpen} onOpenChange={setInstallmentDialogOpen}>
-                  <DialogTrigger asChild>
+              {payment && installments.length === 0 && role !== "viewer" && (
+                <InstallmentPlanBuilder
+                  organizationId={organizationId}
+                  payment={payment}
+                  onCreated={() => loadPaymentData(order.id)}
+                  trigger={
                     <Button>
                       <Plus className="h-4 w-4 mr-2" />
                       Criar Parcelas
                     </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>Criar Parcelas</DialogTitle>
-                    </DialogHeader>
-                    <div className="space-y-4">
-                      <div>
-                        <Label>Número de Parcelas</Label>
-                        <Input
-                          type="number"
-                          min="2"
-                          max="12"
-                          value={installmentCount}
-                          onChange={(e) => setInstallmentCount(parseInt(e.target.value))}
-                        />
-                      </div>
-                      <p className="text-sm text-muted-foreground">
-                        Valor por parcela: R$ {(payment.amount / installmentCount).toFixed(2)}
-                      </p>
-                      <Button onClick={handleCreateInstallments} className="w-full">
-                        Criar Parcelas
-                      </Button>
-                    </div>
-                  </DialogContent>
-                </Dialog>
+                  }
+                />
               )}
             </div>
           </CardHeader>
@@ -647,7 +589,9 @@ const OrderView = () => {
                       <TableBody>
                         {installments.map((inst) => (
                           <TableRow key={inst.id}>
-                            <TableCell>{inst.installment_number}/{inst.total_installments}</TableCell>
+                            <TableCell>
+                              {inst.is_down_payment ? "Entrada" : `${inst.installment_number}/${inst.total_installments}`}
+                            </TableCell>
                             <TableCell>
                               <Input
                                 type="text"
@@ -663,6 +607,21 @@ const OrderView = () => {
                                   queueAmountUpdate(inst.id, masked.value);
                                 }}
                               />
+                              {getUpdatedAmount(inst) !== null && (
+                                <p className="text-xs text-destructive mt-1">
+                                  Atualizado: {formatCurrencyBRL(getUpdatedAmount(inst) as number)}
+                                </p>
+                              )}
+                              {inst.status === "partial" && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  Pago {formatCurrencyBRL(Number(inst.paid_amount))} · saldo {formatCurrencyBRL(getInstallmentBalance(inst))}
+                                </p>
+                              )}
+                              {Number(inst.late_fee_amount || 0) + Number(inst.interest_amount || 0) > 0 && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  + {formatCurrencyBRL(Number(inst.late_fee_amount || 0) + Number(inst.interest_amount || 0))} de multa e juros
+                                </p>
+                              )}
                             </TableCell>
                             <TableCell>
                               <Input
@@ -693,15 +652,26 @@ const OrderView = () => {
                               <Button
                                 variant="ghost"
                                 size="sm"
+                                title="Lançar pagamento"
                                 onClick={() => {
                                   setSelectedInstallment(inst);
-                                  setPaymentDateInput(inst.payment_date || new Date().toISOString().split("T")[0]);
-                                  setPaymentMethodInput(inst.payment_method || "");
                                   setIsPaymentDialogOpen(true);
                                 }}
                               >
                                 <CreditCard className="h-4 w-4" />
                               </Button>
+                              {["pending", "overdue", "partial"].includes(inst.status) && (
+                                <InstallmentPixDialog
+                                  organizationId={organizationId}
+                                  orderNumber={order.order_number}
+                                  installment={{ ...inst, amount: getInstallmentBalance(inst) }}
+                                  trigger={
+                                    <Button variant="ghost" size="sm" title="Cobrar via PIX">
+                                      <QrCode className="h-4 w-4" />
+                                    </Button>
+                                  }
+                                />
+                              )}
                             </TableCell>
                           </TableRow>
                         ))}
@@ -726,18 +696,21 @@ const OrderView = () => {
             <form onSubmit={handleUpdateInstallment} className="space-y-4">
               <div>
                 <Label>Status</Label>
+                {/* Pago/Parcial são derivados dos recebimentos lançados */}
                 <Select
                   value={selectedInstallment.status}
-                  onValueChange={(value: "pending" | "paid" | "overdue") =>
+                  onValueChange={(value: "pending" | "overdue") =>
                     setSelectedInstallment({ ...selectedInstallment, status: value })
                   }
+                  disabled={["paid", "partial"].includes(selectedInstallment.status)}
                 >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="pending">Pendente</SelectItem>
-                    <SelectItem value="paid">Pago</SelectItem>
+                    <SelectItem value="partial" disabled>Parcial</SelectItem>
+                    <SelectItem value="paid" disabled>Pago</SelectItem>
                     <SelectItem value="overdue">Atrasado</SelectItem>
                   </SelectContent>
                 </Select>
@@ -839,44 +812,14 @@ const OrderView = () => {
         </DialogContent>
       </Dialog>
 
-      <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Lançar Pagamento</DialogTitle>
-          </DialogHeader>
-          {selectedInstallment && (
-            <form onSubmit={handleLaunchPayment} className="space-y-4">
-              <div>
-                <Label>Data de Pagamento</Label>
-                <Input
-                  type="date"
-                  value={paymentDateInput}
-                  onChange={(e) => setPaymentDateInput(e.target.value)}
-                />
-              </div>
-              <div>
-                <Label>Método de Pagamento</Label>
-                <Select
-                  value={paymentMethodInput}
-                  onValueChange={(value) => setPaymentMethodInput(value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Selecione o método" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {PAYMENT_METHODS.map((method) => (
-                      <SelectItem key={method.value} value={method.value}>
-                        {method.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-              <Button type="submit" className="w-full">Salvar</Button>
-            </form>
-          )}
-        </DialogContent>
-      </Dialog>
+      <InstallmentPaymentDialog
+        open={isPaymentDialogOpen}
+        onOpenChange={setIsPaymentDialogOpen}
+        installment={selectedInstallment}
+        lateFeeSettings={lateFeeSettings}
+        canEdit={role !== "viewer"}
+        onChanged={() => loadPaymentData(order.id)}
+      />
     </div>
   );
 };
@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, CalendarDays, Download, Mail, MapPin, Printer, Users, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { downloadBlob, loadImageAsDataUrl, saveOrderDocument, slugifyFileName } from "@/lib/documents";
+import {
+  createVoucherPdf,
+  emailVoucher,
+  formatPassengerDocument,
+  formatVoucherDate,
+  getBrandColor,
+  getVoucherQrDataUrl,
+  loadVoucherData,
+  type VoucherData,
+} from "@/lib/vouchers";
+import { formatPhone } from "@/lib/utils";
+
+/**
+ * Voucher de viagem do pedido confirmado, pronto para impressão, download em PDF e envio por email.
+ * Fica fora do layout principal para que a impressão saia apenas com o voucher.
+ *
+ * EN: Travel voucher for a confirmed order, ready to print, download as PDF or email.
+ * Rendered outside the main layout so printing only outputs the voucher.
+ */
+export default function OrderVoucher() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { role } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const [loading, setLoading] = useState(true);
+  const [voucher, setVoucher] = useState<VoucherData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"pdf" | "email" | null>(null);
+
+  useEffect(() => {
+    loadVoucher();
+  }, [id]);
+
+  const loadVoucher = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+    if (!id) return;
+
+    const { data, error } = await loadVoucherData(id);
+    if (error || !data) {
+      setLoadError(error || "Erro ao carregar voucher");
+    } else {
+      setVoucher(data);
+      setQrDataUrl(await getVoucherQrDataUrl(data.order.order_number));
+    }
+    setLoading(false);
+  };
+
+  /**
+   * Gera o PDF e o registra nos documentos do pedido.
+   * EN: Builds the PDF and stores it among the order documents.
+   */
+  const generateVoucher = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !voucher || !qrDataUrl) return null;
+
+    const blob = createVoucherPdf(voucher, {
+      qrDataUrl,
+      logoDataUrl: await loadImageAsDataUrl(voucher.organization.logo_url),
+    });
+    const fileName = `${slugifyFileName(`voucher ${voucher.order.order_number} ${voucher.customer.full_name}`)}.pdf`;
+    const { document, error } = await saveOrderDocument({
+      orderId: voucher.order.id,
+      organizationId: voucher.order.organization_id,
+      userId: user.id,
+      documentType: "voucher",
+      fileName,
+      blob,
+    });
+
+    if (error || !document) {
+      toast.error("Erro ao salvar voucher");
+      return null;
+    }
+    return { document, blob, fileName };
+  };
+
+  const handleDownload = async () => {
+    setBusy("pdf");
+    try {
+      const generated = await generateVoucher();
+      if (!generated) return;
+      toast.success("Voucher gerado!");
+      downloadBlob(generated.blob, generated.fileName);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmail = async () => {
+    setBusy("email");
+    try {
+      const generated = await generateVoucher();
+      if (!generated) return;
+      const { error } = await emailVoucher(generated.document.id);
+      if (error) {
+        toast.error("Erro ao enviar voucher por email");
+        return;
+      }
+      toast.success(`Voucher enviado para ${voucher?.customer.email}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Carregando voucher...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!voucher) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <div className="w-12 h-12 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <XCircle className="w-6 h-6 text-destructive" />
+            </div>
+            <CardTitle className="text-center">Voucher indisponível</CardTitle>
+            <CardDescription className="text-center">{loadError}</CardDescription>
+            <Button variant="outline" className="mt-4" onClick={() => navigate(`/orders/${id}`)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Voltar ao pedido
+            </Button>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { order, customer, organization, passengers } = voucher;
+  const brandColor = getBrandColor(organization);
+
+  return (
+    <div className="min-h-screen bg-muted/40 py-8 px-4 print:bg-white print:p-0">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 print:hidden">
+          <Button variant="ghost" onClick={() => navigate(`/orders/${order.id}`)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar
+          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" />
+              Imprimir
+            </Button>
+            {canEdit && (
+              <>
+                <Button variant="outline" size="sm" onClick={handleDownload} disabled={busy !== null}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {busy === "pdf" ? "Gerando..." : "Baixar PDF"}
+                </Button>
+                <Button size="sm" onClick={handleEmail} disabled={busy !== null || !customer.email}>
+                  <Mail className="h-4 w-4 mr-2" />
+                  {busy === "email" ? "Enviando..." : "Enviar por email"}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white text-slate-900 rounded-lg shadow-sm overflow-hidden print:shadow-none print:rounded-none">
+          <div className="flex items-center justify-between gap-4 px-8 py-5 text-white" style={{ backgroundColor: brandColor }}>
+            {organization.logo_url ? (
+              <img src={organization.logo_url} alt={organization.name} className="h-14 w-14 rounded bg-white object-contain" />
+            ) : (
+              <span />
+            )}
+            <div className="text-right">
+              <p className="text-xl font-bold">{organization.name}</p>
+              <p className="text-sm opacity-90">
+                {[organization.email, organization.phone ? formatPhone(organization.phone) : null].filter(Boolean).join(" · ")}
+              </p>
+            </div>
+          </div>
+
+          <div className="p-8 space-y-6">
+            <div className="flex items-start justify-between gap-6">
+              <div>
+                <h1 className="text-2xl font-bold tracking-wide">VOUCHER DE VIAGEM</h1>
+                <p className="text-lg font-semibold" style={{ color: brandColor }}>Pedido {order.order_number}</p>
+                <p className="text-sm text-slate-500 mt-1">Titular: {customer.full_name}</p>
+              </div>
+              {qrDataUrl && (
+                <div className="text-center shrink-0">
+                  <img src={qrDataUrl} alt={`QR code do pedido ${order.order_number}`} className="h-32 w-32" />
+                  <p className="text-xs text-slate-500">Apresente no check-in</p>
+                </div>
+              )}
+            </div>
+
+            <div className="grid sm:grid-cols-3 gap-4 text-sm border-y py-4">
+              <div className="flex items-start gap-2">
+                <MapPin className="w-4 h-4 mt-0.5 text-slate-500" />
+                <div>
+                  <p className="font-semibold">{voucher.package.name}</p>
+                  <p className="text-slate-500">{voucher.package.destination}</p>
+                </div>
+              </div>
+              <div className="flex items-start gap-2">
+                <CalendarDays className="w-4 h-4 mt-0.5 text-slate-500" />
+                <div>
+                  <p className="font-semibold">Ida {formatVoucherDate(voucher.travelDate)}</p>
+                  <p className="text-slate-500">Volta {formatVoucherDate(voucher.returnDate)}</p>
+                </div>
+              </div>
+              <div className="flex items-start gap-2">
+                <Users className="w-4 h-4 mt-0.5 text-slate-500" />
+                <p className="font-semibold">
+                  {order.number_of_travelers ?? passengers.length}{" "}
+                  {(order.number_of_travelers ?? passengers.length) === 1 ? "viajante" : "viajantes"}
+                </p>
+              </div>
+            </div>
+
+            {voucher.package.description && (
+              <div>
+                <h2 className="font-semibold mb-1">Descrição do pacote</h2>
+                <p className="text-sm text-slate-600 whitespace-pre-line">{voucher.package.description}</p>
+              </div>
+            )}
+
+            <div>
+              <h2 className="font-semibold mb-2">Passageiros</h2>
+              {passengers.length === 0 ? (
+                <p className="text-sm text-slate-500">Passageiros a informar.</p>
+              ) : (
+                <ol className="text-sm space-y-1 list-decimal list-inside">
+                  {passengers.map((passenger) => (
+                    <li key={passenger.id}>
+                      {passenger.full_name}
+                      {formatPassengerDocument(passenger) && (
+                        <span className="text-slate-500"> — {formatPassengerDocument(passenger)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            {order.special_requests && (
+              <div>
+                <h2 className="font-semibold mb-1">Observações</h2>
+                <p className="text-sm text-slate-600 whitespace-pre-line">{order.special_requests}</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -25,6 +25,56 @@ import {
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useOrganization } from "@/hooks/useOrganization";
 import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { getOverbookingMessage } from "@/lib/packages";
+import { ORDER_STATUS_OPTIONS, type OrderStatus } from "@/lib/constants";
+import { changeOrderStatus, getStatusTransitionBlocker, getStatusTransitionMessage } from "@/lib/orders";
+import { ExportButton } from "@/components/exports/ExportButton";
+import type { ExportColumn } from "@/lib/exports";
+import type { Tables } from "@/integrations/supabase/types";
+
+type OrderExportRow = Tables<"orders"> & {
+  customers: { full_name: string } | null;
+  travel_packages: { name: string } | null;
+  payments: { status: string | null; installments: { status: string | null }[] | null }[] | null;
+};
+
+/**
+ * Situação do pagamento do pedido em texto, como no selo da tabela.
+ * EN: Order payment status as text, matching the table badge.
+ */
+const getPaymentStatusLabel = (order: OrderExportRow) => {
+  const payment = order.payments?.[0];
+  if (!payment) return "Sem pagamento";
+  const overdue = (payment.installments || []).some((i) => i.status === "overdue");
+  if (payment.status === "paid") return "Pago";
+  if (payment.status === "overdue" || overdue) return "Atrasado";
+  if (payment.status === "partial") return "Parcial";
+  return "Pendente";
+};
+
+const ORDER_EXPORT_COLUMNS: ExportColumn<OrderExportRow>[] = [
+  { key: "order_number", label: "Nº Pedido", value: (order) => order.order_number },
+  { key: "customer", label: "Cliente", value: (order) => order.customers?.full_name },
+  { key: "package", label: "Pacote", value: (order) => order.travel_packages?.name },
+  { key: "travel_date", label: "Data Viagem", type: "date", value: (order) => order.travel_date },
+  { key: "total_amount", label: "Valor Total", type: "currency", value: (order) => Number(order.total_amount) },
+  {
+    key: "status",
+    label: "Status",
+    value: (order) => ORDER_STATUS_OPTIONS.find((opt) => opt.value === order.status)?.label || order.status,
+  },
+  { key: "payment", label: "Pagamento", value: getPaymentStatusLabel },
+  {
+    key: "installments",
+    label: "Parcelas pagas",
+    optional: true,
+    value: (order) => {
+      const installments = order.payments?.[0]?.installments || [];
+      return installments.length ? `${installments.filter((i) => i.status === "paid").length}/${installments.length}` : "";
+    },
+  },
+  { key: "created_at", label: "Criado em", type: "datetime", optional: true, value: (order) => order.created_at },
+];
 
 /**
  * Página de listagem de pedidos com filtros e tabela.
@@ -43,7 +93,7 @@ const Orders = () => {
   console.log("canDelete", canDelete, { role, isOrgAdmin, isAgent });
   const [orders, setOrders] = useState<any[]>([]);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
-  const [bulkStatus, setBulkStatus] = useState<string>("");
+  const [bulkStatus, setBulkStatus] = useState<OrderStatus | "">("");
   const [updating, setUpdating] = useState<boolean>(false);
   const [filters, setFilters] = useState({
     search: "",
@@ -136,31 +186,23 @@ const Orders = () => {
     return <Badge variant={variants[status] || "secondary"}>{labels[status] || status}</Badge>;
   };
 
-  const ORDER_STATUS_OPTIONS = [
-    { value: "pending", label: "Pendente" },
-    { value: "confirmed", label: "Confirmado" },
-    { value: "completed", label: "Concluído" },
-    { value: "cancelled", label: "Cancelado" },
-  ] as const;
-
   /**
-   * Atualiza o status de um pedido individual no banco (Supabase) e no estado local.
-   * EN: Update a single order's status in Supabase and local state.
+   * Atualiza o status de um pedido individual respeitando o ciclo de vida (validado no banco)
+   * e registrando a mudança no histórico.
+   * EN: Update a single order's status following the lifecycle rules; the change is logged.
    */
-  const updateOrderStatus = async (orderId: string, status: string) => {
+  const updateOrderStatus = async (orderId: string, status: OrderStatus) => {
     if (!organizationId) {
       toast.error("Organização não encontrada");
       return;
     }
     setUpdating(true);
-    const { error } = await supabase
-      .from("orders")
-      .update({ status })
-      .eq("id", orderId)
-      .eq("organization_id", organizationId);
+    const { error } = await changeOrderStatus(orderId, status);
 
     if (error) {
-      toast.error("Falha ao atualizar status do pedido");
+      toast.error(
+        getStatusTransitionMessage(error) || getOverbookingMessage(error) || "Falha ao atualizar status do pedido"
+      );
     } else {
       setOrders((prev) => prev.map((o) => (o.id === orderId ? { ...o, status } : o)));
       toast.success("Status do pedido atualizado");
@@ -169,29 +211,46 @@ const Orders = () => {
   };
 
   /**
-   * Atualiza o status de todos os pedidos selecionados, com feedback e reload opcional.
-   * EN: Bulk-update status for selected orders with feedback and optional reload.
+   * Atualiza o status dos pedidos selecionados. Pedidos cuja transição não é permitida
+   * são ignorados e informados no feedback.
+   * EN: Bulk-update status for selected orders, skipping those whose transition is not allowed.
    */
-  const bulkUpdateSelectedOrdersStatus = async (status: string) => {
+  const bulkUpdateSelectedOrdersStatus = async (status: OrderStatus) => {
     if (selectedIds.length === 0) return;
     if (!organizationId) {
       toast.error("Organização não encontrada");
       return;
     }
     setUpdating(true);
-    const { error } = await supabase
-      .from("orders")
-      .update({ status })
-      .in("id", selectedIds)
-      .eq("organization_id", organizationId);
+    const selectedOrders = orders.filter((o) => selectedIds.includes(o.id));
+    const updatedIds: string[] = [];
+    const failures: string[] = [];
+
+    for (const order of selectedOrders) {
+      if (order.status === status) continue;
+      const blocker = getStatusTransitionBlocker(order, status);
+      if (blocker) {
+        failures.push(`${order.order_number}: ${blocker}`);
+        continue;
+      }
+      const { error } = await changeOrderStatus(order.id, status);
+      if (error) {
+        failures.push(
+          `${order.order_number}: ${getStatusTransitionMessage(error) || getOverbookingMessage(error) || "falha ao atualizar"}`
+        );
+      } else {
+        updatedIds.push(order.id);
+      }
+    }
 
-    if (error) {
-      toast.error("Falha ao aplicar status nos selecionados");
-    } else {
-      setOrders((prev) => prev.map((o) => (selectedIds.includes(o.id) ? { ...o, status } : o)));
-      toast.success("Status aplicado aos pedidos selecionados");
-      setSelectedIds([]);
+    setOrders((prev) => prev.map((o) => (updatedIds.includes(o.id) ? { ...o, status } : o)));
+    if (failures.length > 0) {
+      toast.error(`${failures.length} pedido(s) não atualizado(s)`, { description: failures.join(" · ") });
     }
+    if (updatedIds.length > 0) {
+      toast.success(`Status aplicado a ${updatedIds.length} pedido(s)`);
+    }
+    setSelectedIds([]);
     setUpdating(false);
   };
 
@@ -370,6 +429,15 @@ const Orders = () => {
           activeFiltersCount={activeFiltersCount}
           resultsCount={filteredOrders.length}
           totalCount={orders.length}
+          actions={
+            <ExportButton
+              organizationId={organizationId}
+              title="Pedidos"
+              fileName="pedidos"
+              columns={ORDER_EXPORT_COLUMNS}
+              rows={filteredOrders}
+            />
+          }
           gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
         >
           <div className="lg:col-span-4 space-y-2">
@@ -426,7 +494,7 @@ const Orders = () => {
             {/* Área de gerenciamento de status em lote */}
             <div className="mb-4 flex flex-wrap items-center gap-3">
               <Label className="text-sm">Gerenciar Status</Label>
-              <Select value={bulkStatus} onValueChange={(v) => setBulkStatus(v)}>
+              <Select value={bulkStatus} onValueChange={(v: OrderStatus) => setBulkStatus(v)}>
                 <SelectTrigger className="w-48">
                   <SelectValue placeholder="Selecionar novo status" />
                 </SelectTrigger>
@@ -439,7 +507,7 @@ const Orders = () => {
               <Button
                 variant="secondary"
                 disabled={selectedIds.length === 0 || !bulkStatus || updating}
-                onClick={() => bulkUpdateSelectedOrdersStatus(bulkStatus)}
+                onClick={() => bulkStatus && bulkUpdateSelectedOrdersStatus(bulkStatus)}
               >
                 Aplicar aos selecionados ({selectedIds.length})
               </Button>
@@ -493,13 +561,24 @@ const Orders = () => {
                     <TableCell>
                       <div className="flex items-center gap-2">
                         {getStatusBadge(order.status)}
-                        <Select value={order.status} onValueChange={(v) => updateOrderStatus(order.id, v)}>
+                        <Select
+                          value={order.status}
+                          onValueChange={(v: OrderStatus) => updateOrderStatus(order.id, v)}
+                          disabled={updating}
+                        >
                           <SelectTrigger className="w-36 h-8">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
+                            {/* Somente transições permitidas pelo ciclo de vida ficam habilitadas */}
                             {ORDER_STATUS_OPTIONS.map((opt) => (
-                              <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                              <SelectItem
+                                key={opt.value}
+                                value={opt.value}
+                                disabled={getStatusTransitionBlocker(order, opt.value) !== null}
+                              >
+                                {opt.label}
+                              </SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
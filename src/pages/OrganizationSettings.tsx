@@ -10,6 +10,18 @@ import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, Building2, UserPlus, Trash2, Shield, Eye, Crown, Pencil, X, Check, Save, Upload } from "lucide-react";
 import { toast } from "sonner";
 import { useOrganization } from "@/hooks/useOrganization";
+import { CnpjInput } from "@/components/ui/cnpj-input";
+import { organizationCnpjSchema } from "@/lib/validations";
+import { formatCnpj } from "@/lib/utils";
+import { OrderNumberingCard } from "@/components/organization/OrderNumberingCard";
+import { CancellationPolicyCard } from "@/components/organization/CancellationPolicyCard";
+import { ContractTemplatesCard } from "@/components/organization/ContractTemplatesCard";
+import { PixSettingsCard } from "@/components/organization/PixSettingsCard";
+import { BoletoSettingsCard } from "@/components/organization/BoletoSettingsCard";
+import { CommissionRulesCard } from "@/components/organization/CommissionRulesCard";
+import { LateFeeRulesCard } from "@/components/organization/LateFeeRulesCard";
+import { InstallmentSurchargeRulesCard } from "@/components/organization/InstallmentSurchargeRulesCard";
+import type { CnabLayout, CommissionBasis, LateInterestPeriod, PixKeyType } from "@/lib/constants";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -48,6 +60,26 @@ interface Organization {
   primary_color?: string;
   secondary_color?: string;
   tertiary_color?: string;
+  order_number_prefix?: string;
+  order_number_padding?: number;
+  order_number_yearly_reset?: boolean;
+  pix_key?: string | null;
+  pix_key_type?: PixKeyType | null;
+  pix_merchant_name?: string | null;
+  pix_merchant_city?: string | null;
+  late_fee_percent?: number;
+  late_interest_percent?: number;
+  late_interest_period?: LateInterestPeriod;
+  late_fee_grace_days?: number;
+  boleto_bank_code?: string | null;
+  boleto_agency?: string | null;
+  boleto_agency_digit?: string | null;
+  boleto_account?: string | null;
+  boleto_account_digit?: string | null;
+  boleto_wallet?: string | null;
+  boleto_agreement_code?: string | null;
+  boleto_cnab_layout?: CnabLayout | null;
+  commission_basis?: CommissionBasis;
 }
 
 interface Member {
@@ -121,7 +153,7 @@ export default function OrganizationSettings() {
       setEditForm({
         name: organization.name || "",
         email: organization.email || "",
-        cnpj: organization.cnpj || "",
+        cnpj: organization.cnpj ? formatCnpj(organization.cnpj) : "",
         primary_color: organization.primary_color || "#2563eb",
         secondary_color: organization.secondary_color || "#1e40af",
         tertiary_color: organization.tertiary_color || "#f59e0b",
@@ -227,6 +259,13 @@ export default function OrganizationSettings() {
 
   const handleSaveOrganization = async () => {
     if (!organizationId) return;
+
+    const cnpjResult = organizationCnpjSchema.safeParse(editForm.cnpj);
+    if (!cnpjResult.success) {
+      toast.error(cnpjResult.error.errors[0].message);
+      return;
+    }
+
     setEditLoading(true);
 
     try {
@@ -258,7 +297,7 @@ export default function OrganizationSettings() {
         .update({
           name: editForm.name,
           email: editForm.email,
-          cnpj: editForm.cnpj || null,
+          cnpj: cnpjResult.data || null,
           logo_url: logoUrl,
           primary_color: editForm.primary_color,
           secondary_color: editForm.secondary_color,
@@ -476,11 +515,10 @@ export default function OrganizationSettings() {
               </div>
               <div>
                 <Label>CNPJ</Label>
-                <Input 
-                  value={isEditing ? editForm.cnpj : (organization.cnpj || "")} 
+                <CnpjInput
+                  value={isEditing ? editForm.cnpj : (organization.cnpj ? formatCnpj(organization.cnpj) : "")}
                   onChange={(e) => setEditForm({ ...editForm, cnpj: e.target.value })}
-                  disabled={!isEditing || editLoading} 
-                  placeholder="00.000.000/0000-00"
+                  disabled={!isEditing || editLoading}
                 />
               </div>
               <div>
@@ -585,6 +623,55 @@ export default function OrganizationSettings() {
           </CardContent>
         </Card>
 
+        {/* Numeração de Pedidos */}
+        <OrderNumberingCard
+          organizationId={organization.id}
+          settings={organization}
+          canEdit={isAdmin}
+          onSaved={loadOrganization}
+        />
+
+        {/* Recebimento via PIX */}
+        <PixSettingsCard
+          organizationId={organization.id}
+          settings={organization}
+          canEdit={isAdmin}
+          onSaved={loadOrganization}
+        />
+
+        {/* Cobrança via Boleto (CNAB) */}
+        <BoletoSettingsCard
+          organizationId={organization.id}
+          settings={organization}
+          canEdit={isAdmin}
+          onSaved={loadOrganization}
+        />
+
+        {/* Multa e Juros por Atraso */}
+        <LateFeeRulesCard
+          organizationId={organization.id}
+          settings={organization}
+          canEdit={isAdmin}
+          onSaved={loadOrganization}
+        />
+
+        {/* Acréscimos do Parcelamento */}
+        <InstallmentSurchargeRulesCard organizationId={organization.id} canEdit={isAdmin} />
+
+        {/* Comissões dos Agentes */}
+        <CommissionRulesCard
+          organizationId={organization.id}
+          settings={organization}
+          canEdit={isAdmin}
+          onSaved={loadOrganization}
+        />
+
+        {/* Política de Cancelamento */}
+        <CancellationPolicyCard organizationId={organization.id} canEdit={isAdmin} />
+
+        {/* Modelos de Contrato */}
+        <ContractTemplatesCard organizationId={organization.id} canEdit={isAdmin} />
+
         {/* Membros da Equipe */}
         <Card>
           <CardHeader>
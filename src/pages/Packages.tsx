@@ -8,15 +8,27 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { ArrowLeft, Plus, Plane, MoreVertical, Pencil, Trash2 } from "lucide-react";
+import { ArrowLeft, Plus, Plane, MoreVertical, Pencil, Trash2, CalendarDays } from "lucide-react";
 import { toast } from "sonner";
 import { packageSchema } from "@/lib/validations";
 import { z } from "zod";
 import { useOrganization } from "@/hooks/useOrganization";
 import PackageEditDialog from "@/components/packages/PackageEditDialog";
 import PackageDeleteDialog from "@/components/packages/PackageDeleteDialog";
+import PackageDeparturesDialog from "@/components/packages/PackageDeparturesDialog";
 import { CurrencyInput } from "@/components/ui/currency-input";
 import { cleanCurrency } from "@/lib/utils";
+import type { Tables } from "@/integrations/supabase/types";
+import { departureRemainingSpots, formatRemainingSpots } from "@/lib/packages";
+import { format } from "date-fns";
+
+interface UpcomingDeparture {
+  id: string;
+  departure_date: string;
+  capacity: number;
+  reserved_spots: number;
+  status: string;
+}
 
 const Packages = () => {
   const navigate = useNavigate();
@@ -26,6 +38,7 @@ const Packages = () => {
   const [loading, setLoading] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [departuresDialogOpen, setDeparturesDialogOpen] = useState(false);
   const [selectedPackage, setSelectedPackage] = useState<any | null>(null);
   const [formData, setFormData] = useState({
     name: "",
@@ -56,7 +69,7 @@ const Packages = () => {
 
     const { data, error } = await supabase
       .from("travel_packages")
-      .select("*")
+      .select("*, package_departures(id, departure_date, capacity, reserved_spots, status)")
       .eq("organization_id", organizationId)
       .order("created_at", { ascending: false });
 
@@ -146,6 +159,22 @@ const Packages = () => {
     setDeleteDialogOpen(true);
   };
 
+  const handleDeparturesClick = (pkg: Tables<"travel_packages">) => {
+    setSelectedPackage(pkg);
+    setDeparturesDialogOpen(true);
+  };
+
+  /**
+   * Próximas saídas abertas do pacote (a partir de hoje), em ordem de data.
+   * EN: Upcoming open departures of the package (from today), sorted by date.
+   */
+  const getUpcomingDepartures = (pkg: { package_departures?: UpcomingDeparture[] }) => {
+    const today = format(new Date(), "yyyy-MM-dd");
+    return (pkg.package_departures || [])
+      .filter((d) => d.status === "open" && d.departure_date >= today)
+      .sort((a, b) => a.departure_date.localeCompare(b.departure_date));
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
       <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
@@ -266,6 +295,10 @@ const Packages = () => {
                       <Pencil className="mr-2 h-4 w-4" />
                       Editar
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleDeparturesClick(pkg)}>
+                      <CalendarDays className="mr-2 h-4 w-4" />
+                      Saídas
+                    </DropdownMenuItem>
                     <DropdownMenuItem 
                       onClick={() => handleDeleteClick(pkg)}
                       className="text-destructive"
@@ -286,9 +319,29 @@ const Packages = () => {
                     {pkg.duration_days} dias
                   </span>
                 </div>
-                <div className="text-sm text-muted-foreground">
-                  {pkg.available_spots} vagas disponíveis
+                <div className={pkg.available_spots === 0 ? "text-sm text-destructive font-medium" : "text-sm text-muted-foreground"}>
+                  {pkg.available_spots === 0
+                    ? formatRemainingSpots(pkg.available_spots)
+                    : `${formatRemainingSpots(pkg.available_spots)} disponíveis`}
                 </div>
+                {(() => {
+                  const upcoming = getUpcomingDepartures(pkg);
+                  if (upcoming.length === 0) return null;
+                  const next = upcoming[0];
+                  return (
+                    <button
+                      type="button"
+                      className="text-sm text-left text-primary hover:underline flex items-center gap-1"
+                      onClick={() => handleDeparturesClick(pkg)}
+                    >
+                      <CalendarDays className="h-3 w-3" />
+                      Próxima saída {format(new Date(next.departure_date + "T00:00:00"), "dd/MM/yyyy")}
+                      {" · "}
+                      {formatRemainingSpots(departureRemainingSpots(next))}
+                      {upcoming.length > 1 && ` (+${upcoming.length - 1} datas)`}
+                    </button>
+                  );
+                })()}
               </CardContent>
             </Card>
           ))}
@@ -313,6 +366,12 @@ const Packages = () => {
               onOpenChange={setDeleteDialogOpen}
               onPackageDeleted={loadPackages}
             />
+            <PackageDeparturesDialog
+              package={selectedPackage}
+              open={departuresDialogOpen}
+              onOpenChange={setDeparturesDialogOpen}
+              onDeparturesChanged={loadPackages}
+            />
           </>
         )}
       </main>
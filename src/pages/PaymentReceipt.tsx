@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Download, Mail, Printer, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { downloadBlob, loadImageAsDataUrl, saveOrderDocument, slugifyFileName } from "@/lib/documents";
+import {
+  createReceiptPdf,
+  emailReceipt,
+  getReceiptPlaceAndDate,
+  getReceiptStatement,
+  loadReceiptData,
+  type ReceiptData,
+} from "@/lib/receipts";
+import { getBrandColor } from "@/lib/vouchers";
+import { formatCnpj, formatCurrency, formatPhone } from "@/lib/utils";
+
+/**
+ * Recibo de um recebimento de parcela, pronto para impressão, download em PDF e envio por email.
+ * Fica fora do layout principal para que a impressão saia apenas com o recibo.
+ *
+ * EN: Receipt for an installment payment, ready to print, download as PDF or email.
+ * Rendered outside the main layout so printing only outputs the receipt.
+ */
+export default function PaymentReceipt() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { role } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const [loading, setLoading] = useState(true);
+  const [data, setData] = useState<ReceiptData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<"pdf" | "email" | null>(null);
+
+  useEffect(() => {
+    loadReceipt();
+  }, [id]);
+
+  const loadReceipt = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+    if (!id) return;
+
+    const { data, error } = await loadReceiptData(id);
+    if (error || !data) {
+      setLoadError(error || "Erro ao carregar recibo");
+    } else {
+      setData(data);
+    }
+    setLoading(false);
+  };
+
+  /**
+   * Gera o PDF e o registra nos documentos do pedido.
+   * EN: Builds the PDF and stores it among the order documents.
+   */
+  const generateReceipt = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !data) return null;
+
+    const blob = createReceiptPdf(data, {
+      logoDataUrl: await loadImageAsDataUrl(data.organization.logo_url),
+    });
+    const fileName = `${slugifyFileName(`recibo ${data.receipt.receipt_number} ${data.receipt.payer_name}`)}.pdf`;
+    const { document, error } = await saveOrderDocument({
+      orderId: data.order.id,
+      organizationId: data.receipt.organization_id,
+      userId: user.id,
+      documentType: "receipt",
+      fileName,
+      blob,
+    });
+
+    if (error || !document) {
+      toast.error("Erro ao salvar recibo");
+      return null;
+    }
+    return { document, blob, fileName };
+  };
+
+  const handleDownload = async () => {
+    setBusy("pdf");
+    try {
+      const generated = await generateReceipt();
+      if (!generated) return;
+      toast.success("Recibo gerado!");
+      downloadBlob(generated.blob, generated.fileName);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmail = async () => {
+    if (!data) return;
+    setBusy("email");
+    try {
+      const generated = await generateReceipt();
+      if (!generated) return;
+      const { error } = await emailReceipt(data.receipt.id, generated.document.id);
+      if (error) {
+        toast.error("Erro ao enviar recibo por email");
+        return;
+      }
+      toast.success(`Recibo enviado para ${data.customerEmail}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Carregando recibo...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <div className="w-12 h-12 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <XCircle className="w-6 h-6 text-destructive" />
+            </div>
+            <CardTitle className="text-center">Recibo indisponível</CardTitle>
+            <CardDescription className="text-center">{loadError}</CardDescription>
+            <Button variant="outline" className="mt-4" onClick={() => navigate(-1)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Voltar
+            </Button>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { receipt, organization, order } = data;
+  const brandColor = getBrandColor(organization);
+  const hasCharges = Number(receipt.late_fee_amount) > 0 || Number(receipt.interest_amount) > 0;
+
+  return (
+    <div className="min-h-screen bg-muted/40 py-8 px-4 print:bg-white print:p-0">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 print:hidden">
+          <Button variant="ghost" onClick={() => navigate(`/orders/${order.id}`)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Voltar ao pedido
+          </Button>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => window.print()}>
+              <Printer className="h-4 w-4 mr-2" />
+              Imprimir
+            </Button>
+            {canEdit && (
+              <>
+                <Button variant="outline" size="sm" onClick={handleDownload} disabled={busy !== null}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {busy === "pdf" ? "Gerando..." : "Baixar PDF"}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleEmail}
+                  disabled={busy !== null || !data.customerEmail || !!receipt.cancelled_at}
+                >
+                  <Mail className="h-4 w-4 mr-2" />
+                  {busy === "email" ? "Enviando..." : "Enviar por email"}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white text-slate-900 rounded-lg shadow-sm overflow-hidden print:shadow-none print:rounded-none">
+          <div className="flex items-center justify-between gap-4 px-8 py-5 text-white" style={{ backgroundColor: brandColor }}>
+            {organization.logo_url ? (
+              <img src={organization.logo_url} alt={organization.name} className="h-14 w-14 rounded bg-white object-contain" />
+            ) : (
+              <span />
+            )}
+            <div className="text-right">
+              <p className="text-xl font-bold">{organization.name}</p>
+              <p className="text-sm opacity-90">
+                {[organization.email, organization.phone ? formatPhone(organization.phone) : null].filter(Boolean).join(" · ")}
+              </p>
+            </div>
+          </div>
+
+          <div className="p-8 space-y-6">
+            <div className="flex items-start justify-between gap-6">
+              <div>
+                <h1 className="text-2xl font-bold tracking-wide">RECIBO</h1>
+                <p className="text-lg font-semibold" style={{ color: brandColor }}>Nº {receipt.receipt_number}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold" style={{ color: brandColor }}>{formatCurrency(Number(receipt.amount))}</p>
+                {receipt.cancelled_at && (
+                  <Badge variant="destructive" className="mt-1">Cancelado (recebimento estornado)</Badge>
+                )}
+              </div>
+            </div>
+
+            <p className="text-base leading-relaxed">{getReceiptStatement(receipt)}</p>
+
+            {hasCharges && (
+              <div className="text-sm max-w-xs space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-slate-500">Valor da parcela</span>
+                  <span>{formatCurrency(Number(receipt.principal_amount))}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-500">Multa</span>
+                  <span>{formatCurrency(Number(receipt.late_fee_amount))}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-500">Juros</span>
+                  <span>{formatCurrency(Number(receipt.interest_amount))}</span>
+                </div>
+                <div className="flex justify-between border-t pt-1 font-semibold">
+                  <span>Total recebido</span>
+                  <span>{formatCurrency(Number(receipt.amount))}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-between gap-2 text-sm text-slate-600">
+              <span>Pedido {order.order_number}</span>
+              <span>{getReceiptPlaceAndDate(receipt, organization)}</span>
+            </div>
+
+            <div className="pt-12 flex flex-col items-center text-sm">
+              <div className="w-72 border-t border-slate-900" />
+              <p className="font-semibold mt-1">{organization.legal_name || organization.name}</p>
+              {organization.cnpj && <p className="text-slate-500">CNPJ {formatCnpj(organization.cnpj)}</p>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, DollarSign, CreditCard, Edit, AlertCircle, CalendarDays, Search } from "lucide-react";
+import { ArrowLeft, DollarSign, CreditCard, Edit, AlertCircle, CalendarDays, QrCode, Search, Landmark, Barcode, Wallet } from "lucide-react";
 import { toast } from "sonner";
 import { FilterBar } from "@/components/filters/FilterBar";
 import { SearchInput } from "@/components/filters/SearchInput";
@@ -18,6 +18,28 @@ import { StatusFilter } from "@/components/filters/StatusFilter";
 import { ValueRangeFilter } from "@/components/filters/ValueRangeFilter";
 import { useOrganization } from "@/hooks/useOrganization";
 import { PAYMENT_METHODS } from "@/lib/constants";
+import { InstallmentPixDialog } from "@/components/payments/InstallmentPixDialog";
+import { InstallmentPaymentDialog } from "@/components/payments/InstallmentPaymentDialog";
+import { InstallmentPlanBuilder } from "@/components/payments/InstallmentPlanBuilder";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { calculateLateCharges, loadLateFeeSettings, todayDateOnly, type LateFeeSettings } from "@/lib/lateFees";
+import { getInstallmentBalance } from "@/lib/installmentPayments";
+import { distributeEvenly } from "@/lib/installmentPlans";
+import { ExportButton } from "@/components/exports/ExportButton";
+import type { ExportColumn } from "@/lib/exports";
+import type { Tables } from "@/integrations/supabase/types";
+
+type PaymentExportRow = Tables<"payments"> & {
+  orders: { order_number: string; customers: { full_name: string } | null } | null;
+};
+
+const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  pending: "Pendente",
+  partial: "Parcial",
+  paid: "Pago",
+  overdue: "Atrasado",
+  cancelled: "Cancelado",
+};
 
 /**
  * Página Contas a Receber com filtros padronizados e grade 12-colunas.
@@ -26,10 +48,9 @@ import { PAYMENT_METHODS } from "@/lib/constants";
 const Payments = () => {
   const navigate = useNavigate();
   const { organizationId } = useOrganization();
+  const { role } = useOrganizationRole();
   const [payments, setPayments] = useState<any[]>([]);
   const [installments, setInstallments] = useState<Record<string, any[]>>({});
-  const [selectedPayment, setSelectedPayment] = useState<any>(null);
-  const [isAddInstallmentOpen, setIsAddInstallmentOpen] = useState(false);
   const [isEditInstallmentOpen, setIsEditInstallmentOpen] = useState(false);
   const [selectedInstallment, setSelectedInstallment] = useState<any>(null);
   const [isEditPaymentDateOpen, setIsEditPaymentDateOpen] = useState(false);
@@ -38,9 +59,7 @@ const Payments = () => {
   const [dueDateOnly, setDueDateOnly] = useState<string>("");
   // Dialog de lançamento de pagamento (igual ao OrderView)
   const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
-  const [paymentDateInput, setPaymentDateInput] = useState<string>("");
-  const [paymentMethodInput, setPaymentMethodInput] = useState<string>("");
-  const [installmentCount, setInstallmentCount] = useState("1");
+  const [lateFeeSettings, setLateFeeSettings] = useState<LateFeeSettings | null>(null);
   const [expandedPayments, setExpandedPayments] = useState<Set<string>>(new Set());
   const [filters, setFilters] = useState({
     search: "",
@@ -80,23 +99,10 @@ const Payments = () => {
     return { display, value: numeric };
   };
 
-  /**
-   * Redistribui um valor total igualmente entre N parcelas com precisão de 2 casas.
-   * EN: Evenly distributes a total amount across N installments with 2-decimal precision.
-   * Garante que a soma final seja exatamente igual ao total, espalhando os centavos restantes.
-   */
-  const distributeEvenly = (total: number, n: number): number[] => {
-    if (n <= 0) return [];
-    const cents = Math.round(total * 100);
-    const base = Math.floor(cents / n);
-    const remainder = cents - base * n; // número de parcelas que recebem +0.01
-    const result: number[] = Array.from({ length: n }, (_, i) => (base + (i < remainder ? 1 : 0)) / 100);
-    return result;
-  };
-
   useEffect(() => {
     if (organizationId) {
       loadPayments();
+      loadLateFeeSettings(organizationId).then(setLateFeeSettings);
     }
   }, [organizationId]);
 
@@ -106,6 +112,17 @@ const Payments = () => {
     });
   }, [payments]);
 
+  /**
+   * Saldo atualizado (com multa e juros) de uma parcela vencida em aberto; null quando não há encargos.
+   * EN: Updated balance (with late fee and interest) of an open overdue installment; null when none.
+   */
+  const getUpdatedAmount = (installment: { status: string; due_date: string; amount: number; paid_amount?: number }): number | null => {
+    if (["paid", "cancelled"].includes(installment.status) || !installment.due_date || installment.due_date >= todayDateOnly()) return null;
+    const balance = getInstallmentBalance(installment);
+    const charges = calculateLateCharges(lateFeeSettings, { amount: balance, due_date: installment.due_date });
+    return charges.total > balance ? charges.total : null;
+  };
+
   const loadPayments = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) {
@@ -163,75 +180,6 @@ const Payments = () => {
     }
   };
 
-  /**
-   * handleLaunchPayment
-   *
-   * PT-BR: Lança pagamento para a parcela selecionada, definindo data, método
-   * e marcando o status como "paid". Atualiza o estado local e recalcula o
-   * status do pagamento principal (paid/partial).
-   * EN: Launches a payment for the selected installment, setting date, method
-   * and marking the status as "paid". Updates local state and recalculates the
-   * main payment status (paid/partial).
-   */
-  const handleLaunchPayment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedInstallment || !selectedPayment) return;
-
-    const effectiveDate = paymentDateInput || new Date().toISOString().split("T")[0];
-    const effectiveMethod = paymentMethodInput || selectedInstallment.payment_method || "cash";
-
-    const { error } = await supabase
-      .from("installments")
-      .update({
-        status: "paid",
-        payment_date: effectiveDate,
-        payment_method: effectiveMethod,
-      })
-      .eq("id", selectedInstallment.id);
-
-    if (error) {
-      toast.error("Erro ao lançar pagamento: " + error.message);
-      return;
-    }
-
-    // Atualiza estado local das parcelas do pagamento atual
-    setInstallments((prev) => {
-      const arr = prev[selectedPayment.id] || [];
-      const nextArr = arr.map((i) =>
-        i.id === selectedInstallment.id
-          ? { ...i, status: "paid", payment_date: effectiveDate, payment_method: effectiveMethod }
-          : i
-      );
-      return { ...prev, [selectedPayment.id]: nextArr };
-    });
-
-    // Recalcula e atualiza status do pagamento principal
-    const current = installments[selectedPayment.id] || [];
-    const updatedAll = current.map((i) =>
-      i.id === selectedInstallment.id
-        ? { ...i, status: "paid", payment_date: effectiveDate, payment_method: effectiveMethod }
-        : i
-    );
-    const allPaid = updatedAll.every((i) => i.status === "paid");
-    const newStatus = allPaid ? "paid" : "partial";
-
-    const { error: payErr } = await supabase
-      .from("payments")
-      .update({ status: newStatus })
-      .eq("id", selectedPayment.id);
-
-    if (payErr) {
-      toast.error("Pagamento lançado, mas falhou ao atualizar status geral: " + payErr.message);
-    } else {
-      setPayments((prev) => prev.map((p) => (p.id === selectedPayment.id ? { ...p, status: newStatus } : p)));
-    }
-
-    toast.success("Pagamento lançado com sucesso");
-    setIsPaymentDialogOpen(false);
-    setPaymentDateInput("");
-    setPaymentMethodInput("");
-  };
-
   /**
    * Atualiza o valor (amount) da parcela de forma inline com redistribuição.
    * EN: Inline amount update with redistribution across open installments.
@@ -256,11 +204,12 @@ const Payments = () => {
     const paymentObj = payments.find((p) => p.id === paymentId);
     if (!paymentObj) return;
 
+    // Parcelas pagas ou com pagamento parcial mantêm o valor
     const paidSum = paymentInstallments
-      .filter((i) => i.status === "paid")
+      .filter((i) => ["paid", "partial"].includes(i.status))
       .reduce((sum, i) => sum + Number(i.amount), 0);
 
-    const openOthers = paymentInstallments.filter((i) => i.status !== "paid" && i.id !== installmentId);
+    const openOthers = paymentInstallments.filter((i) => !["paid", "partial"].includes(i.status) && i.id !== installmentId);
     const remainingRaw = Number(paymentObj.amount) - paidSum - rounded;
     const remaining = Math.max(0, Math.round(remainingRaw * 100) / 100);
 
@@ -357,44 +306,6 @@ const Payments = () => {
     }
   };
 
-  const handleAddInstallments = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const count = parseInt(installmentCount);
-    const totalAmount = selectedPayment.amount;
-    const installmentAmount = totalAmount / count;
-
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session) return;
-
-    if (!organizationId) {
-      toast.error("Organização não encontrada");
-      return;
-    }
-
-    const installmentsToCreate = Array.from({ length: count }, (_, i) => ({
-      payment_id: selectedPayment.id,
-      installment_number: i + 1,
-      total_installments: count,
-      amount: installmentAmount,
-      due_date: new Date(new Date(selectedPayment.due_date).setMonth(new Date(selectedPayment.due_date).getMonth() + i)).toISOString().split('T')[0],
-      status: "pending" as const,
-      organization_id: organizationId,
-      created_by: session.user.id
-    }));
-
-    const { error } = await supabase.from("installments").insert(installmentsToCreate);
-
-    if (error) {
-      toast.error("Erro ao criar parcelamentos");
-      return;
-    }
-
-    toast.success("Parcelamentos criados com sucesso");
-    setIsAddInstallmentOpen(false);
-    loadInstallments(selectedPayment.id);
-    loadPayments();
-  };
-
   /**
    * Atualiza dados da parcela, incluindo data de vencimento.
    *
@@ -485,27 +396,20 @@ const Payments = () => {
       partial: "outline",
       paid: "default",
       overdue: "destructive",
+      cancelled: "outline",
     };
-    const labels: any = {
-      pending: "Pendente",
-      partial: "Parcial",
-      paid: "Pago",
-      overdue: "Atrasado",
-    };
-    return <Badge variant={variants[status] || "secondary"}>{labels[status] || status}</Badge>;
+    return <Badge variant={variants[status] || "secondary"}>{PAYMENT_STATUS_LABELS[status] || status}</Badge>;
   };
 
   const getTotalPaid = (paymentId: string) => {
     const paymentInstallments = installments[paymentId] || [];
-    return paymentInstallments
-      .filter(i => i.status === 'paid')
-      .reduce((sum, i) => sum + Number(i.amount), 0);
+    return paymentInstallments.reduce((sum, i) => sum + Number(i.paid_amount || 0), 0);
   };
 
   const getOverdueCount = (paymentId: string) => {
     const paymentInstallments = installments[paymentId] || [];
     return paymentInstallments.filter(i => 
-      (i.status === 'overdue' || (i.status === 'pending' && new Date(i.due_date) < new Date()))
+      (i.status === 'overdue' || (['pending', 'partial'].includes(i.status) && new Date(i.due_date) < new Date()))
     ).length;
   };
 
@@ -549,6 +453,33 @@ const Payments = () => {
     });
   }, [payments, filters, installments]);
 
+  // "Pago" e "Parcelas" vêm das parcelas carregadas na página
+  const exportColumns = useMemo<ExportColumn<PaymentExportRow>[]>(
+    () => [
+      { key: "order_number", label: "Pedido", value: (payment) => payment.orders?.order_number },
+      { key: "customer", label: "Cliente", value: (payment) => payment.orders?.customers?.full_name },
+      { key: "amount", label: "Valor Total", type: "currency", value: (payment) => Number(payment.amount) },
+      {
+        key: "paid",
+        label: "Pago",
+        type: "currency",
+        value: (payment) => (installments[payment.id] || []).reduce((sum, i) => sum + Number(i.paid_amount || 0), 0),
+      },
+      { key: "due_date", label: "Vencimento", type: "date", value: (payment) => payment.due_date },
+      { key: "status", label: "Status", value: (payment) => PAYMENT_STATUS_LABELS[payment.status] || payment.status },
+      {
+        key: "installments",
+        label: "Parcelas",
+        value: (payment) => {
+          const count = (installments[payment.id] || []).length;
+          return count > 0 ? `${count}x` : "À vista";
+        },
+      },
+      { key: "payment_method", label: "Forma de pagamento", optional: true, value: (payment) => payment.payment_method },
+    ],
+    [installments]
+  );
+
   const activeFiltersCount = Object.entries(filters).filter(
     ([key, value]) => value && value !== "all" && value !== ""
   ).length;
@@ -581,6 +512,20 @@ const Payments = () => {
               <p className="text-sm text-muted-foreground">Controle financeiro e inadimplência</p>
             </div>
           </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/payables")}>
+              <Wallet className="w-4 h-4 mr-2" />
+              Contas a Pagar
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/boletos")}>
+              <Barcode className="w-4 h-4 mr-2" />
+              Boletos (CNAB)
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/reconciliation")}>
+              <Landmark className="w-4 h-4 mr-2" />
+              Conciliação Bancária
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -588,6 +533,15 @@ const Payments = () => {
         <FilterBar
           onClear={clearFilters}
           activeFiltersCount={activeFiltersCount}
+          actions={
+            <ExportButton
+              organizationId={organizationId}
+              title="Contas a Receber"
+              fileName="contas-a-receber"
+              columns={exportColumns}
+              rows={filteredPayments}
+            />
+          }
           resultsCount={filteredPayments.length}
           totalCount={payments.length}
           gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
@@ -719,55 +673,21 @@ const Payments = () => {
                           )}
                         </TableCell>
                         <TableCell className="text-right">
-                          {!hasInstallments && (
-                            <Dialog open={isAddInstallmentOpen && selectedPayment?.id === payment.id} onOpenChange={(open) => {
-                              setIsAddInstallmentOpen(open);
-                              if (open) setSelectedPayment(payment);
-                            }}>
-                              <DialogTrigger asChild>
+                          {!hasInstallments && role !== "viewer" && (
+                            <InstallmentPlanBuilder
+                              organizationId={organizationId}
+                              payment={payment}
+                              onCreated={() => {
+                                loadInstallments(payment.id);
+                                loadPayments();
+                              }}
+                              trigger={
                                 <Button variant="outline" size="sm" className="gap-2">
                                   <CreditCard className="w-4 h-4" />
                                   Parcelar
                                 </Button>
-                              </DialogTrigger>
-                              <DialogContent>
-                                <DialogHeader>
-                                  <DialogTitle>Criar Parcelamento</DialogTitle>
-                                  <DialogDescription>
-                                    Divida o pagamento em parcelas mensais
-                                  </DialogDescription>
-                                </DialogHeader>
-                                <form onSubmit={handleAddInstallments} className="space-y-4">
-                                  <div>
-                                    <Label>Valor Total</Label>
-                                    <p className="text-lg font-semibold">
-                                      R$ {Number(payment.amount).toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
-                                    </p>
-                                  </div>
-                                  <div>
-                                    <Label htmlFor="installment_count">Número de Parcelas</Label>
-                                    <Select value={installmentCount} onValueChange={setInstallmentCount}>
-                                      <SelectTrigger>
-                                        <SelectValue />
-                                      </SelectTrigger>
-                                      <SelectContent>
-                                        {Array.from({ length: 12 }, (_, i) => i + 1).map(num => (
-                                          <SelectItem key={num} value={num.toString()}>
-                                            {num}x de R$ {(Number(payment.amount) / num).toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
-                                          </SelectItem>
-                                        ))}
-                                      </SelectContent>
-                                    </Select>
-                                  </div>
-                                  <div className="flex gap-2 justify-end">
-                                    <Button type="button" variant="outline" onClick={() => setIsAddInstallmentOpen(false)}>
-                                      Cancelar
-                                    </Button>
-                                    <Button type="submit">Criar Parcelas</Button>
-                                  </div>
-                                </form>
-                              </DialogContent>
-                            </Dialog>
+                              }
+                            />
                           )}
                         </TableCell>
                       </TableRow>
@@ -778,7 +698,9 @@ const Payments = () => {
                             <div className="flex items-center gap-2">
                               <CreditCard className="w-4 h-4 text-muted-foreground" />
                               <span className="text-sm">
-                                Parcela {installment.installment_number}/{installment.total_installments}
+                                {installment.is_down_payment
+                                  ? "Entrada"
+                                  : `Parcela ${installment.installment_number}/${installment.total_installments}`}
                               </span>
                             </div>
                           </TableCell>
@@ -801,9 +723,30 @@ const Payments = () => {
                             />
                           </TableCell>
                           <TableCell>
-                            {installment.payment_date
-                              ? `R$ ${Number(installment.amount).toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`
-                              : "-"}
+                            {Number(installment.paid_amount || 0) > 0 ? (
+                              <div className="flex flex-col">
+                                <span>
+                                  R$ {(Number(installment.paid_amount) + Number(installment.late_fee_amount || 0) + Number(installment.interest_amount || 0)).toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
+                                </span>
+                                {installment.status === "partial" && (
+                                  <span className="text-xs text-muted-foreground">
+                                    saldo R$ {getInstallmentBalance(installment).toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
+                                  </span>
+                                )}
+                                {Number(installment.late_fee_amount || 0) + Number(installment.interest_amount || 0) > 0 && (
+                                  <span className="text-xs text-muted-foreground">inclui multa e juros</span>
+                                )}
+                              </div>
+                            ) : getUpdatedAmount(installment) !== null ? (
+                              <div className="flex flex-col">
+                                <span className="text-destructive font-medium">
+                                  R$ {getUpdatedAmount(installment)?.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}
+                                </span>
+                                <span className="text-xs text-muted-foreground">valor atualizado</span>
+                              </div>
+                            ) : (
+                              "-"
+                            )}
                           </TableCell>
                           <TableCell>
                             <Input
@@ -854,18 +797,21 @@ const Payments = () => {
                                   </div>
                                   <div>
                                     <Label>Status</Label>
+                                    {/* Pago/Parcial são derivados dos recebimentos lançados */}
                                     <Select
                                       value={selectedInstallment?.status ?? installment.status}
                                       onValueChange={(value) =>
                                         setSelectedInstallment({ ...selectedInstallment, status: value })
                                       }
+                                      disabled={["paid", "partial"].includes(selectedInstallment?.status ?? installment.status)}
                                     >
                                       <SelectTrigger>
                                         <SelectValue />
                                       </SelectTrigger>
                                       <SelectContent>
                                         <SelectItem value="pending">Pendente</SelectItem>
-                                        <SelectItem value="paid">Pago</SelectItem>
+                                        <SelectItem value="partial" disabled>Parcial</SelectItem>
+                                        <SelectItem value="paid" disabled>Pago</SelectItem>
                                         <SelectItem value="overdue">Atrasado</SelectItem>
                                       </SelectContent>
                                     </Select>
@@ -940,14 +886,24 @@ const Payments = () => {
                               title="Lançar pagamento"
                               onClick={() => {
                                 setSelectedInstallment(installment);
-                                setSelectedPayment(payment);
-                                setPaymentDateInput(installment.payment_date || new Date().toISOString().split("T")[0]);
-                                setPaymentMethodInput(installment.payment_method || "");
                                 setIsPaymentDialogOpen(true);
                               }}
                             >
                               <CreditCard className="w-4 h-4" />
                             </Button>
+                            {/* Cobrança PIX (copia e cola + QR code) */}
+                            {["pending", "overdue", "partial"].includes(installment.status) && (
+                              <InstallmentPixDialog
+                                organizationId={organizationId}
+                                orderNumber={payment.orders?.order_number || ""}
+                                installment={{ ...installment, amount: getInstallmentBalance(installment) }}
+                                trigger={
+                                  <Button variant="ghost" size="sm" title="Cobrar via PIX">
+                                    <QrCode className="w-4 h-4" />
+                                  </Button>
+                                }
+                              />
+                            )}
                           </TableCell>
                         </TableRow>
                       ))}
@@ -968,52 +924,17 @@ const Payments = () => {
           </CardContent>
         </Card>
         {/* Diálogo de Lançamento de Pagamento (padronizado com OrderView) */}
-        <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Lançar Pagamento</DialogTitle>
-              <DialogDescription>
-                Defina a data e o método de pagamento para a parcela selecionada.
-              </DialogDescription>
-            </DialogHeader>
-            {selectedInstallment && (
-              <form onSubmit={handleLaunchPayment} className="space-y-4">
-                <div>
-                  <Label>Data de Pagamento</Label>
-                  <Input
-                    type="date"
-                    value={paymentDateInput}
-                    onChange={(e) => setPaymentDateInput(e.target.value)}
-                  />
-                </div>
-                <div>
-                  <Label>Método de Pagamento</Label>
-                  <Select
-                    value={paymentMethodInput}
-                    onValueChange={(value) => setPaymentMethodInput(value)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione o método" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {PAYMENT_METHODS.map((method) => (
-                        <SelectItem key={method.value} value={method.value}>
-                          {method.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="flex gap-2 justify-end">
-                  <Button type="button" variant="outline" onClick={() => setIsPaymentDialogOpen(false)}>
-                    Cancelar
-                  </Button>
-                  <Button type="submit">Salvar</Button>
-                </div>
-              </form>
-            )}
-          </DialogContent>
-        </Dialog>
+        <InstallmentPaymentDialog
+          open={isPaymentDialogOpen}
+          onOpenChange={setIsPaymentDialogOpen}
+          installment={selectedInstallment}
+          lateFeeSettings={lateFeeSettings}
+          canEdit={role !== "viewer"}
+          onChanged={() => {
+            if (selectedInstallment?.payment_id) loadInstallments(selectedInstallment.payment_id);
+            loadPayments();
+          }}
+        />
       </main>
     </div>
   );
@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+import { addDays, format } from "date-fns";
+import { useOrganization } from "@/hooks/useOrganization";
+import { CustomerCombobox } from "@/components/orders/CustomerCombobox";
+import { QuickAddCustomer } from "@/components/orders/QuickAddCustomer";
+import { QuoteOptionsEditor } from "@/components/quotes/QuoteOptionsEditor";
+import { quoteSchema } from "@/lib/validations";
+import { emptyQuoteOption, quoteOptionFromRow, toQuoteOptionInsert, type QuoteOptionDraft } from "@/lib/quotes";
+
+type PackageWithDepartures = Tables<"travel_packages"> & { package_departures: Tables<"package_departures">[] };
+
+/**
+ * Formulário de orçamento (criação em /quotes/create e edição em /quotes/:id/edit).
+ * EN: Quote form (create at /quotes/create, edit at /quotes/:id/edit).
+ */
+const QuoteForm = () => {
+  const { id } = useParams();
+  const isEditing = !!id;
+  const navigate = useNavigate();
+  const { organizationId, loading: orgLoading } = useOrganization();
+  const [customers, setCustomers] = useState<Tables<"customers">[]>([]);
+  const [packages, setPackages] = useState<PackageWithDepartures[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [customerDialogOpen, setCustomerDialogOpen] = useState(false);
+
+  const [formData, setFormData] = useState({
+    customer_id: "",
+    valid_until: format(addDays(new Date(), 7), "yyyy-MM-dd"),
+    notes: "",
+  });
+  const [options, setOptions] = useState<QuoteOptionDraft[]>([emptyQuoteOption()]);
+  const [originalOptionIds, setOriginalOptionIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (organizationId) loadData();
+  }, [organizationId, id]);
+
+  const loadData = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    if (!organizationId) return;
+
+    const [customersRes, packagesRes] = await Promise.all([
+      supabase.from("customers").select("*").eq("organization_id", organizationId),
+      supabase.from("travel_packages").select("*, package_departures(*)").eq("organization_id", organizationId),
+    ]);
+
+    if (customersRes.error || packagesRes.error) {
+      toast.error("Erro ao carregar dados");
+      return;
+    }
+
+    setCustomers(customersRes.data || []);
+    setPackages(packagesRes.data || []);
+
+    if (!id) return;
+
+    const { data: quote, error } = await supabase
+      .from("quotes")
+      .select("*, quote_options(*)")
+      .eq("id", id)
+      .single();
+
+    if (error || !quote) {
+      toast.error("Orçamento não encontrado");
+      navigate("/quotes");
+      return;
+    }
+
+    if (quote.status === "converted") {
+      toast.error("Orçamentos convertidos em pedido não podem ser editados");
+      navigate(`/quotes/${id}`);
+      return;
+    }
+
+    const rows = [...(quote.quote_options || [])].sort((a, b) => a.position - b.position);
+    setFormData({
+      customer_id: quote.customer_id,
+      valid_until: quote.valid_until,
+      notes: quote.notes || "",
+    });
+    setOptions(rows.map(quoteOptionFromRow));
+    setOriginalOptionIds(rows.map((row) => row.id));
+  };
+
+  const handleCustomerCreated = (customerId: string) => {
+    loadData();
+    setFormData((prev) => ({ ...prev, customer_id: customerId }));
+    setCustomerDialogOpen(false);
+  };
+
+  /**
+   * Sincroniza as opções: remove as excluídas e faz upsert das demais (posição = ordem na tela).
+   * EN: Syncs options: deletes removed ones and upserts the rest (position = on-screen order).
+   */
+  const saveOptions = async (quoteId: string, userId: string) => {
+    const keptIds = options.map((o) => o.id).filter(Boolean);
+    const removedIds = originalOptionIds.filter((oid) => !keptIds.includes(oid));
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from("quote_options").delete().in("id", removedIds);
+      if (error) return error;
+    }
+
+    const { error } = await supabase
+      .from("quote_options")
+      .upsert(
+        options.map((o, index) => toQuoteOptionInsert(o, quoteId, organizationId!, userId, index)),
+        { defaultToNull: false }
+      );
+    return error;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!organizationId) {
+      if (orgLoading) {
+        toast.error("Aguarde o carregamento dos dados da organização");
+      } else {
+        toast.error("Organização não encontrada. Verifique suas permissões.");
+      }
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const validatedData = quoteSchema.parse({ ...formData, options });
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        toast.error("Usuário não autenticado");
+        return;
+      }
+
+      const quotePayload = {
+        customer_id: validatedData.customer_id,
+        valid_until: validatedData.valid_until,
+        notes: validatedData.notes ?? null,
+      };
+
+      let quoteId = id;
+      if (isEditing) {
+        const { error } = await supabase.from("quotes").update(quotePayload).eq("id", id);
+        if (error) {
+          toast.error("Erro ao atualizar orçamento");
+          return;
+        }
+      } else {
+        const { data: quote, error } = await supabase
+          .from("quotes")
+          .insert([{ ...quotePayload, organization_id: organizationId, created_by: session.user.id }])
+          .select()
+          .single();
+        if (error || !quote) {
+          toast.error("Erro ao criar orçamento");
+          return;
+        }
+        quoteId = quote.id;
+      }
+
+      const optionsError = await saveOptions(quoteId!, session.user.id);
+      if (optionsError) {
+        toast.error("Orçamento salvo, mas erro ao salvar opções");
+        navigate(`/quotes/${quoteId}`);
+        return;
+      }
+
+      toast.success(isEditing ? "Orçamento atualizado com sucesso!" : "Orçamento criado com sucesso!");
+      navigate(`/quotes/${quoteId}`);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("Erro ao validar dados");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backUrl = isEditing ? `/quotes/${id}` : "/quotes";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate(backUrl)}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <FileText className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold">{isEditing ? "Editar Orçamento" : "Novo Orçamento"}</h1>
+                <p className="text-sm text-muted-foreground">
+                  Monte uma ou mais opções de viagem para o cliente escolher
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>Informações do Orçamento</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Cliente */}
+              <CustomerCombobox
+                value={formData.customer_id}
+                onChange={(customerId) => setFormData((prev) => ({ ...prev, customer_id: customerId }))}
+                customers={customers}
+                onCreateNew={() => setCustomerDialogOpen(true)}
+              />
+
+              {/* Validade */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="valid_until">Válido até *</Label>
+                  <Input
+                    id="valid_until"
+                    type="date"
+                    value={formData.valid_until}
+                    onChange={(e) => setFormData({ ...formData, valid_until: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              {/* Opções */}
+              <QuoteOptionsEditor value={options} onChange={setOptions} packages={packages} />
+
+              {/* Observações */}
+              <div className="space-y-2">
+                <Label htmlFor="notes">Observações (opcional)</Label>
+                <Textarea
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  placeholder="Condições de pagamento, o que está incluso, etc."
+                  rows={3}
+                  maxLength={1000}
+                />
+              </div>
+
+              {/* Botões */}
+              <div className="flex gap-3 justify-end pt-4">
+                <Button type="button" variant="outline" onClick={() => navigate(backUrl)} disabled={loading}>
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={loading || orgLoading} variant="gradient">
+                  {loading ? "Salvando..." : isEditing ? "Salvar Orçamento" : "Criar Orçamento"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <QuickAddCustomer
+          open={customerDialogOpen}
+          onOpenChange={setCustomerDialogOpen}
+          onCustomerCreated={handleCustomerCreated}
+          organizationId={organizationId}
+        />
+      </main>
+    </div>
+  );
+};
+
+export default QuoteForm;
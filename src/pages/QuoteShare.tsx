@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarDays, Mail, MapPin, Phone, Users, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/utils";
+import { isQuoteExpired } from "@/lib/quotes";
+
+interface SharedQuoteOption {
+  title: string;
+  package_name: string;
+  destination: string;
+  duration_days: number;
+  description: string | null;
+  travel_date: string | null;
+  return_date: string | null;
+  number_of_travelers: number;
+  unit_price: number;
+  total_amount: number;
+  notes: string | null;
+}
+
+interface SharedQuote {
+  quote_number: string;
+  status: string;
+  valid_until: string;
+  notes: string | null;
+  created_at: string;
+  customer_name: string;
+  organization: {
+    name: string;
+    email: string | null;
+    phone: string | null;
+    logo_url: string | null;
+    primary_color: string | null;
+  };
+  options: SharedQuoteOption[];
+}
+
+const formatDate = (date: string) => format(new Date(date + "T00:00:00"), "dd/MM/yyyy");
+
+/**
+ * Visualização pública (somente leitura) do orçamento, acessada pelo link de compartilhamento.
+ * Não exige login: os dados vêm da função get_shared_quote pelo token.
+ *
+ * EN: Public read-only quote view reached through the share link.
+ * No login required: data comes from get_shared_quote by token.
+ */
+export default function QuoteShare() {
+  const { token } = useParams();
+  const [loading, setLoading] = useState(true);
+  const [quote, setQuote] = useState<SharedQuote | null>(null);
+
+  useEffect(() => {
+    loadQuote();
+  }, [token]);
+
+  const loadQuote = async () => {
+    if (!token) {
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc("get_shared_quote", { _token: token });
+    if (!error && data) {
+      setQuote(data as unknown as SharedQuote);
+    }
+    setLoading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Carregando orçamento...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <div className="w-12 h-12 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-4">
+              <XCircle className="w-6 h-6 text-destructive" />
+            </div>
+            <CardTitle className="text-center">Orçamento não encontrado</CardTitle>
+            <CardDescription className="text-center">
+              O link pode estar incorreto ou o orçamento foi removido.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const expired = isQuoteExpired(quote) && quote.status !== "converted";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5 py-10 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          {quote.organization.logo_url && (
+            <img src={quote.organization.logo_url} alt={quote.organization.name} className="h-14 w-14 rounded object-contain" />
+          )}
+          <div>
+            <h1 className="text-2xl font-bold" style={quote.organization.primary_color ? { color: quote.organization.primary_color } : undefined}>
+              {quote.organization.name}
+            </h1>
+            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+              {quote.organization.email && (
+                <span className="flex items-center gap-1"><Mail className="w-3 h-3" />{quote.organization.email}</span>
+              )}
+              {quote.organization.phone && (
+                <span className="flex items-center gap-1"><Phone className="w-3 h-3" />{quote.organization.phone}</span>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              Orçamento {quote.quote_number}
+              {expired ? <Badge variant="destructive">Expirado</Badge> : <Badge variant="outline">Válido até {formatDate(quote.valid_until)}</Badge>}
+            </CardTitle>
+            <CardDescription>Preparado para {quote.customer_name}</CardDescription>
+          </CardHeader>
+          {quote.notes && (
+            <CardContent className="text-sm whitespace-pre-line">{quote.notes}</CardContent>
+          )}
+        </Card>
+
+        {quote.options.map((option, index) => (
+          <Card key={index}>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {quote.options.length > 1 && `Opção ${index + 1}: `}{option.title}
+              </CardTitle>
+              <CardDescription className="flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {option.package_name} — {option.destination} · {option.duration_days} dias
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {option.description && <p className="text-sm text-muted-foreground">{option.description}</p>}
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                <div className="flex items-center gap-2">
+                  <CalendarDays className="w-4 h-4 text-muted-foreground" />
+                  {option.travel_date ? formatDate(option.travel_date) : "Data a definir"}
+                  {option.return_date && ` a ${formatDate(option.return_date)}`}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Users className="w-4 h-4 text-muted-foreground" />
+                  {option.number_of_travelers} {option.number_of_travelers === 1 ? "viajante" : "viajantes"}
+                </div>
+                <div>{formatCurrency(Number(option.unit_price))} por viajante</div>
+              </div>
+              {option.notes && <p className="text-sm">{option.notes}</p>}
+              <div className="flex justify-between items-center border-t pt-4">
+                <span className="font-medium">Total</span>
+                <span className="text-2xl font-bold text-primary">{formatCurrency(Number(option.total_amount))}</span>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, ArrowRightLeft, Copy, Edit, ExternalLink, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { QuoteStatusBadge } from "@/components/quotes/QuoteStatusBadge";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { QUOTE_STATUS_OPTIONS, type QuoteStatus } from "@/lib/constants";
+import { formatCurrency } from "@/lib/utils";
+import { getOverbookingMessage } from "@/lib/packages";
+import { convertQuoteOptionToOrder, getQuoteDisplayStatus, getQuoteShareUrl, isQuoteExpired } from "@/lib/quotes";
+
+type QuoteOption = Tables<"quote_options"> & {
+  package: { name: string; destination: string } | null;
+  departure: { departure_date: string; return_date: string | null } | null;
+};
+
+type QuoteDetails = Tables<"quotes"> & {
+  customer: { full_name: string; email: string; phone: string } | null;
+  quote_options: QuoteOption[];
+  converted_order: { id: string; order_number: string } | null;
+};
+
+// Status que o agente pode definir manualmente; "converted" só via conversão
+const MANUAL_STATUS_OPTIONS = QUOTE_STATUS_OPTIONS.filter((opt) => opt.value !== "converted");
+
+const formatDate = (date: string) => format(new Date(date + "T00:00:00"), "dd/MM/yyyy");
+
+/**
+ * Detalhes do orçamento: opções, status, link de compartilhamento e conversão em pedido.
+ * EN: Quote details: options, status, share link and conversion into an order.
+ */
+const QuoteView = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { role } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const [quote, setQuote] = useState<QuoteDetails | null>(null);
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQuote();
+  }, [id]);
+
+  const loadQuote = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("quotes")
+      .select(`
+        *,
+        customer:customers(full_name, email, phone),
+        quote_options(
+          *,
+          package:travel_packages(name, destination),
+          departure:package_departures(departure_date, return_date)
+        ),
+        converted_order:orders!quotes_converted_order_id_fkey(id, order_number)
+      `)
+      .eq("id", id)
+      .single();
+
+    if (error || !data) {
+      toast.error("Orçamento não encontrado");
+      navigate("/quotes");
+      return;
+    }
+
+    const details = data as unknown as QuoteDetails;
+    details.quote_options.sort((a, b) => a.position - b.position);
+    setQuote(details);
+  };
+
+  const handleStatusChange = async (status: QuoteStatus) => {
+    if (!quote) return;
+    const { error } = await supabase.from("quotes").update({ status }).eq("id", quote.id);
+    if (error) {
+      toast.error("Erro ao atualizar status do orçamento");
+      return;
+    }
+    setQuote({ ...quote, status });
+    toast.success("Status atualizado");
+  };
+
+  const handleCopyShareLink = async () => {
+    if (!quote) return;
+    await navigator.clipboard.writeText(getQuoteShareUrl(quote.share_token));
+    toast.success("Link copiado! Envie ao cliente para visualizar a proposta.");
+    if (quote.status === "draft") handleStatusChange("sent");
+  };
+
+  const handleConvert = async (option: QuoteOption) => {
+    if (!quote) return;
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setConvertingId(option.id);
+    const { order, error, warnings } = await convertQuoteOptionToOrder(quote, option, user.id);
+    setConvertingId(null);
+
+    if (error || !order) {
+      toast.error(getOverbookingMessage(error) || error?.message || "Erro ao converter orçamento");
+      return;
+    }
+
+    warnings.forEach((warning) => toast.error(warning));
+    toast.success(`Pedido ${order.order_number} criado a partir do orçamento`);
+    navigate(`/orders/${order.id}/edit`);
+  };
+
+  if (!quote) {
+    return <div className="container mx-auto px-4 py-8">Carregando...</div>;
+  }
+
+  const displayStatus = getQuoteDisplayStatus(quote);
+  const expired = isQuoteExpired(quote);
+  const isConverted = quote.status === "converted";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-6 flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/quotes")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-3">
+              <FileText className="h-8 w-8 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold flex items-center gap-2">
+                  Orçamento {quote.quote_number}
+                  <QuoteStatusBadge status={displayStatus} />
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  {quote.customer?.full_name} · válido até {formatDate(quote.valid_until)}
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={handleCopyShareLink}>
+              <Copy className="w-4 h-4 mr-2" />
+              Copiar link
+            </Button>
+            <Button variant="outline" onClick={() => window.open(getQuoteShareUrl(quote.share_token), "_blank")}>
+              <ExternalLink className="w-4 h-4 mr-2" />
+              Visualizar
+            </Button>
+            {canEdit && !isConverted && (
+              <Button variant="outline" onClick={() => navigate(`/quotes/${quote.id}/edit`)}>
+                <Edit className="w-4 h-4 mr-2" />
+                Editar
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Cliente</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p className="font-medium">{quote.customer?.full_name}</p>
+              <p className="text-muted-foreground">{quote.customer?.email}</p>
+              <p className="text-muted-foreground">{quote.customer?.phone}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Status</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {isConverted ? (
+                <p>
+                  Convertido em{" "}
+                  {quote.converted_order ? (
+                    <Button variant="link" className="p-0 h-auto" onClick={() => navigate(`/orders/${quote.converted_order!.id}`)}>
+                      {quote.converted_order.order_number}
+                    </Button>
+                  ) : (
+                    "pedido excluído"
+                  )}
+                  {quote.converted_at && ` em ${format(new Date(quote.converted_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}`}
+                </p>
+              ) : (
+                <Select value={quote.status} onValueChange={(v: QuoteStatus) => handleStatusChange(v)} disabled={!canEdit}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_STATUS_OPTIONS.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {expired && !isConverted && (
+                <p className="text-destructive text-xs">A validade deste orçamento expirou. Edite a validade para convertê-lo.</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Observações</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm whitespace-pre-line text-muted-foreground">
+              {quote.notes || "Sem observações"}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold">Opções ({quote.quote_options.length})</h2>
+          {quote.quote_options.map((option, index) => {
+            const travelDate = option.departure?.departure_date || option.travel_date;
+            return (
+              <Card key={option.id}>
+                <CardHeader>
+                  <CardTitle className="text-base">
+                    Opção {index + 1}: {option.title}
+                  </CardTitle>
+                  <CardDescription>
+                    {option.package?.name} — {option.package?.destination}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex items-end justify-between gap-4 flex-wrap">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <span className="block text-muted-foreground">Data</span>
+                      {travelDate ? formatDate(travelDate) : "A definir"}
+                      {option.departure?.return_date && ` a ${formatDate(option.departure.return_date)}`}
+                    </div>
+                    <div>
+                      <span className="block text-muted-foreground">Viajantes</span>
+                      {option.number_of_travelers}
+                    </div>
+                    <div>
+                      <span className="block text-muted-foreground">Por viajante</span>
+                      {formatCurrency(Number(option.unit_price))}
+                    </div>
+                    <div>
+                      <span className="block text-muted-foreground">Total</span>
+                      <span className="font-bold text-primary">{formatCurrency(Number(option.total_amount))}</span>
+                    </div>
+                    {option.notes && (
+                      <p className="col-span-full text-muted-foreground">{option.notes}</p>
+                    )}
+                  </div>
+                  {canEdit && !isConverted && (
+                    <Button
+                      variant="gradient"
+                      onClick={() => handleConvert(option)}
+                      disabled={expired || convertingId !== null || quote.status === "rejected"}
+                    >
+                      <ArrowRightLeft className="w-4 h-4 mr-2" />
+                      {convertingId === option.id ? "Convertendo..." : "Converter em pedido"}
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default QuoteView;
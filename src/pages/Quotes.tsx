@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Edit, Eye, FileText, Plus, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { FilterBar } from "@/components/filters/FilterBar";
+import { SearchInput } from "@/components/filters/SearchInput";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { QuoteStatusBadge } from "@/components/quotes/QuoteStatusBadge";
+import QuoteDeleteDialog from "@/components/quotes/QuoteDeleteDialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { QUOTE_STATUS_OPTIONS } from "@/lib/constants";
+import { formatCurrency } from "@/lib/utils";
+import { getQuoteDisplayStatus } from "@/lib/quotes";
+import { format } from "date-fns";
+
+type QuoteRow = Tables<"quotes"> & {
+  customers: { full_name: string } | null;
+  quote_options: { id: string; total_amount: number }[];
+};
+
+/**
+ * Página de listagem de orçamentos com busca e filtro de status (inclui "Expirado").
+ * EN: Quotes listing page with search and status filter (including "Expirado").
+ */
+const Quotes = () => {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const { isOrgAdmin } = useOrganizationRole();
+  const [quotes, setQuotes] = useState<QuoteRow[]>([]);
+  const [filters, setFilters] = useState({ search: "", status: "all" });
+  const [quoteToDelete, setQuoteToDelete] = useState<QuoteRow | null>(null);
+
+  useEffect(() => {
+    if (organizationId) loadData();
+  }, [organizationId]);
+
+  const loadData = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    if (!organizationId) {
+      setQuotes([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("quotes")
+      .select("*, customers(full_name), quote_options(id, total_amount)")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Erro ao carregar orçamentos");
+      return;
+    }
+
+    setQuotes((data as QuoteRow[]) || []);
+  };
+
+  const filteredQuotes = useMemo(() => {
+    const search = filters.search.toLowerCase();
+    return quotes.filter((quote) => {
+      const matchesSearch =
+        !search ||
+        quote.quote_number.toLowerCase().includes(search) ||
+        quote.customers?.full_name?.toLowerCase().includes(search);
+      const matchesStatus =
+        filters.status === "all" || getQuoteDisplayStatus(quote) === filters.status;
+      return matchesSearch && matchesStatus;
+    });
+  }, [quotes, filters]);
+
+  const activeFiltersCount = Object.values(filters).filter((value) => value && value !== "all").length;
+
+  const getPriceRange = (quote: QuoteRow) => {
+    const totals = quote.quote_options.map((o) => Number(o.total_amount));
+    if (totals.length === 0) return "-";
+    const min = Math.min(...totals);
+    const max = Math.max(...totals);
+    return min === max ? formatCurrency(min) : `${formatCurrency(min)} a ${formatCurrency(max)}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-secondary to-primary rounded-full flex items-center justify-center">
+              <FileText className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Orçamentos</h1>
+              <p className="text-sm text-muted-foreground">Propostas enviadas aos clientes</p>
+            </div>
+          </div>
+          <Button variant="gradient" onClick={() => navigate("/quotes/create")}>
+            <Plus className="w-4 h-4 mr-2" />
+            Novo Orçamento
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <FilterBar
+          onClear={() => setFilters({ search: "", status: "all" })}
+          activeFiltersCount={activeFiltersCount}
+          resultsCount={filteredQuotes.length}
+          totalCount={quotes.length}
+          gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
+        >
+          <div className="lg:col-span-8 space-y-2">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <Search className="h-4 w-4" />
+              Buscar
+            </Label>
+            <SearchInput
+              value={filters.search}
+              onChange={(value) => setFilters({ ...filters, search: value })}
+              placeholder="Buscar por número ou cliente..."
+            />
+          </div>
+          <div className="lg:col-span-4">
+            <StatusFilter
+              label="Status"
+              value={filters.status}
+              onChange={(value) => setFilters({ ...filters, status: value })}
+              options={[
+                { value: "all", label: "Todos" },
+                ...QUOTE_STATUS_OPTIONS,
+                { value: "expired", label: "Expirado" },
+              ]}
+            />
+          </div>
+        </FilterBar>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Lista de Orçamentos</CardTitle>
+            <CardDescription>Converta um orçamento aceito em pedido com um clique</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Número</TableHead>
+                  <TableHead>Cliente</TableHead>
+                  <TableHead>Opções</TableHead>
+                  <TableHead>Valores</TableHead>
+                  <TableHead>Validade</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredQuotes.map((quote) => (
+                  <TableRow key={quote.id}>
+                    <TableCell className="font-medium">{quote.quote_number}</TableCell>
+                    <TableCell>{quote.customers?.full_name}</TableCell>
+                    <TableCell>{quote.quote_options.length}</TableCell>
+                    <TableCell>{getPriceRange(quote)}</TableCell>
+                    <TableCell>{format(new Date(quote.valid_until + "T00:00:00"), "dd/MM/yyyy")}</TableCell>
+                    <TableCell>
+                      <QuoteStatusBadge status={getQuoteDisplayStatus(quote)} />
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            •••
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => navigate(`/quotes/${quote.id}`)}>
+                            <Eye className="h-4 w-4 mr-2" />
+                            Ver Detalhes
+                          </DropdownMenuItem>
+                          {quote.status !== "converted" && (
+                            <DropdownMenuItem onClick={() => navigate(`/quotes/${quote.id}/edit`)}>
+                              <Edit className="h-4 w-4 mr-2" />
+                              Editar
+                            </DropdownMenuItem>
+                          )}
+                          {isOrgAdmin && (
+                            <DropdownMenuItem className="text-destructive" onClick={() => setQuoteToDelete(quote)}>
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Excluir
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {filteredQuotes.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                      {quotes.length === 0
+                        ? "Nenhum orçamento registrado ainda"
+                        : "Nenhum orçamento encontrado com os filtros aplicados"}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <QuoteDeleteDialog
+          quote={quoteToDelete}
+          open={!!quoteToDelete}
+          onOpenChange={(open) => !open && setQuoteToDelete(null)}
+          onQuoteDeleted={loadData}
+        />
+      </main>
+    </div>
+  );
+};
+
+export default Quotes;
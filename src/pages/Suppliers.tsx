@@ -0,0 +1,313 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowLeft, MoreVertical, Pencil, Plus, Power, Search, Trash2, Truck } from "lucide-react";
+import { toast } from "sonner";
+import { FilterBar } from "@/components/filters/FilterBar";
+import { SearchInput } from "@/components/filters/SearchInput";
+import { StatusFilter } from "@/components/filters/StatusFilter";
+import { SupplierFormDialog } from "@/components/payables/SupplierFormDialog";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationRole } from "@/hooks/useOrganizationRole";
+import { SUPPLIER_CATEGORY_OPTIONS } from "@/lib/constants";
+import { deleteSupplier, listSuppliers, setSupplierActive, type Supplier } from "@/lib/payables";
+
+const categoryLabel = (category: string) =>
+  SUPPLIER_CATEGORY_OPTIONS.find((option) => option.value === category)?.label ?? category;
+
+/**
+ * Exibe CPF/CNPJ com máscara a partir dos dígitos gravados.
+ * EN: Formats the stored CPF/CNPJ digits for display.
+ */
+const formatDocument = (document: string | null) => {
+  if (!document) return "-";
+  if (document.length === 11) return document.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, "$1.$2.$3-$4");
+  if (document.length === 14) return document.replace(/(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})/, "$1.$2.$3/$4-$5");
+  return document;
+};
+
+/**
+ * Cadastro de fornecedores usados nas contas a pagar.
+ * Fornecedores com contas vinculadas não podem ser excluídos, apenas desativados.
+ *
+ * EN: Supplier registry used by accounts payable.
+ * Suppliers referenced by payables cannot be deleted, only deactivated.
+ */
+export default function Suppliers() {
+  const navigate = useNavigate();
+  const { organizationId } = useOrganization();
+  const { role, isOrgAdmin } = useOrganizationRole();
+  const canEdit = role !== "viewer";
+  const [loading, setLoading] = useState(true);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [filters, setFilters] = useState({ search: "", category: "all", active: "active" });
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Supplier | null>(null);
+  const [deleting, setDeleting] = useState<Supplier | null>(null);
+
+  useEffect(() => {
+    if (organizationId) {
+      loadData(organizationId);
+    }
+  }, [organizationId]);
+
+  const loadData = async (orgId: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+
+    setLoading(true);
+    const { suppliers, error } = await listSuppliers(orgId);
+    if (error) {
+      toast.error("Erro ao carregar fornecedores");
+    }
+    setSuppliers(suppliers);
+    setLoading(false);
+  };
+
+  const filteredSuppliers = useMemo(() => {
+    const search = filters.search.trim().toLowerCase();
+    const searchDigits = search.replace(/\D/g, "");
+    return suppliers.filter((supplier) => {
+      if (filters.category !== "all" && supplier.category !== filters.category) return false;
+      if (filters.active === "active" && !supplier.is_active) return false;
+      if (filters.active === "inactive" && supplier.is_active) return false;
+      if (!search) return true;
+      return (
+        supplier.name.toLowerCase().includes(search) ||
+        (supplier.contact_name ?? "").toLowerCase().includes(search) ||
+        (supplier.email ?? "").toLowerCase().includes(search) ||
+        (!!searchDigits && (supplier.document ?? "").includes(searchDigits))
+      );
+    });
+  }, [suppliers, filters]);
+
+  const activeFiltersCount =
+    (filters.search ? 1 : 0) + (filters.category !== "all" ? 1 : 0) + (filters.active !== "active" ? 1 : 0);
+
+  const clearFilters = () => setFilters({ search: "", category: "all", active: "active" });
+
+  const openForm = (supplier: Supplier | null) => {
+    setEditing(supplier);
+    setFormOpen(true);
+  };
+
+  const handleToggleActive = async (supplier: Supplier) => {
+    const { error } = await setSupplierActive(supplier.id, !supplier.is_active);
+    if (error) {
+      toast.error("Erro ao atualizar fornecedor");
+      return;
+    }
+    toast.success(supplier.is_active ? "Fornecedor desativado" : "Fornecedor reativado");
+    if (organizationId) loadData(organizationId);
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const { error } = await deleteSupplier(deleting.id);
+    setDeleting(null);
+    if (error) {
+      toast.error(
+        error.code === "23503"
+          ? "Fornecedor possui contas a pagar vinculadas. Desative-o em vez de excluir."
+          : "Erro ao excluir fornecedor"
+      );
+      return;
+    }
+    toast.success("Fornecedor excluído");
+    if (organizationId) loadData(organizationId);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 via-background to-accent/5">
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/payables")}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 bg-gradient-to-r from-primary to-accent rounded-full flex items-center justify-center">
+              <Truck className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">Fornecedores</h1>
+              <p className="text-sm text-muted-foreground">Hotéis, transporte, guias e demais prestadores</p>
+            </div>
+          </div>
+          {canEdit && (
+            <Button onClick={() => openForm(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Novo Fornecedor
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <FilterBar
+          onClear={clearFilters}
+          activeFiltersCount={activeFiltersCount}
+          resultsCount={filteredSuppliers.length}
+          totalCount={suppliers.length}
+          gridClassName="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-12 gap-4"
+        >
+          <div className="lg:col-span-6 space-y-2">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <Search className="h-4 w-4" />
+              Buscar
+            </Label>
+            <SearchInput
+              value={filters.search}
+              onChange={(value) => setFilters({ ...filters, search: value })}
+              placeholder="Buscar por nome, contato, email ou documento..."
+            />
+          </div>
+          <div className="lg:col-span-3">
+            <StatusFilter
+              label="Categoria"
+              value={filters.category}
+              onChange={(value) => setFilters({ ...filters, category: value })}
+              options={[{ value: "all", label: "Todas" }, ...SUPPLIER_CATEGORY_OPTIONS]}
+              placeholder="Todas"
+            />
+          </div>
+          <div className="lg:col-span-3">
+            <StatusFilter
+              label="Situação"
+              value={filters.active}
+              onChange={(value) => setFilters({ ...filters, active: value })}
+              options={[
+                { value: "active", label: "Ativos" },
+                { value: "inactive", label: "Inativos" },
+                { value: "all", label: "Todos" },
+              ]}
+            />
+          </div>
+        </FilterBar>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Fornecedores</CardTitle>
+            <CardDescription>Fornecedores inativos não aparecem no lançamento de novas contas</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-muted-foreground">Carregando...</p>
+            ) : filteredSuppliers.length === 0 ? (
+              <p className="text-muted-foreground">Nenhum fornecedor encontrado.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Categoria</TableHead>
+                    <TableHead>CPF / CNPJ</TableHead>
+                    <TableHead>Contato</TableHead>
+                    <TableHead>Situação</TableHead>
+                    {canEdit && <TableHead className="w-12" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredSuppliers.map((supplier) => (
+                    <TableRow key={supplier.id}>
+                      <TableCell className="font-medium">{supplier.name}</TableCell>
+                      <TableCell>{categoryLabel(supplier.category)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDocument(supplier.document)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-col">
+                          <span>{supplier.contact_name || "-"}</span>
+                          {(supplier.phone || supplier.email) && (
+                            <span className="text-xs text-muted-foreground">
+                              {[supplier.phone, supplier.email].filter(Boolean).join(" · ")}
+                            </span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={supplier.is_active ? "secondary" : "outline"}>
+                          {supplier.is_active ? "Ativo" : "Inativo"}
+                        </Badge>
+                      </TableCell>
+                      {canEdit && (
+                        <TableCell>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8">
+                                <MoreVertical className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => openForm(supplier)}>
+                                <Pencil className="mr-2 h-4 w-4" />
+                                Editar
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleToggleActive(supplier)}>
+                                <Power className="mr-2 h-4 w-4" />
+                                {supplier.is_active ? "Desativar" : "Reativar"}
+                              </DropdownMenuItem>
+                              {isOrgAdmin && (
+                                <DropdownMenuItem onClick={() => setDeleting(supplier)} className="text-destructive">
+                                  <Trash2 className="mr-2 h-4 w-4" />
+                                  Excluir
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <SupplierFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        supplier={editing}
+        onSaved={() => organizationId && loadData(organizationId)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir fornecedor?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting?.name} será removido. Fornecedores com contas a pagar vinculadas só podem ser desativados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Excluir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
 import { ArrowLeft, Building2, Users, Package, UserCheck, ShoppingCart } from "lucide-react";
 import { useSystemAdmin } from "@/hooks/useSystemAdmin";
+import { formatCnpj } from "@/lib/utils";
 
 interface Organization {
   id: string;
@@ -343,7 +344,7 @@ export default function OrganizationDetails() {
           </div>
           <div>
             <p className="text-sm text-muted-foreground">CNPJ</p>
-            <p className="font-medium">{organization.cnpj || "Não informado"}</p>
+            <p className="font-medium">{organization.cnpj ? formatCnpj(organization.cnpj) : "Não informado"}</p>
           </div>
           <div>
             <p className="text-sm text-muted-foreground">Telefone</p>
@@ -8,6 +8,9 @@ import { Label } from "@/components/ui/label";
 import { ArrowLeft, Building2, Save, X } from "lucide-react";
 import { toast } from "sonner";
 import { useSystemAdmin } from "@/hooks/useSystemAdmin";
+import { CnpjInput } from "@/components/ui/cnpj-input";
+import { organizationCnpjSchema } from "@/lib/validations";
+import { formatCnpj } from "@/lib/utils";
 
 interface Organization {
   id: string;
@@ -76,7 +79,7 @@ export default function OrganizationEdit() {
       setFormData({
         name: data.name || "",
         email: data.email || "",
-        cnpj: data.cnpj || "",
+        cnpj: data.cnpj ? formatCnpj(data.cnpj) : "",
         primary_color: data.primary_color || "#2563eb",
         secondary_color: data.secondary_color || "#1e40af",
         tertiary_color: data.tertiary_color || "#f59e0b",
@@ -104,6 +107,13 @@ export default function OrganizationEdit() {
 
   const handleSave = async () => {
     if (!id) return;
+
+    const cnpjResult = organizationCnpjSchema.safeParse(formData.cnpj);
+    if (!cnpjResult.success) {
+      toast.error(cnpjResult.error.errors[0].message);
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -136,7 +146,7 @@ export default function OrganizationEdit() {
         .update({
           name: formData.name,
           email: formData.email,
-          cnpj: formData.cnpj || null,
+          cnpj: cnpjResult.data || null,
           logo_url: logoUrl,
           primary_color: formData.primary_color,
           secondary_color: formData.secondary_color,
@@ -217,11 +227,10 @@ export default function OrganizationEdit() {
               </div>
               <div className="space-y-2">
                 <Label>CNPJ</Label>
-                <Input 
-                  value={formData.cnpj} 
+                <CnpjInput
+                  value={formData.cnpj}
                   onChange={(e) => setFormData({ ...formData, cnpj: e.target.value })}
-                  disabled={saving} 
-                  placeholder="00.000.000/0000-00"
+                  disabled={saving}
                 />
               </div>
               <div className="space-y-2">
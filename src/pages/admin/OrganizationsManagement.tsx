@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { ArrowLeft, Building2, Search, Eye, Pencil } from "lucide-react";
+import { formatCnpj } from "@/lib/utils";
 
 interface Organization {
   id: string;
@@ -81,7 +82,7 @@ export default function OrganizationsManagement() {
         (org) =>
           org.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
           org.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          (org.cnpj && org.cnpj.includes(searchTerm))
+          (org.cnpj && (org.cnpj.includes(searchTerm) || formatCnpj(org.cnpj).includes(searchTerm)))
       );
     }
 
@@ -165,7 +166,7 @@ export default function OrganizationsManagement() {
                     <TableRow key={org.id}>
                       <TableCell className="font-medium">{org.name}</TableCell>
                       <TableCell>{org.email}</TableCell>
-                      <TableCell>{org.cnpj || "-"}</TableCell>
+                      <TableCell>{org.cnpj ? formatCnpj(org.cnpj) : "-"}</TableCell>
                       <TableCell>{org.member_count} / {org.max_users}</TableCell>
                       <TableCell>
                         <Badge variant={org.is_active ? "default" : "secondary"}>
@@ -22,18 +22,28 @@ export function getResend(): Resend {
   return new Resend(apiKey);
 }
 
+/**
+ * PT-BR: Anexo de email com conteúdo em base64.
+ * EN: Email attachment with base64-encoded content.
+ */
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+}
+
 export interface SendEmailParams {
   to: string | string[];
   subject: string;
   html: string;
   from?: string; // default provided below
+  attachments?: EmailAttachment[];
 }
 
 /**
  * PT-BR: Envia email via Resend com remetente padrão.
  * EN: Sends email via Resend with a default sender.
  */
-export async function sendEmail({ to, subject, html, from = "Agência de Viagem <nao_responda@maisaqui.com.br>" }: SendEmailParams) {
+export async function sendEmail({ to, subject, html, from = "Agência de Viagem <nao_responda@maisaqui.com.br>", attachments }: SendEmailParams) {
   const resend = getResend();
   const recipients = Array.isArray(to) ? to : [to];
   return await resend.emails.send({
@@ -41,5 +51,6 @@ export async function sendEmail({ to, subject, html, from = "Agência de Viagem
     to: recipients,
     subject,
     html,
+    attachments,
   });
 }
\ No newline at end of file
@@ -31,8 +31,21 @@ interface SendReminderRequest {
   to: string; // Email do cliente
   subject: string; // Assunto do email
   message: string; // Corpo em texto simples informado no app
+  pix?: {
+    payload: string; // BR Code "copia e cola" da parcela
+    qrCodeBase64?: string; // PNG do QR code em base64 (anexado ao email)
+  };
+  charges?: {
+    original: number; // Valor original da parcela
+    lateFee: number; // Multa por atraso
+    interest: number; // Juros de mora
+    total: number; // Valor atualizado
+  };
 }
 
+const formatBRL = (value: number) =>
+  new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(value);
+
 serve(async (req: Request): Promise<Response> => {
   // Preflight
   if (req.method === "OPTIONS") {
@@ -58,7 +71,7 @@ serve(async (req: Request): Promise<Response> => {
       return new Response(JSON.stringify({ error: "Não autorizado" }), { status: 401, headers });
     }
 
-    const { to, subject, message }: SendReminderRequest = await req.json();
+    const { to, subject, message, pix, charges }: SendReminderRequest = await req.json();
     if (!to || !subject || !message) {
       return new Response(JSON.stringify({ error: "to, subject e message são obrigatórios" }), { status: 400, headers });
     }
@@ -76,6 +89,13 @@ serve(async (req: Request): Promise<Response> => {
     .container { max-width:600px; margin:0 auto; background-color:#ffffff; padding:32px 24px; }
     h1 { color:#1e293b; font-size:22px; margin:0 0 16px 0; text-align:center; }
     .content { color:#475569; font-size:16px; line-height:1.6; white-space:pre-wrap; }
+    .charges { width:100%; margin-top:24px; border-collapse:collapse; color:#475569; font-size:14px; }
+    .charges td { padding:6px 0; border-bottom:1px solid #e2e8f0; }
+    .charges td:last-child { text-align:right; }
+    .charges tr:last-child td { color:#1e293b; font-weight:600; border-bottom:none; }
+    .pix { margin-top:24px; padding:16px; background-color:#f8fafc; border:1px solid #e2e8f0; border-radius:8px; }
+    .pix h2 { color:#1e293b; font-size:16px; margin:0 0 8px 0; }
+    .pix code { display:block; font-size:12px; word-break:break-all; color:#1e293b; }
     .footer { color:#94a3b8; font-size:14px; line-height:1.5; margin-top:24px; padding-top:16px; border-top:1px solid #e2e8f0; }
   </style>
 }</head>
@@ -83,6 +103,19 @@ serve(async (req: Request): Promise<Response> => {
   <div class="container">
     <h1>Lembrete de Cobrança</h1>
     <div class="content">${message.replace(/</g, "&lt;")}</div>
+    ${charges ? `
+    <table class="charges">
+      <tr><td>Valor da parcela</td><td>${formatBRL(charges.original)}</td></tr>
+      <tr><td>Multa por atraso</td><td>${formatBRL(charges.lateFee)}</td></tr>
+      <tr><td>Juros</td><td>${formatBRL(charges.interest)}</td></tr>
+      <tr><td>Valor atualizado</td><td>${formatBRL(charges.total)}</td></tr>
+    </table>` : ""}
+    ${pix?.payload ? `
+    <div class="pix">
+      <h2>Pague com PIX</h2>
+      <p>Copie o código abaixo e cole no app do seu banco${pix.qrCodeBase64 ? " ou leia o QR code em anexo" : ""}:</p>
+      <code>${pix.payload.replace(/</g, "&lt;")}</code>
+    </div>` : ""}
     <div class="footer">
       <p>Este é um aviso automático do sistema de gestão da Agência de Viagem.</p>
       <p>Se você já realizou o pagamento, por favor desconsidere.</p>
@@ -91,7 +124,11 @@ serve(async (req: Request): Promise<Response> => {
 }</body>
 </html>`;
 
-    const emailResponse = await sendEmail({ to, subject, html: emailHtml });
+    const attachments = pix?.qrCodeBase64
+      ? [{ filename: "pix-qrcode.png", content: pix.qrCodeBase64 }]
+      : undefined;
+
+    const emailResponse = await sendEmail({ to, subject, html: emailHtml, attachments });
     console.log("Lembrete enviado:", emailResponse);
 
     return new Response(JSON.stringify({ ok: true }), { status: 200, headers });
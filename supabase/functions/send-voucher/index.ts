@@ -0,0 +1,190 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { sendEmail } from "../_shared/resend.ts";
+
+/**
+ * Edge Function: send-voucher
+ *
+ * PT-BR: Envia o voucher de viagem (PDF já gerado em order_documents) para o email do
+ * cliente do pedido, com a identidade visual da agência. Valida que o chamador pertence
+ * à organização e não é somente leitura.
+ *
+ * EN: Emails the travel voucher (PDF stored in order_documents) to the order customer,
+ * using the agency branding. Validates that the caller is a non-viewer member of the
+ * organization.
+ */
+
+/**
+ * PT-BR: Headers de CORS para ambientes local e produção.
+ * EN: CORS headers for local and production environments.
+ */
+function corsHeaders(req: Request) {
+  return {
+    "Access-Control-Allow-Origin": req.headers.get("origin") ?? "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers":
+      req.headers.get("access-control-request-headers") ??
+      "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Max-Age": "86400",
+  } as Record<string, string>;
+}
+
+interface SendVoucherRequest {
+  documentId: string; // order_documents.id do voucher
+}
+
+interface VoucherOrder {
+  order_number: string;
+  travel_date: string;
+  customer: { full_name: string; email: string | null } | null;
+  package: { name: string; destination: string } | null;
+}
+
+interface VoucherOrganization {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  logo_url: string | null;
+  primary_color: string | null;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const formatDate = (date: string) => date.slice(0, 10).split("-").reverse().join("/");
+
+serve(async (req: Request): Promise<Response> => {
+  // Preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders(req) });
+  }
+
+  const headers = { "Content-Type": "application/json", ...corsHeaders(req) };
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(supabaseUrl, serviceKey);
+
+    // Require auth
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Não autorizado" }), { status: 401, headers });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: "Não autorizado" }), { status: 401, headers });
+    }
+
+    const { documentId }: SendVoucherRequest = await req.json();
+    if (!documentId) {
+      return new Response(JSON.stringify({ error: "documentId é obrigatório" }), { status: 400, headers });
+    }
+
+    const { data: document } = await supabase
+      .from("order_documents")
+      .select(`
+        id, organization_id, document_type, file_name, file_path,
+        order:orders(order_number, travel_date, customer:customers(full_name, email), package:travel_packages(name, destination)),
+        organization:organizations(name, email, phone, logo_url, primary_color)
+      `)
+      .eq("id", documentId)
+      .maybeSingle();
+
+    if (!document || document.document_type !== "voucher") {
+      return new Response(JSON.stringify({ error: "Voucher não encontrado" }), { status: 404, headers });
+    }
+
+    // Verify caller is a non-viewer member of the organization
+    const { data: membership } = await supabase
+      .from("organization_members")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("organization_id", document.organization_id)
+      .neq("role", "viewer")
+      .maybeSingle();
+
+    if (!membership) {
+      return new Response(JSON.stringify({ error: "Acesso negado" }), { status: 403, headers });
+    }
+
+    const order = document.order as unknown as VoucherOrder;
+    const organization = document.organization as unknown as VoucherOrganization | null;
+    const to: string | undefined = order?.customer?.email;
+    if (!to) {
+      return new Response(JSON.stringify({ error: "Cliente sem email cadastrado" }), { status: 400, headers });
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from("order-documents")
+      .download(document.file_path);
+    if (downloadError || !file) {
+      throw new Error(downloadError?.message ?? "PDF do voucher não encontrado");
+    }
+
+    const brandColor = /^#[0-9a-f]{6}$/i.test(organization?.primary_color ?? "") ? organization.primary_color : "#2563eb";
+    const agencyName = escapeHtml(organization?.name ?? "Agência de Viagem");
+    const logo = organization?.logo_url
+      ? `<img src="${escapeHtml(organization.logo_url)}" alt="${agencyName}" style="max-height:48px; margin-bottom:8px;" />`
+      : "";
+
+    const emailHtml = `
+<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="UTF-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+  <title>Voucher de Viagem</title>
+  <style>
+    body { margin:0; padding:0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, Arial, sans-serif; background-color:#f5f5f5; }
+    .container { max-width:600px; margin:0 auto; background-color:#ffffff; }
+    .header { background-color:${brandColor}; color:#ffffff; padding:24px; text-align:center; }
+    .header h1 { font-size:20px; margin:0; }
+    .content { color:#475569; font-size:16px; line-height:1.6; padding:32px 24px; }
+    .highlight { color:#1e293b; font-weight:600; }
+    .footer { color:#94a3b8; font-size:14px; line-height:1.5; padding:16px 24px 32px; border-top:1px solid #e2e8f0; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      ${logo}
+      <h1>${agencyName}</h1>
+    </div>
+    <div class="content">
+      <p>Olá, ${escapeHtml(order.customer?.full_name ?? "")}!</p>
+      <p>Segue em anexo o voucher da sua viagem referente ao pedido <span class="highlight">${escapeHtml(order.order_number)}</span>.</p>
+      <p>
+        <span class="highlight">${escapeHtml(order.package?.name ?? "")}</span> — ${escapeHtml(order.package?.destination ?? "")}<br />
+        Embarque em ${formatDate(order.travel_date)}
+      </p>
+      <p>Apresente o voucher (impresso ou no celular) no check-in. O QR code identifica o seu pedido.</p>
+    </div>
+    <div class="footer">
+      <p>${agencyName}${organization?.email ? ` · ${escapeHtml(organization.email)}` : ""}${organization?.phone ? ` · ${escapeHtml(organization.phone)}` : ""}</p>
+    </div>
+  </div>
+</body>
+</html>`;
+
+    await sendEmail({
+      to,
+      subject: `Voucher de Viagem - Pedido ${order.order_number}`,
+      html: emailHtml,
+      attachments: [{ filename: document.file_name, content: encodeBase64(await file.arrayBuffer()) }],
+    });
+
+    await supabase
+      .from("order_documents")
+      .update({ emailed_at: new Date().toISOString(), emailed_to: to })
+      .eq("id", document.id);
+
+    return new Response(JSON.stringify({ ok: true, to }), { status: 200, headers });
+  } catch (err: unknown) {
+    console.error("Erro em send-voucher:", err instanceof Error ? err.message : err);
+    return new Response(JSON.stringify({ error: "Falha ao enviar voucher" }), { status: 500, headers });
+  }
+});
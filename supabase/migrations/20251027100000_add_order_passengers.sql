@@ -0,0 +1,124 @@
+-- ============================================
+-- PASSAGEIROS POR PEDIDO (order_passengers)
+-- ============================================
+
+-- 1. CRIAR TABELA DE PASSAGEIROS
+-- Cada linha representa um viajante do pedido: pode referenciar um cliente
+-- existente (customer_id) ou ser um passageiro avulso (apenas dados pessoais).
+CREATE TABLE public.order_passengers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  full_name TEXT NOT NULL,
+  cpf TEXT,
+  birth_date DATE,
+  document_type TEXT,
+  document_number TEXT,
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.order_passengers ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_order_passengers_updated_at
+  BEFORE UPDATE ON public.order_passengers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_order_passengers_order_id ON public.order_passengers(order_id);
+CREATE INDEX idx_order_passengers_organization_id ON public.order_passengers(organization_id);
+CREATE INDEX idx_order_passengers_customer_id ON public.order_passengers(customer_id);
+
+-- Um mesmo cliente não pode aparecer duas vezes no mesmo pedido
+CREATE UNIQUE INDEX idx_order_passengers_order_customer
+  ON public.order_passengers(order_id, customer_id)
+  WHERE customer_id IS NOT NULL;
+
+-- 2. POLÍTICAS RLS
+CREATE POLICY "Organization members can view order passengers"
+ON public.order_passengers FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+-- Agentes podem cadastrar passageiros (viewers não podem)
+CREATE POLICY "Agents can create order passengers"
+ON public.order_passengers FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update order passengers"
+ON public.order_passengers FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- A remoção de passageiros faz parte da edição do pedido, por isso agentes também podem excluir
+CREATE POLICY "Agents can delete order passengers"
+ON public.order_passengers FOR DELETE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- 3. SINCRONIZAR QUANTIDADE DE VIAJANTES E VALOR TOTAL
+-- O número de viajantes e o valor total do pedido passam a ser derivados da lista de passageiros.
+-- Pedidos antigos sem passageiros cadastrados mantêm os valores atuais.
+CREATE OR REPLACE FUNCTION public.sync_order_travelers_from_passengers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_order_id UUID;
+  passenger_count INTEGER;
+  package_price NUMERIC;
+BEGIN
+  target_order_id := COALESCE(NEW.order_id, OLD.order_id);
+
+  SELECT COUNT(*) INTO passenger_count
+  FROM public.order_passengers
+  WHERE order_id = target_order_id;
+
+  IF passenger_count = 0 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  SELECT tp.price INTO package_price
+  FROM public.orders o
+  JOIN public.travel_packages tp ON tp.id = o.package_id
+  WHERE o.id = target_order_id;
+
+  UPDATE public.orders
+  SET number_of_travelers = passenger_count,
+      total_amount = COALESCE(package_price, 0) * passenger_count,
+      updated_at = now()
+  WHERE id = target_order_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER sync_order_travelers_on_passenger_change
+  AFTER INSERT OR DELETE OR UPDATE OF order_id ON public.order_passengers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_order_travelers_from_passengers();
+
+-- 4. BACKFILL: o cliente titular de cada pedido existente vira o passageiro principal
+-- (os demais viajantes de pedidos antigos não têm dados e permanecem apenas na contagem).
+-- O trigger de sincronização fica desligado para não recalcular valores históricos.
+ALTER TABLE public.order_passengers DISABLE TRIGGER sync_order_travelers_on_passenger_change;
+
+INSERT INTO public.order_passengers (order_id, organization_id, customer_id, full_name, cpf, birth_date, is_primary, created_by)
+SELECT o.id, o.organization_id, c.id, c.full_name, c.cpf, c.birth_date, true, o.created_by
+FROM public.orders o
+JOIN public.customers c ON c.id = o.customer_id
+WHERE COALESCE(o.number_of_travelers, 1) = 1
+  AND NOT EXISTS (SELECT 1 FROM public.order_passengers p WHERE p.order_id = o.id);
+
+ALTER TABLE public.order_passengers ENABLE TRIGGER sync_order_travelers_on_passenger_change;
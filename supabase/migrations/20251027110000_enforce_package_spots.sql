@@ -0,0 +1,129 @@
+-- ============================================
+-- CONTROLE DE VAGAS DOS PACOTES (available_spots)
+-- ============================================
+-- travel_packages.available_spots passa a representar as vagas restantes.
+-- Pedidos pendentes, confirmados ou concluídos ocupam vagas (number_of_travelers);
+-- pedidos cancelados ou excluídos liberam as vagas.
+-- Pacotes com available_spots nulo são tratados como sem limite de vagas.
+-- Pedidos existentes não são reprocessados: o saldo atual de vagas é mantido como está.
+
+-- 1. FUNÇÃO PARA RESERVAR VAGAS (atômica: o UPDATE trava a linha do pacote)
+CREATE OR REPLACE FUNCTION public.reserve_package_spots(_package_id UUID, _quantity INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  remaining INTEGER;
+  package_name TEXT;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.travel_packages
+  SET available_spots = available_spots - _quantity,
+      updated_at = now()
+  WHERE id = _package_id
+    AND (available_spots IS NULL OR available_spots >= _quantity);
+
+  IF NOT FOUND THEN
+    SELECT available_spots, name INTO remaining, package_name
+    FROM public.travel_packages
+    WHERE id = _package_id;
+
+    RAISE EXCEPTION 'Vagas insuficientes no pacote "%": restam % vaga(s) e o pedido requer %.',
+      package_name, COALESCE(remaining, 0), _quantity
+      USING ERRCODE = 'P0001', HINT = 'overbooking';
+  END IF;
+END;
+$$;
+
+-- 2. FUNÇÃO PARA LIBERAR VAGAS
+CREATE OR REPLACE FUNCTION public.release_package_spots(_package_id UUID, _quantity INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.travel_packages
+  SET available_spots = available_spots + _quantity,
+      updated_at = now()
+  WHERE id = _package_id;
+END;
+$$;
+
+-- Reserva/liberação só devem acontecer pelo trigger de pedidos, nunca direto via RPC
+REVOKE EXECUTE ON FUNCTION public.reserve_package_spots(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_package_spots(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 3. QUANTIDADE DE VAGAS OCUPADAS POR UM PEDIDO
+CREATE OR REPLACE FUNCTION public.order_reserved_spots(_status order_status, _travelers INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _status = 'cancelled' THEN 0
+    ELSE COALESCE(_travelers, 1)
+  END;
+$$;
+
+-- 4. TRIGGER DE RESERVA/LIBERAÇÃO EM PEDIDOS
+CREATE OR REPLACE FUNCTION public.sync_package_spots_from_orders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_reserved INTEGER := 0;
+  new_reserved INTEGER := 0;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    old_reserved := public.order_reserved_spots(OLD.status, OLD.number_of_travelers);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    new_reserved := public.order_reserved_spots(NEW.status, NEW.number_of_travelers);
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.reserve_package_spots(NEW.package_id, new_reserved);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.release_package_spots(OLD.package_id, old_reserved);
+    RETURN OLD;
+  END IF;
+
+  -- UPDATE: troca de pacote libera no antigo e reserva no novo
+  IF NEW.package_id IS DISTINCT FROM OLD.package_id THEN
+    PERFORM public.release_package_spots(OLD.package_id, old_reserved);
+    PERFORM public.reserve_package_spots(NEW.package_id, new_reserved);
+  ELSIF new_reserved > old_reserved THEN
+    PERFORM public.reserve_package_spots(NEW.package_id, new_reserved - old_reserved);
+  ELSIF new_reserved < old_reserved THEN
+    PERFORM public.release_package_spots(NEW.package_id, old_reserved - new_reserved);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_package_spots_on_order_change
+  BEFORE INSERT OR DELETE OR UPDATE OF status, number_of_travelers, package_id ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_package_spots_from_orders();
+
+-- 5. GARANTIR QUE O SALDO NUNCA FIQUE NEGATIVO
+UPDATE public.travel_packages SET available_spots = 0 WHERE available_spots < 0;
+
+ALTER TABLE public.travel_packages
+  ADD CONSTRAINT travel_packages_available_spots_non_negative CHECK (available_spots >= 0);
@@ -0,0 +1,255 @@
+-- ============================================
+-- SAÍDAS (DEPARTURES) POR PACOTE
+-- ============================================
+-- Um mesmo roteiro (travel_packages) pode ser vendido em várias datas.
+-- Cada saída tem datas próprias, preço opcional (sobrepõe o do pacote), capacidade e status.
+
+-- 1. CRIAR ENUM DE STATUS DA SAÍDA
+CREATE TYPE public.departure_status AS ENUM (
+  'open',       -- Aberta para vendas
+  'closed',     -- Vendas encerradas
+  'cancelled'   -- Saída cancelada
+);
+
+-- 2. CRIAR TABELA DE SAÍDAS
+CREATE TABLE public.package_departures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  package_id UUID REFERENCES public.travel_packages(id) ON DELETE CASCADE NOT NULL,
+  departure_date DATE NOT NULL,
+  return_date DATE,
+  price DECIMAL(10,2),
+  capacity INTEGER NOT NULL DEFAULT 0,
+  reserved_spots INTEGER NOT NULL DEFAULT 0,
+  status public.departure_status NOT NULL DEFAULT 'open',
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT package_departures_valid_dates CHECK (return_date IS NULL OR return_date >= departure_date),
+  CONSTRAINT package_departures_valid_price CHECK (price IS NULL OR price >= 0),
+  CONSTRAINT package_departures_valid_capacity CHECK (capacity >= 0),
+  CONSTRAINT package_departures_within_capacity CHECK (reserved_spots >= 0 AND reserved_spots <= capacity)
+);
+
+ALTER TABLE public.package_departures ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_package_departures_updated_at
+  BEFORE UPDATE ON public.package_departures
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_package_departures_organization_id ON public.package_departures(organization_id);
+CREATE INDEX idx_package_departures_package_id ON public.package_departures(package_id);
+CREATE INDEX idx_package_departures_departure_date ON public.package_departures(departure_date);
+
+-- 3. POLÍTICAS RLS
+CREATE POLICY "Organization members can view package departures"
+ON public.package_departures FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+-- Agentes podem cadastrar saídas (viewers não podem)
+CREATE POLICY "Agents can create package departures"
+ON public.package_departures FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update package departures"
+ON public.package_departures FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Admins can delete package departures"
+ON public.package_departures FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 4. VINCULAR PEDIDOS À SAÍDA
+ALTER TABLE public.orders
+  ADD COLUMN departure_id UUID REFERENCES public.package_departures(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_orders_departure_id ON public.orders(departure_id);
+
+-- 5. RESERVA/LIBERAÇÃO DE VAGAS NA SAÍDA
+CREATE OR REPLACE FUNCTION public.reserve_departure_spots(_departure_id UUID, _quantity INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  remaining INTEGER;
+  departure_label TEXT;
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.package_departures
+  SET reserved_spots = reserved_spots + _quantity,
+      updated_at = now()
+  WHERE id = _departure_id
+    AND capacity - reserved_spots >= _quantity;
+
+  IF NOT FOUND THEN
+    SELECT d.capacity - d.reserved_spots, tp.name || ' (' || to_char(d.departure_date, 'DD/MM/YYYY') || ')'
+    INTO remaining, departure_label
+    FROM public.package_departures d
+    JOIN public.travel_packages tp ON tp.id = d.package_id
+    WHERE d.id = _departure_id;
+
+    RAISE EXCEPTION 'Vagas insuficientes na saída "%": restam % vaga(s) e o pedido requer %.',
+      departure_label, COALESCE(remaining, 0), _quantity
+      USING ERRCODE = 'P0001', HINT = 'overbooking';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_departure_spots(_departure_id UUID, _quantity INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.package_departures
+  SET reserved_spots = GREATEST(reserved_spots - _quantity, 0),
+      updated_at = now()
+  WHERE id = _departure_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_departure_spots(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_departure_spots(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 6. VALIDAR SAÍDA E SINCRONIZAR DATA DA VIAGEM
+-- Quando o pedido tem saída, travel_date passa a ser a data de partida da saída.
+CREATE OR REPLACE FUNCTION public.apply_order_departure()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  dep RECORD;
+BEGIN
+  IF NEW.departure_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO dep FROM public.package_departures WHERE id = NEW.departure_id;
+
+  IF dep.package_id IS DISTINCT FROM NEW.package_id THEN
+    RAISE EXCEPTION 'A saída selecionada não pertence ao pacote do pedido.';
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.departure_id IS DISTINCT FROM OLD.departure_id) AND dep.status <> 'open' THEN
+    RAISE EXCEPTION 'A saída de % não está aberta para vendas.', to_char(dep.departure_date, 'DD/MM/YYYY');
+  END IF;
+
+  NEW.travel_date := dep.departure_date;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_order_departure_on_change
+  BEFORE INSERT OR UPDATE OF departure_id, package_id ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_order_departure();
+
+-- 7. RESERVA DE VAGAS EM PEDIDOS: saída (quando houver) ou pacote
+-- Substitui a função criada em 20251027110000_enforce_package_spots.sql
+CREATE OR REPLACE FUNCTION public.sync_package_spots_from_orders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_reserved INTEGER := 0;
+  new_reserved INTEGER := 0;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    old_reserved := public.order_reserved_spots(OLD.status, OLD.number_of_travelers);
+    IF OLD.departure_id IS NOT NULL THEN
+      PERFORM public.release_departure_spots(OLD.departure_id, old_reserved);
+    ELSE
+      PERFORM public.release_package_spots(OLD.package_id, old_reserved);
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    new_reserved := public.order_reserved_spots(NEW.status, NEW.number_of_travelers);
+    IF NEW.departure_id IS NOT NULL THEN
+      PERFORM public.reserve_departure_spots(NEW.departure_id, new_reserved);
+    ELSE
+      PERFORM public.reserve_package_spots(NEW.package_id, new_reserved);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_package_spots_on_order_change ON public.orders;
+
+CREATE TRIGGER sync_package_spots_on_order_change
+  BEFORE INSERT OR DELETE OR UPDATE OF status, number_of_travelers, package_id, departure_id ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_package_spots_from_orders();
+
+-- 8. PREÇO DA SAÍDA NO CÁLCULO DO TOTAL A PARTIR DOS PASSAGEIROS
+-- Substitui a função criada em 20251027100000_add_order_passengers.sql
+CREATE OR REPLACE FUNCTION public.sync_order_travelers_from_passengers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_order_id UUID;
+  passenger_count INTEGER;
+  unit_price NUMERIC;
+BEGIN
+  target_order_id := COALESCE(NEW.order_id, OLD.order_id);
+
+  SELECT COUNT(*) INTO passenger_count
+  FROM public.order_passengers
+  WHERE order_id = target_order_id;
+
+  IF passenger_count = 0 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  SELECT COALESCE(d.price, tp.price) INTO unit_price
+  FROM public.orders o
+  JOIN public.travel_packages tp ON tp.id = o.package_id
+  LEFT JOIN public.package_departures d ON d.id = o.departure_id
+  WHERE o.id = target_order_id;
+
+  UPDATE public.orders
+  SET number_of_travelers = passenger_count,
+      total_amount = COALESCE(unit_price, 0) * passenger_count,
+      updated_at = now()
+  WHERE id = target_order_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- 9. MIGRAR DATAS EXISTENTES DOS PACOTES PARA UMA SAÍDA
+-- Pacotes com start_date preenchido ganham uma saída equivalente (capacidade = vagas atuais).
+INSERT INTO public.package_departures (organization_id, package_id, departure_date, return_date, capacity, created_by)
+SELECT tp.organization_id, tp.id, tp.start_date, tp.end_date, GREATEST(COALESCE(tp.available_spots, 0), 0), tp.created_by
+FROM public.travel_packages tp
+WHERE tp.start_date IS NOT NULL
+  AND tp.organization_id IS NOT NULL
+  AND (tp.end_date IS NULL OR tp.end_date >= tp.start_date);
@@ -0,0 +1,258 @@
+-- ============================================
+-- ORÇAMENTOS (QUOTES) COM OPÇÕES E CONVERSÃO EM PEDIDO
+-- ============================================
+
+-- 1. CRIAR ENUM DE STATUS DO ORÇAMENTO
+-- A expiração é derivada de valid_until (não é um status gravado).
+CREATE TYPE public.quote_status AS ENUM (
+  'draft',      -- Rascunho
+  'sent',       -- Enviado ao cliente
+  'accepted',   -- Aceito pelo cliente
+  'rejected',   -- Recusado
+  'converted'   -- Convertido em pedido
+);
+
+-- 2. CRIAR TABELA DE ORÇAMENTOS
+CREATE TABLE public.quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE NOT NULL,
+  quote_number TEXT NOT NULL DEFAULT '',
+  status public.quote_status NOT NULL DEFAULT 'draft',
+  valid_until DATE NOT NULL,
+  notes TEXT,
+  share_token TEXT UNIQUE NOT NULL DEFAULT encode(gen_random_bytes(16), 'hex'),
+  converted_order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  converted_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT quotes_number_per_org UNIQUE (organization_id, quote_number)
+);
+
+ALTER TABLE public.quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_quotes_updated_at
+  BEFORE UPDATE ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_quotes_organization_id ON public.quotes(organization_id);
+CREATE INDEX idx_quotes_customer_id ON public.quotes(customer_id);
+CREATE INDEX idx_quotes_status ON public.quotes(status);
+
+-- 3. CRIAR TABELA DE OPÇÕES DO ORÇAMENTO
+-- Cada orçamento pode ter várias opções (pacotes/datas/preços) para o cliente escolher.
+CREATE TABLE public.quote_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID REFERENCES public.quotes(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  package_id UUID REFERENCES public.travel_packages(id) ON DELETE CASCADE NOT NULL,
+  departure_id UUID REFERENCES public.package_departures(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  travel_date DATE,
+  number_of_travelers INTEGER NOT NULL DEFAULT 1,
+  unit_price DECIMAL(10,2) NOT NULL,
+  total_amount DECIMAL(10,2) NOT NULL,
+  notes TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT quote_options_valid_travelers CHECK (number_of_travelers > 0),
+  CONSTRAINT quote_options_valid_price CHECK (unit_price >= 0 AND total_amount >= 0)
+);
+
+ALTER TABLE public.quote_options ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_quote_options_updated_at
+  BEFORE UPDATE ON public.quote_options
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_quote_options_quote_id ON public.quote_options(quote_id);
+CREATE INDEX idx_quote_options_organization_id ON public.quote_options(organization_id);
+
+-- 4. POLÍTICAS RLS
+CREATE POLICY "Organization members can view quotes"
+ON public.quotes FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+-- Agentes podem criar orçamentos (viewers não podem)
+CREATE POLICY "Agents can create quotes"
+ON public.quotes FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update quotes"
+ON public.quotes FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Admins can delete quotes"
+ON public.quotes FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Organization members can view quote options"
+ON public.quote_options FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create quote options"
+ON public.quote_options FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update quote options"
+ON public.quote_options FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- Opções são editadas junto com o orçamento, por isso agentes também podem excluir
+CREATE POLICY "Agents can delete quote options"
+ON public.quote_options FOR DELETE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- 5. NUMERAÇÃO SEQUENCIAL DO ORÇAMENTO POR ORGANIZAÇÃO (ORC-000001)
+CREATE OR REPLACE FUNCTION public.set_quote_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  IF NEW.quote_number IS NOT NULL AND NEW.quote_number <> '' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serializa a numeração por organização dentro da transação
+  PERFORM pg_advisory_xact_lock(hashtext('quotes:' || NEW.organization_id::text));
+
+  SELECT COALESCE(MAX(CAST(SUBSTRING(quote_number FROM 5) AS INTEGER)), 0) + 1
+  INTO next_number
+  FROM public.quotes
+  WHERE organization_id = NEW.organization_id
+    AND quote_number ~ '^ORC-[0-9]+$';
+
+  NEW.quote_number := 'ORC-' || LPAD(next_number::TEXT, 6, '0');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_quote_number_on_insert
+  BEFORE INSERT ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_quote_number();
+
+-- 6. PREÇO NEGOCIADO NO PEDIDO
+-- Pedidos convertidos de orçamentos mantêm o preço por viajante negociado.
+-- Quando nulo, vale o preço da saída ou do pacote.
+ALTER TABLE public.orders ADD COLUMN unit_price DECIMAL(10,2);
+
+-- Substitui a função de 20251027120000_add_package_departures.sql para considerar orders.unit_price
+CREATE OR REPLACE FUNCTION public.sync_order_travelers_from_passengers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_order_id UUID;
+  passenger_count INTEGER;
+  effective_price NUMERIC;
+BEGIN
+  target_order_id := COALESCE(NEW.order_id, OLD.order_id);
+
+  SELECT COUNT(*) INTO passenger_count
+  FROM public.order_passengers
+  WHERE order_id = target_order_id;
+
+  IF passenger_count = 0 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  SELECT COALESCE(o.unit_price, d.price, tp.price) INTO effective_price
+  FROM public.orders o
+  JOIN public.travel_packages tp ON tp.id = o.package_id
+  LEFT JOIN public.package_departures d ON d.id = o.departure_id
+  WHERE o.id = target_order_id;
+
+  UPDATE public.orders
+  SET number_of_travelers = passenger_count,
+      total_amount = COALESCE(effective_price, 0) * passenger_count,
+      updated_at = now()
+  WHERE id = target_order_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- 7. VISUALIZAÇÃO PÚBLICA (SOMENTE LEITURA) VIA TOKEN DE COMPARTILHAMENTO
+-- Retorna apenas os dados necessários para o cliente visualizar a proposta.
+CREATE OR REPLACE FUNCTION public.get_shared_quote(_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  SELECT jsonb_build_object(
+    'quote_number', q.quote_number,
+    'status', q.status,
+    'valid_until', q.valid_until,
+    'notes', q.notes,
+    'created_at', q.created_at,
+    'customer_name', c.full_name,
+    'organization', jsonb_build_object(
+      'name', org.name,
+      'email', org.email,
+      'phone', org.phone,
+      'logo_url', org.logo_url,
+      'primary_color', org.primary_color
+    ),
+    'options', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'title', qo.title,
+        'package_name', tp.name,
+        'destination', tp.destination,
+        'duration_days', tp.duration_days,
+        'description', tp.description,
+        'travel_date', COALESCE(d.departure_date, qo.travel_date),
+        'return_date', d.return_date,
+        'number_of_travelers', qo.number_of_travelers,
+        'unit_price', qo.unit_price,
+        'total_amount', qo.total_amount,
+        'notes', qo.notes
+      ) ORDER BY qo.position, qo.created_at)
+      FROM public.quote_options qo
+      JOIN public.travel_packages tp ON tp.id = qo.package_id
+      LEFT JOIN public.package_departures d ON d.id = qo.departure_id
+      WHERE qo.quote_id = q.id
+    ), '[]'::jsonb)
+  )
+  INTO result
+  FROM public.quotes q
+  JOIN public.customers c ON c.id = q.customer_id
+  JOIN public.organizations org ON org.id = q.organization_id
+  WHERE q.share_token = _token;
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_quote(TEXT) TO anon, authenticated;
@@ -0,0 +1,141 @@
+-- ============================================
+-- NUMERAÇÃO SEQUENCIAL DE PEDIDOS POR ORGANIZAÇÃO
+-- ============================================
+-- O número do pedido passa a ser gerado no banco, no INSERT, a partir da
+-- configuração da organização: prefixo, reinício anual e quantidade de dígitos.
+-- Ex.: PED-000042 ou, com reinício anual, PED-2025-000042.
+-- O contador é atômico (INSERT ... ON CONFLICT DO UPDATE trava a linha da sequência).
+
+-- 1. CONFIGURAÇÃO NA ORGANIZAÇÃO
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS order_number_prefix TEXT NOT NULL DEFAULT 'PED',
+  ADD COLUMN IF NOT EXISTS order_number_padding INTEGER NOT NULL DEFAULT 6,
+  ADD COLUMN IF NOT EXISTS order_number_yearly_reset BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.organizations
+  ADD CONSTRAINT organizations_order_number_prefix_format
+    CHECK (order_number_prefix ~ '^[A-Z0-9]{1,10}$'),
+  ADD CONSTRAINT organizations_order_number_padding_range
+    CHECK (order_number_padding BETWEEN 3 AND 10);
+
+COMMENT ON COLUMN public.organizations.order_number_prefix IS 'Prefixo do número do pedido (ex: PED)';
+COMMENT ON COLUMN public.organizations.order_number_padding IS 'Quantidade de dígitos do sequencial (zeros à esquerda)';
+COMMENT ON COLUMN public.organizations.order_number_yearly_reset IS 'Reinicia a numeração a cada ano e inclui o ano no número';
+
+-- 2. CRIAR TABELA DE SEQUÊNCIAS
+-- year = 0 quando a organização não reinicia a numeração anualmente.
+CREATE TABLE public.order_number_sequences (
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  year INTEGER NOT NULL DEFAULT 0,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (organization_id, year)
+);
+
+-- Somente as funções do banco acessam a tabela (sem políticas para usuários)
+ALTER TABLE public.order_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- 3. FUNÇÃO DE FORMATAÇÃO
+CREATE OR REPLACE FUNCTION public.format_order_number(
+  _prefix TEXT,
+  _year INTEGER,
+  _number INTEGER,
+  _padding INTEGER
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT _prefix || '-'
+    || CASE WHEN _year > 0 THEN _year::TEXT || '-' ELSE '' END
+    || LPAD(_number::TEXT, GREATEST(_padding, LENGTH(_number::TEXT)), '0');
+$$;
+
+-- 4. SUBSTITUIR generate_order_number() PELA VERSÃO POR ORGANIZAÇÃO
+-- A versão antiga (global, baseada em MAX) nunca foi usada pelo app.
+DROP FUNCTION IF EXISTS public.generate_order_number();
+
+CREATE OR REPLACE FUNCTION public.generate_order_number(_organization_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org RECORD;
+  seq_year INTEGER;
+  next_number INTEGER;
+BEGIN
+  SELECT order_number_prefix, order_number_padding, order_number_yearly_reset
+  INTO org
+  FROM public.organizations
+  WHERE id = _organization_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Organização % não encontrada', _organization_id;
+  END IF;
+
+  seq_year := CASE
+    WHEN org.order_number_yearly_reset THEN EXTRACT(YEAR FROM now() AT TIME ZONE 'America/Sao_Paulo')::INTEGER
+    ELSE 0
+  END;
+
+  INSERT INTO public.order_number_sequences AS s (organization_id, year, last_number)
+  VALUES (_organization_id, seq_year, 1)
+  ON CONFLICT (organization_id, year)
+  DO UPDATE SET last_number = s.last_number + 1, updated_at = now()
+  RETURNING last_number INTO next_number;
+
+  RETURN public.format_order_number(org.order_number_prefix, seq_year, next_number, org.order_number_padding);
+END;
+$$;
+
+-- Consome um número da sequência: uso interno (trigger) apenas
+REVOKE EXECUTE ON FUNCTION public.generate_order_number(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 5. TRIGGER: GERA O NÚMERO NO INSERT
+CREATE OR REPLACE FUNCTION public.set_order_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.order_number IS NULL OR NEW.order_number = '' THEN
+    NEW.order_number := public.generate_order_number(NEW.organization_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_number_on_insert
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_order_number();
+
+-- O número passa a ser único por organização (e não mais global)
+ALTER TABLE public.orders ALTER COLUMN order_number SET DEFAULT '';
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_order_number_key;
+ALTER TABLE public.orders
+  ADD CONSTRAINT orders_number_per_org UNIQUE (organization_id, order_number);
+
+-- 6. BACKFILL: RENUMERA OS PEDIDOS EXISTENTES EM ORDEM DE CRIAÇÃO
+-- O formato padrão (PED, 6 dígitos, sem reinício anual) vale para todas as organizações neste ponto.
+WITH numbered AS (
+  SELECT
+    o.id,
+    o.organization_id,
+    ROW_NUMBER() OVER (PARTITION BY o.organization_id ORDER BY o.created_at, o.id) AS seq
+  FROM public.orders o
+)
+UPDATE public.orders o
+SET order_number = public.format_order_number(org.order_number_prefix, 0, n.seq::INTEGER, org.order_number_padding)
+FROM numbered n
+JOIN public.organizations org ON org.id = n.organization_id
+WHERE o.id = n.id;
+
+INSERT INTO public.order_number_sequences (organization_id, year, last_number)
+SELECT organization_id, 0, COUNT(*)
+FROM public.orders
+GROUP BY organization_id;
@@ -0,0 +1,313 @@
+-- ============================================
+-- ITENS DO PEDIDO (PACOTE, ADICIONAIS E DESCONTOS)
+-- ============================================
+-- orders.total_amount passa a ser a soma dos itens do pedido.
+-- O item "package" é mantido pelo banco (quantidade = viajantes, preço = preço efetivo);
+-- os demais itens (seguro, traslado, upgrade, taxas, descontos) são lançados pelo agente.
+-- Ao mudar o total, o pagamento do pedido e as parcelas em aberto são atualizados.
+
+-- 1. CRIAR ENUM DE TIPO DE ITEM
+CREATE TYPE public.order_item_type AS ENUM (
+  'package',       -- Pacote (linha principal, mantida automaticamente)
+  'insurance',     -- Seguro viagem
+  'transfer',      -- Traslado
+  'room_upgrade',  -- Upgrade de quarto
+  'fee',           -- Taxa
+  'discount',      -- Desconto (valor negativo)
+  'other'          -- Outros
+);
+
+-- 2. CRIAR TABELA DE ITENS
+CREATE TABLE public.order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  item_type public.order_item_type NOT NULL,
+  description TEXT NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  unit_price DECIMAL(10,2) NOT NULL,
+  total_amount DECIMAL(10,2) GENERATED ALWAYS AS (quantity * unit_price) STORED,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT order_items_valid_quantity CHECK (quantity > 0),
+  -- Descontos são lançados com valor negativo; os demais itens com valor positivo
+  CONSTRAINT order_items_valid_price CHECK (
+    (item_type = 'discount' AND unit_price <= 0)
+    OR (item_type <> 'discount' AND unit_price >= 0)
+  )
+);
+
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_order_items_updated_at
+  BEFORE UPDATE ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_order_items_order_id ON public.order_items(order_id);
+CREATE INDEX idx_order_items_organization_id ON public.order_items(organization_id);
+
+-- Um único item de pacote por pedido
+CREATE UNIQUE INDEX idx_order_items_package_per_order
+  ON public.order_items(order_id)
+  WHERE item_type = 'package';
+
+-- 3. POLÍTICAS RLS
+CREATE POLICY "Organization members can view order items"
+ON public.order_items FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create order items"
+ON public.order_items FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update order items"
+ON public.order_items FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- Itens são editados junto com o pedido, por isso agentes também podem excluir
+CREATE POLICY "Agents can delete order items"
+ON public.order_items FOR DELETE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- 4. REDISTRIBUIR PARCELAS EM ABERTO
+-- Mesma regra da edição manual de parcelas: o saldo (valor do pagamento - parcelas pagas)
+-- é dividido igualmente entre as parcelas não pagas, com os centavos restantes nas primeiras.
+CREATE OR REPLACE FUNCTION public.rebalance_payment_installments(_payment_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment_amount NUMERIC;
+  paid_sum NUMERIC;
+  open_count INTEGER;
+  remaining_cents BIGINT;
+  base_cents BIGINT;
+  extra_cents BIGINT;
+BEGIN
+  SELECT amount INTO payment_amount FROM public.payments WHERE id = _payment_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE status = 'paid'), 0),
+    COUNT(*) FILTER (WHERE status <> 'paid')
+  INTO paid_sum, open_count
+  FROM public.installments
+  WHERE payment_id = _payment_id;
+
+  IF open_count = 0 THEN
+    RETURN;
+  END IF;
+
+  remaining_cents := GREATEST(ROUND((payment_amount - paid_sum) * 100), 0)::BIGINT;
+  base_cents := remaining_cents / open_count;
+  extra_cents := remaining_cents - base_cents * open_count;
+
+  UPDATE public.installments i
+  SET amount = (base_cents + CASE WHEN r.rn <= extra_cents THEN 1 ELSE 0 END) / 100.0,
+      updated_at = now()
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY installment_number) AS rn
+    FROM public.installments
+    WHERE payment_id = _payment_id AND status <> 'paid'
+  ) r
+  WHERE i.id = r.id;
+END;
+$$;
+
+-- 5. RECALCULAR TOTAL DO PEDIDO A PARTIR DOS ITENS
+CREATE OR REPLACE FUNCTION public.recalculate_order_total(_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_total NUMERIC;
+  payment_row RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.orders WHERE id = _order_id) THEN
+    RETURN;
+  END IF;
+
+  -- Descontos maiores que o pedido não geram total negativo
+  SELECT GREATEST(COALESCE(SUM(total_amount), 0), 0) INTO new_total
+  FROM public.order_items
+  WHERE order_id = _order_id;
+
+  UPDATE public.orders
+  SET total_amount = new_total,
+      updated_at = now()
+  WHERE id = _order_id
+    AND total_amount IS DISTINCT FROM new_total;
+
+  FOR payment_row IN
+    SELECT id FROM public.payments
+    WHERE order_id = _order_id AND amount IS DISTINCT FROM new_total
+  LOOP
+    UPDATE public.payments
+    SET amount = new_total,
+        updated_at = now()
+    WHERE id = payment_row.id;
+
+    PERFORM public.rebalance_payment_installments(payment_row.id);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recalculate_order_total_on_item_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recalculate_order_total(COALESCE(NEW.order_id, OLD.order_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER recalculate_order_total_on_item_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.recalculate_order_total_on_item_change();
+
+-- Funções internas: executadas apenas pelos triggers
+REVOKE EXECUTE ON FUNCTION public.rebalance_payment_installments(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recalculate_order_total(UUID) FROM PUBLIC, anon, authenticated;
+
+-- 6. MANTER O ITEM DE PACOTE EM SINCRONIA COM O PEDIDO
+-- Quantidade = viajantes; preço = preço negociado, da saída ou do pacote.
+-- O preço só é recalculado quando pacote, saída ou preço negociado mudam.
+CREATE OR REPLACE FUNCTION public.sync_order_package_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  effective_price NUMERIC;
+  package_name TEXT;
+  reprice BOOLEAN;
+BEGIN
+  reprice := TG_OP = 'INSERT'
+    OR NEW.package_id IS DISTINCT FROM OLD.package_id
+    OR NEW.departure_id IS DISTINCT FROM OLD.departure_id
+    OR NEW.unit_price IS DISTINCT FROM OLD.unit_price;
+
+  SELECT COALESCE(NEW.unit_price, d.price, tp.price), tp.name
+  INTO effective_price, package_name
+  FROM public.travel_packages tp
+  LEFT JOIN public.package_departures d ON d.id = NEW.departure_id
+  WHERE tp.id = NEW.package_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_items
+    WHERE order_id = NEW.id AND item_type = 'package'
+  ) THEN
+    INSERT INTO public.order_items (order_id, organization_id, item_type, description, quantity, unit_price, created_by)
+    VALUES (
+      NEW.id, NEW.organization_id, 'package', COALESCE(package_name, 'Pacote'),
+      GREATEST(COALESCE(NEW.number_of_travelers, 1), 1), COALESCE(effective_price, 0), NEW.created_by
+    );
+  ELSIF reprice THEN
+    UPDATE public.order_items
+    SET description = COALESCE(package_name, description),
+        quantity = GREATEST(COALESCE(NEW.number_of_travelers, 1), 1),
+        unit_price = COALESCE(effective_price, 0)
+    WHERE order_id = NEW.id AND item_type = 'package';
+  ELSIF NEW.number_of_travelers IS DISTINCT FROM OLD.number_of_travelers THEN
+    UPDATE public.order_items
+    SET quantity = GREATEST(COALESCE(NEW.number_of_travelers, 1), 1)
+    WHERE order_id = NEW.id AND item_type = 'package';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_order_package_item
+  AFTER INSERT OR UPDATE OF number_of_travelers, package_id, departure_id, unit_price
+  ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_order_package_item();
+
+-- 7. PASSAGEIROS: APENAS ATUALIZAM A QUANTIDADE DE VIAJANTES
+-- Substitui a função de 20251027130000_add_quotes.sql: o total agora vem dos itens
+-- (o item de pacote acompanha number_of_travelers pelo trigger acima).
+CREATE OR REPLACE FUNCTION public.sync_order_travelers_from_passengers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_order_id UUID;
+  passenger_count INTEGER;
+BEGIN
+  target_order_id := COALESCE(NEW.order_id, OLD.order_id);
+
+  SELECT COUNT(*) INTO passenger_count
+  FROM public.order_passengers
+  WHERE order_id = target_order_id;
+
+  IF passenger_count = 0 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  UPDATE public.orders
+  SET number_of_travelers = passenger_count,
+      updated_at = now()
+  WHERE id = target_order_id
+    AND number_of_travelers IS DISTINCT FROM passenger_count;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- 8. BACKFILL: ITENS DOS PEDIDOS EXISTENTES
+-- Preserva o total atual: o item de pacote recebe o valor por viajante (arredondado para baixo)
+-- e eventuais centavos restantes da divisão viram um item de ajuste.
+ALTER TABLE public.order_items DISABLE TRIGGER recalculate_order_total_on_item_change;
+
+WITH base AS (
+  SELECT
+    o.id,
+    o.organization_id,
+    o.created_by,
+    o.total_amount,
+    tp.name AS package_name,
+    GREATEST(COALESCE(o.number_of_travelers, 1), 1) AS travelers
+  FROM public.orders o
+  JOIN public.travel_packages tp ON tp.id = o.package_id
+),
+priced AS (
+  SELECT *, FLOOR(total_amount * 100 / travelers) / 100 AS per_traveler
+  FROM base
+),
+package_items AS (
+  INSERT INTO public.order_items (order_id, organization_id, item_type, description, quantity, unit_price, created_by)
+  SELECT id, organization_id, 'package', package_name, travelers, per_traveler, created_by
+  FROM priced
+  RETURNING order_id
+)
+INSERT INTO public.order_items (order_id, organization_id, item_type, description, quantity, unit_price, created_by)
+SELECT id, organization_id, 'other', 'Ajuste de arredondamento', 1, total_amount - per_traveler * travelers, created_by
+FROM priced
+WHERE total_amount - per_traveler * travelers > 0;
+
+ALTER TABLE public.order_items ENABLE TRIGGER recalculate_order_total_on_item_change;
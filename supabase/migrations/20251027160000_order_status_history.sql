@@ -0,0 +1,164 @@
+-- ============================================
+-- CICLO DE VIDA DO PEDIDO (TRANSIÇÕES DE STATUS) E HISTÓRICO
+-- ============================================
+-- Transições permitidas:
+--   pending   → confirmed | cancelled
+--   confirmed → completed (somente a partir da data da viagem) | cancelled
+--   cancelled → pending (reativação)
+--   completed → (final)
+-- Toda mudança de status é registrada em order_status_history (quem, quando e motivo).
+
+-- 1. CRIAR TABELA DE HISTÓRICO
+CREATE TABLE public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  from_status public.order_status,
+  to_status public.order_status NOT NULL,
+  reason TEXT,
+  changed_by UUID REFERENCES public.profiles(id),
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_order_status_history_order_id ON public.order_status_history(order_id);
+CREATE INDEX idx_order_status_history_organization_id ON public.order_status_history(organization_id);
+
+-- 2. POLÍTICAS RLS
+-- Somente leitura para os membros: os registros são gravados pelos triggers
+CREATE POLICY "Organization members can view order status history"
+ON public.order_status_history FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+-- 3. REGRAS DE TRANSIÇÃO
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(
+  _from public.order_status,
+  _to public.order_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _from
+    WHEN 'pending' THEN _to IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN _to IN ('completed', 'cancelled')
+    WHEN 'cancelled' THEN _to = 'pending'
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transição de status inválida no pedido %: % → %.',
+      OLD.order_number, OLD.status, NEW.status
+      USING ERRCODE = 'P0001', HINT = 'invalid_status_transition';
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.travel_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'O pedido % só pode ser concluído a partir da data da viagem (%).',
+      OLD.order_number, to_char(NEW.travel_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'P0001', HINT = 'invalid_status_transition';
+  END IF;
+
+  IF NEW.status = 'confirmed' AND NEW.confirmed_at IS NULL THEN
+    NEW.confirmed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- 4. REGISTRO DO HISTÓRICO
+-- O motivo chega pela configuração local app.status_change_reason (ver change_order_status).
+CREATE OR REPLACE FUNCTION public.log_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.order_status_history (order_id, organization_id, from_status, to_status, reason, changed_by)
+  VALUES (
+    NEW.id,
+    NEW.organization_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NULLIF(current_setting('app.status_change_reason', true), ''),
+    COALESCE(auth.uid(), NEW.created_by)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_order_status_change
+  AFTER INSERT OR UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_order_status_change();
+
+-- 5. ALTERAR STATUS COM MOTIVO
+-- Executa com as permissões do usuário (RLS de orders continua valendo).
+CREATE OR REPLACE FUNCTION public.change_order_status(
+  _order_id UUID,
+  _status public.order_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.status_change_reason', COALESCE(_reason, ''), true);
+
+  UPDATE public.orders
+  SET status = _status,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido não encontrado ou sem permissão para alterá-lo.';
+  END IF;
+
+  PERFORM set_config('app.status_change_reason', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.change_order_status(UUID, public.order_status, TEXT) TO authenticated;
+
+-- 6. BACKFILL: HISTÓRICO INICIAL DOS PEDIDOS EXISTENTES
+INSERT INTO public.order_status_history (order_id, organization_id, from_status, to_status, reason, changed_by, changed_at)
+SELECT id, organization_id, NULL, 'pending', NULL, created_by, COALESCE(created_at, now())
+FROM public.orders;
+
+INSERT INTO public.order_status_history (order_id, organization_id, from_status, to_status, reason, changed_by, changed_at)
+SELECT
+  id,
+  organization_id,
+  'pending',
+  status,
+  'Status registrado antes da implantação do histórico',
+  NULL,
+  COALESCE(confirmed_at, updated_at, created_at, now())
+FROM public.orders
+WHERE status <> 'pending';
@@ -0,0 +1,388 @@
+-- ============================================
+-- CANCELAMENTO DE PEDIDOS COM MULTA E REEMBOLSO
+-- ============================================
+-- A organização define a política de multa por antecedência (percentual do valor do
+-- pedido conforme os dias que faltam para a viagem). O cancelamento é feito somente
+-- por cancel_order(), que em uma única transação:
+--   - calcula multa e valor a reembolsar a partir das parcelas pagas;
+--   - registra o cancelamento e o reembolso;
+--   - cancela parcelas em aberto e os pagamentos sem nenhum valor recebido (pagamentos
+--     pagos ou parciais são mantidos; o reembolso registra a devolução);
+--   - muda o pedido para 'cancelled' (o que libera as vagas do pacote/saída).
+-- O cancelamento passa a ser definitivo (não há mais reabertura de pedido cancelado).
+
+-- 1. NOVOS STATUS
+ALTER TYPE public.payment_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+CREATE TYPE public.refund_status AS ENUM (
+  'pending',   -- A devolver ao cliente
+  'completed'  -- Devolvido
+);
+
+-- 2. POLÍTICA DE MULTA DA ORGANIZAÇÃO
+-- Vale a faixa com o maior min_days_before que seja <= dias restantes até a viagem.
+CREATE TABLE public.cancellation_policy_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  min_days_before INTEGER NOT NULL CHECK (min_days_before >= 0),
+  penalty_percent NUMERIC(5,2) NOT NULL CHECK (penalty_percent >= 0 AND penalty_percent <= 100),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT cancellation_policy_rules_unique_days UNIQUE (organization_id, min_days_before)
+);
+
+ALTER TABLE public.cancellation_policy_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_cancellation_policy_rules_updated_at
+  BEFORE UPDATE ON public.cancellation_policy_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_cancellation_policy_rules_organization_id ON public.cancellation_policy_rules(organization_id);
+
+CREATE POLICY "Organization members can view cancellation policy"
+ON public.cancellation_policy_rules FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can create cancellation policy rules"
+ON public.cancellation_policy_rules FOR INSERT
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can update cancellation policy rules"
+ON public.cancellation_policy_rules FOR UPDATE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can delete cancellation policy rules"
+ON public.cancellation_policy_rules FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 3. REGISTRO DE CANCELAMENTOS
+-- Guarda os valores calculados no momento do cancelamento (a política pode mudar depois).
+CREATE TABLE public.order_cancellations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL,
+  days_before_travel INTEGER NOT NULL,
+  penalty_percent NUMERIC(5,2) NOT NULL,
+  order_total NUMERIC(10,2) NOT NULL,
+  paid_amount NUMERIC(10,2) NOT NULL,
+  penalty_amount NUMERIC(10,2) NOT NULL,
+  refund_amount NUMERIC(10,2) NOT NULL,
+  cancelled_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.order_cancellations ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_order_cancellations_order_id ON public.order_cancellations(order_id);
+CREATE INDEX idx_order_cancellations_organization_id ON public.order_cancellations(organization_id);
+
+-- Somente leitura: os registros são gravados por cancel_order()
+CREATE POLICY "Organization members can view order cancellations"
+ON public.order_cancellations FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+-- 4. REEMBOLSOS
+CREATE TABLE public.order_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  cancellation_id UUID REFERENCES public.order_cancellations(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  status public.refund_status NOT NULL DEFAULT 'pending',
+  refund_method TEXT,
+  refund_date DATE,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.order_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_order_refunds_updated_at
+  BEFORE UPDATE ON public.order_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_order_refunds_order_id ON public.order_refunds(order_id);
+CREATE INDEX idx_order_refunds_organization_id ON public.order_refunds(organization_id);
+
+CREATE POLICY "Organization members can view order refunds"
+ON public.order_refunds FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+-- Agentes marcam o reembolso como devolvido (data e forma de devolução)
+CREATE POLICY "Agents can update order refunds"
+ON public.order_refunds FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- 5. CÁLCULO DO CANCELAMENTO
+-- Executa com as permissões do usuário: só calcula pedidos visíveis para ele.
+CREATE OR REPLACE FUNCTION public.calculate_order_cancellation(_order_id UUID)
+RETURNS TABLE (
+  days_before_travel INTEGER,
+  penalty_percent NUMERIC,
+  order_total NUMERIC,
+  paid_amount NUMERIC,
+  penalty_amount NUMERIC,
+  refund_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  order_row RECORD;
+BEGIN
+  SELECT id, organization_id, travel_date, total_amount
+  INTO order_row
+  FROM public.orders
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido não encontrado.';
+  END IF;
+
+  days_before_travel := order_row.travel_date - (now() AT TIME ZONE 'America/Sao_Paulo')::DATE;
+  order_total := order_row.total_amount;
+
+  SELECT COALESCE((
+    SELECT r.penalty_percent
+    FROM public.cancellation_policy_rules r
+    WHERE r.organization_id = order_row.organization_id
+      AND r.min_days_before <= GREATEST(days_before_travel, 0)
+    ORDER BY r.min_days_before DESC
+    LIMIT 1
+  ), 0)
+  INTO penalty_percent;
+
+  -- Pago = parcelas pagas + pagamentos quitados sem parcelamento
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN EXISTS (SELECT 1 FROM public.installments i WHERE i.payment_id = p.id) THEN
+        (SELECT COALESCE(SUM(i.amount), 0) FROM public.installments i WHERE i.payment_id = p.id AND i.status = 'paid')
+      WHEN p.status = 'paid' THEN p.amount
+      ELSE 0
+    END
+  ), 0)
+  INTO paid_amount
+  FROM public.payments p
+  WHERE p.order_id = _order_id;
+
+  penalty_amount := ROUND(order_total * penalty_percent / 100, 2);
+  refund_amount := GREATEST(paid_amount - penalty_amount, 0);
+
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.calculate_order_cancellation(UUID) TO authenticated;
+
+-- 6. CANCELAR PEDIDO
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  _order_id UUID,
+  _reason TEXT,
+  _refund_method TEXT DEFAULT NULL,
+  _refund_date DATE DEFAULT NULL,
+  _refund_completed BOOLEAN DEFAULT false
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row RECORD;
+  calc RECORD;
+  new_cancellation_id UUID;
+  open_payment_ids UUID[];
+BEGIN
+  SELECT id, organization_id, order_number, status
+  INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR NOT public.is_org_member(auth.uid(), order_row.organization_id)
+    OR public.has_org_role(auth.uid(), order_row.organization_id, 'viewer') THEN
+    RAISE EXCEPTION 'Pedido não encontrado ou sem permissão para cancelá-lo.';
+  END IF;
+
+  IF order_row.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'O pedido % não pode ser cancelado no status atual (%).', order_row.order_number, order_row.status
+      USING ERRCODE = 'P0001', HINT = 'invalid_status_transition';
+  END IF;
+
+  IF COALESCE(TRIM(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo do cancelamento.';
+  END IF;
+
+  SELECT * INTO calc FROM public.calculate_order_cancellation(_order_id);
+
+  INSERT INTO public.order_cancellations (
+    order_id, organization_id, reason, days_before_travel, penalty_percent,
+    order_total, paid_amount, penalty_amount, refund_amount, cancelled_by
+  )
+  VALUES (
+    _order_id, order_row.organization_id, TRIM(_reason), calc.days_before_travel, calc.penalty_percent,
+    calc.order_total, calc.paid_amount, calc.penalty_amount, calc.refund_amount, auth.uid()
+  )
+  RETURNING id INTO new_cancellation_id;
+
+  IF calc.refund_amount > 0 THEN
+    INSERT INTO public.order_refunds (
+      order_id, cancellation_id, organization_id, amount, status, refund_method, refund_date, created_by
+    )
+    VALUES (
+      _order_id, new_cancellation_id, order_row.organization_id, calc.refund_amount,
+      CASE WHEN _refund_completed THEN 'completed' ELSE 'pending' END::public.refund_status,
+      _refund_method, _refund_date, auth.uid()
+    );
+  END IF;
+
+  -- Pagamentos sem valor recebido, identificados antes de cancelar as parcelas (o gatilho
+  -- das parcelas recalcula o status dos pagamentos)
+  SELECT array_agg(id) INTO open_payment_ids
+  FROM public.payments
+  WHERE order_id = _order_id
+    AND status NOT IN ('paid', 'partial');
+
+  -- Parcelas em aberto deixam de ser cobradas
+  UPDATE public.installments
+  SET status = 'cancelled', updated_at = now()
+  WHERE payment_id IN (SELECT id FROM public.payments WHERE order_id = _order_id)
+    AND status <> 'paid';
+
+  -- Pagamentos pagos ou parciais continuam nos recebíveis e no fluxo de caixa; a devolução
+  -- fica registrada somente no reembolso
+  UPDATE public.payments
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = ANY(COALESCE(open_payment_ids, '{}'));
+
+  -- Libera a transição para 'cancelled' e registra o motivo no histórico
+  PERFORM set_config('app.order_cancellation', _order_id::TEXT, true);
+  PERFORM set_config('app.status_change_reason', TRIM(_reason), true);
+
+  UPDATE public.orders
+  SET status = 'cancelled', updated_at = now()
+  WHERE id = _order_id;
+
+  PERFORM set_config('app.order_cancellation', '', true);
+  PERFORM set_config('app.status_change_reason', '', true);
+
+  RETURN new_cancellation_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT, TEXT, DATE, BOOLEAN) TO authenticated;
+
+-- 7. REGRAS DE TRANSIÇÃO: CANCELAMENTO DEFINITIVO E SOMENTE VIA cancel_order()
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(
+  _from public.order_status,
+  _to public.order_status
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _from
+    WHEN 'pending' THEN _to IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN _to IN ('completed', 'cancelled')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transição de status inválida no pedido %: % → %.',
+      OLD.order_number, OLD.status, NEW.status
+      USING ERRCODE = 'P0001', HINT = 'invalid_status_transition';
+  END IF;
+
+  IF NEW.status = 'cancelled'
+    AND COALESCE(current_setting('app.order_cancellation', true), '') <> NEW.id::TEXT THEN
+    RAISE EXCEPTION 'O pedido % deve ser cancelado pelo assistente de cancelamento.', OLD.order_number
+      USING ERRCODE = 'P0001', HINT = 'invalid_status_transition';
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.travel_date > CURRENT_DATE THEN
+    RAISE EXCEPTION 'O pedido % só pode ser concluído a partir da data da viagem (%).',
+      OLD.order_number, to_char(NEW.travel_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'P0001', HINT = 'invalid_status_transition';
+  END IF;
+
+  IF NEW.status = 'confirmed' AND NEW.confirmed_at IS NULL THEN
+    NEW.confirmed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 8. REDISTRIBUIÇÃO DE PARCELAS IGNORA AS CANCELADAS
+CREATE OR REPLACE FUNCTION public.rebalance_payment_installments(_payment_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment_amount NUMERIC;
+  paid_sum NUMERIC;
+  open_count INTEGER;
+  remaining_cents BIGINT;
+  base_cents BIGINT;
+  extra_cents BIGINT;
+BEGIN
+  SELECT amount INTO payment_amount
+  FROM public.payments
+  WHERE id = _payment_id AND status IS DISTINCT FROM 'cancelled';
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE status = 'paid'), 0),
+    COUNT(*) FILTER (WHERE status NOT IN ('paid', 'cancelled'))
+  INTO paid_sum, open_count
+  FROM public.installments
+  WHERE payment_id = _payment_id;
+
+  IF open_count = 0 THEN
+    RETURN;
+  END IF;
+
+  remaining_cents := GREATEST(ROUND((payment_amount - paid_sum) * 100), 0)::BIGINT;
+  base_cents := remaining_cents / open_count;
+  extra_cents := remaining_cents - base_cents * open_count;
+
+  UPDATE public.installments i
+  SET amount = (base_cents + CASE WHEN r.rn <= extra_cents THEN 1 ELSE 0 END) / 100.0,
+      updated_at = now()
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY installment_number) AS rn
+    FROM public.installments
+    WHERE payment_id = _payment_id AND status NOT IN ('paid', 'cancelled')
+  ) r
+  WHERE i.id = r.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebalance_payment_installments(UUID) FROM PUBLIC, anon, authenticated;
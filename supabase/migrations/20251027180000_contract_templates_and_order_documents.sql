@@ -0,0 +1,118 @@
+-- ============================================
+-- MODELOS DE CONTRATO E DOCUMENTOS GERADOS DO PEDIDO
+-- ============================================
+-- O modelo é um texto com marcadores ({{cliente.nome}}, {{parcelas}}, ...) preenchidos no
+-- navegador com os dados do pedido. O PDF gerado fica no bucket privado 'order-documents',
+-- em <organization_id>/<order_id>/<arquivo>.pdf, e é registrado em order_documents.
+
+-- 1. CRIAR ENUM DE TIPO DE DOCUMENTO
+CREATE TYPE public.order_document_type AS ENUM (
+  'contract'  -- Contrato de prestação de serviços de turismo
+);
+
+-- 2. CRIAR TABELA DE MODELOS DE CONTRATO
+CREATE TABLE public.contract_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  title TEXT NOT NULL DEFAULT 'Contrato de Prestação de Serviços de Turismo',
+  body TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.contract_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_contract_templates_updated_at
+  BEFORE UPDATE ON public.contract_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_contract_templates_organization_id ON public.contract_templates(organization_id);
+
+-- Um único modelo padrão por organização
+CREATE UNIQUE INDEX idx_contract_templates_one_default
+  ON public.contract_templates(organization_id)
+  WHERE is_default;
+
+CREATE POLICY "Organization members can view contract templates"
+ON public.contract_templates FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can create contract templates"
+ON public.contract_templates FOR INSERT
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can update contract templates"
+ON public.contract_templates FOR UPDATE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can delete contract templates"
+ON public.contract_templates FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 3. CRIAR TABELA DE DOCUMENTOS DO PEDIDO
+CREATE TABLE public.order_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  document_type public.order_document_type NOT NULL,
+  template_id UUID REFERENCES public.contract_templates(id) ON DELETE SET NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL UNIQUE,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.order_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_order_documents_order_id ON public.order_documents(order_id);
+CREATE INDEX idx_order_documents_organization_id ON public.order_documents(organization_id);
+
+CREATE POLICY "Organization members can view order documents"
+ON public.order_documents FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create order documents"
+ON public.order_documents FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Admins can delete order documents"
+ON public.order_documents FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 4. BUCKET PRIVADO PARA OS ARQUIVOS
+-- A primeira pasta do caminho é o organization_id (controle de acesso por organização).
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('order-documents', 'order-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Organization members can read order documents"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'order-documents'
+  AND public.is_org_member(auth.uid(), ((storage.foldername(name))[1])::UUID)
+);
+
+CREATE POLICY "Agents can upload order documents"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'order-documents'
+  AND public.is_org_member(auth.uid(), ((storage.foldername(name))[1])::UUID)
+  AND NOT public.has_org_role(auth.uid(), ((storage.foldername(name))[1])::UUID, 'viewer')
+);
+
+CREATE POLICY "Admins can delete order document files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'order-documents'
+  AND public.is_org_admin(auth.uid(), ((storage.foldername(name))[1])::UUID)
+);
@@ -0,0 +1,16 @@
+-- ============================================
+-- VOUCHER DE VIAGEM DO PEDIDO
+-- ============================================
+-- O voucher é gerado no navegador para pedidos confirmados e guardado como documento
+-- do pedido. O envio por email (Edge Function send-voucher) fica registrado no documento.
+
+-- 1. NOVO TIPO DE DOCUMENTO
+ALTER TYPE public.order_document_type ADD VALUE IF NOT EXISTS 'voucher';
+
+-- 2. REGISTRO DE ENVIO POR EMAIL
+ALTER TABLE public.order_documents
+  ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS emailed_to TEXT;
+
+COMMENT ON COLUMN public.order_documents.emailed_at IS 'Data/hora do último envio do documento ao cliente por email';
+COMMENT ON COLUMN public.order_documents.emailed_to IS 'Email de destino do último envio';
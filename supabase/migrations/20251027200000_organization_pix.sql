@@ -0,0 +1,41 @@
+-- ============================================
+-- PIX DA ORGANIZAÇÃO (BR CODE ESTÁTICO)
+-- ============================================
+-- A organização cadastra a chave PIX, o nome do recebedor e a cidade. O app monta o
+-- BR Code ("copia e cola") e o QR code de cada parcela em aberto, sem depender de PSP.
+-- Limites de tamanho seguem o padrão EMV do Manual do BR Code (nome 25, cidade 15).
+
+-- 1. CRIAR ENUM DE TIPO DE CHAVE
+CREATE TYPE public.pix_key_type AS ENUM (
+  'cpf',     -- CPF (somente dígitos)
+  'cnpj',    -- CNPJ (somente dígitos)
+  'email',   -- Email
+  'phone',   -- Telefone no formato +55DDDNUMERO
+  'random'   -- Chave aleatória (EVP)
+);
+
+-- 2. CONFIGURAÇÃO NA ORGANIZAÇÃO
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS pix_key TEXT,
+  ADD COLUMN IF NOT EXISTS pix_key_type public.pix_key_type,
+  ADD COLUMN IF NOT EXISTS pix_merchant_name TEXT,
+  ADD COLUMN IF NOT EXISTS pix_merchant_city TEXT;
+
+ALTER TABLE public.organizations
+  ADD CONSTRAINT organizations_pix_key_length
+    CHECK (pix_key IS NULL OR char_length(pix_key) BETWEEN 1 AND 77),
+  ADD CONSTRAINT organizations_pix_merchant_name_length
+    CHECK (pix_merchant_name IS NULL OR char_length(pix_merchant_name) BETWEEN 1 AND 25),
+  ADD CONSTRAINT organizations_pix_merchant_city_length
+    CHECK (pix_merchant_city IS NULL OR char_length(pix_merchant_city) BETWEEN 1 AND 15),
+  -- Com chave cadastrada, tipo, recebedor e cidade são obrigatórios
+  ADD CONSTRAINT organizations_pix_complete
+    CHECK (
+      pix_key IS NULL
+      OR (pix_key_type IS NOT NULL AND pix_merchant_name IS NOT NULL AND pix_merchant_city IS NOT NULL)
+    );
+
+COMMENT ON COLUMN public.organizations.pix_key IS 'Chave PIX usada no BR Code das parcelas';
+COMMENT ON COLUMN public.organizations.pix_key_type IS 'Tipo da chave PIX (cpf, cnpj, email, phone, random)';
+COMMENT ON COLUMN public.organizations.pix_merchant_name IS 'Nome do recebedor no BR Code (até 25 caracteres)';
+COMMENT ON COLUMN public.organizations.pix_merchant_city IS 'Cidade do recebedor no BR Code (até 15 caracteres)';
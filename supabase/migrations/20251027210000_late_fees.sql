@@ -0,0 +1,45 @@
+-- ============================================
+-- MULTA E JUROS POR ATRASO
+-- ============================================
+-- Cada organização define a multa (percentual fixo), os juros (ao dia ou ao mês,
+-- pro rata die) e os dias de carência. O valor atualizado das parcelas vencidas é
+-- calculado no app; ao dar baixa na parcela, a multa e os juros cobrados ficam
+-- registrados separadamente do valor original (installments.amount).
+
+-- 1. CRIAR ENUM DE PERÍODO DOS JUROS
+CREATE TYPE public.late_interest_period AS ENUM (
+  'daily',   -- Percentual ao dia
+  'monthly'  -- Percentual ao mês, proporcional aos dias (30 dias)
+);
+
+-- 2. REGRAS NA ORGANIZAÇÃO
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS late_fee_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS late_interest_percent DECIMAL(6,3) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS late_interest_period public.late_interest_period NOT NULL DEFAULT 'monthly',
+  ADD COLUMN IF NOT EXISTS late_fee_grace_days INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.organizations
+  ADD CONSTRAINT organizations_late_fee_percent_range
+    CHECK (late_fee_percent BETWEEN 0 AND 100),
+  ADD CONSTRAINT organizations_late_interest_percent_range
+    CHECK (late_interest_percent BETWEEN 0 AND 100),
+  ADD CONSTRAINT organizations_late_fee_grace_days_range
+    CHECK (late_fee_grace_days BETWEEN 0 AND 60);
+
+COMMENT ON COLUMN public.organizations.late_fee_percent IS 'Multa por atraso (% sobre o valor da parcela, cobrada uma vez)';
+COMMENT ON COLUMN public.organizations.late_interest_percent IS 'Juros de mora (% por período, sobre o valor da parcela)';
+COMMENT ON COLUMN public.organizations.late_interest_period IS 'Período dos juros: daily (ao dia) ou monthly (ao mês, pro rata die)';
+COMMENT ON COLUMN public.organizations.late_fee_grace_days IS 'Dias de carência após o vencimento sem cobrança de multa e juros';
+
+-- 3. ENCARGOS COBRADOS NA BAIXA DA PARCELA
+ALTER TABLE public.installments
+  ADD COLUMN IF NOT EXISTS late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS interest_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.installments
+  ADD CONSTRAINT installments_late_charges_non_negative
+    CHECK (late_fee_amount >= 0 AND interest_amount >= 0);
+
+COMMENT ON COLUMN public.installments.late_fee_amount IS 'Multa por atraso cobrada na baixa da parcela';
+COMMENT ON COLUMN public.installments.interest_amount IS 'Juros de mora cobrados na baixa da parcela';
@@ -0,0 +1,352 @@
+-- ============================================
+-- PAGAMENTOS PARCIAIS DE PARCELAS
+-- ============================================
+-- Cada recebimento passa a ser um lançamento em installment_payments (valor, data,
+-- forma de pagamento e encargos). A parcela guarda o total pago (paid_amount) e tem o
+-- status derivado: pending/overdue sem pagamentos, partial com pagamento parcial e
+-- paid quando o total pago alcança o valor da parcela.
+-- O status do pagamento (payments) passa a considerar os valores pagos das parcelas
+-- em vez da quantidade de parcelas pagas.
+
+-- 1. TOTAL PAGO NA PARCELA
+ALTER TABLE public.installments
+  ADD COLUMN IF NOT EXISTS paid_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.installments
+  ADD CONSTRAINT installments_paid_amount_non_negative CHECK (paid_amount >= 0);
+
+COMMENT ON COLUMN public.installments.paid_amount IS 'Total recebido na parcela (soma de installment_payments)';
+
+-- 2. CRIAR TABELA DE LANÇAMENTOS
+CREATE TABLE public.installment_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  installment_id UUID REFERENCES public.installments(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (late_fee_amount >= 0),
+  interest_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (interest_amount >= 0),
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  payment_method TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON COLUMN public.installment_payments.amount IS 'Valor abatido da parcela (sem multa e juros)';
+COMMENT ON COLUMN public.installment_payments.late_fee_amount IS 'Multa cobrada neste recebimento';
+COMMENT ON COLUMN public.installment_payments.interest_amount IS 'Juros cobrados neste recebimento';
+
+ALTER TABLE public.installment_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_installment_payments_installment_id ON public.installment_payments(installment_id);
+CREATE INDEX idx_installment_payments_organization_id ON public.installment_payments(organization_id);
+CREATE INDEX idx_installment_payments_payment_date ON public.installment_payments(payment_date);
+
+CREATE POLICY "Organization members can view installment payments"
+ON public.installment_payments FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create installment payments"
+ON public.installment_payments FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- Lançamentos não são editados: um lançamento incorreto é estornado (excluído) e refeito
+CREATE POLICY "Agents can delete installment payments"
+ON public.installment_payments FOR DELETE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- 3. STATUS DA PARCELA DERIVADO DO VALOR PAGO
+CREATE OR REPLACE FUNCTION public.derive_installment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.paid_amount > NEW.amount THEN
+    RAISE EXCEPTION 'O valor pago (%) excede o valor da parcela (%).', NEW.paid_amount, NEW.amount
+      USING ERRCODE = 'P0001', HINT = 'installment_overpayment';
+  END IF;
+
+  -- Quitação manual sem lançamento não é aceita: o recebimento deve ser registrado
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.status IN ('paid', 'partial')
+    AND NEW.paid_amount IS NOT DISTINCT FROM OLD.paid_amount THEN
+    RAISE EXCEPTION 'Registre o recebimento para alterar a parcela % para paga.', NEW.installment_number
+      USING ERRCODE = 'P0001', HINT = 'installment_payment_required';
+  END IF;
+
+  NEW.status := CASE
+    WHEN NEW.amount > 0 AND NEW.paid_amount >= NEW.amount THEN 'paid'::payment_status
+    WHEN NEW.paid_amount > 0 THEN 'partial'::payment_status
+    WHEN NEW.status IN ('paid', 'partial') THEN
+      CASE WHEN NEW.due_date < CURRENT_DATE THEN 'overdue'::payment_status ELSE 'pending'::payment_status END
+    ELSE NEW.status
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER derive_installment_status
+  BEFORE INSERT OR UPDATE OF amount, paid_amount, status ON public.installments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.derive_installment_status();
+
+-- 4. VALIDAÇÃO DO LANÇAMENTO
+CREATE OR REPLACE FUNCTION public.validate_installment_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  installment_row RECORD;
+BEGIN
+  SELECT organization_id, status, installment_number
+  INTO installment_row
+  FROM public.installments
+  WHERE id = NEW.installment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parcela não encontrada.';
+  END IF;
+
+  IF installment_row.status = 'cancelled' THEN
+    RAISE EXCEPTION 'A parcela % está cancelada e não pode receber pagamentos.', installment_row.installment_number
+      USING ERRCODE = 'P0001', HINT = 'installment_cancelled';
+  END IF;
+
+  NEW.organization_id := installment_row.organization_id;
+  IF NEW.created_by IS NULL THEN
+    NEW.created_by := auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_installment_payment
+  BEFORE INSERT ON public.installment_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_installment_payment();
+
+-- 5. TOTAIS DA PARCELA A PARTIR DOS LANÇAMENTOS
+-- Data e forma de pagamento da parcela refletem o último recebimento.
+CREATE OR REPLACE FUNCTION public.sync_installment_paid_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_id UUID := COALESCE(NEW.installment_id, OLD.installment_id);
+BEGIN
+  UPDATE public.installments i
+  SET paid_amount = totals.paid_amount,
+      late_fee_amount = totals.late_fee_amount,
+      interest_amount = totals.interest_amount,
+      payment_date = last_payment.payment_date,
+      payment_method = COALESCE(last_payment.payment_method, i.payment_method),
+      updated_at = now()
+  FROM (
+    SELECT
+      COALESCE(SUM(amount), 0) AS paid_amount,
+      COALESCE(SUM(late_fee_amount), 0) AS late_fee_amount,
+      COALESCE(SUM(interest_amount), 0) AS interest_amount
+    FROM public.installment_payments
+    WHERE installment_id = target_id
+  ) totals
+  LEFT JOIN LATERAL (
+    SELECT ip.payment_date, ip.payment_method
+    FROM public.installment_payments ip
+    WHERE ip.installment_id = target_id
+    ORDER BY ip.payment_date DESC, ip.created_at DESC
+    LIMIT 1
+  ) last_payment ON true
+  WHERE i.id = target_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER sync_installment_paid_amount
+  AFTER INSERT OR DELETE ON public.installment_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_installment_paid_amount();
+
+-- 6. STATUS DO PAGAMENTO PELOS VALORES PAGOS
+CREATE OR REPLACE FUNCTION public.update_payment_status_from_installments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+DECLARE
+  target_payment_id UUID := COALESCE(NEW.payment_id, OLD.payment_id);
+  total_amount NUMERIC;
+  paid_total NUMERIC;
+  overdue_installments INTEGER;
+BEGIN
+  -- Pagamentos cancelados mantêm o status
+  IF EXISTS (SELECT 1 FROM public.payments WHERE id = target_payment_id AND status = 'cancelled') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount), 0),
+    COALESCE(SUM(paid_amount), 0),
+    COUNT(*) FILTER (WHERE status = 'overdue' OR (status IN ('pending', 'partial') AND due_date < CURRENT_DATE))
+  INTO total_amount, paid_total, overdue_installments
+  FROM public.installments
+  WHERE payment_id = target_payment_id
+    AND status <> 'cancelled';
+
+  UPDATE public.payments
+  SET status = CASE
+    WHEN total_amount > 0 AND paid_total >= total_amount THEN 'paid'::payment_status
+    WHEN paid_total > 0 THEN 'partial'::payment_status
+    WHEN overdue_installments > 0 THEN 'overdue'::payment_status
+    ELSE 'pending'::payment_status
+  END,
+  updated_at = now()
+  WHERE id = target_payment_id;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+-- 7. REDISTRIBUIÇÃO MANTÉM PARCELAS COM PAGAMENTO PARCIAL
+-- Parcelas pagas ou parcialmente pagas mantêm o valor; o saldo é dividido entre as demais.
+CREATE OR REPLACE FUNCTION public.rebalance_payment_installments(_payment_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment_amount NUMERIC;
+  fixed_sum NUMERIC;
+  open_count INTEGER;
+  remaining_cents BIGINT;
+  base_cents BIGINT;
+  extra_cents BIGINT;
+BEGIN
+  SELECT amount INTO payment_amount
+  FROM public.payments
+  WHERE id = _payment_id AND status IS DISTINCT FROM 'cancelled';
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE status IN ('paid', 'partial')), 0),
+    COUNT(*) FILTER (WHERE status IN ('pending', 'overdue'))
+  INTO fixed_sum, open_count
+  FROM public.installments
+  WHERE payment_id = _payment_id;
+
+  IF open_count = 0 THEN
+    RETURN;
+  END IF;
+
+  remaining_cents := GREATEST(ROUND((payment_amount - fixed_sum) * 100), 0)::BIGINT;
+  base_cents := remaining_cents / open_count;
+  extra_cents := remaining_cents - base_cents * open_count;
+
+  UPDATE public.installments i
+  SET amount = (base_cents + CASE WHEN r.rn <= extra_cents THEN 1 ELSE 0 END) / 100.0,
+      updated_at = now()
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY installment_number) AS rn
+    FROM public.installments
+    WHERE payment_id = _payment_id AND status IN ('pending', 'overdue')
+  ) r
+  WHERE i.id = r.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebalance_payment_installments(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_installment_paid_amount() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.validate_installment_payment() FROM PUBLIC, anon, authenticated;
+
+-- 8. CÁLCULO DO CANCELAMENTO USA O VALOR RECEBIDO NAS PARCELAS
+CREATE OR REPLACE FUNCTION public.calculate_order_cancellation(_order_id UUID)
+RETURNS TABLE (
+  days_before_travel INTEGER,
+  penalty_percent NUMERIC,
+  order_total NUMERIC,
+  paid_amount NUMERIC,
+  penalty_amount NUMERIC,
+  refund_amount NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  order_row RECORD;
+BEGIN
+  SELECT id, organization_id, travel_date, total_amount
+  INTO order_row
+  FROM public.orders
+  WHERE id = _order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido não encontrado.';
+  END IF;
+
+  days_before_travel := order_row.travel_date - (now() AT TIME ZONE 'America/Sao_Paulo')::DATE;
+  order_total := order_row.total_amount;
+
+  SELECT COALESCE((
+    SELECT r.penalty_percent
+    FROM public.cancellation_policy_rules r
+    WHERE r.organization_id = order_row.organization_id
+      AND r.min_days_before <= GREATEST(days_before_travel, 0)
+    ORDER BY r.min_days_before DESC
+    LIMIT 1
+  ), 0)
+  INTO penalty_percent;
+
+  -- Pago = valores recebidos nas parcelas (inclusive parciais) + pagamentos quitados sem parcelamento
+  SELECT COALESCE(SUM(
+    CASE
+      WHEN EXISTS (SELECT 1 FROM public.installments i WHERE i.payment_id = p.id) THEN
+        (SELECT COALESCE(SUM(i.paid_amount), 0) FROM public.installments i WHERE i.payment_id = p.id)
+      WHEN p.status = 'paid' THEN p.amount
+      ELSE 0
+    END
+  ), 0)
+  INTO paid_amount
+  FROM public.payments p
+  WHERE p.order_id = _order_id;
+
+  penalty_amount := ROUND(order_total * penalty_percent / 100, 2);
+  refund_amount := GREATEST(paid_amount - penalty_amount, 0);
+
+  RETURN NEXT;
+END;
+$$;
+
+-- 9. MIGRAR PARCELAS JÁ PAGAS PARA O NOVO MODELO
+INSERT INTO public.installment_payments (
+  installment_id, organization_id, amount, late_fee_amount, interest_amount,
+  payment_date, payment_method, notes, created_at
+)
+SELECT
+  i.id, i.organization_id, i.amount, i.late_fee_amount, i.interest_amount,
+  COALESCE(i.payment_date, i.updated_at::DATE, CURRENT_DATE), i.payment_method,
+  'Pagamento registrado antes do controle de pagamentos parciais', COALESCE(i.updated_at, now())
+FROM public.installments i
+WHERE i.status = 'paid' AND i.amount > 0;
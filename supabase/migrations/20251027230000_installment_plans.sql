@@ -0,0 +1,125 @@
+-- ============================================
+-- PLANO DE PARCELAMENTO: ENTRADA, INTERVALOS E ACRÉSCIMOS
+-- ============================================
+-- O parcelamento passa a ser montado no app (entrada, intervalo entre vencimentos e
+-- acréscimo por forma de pagamento). A organização cadastra faixas de acréscimo por
+-- forma de pagamento e quantidade de parcelas (ex.: cartão de 7x a 12x com 6%).
+-- O acréscimo aplicado fica registrado no pagamento e é mantido na redistribuição
+-- das parcelas quando o valor do pedido muda.
+
+-- 1. FAIXAS DE ACRÉSCIMO POR FORMA DE PAGAMENTO
+-- Vale a faixa com o maior min_installments que seja <= quantidade de parcelas.
+CREATE TABLE public.installment_surcharge_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  payment_method TEXT NOT NULL,
+  min_installments INTEGER NOT NULL CHECK (min_installments BETWEEN 1 AND 24),
+  surcharge_percent NUMERIC(5,2) NOT NULL CHECK (surcharge_percent >= 0 AND surcharge_percent <= 100),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT installment_surcharge_rules_unique_range UNIQUE (organization_id, payment_method, min_installments)
+);
+
+ALTER TABLE public.installment_surcharge_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_installment_surcharge_rules_updated_at
+  BEFORE UPDATE ON public.installment_surcharge_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_installment_surcharge_rules_organization_id ON public.installment_surcharge_rules(organization_id);
+
+CREATE POLICY "Organization members can view installment surcharge rules"
+ON public.installment_surcharge_rules FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can create installment surcharge rules"
+ON public.installment_surcharge_rules FOR INSERT
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can update installment surcharge rules"
+ON public.installment_surcharge_rules FOR UPDATE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can delete installment surcharge rules"
+ON public.installment_surcharge_rules FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 2. ENTRADA E ACRÉSCIMO DO PARCELAMENTO
+ALTER TABLE public.installments
+  ADD COLUMN IF NOT EXISTS is_down_payment BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS surcharge_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_surcharge_amount_non_negative CHECK (surcharge_amount >= 0);
+
+COMMENT ON COLUMN public.installments.is_down_payment IS 'Parcela de entrada do plano de parcelamento';
+COMMENT ON COLUMN public.payments.surcharge_amount IS 'Acréscimo do parcelamento (juros/taxa da forma de pagamento) somado às parcelas';
+
+-- 3. REDISTRIBUIÇÃO CONSIDERA ACRÉSCIMO E ENTRADA
+-- As parcelas somam amount + surcharge_amount. A entrada em aberto mantém o valor
+-- enquanto houver outras parcelas em aberto para absorver a diferença.
+CREATE OR REPLACE FUNCTION public.rebalance_payment_installments(_payment_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment_total NUMERIC;
+  fixed_sum NUMERIC;
+  open_down_payment_sum NUMERIC;
+  open_count INTEGER;
+  open_regular_count INTEGER;
+  keep_down_payment BOOLEAN;
+  remaining_cents BIGINT;
+  base_cents BIGINT;
+  extra_cents BIGINT;
+BEGIN
+  SELECT amount + surcharge_amount INTO payment_total
+  FROM public.payments
+  WHERE id = _payment_id AND status IS DISTINCT FROM 'cancelled';
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE status IN ('paid', 'partial')), 0),
+    COALESCE(SUM(amount) FILTER (WHERE status IN ('pending', 'overdue') AND is_down_payment), 0),
+    COUNT(*) FILTER (WHERE status IN ('pending', 'overdue')),
+    COUNT(*) FILTER (WHERE status IN ('pending', 'overdue') AND NOT is_down_payment)
+  INTO fixed_sum, open_down_payment_sum, open_count, open_regular_count
+  FROM public.installments
+  WHERE payment_id = _payment_id;
+
+  IF open_count = 0 THEN
+    RETURN;
+  END IF;
+
+  keep_down_payment := open_regular_count > 0;
+  IF keep_down_payment THEN
+    fixed_sum := fixed_sum + open_down_payment_sum;
+    open_count := open_regular_count;
+  END IF;
+
+  remaining_cents := GREATEST(ROUND((payment_total - fixed_sum) * 100), 0)::BIGINT;
+  base_cents := remaining_cents / open_count;
+  extra_cents := remaining_cents - base_cents * open_count;
+
+  UPDATE public.installments i
+  SET amount = (base_cents + CASE WHEN r.rn <= extra_cents THEN 1 ELSE 0 END) / 100.0,
+      updated_at = now()
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (ORDER BY installment_number) AS rn
+    FROM public.installments
+    WHERE payment_id = _payment_id
+      AND status IN ('pending', 'overdue')
+      AND (NOT keep_down_payment OR NOT is_down_payment)
+  ) r
+  WHERE i.id = r.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebalance_payment_installments(UUID) FROM PUBLIC, anon, authenticated;
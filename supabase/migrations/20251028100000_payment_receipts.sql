@@ -0,0 +1,177 @@
+-- ============================================
+-- RECIBOS DE PAGAMENTO COM NUMERAÇÃO SEQUENCIAL
+-- ============================================
+-- Cada recebimento lançado em installment_payments gera um recibo numerado por
+-- organização (REC-000001, REC-000002, ...). O recibo guarda uma cópia dos dados do
+-- pagador e dos valores no momento da emissão. Se o recebimento for estornado, o
+-- recibo é marcado como cancelado (o número não é reaproveitado).
+-- O PDF do recibo é gerado no app e registrado nos documentos do pedido.
+
+-- 1. NOVO TIPO DE DOCUMENTO
+ALTER TYPE public.order_document_type ADD VALUE IF NOT EXISTS 'receipt';
+
+-- 2. SEQUÊNCIA DE RECIBOS POR ORGANIZAÇÃO
+CREATE TABLE public.receipt_number_sequences (
+  organization_id UUID PRIMARY KEY REFERENCES public.organizations(id) ON DELETE CASCADE,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Somente as funções do banco acessam a tabela (sem políticas para usuários)
+ALTER TABLE public.receipt_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- 3. CRIAR TABELA DE RECIBOS
+CREATE TABLE public.payment_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  installment_payment_id UUID UNIQUE REFERENCES public.installment_payments(id) ON DELETE SET NULL,
+  installment_id UUID REFERENCES public.installments(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  receipt_number TEXT NOT NULL,
+  payer_name TEXT NOT NULL,
+  payer_cpf TEXT,
+  amount DECIMAL(10,2) NOT NULL,
+  principal_amount DECIMAL(10,2) NOT NULL,
+  late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  interest_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  payment_method TEXT,
+  payment_date DATE NOT NULL,
+  description TEXT NOT NULL,
+  cancelled_at TIMESTAMPTZ,
+  emailed_at TIMESTAMPTZ,
+  emailed_to TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT payment_receipts_number_per_org UNIQUE (organization_id, receipt_number)
+);
+
+COMMENT ON COLUMN public.payment_receipts.amount IS 'Valor total recebido (parcela + multa + juros)';
+COMMENT ON COLUMN public.payment_receipts.principal_amount IS 'Valor abatido da parcela';
+COMMENT ON COLUMN public.payment_receipts.cancelled_at IS 'Preenchido quando o recebimento é estornado';
+
+ALTER TABLE public.payment_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_payment_receipts_organization_id ON public.payment_receipts(organization_id);
+CREATE INDEX idx_payment_receipts_order_id ON public.payment_receipts(order_id);
+CREATE INDEX idx_payment_receipts_installment_id ON public.payment_receipts(installment_id);
+
+-- Recibos são emitidos e cancelados apenas pelo banco
+CREATE POLICY "Organization members can view payment receipts"
+ON public.payment_receipts FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+-- 4. EMISSÃO DO RECIBO
+CREATE OR REPLACE FUNCTION public.create_payment_receipt(_installment_payment_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry RECORD;
+  next_number INTEGER;
+  receipt_id UUID;
+BEGIN
+  SELECT
+    ip.id, ip.organization_id, ip.installment_id, ip.amount, ip.late_fee_amount,
+    ip.interest_amount, ip.payment_method, ip.payment_date, ip.created_by,
+    i.installment_number, i.total_installments, i.is_down_payment,
+    o.id AS order_id, o.order_number,
+    c.full_name AS customer_name, c.cpf AS customer_cpf
+  INTO entry
+  FROM public.installment_payments ip
+  JOIN public.installments i ON i.id = ip.installment_id
+  JOIN public.payments p ON p.id = i.payment_id
+  JOIN public.orders o ON o.id = p.order_id
+  LEFT JOIN public.customers c ON c.id = o.customer_id
+  WHERE ip.id = _installment_payment_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.receipt_number_sequences AS s (organization_id, last_number)
+  VALUES (entry.organization_id, 1)
+  ON CONFLICT (organization_id)
+  DO UPDATE SET last_number = s.last_number + 1, updated_at = now()
+  RETURNING last_number INTO next_number;
+
+  INSERT INTO public.payment_receipts (
+    organization_id, installment_payment_id, installment_id, order_id, receipt_number,
+    payer_name, payer_cpf, amount, principal_amount, late_fee_amount, interest_amount,
+    payment_method, payment_date, description, created_by
+  )
+  VALUES (
+    entry.organization_id, entry.id, entry.installment_id, entry.order_id,
+    'REC-' || LPAD(next_number::TEXT, GREATEST(6, LENGTH(next_number::TEXT)), '0'),
+    COALESCE(entry.customer_name, 'Cliente'), entry.customer_cpf,
+    entry.amount + entry.late_fee_amount + entry.interest_amount,
+    entry.amount, entry.late_fee_amount, entry.interest_amount,
+    entry.payment_method, entry.payment_date,
+    CASE
+      WHEN entry.is_down_payment THEN 'entrada do pedido ' || entry.order_number
+      ELSE 'parcela ' || entry.installment_number || '/' || entry.total_installments || ' do pedido ' || entry.order_number
+    END,
+    entry.created_by
+  )
+  RETURNING id INTO receipt_id;
+
+  RETURN receipt_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.issue_payment_receipt()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_payment_receipt(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER issue_payment_receipt
+  AFTER INSERT ON public.installment_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.issue_payment_receipt();
+
+-- 5. ESTORNO CANCELA O RECIBO
+CREATE OR REPLACE FUNCTION public.cancel_payment_receipt()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.payment_receipts
+  SET cancelled_at = now()
+  WHERE installment_payment_id = OLD.id AND cancelled_at IS NULL;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER cancel_payment_receipt
+  BEFORE DELETE ON public.installment_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.cancel_payment_receipt();
+
+-- Funções internas: executadas apenas pelos triggers
+REVOKE EXECUTE ON FUNCTION public.create_payment_receipt(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.issue_payment_receipt() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_payment_receipt() FROM PUBLIC, anon, authenticated;
+
+-- 6. RECIBOS DOS RECEBIMENTOS JÁ LANÇADOS (em ordem de pagamento)
+DO $$
+DECLARE
+  entry RECORD;
+BEGIN
+  FOR entry IN
+    SELECT id FROM public.installment_payments
+    ORDER BY organization_id, payment_date, created_at, id
+  LOOP
+    PERFORM public.create_payment_receipt(entry.id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,133 @@
+-- ============================================
+-- IMPORTAÇÃO DE EXTRATO BANCÁRIO E CONCILIAÇÃO
+-- ============================================
+-- O financeiro importa o extrato (OFX ou CSV) e o app sugere a parcela em aberto de
+-- cada crédito (valor, data e nome do cliente). Ao confirmar, o crédito é lançado como
+-- recebimento da parcela (installment_payments) com a data do banco. Créditos sem
+-- correspondência ficam na fila de conciliação até serem conciliados ou ignorados.
+-- Cada lançamento do banco é importado uma única vez (fit_id por organização).
+
+-- 1. ENUMS
+CREATE TYPE public.bank_statement_format AS ENUM ('ofx', 'csv');
+CREATE TYPE public.bank_entry_status AS ENUM ('pending', 'matched', 'ignored');
+
+-- 2. CRIAR TABELA DE IMPORTAÇÕES
+CREATE TABLE public.bank_statement_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  file_name TEXT NOT NULL,
+  file_format public.bank_statement_format NOT NULL,
+  bank_name TEXT,
+  account_id TEXT,
+  period_start DATE,
+  period_end DATE,
+  total_entries INTEGER NOT NULL DEFAULT 0,
+  imported_entries INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON COLUMN public.bank_statement_imports.total_entries IS 'Créditos encontrados no arquivo';
+COMMENT ON COLUMN public.bank_statement_imports.imported_entries IS 'Créditos novos (os já importados antes são ignorados)';
+
+-- 3. CRIAR TABELA DE LANÇAMENTOS DO EXTRATO
+CREATE TABLE public.bank_statement_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  import_id UUID REFERENCES public.bank_statement_imports(id) ON DELETE CASCADE NOT NULL,
+  fit_id TEXT NOT NULL,
+  posted_date DATE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  description TEXT NOT NULL DEFAULT '',
+  status public.bank_entry_status NOT NULL DEFAULT 'pending',
+  installment_payment_id UUID UNIQUE REFERENCES public.installment_payments(id) ON DELETE SET NULL,
+  matched_at TIMESTAMPTZ,
+  matched_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT bank_statement_entries_unique_fit_id UNIQUE (organization_id, fit_id),
+  CONSTRAINT bank_statement_entries_matched_payment CHECK (status <> 'matched' OR installment_payment_id IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.bank_statement_entries.fit_id IS 'Identificador do lançamento no banco (FITID do OFX ou chave gerada para CSV)';
+
+-- 4. HABILITAR RLS
+ALTER TABLE public.bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_bank_statement_entries_updated_at
+  BEFORE UPDATE ON public.bank_statement_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 5. ÍNDICES
+CREATE INDEX idx_bank_statement_imports_organization_id ON public.bank_statement_imports(organization_id);
+CREATE INDEX idx_bank_statement_entries_organization_id ON public.bank_statement_entries(organization_id);
+CREATE INDEX idx_bank_statement_entries_import_id ON public.bank_statement_entries(import_id);
+CREATE INDEX idx_bank_statement_entries_status ON public.bank_statement_entries(status);
+
+-- 6. POLÍTICAS
+CREATE POLICY "Organization members can view bank statement imports"
+ON public.bank_statement_imports FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create bank statement imports"
+ON public.bank_statement_imports FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update bank statement imports"
+ON public.bank_statement_imports FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Admins can delete bank statement imports"
+ON public.bank_statement_imports FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Organization members can view bank statement entries"
+ON public.bank_statement_entries FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create bank statement entries"
+ON public.bank_statement_entries FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update bank statement entries"
+ON public.bank_statement_entries FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- 7. ESTORNO DO RECEBIMENTO DEVOLVE O CRÉDITO PARA A FILA
+CREATE OR REPLACE FUNCTION public.release_bank_statement_entry()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.bank_statement_entries
+  SET status = 'pending',
+      installment_payment_id = NULL,
+      matched_at = NULL,
+      matched_by = NULL
+  WHERE installment_payment_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER release_bank_statement_entry
+  BEFORE DELETE ON public.installment_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.release_bank_statement_entry();
+
+REVOKE EXECUTE ON FUNCTION public.release_bank_statement_entry() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,237 @@
+-- ============================================
+-- BOLETOS: REMESSA E RETORNO CNAB 240/400
+-- ============================================
+-- A organização cadastra os dados da conta de cobrança (banco, agência, conta, carteira,
+-- convênio e layout CNAB). O app gera o arquivo de remessa das parcelas selecionadas e
+-- processa o arquivo de retorno do banco, baixando as parcelas liquidadas.
+-- Cada parcela enviada recebe um "nosso número" sequencial por organização, usado para
+-- localizar a parcela no retorno. Todos os arquivos ficam registrados com o resultado
+-- de cada linha.
+
+-- 1. ENUMS
+CREATE TYPE public.cnab_layout AS ENUM ('cnab240', 'cnab400');
+CREATE TYPE public.cnab_file_type AS ENUM ('remittance', 'return');
+CREATE TYPE public.cnab_line_outcome AS ENUM (
+  'registered',   -- Parcela enviada na remessa
+  'confirmed',    -- Entrada confirmada pelo banco
+  'settled',      -- Liquidação: recebimento lançado na parcela
+  'already_paid', -- Liquidação de parcela já quitada (nada lançado)
+  'not_found',    -- Nosso número sem parcela correspondente
+  'rejected',     -- Entrada rejeitada pelo banco
+  'ignored',      -- Outras ocorrências (baixa, tarifa, alteração)
+  'error'         -- Falha ao lançar o recebimento
+);
+
+-- 2. CONTA DE COBRANÇA NA ORGANIZAÇÃO
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS boleto_bank_code TEXT,
+  ADD COLUMN IF NOT EXISTS boleto_agency TEXT,
+  ADD COLUMN IF NOT EXISTS boleto_agency_digit TEXT,
+  ADD COLUMN IF NOT EXISTS boleto_account TEXT,
+  ADD COLUMN IF NOT EXISTS boleto_account_digit TEXT,
+  ADD COLUMN IF NOT EXISTS boleto_wallet TEXT,
+  ADD COLUMN IF NOT EXISTS boleto_agreement_code TEXT,
+  ADD COLUMN IF NOT EXISTS boleto_cnab_layout public.cnab_layout,
+  ADD COLUMN IF NOT EXISTS boleto_remittance_sequence INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS boleto_our_number_sequence BIGINT NOT NULL DEFAULT 0;
+
+ALTER TABLE public.organizations
+  ADD CONSTRAINT organizations_boleto_bank_code_format
+    CHECK (boleto_bank_code IS NULL OR boleto_bank_code ~ '^[0-9]{3}$'),
+  ADD CONSTRAINT organizations_boleto_agency_format
+    CHECK (boleto_agency IS NULL OR boleto_agency ~ '^[0-9]{1,5}$'),
+  ADD CONSTRAINT organizations_boleto_account_format
+    CHECK (boleto_account IS NULL OR boleto_account ~ '^[0-9]{1,12}$'),
+  -- Com banco cadastrado, agência, conta, carteira e layout são obrigatórios
+  ADD CONSTRAINT organizations_boleto_complete
+    CHECK (
+      boleto_bank_code IS NULL
+      OR (
+        boleto_agency IS NOT NULL AND boleto_account IS NOT NULL AND boleto_account_digit IS NOT NULL
+        AND boleto_wallet IS NOT NULL AND boleto_cnab_layout IS NOT NULL
+      )
+    );
+
+COMMENT ON COLUMN public.organizations.boleto_agreement_code IS 'Convênio / código do beneficiário na cobrança do banco';
+COMMENT ON COLUMN public.organizations.boleto_remittance_sequence IS 'Último número sequencial de remessa (NSA) enviado';
+COMMENT ON COLUMN public.organizations.boleto_our_number_sequence IS 'Último nosso número atribuído a uma parcela';
+
+-- 3. CRIAR TABELA DE ARQUIVOS CNAB
+CREATE TABLE public.cnab_files (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  file_type public.cnab_file_type NOT NULL,
+  layout public.cnab_layout NOT NULL,
+  file_name TEXT NOT NULL,
+  sequence_number INTEGER,
+  content TEXT NOT NULL DEFAULT '',
+  content_hash TEXT,
+  total_lines INTEGER NOT NULL DEFAULT 0,
+  processed_lines INTEGER NOT NULL DEFAULT 0,
+  error_lines INTEGER NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON COLUMN public.cnab_files.sequence_number IS 'Número sequencial da remessa (NSA)';
+COMMENT ON COLUMN public.cnab_files.content_hash IS 'SHA-256 do arquivo de retorno (impede processar o mesmo arquivo duas vezes)';
+
+-- 4. CRIAR TABELA DE LINHAS PROCESSADAS
+CREATE TABLE public.cnab_file_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID REFERENCES public.cnab_files(id) ON DELETE CASCADE NOT NULL,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  line_number INTEGER NOT NULL,
+  installment_id UUID REFERENCES public.installments(id) ON DELETE SET NULL,
+  our_number BIGINT,
+  occurrence_code TEXT,
+  amount DECIMAL(10,2),
+  paid_amount DECIMAL(10,2),
+  occurrence_date DATE,
+  outcome public.cnab_line_outcome NOT NULL,
+  message TEXT,
+  installment_payment_id UUID REFERENCES public.installment_payments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- 5. NOSSO NÚMERO NA PARCELA
+ALTER TABLE public.installments
+  ADD COLUMN IF NOT EXISTS boleto_our_number BIGINT,
+  ADD COLUMN IF NOT EXISTS boleto_remittance_id UUID REFERENCES public.cnab_files(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.installments.boleto_our_number IS 'Nosso número do boleto (sequencial por organização)';
+COMMENT ON COLUMN public.installments.boleto_remittance_id IS 'Última remessa CNAB que enviou a parcela';
+
+-- 6. HABILITAR RLS E ÍNDICES
+ALTER TABLE public.cnab_files ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cnab_file_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_cnab_files_organization_id ON public.cnab_files(organization_id);
+CREATE INDEX idx_cnab_file_lines_file_id ON public.cnab_file_lines(file_id);
+CREATE INDEX idx_cnab_file_lines_installment_id ON public.cnab_file_lines(installment_id);
+CREATE UNIQUE INDEX idx_cnab_files_return_hash
+  ON public.cnab_files(organization_id, content_hash)
+  WHERE file_type = 'return';
+CREATE UNIQUE INDEX idx_installments_boleto_our_number
+  ON public.installments(organization_id, boleto_our_number)
+  WHERE boleto_our_number IS NOT NULL;
+
+-- 7. POLÍTICAS
+CREATE POLICY "Organization members can view cnab files"
+ON public.cnab_files FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create cnab files"
+ON public.cnab_files FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update cnab files"
+ON public.cnab_files FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Organization members can view cnab file lines"
+ON public.cnab_file_lines FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create cnab file lines"
+ON public.cnab_file_lines FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+-- 8. REMESSA: NUMERAÇÃO ATÔMICA
+-- Incrementa o NSA da organização, registra o arquivo e atribui o nosso número às
+-- parcelas que ainda não têm. O conteúdo do arquivo é montado no app em seguida.
+CREATE OR REPLACE FUNCTION public.create_boleto_remittance(
+  _organization_id UUID,
+  _installment_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  remittance_sequence INTEGER;
+  remittance_layout public.cnab_layout;
+  new_file_id UUID;
+  inst RECORD;
+  next_our_number BIGINT;
+  found_count INTEGER := 0;
+BEGIN
+  IF NOT public.is_org_member(auth.uid(), _organization_id)
+    OR public.has_org_role(auth.uid(), _organization_id, 'viewer') THEN
+    RAISE EXCEPTION 'Sem permissão para gerar remessa de boletos.';
+  END IF;
+
+  IF COALESCE(array_length(_installment_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Selecione ao menos uma parcela.'
+      USING ERRCODE = 'P0001', HINT = 'boleto_no_installments';
+  END IF;
+
+  UPDATE public.organizations
+  SET boleto_remittance_sequence = boleto_remittance_sequence + 1
+  WHERE id = _organization_id AND boleto_bank_code IS NOT NULL
+  RETURNING boleto_remittance_sequence, boleto_cnab_layout
+  INTO remittance_sequence, remittance_layout;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cadastre a conta de cobrança (boletos) nas configurações da organização.'
+      USING ERRCODE = 'P0001', HINT = 'boleto_settings_missing';
+  END IF;
+
+  INSERT INTO public.cnab_files (organization_id, file_type, layout, file_name, sequence_number, created_by)
+  VALUES (
+    _organization_id, 'remittance', remittance_layout,
+    'REMESSA-' || LPAD(remittance_sequence::TEXT, 6, '0') || '.REM',
+    remittance_sequence, auth.uid()
+  )
+  RETURNING id INTO new_file_id;
+
+  FOR inst IN
+    SELECT id, installment_number, total_installments, status, boleto_our_number
+    FROM public.installments
+    WHERE id = ANY(_installment_ids) AND organization_id = _organization_id
+    ORDER BY due_date, installment_number
+    FOR UPDATE
+  LOOP
+    found_count := found_count + 1;
+
+    IF inst.status NOT IN ('pending', 'overdue', 'partial') THEN
+      RAISE EXCEPTION 'A parcela %/% não está em aberto.', inst.installment_number, inst.total_installments
+        USING ERRCODE = 'P0001', HINT = 'boleto_installment_not_open';
+    END IF;
+
+    IF inst.boleto_our_number IS NULL THEN
+      UPDATE public.organizations
+      SET boleto_our_number_sequence = boleto_our_number_sequence + 1
+      WHERE id = _organization_id
+      RETURNING boleto_our_number_sequence INTO next_our_number;
+    ELSE
+      next_our_number := inst.boleto_our_number;
+    END IF;
+
+    UPDATE public.installments
+    SET boleto_our_number = next_our_number,
+        boleto_remittance_id = new_file_id
+    WHERE id = inst.id;
+  END LOOP;
+
+  IF found_count <> array_length(_installment_ids, 1) THEN
+    RAISE EXCEPTION 'Parcela não encontrada na organização.'
+      USING ERRCODE = 'P0001', HINT = 'boleto_installment_not_open';
+  END IF;
+
+  RETURN new_file_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_boleto_remittance(UUID, UUID[]) TO authenticated;
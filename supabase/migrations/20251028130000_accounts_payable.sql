@@ -0,0 +1,178 @@
+-- ============================================
+-- CONTAS A PAGAR E FORNECEDORES
+-- ============================================
+-- Cadastro de fornecedores (hotéis, transportadoras, guias...) e das contas a pagar
+-- de cada viagem. Uma conta pode ser vinculada ao pacote e/ou ao pedido que a originou.
+-- Status: pending (em aberto), paid (paga, com data e valor pagos) e cancelled.
+-- "Vencida" é derivado (pending com due_date < hoje), como nas parcelas a receber.
+
+-- 1. ENUMS
+CREATE TYPE public.supplier_category AS ENUM (
+  'hotel',
+  'transport',
+  'guide',
+  'attraction',
+  'insurance',
+  'agency',
+  'other'
+);
+CREATE TYPE public.payable_status AS ENUM ('pending', 'paid', 'cancelled');
+
+-- 2. CRIAR TABELA DE FORNECEDORES
+CREATE TABLE public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  category public.supplier_category NOT NULL DEFAULT 'other',
+  document TEXT,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  pix_key TEXT,
+  bank_details TEXT,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON COLUMN public.suppliers.document IS 'CPF ou CNPJ (somente dígitos)';
+COMMENT ON COLUMN public.suppliers.bank_details IS 'Dados bancários livres (banco, agência, conta)';
+
+-- 3. CRIAR TABELA DE CONTAS A PAGAR
+CREATE TABLE public.payables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE RESTRICT NOT NULL,
+  package_id UUID REFERENCES public.travel_packages(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  document_number TEXT,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  due_date DATE NOT NULL,
+  status public.payable_status NOT NULL DEFAULT 'pending',
+  paid_date DATE,
+  paid_amount DECIMAL(10,2) CHECK (paid_amount IS NULL OR paid_amount > 0),
+  payment_method TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT payables_paid_details CHECK (status <> 'paid' OR (paid_date IS NOT NULL AND paid_amount IS NOT NULL))
+);
+
+COMMENT ON COLUMN public.payables.document_number IS 'Número da nota fiscal, fatura ou boleto do fornecedor';
+COMMENT ON COLUMN public.payables.paid_amount IS 'Valor efetivamente pago (pode diferir por desconto ou encargos)';
+
+-- 4. HABILITAR RLS
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payables ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON public.suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_payables_updated_at
+  BEFORE UPDATE ON public.payables
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 5. ÍNDICES
+CREATE INDEX idx_suppliers_organization_id ON public.suppliers(organization_id);
+CREATE INDEX idx_payables_organization_id ON public.payables(organization_id);
+CREATE INDEX idx_payables_supplier_id ON public.payables(supplier_id);
+CREATE INDEX idx_payables_package_id ON public.payables(package_id);
+CREATE INDEX idx_payables_order_id ON public.payables(order_id);
+CREATE INDEX idx_payables_due_date ON public.payables(due_date);
+CREATE INDEX idx_payables_status ON public.payables(status);
+
+-- 6. POLÍTICAS
+CREATE POLICY "Organization members can view suppliers"
+ON public.suppliers FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create suppliers"
+ON public.suppliers FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update suppliers"
+ON public.suppliers FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Admins can delete suppliers"
+ON public.suppliers FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Organization members can view payables"
+ON public.payables FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create payables"
+ON public.payables FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update payables"
+ON public.payables FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Admins can delete payables"
+ON public.payables FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 7. VÍNCULOS DA MESMA ORGANIZAÇÃO
+-- Fornecedor, pacote e pedido precisam pertencer à organização da conta
+CREATE OR REPLACE FUNCTION public.validate_payable_links()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.suppliers WHERE id = NEW.supplier_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Fornecedor não pertence à organização.';
+  END IF;
+
+  IF NEW.package_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.travel_packages WHERE id = NEW.package_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Pacote não pertence à organização.';
+  END IF;
+
+  IF NEW.order_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.orders WHERE id = NEW.order_id AND organization_id = NEW.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Pedido não pertence à organização.';
+  END IF;
+
+  -- Conta reaberta ou cancelada não mantém dados de pagamento
+  IF NEW.status <> 'paid' THEN
+    NEW.paid_date := NULL;
+    NEW.paid_amount := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_payable_links
+  BEFORE INSERT OR UPDATE ON public.payables
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_payable_links();
+
+REVOKE EXECUTE ON FUNCTION public.validate_payable_links() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,349 @@
+-- ============================================
+-- COMISSÕES DE VENDAS POR AGENTE
+-- ============================================
+-- Regras de comissão por organização: percentual padrão, por agente, por pacote ou por
+-- agente + pacote, com faixas pelo valor do pedido (escalonadas). Vale o escopo mais
+-- específico que tiver faixa aplicável e, dentro dele, a faixa com o maior
+-- min_order_amount que seja <= valor total do pedido.
+-- O agente do pedido é quem o criou (orders.created_by). A comissão é lançada quando o
+-- pedido é confirmado ou a cada recebimento de parcela, conforme organizations.commission_basis.
+-- Alterar as regras não recalcula comissões já lançadas.
+
+-- 1. BASE DE CÁLCULO NA ORGANIZAÇÃO
+CREATE TYPE public.commission_basis AS ENUM (
+  'order_confirmed',      -- Sobre o valor total, na confirmação do pedido
+  'installment_received'  -- Sobre cada recebimento de parcela (sem multa e juros)
+);
+
+CREATE TYPE public.commission_status AS ENUM ('pending', 'paid', 'cancelled');
+
+ALTER TABLE public.organizations
+  ADD COLUMN IF NOT EXISTS commission_basis public.commission_basis NOT NULL DEFAULT 'order_confirmed';
+
+COMMENT ON COLUMN public.organizations.commission_basis IS 'Momento do lançamento das comissões: confirmação do pedido ou recebimento das parcelas';
+
+-- 2. CRIAR TABELA DE REGRAS
+CREATE TABLE public.commission_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  package_id UUID REFERENCES public.travel_packages(id) ON DELETE CASCADE,
+  min_order_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+  commission_percent NUMERIC(5,2) NOT NULL CHECK (commission_percent >= 0 AND commission_percent <= 100),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON COLUMN public.commission_rules.user_id IS 'Agente da regra (null = todos os agentes)';
+COMMENT ON COLUMN public.commission_rules.package_id IS 'Pacote da regra (null = todos os pacotes)';
+COMMENT ON COLUMN public.commission_rules.min_order_amount IS 'Faixa: vale para pedidos a partir deste valor total';
+
+-- Uma faixa por escopo (agente/pacote) e valor mínimo
+CREATE UNIQUE INDEX commission_rules_unique_range ON public.commission_rules (
+  organization_id,
+  COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  COALESCE(package_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  min_order_amount
+);
+
+ALTER TABLE public.commission_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_commission_rules_updated_at
+  BEFORE UPDATE ON public.commission_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_commission_rules_organization_id ON public.commission_rules(organization_id);
+
+CREATE POLICY "Organization members can view commission rules"
+ON public.commission_rules FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can create commission rules"
+ON public.commission_rules FOR INSERT
+WITH CHECK (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can update commission rules"
+ON public.commission_rules FOR UPDATE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can delete commission rules"
+ON public.commission_rules FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 3. CRIAR TABELA DE COMISSÕES LANÇADAS
+CREATE TABLE public.commission_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  installment_payment_id UUID REFERENCES public.installment_payments(id) ON DELETE SET NULL,
+  rule_id UUID REFERENCES public.commission_rules(id) ON DELETE SET NULL,
+  basis public.commission_basis NOT NULL,
+  base_amount DECIMAL(10,2) NOT NULL,
+  commission_percent NUMERIC(5,2) NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  reference_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  status public.commission_status NOT NULL DEFAULT 'pending',
+  paid_date DATE,
+  paid_by UUID REFERENCES public.profiles(id),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT commission_entries_paid_details CHECK (status <> 'paid' OR paid_date IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.commission_entries.base_amount IS 'Valor sobre o qual a comissão foi calculada (pedido ou recebimento)';
+COMMENT ON COLUMN public.commission_entries.reference_date IS 'Data da confirmação do pedido ou do recebimento da parcela';
+
+ALTER TABLE public.commission_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_commission_entries_updated_at
+  BEFORE UPDATE ON public.commission_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_commission_entries_organization_id ON public.commission_entries(organization_id);
+CREATE INDEX idx_commission_entries_user_id ON public.commission_entries(user_id);
+CREATE INDEX idx_commission_entries_order_id ON public.commission_entries(order_id);
+CREATE INDEX idx_commission_entries_reference_date ON public.commission_entries(reference_date);
+CREATE INDEX idx_commission_entries_status ON public.commission_entries(status);
+
+-- Uma comissão ativa por confirmação de pedido e por recebimento
+CREATE UNIQUE INDEX commission_entries_unique_order
+  ON public.commission_entries(order_id)
+  WHERE basis = 'order_confirmed' AND status <> 'cancelled';
+CREATE UNIQUE INDEX commission_entries_unique_installment_payment
+  ON public.commission_entries(installment_payment_id)
+  WHERE installment_payment_id IS NOT NULL;
+
+-- Administradores veem todas as comissões; agentes, somente as próprias
+CREATE POLICY "Admins can view commission entries"
+ON public.commission_entries FOR SELECT
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can view own commission entries"
+ON public.commission_entries FOR SELECT
+USING (user_id = auth.uid() AND public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can update commission entries"
+ON public.commission_entries FOR UPDATE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can delete commission entries"
+ON public.commission_entries FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 4. PAGAMENTO DA COMISSÃO
+-- Comissão reaberta ou cancelada não mantém dados de pagamento
+CREATE OR REPLACE FUNCTION public.sync_commission_entry_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' THEN
+    IF OLD.status IS DISTINCT FROM 'paid' THEN
+      NEW.paid_by := COALESCE(NEW.paid_by, auth.uid());
+    END IF;
+  ELSE
+    NEW.paid_date := NULL;
+    NEW.paid_by := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_commission_entry_payment
+  BEFORE UPDATE OF status, paid_date ON public.commission_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_commission_entry_payment();
+
+-- 5. REGRA APLICÁVEL
+-- Escopos do mais específico ao mais geral: agente + pacote, pacote, agente, padrão.
+CREATE OR REPLACE FUNCTION public.resolve_commission_rule(
+  _organization_id UUID,
+  _user_id UUID,
+  _package_id UUID,
+  _order_amount NUMERIC
+)
+RETURNS TABLE (rule_id UUID, commission_percent NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.commission_percent
+  FROM public.commission_rules r
+  WHERE r.organization_id = _organization_id
+    AND (r.user_id IS NULL OR r.user_id = _user_id)
+    AND (r.package_id IS NULL OR r.package_id = _package_id)
+    AND r.min_order_amount <= COALESCE(_order_amount, 0)
+  ORDER BY
+    (r.user_id IS NOT NULL AND r.package_id IS NOT NULL) DESC,
+    (r.package_id IS NOT NULL) DESC,
+    (r.user_id IS NOT NULL) DESC,
+    r.min_order_amount DESC
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_commission_rule(UUID, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Lança a comissão do agente sobre _base_amount (sem regra aplicável ou percentual zero, nada é lançado)
+CREATE OR REPLACE FUNCTION public.create_commission_entry(
+  _order_id UUID,
+  _basis public.commission_basis,
+  _base_amount NUMERIC,
+  _reference_date DATE,
+  _installment_payment_id UUID DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row RECORD;
+  rule_row RECORD;
+BEGIN
+  SELECT id, organization_id, created_by, package_id, total_amount
+  INTO order_row
+  FROM public.orders
+  WHERE id = _order_id;
+
+  IF NOT FOUND OR order_row.created_by IS NULL OR COALESCE(_base_amount, 0) <= 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO rule_row
+  FROM public.resolve_commission_rule(
+    order_row.organization_id,
+    order_row.created_by,
+    order_row.package_id,
+    order_row.total_amount
+  );
+
+  IF rule_row.rule_id IS NULL OR rule_row.commission_percent <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.commission_entries (
+    organization_id, user_id, order_id, installment_payment_id, rule_id, basis,
+    base_amount, commission_percent, amount, reference_date
+  )
+  VALUES (
+    order_row.organization_id,
+    order_row.created_by,
+    order_row.id,
+    _installment_payment_id,
+    rule_row.rule_id,
+    _basis,
+    round(_base_amount, 2),
+    rule_row.commission_percent,
+    round(_base_amount * rule_row.commission_percent / 100, 2),
+    COALESCE(_reference_date, CURRENT_DATE)
+  )
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_commission_entry(UUID, public.commission_basis, NUMERIC, DATE, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 6. LANÇAMENTO NA CONFIRMAÇÃO E CANCELAMENTO DO PEDIDO
+CREATE OR REPLACE FUNCTION public.handle_order_commission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'confirmed' AND EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = NEW.organization_id AND commission_basis = 'order_confirmed'
+  ) THEN
+    PERFORM public.create_commission_entry(
+      NEW.id,
+      'order_confirmed',
+      NEW.total_amount,
+      COALESCE(NEW.confirmed_at::date, CURRENT_DATE)
+    );
+  END IF;
+
+  -- Pedido cancelado: comissões ainda não pagas são canceladas
+  IF NEW.status = 'cancelled' THEN
+    UPDATE public.commission_entries
+    SET status = 'cancelled'
+    WHERE order_id = NEW.id AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_order_commission
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_order_commission();
+
+REVOKE EXECUTE ON FUNCTION public.handle_order_commission() FROM PUBLIC, anon, authenticated;
+
+-- 7. LANÇAMENTO NO RECEBIMENTO DE PARCELAS
+CREATE OR REPLACE FUNCTION public.handle_installment_payment_commission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_order_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- Recebimento estornado: comissão ainda não paga é cancelada
+    UPDATE public.commission_entries
+    SET status = 'cancelled'
+    WHERE installment_payment_id = OLD.id AND status = 'pending';
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = NEW.organization_id AND commission_basis = 'installment_received'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT p.order_id INTO target_order_id
+  FROM public.installments i
+  JOIN public.payments p ON p.id = i.payment_id
+  WHERE i.id = NEW.installment_id;
+
+  IF target_order_id IS NOT NULL THEN
+    PERFORM public.create_commission_entry(
+      target_order_id,
+      'installment_received',
+      NEW.amount,
+      NEW.payment_date,
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_installment_payment_commission
+  AFTER INSERT ON public.installment_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_installment_payment_commission();
+
+CREATE TRIGGER handle_installment_payment_commission_reversal
+  BEFORE DELETE ON public.installment_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_installment_payment_commission();
+
+REVOKE EXECUTE ON FUNCTION public.handle_installment_payment_commission() FROM PUBLIC, anon, authenticated;
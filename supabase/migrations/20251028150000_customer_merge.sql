@@ -0,0 +1,171 @@
+-- ============================================
+-- CLIENTES DUPLICADOS: MESCLAGEM E AUDITORIA
+-- ============================================
+-- A detecção de duplicados (CPF, email, telefone e nome parecido) é feita no app.
+-- A mesclagem é feita somente por merge_customers(), que em uma única transação:
+--   - transfere pedidos, orçamentos e passageiros do cliente mesclado para o mantido;
+--   - completa os campos vazios do cliente mantido com os dados do mesclado;
+--   - registra em customer_merges uma cópia do cliente mesclado (auditoria);
+--   - exclui o cliente mesclado.
+-- Pares revisados que não são a mesma pessoa ficam em customer_duplicate_dismissals.
+
+-- 1. REGISTRO DE MESCLAGENS
+-- merged_customer_id não tem FK: o cliente mesclado deixa de existir.
+CREATE TABLE public.customer_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  surviving_customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  merged_customer_id UUID NOT NULL,
+  merged_customer_data JSONB NOT NULL,
+  orders_moved INTEGER NOT NULL DEFAULT 0,
+  quotes_moved INTEGER NOT NULL DEFAULT 0,
+  passengers_moved INTEGER NOT NULL DEFAULT 0,
+  merged_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+COMMENT ON COLUMN public.customer_merges.merged_customer_data IS 'Cópia do cadastro do cliente mesclado no momento da mesclagem';
+
+ALTER TABLE public.customer_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_customer_merges_organization_id ON public.customer_merges(organization_id);
+CREATE INDEX idx_customer_merges_surviving_customer_id ON public.customer_merges(surviving_customer_id);
+
+-- Somente leitura: os registros são gravados por merge_customers()
+CREATE POLICY "Organization members can view customer merges"
+ON public.customer_merges FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+-- 2. PARES DESCARTADOS NA REVISÃO ("não é duplicado")
+-- O par é gravado em ordem (customer_id < other_customer_id) para ser único.
+CREATE TABLE public.customer_duplicate_dismissals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE NOT NULL,
+  other_customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE NOT NULL,
+  dismissed_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT customer_duplicate_dismissals_ordered CHECK (customer_id < other_customer_id),
+  CONSTRAINT customer_duplicate_dismissals_unique_pair UNIQUE (customer_id, other_customer_id)
+);
+
+ALTER TABLE public.customer_duplicate_dismissals ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_customer_duplicate_dismissals_organization_id ON public.customer_duplicate_dismissals(organization_id);
+
+CREATE POLICY "Organization members can view customer duplicate dismissals"
+ON public.customer_duplicate_dismissals FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create customer duplicate dismissals"
+ON public.customer_duplicate_dismissals FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Admins can delete customer duplicate dismissals"
+ON public.customer_duplicate_dismissals FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 3. MESCLAR CLIENTES
+-- Somente administradores (como a exclusão de clientes).
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _surviving_customer_id UUID,
+  _merged_customer_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  surviving_row public.customers%ROWTYPE;
+  merged_row public.customers%ROWTYPE;
+  moved_orders INTEGER;
+  moved_quotes INTEGER;
+  moved_passengers INTEGER;
+  new_merge_id UUID;
+BEGIN
+  IF _surviving_customer_id = _merged_customer_id THEN
+    RAISE EXCEPTION 'Selecione dois clientes diferentes para mesclar.'
+      USING ERRCODE = 'P0001', HINT = 'same_customer';
+  END IF;
+
+  SELECT * INTO surviving_row FROM public.customers WHERE id = _surviving_customer_id FOR UPDATE;
+  SELECT * INTO merged_row FROM public.customers WHERE id = _merged_customer_id FOR UPDATE;
+
+  IF surviving_row.id IS NULL OR merged_row.id IS NULL
+    OR NOT public.is_org_admin(auth.uid(), surviving_row.organization_id) THEN
+    RAISE EXCEPTION 'Cliente não encontrado ou sem permissão para mesclar clientes.';
+  END IF;
+
+  IF merged_row.organization_id <> surviving_row.organization_id THEN
+    RAISE EXCEPTION 'Os clientes pertencem a organizações diferentes.'
+      USING ERRCODE = 'P0001', HINT = 'organization_mismatch';
+  END IF;
+
+  UPDATE public.orders
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_orders = ROW_COUNT;
+
+  UPDATE public.quotes
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_quotes = ROW_COUNT;
+
+  -- Pedido que já tinha os dois como passageiros: mantém uma linha só (e o titular)
+  UPDATE public.order_passengers s
+  SET is_primary = true, updated_at = now()
+  FROM public.order_passengers m
+  WHERE s.customer_id = _surviving_customer_id
+    AND m.customer_id = _merged_customer_id
+    AND m.order_id = s.order_id
+    AND m.is_primary;
+
+  DELETE FROM public.order_passengers m
+  WHERE m.customer_id = _merged_customer_id
+    AND EXISTS (
+      SELECT 1 FROM public.order_passengers s
+      WHERE s.order_id = m.order_id AND s.customer_id = _surviving_customer_id
+    );
+
+  UPDATE public.order_passengers
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_passengers = ROW_COUNT;
+
+  -- Campos vazios do cliente mantido são completados com os do mesclado
+  UPDATE public.customers
+  SET cpf = COALESCE(NULLIF(cpf, ''), NULLIF(merged_row.cpf, '')),
+      birth_date = COALESCE(birth_date, merged_row.birth_date),
+      address = COALESCE(NULLIF(address, ''), NULLIF(merged_row.address, '')),
+      city = COALESCE(NULLIF(city, ''), NULLIF(merged_row.city, '')),
+      state = COALESCE(NULLIF(state, ''), NULLIF(merged_row.state, '')),
+      zip_code = COALESCE(NULLIF(zip_code, ''), NULLIF(merged_row.zip_code, '')),
+      notes = CASE
+        WHEN COALESCE(TRIM(merged_row.notes), '') = '' THEN notes
+        WHEN COALESCE(TRIM(notes), '') = '' THEN merged_row.notes
+        ELSE notes || E'\n\n' || merged_row.notes
+      END,
+      updated_at = now()
+  WHERE id = _surviving_customer_id;
+
+  INSERT INTO public.customer_merges (
+    organization_id, surviving_customer_id, merged_customer_id, merged_customer_data,
+    orders_moved, quotes_moved, passengers_moved, merged_by
+  )
+  VALUES (
+    surviving_row.organization_id, _surviving_customer_id, _merged_customer_id, to_jsonb(merged_row),
+    moved_orders, moved_quotes, moved_passengers, auth.uid()
+  )
+  RETURNING id INTO new_merge_id;
+
+  DELETE FROM public.customers WHERE id = _merged_customer_id;
+
+  RETURN new_merge_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_customers(UUID, UUID) TO authenticated;
@@ -0,0 +1,168 @@
+-- ============================================
+-- CPF/CNPJ SOMENTE COM DÍGITOS E CPF ÚNICO POR ORGANIZAÇÃO
+-- ============================================
+-- Os dígitos verificadores (módulo 11) são validados no app (src/lib/cpfCnpj.ts).
+-- Aqui o banco garante o formato gravado e que o mesmo CPF não seja cadastrado
+-- duas vezes na organização.
+-- Cadastros antigos com CPF incompleto ou repetido perdem o CPF, que é preservado
+-- nas observações do cliente para revisão (tela Clientes Duplicados).
+
+-- 1. NORMALIZAR DADOS EXISTENTES (somente dígitos)
+UPDATE public.customers
+SET cpf = NULLIF(regexp_replace(cpf, '\D', '', 'g'), '')
+WHERE cpf IS NOT NULL AND cpf !~ '^\d{11}$';
+
+UPDATE public.order_passengers
+SET cpf = NULLIF(regexp_replace(cpf, '\D', '', 'g'), '')
+WHERE cpf IS NOT NULL AND cpf !~ '^\d{11}$';
+
+UPDATE public.organizations
+SET cnpj = NULLIF(regexp_replace(cnpj, '\D', '', 'g'), '')
+WHERE cnpj IS NOT NULL AND cnpj !~ '^\d{14}$';
+
+-- CPF sem 11 dígitos: vai para as observações
+UPDATE public.customers
+SET notes = CONCAT_WS(E'\n\n', NULLIF(TRIM(notes), ''), 'CPF removido por estar incompleto: ' || cpf),
+    cpf = NULL
+WHERE cpf IS NOT NULL AND cpf !~ '^\d{11}$';
+
+-- CPF repetido na organização: fica no cadastro mais antigo
+WITH ranked AS (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY organization_id, cpf ORDER BY created_at, id) AS rn
+  FROM public.customers
+  WHERE cpf IS NOT NULL
+)
+UPDATE public.customers c
+SET notes = CONCAT_WS(E'\n\n', NULLIF(TRIM(c.notes), ''), 'CPF removido por já existir em outro cliente: ' || c.cpf),
+    cpf = NULL
+FROM ranked
+WHERE ranked.id = c.id AND ranked.rn > 1;
+
+-- 2. NORMALIZAÇÃO AUTOMÁTICA DO CPF DO CLIENTE
+-- Aceita CPF com máscara vindo de qualquer cliente (app, importação, funções).
+CREATE OR REPLACE FUNCTION public.normalize_customer_cpf()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.cpf := NULLIF(regexp_replace(COALESCE(NEW.cpf, ''), '\D', '', 'g'), '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_customer_cpf
+  BEFORE INSERT OR UPDATE OF cpf ON public.customers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_customer_cpf();
+
+-- 3. RESTRIÇÕES
+ALTER TABLE public.customers
+  ADD CONSTRAINT customers_cpf_digits CHECK (cpf IS NULL OR cpf ~ '^\d{11}$');
+
+CREATE UNIQUE INDEX idx_customers_organization_cpf
+  ON public.customers(organization_id, cpf)
+  WHERE cpf IS NOT NULL;
+
+-- 4. MESCLAGEM: exclui o cliente mesclado antes de completar o mantido,
+-- para o CPF herdado não colidir com o índice único
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _surviving_customer_id UUID,
+  _merged_customer_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  surviving_row public.customers%ROWTYPE;
+  merged_row public.customers%ROWTYPE;
+  moved_orders INTEGER;
+  moved_quotes INTEGER;
+  moved_passengers INTEGER;
+  new_merge_id UUID;
+BEGIN
+  IF _surviving_customer_id = _merged_customer_id THEN
+    RAISE EXCEPTION 'Selecione dois clientes diferentes para mesclar.'
+      USING ERRCODE = 'P0001', HINT = 'same_customer';
+  END IF;
+
+  SELECT * INTO surviving_row FROM public.customers WHERE id = _surviving_customer_id FOR UPDATE;
+  SELECT * INTO merged_row FROM public.customers WHERE id = _merged_customer_id FOR UPDATE;
+
+  IF surviving_row.id IS NULL OR merged_row.id IS NULL
+    OR NOT public.is_org_admin(auth.uid(), surviving_row.organization_id) THEN
+    RAISE EXCEPTION 'Cliente não encontrado ou sem permissão para mesclar clientes.';
+  END IF;
+
+  IF merged_row.organization_id <> surviving_row.organization_id THEN
+    RAISE EXCEPTION 'Os clientes pertencem a organizações diferentes.'
+      USING ERRCODE = 'P0001', HINT = 'organization_mismatch';
+  END IF;
+
+  UPDATE public.orders
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_orders = ROW_COUNT;
+
+  UPDATE public.quotes
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_quotes = ROW_COUNT;
+
+  -- Pedido que já tinha os dois como passageiros: mantém uma linha só (e o titular)
+  UPDATE public.order_passengers s
+  SET is_primary = true, updated_at = now()
+  FROM public.order_passengers m
+  WHERE s.customer_id = _surviving_customer_id
+    AND m.customer_id = _merged_customer_id
+    AND m.order_id = s.order_id
+    AND m.is_primary;
+
+  DELETE FROM public.order_passengers m
+  WHERE m.customer_id = _merged_customer_id
+    AND EXISTS (
+      SELECT 1 FROM public.order_passengers s
+      WHERE s.order_id = m.order_id AND s.customer_id = _surviving_customer_id
+    );
+
+  UPDATE public.order_passengers
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_passengers = ROW_COUNT;
+
+  INSERT INTO public.customer_merges (
+    organization_id, surviving_customer_id, merged_customer_id, merged_customer_data,
+    orders_moved, quotes_moved, passengers_moved, merged_by
+  )
+  VALUES (
+    surviving_row.organization_id, _surviving_customer_id, _merged_customer_id, to_jsonb(merged_row),
+    moved_orders, moved_quotes, moved_passengers, auth.uid()
+  )
+  RETURNING id INTO new_merge_id;
+
+  DELETE FROM public.customers WHERE id = _merged_customer_id;
+
+  -- Campos vazios do cliente mantido são completados com os do mesclado
+  -- (depois da exclusão, para o CPF não colidir com o índice único)
+  UPDATE public.customers
+  SET cpf = COALESCE(NULLIF(cpf, ''), NULLIF(merged_row.cpf, '')),
+      birth_date = COALESCE(birth_date, merged_row.birth_date),
+      address = COALESCE(NULLIF(address, ''), NULLIF(merged_row.address, '')),
+      city = COALESCE(NULLIF(city, ''), NULLIF(merged_row.city, '')),
+      state = COALESCE(NULLIF(state, ''), NULLIF(merged_row.state, '')),
+      zip_code = COALESCE(NULLIF(zip_code, ''), NULLIF(merged_row.zip_code, '')),
+      notes = CASE
+        WHEN COALESCE(TRIM(merged_row.notes), '') = '' THEN notes
+        WHEN COALESCE(TRIM(notes), '') = '' THEN merged_row.notes
+        ELSE notes || E'\n\n' || merged_row.notes
+      END,
+      updated_at = now()
+  WHERE id = _surviving_customer_id;
+
+  RETURN new_merge_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_customers(UUID, UUID) TO authenticated;
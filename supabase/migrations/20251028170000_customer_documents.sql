@@ -0,0 +1,213 @@
+-- ============================================
+-- DOCUMENTOS DE VIAGEM DO CLIENTE
+-- ============================================
+-- Passaporte, visto, RG e outros documentos do cliente, com país emissor, datas de
+-- emissão/validade e a digitalização opcional no bucket privado 'customer-documents',
+-- em <organization_id>/<customer_id>/<arquivo>.
+-- A validade é conferida no pedido (data da viagem + margem) e no relatório de vencimentos.
+
+-- 1. CRIAR ENUM DE TIPO DE DOCUMENTO
+CREATE TYPE public.customer_document_type AS ENUM (
+  'passport', -- Passaporte
+  'visa',     -- Visto
+  'rg',       -- RG (carteira de identidade)
+  'cnh',      -- Carteira de motorista
+  'other'
+);
+
+-- 2. CRIAR TABELA DE DOCUMENTOS DO CLIENTE
+CREATE TABLE public.customer_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE NOT NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE NOT NULL,
+  document_type public.customer_document_type NOT NULL,
+  document_number TEXT NOT NULL,
+  issuing_country TEXT,
+  issue_date DATE,
+  expiry_date DATE,
+  file_name TEXT,
+  file_path TEXT UNIQUE,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT customer_documents_dates CHECK (issue_date IS NULL OR expiry_date IS NULL OR expiry_date >= issue_date),
+  CONSTRAINT customer_documents_file CHECK ((file_path IS NULL) = (file_name IS NULL))
+);
+
+COMMENT ON COLUMN public.customer_documents.issuing_country IS 'País emissor (no visto, o país de destino que o concedeu)';
+COMMENT ON COLUMN public.customer_documents.file_path IS 'Caminho da digitalização no bucket customer-documents';
+
+ALTER TABLE public.customer_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_customer_documents_updated_at
+  BEFORE UPDATE ON public.customer_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_customer_documents_customer_id ON public.customer_documents(customer_id);
+CREATE INDEX idx_customer_documents_expiry ON public.customer_documents(organization_id, expiry_date)
+  WHERE expiry_date IS NOT NULL;
+
+CREATE POLICY "Organization members can view customer documents"
+ON public.customer_documents FOR SELECT
+USING (public.is_org_member(auth.uid(), organization_id));
+
+CREATE POLICY "Agents can create customer documents"
+ON public.customer_documents FOR INSERT
+WITH CHECK (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Agents can update customer documents"
+ON public.customer_documents FOR UPDATE
+USING (
+  public.is_org_member(auth.uid(), organization_id)
+  AND NOT public.has_org_role(auth.uid(), organization_id, 'viewer')
+);
+
+CREATE POLICY "Admins can delete customer documents"
+ON public.customer_documents FOR DELETE
+USING (public.is_org_admin(auth.uid(), organization_id));
+
+-- 3. BUCKET PRIVADO PARA AS DIGITALIZAÇÕES
+-- A primeira pasta do caminho é o organization_id (controle de acesso por organização).
+-- Agentes podem remover arquivos para substituir a digitalização de um documento.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('customer-documents', 'customer-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Organization members can read customer document files"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'customer-documents'
+  AND public.is_org_member(auth.uid(), ((storage.foldername(name))[1])::UUID)
+);
+
+CREATE POLICY "Agents can upload customer document files"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'customer-documents'
+  AND public.is_org_member(auth.uid(), ((storage.foldername(name))[1])::UUID)
+  AND NOT public.has_org_role(auth.uid(), ((storage.foldername(name))[1])::UUID, 'viewer')
+);
+
+CREATE POLICY "Agents can delete customer document files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'customer-documents'
+  AND public.is_org_member(auth.uid(), ((storage.foldername(name))[1])::UUID)
+  AND NOT public.has_org_role(auth.uid(), ((storage.foldername(name))[1])::UUID, 'viewer')
+);
+
+-- 4. MESCLAGEM DE CLIENTES TRANSFERE OS DOCUMENTOS
+-- Sem isso, os documentos do cadastro mesclado seriam excluídos em cascata.
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _surviving_customer_id UUID,
+  _merged_customer_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  surviving_row public.customers%ROWTYPE;
+  merged_row public.customers%ROWTYPE;
+  moved_orders INTEGER;
+  moved_quotes INTEGER;
+  moved_passengers INTEGER;
+  new_merge_id UUID;
+BEGIN
+  IF _surviving_customer_id = _merged_customer_id THEN
+    RAISE EXCEPTION 'Selecione dois clientes diferentes para mesclar.'
+      USING ERRCODE = 'P0001', HINT = 'same_customer';
+  END IF;
+
+  SELECT * INTO surviving_row FROM public.customers WHERE id = _surviving_customer_id FOR UPDATE;
+  SELECT * INTO merged_row FROM public.customers WHERE id = _merged_customer_id FOR UPDATE;
+
+  IF surviving_row.id IS NULL OR merged_row.id IS NULL
+    OR NOT public.is_org_admin(auth.uid(), surviving_row.organization_id) THEN
+    RAISE EXCEPTION 'Cliente não encontrado ou sem permissão para mesclar clientes.';
+  END IF;
+
+  IF merged_row.organization_id <> surviving_row.organization_id THEN
+    RAISE EXCEPTION 'Os clientes pertencem a organizações diferentes.'
+      USING ERRCODE = 'P0001', HINT = 'organization_mismatch';
+  END IF;
+
+  UPDATE public.orders
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_orders = ROW_COUNT;
+
+  UPDATE public.quotes
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_quotes = ROW_COUNT;
+
+  -- Pedido que já tinha os dois como passageiros: mantém uma linha só (e o titular)
+  UPDATE public.order_passengers s
+  SET is_primary = true, updated_at = now()
+  FROM public.order_passengers m
+  WHERE s.customer_id = _surviving_customer_id
+    AND m.customer_id = _merged_customer_id
+    AND m.order_id = s.order_id
+    AND m.is_primary;
+
+  DELETE FROM public.order_passengers m
+  WHERE m.customer_id = _merged_customer_id
+    AND EXISTS (
+      SELECT 1 FROM public.order_passengers s
+      WHERE s.order_id = m.order_id AND s.customer_id = _surviving_customer_id
+    );
+
+  UPDATE public.order_passengers
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+  GET DIAGNOSTICS moved_passengers = ROW_COUNT;
+
+  -- Documentos de viagem acompanham o cliente (os arquivos continuam no mesmo caminho)
+  UPDATE public.customer_documents
+  SET customer_id = _surviving_customer_id, updated_at = now()
+  WHERE customer_id = _merged_customer_id;
+
+  INSERT INTO public.customer_merges (
+    organization_id, surviving_customer_id, merged_customer_id, merged_customer_data,
+    orders_moved, quotes_moved, passengers_moved, merged_by
+  )
+  VALUES (
+    surviving_row.organization_id, _surviving_customer_id, _merged_customer_id, to_jsonb(merged_row),
+    moved_orders, moved_quotes, moved_passengers, auth.uid()
+  )
+  RETURNING id INTO new_merge_id;
+
+  DELETE FROM public.customers WHERE id = _merged_customer_id;
+
+  -- Campos vazios do cliente mantido são completados com os do mesclado
+  -- (depois da exclusão, para o CPF não colidir com o índice único)
+  UPDATE public.customers
+  SET cpf = COALESCE(NULLIF(cpf, ''), NULLIF(merged_row.cpf, '')),
+      birth_date = COALESCE(birth_date, merged_row.birth_date),
+      address = COALESCE(NULLIF(address, ''), NULLIF(merged_row.address, '')),
+      city = COALESCE(NULLIF(city, ''), NULLIF(merged_row.city, '')),
+      state = COALESCE(NULLIF(state, ''), NULLIF(merged_row.state, '')),
+      zip_code = COALESCE(NULLIF(zip_code, ''), NULLIF(merged_row.zip_code, '')),
+      notes = CASE
+        WHEN COALESCE(TRIM(merged_row.notes), '') = '' THEN notes
+        WHEN COALESCE(TRIM(notes), '') = '' THEN merged_row.notes
+        ELSE notes || E'\n\n' || merged_row.notes
+      END,
+      updated_at = now()
+  WHERE id = _surviving_customer_id;
+
+  RETURN new_merge_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_customers(UUID, UUID) TO authenticated;
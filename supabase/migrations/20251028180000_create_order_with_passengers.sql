@@ -0,0 +1,69 @@
+-- ============================================
+-- CRIAÇÃO ATÔMICA DE PEDIDO, PASSAGEIROS E PAGAMENTO
+-- ============================================
+-- O pedido era criado pelo cliente em três inserts separados (pedido, passageiros e pagamento).
+-- Se os passageiros falhassem, ficava um pedido com total mas sem a lista de viajantes.
+-- create_order_with_passengers() grava tudo em uma única transação: qualquer erro desfaz o pedido.
+--
+-- A função é SECURITY INVOKER: as políticas RLS de orders, order_passengers e payments
+-- continuam valendo para o usuário que chama (viewers não criam pedidos).
+
+CREATE OR REPLACE FUNCTION public.create_order_with_passengers(
+  _organization_id UUID,
+  _customer_id UUID,
+  _package_id UUID,
+  _travel_date DATE,
+  _number_of_travelers INTEGER,
+  _total_amount NUMERIC,
+  _departure_id UUID DEFAULT NULL,
+  _unit_price NUMERIC DEFAULT NULL,
+  _special_requests TEXT DEFAULT NULL,
+  _passengers JSONB DEFAULT '[]'::JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_order_id UUID;
+  order_total NUMERIC;
+BEGIN
+  INSERT INTO public.orders (
+    customer_id, package_id, departure_id, number_of_travelers, travel_date,
+    special_requests, total_amount, unit_price, status, organization_id, created_by
+  )
+  VALUES (
+    _customer_id, _package_id, _departure_id, _number_of_travelers, _travel_date,
+    NULLIF(TRIM(_special_requests), ''), _total_amount, _unit_price, 'pending', _organization_id, auth.uid()
+  )
+  RETURNING id INTO new_order_id;
+
+  INSERT INTO public.order_passengers (
+    order_id, organization_id, customer_id, full_name, cpf, birth_date,
+    document_type, document_number, is_primary, created_by
+  )
+  SELECT
+    new_order_id, _organization_id, p.customer_id, TRIM(p.full_name), p.cpf, p.birth_date,
+    p.document_type, p.document_number, COALESCE(p.is_primary, false), auth.uid()
+  FROM jsonb_to_recordset(COALESCE(_passengers, '[]'::JSONB)) AS p(
+    customer_id UUID,
+    full_name TEXT,
+    cpf TEXT,
+    birth_date DATE,
+    document_type TEXT,
+    document_number TEXT,
+    is_primary BOOLEAN
+  );
+
+  -- O total final vem dos gatilhos (itens e passageiros); o pagamento acompanha esse valor
+  SELECT total_amount INTO order_total FROM public.orders WHERE id = new_order_id;
+
+  INSERT INTO public.payments (order_id, amount, due_date, status, organization_id, created_by)
+  VALUES (new_order_id, COALESCE(order_total, _total_amount), _travel_date, 'pending', _organization_id, auth.uid());
+
+  RETURN new_order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_passengers(UUID, UUID, UUID, DATE, INTEGER, NUMERIC, UUID, NUMERIC, TEXT, JSONB) TO authenticated;
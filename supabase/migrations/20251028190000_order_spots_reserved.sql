@@ -0,0 +1,65 @@
+-- ============================================
+-- VAGAS RESERVADAS POR PEDIDO (orders.spots_reserved)
+-- ============================================
+-- O controle de vagas (20251027110000) não reprocessou os pedidos que já existiam, mas o trigger
+-- liberava number_of_travelers vagas quando um desses pedidos era cancelado, excluído ou trocava
+-- de pacote. Essas vagas nunca tinham sido descontadas, então available_spots subia e o pacote
+-- podia ser vendido além da capacidade.
+--
+-- Cada pedido passa a guardar quantas vagas reservou de fato, e só essa quantidade é liberada.
+-- Pedidos anteriores ao controle ficam com spots_reserved nulo: não liberam nem reservam vagas.
+
+-- 1. COLUNA (nula = pedido anterior ao controle de vagas)
+ALTER TABLE public.orders ADD COLUMN spots_reserved INTEGER;
+
+COMMENT ON COLUMN public.orders.spots_reserved IS
+  'Vagas descontadas do pacote ou da saída por este pedido; nulo para pedidos anteriores ao controle de vagas';
+
+-- 2. TRIGGER DE RESERVA/LIBERAÇÃO: libera apenas o que o pedido reservou
+-- Substitui a função de 20251027120000_add_package_departures.sql
+CREATE OR REPLACE FUNCTION public.sync_package_spots_from_orders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_reserved INTEGER := 0;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND COALESCE(OLD.spots_reserved, 0) > 0 THEN
+    IF OLD.departure_id IS NOT NULL THEN
+      PERFORM public.release_departure_spots(OLD.departure_id, OLD.spots_reserved);
+    ELSE
+      PERFORM public.release_package_spots(OLD.package_id, OLD.spots_reserved);
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  -- Pedido anterior ao controle: continua fora do saldo de vagas
+  IF TG_OP = 'UPDATE' AND OLD.spots_reserved IS NULL THEN
+    NEW.spots_reserved := NULL;
+    RETURN NEW;
+  END IF;
+
+  new_reserved := public.order_reserved_spots(NEW.status, NEW.number_of_travelers);
+  IF NEW.departure_id IS NOT NULL THEN
+    PERFORM public.reserve_departure_spots(NEW.departure_id, new_reserved);
+  ELSE
+    PERFORM public.reserve_package_spots(NEW.package_id, new_reserved);
+  END IF;
+  NEW.spots_reserved := new_reserved;
+
+  RETURN NEW;
+END;
+$$;
+
+-- spots_reserved entra na lista de colunas para que o valor gravado pelo cliente seja sempre recalculado
+DROP TRIGGER IF EXISTS sync_package_spots_on_order_change ON public.orders;
+
+CREATE TRIGGER sync_package_spots_on_order_change
+  BEFORE INSERT OR DELETE OR UPDATE OF status, number_of_travelers, package_id, departure_id, spots_reserved ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_package_spots_from_orders();
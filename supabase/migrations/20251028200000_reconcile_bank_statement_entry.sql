@@ -0,0 +1,81 @@
+-- ============================================
+-- CONCILIAÇÃO BANCÁRIA EM UMA ÚNICA TRANSAÇÃO
+-- ============================================
+-- A conciliação lançava o recebimento da parcela e depois, em outra requisição, marcava o
+-- crédito do extrato como conciliado. Se a segunda falhasse, o recebimento ficava gravado com
+-- o crédito ainda pendente, que podia ser conciliado de novo (pagamento em dobro).
+-- reconcile_bank_statement_entry() faz as duas gravações juntas e só aceita créditos pendentes.
+--
+-- A função é SECURITY INVOKER: as políticas RLS de installment_payments e
+-- bank_statement_entries continuam valendo para o usuário que chama.
+
+CREATE OR REPLACE FUNCTION public.reconcile_bank_statement_entry(
+  _entry_id UUID,
+  _installment_id UUID,
+  _amount NUMERIC,
+  _late_fee_amount NUMERIC,
+  _interest_amount NUMERIC,
+  _payment_method TEXT,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  entry_row RECORD;
+  new_payment_id UUID;
+BEGIN
+  -- Trava o crédito: duas conciliações simultâneas do mesmo lançamento não passam daqui
+  SELECT organization_id, status, amount, posted_date
+  INTO entry_row
+  FROM public.bank_statement_entries
+  WHERE id = _entry_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Crédito do extrato não encontrado.';
+  END IF;
+
+  IF entry_row.status <> 'pending' THEN
+    RAISE EXCEPTION 'Este crédito já foi conciliado ou ignorado.'
+      USING ERRCODE = 'P0001', HINT = 'bank_entry_not_pending';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.installments
+    WHERE id = _installment_id AND organization_id = entry_row.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Parcela não encontrada.';
+  END IF;
+
+  -- Principal + multa + juros precisam fechar com o valor creditado pelo banco
+  IF ROUND(_amount + _late_fee_amount + _interest_amount, 2) <> entry_row.amount THEN
+    RAISE EXCEPTION 'O valor lançado (%) difere do crédito do extrato (%).',
+      ROUND(_amount + _late_fee_amount + _interest_amount, 2), entry_row.amount
+      USING ERRCODE = 'P0001', HINT = 'bank_entry_amount_mismatch';
+  END IF;
+
+  INSERT INTO public.installment_payments (
+    installment_id, organization_id, amount, late_fee_amount, interest_amount,
+    payment_date, payment_method, notes
+  )
+  VALUES (
+    _installment_id, entry_row.organization_id, ROUND(_amount, 2), ROUND(_late_fee_amount, 2), ROUND(_interest_amount, 2),
+    entry_row.posted_date, _payment_method, NULLIF(TRIM(_notes), '')
+  )
+  RETURNING id INTO new_payment_id;
+
+  UPDATE public.bank_statement_entries
+  SET status = 'matched',
+      installment_payment_id = new_payment_id,
+      matched_at = now(),
+      matched_by = auth.uid()
+  WHERE id = _entry_id;
+
+  RETURN new_payment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reconcile_bank_statement_entry(UUID, UUID, NUMERIC, NUMERIC, NUMERIC, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,65 @@
+-- ============================================
+-- DESCARTE DE REMESSA QUE NÃO CHEGOU A SER GERADA
+-- ============================================
+-- create_boleto_remittance() numera a remessa e marca as parcelas; o arquivo é montado no app
+-- em seguida. Se a montagem ou a gravação falhasse, ficava uma remessa sem conteúdo e as
+-- parcelas apontando para ela, como se tivessem sido enviadas ao banco.
+-- discard_boleto_remittance() desfaz essa numeração quando o app não consegue concluir a remessa.
+
+CREATE OR REPLACE FUNCTION public.discard_boleto_remittance(_file_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  file_row RECORD;
+BEGIN
+  SELECT organization_id, file_type, content, sequence_number
+  INTO file_row
+  FROM public.cnab_files
+  WHERE id = _file_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.is_org_member(auth.uid(), file_row.organization_id)
+    OR public.has_org_role(auth.uid(), file_row.organization_id, 'viewer') THEN
+    RAISE EXCEPTION 'Sem permissão para descartar remessa de boletos.';
+  END IF;
+
+  -- Remessa com arquivo gerado pode já ter sido enviada ao banco: não é descartada
+  IF file_row.file_type <> 'remittance' OR file_row.content <> '' THEN
+    RAISE EXCEPTION 'Somente remessas sem arquivo gerado podem ser descartadas.';
+  END IF;
+
+  -- As parcelas voltam para a última remessa gerada que as incluiu (ou nenhuma).
+  -- O nosso número atribuído continua na parcela e é reaproveitado na próxima remessa.
+  UPDATE public.installments i
+  SET boleto_remittance_id = (
+    SELECT l.file_id
+    FROM public.cnab_file_lines l
+    JOIN public.cnab_files f ON f.id = l.file_id
+    WHERE l.installment_id = i.id
+      AND f.id <> _file_id
+      AND f.file_type = 'remittance'
+      AND f.content <> ''
+    ORDER BY f.created_at DESC
+    LIMIT 1
+  )
+  WHERE i.boleto_remittance_id = _file_id;
+
+  -- O NSA só volta se nenhuma outra remessa foi numerada depois desta
+  UPDATE public.organizations
+  SET boleto_remittance_sequence = boleto_remittance_sequence - 1
+  WHERE id = file_row.organization_id
+    AND boleto_remittance_sequence = file_row.sequence_number;
+
+  -- As linhas já gravadas saem junto (ON DELETE CASCADE)
+  DELETE FROM public.cnab_files WHERE id = _file_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.discard_boleto_remittance(UUID) TO authenticated;
@@ -0,0 +1,43 @@
+-- ============================================
+-- PAGAMENTO ACOMPANHA A LISTA DE PASSAGEIROS
+-- ============================================
+-- Alterar os passageiros de um pedido muda a quantidade de viajantes e, pelos itens, o total.
+-- O pagamento e as parcelas em aberto precisam acompanhar esse total, senão o valor a receber
+-- fica diferente do pedido. recalculate_order_total() (20251027150000) já ajusta o pagamento e
+-- redistribui as parcelas; o trigger de passageiros passa a chamá-la diretamente, em vez de
+-- depender apenas da cadeia pedido → item de pacote → total.
+
+-- Substitui a função de 20251027150000_add_order_items.sql
+CREATE OR REPLACE FUNCTION public.sync_order_travelers_from_passengers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_order_id UUID;
+  passenger_count INTEGER;
+BEGIN
+  target_order_id := COALESCE(NEW.order_id, OLD.order_id);
+
+  SELECT COUNT(*) INTO passenger_count
+  FROM public.order_passengers
+  WHERE order_id = target_order_id;
+
+  IF passenger_count = 0 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  -- O item de pacote acompanha number_of_travelers (sync_order_package_item)
+  UPDATE public.orders
+  SET number_of_travelers = passenger_count,
+      updated_at = now()
+  WHERE id = target_order_id
+    AND number_of_travelers IS DISTINCT FROM passenger_count;
+
+  -- Total, pagamento e parcelas em aberto a partir dos itens (sem efeito se nada mudou)
+  PERFORM public.recalculate_order_total(target_order_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;